@@ -1,6 +1,7 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  /* config options here */
+  // Native SQLite driver, only loaded when STORAGE_BACKEND=sqlite
+  serverExternalPackages: ['better-sqlite3'],
 };
 
 module.exports = nextConfig;
\ No newline at end of file
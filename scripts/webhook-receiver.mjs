@@ -0,0 +1,26 @@
+#!/usr/bin/env node
+// Receptor HTTP local para probar las alertas por webhook
+// Uso: node scripts/webhook-receiver.mjs [puerto] [estado]
+// Configura un destino con http://localhost:<puerto>/ y pulsa "Probar"; un estado distinto de 200 sirve para probar los reintentos
+
+import { createServer } from 'http';
+
+const port = Number(process.argv[2] || 4000);
+const status = Number(process.argv[3] || 200);
+
+createServer((request, response) => {
+  let body = '';
+  request.on('data', chunk => { body += chunk; });
+  request.on('end', () => {
+    console.log(`\n[${new Date().toISOString()}] ${request.method} ${request.url}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({ received: true }));
+  });
+}).listen(port, () => {
+  console.log(`Receptor de webhooks escuchando en http://localhost:${port}/ (responde ${status})`);
+});
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuditLogQuerySchema, createValidationErrorResponse } from '@/lib/validation';
+import { auditEntriesToCsv, queryAuditLog } from '@/lib/auditLog';
+import { requirePermission } from '@/lib/auth';
+
+// GET - Filtered audit log, paginated or exported in full as CSV/JSON with ?format=
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    const parsed = AuditLogQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const { format, limit, offset, ...filters } = parsed.data;
+    // Exports also cover the entries moved to the archive
+    const entries = await queryAuditLog(filters, { includeArchive: !!format });
+
+    if (format) {
+      const fileName = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+      return new Response(format === 'csv' ? auditEntriesToCsv(entries) : JSON.stringify(entries, null, 2), {
+        headers: {
+          'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+          'Content-Disposition': `attachment; filename="${fileName}"`
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        entries: entries.slice(offset, offset + limit),
+        total: entries.length
+      }
+    });
+  } catch (error) {
+    console.error('[AuditLog] Error reading audit log:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to read audit log'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LoginSchema, createValidationErrorResponse } from '@/lib/validation';
+import { login, setSessionCookie } from '@/lib/auth';
+
+// POST - Log in with username and password, the session goes in an httpOnly cookie
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = LoginSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const result = await login(parsed.data.username, parsed.data.password);
+    if (!result) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid username or password'
+      }, { status: 401 });
+    }
+
+    const response = NextResponse.json({ success: true, data: { user: result.user } });
+    setSessionCookie(response, request, result.sessionId);
+    return response;
+  } catch (error) {
+    console.error('[Auth API] Error logging in:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to log in'
+    }, { status: 500 });
+  }
+}
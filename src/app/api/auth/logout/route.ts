@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clearSessionCookie, logout } from '@/lib/auth';
+
+// POST - End the session of the cookie
+export async function POST(request: NextRequest) {
+  try {
+    await logout(request);
+    const response = NextResponse.json({ success: true, data: null });
+    clearSessionCookie(response);
+    return response;
+  } catch (error) {
+    console.error('[Auth API] Error logging out:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to log out'
+    }, { status: 500 });
+  }
+}
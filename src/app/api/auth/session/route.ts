@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, getSessionUser, isAuthEnabled } from '@/lib/auth';
+
+// GET - Whether login is required and the user of the session cookie
+export async function GET(request: NextRequest) {
+  try {
+    const authEnabled = await isAuthEnabled();
+    const user = authEnabled ? await getSessionUser(request) : null;
+
+    return NextResponse.json({
+      success: true,
+      data: { authEnabled, user }
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('[Auth API] Error reading session:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to read session'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserCreateSchema, createValidationErrorResponse } from '@/lib/validation';
+import { AuthError, createUser, login, setSessionCookie } from '@/lib/auth';
+
+// POST - Create the first user as security-admin, which turns on login for everyone
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = UserCreateSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    await createUser(parsed.data, { firstUser: true });
+    const result = await login(parsed.data.username, parsed.data.password);
+    if (!result) {
+      throw new Error('Could not log in with the user just created');
+    }
+
+    const response = NextResponse.json({ success: true, data: { user: result.user } });
+    setSessionCookie(response, request, result.sessionId);
+    return response;
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('[Auth API] Error creating first user:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create first user'
+    }, { status: 500 });
+  }
+}
@@ -1,19 +1,35 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { PersistentStorage } from '@/lib/persistentStorage';
+import { DEFAULT_ACCOUNT_ID, getDomainsCacheFile, getRequestAccountId } from '@/lib/accounts';
 import { rm } from 'fs/promises';
 import path from 'path';
+import { requirePermission } from '@/lib/auth';
 
 /**
  * Clear all cache files including Next.js build cache
  * Use this when changing API tokens to ensure no stale data from previous account
  */
-export async function POST() {
+export async function POST(request: NextRequest) {
+  // Also deletes templates, rule mappings and preferences
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
   try {
     console.log('[Clear Cache API] Clearing all cache files...');
 
     // Clear application cache files (cache/ directory)
     await PersistentStorage.clearAll();
 
+    // Domains cache of the requesting account isn't part of the default files
+    const accountId = getRequestAccountId(request);
+    if (accountId !== DEFAULT_ACCOUNT_ID) {
+      try {
+        await PersistentStorage.delete(getDomainsCacheFile(accountId));
+      } catch (error) {
+        console.warn(`[Clear Cache API] Failed to clear domains cache of account ${accountId}:`, error);
+      }
+    }
+
     // Clear Next.js build cache (.next/cache/)
     try {
       const nextCachePath = path.join(process.cwd(), '.next', 'cache');
@@ -1,13 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { safeReadJsonFile } from '@/lib/fileSystem';
+import { getDomainsCacheFile, getRequestAccountId } from '@/lib/accounts';
+import { requirePermission } from '@/lib/auth';
 
 /**
  * GET /api/cache/domains
- * Returns the domains cache data for client-side access
+ * Returns the domains cache of the request's account for client-side access
  */
 export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
   try {
-    const domainsCache = await safeReadJsonFile('domains-cache.json');
+    const domainsCache = await safeReadJsonFile(getDomainsCacheFile(getRequestAccountId(request)));
 
     return NextResponse.json(domainsCache);
   } catch (error) {
@@ -3,8 +3,8 @@ import { z } from 'zod';
 import { DomainStatus } from '@/types/cloudflare';
 import { safeReadJsonFile, safeWriteJsonFile } from '@/lib/fileSystem';
 import { DomainCacheSchema, validateApiRequest, createValidationErrorResponse } from '@/lib/validation';
-
-const CACHE_FILE_NAME = 'domains-cache.json';
+import { getDomainsCacheFile, getRequestAccountId } from '@/lib/accounts';
+import { requirePermission } from '@/lib/auth';
 
 interface CacheData {
   domains: DomainStatus[];
@@ -12,12 +12,15 @@ interface CacheData {
   totalCount: number;
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
   const startTime = Date.now();
   console.log('[Cache API] Starting cache read...');
 
   try {
-    const cacheData = await safeReadJsonFile<CacheData>(CACHE_FILE_NAME);
+    const cacheData = await safeReadJsonFile<CacheData>(getDomainsCacheFile(getRequestAccountId(request)));
     const readTime = Date.now() - startTime;
     console.log(`[Cache API] Cache read completed in ${readTime}ms with ${cacheData.domains?.length || 0} domains`);
     return NextResponse.json(cacheData);
@@ -34,6 +37,9 @@ export async function GET() {
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
 
@@ -56,7 +62,7 @@ export async function POST(request: NextRequest) {
       totalCount: domains.length
     };
 
-    await safeWriteJsonFile(CACHE_FILE_NAME, cacheData);
+    await safeWriteJsonFile(getDomainsCacheFile(getRequestAccountId(request)), cacheData);
 
     return NextResponse.json({ success: true, ...cacheData });
   } catch (error) {
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ChangeRequestError, cancelChangeRequest } from '@/lib/changeRequests';
+import { getSessionUser, requirePermission } from '@/lib/auth';
+
+// POST - Withdraw an open change request
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Change requests require user accounts'
+      }, { status: 409 });
+    }
+
+    const { id } = await params;
+    const changeRequest = await cancelChangeRequest(id, user.username);
+    return NextResponse.json({ success: true, data: { request: changeRequest } });
+  } catch (error) {
+    if (error instanceof ChangeRequestError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('[ChangeRequests] Error cancelling change request:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to cancel change request'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ChangeRequestCommentSchema, createValidationErrorResponse } from '@/lib/validation';
+import { ChangeRequestError, addChangeRequestComment } from '@/lib/changeRequests';
+import { getSessionUser, requirePermission } from '@/lib/auth';
+
+// POST - Comment on a change request
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Change requests require user accounts'
+      }, { status: 409 });
+    }
+
+    const parsed = ChangeRequestCommentSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const changeRequest = await addChangeRequestComment(id, user.username, parsed.data.text);
+    return NextResponse.json({ success: true, data: { request: changeRequest } });
+  } catch (error) {
+    if (error instanceof ChangeRequestError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('[ChangeRequests] Error adding comment:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to add comment'
+    }, { status: 500 });
+  }
+}
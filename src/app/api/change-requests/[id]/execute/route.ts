@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ChangeRequestError,
+  claimChangeRequestExecution,
+  completeChangeRequestExecution,
+  findRuleTemplate,
+  getChangeRequest
+} from '@/lib/changeRequests';
+import { RuleJobParams } from '@/lib/bulkJobHandlers';
+import { createJobEventResponse, enqueueJob } from '@/lib/jobQueue';
+import { getRequestAccountId } from '@/lib/accounts';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { getSessionUser, requirePermission } from '@/lib/auth';
+
+// POST - Run an approved change request as a rules job, with streaming progress
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
+  const apiToken = await getRequestApiToken(request);
+  if (!apiToken) {
+    return NextResponse.json({
+      success: false,
+      error: 'API token is required'
+    }, { status: 401 });
+  }
+
+  const user = await getSessionUser(request);
+  if (!user) {
+    return NextResponse.json({
+      success: false,
+      error: 'Change requests require user accounts'
+    }, { status: 409 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const current = await getChangeRequest(id);
+    if (!current) {
+      return NextResponse.json({
+        success: false,
+        error: 'Change request not found'
+      }, { status: 404 });
+    }
+
+    const template = await findRuleTemplate(current.template.id);
+    const changeRequest = await claimChangeRequestExecution(id, user.username, template);
+
+    // Exactly the reviewed diff runs, each zone with the conflict resolution chosen in the preview
+    const entries = changeRequest.diff;
+    const conflictResolutions = Object.fromEntries(entries
+      .filter(entry => entry.resolution)
+      .map(entry => [entry.zoneId, entry.resolution!]));
+    const jobParams: RuleJobParams = { selectedRules: [changeRequest.template.friendlyId], conflictResolutions };
+
+    try {
+      const job = await enqueueJob({
+        type: 'rules',
+        action: 'add',
+        params: jobParams as Record<string, unknown>,
+        label: `Solicitud aprobada: ${changeRequest.title}`,
+        targets: entries.map(entry => ({ zoneId: entry.zoneId, domainName: entry.domainName })),
+        accountId: changeRequest.accountId || getRequestAccountId(request)
+      }, apiToken);
+
+      await completeChangeRequestExecution(id, { jobId: job.id });
+      console.log(`[ChangeRequests] ${user.username} executed change request ${id} as job ${job.id}`);
+      return createJobEventResponse(job);
+    } catch (error) {
+      await completeChangeRequestExecution(id, { error: error instanceof Error ? error.message : 'Unknown error' });
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof ChangeRequestError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('[ChangeRequests] Error executing change request:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to execute change request',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
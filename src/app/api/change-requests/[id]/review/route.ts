@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ChangeRequestReviewSchema, createValidationErrorResponse } from '@/lib/validation';
+import { ChangeRequestError, reviewChangeRequest } from '@/lib/changeRequests';
+import { getSessionUser, requirePermission } from '@/lib/auth';
+
+// POST - Approve or reject a pending change request
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requirePermission(request, 'changes:approve');
+  if (denied) return denied;
+
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Change requests require user accounts'
+      }, { status: 409 });
+    }
+
+    const parsed = ChangeRequestReviewSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const { decision, comment } = parsed.data;
+    const changeRequest = await reviewChangeRequest(id, user.username, decision === 'approve', comment);
+
+    return NextResponse.json({ success: true, data: { request: changeRequest } });
+  } catch (error) {
+    if (error instanceof ChangeRequestError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('[ChangeRequests] Error reviewing change request:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to review change request'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ChangeApprovalPolicySchema, createValidationErrorResponse } from '@/lib/validation';
+import { getApprovalPolicy, updateApprovalPolicy } from '@/lib/changeRequests';
+import { getSessionUser, isAuthEnabled, requirePermission } from '@/lib/auth';
+
+// GET - Zones where template rollouts need an approved change request
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    const [policy, enforced] = await Promise.all([getApprovalPolicy(), isAuthEnabled()]);
+    return NextResponse.json({
+      success: true,
+      data: { policy, enforced }
+    });
+  } catch (error) {
+    console.error('[ChangeRequests] Error loading approval policy:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load approval policy'
+    }, { status: 500 });
+  }
+}
+
+// PUT - Replace the approval policy
+export async function PUT(request: NextRequest) {
+  const denied = await requirePermission(request, 'changes:approve');
+  if (denied) return denied;
+
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Change requests require user accounts'
+      }, { status: 409 });
+    }
+
+    const parsed = ChangeApprovalPolicySchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const policy = await updateApprovalPolicy(parsed.data, user.username);
+    return NextResponse.json({
+      success: true,
+      data: { policy, enforced: true }
+    });
+  } catch (error) {
+    console.error('[ChangeRequests] Error updating approval policy:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update approval policy'
+    }, { status: 500 });
+  }
+}
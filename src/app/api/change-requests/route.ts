@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ChangeRequestCreateSchema, createValidationErrorResponse } from '@/lib/validation';
+import { createChangeRequest, findRuleTemplate, listChangeRequests } from '@/lib/changeRequests';
+import { getRequestAccountId } from '@/lib/accounts';
+import { getSessionUser, isAuthEnabled, requirePermission } from '@/lib/auth';
+
+// GET - Change requests of the active account
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    const enabled = await isAuthEnabled();
+    const requests = enabled ? await listChangeRequests(getRequestAccountId(request)) : [];
+    return NextResponse.json({
+      success: true,
+      data: { enabled, requests }
+    });
+  } catch (error) {
+    console.error('[ChangeRequests] Error loading change requests:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load change requests'
+    }, { status: 500 });
+  }
+}
+
+// POST - Request approval for a bulk template rollout
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
+  try {
+    // Approval needs a second user, without login there is nobody to tell apart
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Change requests require user accounts'
+      }, { status: 409 });
+    }
+
+    const parsed = ChangeRequestCreateSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const template = await findRuleTemplate(parsed.data.templateId);
+    if (!template) {
+      return NextResponse.json({
+        success: false,
+        error: 'Template not found'
+      }, { status: 404 });
+    }
+
+    const changeRequest = await createChangeRequest({
+      title: parsed.data.title,
+      template,
+      diff: parsed.data.diff,
+      accountId: getRequestAccountId(request)
+    }, user.username);
+
+    return NextResponse.json({
+      success: true,
+      data: { request: changeRequest }
+    });
+  } catch (error) {
+    console.error('[ChangeRequests] Error creating change request:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create change request'
+    }, { status: 500 });
+  }
+}
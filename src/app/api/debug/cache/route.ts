@@ -1,12 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { readdir, stat, readFile } from 'fs/promises';
 import path from 'path';
+import { requirePermission } from '@/lib/auth';
+import { getCacheDir } from '@/lib/cacheDirectory';
 
 /**
  * Debug endpoint to check cache directory status in production
  * GET /api/debug/cache?debug_key=your_secret_key
  */
 export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
   try {
     // Simple auth using query parameter
     const searchParams = request.nextUrl.searchParams;
@@ -20,7 +25,7 @@ export async function GET(request: NextRequest) {
       }, { status: 403 });
     }
 
-    const cacheDir = path.join(process.cwd(), 'cache');
+    const cacheDir = getCacheDir();
 
     console.log('[Debug] Cache directory path:', cacheDir);
     console.log('[Debug] Current working directory:', process.cwd());
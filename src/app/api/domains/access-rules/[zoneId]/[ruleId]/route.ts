@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CloudflareAPI } from '@/lib/cloudflare';
+import { IPAccessRuleIdSchema, ZoneIdSchema } from '@/lib/validation';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+
+// DELETE - Delete an IP access rule of a zone
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ zoneId: string; ruleId: string }> }
+) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
+  const { zoneId, ruleId } = await params;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    if (!ZoneIdSchema.safeParse(zoneId).success || !IPAccessRuleIdSchema.safeParse(ruleId).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid zone or rule ID'
+      }, { status: 400 });
+    }
+
+    const cloudflareAPI = new CloudflareAPI(apiToken, 'interactive');
+    await cloudflareAPI.deleteIPAccessRule(zoneId, ruleId);
+
+    console.log(`[API] Deleted IP access rule ${ruleId} in zone ${zoneId}`);
+
+    return NextResponse.json({
+      success: true,
+      data: { ruleId }
+    });
+
+  } catch (error) {
+    console.error(`[API] Error deleting IP access rule ${ruleId} in zone ${zoneId}:`, error);
+
+    if (error instanceof Error && error.message.includes('403')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions for IP access rules. Please ensure your API token has "Zone Firewall Access Rules: Edit" permission.',
+        errorType: 'INSUFFICIENT_PERMISSIONS'
+      }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete IP access rule',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
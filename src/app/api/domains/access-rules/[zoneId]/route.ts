@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CloudflareAPI } from '@/lib/cloudflare';
+import { IPAccessRuleSchema, ZoneIdSchema, createValidationErrorResponse } from '@/lib/validation';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+
+const PERMISSIONS_ERROR = 'Insufficient permissions for IP access rules. Please ensure your API token has "Zone Firewall Access Rules: Edit" permission.';
+
+// GET - IP access rules of a zone (zone scoped and inherited from the account)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ zoneId: string }> }
+) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  const { zoneId } = await params;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    if (!ZoneIdSchema.safeParse(zoneId).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid zone ID'
+      }, { status: 400 });
+    }
+
+    const cloudflareAPI = new CloudflareAPI(apiToken, 'interactive');
+    const rules = await cloudflareAPI.getIPAccessRules(zoneId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        rules,
+        totalCount: rules.length
+      }
+    });
+
+  } catch (error) {
+    console.error(`[API] Error getting IP access rules for zone ${zoneId}:`, error);
+
+    if (error instanceof Error && error.message.includes('403')) {
+      return NextResponse.json({
+        success: false,
+        error: PERMISSIONS_ERROR,
+        errorType: 'INSUFFICIENT_PERMISSIONS'
+      }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to get IP access rules',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// POST - Create an IP access rule in a zone
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ zoneId: string }> }
+) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
+  const { zoneId } = await params;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    if (!ZoneIdSchema.safeParse(zoneId).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid zone ID'
+      }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const parsed = IPAccessRuleSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const { mode, target, value, notes } = parsed.data;
+    const cloudflareAPI = new CloudflareAPI(apiToken, 'interactive');
+    const rule = await cloudflareAPI.createIPAccessRule(zoneId, {
+      mode,
+      configuration: { target, value },
+      notes
+    });
+
+    console.log(`[API] Created ${mode} access rule for ${target} ${value} in zone ${zoneId}`);
+
+    return NextResponse.json({
+      success: true,
+      data: rule
+    });
+
+  } catch (error) {
+    console.error(`[API] Error creating IP access rule in zone ${zoneId}:`, error);
+
+    if (error instanceof Error && error.message.includes('403')) {
+      return NextResponse.json({
+        success: false,
+        error: PERMISSIONS_ERROR,
+        errorType: 'INSUFFICIENT_PERMISSIONS'
+      }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create IP access rule',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
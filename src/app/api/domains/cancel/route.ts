@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { CancellationTracker } from '@/lib/cancellationTracker';
+import { requirePermission } from '@/lib/auth';
 
 /**
  * POST /api/domains/cancel
  * Cancels an in-progress domain refresh operation
  */
 export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const { requestId } = body;
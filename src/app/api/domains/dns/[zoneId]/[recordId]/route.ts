@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CloudflareAPI } from '@/lib/cloudflare';
+import { DNSRecordIdSchema, DNSRecordSchema, ZoneIdSchema, createValidationErrorResponse } from '@/lib/validation';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+
+// PATCH - Update a DNS record (the complete record is validated against its type schema)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ zoneId: string; recordId: string }> }
+) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
+  const { zoneId, recordId } = await params;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    if (!ZoneIdSchema.safeParse(zoneId).success || !DNSRecordIdSchema.safeParse(recordId).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid zone or record ID'
+      }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const parsed = DNSRecordSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const cloudflareAPI = new CloudflareAPI(apiToken, 'interactive');
+    const record = await cloudflareAPI.updateDNSRecord(zoneId, recordId, parsed.data);
+
+    console.log(`[API] Updated ${record.type} record ${record.name} in zone ${zoneId}`);
+
+    return NextResponse.json({
+      success: true,
+      data: record
+    });
+
+  } catch (error) {
+    console.error(`[API] Error updating DNS record ${recordId} in zone ${zoneId}:`, error);
+
+    if (error instanceof Error && error.message.includes('403')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to edit DNS records. Please ensure your API token has "Zone:DNS:Edit" permission.',
+        errorType: 'INSUFFICIENT_PERMISSIONS'
+      }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update DNS record',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// DELETE - Delete a DNS record
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ zoneId: string; recordId: string }> }
+) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
+  const { zoneId, recordId } = await params;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    if (!ZoneIdSchema.safeParse(zoneId).success || !DNSRecordIdSchema.safeParse(recordId).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid zone or record ID'
+      }, { status: 400 });
+    }
+
+    const cloudflareAPI = new CloudflareAPI(apiToken, 'interactive');
+    await cloudflareAPI.deleteDNSRecord(zoneId, recordId);
+
+    console.log(`[API] Deleted DNS record ${recordId} in zone ${zoneId}`);
+
+    return NextResponse.json({
+      success: true,
+      data: { recordId }
+    });
+
+  } catch (error) {
+    console.error(`[API] Error deleting DNS record ${recordId} in zone ${zoneId}:`, error);
+
+    if (error instanceof Error && error.message.includes('403')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to edit DNS records. Please ensure your API token has "Zone:DNS:Edit" permission.',
+        errorType: 'INSUFFICIENT_PERMISSIONS'
+      }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete DNS record',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CloudflareAPI } from '@/lib/cloudflare';
+import { DNSRecordSchema, ZoneIdSchema, createValidationErrorResponse } from '@/lib/validation';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+
+// GET - List every DNS record of a zone (all pages)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ zoneId: string }> }
+) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  const { zoneId } = await params;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    if (!ZoneIdSchema.safeParse(zoneId).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid zone ID'
+      }, { status: 400 });
+    }
+
+    const cloudflareAPI = new CloudflareAPI(apiToken, 'interactive');
+    const { records, totalCount } = await cloudflareAPI.getAllDNSRecords(zoneId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        records,
+        totalCount
+      }
+    });
+
+  } catch (error) {
+    console.error(`[API] Error getting DNS records for zone ${zoneId}:`, error);
+
+    if (error instanceof Error && error.message.includes('403')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to read DNS records. Please ensure your API token has "Zone:DNS:Read" permission.',
+        errorType: 'INSUFFICIENT_PERMISSIONS'
+      }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to get DNS records',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// POST - Create a DNS record in a zone
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ zoneId: string }> }
+) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
+  const { zoneId } = await params;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    if (!ZoneIdSchema.safeParse(zoneId).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid zone ID'
+      }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const parsed = DNSRecordSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const cloudflareAPI = new CloudflareAPI(apiToken, 'interactive');
+    const record = await cloudflareAPI.createDNSRecord(zoneId, parsed.data);
+
+    console.log(`[API] Created ${record.type} record ${record.name} in zone ${zoneId}`);
+
+    return NextResponse.json({
+      success: true,
+      data: record
+    });
+
+  } catch (error) {
+    console.error(`[API] Error creating DNS record in zone ${zoneId}:`, error);
+
+    if (error instanceof Error && error.message.includes('403')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to edit DNS records. Please ensure your API token has "Zone:DNS:Edit" permission.',
+        errorType: 'INSUFFICIENT_PERMISSIONS'
+      }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create DNS record',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,205 @@
+import { NextRequest } from 'next/server';
+import { CloudflareAPI } from '@/lib/cloudflare';
+import { ZoneIdSchema, ZoneFileImportSchema } from '@/lib/validation';
+import { parseZoneFile, diffZoneRecords, ZoneFileChange } from '@/lib/zoneFile';
+import { getAuditActor, recordAudit } from '@/lib/auditLog';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+
+interface ZoneFileApplyProgress {
+  type: 'progress' | 'change_complete' | 'complete' | 'error';
+  progress: number;
+  completedChanges?: number;
+  totalChanges?: number;
+  change?: {
+    id: string;
+    action: ZoneFileChange['action'];
+    type: string;
+    name: string;
+    success: boolean;
+    message: string;
+    error?: string;
+  };
+  summary?: {
+    total: number;
+    successful: number;
+    failed: number;
+  };
+  error?: string;
+}
+
+// Deletes first so a CNAME can replace other records on the same name, creates last
+const ACTION_ORDER: Record<ZoneFileChange['action'], number> = { delete: 0, update: 1, create: 2 };
+
+// POST - Apply a zone file (creates/updates/deletes) with streaming progress
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ zoneId: string }> }
+) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
+  const { zoneId } = await params;
+
+  const apiToken = await getRequestApiToken(request);
+  if (!apiToken) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'API token is required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const body = await request.json();
+  const parsedBody = ZoneFileImportSchema.safeParse(body);
+
+  if (!ZoneIdSchema.safeParse(zoneId).success || !parsedBody.success) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Valid zone ID and zone file are required' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { zoneFile, includeDeletes } = parsedBody.data;
+  const actor = await getAuditActor(request);
+
+  // Create a streaming response
+  const stream = new ReadableStream({
+    async start(controller) {
+      const encoder = new TextEncoder();
+
+      // Helper function to send progress updates
+      const sendProgress = (data: ZoneFileApplyProgress) => {
+        const chunk = encoder.encode(`data: ${JSON.stringify(data)}\n\n`);
+        controller.enqueue(chunk);
+      };
+
+      try {
+        const cloudflareAPI = new CloudflareAPI(apiToken);
+
+        // Recompute the diff server-side so the applied changes match the current records
+        const [zone, { records }] = await Promise.all([
+          cloudflareAPI.getZone(zoneId),
+          cloudflareAPI.getAllDNSRecords(zoneId)
+        ]);
+
+        const parsed = parseZoneFile(zoneFile, zone.name);
+        if (parsed.errors.length > 0) {
+          sendProgress({
+            type: 'error',
+            progress: 0,
+            error: `Zone file has ${parsed.errors.length} error(s), first at line ${parsed.errors[0].line}: ${parsed.errors[0].message}`
+          });
+          controller.close();
+          return;
+        }
+
+        const diff = diffZoneRecords(records, parsed.records.map(r => r.record));
+        const changes = diff.changes
+          .filter(change => includeDeletes || change.action !== 'delete')
+          .sort((a, b) => ACTION_ORDER[a.action] - ACTION_ORDER[b.action]);
+
+        sendProgress({
+          type: 'progress',
+          progress: 0,
+          totalChanges: changes.length,
+          completedChanges: 0
+        });
+
+        let completedCount = 0;
+        let successful = 0;
+
+        // Changes are applied one by one, the shared rate limiter paces the calls
+        for (const change of changes) {
+          if (request.signal.aborted) {
+            sendProgress({
+              type: 'error',
+              progress: (completedCount / changes.length) * 100,
+              error: 'Operation cancelled by user'
+            });
+            controller.close();
+            return;
+          }
+
+          const result: NonNullable<ZoneFileApplyProgress['change']> = {
+            id: change.id,
+            action: change.action,
+            type: change.type,
+            name: change.name,
+            success: false,
+            message: ''
+          };
+
+          try {
+            if (change.action === 'create') {
+              await cloudflareAPI.createDNSRecord(zoneId, change.record!);
+              result.message = `Registro ${change.type} creado`;
+            } else if (change.action === 'update') {
+              await cloudflareAPI.updateDNSRecord(zoneId, change.recordId!, change.record!);
+              result.message = `Registro ${change.type} actualizado`;
+            } else {
+              await cloudflareAPI.deleteDNSRecord(zoneId, change.recordId!);
+              result.message = `Registro ${change.type} eliminado`;
+            }
+            result.success = true;
+            successful++;
+          } catch (error) {
+            console.error(`[ZoneFile] Error applying ${change.action} ${change.type} ${change.name} in zone ${zoneId}:`, error);
+            result.message = `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            result.error = error instanceof Error ? error.message : 'Unknown error';
+          }
+
+          await recordAudit({
+            ...actor,
+            action: 'zone_file_apply',
+            zoneId,
+            domainName: zone.name,
+            target: `${change.action} ${change.type} ${change.name}`,
+            before: change.before,
+            after: change.after,
+            success: result.success,
+            cloudflareResponse: result.message,
+            error: result.error
+          });
+
+          completedCount++;
+          sendProgress({
+            type: 'change_complete',
+            progress: (completedCount / changes.length) * 100,
+            completedChanges: completedCount,
+            totalChanges: changes.length,
+            change: result
+          });
+        }
+
+        sendProgress({
+          type: 'complete',
+          progress: 100,
+          completedChanges: completedCount,
+          totalChanges: changes.length,
+          summary: {
+            total: changes.length,
+            successful,
+            failed: changes.length - successful
+          }
+        });
+
+      } catch (error) {
+        sendProgress({
+          type: 'error',
+          progress: 0,
+          error: error instanceof Error ? error.message : 'Unknown error occurred'
+        });
+      }
+
+      controller.close();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    }
+  });
+}
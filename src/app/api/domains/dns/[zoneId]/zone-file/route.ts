@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CloudflareAPI } from '@/lib/cloudflare';
+import { ZoneIdSchema, ZoneFileImportSchema, createValidationErrorResponse } from '@/lib/validation';
+import { exportZoneFile, parseZoneFile, diffZoneRecords } from '@/lib/zoneFile';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+
+// GET - Export every DNS record of a zone as a BIND zone file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ zoneId: string }> }
+) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  const { zoneId } = await params;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    if (!ZoneIdSchema.safeParse(zoneId).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid zone ID'
+      }, { status: 400 });
+    }
+
+    const cloudflareAPI = new CloudflareAPI(apiToken, 'interactive');
+    const [zone, { records }] = await Promise.all([
+      cloudflareAPI.getZone(zoneId),
+      cloudflareAPI.getAllDNSRecords(zoneId)
+    ]);
+
+    const zoneFile = exportZoneFile(zone.name, records);
+
+    return new Response(zoneFile, {
+      headers: {
+        'Content-Type': 'text/dns; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${zone.name}.zone"`
+      }
+    });
+
+  } catch (error) {
+    console.error(`[API] Error exporting zone file for zone ${zoneId}:`, error);
+
+    if (error instanceof Error && error.message.includes('403')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to read DNS records. Please ensure your API token has "Zone:DNS:Read" permission.',
+        errorType: 'INSUFFICIENT_PERMISSIONS'
+      }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to export zone file',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// POST - Parse a zone file and preview the changes against the current records
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ zoneId: string }> }
+) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  const { zoneId } = await params;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    if (!ZoneIdSchema.safeParse(zoneId).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid zone ID'
+      }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const parsedBody = ZoneFileImportSchema.safeParse(body);
+    if (!parsedBody.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsedBody.error)
+      }, { status: 400 });
+    }
+
+    const cloudflareAPI = new CloudflareAPI(apiToken, 'interactive');
+    const [zone, { records }] = await Promise.all([
+      cloudflareAPI.getZone(zoneId),
+      cloudflareAPI.getAllDNSRecords(zoneId)
+    ]);
+
+    const parsed = parseZoneFile(parsedBody.data.zoneFile, zone.name);
+    const diff = diffZoneRecords(records, parsed.records.map(r => r.record));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        zoneName: zone.name,
+        diff,
+        errors: parsed.errors,
+        warnings: parsed.warnings,
+        parsedRecords: parsed.records.length
+      }
+    });
+
+  } catch (error) {
+    console.error(`[API] Error previewing zone file for zone ${zoneId}:`, error);
+
+    if (error instanceof Error && error.message.includes('403')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to read DNS records. Please ensure your API token has "Zone:DNS:Read" permission.',
+        errorType: 'INSUFFICIENT_PERMISSIONS'
+      }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to preview zone file',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,5 +1,9 @@
 import { NextRequest } from 'next/server';
 import { CloudflareAPI } from '@/lib/cloudflare';
+import { waitForRateLimitBudget, ESTIMATED_CALLS_PER_DOMAIN } from '@/lib/rateLimiter';
+import { getAuditActor, recordAudit } from '@/lib/auditLog';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
 
 interface BulkDNSProgress {
   type: 'progress' | 'domain_complete' | 'complete' | 'error';
@@ -24,7 +28,10 @@ interface BulkDNSProgress {
 
 // POST - Bulk DNS action with streaming progress
 export async function POST(request: NextRequest) {
-  const apiToken = request.headers.get('x-api-token');
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
+  const apiToken = await getRequestApiToken(request);
   if (!apiToken) {
     return new Response(
       JSON.stringify({ success: false, error: 'API token is required' }),
@@ -49,6 +56,8 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  const actor = await getAuditActor(request);
+
   // Create a streaming response
   const stream = new ReadableStream({
     async start(controller) {
@@ -111,7 +120,7 @@ export async function POST(request: NextRequest) {
 
               // Get DNS records for this domain
               try {
-                const dnsResponse = await cloudflareAPI.getDNSRecords(domainData.zoneId);
+                const dnsResponse = await cloudflareAPI.getAllDNSRecords(domainData.zoneId);
                 const dnsRecords = dnsResponse.records;
 
                 // Find root (@) and www records that can be proxied
@@ -140,7 +149,7 @@ export async function POST(request: NextRequest) {
                     await cloudflareAPI.updateDNSRecord(
                       domainData.zoneId,
                       rootRecord.id,
-                      enabled
+                      { proxied: enabled }
                     );
                     updatedRecords++;
                   } catch (error) {
@@ -155,7 +164,7 @@ export async function POST(request: NextRequest) {
                     await cloudflareAPI.updateDNSRecord(
                       domainData.zoneId,
                       wwwRecord.id,
-                      enabled
+                      { proxied: enabled }
                     );
                     updatedRecords++;
                   } catch (error) {
@@ -192,6 +201,20 @@ export async function POST(request: NextRequest) {
           // Wait for current batch to complete
           const batchResults = await Promise.all(batchPromises);
 
+          const enabled = action === 'enable_proxy';
+          await recordAudit(batchResults.map(result => ({
+            ...actor,
+            action: 'proxy_bulk' as const,
+            zoneId: result.zoneId,
+            domainName: result.domainName,
+            target: `${result.domainName}, www.${result.domainName}`,
+            before: { proxied: !enabled },
+            after: { proxied: enabled },
+            success: result.success,
+            cloudflareResponse: result.message,
+            error: result.error
+          })));
+
           // Add results and send progress updates for each completed domain
           for (const result of batchResults) {
             results.push(result);
@@ -208,9 +231,9 @@ export async function POST(request: NextRequest) {
             });
           }
 
-          // Add delay between batches for rate limiting
+          // Wait for the shared rate limit budget to cover the next batch
           if (i + BATCH_SIZE < targetDomains.length) {
-            await new Promise(resolve => setTimeout(resolve, 300));
+            await waitForRateLimitBudget(BATCH_SIZE * ESTIMATED_CALLS_PER_DOMAIN);
           }
         }
 
@@ -0,0 +1,233 @@
+import { NextRequest } from 'next/server';
+import { CloudflareAPI } from '@/lib/cloudflare';
+import { OriginMigrationApplySchema } from '@/lib/validation';
+import { waitForRateLimitBudget } from '@/lib/rateLimiter';
+import { getAuditActor, recordAudit } from '@/lib/auditLog';
+import {
+  MIGRATABLE_TYPES,
+  OriginMigrationRollbackEntry,
+  appendRollbackEntries,
+  generateRollbackFileName,
+  isMigrationMatch,
+  validateReplacement
+} from '@/lib/originMigration';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+
+interface OriginMigrationProgress {
+  type: 'progress' | 'domain_complete' | 'complete' | 'error';
+  progress: number;
+  currentDomain?: string;
+  completedDomains?: number;
+  totalDomains?: number;
+  domain?: {
+    zoneId: string;
+    domainName: string;
+    success: boolean;
+    message: string;
+    error?: string;
+  };
+  summary?: {
+    total: number;
+    successful: number;
+    failed: number;
+    rollbackFile?: string;
+  };
+  error?: string;
+}
+
+const BATCH_SIZE = 5;
+
+// POST - Rewrite the selected records to the new origin with streaming progress
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
+  const apiToken = await getRequestApiToken(request);
+  if (!apiToken) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'API token is required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const body = await request.json();
+  const parsed = OriginMigrationApplySchema.safeParse(body);
+  if (!parsed.success) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Find, replace and target records are required' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { find, replace, targets } = parsed.data;
+  const actor = await getAuditActor(request);
+  const rollbackFile = generateRollbackFileName();
+
+  // Create a streaming response
+  const stream = new ReadableStream({
+    async start(controller) {
+      const encoder = new TextEncoder();
+
+      // Helper function to send progress updates
+      const sendProgress = (data: OriginMigrationProgress) => {
+        const chunk = encoder.encode(`data: ${JSON.stringify(data)}\n\n`);
+        controller.enqueue(chunk);
+      };
+
+      try {
+        const cloudflareAPI = new CloudflareAPI(apiToken);
+
+        sendProgress({
+          type: 'progress',
+          progress: 0,
+          totalDomains: targets.length,
+          completedDomains: 0
+        });
+
+        let completedCount = 0;
+        let successfulCount = 0;
+        let rewrittenCount = 0;
+
+        for (let i = 0; i < targets.length; i += BATCH_SIZE) {
+          if (request.signal.aborted) {
+            sendProgress({
+              type: 'error',
+              progress: (completedCount / targets.length) * 100,
+              error: 'Operation cancelled by user'
+            });
+            controller.close();
+            return;
+          }
+
+          const batch = targets.slice(i, i + BATCH_SIZE);
+          const rollbackEntries: OriginMigrationRollbackEntry[] = [];
+
+          const batchResults = await Promise.all(batch.map(async (target) => {
+            const result = {
+              zoneId: target.zoneId,
+              domainName: target.domainName,
+              success: false,
+              message: '',
+              error: undefined as string | undefined
+            };
+
+            try {
+              // Re-read the records: only rewrite those that still hold the old value
+              const { records } = await cloudflareAPI.getAllDNSRecords(target.zoneId);
+              const selected = records.filter(record => target.recordIds.includes(record.id));
+
+              let updated = 0;
+              let skipped = target.recordIds.length - selected.length;
+              const errors: string[] = [];
+
+              for (const record of selected) {
+                if (!isMigrationMatch(record, find, MIGRATABLE_TYPES) || validateReplacement(record, replace)) {
+                  skipped++;
+                  continue;
+                }
+
+                try {
+                  await cloudflareAPI.updateDNSRecord(target.zoneId, record.id, { content: replace });
+                  updated++;
+                  rollbackEntries.push({
+                    zoneId: target.zoneId,
+                    domainName: target.domainName,
+                    recordId: record.id,
+                    type: record.type,
+                    name: record.name,
+                    previousContent: record.content,
+                    newContent: replace,
+                    appliedAt: new Date().toISOString()
+                  });
+                } catch (error) {
+                  console.error(`[OriginMigration] Error updating ${record.type} ${record.name}:`, error);
+                  errors.push(`${record.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                }
+              }
+
+              result.success = errors.length === 0;
+              result.message = `${updated} registros actualizados${skipped > 0 ? `, ${skipped} omitidos (ya no coinciden)` : ''}`;
+              if (errors.length > 0) {
+                result.error = errors.join('; ');
+              }
+            } catch (error) {
+              result.error = `Error obteniendo registros DNS: ${error instanceof Error ? error.message : 'Unknown error'}`;
+              result.message = 'Error al acceder a los registros DNS del dominio';
+            }
+
+            return result;
+          }));
+
+          // Persist previous values before reporting the batch
+          await appendRollbackEntries(rollbackFile, find, replace, rollbackEntries);
+          rewrittenCount += rollbackEntries.length;
+
+          await recordAudit(batchResults.map(result => ({
+            ...actor,
+            action: 'origin_migration' as const,
+            zoneId: result.zoneId,
+            domainName: result.domainName,
+            target: rollbackEntries
+              .filter(entry => entry.zoneId === result.zoneId)
+              .map(entry => `${entry.type} ${entry.name}`)
+              .join(', ') || undefined,
+            before: { content: find },
+            after: { content: replace },
+            success: result.success,
+            cloudflareResponse: result.message,
+            error: result.error
+          })));
+
+          for (const result of batchResults) {
+            completedCount++;
+            if (result.success) successfulCount++;
+
+            sendProgress({
+              type: 'domain_complete',
+              progress: (completedCount / targets.length) * 100,
+              currentDomain: result.domainName,
+              completedDomains: completedCount,
+              totalDomains: targets.length,
+              domain: result
+            });
+          }
+
+          if (i + BATCH_SIZE < targets.length) {
+            await waitForRateLimitBudget(BATCH_SIZE * 2);
+          }
+        }
+
+        sendProgress({
+          type: 'complete',
+          progress: 100,
+          completedDomains: completedCount,
+          totalDomains: targets.length,
+          summary: {
+            total: targets.length,
+            successful: successfulCount,
+            failed: targets.length - successfulCount,
+            rollbackFile: rewrittenCount > 0 ? rollbackFile : undefined
+          }
+        });
+
+      } catch (error) {
+        sendProgress({
+          type: 'error',
+          progress: 0,
+          error: error instanceof Error ? error.message : 'Unknown error occurred'
+        });
+      }
+
+      controller.close();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    }
+  });
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { safeFileExists, safeReadJsonFile } from '@/lib/fileSystem';
+import { isRollbackFileName, OriginMigrationRollbackFile } from '@/lib/originMigration';
+import { requirePermission } from '@/lib/auth';
+
+// GET - Download the rollback file of an origin migration run
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    const fileName = request.nextUrl.searchParams.get('file') || '';
+
+    if (!isRollbackFileName(fileName)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid rollback file name'
+      }, { status: 400 });
+    }
+
+    if (!(await safeFileExists(fileName))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Rollback file not found'
+      }, { status: 404 });
+    }
+
+    const rollback = await safeReadJsonFile<OriginMigrationRollbackFile>(fileName);
+
+    return new Response(JSON.stringify(rollback, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${fileName}"`
+      }
+    });
+
+  } catch (error) {
+    console.error('[OriginMigration] Error reading rollback file:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to read rollback file',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
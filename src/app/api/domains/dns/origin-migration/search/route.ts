@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CloudflareAPI } from '@/lib/cloudflare';
+import { OriginMigrationSearchSchema, createValidationErrorResponse } from '@/lib/validation';
+import { findMigrationMatches, OriginMigrationMatch } from '@/lib/originMigration';
+import { waitForRateLimitBudget } from '@/lib/rateLimiter';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+
+// Zones scanned in parallel; each zone costs one call per 100 DNS records
+const BATCH_SIZE = 5;
+
+// POST - Find A/AAAA/CNAME records across zones whose content matches the old origin
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = OriginMigrationSearchSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const { find, replace, recordTypes, targets } = parsed.data;
+    const cloudflareAPI = new CloudflareAPI(apiToken);
+
+    console.log(`[OriginMigration] Searching ${targets.length} zones for "${find}" (${recordTypes.join(', ')})`);
+
+    const matches: OriginMigrationMatch[] = [];
+    const failedZones: Array<{ zoneId: string; domainName: string; error: string }> = [];
+
+    for (let i = 0; i < targets.length; i += BATCH_SIZE) {
+      const batch = targets.slice(i, i + BATCH_SIZE);
+
+      const batchResults = await Promise.all(batch.map(async (target) => {
+        try {
+          const { records } = await cloudflareAPI.getAllDNSRecords(target.zoneId);
+          return findMigrationMatches(target.zoneId, target.domainName, records, find, replace, recordTypes);
+        } catch (error) {
+          console.error(`[OriginMigration] Error searching zone ${target.domainName}:`, error);
+          failedZones.push({
+            zoneId: target.zoneId,
+            domainName: target.domainName,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+          return [];
+        }
+      }));
+
+      matches.push(...batchResults.flat());
+
+      if (i + BATCH_SIZE < targets.length) {
+        await waitForRateLimitBudget(BATCH_SIZE);
+      }
+    }
+
+    console.log(`[OriginMigration] Found ${matches.length} matching records, ${failedZones.length} zones failed`);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        matches,
+        failedZones,
+        scannedZones: targets.length
+      }
+    });
+
+  } catch (error) {
+    console.error('[OriginMigration] Error searching records:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to search DNS records',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { DomainStatus, DomainRuleStatus } from '@/types/cloudflare';
 import { safeReadJsonFile, safeWriteJsonFile } from '@/lib/fileSystem';
+import { getDomainsCacheFile, getRequestAccountId } from '@/lib/accounts';
+import { requirePermission } from '@/lib/auth';
 
-const DOMAIN_CACHE_FILE = 'domains-cache.json';
 const DOMAIN_RULES_CACHE_FILE = 'domain-rules-status.json';
 
 interface DomainsCache {
@@ -16,9 +17,9 @@ interface DomainRulesCache {
   lastUpdated: string;
 }
 
-async function loadDomainsCache(): Promise<DomainsCache | null> {
+async function loadDomainsCache(accountId: string): Promise<DomainsCache | null> {
   try {
-    return await safeReadJsonFile<DomainsCache>(DOMAIN_CACHE_FILE);
+    return await safeReadJsonFile<DomainsCache>(getDomainsCacheFile(accountId));
   } catch {
     return null;
   }
@@ -35,16 +36,20 @@ async function loadDomainRulesCache(): Promise<DomainRulesCache> {
   }
 }
 
-async function saveDomainsCache(cache: DomainsCache): Promise<void> {
-  await safeWriteJsonFile(DOMAIN_CACHE_FILE, cache);
+async function saveDomainsCache(accountId: string, cache: DomainsCache): Promise<void> {
+  await safeWriteJsonFile(getDomainsCacheFile(accountId), cache);
 }
 
 // POST - Enrich domains with security rules information
 export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
   console.log('[Enrich API] POST request received');
   try {
+    const accountId = getRequestAccountId(request);
     console.log('[Enrich API] Loading domains cache...');
-    const domainsCache = await loadDomainsCache();
+    const domainsCache = await loadDomainsCache(accountId);
     console.log('[Enrich API] Domains cache loaded:', domainsCache ? 'success' : 'null');
     if (!domainsCache) {
       return NextResponse.json({
@@ -91,7 +96,7 @@ export async function POST(request: NextRequest) {
       lastUpdate: new Date().toISOString()
     };
 
-    await saveDomainsCache(updatedCache);
+    await saveDomainsCache(accountId, updatedCache);
 
     return NextResponse.json({
       success: true,
@@ -113,9 +118,12 @@ export async function POST(request: NextRequest) {
 }
 
 // GET - Get enriched domains from cache
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
   try {
-    const domainsCache = await loadDomainsCache();
+    const domainsCache = await loadDomainsCache(getRequestAccountId(request));
     if (!domainsCache) {
       return NextResponse.json({
         success: false,
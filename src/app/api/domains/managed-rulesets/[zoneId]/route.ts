@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CloudflareAPI } from '@/lib/cloudflare';
+import { ZoneIdSchema } from '@/lib/validation';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+
+// GET - Managed WAF rulesets deployed in a zone and their overrides
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ zoneId: string }> }
+) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  const { zoneId } = await params;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    if (!ZoneIdSchema.safeParse(zoneId).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid zone ID'
+      }, { status: 400 });
+    }
+
+    const cloudflareAPI = new CloudflareAPI(apiToken, 'interactive');
+    const deployments = await cloudflareAPI.getManagedRulesetDeployments(zoneId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        deployments,
+        totalCount: deployments.length
+      }
+    });
+
+  } catch (error) {
+    console.error(`[API] Error getting managed rulesets for zone ${zoneId}:`, error);
+
+    if (error instanceof Error && error.message.includes('403')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions for managed rulesets. Please ensure your API token has "Zone WAF: Edit" permission.',
+        errorType: 'INSUFFICIENT_PERMISSIONS'
+      }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to get managed rulesets',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { progressTracker } from '@/lib/progressTracker';
+import { cloudflareRateLimiter } from '@/lib/rateLimiter';
+import { requirePermission } from '@/lib/auth';
 
 /**
  * GET /api/domains/progress/[requestId]
@@ -9,6 +11,9 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ requestId: string }> }
 ) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
   try {
     const { requestId } = await params;
 
@@ -41,7 +46,8 @@ export async function GET(
         currentBatch: progress.currentBatch,
         totalBatches: progress.totalBatches,
         currentDomainName: progress.currentDomainName,
-        isWaitingRateLimit: progress.isWaitingRateLimit
+        isWaitingRateLimit: progress.isWaitingRateLimit,
+        rateLimit: cloudflareRateLimiter.getBudget()
       }
     });
 
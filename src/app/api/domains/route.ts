@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { CloudflareAPI } from '@/lib/cloudflare';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
 
 export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
   try {
     const { searchParams } = new URL(request.url);
-    const apiToken = request.headers.get('x-api-token');
+    const apiToken = await getRequestApiToken(request);
     
     if (!apiToken) {
       return NextResponse.json({ error: 'API token is required' }, { status: 401 });
@@ -1,15 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { CloudflareAPI } from '@/lib/cloudflare';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
 
 // GET - Get categorized rules for a specific domain
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ zoneId: string }> }
 ) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
   const { zoneId } = await params;
 
   try {
-    const apiToken = request.headers.get('x-api-token');
+    const apiToken = await getRequestApiToken(request);
     if (!apiToken) {
       return NextResponse.json({
         success: false,
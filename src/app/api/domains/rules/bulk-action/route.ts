@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { CloudflareAPI } from '@/lib/cloudflare';
-import { RuleTemplate } from '@/types/cloudflare';
+import { RuleTemplate, ConflictResolution } from '@/types/cloudflare';
 import { safeReadJsonFile } from '@/lib/fileSystem';
+import { waitForRateLimitBudget, ESTIMATED_CALLS_PER_DOMAIN } from '@/lib/rateLimiter';
+import { getAuditActor, recordAudit } from '@/lib/auditLog';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+import { requireChangeApproval } from '@/lib/changeRequests';
 
 const RULES_TEMPLATES_FILE = 'security-rules-templates.json';
 
@@ -23,8 +28,11 @@ async function loadRulesTemplates(): Promise<RulesTemplatesCache> {
 
 // POST - Bulk action on domain rules
 export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
   try {
-    const apiToken = request.headers.get('x-api-token');
+    const apiToken = await getRequestApiToken(request);
     if (!apiToken) {
       return NextResponse.json({
         success: false,
@@ -34,6 +42,15 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json();
     const { action, selectedRules, targetZoneIds, preview = false } = body;
+    // Optional per-zone resolution for custom rules that conflict with the applied templates
+    const conflictResolutions: Record<string, ConflictResolution> = body.conflictResolutions || {};
+    const validResolutions = Object.values(ConflictResolution) as string[];
+    if (Object.values(conflictResolutions).some(resolution => !validResolutions.includes(resolution))) {
+      return NextResponse.json({
+        success: false,
+        error: `Conflict resolution must be one of: ${validResolutions.join(', ')}`
+      }, { status: 400 });
+    }
 
     if (!action || !targetZoneIds || targetZoneIds.length === 0) {
       return NextResponse.json({
@@ -49,6 +66,11 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    if (action === 'clean') {
+      const deniedClean = await requirePermission(request, 'rules:destructive');
+      if (deniedClean) return deniedClean;
+    }
+
     if (action !== 'clean' && (!selectedRules || selectedRules.length === 0)) {
       return NextResponse.json({
         success: false,
@@ -81,6 +103,12 @@ export async function POST(request: NextRequest) {
       return zoneId; // Already a valid zone ID
     });
 
+    // Adding or updating templates on zones under the approval policy only runs from an approved change request
+    if (action === 'add' && !preview) {
+      const needsApproval = await requireChangeApproval(request, validatedZoneIds);
+      if (needsApproval) return needsApproval;
+    }
+
     const operationResults: Array<{
       zoneId: string;
       domainName: string;
@@ -134,6 +162,7 @@ export async function POST(request: NextRequest) {
             // Add selected rules
             let addedCount = 0;
             let skippedCount = 0;
+            let pendingConflicts = 0;
             const messages: string[] = [];
 
             for (const friendlyId of selectedRules) {
@@ -144,7 +173,15 @@ export async function POST(request: NextRequest) {
               }
 
               if (!preview) {
-                const applyResult = await cloudflareAPI.applyTemplateRule(zoneId, template);
+                const resolution = conflictResolutions[zoneId];
+                const applyResult = await cloudflareAPI.applyTemplateRule(
+                  zoneId,
+                  template,
+                  resolution ? { resolution, templates: templatesCache.templates, domainName } : undefined
+                );
+                if (applyResult.conflicts && applyResult.conflicts.length > 0) {
+                  result.conflicts.push(...applyResult.conflicts);
+                }
 
                 if (applyResult.success) {
                   if (applyResult.action === 'added' || applyResult.action === 'updated') {
@@ -154,6 +191,9 @@ export async function POST(request: NextRequest) {
                   }
                   messages.push(applyResult.message);
                 } else {
+                  if (applyResult.conflicts && applyResult.conflicts.length > 0) {
+                    pendingConflicts++;
+                  }
                   messages.push(`Failed to apply ${friendlyId}: ${applyResult.message}`);
                 }
               } else {
@@ -179,7 +219,7 @@ export async function POST(request: NextRequest) {
             result.success = true;
             result.message = preview
               ? `Will process ${selectedRules.length} rules`
-              : `Added: ${addedCount}, Skipped: ${skippedCount}`;
+              : `Added: ${addedCount}, Skipped: ${skippedCount}${pendingConflicts > 0 ? `, Pending manual resolution: ${pendingConflicts}` : ''}`;
 
           } else if (action === 'remove') {
             // Remove selected rules
@@ -226,9 +266,9 @@ export async function POST(request: NextRequest) {
 
       batchPromises.push(batchPromise);
 
-      // Add delay between batches to respect rate limits
+      // Wait for the shared rate limit budget before launching the next batch
       if (i + BATCH_SIZE < validatedZoneIds.length) {
-        await new Promise(resolve => setTimeout(resolve, 300)); // 300ms delay between batches
+        await waitForRateLimitBudget(BATCH_SIZE * ESTIMATED_CALLS_PER_DOMAIN);
       }
     }
 
@@ -239,6 +279,21 @@ export async function POST(request: NextRequest) {
     // Add to operationResults
     operationResults.push(...results);
 
+    if (!preview) {
+      const actor = await getAuditActor(request);
+      await recordAudit(operationResults.map(result => ({
+        ...actor,
+        action: `rules_${action}` as 'rules_add' | 'rules_remove' | 'rules_clean',
+        zoneId: result.zoneId,
+        domainName: result.domainName,
+        target: action === 'clean' ? 'all_rules' : selectedRules.join(', '),
+        after: action === 'clean' ? undefined : { selectedRules, conflictResolution: conflictResolutions[result.zoneId] },
+        success: result.success,
+        cloudflareResponse: result.message,
+        error: result.error
+      })));
+    }
+
     // Calculate summary
     const summary = {
       total: operationResults.length,
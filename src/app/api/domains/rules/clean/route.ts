@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { CloudflareAPI } from '@/lib/cloudflare';
+import { getAuditActor, recordAudit } from '@/lib/auditLog';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
 
 // POST - Clean rules from a domain
 export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'rules:destructive');
+  if (denied) return denied;
+
   try {
-    const apiToken = request.headers.get('x-api-token');
+    const apiToken = await getRequestApiToken(request);
     if (!apiToken) {
       return NextResponse.json({
         success: false,
@@ -38,6 +44,17 @@ export async function POST(request: NextRequest) {
       result = await cloudflareAPI.removeAllRules(zoneId);
     }
 
+    await recordAudit({
+      ...(await getAuditActor(request)),
+      action: 'rules_clean',
+      zoneId,
+      target: cleanType === 'template' ? 'template_rules' : 'all_rules',
+      after: { removedCount: result.removedCount },
+      success: result.success,
+      cloudflareResponse: result.message,
+      error: result.success ? undefined : result.message
+    });
+
     if (result.success) {
       return NextResponse.json({
         success: true,
@@ -1,10 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { CloudflareAPI } from '@/lib/cloudflare';
+import { isTemplateRuleset } from '@/lib/rulePhases';
+import { getAuditActor, recordAudit } from '@/lib/auditLog';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
 
 // DELETE - Delete individual custom rule
 export async function DELETE(request: NextRequest, { params }: { params: Promise<{ ruleId: string }> }) {
+  const denied = await requirePermission(request, 'rules:destructive');
+  if (denied) return denied;
+
   try {
-    const apiToken = request.headers.get('x-api-token');
+    const apiToken = await getRequestApiToken(request);
     const zoneId = request.headers.get('x-zone-id');
     const { ruleId } = await params;
 
@@ -24,24 +31,22 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
 
     const cloudflareAPI = new CloudflareAPI(apiToken);
 
-    // Get all rulesets and filter for custom firewall rulesets to find which one contains this rule
+    // Get all rulesets and filter for custom firewall and rate limiting rulesets to find which one contains this rule
     const allRulesets = await cloudflareAPI.getZoneRulesets(zoneId);
-    const rulesets = allRulesets.filter(ruleset => ruleset.phase === 'http_request_firewall_custom');
+    const rulesets = allRulesets.filter(isTemplateRuleset);
     
     let rulesetId = null;
     let rulesetToUpdate = null;
 
     // Find the ruleset that contains this rule
     for (const ruleset of rulesets) {
-      if (ruleset.phase === 'http_request_firewall_custom') {
-        const detailedRuleset = await cloudflareAPI.getZoneRuleset(zoneId, ruleset.id);
-        const ruleExists = detailedRuleset.rules?.find(rule => rule.id === ruleId);
-        
-        if (ruleExists) {
-          rulesetId = ruleset.id;
-          rulesetToUpdate = detailedRuleset;
-          break;
-        }
+      const detailedRuleset = await cloudflareAPI.getZoneRuleset(zoneId, ruleset.id);
+      const ruleExists = detailedRuleset.rules?.find(rule => rule.id === ruleId);
+      
+      if (ruleExists) {
+        rulesetId = ruleset.id;
+        rulesetToUpdate = detailedRuleset;
+        break;
       }
     }
 
@@ -53,11 +58,30 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
     }
 
     // Remove the rule from the ruleset
+    const deletedRule = rulesetToUpdate.rules?.find(rule => rule.id === ruleId);
     const updatedRules = rulesetToUpdate.rules?.filter(rule => rule.id !== ruleId) || [];
+    const audit = {
+      ...(await getAuditActor(request)),
+      action: 'custom_rule_delete' as const,
+      zoneId,
+      target: deletedRule?.description || ruleId,
+      before: deletedRule
+    };
 
     // Update the ruleset
-    const updatedRuleset = await cloudflareAPI.updateZoneRuleset(zoneId, rulesetId, {
-      rules: updatedRules
+    let updatedRuleset;
+    try {
+      updatedRuleset = await cloudflareAPI.updateZoneRuleset(zoneId, rulesetId, {
+        rules: updatedRules
+      });
+    } catch (error) {
+      await recordAudit({ ...audit, success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+      throw error;
+    }
+    await recordAudit({
+      ...audit,
+      success: true,
+      cloudflareResponse: { rulesetId: updatedRuleset.id, version: updatedRuleset.version, rules: updatedRuleset.rules?.length ?? 0 }
     });
 
     return NextResponse.json({
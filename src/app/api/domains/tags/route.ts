@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DomainTagsUpdateSchema, createValidationErrorResponse } from '@/lib/validation';
+import { loadDomainTags, updateDomainTags } from '@/lib/domainTags';
+import { requirePermission } from '@/lib/auth';
+
+// GET - Tags of every domain, keyed by zoneId
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    const cache = await loadDomainTags();
+    return NextResponse.json({
+      success: true,
+      data: cache
+    });
+  } catch (error) {
+    console.error('[DomainTags] Error loading tags:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load domain tags'
+    }, { status: 500 });
+  }
+}
+
+// PUT - Add and/or remove tags on several domains
+export async function PUT(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const parsed = DomainTagsUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const { targets, add, remove } = parsed.data;
+    const cache = await updateDomainTags(targets, add, remove);
+
+    return NextResponse.json({
+      success: true,
+      data: cache
+    });
+  } catch (error) {
+    console.error('[DomainTags] Error updating tags:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update domain tags'
+    }, { status: 500 });
+  }
+}
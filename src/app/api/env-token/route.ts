@@ -1,11 +1,16 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { isTokenVaultConfigured, storeToken } from '@/lib/tokenVault';
+import { getSessionUser, requirePermission } from '@/lib/auth';
 
 /**
  * GET - Check if CLOUDFLARE_API_TOKEN exists in environment variables
  * This endpoint does NOT return the actual token for security reasons
  * It only returns whether a token exists and if it's valid format
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
   try {
     const envToken = process.env.CLOUDFLARE_API_TOKEN;
 
@@ -50,8 +55,13 @@ export async function GET() {
 /**
  * POST - Get the actual environment token
  * This is a separate endpoint to make it explicit when the token is being retrieved
+ * With the token vault enabled the token is stored there for the caller, replacing the handle it got
+ * before, and only the new handle is returned
  */
-export async function POST() {
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
   try {
     const envToken = process.env.CLOUDFLARE_API_TOKEN;
 
@@ -78,6 +88,16 @@ export async function POST() {
       );
     }
 
+    if (isTokenVaultConfigured()) {
+      const user = await getSessionUser(request);
+      const { handle, maskedToken } = await storeToken(envToken, { ownerId: user?.id, fromEnvironment: true });
+      return NextResponse.json({
+        success: true,
+        handle,
+        maskedToken
+      });
+    }
+
     return NextResponse.json({
       success: true,
       token: envToken
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CloudflareAPI } from '@/lib/cloudflare';
+import { IPListIdSchema, IPListItemsAddSchema, IPListItemsRemoveSchema, createValidationErrorResponse } from '@/lib/validation';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+
+const PERMISSIONS_ERROR = 'Insufficient permissions for account lists. Please ensure your API token has "Account Filter Lists: Edit" permission.';
+
+// POST - Add items to a list (single item or CSV import)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ listId: string }> }
+) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
+  const { listId } = await params;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    if (!IPListIdSchema.safeParse(listId).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid list ID'
+      }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const parsed = IPListItemsAddSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const { accountId, items } = parsed.data;
+    const cloudflareAPI = new CloudflareAPI(apiToken, 'interactive');
+    await cloudflareAPI.addIPListItems(accountId, listId, items);
+
+    console.log(`[IPLists] Added ${items.length} items to list ${listId}`);
+
+    return NextResponse.json({
+      success: true,
+      data: { added: items.length }
+    });
+
+  } catch (error) {
+    console.error(`[IPLists] Error adding items to list ${listId}:`, error);
+
+    if (error instanceof Error && error.message.includes('403')) {
+      return NextResponse.json({
+        success: false,
+        error: PERMISSIONS_ERROR,
+        errorType: 'INSUFFICIENT_PERMISSIONS'
+      }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to add IP list items',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// DELETE - Remove items from a list
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ listId: string }> }
+) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
+  const { listId } = await params;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    if (!IPListIdSchema.safeParse(listId).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid list ID'
+      }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const parsed = IPListItemsRemoveSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const { accountId, itemIds } = parsed.data;
+    const cloudflareAPI = new CloudflareAPI(apiToken, 'interactive');
+    await cloudflareAPI.removeIPListItems(accountId, listId, itemIds);
+
+    console.log(`[IPLists] Removed ${itemIds.length} items from list ${listId}`);
+
+    return NextResponse.json({
+      success: true,
+      data: { removed: itemIds.length }
+    });
+
+  } catch (error) {
+    console.error(`[IPLists] Error removing items from list ${listId}:`, error);
+
+    if (error instanceof Error && error.message.includes('403')) {
+      return NextResponse.json({
+        success: false,
+        error: PERMISSIONS_ERROR,
+        errorType: 'INSUFFICIENT_PERMISSIONS'
+      }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to remove IP list items',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
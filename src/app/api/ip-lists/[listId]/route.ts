@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CloudflareAPI } from '@/lib/cloudflare';
+import { AccountIdSchema, IPListIdSchema } from '@/lib/validation';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+
+const PERMISSIONS_ERROR = 'Insufficient permissions for account lists. Please ensure your API token has "Account Filter Lists: Edit" permission.';
+
+function parseIds(request: NextRequest, listId: string): string | null {
+  const accountId = new URL(request.url).searchParams.get('accountId');
+  if (!accountId || !AccountIdSchema.safeParse(accountId).success || !IPListIdSchema.safeParse(listId).success) {
+    return null;
+  }
+  return accountId;
+}
+
+// GET - Every item of a list
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ listId: string }> }
+) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  const { listId } = await params;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    const accountId = parseIds(request, listId);
+    if (!accountId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid account or list ID'
+      }, { status: 400 });
+    }
+
+    const cloudflareAPI = new CloudflareAPI(apiToken, 'interactive');
+    const items = await cloudflareAPI.getIPListItems(accountId, listId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        items,
+        totalCount: items.length
+      }
+    });
+
+  } catch (error) {
+    console.error(`[IPLists] Error loading items of list ${listId}:`, error);
+
+    if (error instanceof Error && error.message.includes('403')) {
+      return NextResponse.json({
+        success: false,
+        error: PERMISSIONS_ERROR,
+        errorType: 'INSUFFICIENT_PERMISSIONS'
+      }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load IP list items',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// DELETE - Delete a list (Cloudflare refuses while rules still reference it)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ listId: string }> }
+) {
+  const denied = await requirePermission(request, 'rules:destructive');
+  if (denied) return denied;
+
+  const { listId } = await params;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    const accountId = parseIds(request, listId);
+    if (!accountId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid account or list ID'
+      }, { status: 400 });
+    }
+
+    const cloudflareAPI = new CloudflareAPI(apiToken, 'interactive');
+    await cloudflareAPI.deleteIPList(accountId, listId);
+
+    console.log(`[IPLists] Deleted list ${listId} in account ${accountId}`);
+
+    return NextResponse.json({
+      success: true,
+      data: { listId }
+    });
+
+  } catch (error) {
+    console.error(`[IPLists] Error deleting list ${listId}:`, error);
+
+    if (error instanceof Error && error.message.includes('403')) {
+      return NextResponse.json({
+        success: false,
+        error: PERMISSIONS_ERROR,
+        errorType: 'INSUFFICIENT_PERMISSIONS'
+      }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete IP list',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CloudflareAPI } from '@/lib/cloudflare';
+import { AccountIdSchema, IPListCreateSchema, createValidationErrorResponse } from '@/lib/validation';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+
+const PERMISSIONS_ERROR = 'Insufficient permissions for account lists. Please ensure your API token has "Account Filter Lists: Edit" permission.';
+
+// GET - Accounts of the token and the IP lists of the selected one (first account by default)
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    const requestedAccountId = new URL(request.url).searchParams.get('accountId');
+    if (requestedAccountId && !AccountIdSchema.safeParse(requestedAccountId).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid account ID'
+      }, { status: 400 });
+    }
+
+    const cloudflareAPI = new CloudflareAPI(apiToken, 'interactive');
+    const accounts = await cloudflareAPI.getAccounts();
+    const accountId = requestedAccountId || accounts[0]?.id;
+
+    if (!accountId) {
+      return NextResponse.json({
+        success: false,
+        error: 'The API token has no access to any account'
+      }, { status: 404 });
+    }
+
+    const lists = await cloudflareAPI.getIPLists(accountId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        accounts,
+        accountId,
+        lists
+      }
+    });
+
+  } catch (error) {
+    console.error('[IPLists] Error loading lists:', error);
+
+    if (error instanceof Error && error.message.includes('403')) {
+      return NextResponse.json({
+        success: false,
+        error: PERMISSIONS_ERROR,
+        errorType: 'INSUFFICIENT_PERMISSIONS'
+      }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load IP lists',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// POST - Create an IP list in an account
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = IPListCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const { accountId, name, description } = parsed.data;
+    const cloudflareAPI = new CloudflareAPI(apiToken, 'interactive');
+    const list = await cloudflareAPI.createIPList(accountId, name, description);
+
+    console.log(`[IPLists] Created list $${list.name} in account ${accountId}`);
+
+    return NextResponse.json({
+      success: true,
+      data: list
+    });
+
+  } catch (error) {
+    console.error('[IPLists] Error creating list:', error);
+
+    if (error instanceof Error && error.message.includes('403')) {
+      return NextResponse.json({
+        success: false,
+        error: PERMISSIONS_ERROR,
+        errorType: 'INSUFFICIENT_PERMISSIONS'
+      }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create IP list',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
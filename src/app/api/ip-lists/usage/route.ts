@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CloudflareAPI } from '@/lib/cloudflare';
+import { safeReadJsonFile } from '@/lib/fileSystem';
+import { buildIPListUsage, ZoneRulesForUsage } from '@/lib/ipLists';
+import { IPListUsageSchema, createValidationErrorResponse } from '@/lib/validation';
+import { waitForRateLimitBudget } from '@/lib/rateLimiter';
+import { TEMPLATE_RULE_PHASES } from '@/lib/rulePhases';
+import { RuleTemplate } from '@/types/cloudflare';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+
+const RULES_TEMPLATES_FILE = 'security-rules-templates.json';
+
+// Zones scanned in parallel; each zone costs the rulesets listing plus one call per template phase
+const BATCH_SIZE = 5;
+const CALLS_PER_ZONE = 1 + TEMPLATE_RULE_PHASES.length;
+
+interface RulesTemplatesCache {
+  templates: RuleTemplate[];
+  lastUpdated: string;
+}
+
+// POST - Find the templates and zone rules that reference each list of the account
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = IPListUsageSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const { accountId, targets } = parsed.data;
+    const cloudflareAPI = new CloudflareAPI(apiToken);
+    const lists = await cloudflareAPI.getIPLists(accountId);
+
+    let templates: RuleTemplate[] = [];
+    try {
+      templates = (await safeReadJsonFile<RulesTemplatesCache>(RULES_TEMPLATES_FILE)).templates || [];
+    } catch {
+      console.warn('[IPLists] No rule templates found, reporting zone rules only');
+    }
+
+    console.log(`[IPLists] Scanning ${targets.length} zones for references to ${lists.length} lists`);
+
+    const zones: ZoneRulesForUsage[] = [];
+    const failedZones: string[] = [];
+
+    for (let i = 0; i < targets.length; i += BATCH_SIZE) {
+      const batch = targets.slice(i, i + BATCH_SIZE);
+      const batchResults = await Promise.all(batch.map(async (target): Promise<ZoneRulesForUsage | null> => {
+        try {
+          const rules = await cloudflareAPI.getZoneSecurityRules(target.zoneId);
+          return {
+            zoneId: target.zoneId,
+            domainName: target.domainName,
+            rules: rules.map(rule => ({
+              expression: rule.expression,
+              description: rule.description,
+              phase: rule.phase,
+              enabled: rule.enabled !== false
+            }))
+          };
+        } catch (error) {
+          console.warn(`[IPLists] Could not read the rules of ${target.domainName}:`, error);
+          failedZones.push(target.domainName);
+          return null;
+        }
+      }));
+      zones.push(...batchResults.filter((zone): zone is ZoneRulesForUsage => zone !== null));
+
+      if (i + BATCH_SIZE < targets.length) {
+        await waitForRateLimitBudget(BATCH_SIZE * CALLS_PER_ZONE);
+      }
+    }
+
+    const usage = buildIPListUsage(lists.map(list => list.name), templates, zones);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        usage,
+        scannedZones: zones.length,
+        failedZones
+      }
+    });
+
+  } catch (error) {
+    console.error('[IPLists] Error building list usage:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to build IP list usage',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
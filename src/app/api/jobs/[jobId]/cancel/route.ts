@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelJob, toJobView } from '@/lib/jobQueue';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+
+// POST - Cancel a bulk job, a running job stops after the domains in flight
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
+  const { jobId } = await params;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    const job = await cancelJob(jobId);
+    if (!job) {
+      return NextResponse.json({
+        success: false,
+        error: 'Job not found'
+      }, { status: 404 });
+    }
+
+    console.log(`[API] Cancellation requested for bulk job ${jobId}`);
+
+    return NextResponse.json({
+      success: true,
+      data: { job: toJobView(job, apiToken) }
+    });
+
+  } catch (error) {
+    console.error(`[API] Error cancelling bulk job ${jobId}:`, error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to cancel job',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resumeJob, toJobView } from '@/lib/jobQueue';
+import { BulkJobResumeSchema, createValidationErrorResponse } from '@/lib/validation';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+
+// POST - Resume an interrupted bulk job, or retry its failed domains
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
+  const { jobId } = await params;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validation = BulkJobResumeSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(validation.error)
+      }, { status: 400 });
+    }
+
+    const job = await resumeJob(jobId, apiToken, validation.data.retryFailed);
+
+    return NextResponse.json({
+      success: true,
+      data: { job: toJobView(job, apiToken) }
+    });
+
+  } catch (error) {
+    console.error(`[API] Error resuming bulk job ${jobId}:`, error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    if (message === 'Job not found') {
+      return NextResponse.json({
+        success: false,
+        error: message
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to resume job',
+      errorDetails: message
+    }, { status: message.startsWith('Job ') ? 409 : 500 });
+  }
+}
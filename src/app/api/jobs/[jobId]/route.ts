@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, toJobView } from '@/lib/jobQueue';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+
+// GET - A bulk job with its per-domain status, polled to follow a job after reconnecting
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  const { jobId } = await params;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    const job = await getJob(jobId);
+    if (!job) {
+      return NextResponse.json({
+        success: false,
+        error: 'Job not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { job: toJobView(job, apiToken) }
+    });
+
+  } catch (error) {
+    console.error(`[API] Error getting bulk job ${jobId}:`, error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to get job',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CloudflareAPI } from '@/lib/cloudflare';
+import { safeReadJsonFile } from '@/lib/fileSystem';
+import { DomainsCache } from '@/lib/domainRefresh';
+import { getDomainsCacheFile } from '@/lib/accounts';
+import { enqueueJob, toJobView } from '@/lib/jobQueue';
+import { CrossAccountBulkJobSchema, createValidationErrorResponse } from '@/lib/validation';
+import { resolveApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+import { findZonesRequiringApproval } from '@/lib/changeRequests';
+
+const ACTION_LABELS: Record<'add' | 'remove' | 'clean', string> = {
+  add: 'Aplicar reglas',
+  remove: 'Eliminar reglas',
+  clean: 'Limpiar todas las reglas'
+};
+
+/**
+ * Zones of the account with their names, from its domains cache or Cloudflare when it was never loaded
+ */
+async function loadAccountZones(accountId: string, token: string): Promise<Map<string, string>> {
+  const cache = await safeReadJsonFile<DomainsCache>(getDomainsCacheFile(accountId)).catch(() => null);
+  if (cache?.domains?.length) {
+    return new Map(cache.domains.map(domain => [domain.zoneId, domain.domain]));
+  }
+
+  const zonesResponse = await new CloudflareAPI(token).getZones(1, 200);
+  return new Map(zonesResponse.zones.map(zone => [zone.id, zone.name]));
+}
+
+// POST - Queue the same rules action on several accounts, one job per account with its own token
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const parsed = CrossAccountBulkJobSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const { action, selectedRules, accounts } = parsed.data;
+    if (action === 'clean') {
+      const deniedClean = await requirePermission(request, 'rules:destructive');
+      if (deniedClean) return deniedClean;
+    }
+
+    const label = selectedRules.length > 0 && action !== 'clean'
+      ? `${ACTION_LABELS[action]}: ${selectedRules.join(', ')}`
+      : ACTION_LABELS[action];
+
+    const jobs = [];
+    const skipped: Array<{ accountId: string; accountName: string; error: string }> = [];
+
+    for (const account of accounts) {
+      try {
+        const apiToken = await resolveApiToken(account.token);
+        if (!apiToken) {
+          skipped.push({ accountId: account.accountId, accountName: account.accountName, error: 'API token not found' });
+          continue;
+        }
+
+        const zones = await loadAccountZones(account.accountId, apiToken);
+        const zoneIds = account.zoneIds || Array.from(zones.keys());
+        if (zoneIds.length === 0) {
+          skipped.push({ accountId: account.accountId, accountName: account.accountName, error: 'No domains found' });
+          continue;
+        }
+
+        // Zones under the approval policy only get templates from an approved change request
+        const needsApproval = action === 'add' ? await findZonesRequiringApproval(zoneIds) : [];
+        if (needsApproval.length > 0) {
+          console.warn(`[Cross Account Jobs] Account ${account.accountId} skipped, ${needsApproval.length} zones need an approved change request`);
+          skipped.push({
+            accountId: account.accountId,
+            accountName: account.accountName,
+            error: `Approval required: ${needsApproval.length} zones need an approved change request`
+          });
+          continue;
+        }
+
+        const job = await enqueueJob({
+          type: 'rules',
+          action,
+          params: { selectedRules },
+          label,
+          targets: zoneIds.map(zoneId => ({ zoneId, domainName: zones.get(zoneId) || zoneId })),
+          accountId: account.accountId,
+          accountName: account.accountName
+        }, apiToken);
+        jobs.push(toJobView(job, apiToken));
+      } catch (error) {
+        console.error(`[Cross Account Jobs] Could not queue job for account ${account.accountId}:`, error);
+        skipped.push({
+          accountId: account.accountId,
+          accountName: account.accountName,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    console.log(`[Cross Account Jobs] Queued ${jobs.length} ${action} jobs, ${skipped.length} accounts skipped`);
+
+    return NextResponse.json({
+      success: jobs.length > 0,
+      data: { jobs, skipped },
+      ...(jobs.length === 0 && { error: 'No job could be queued' })
+    }, { status: jobs.length > 0 ? 200 : 502 });
+
+  } catch (error) {
+    console.error('[Cross Account Jobs] Error queuing jobs:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to queue cross-account jobs',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listJobs, removeFinishedJobs, toJobView } from '@/lib/jobQueue';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+
+// GET - Bulk jobs, running and finished, with their per-domain results
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    const jobs = await listJobs();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        jobs: jobs.map(job => toJobView(job, apiToken)),
+        totalCount: jobs.length
+      }
+    });
+
+  } catch (error) {
+    console.error('[API] Error listing bulk jobs:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to list jobs',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// DELETE - Clear finished jobs from the jobs panel
+export async function DELETE(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    const removedCount = await removeFinishedJobs();
+
+    return NextResponse.json({
+      success: true,
+      data: { removedCount }
+    });
+
+  } catch (error) {
+    console.error('[API] Error clearing finished jobs:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to clear finished jobs',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { retryDelivery } from '@/lib/notifications';
+import { requirePermission } from '@/lib/auth';
+
+// POST - Send a logged delivery again
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const delivery = await retryDelivery(id);
+    return NextResponse.json({
+      success: true,
+      data: { delivery }
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (message.endsWith('not found')) {
+      return NextResponse.json({
+        success: false,
+        error: message
+      }, { status: 404 });
+    }
+
+    console.error('[Notifications] Error retrying delivery:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to retry delivery'
+    }, { status: 500 });
+  }
+}
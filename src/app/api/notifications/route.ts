@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { NotificationSettingsSchema, createValidationErrorResponse } from '@/lib/validation';
+import { loadNotifications, updateNotifications } from '@/lib/notifications';
+import { requirePermission } from '@/lib/auth';
+
+// GET - Webhook targets, cooldown and delivery log
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    const cache = await loadNotifications();
+    return NextResponse.json({
+      success: true,
+      data: {
+        targets: cache.targets,
+        deliveries: cache.deliveries,
+        cooldownMinutes: cache.cooldownMinutes
+      }
+    });
+  } catch (error) {
+    console.error('[Notifications] Error loading notifications:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load notifications'
+    }, { status: 500 });
+  }
+}
+
+// PUT - Update the alert cooldown
+export async function PUT(request: NextRequest) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const parsed = NotificationSettingsSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const cooldownMinutes = await updateNotifications(cache => {
+      cache.cooldownMinutes = parsed.data.cooldownMinutes;
+      return cache.cooldownMinutes;
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { cooldownMinutes }
+    });
+  } catch (error) {
+    console.error('[Notifications] Error updating settings:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update notification settings'
+    }, { status: 500 });
+  }
+}
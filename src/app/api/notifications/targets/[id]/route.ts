@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WebhookTargetSchema, createValidationErrorResponse } from '@/lib/validation';
+import { updateNotifications } from '@/lib/notifications';
+import { requirePermission } from '@/lib/auth';
+
+// PUT - Update a webhook target
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = WebhookTargetSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const target = await updateNotifications(cache => {
+      const index = cache.targets.findIndex(item => item.id === id);
+      if (index === -1) return null;
+      cache.targets[index] = {
+        ...cache.targets[index],
+        ...parsed.data,
+        updatedAt: new Date().toISOString()
+      };
+      return cache.targets[index];
+    });
+
+    if (!target) {
+      return NextResponse.json({
+        success: false,
+        error: 'Webhook target not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { target }
+    });
+  } catch (error) {
+    console.error('[Notifications] Error updating webhook target:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update webhook target'
+    }, { status: 500 });
+  }
+}
+
+// DELETE - Delete a webhook target, its deliveries stay in the log
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const removed = await updateNotifications(cache => {
+      const before = cache.targets.length;
+      cache.targets = cache.targets.filter(item => item.id !== id);
+      return cache.targets.length < before;
+    });
+
+    if (!removed) {
+      return NextResponse.json({
+        success: false,
+        error: 'Webhook target not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id }
+    });
+  } catch (error) {
+    console.error('[Notifications] Error deleting webhook target:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete webhook target'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadNotifications, sendTestNotification } from '@/lib/notifications';
+import { requirePermission } from '@/lib/auth';
+
+// POST - Send a sample alert to a webhook target
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const cache = await loadNotifications();
+    const target = cache.targets.find(item => item.id === id);
+    if (!target) {
+      return NextResponse.json({
+        success: false,
+        error: 'Webhook target not found'
+      }, { status: 404 });
+    }
+
+    const delivery = await sendTestNotification(target);
+    return NextResponse.json({
+      success: true,
+      data: { delivery }
+    });
+  } catch (error) {
+    console.error('[Notifications] Error sending test notification:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to send test notification'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { WebhookTarget } from '@/types/cloudflare';
+import { WebhookTargetSchema, createValidationErrorResponse } from '@/lib/validation';
+import { updateNotifications } from '@/lib/notifications';
+import { requirePermission } from '@/lib/auth';
+
+// POST - Create a webhook target
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const parsed = WebhookTargetSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const now = new Date().toISOString();
+    const target: WebhookTarget = {
+      id: uuidv4(),
+      ...parsed.data,
+      createdAt: now,
+      updatedAt: now
+    };
+    await updateNotifications(cache => {
+      cache.targets.push(target);
+    });
+    console.log(`[Notifications] Created ${target.format} webhook target ${target.name}`);
+
+    return NextResponse.json({
+      success: true,
+      data: { target }
+    });
+  } catch (error) {
+    console.error('[Notifications] Error creating webhook target:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create webhook target'
+    }, { status: 500 });
+  }
+}
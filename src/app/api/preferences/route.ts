@@ -1,8 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { promises as fs } from 'fs';
-import { join } from 'path';
-
-const PREFERENCES_FILE_PATH = join(process.cwd(), 'user-preferences.json');
+import { getStorage } from '@/lib/storage';
+import { requirePermission } from '@/lib/auth';
 
 export interface UserPreferences {
   perPage: number;
@@ -20,38 +18,40 @@ const defaultPreferences: UserPreferences = {
   lastUpdated: new Date().toISOString()
 };
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
   try {
-    const preferencesContent = await fs.readFile(PREFERENCES_FILE_PATH, 'utf-8');
-    const preferences: UserPreferences = JSON.parse(preferencesContent);
-    
-    return NextResponse.json(preferences);
+    const stored = await (await getStorage()).preferences.read();
+    if (!stored) {
+      return NextResponse.json(defaultPreferences);
+    }
+
+    return NextResponse.json(stored.preferences as unknown as UserPreferences);
   } catch (error) {
-    // File doesn't exist or can't be read, return defaults
+    // Storage can't be read, return defaults
     return NextResponse.json(defaultPreferences);
   }
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
   try {
     const preferences: Partial<UserPreferences> = await request.json();
-    
-    // Load existing preferences and merge with new ones
-    let existingPreferences = defaultPreferences;
-    try {
-      const existingContent = await fs.readFile(PREFERENCES_FILE_PATH, 'utf-8');
-      existingPreferences = JSON.parse(existingContent);
-    } catch (error) {
-      // File doesn't exist, use defaults
-    }
 
-    const updatedPreferences: UserPreferences = {
-      ...existingPreferences,
+    // Only the given keys change, the stored ones are kept
+    const merged = await (await getStorage()).preferences.update({
       ...preferences,
       lastUpdated: new Date().toISOString()
-    };
+    });
 
-    await fs.writeFile(PREFERENCES_FILE_PATH, JSON.stringify(updatedPreferences, null, 2));
+    const updatedPreferences: UserPreferences = {
+      ...defaultPreferences,
+      ...merged
+    };
 
     return NextResponse.json({ success: true, preferences: updatedPreferences });
   } catch (error) {
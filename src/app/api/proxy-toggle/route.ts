@@ -2,10 +2,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { CloudflareAPI } from '@/lib/cloudflare';
 import { ProxyToggleSchema, ApiTokenSchema, validateApiRequest, createValidationErrorResponse } from '@/lib/validation';
+import { getAuditActor, recordAudit } from '@/lib/auditLog';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
 
 export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
   try {
-    const apiToken = request.headers.get('x-api-token');
+    const apiToken = await getRequestApiToken(request);
     
     try {
       validateApiRequest(ApiTokenSchema, apiToken);
@@ -29,8 +35,32 @@ export async function POST(request: NextRequest) {
 
     const { zoneId, recordId, proxied } = validatedData;
 
-    const cloudflare = new CloudflareAPI(apiToken!);
-    const updatedRecord = await cloudflare.toggleProxy(zoneId, recordId, proxied);
+    const cloudflare = new CloudflareAPI(apiToken!, 'interactive');
+    // The toggle always flips the current state of the record
+    const audit = {
+      ...(await getAuditActor(request)),
+      action: 'proxy_toggle' as const,
+      zoneId,
+      target: recordId,
+      before: { proxied: !proxied },
+      after: { proxied }
+    };
+
+    let updatedRecord;
+    try {
+      updatedRecord = await cloudflare.toggleProxy(zoneId, recordId, proxied);
+    } catch (error) {
+      await recordAudit({ ...audit, success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+      throw error;
+    }
+
+    await recordAudit({
+      ...audit,
+      domainName: updatedRecord.zone_name,
+      target: updatedRecord.name,
+      success: true,
+      cloudflareResponse: updatedRecord
+    });
 
     return NextResponse.json(updatedRecord);
   } catch (error) {
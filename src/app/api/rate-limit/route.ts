@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cloudflareRateLimiter } from '@/lib/rateLimiter';
+import { requirePermission } from '@/lib/auth';
+
+/**
+ * GET /api/rate-limit
+ * Current Cloudflare API budget shared by all server-side requests
+ */
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    return NextResponse.json({
+      success: true,
+      data: cloudflareRateLimiter.getBudget()
+    });
+  } catch (error) {
+    console.error('[RateLimit API] Error getting budget:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to get rate limit budget'
+    }, { status: 500 });
+  }
+}
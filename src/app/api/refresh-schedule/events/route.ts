@@ -0,0 +1,12 @@
+import { NextRequest } from 'next/server';
+import { createRefreshEventResponse, startRefreshScheduler } from '@/lib/refreshScheduler';
+import { requirePermission } from '@/lib/auth';
+
+// GET - Server-sent events of the scheduled refresh runs
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  startRefreshScheduler();
+  return createRefreshEventResponse();
+}
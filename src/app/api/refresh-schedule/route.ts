@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RefreshScheduleUpdateSchema, createValidationErrorResponse } from '@/lib/validation';
+import { getNextCronRun } from '@/lib/cronExpression';
+import {
+  getEnvironmentToken,
+  isRefreshRunning,
+  loadRefreshSchedule,
+  startRefreshScheduler,
+  updateRefreshSchedule
+} from '@/lib/refreshScheduler';
+import { RefreshScheduleConfig } from '@/types/cloudflare';
+import { requirePermission } from '@/lib/auth';
+
+function getNextRun(config: RefreshScheduleConfig): string | null {
+  if (!config.enabled) return null;
+  try {
+    return getNextCronRun(config.cronExpression)?.toISOString() || null;
+  } catch {
+    return null;
+  }
+}
+
+// GET - Schedule, next run and history of the scheduled refresh
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    startRefreshScheduler();
+    const cache = await loadRefreshSchedule();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...cache,
+        nextRun: getNextRun(cache.config),
+        running: isRefreshRunning(),
+        hasEnvironmentToken: getEnvironmentToken() !== null
+      }
+    });
+  } catch (error) {
+    console.error('[RefreshSchedule] Error loading schedule:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load refresh schedule'
+    }, { status: 500 });
+  }
+}
+
+// PUT - Enable, disable or change the schedule
+export async function PUT(request: NextRequest) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const parsed = RefreshScheduleUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    startRefreshScheduler();
+    const cache = await updateRefreshSchedule(parsed.data);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...cache,
+        nextRun: getNextRun(cache.config),
+        running: isRefreshRunning(),
+        hasEnvironmentToken: getEnvironmentToken() !== null
+      }
+    });
+  } catch (error) {
+    console.error('[RefreshSchedule] Error updating schedule:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update refresh schedule'
+    }, { status: 500 });
+  }
+}
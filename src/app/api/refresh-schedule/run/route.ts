@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getEnvironmentToken, isRefreshRunning, runScheduledRefresh } from '@/lib/refreshScheduler';
+import { requirePermission } from '@/lib/auth';
+
+// POST - Run the scheduled refresh now, progress is reported through /api/refresh-schedule/events
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  if (!getEnvironmentToken()) {
+    return NextResponse.json({
+      success: false,
+      error: 'No environment token configured'
+    }, { status: 400 });
+  }
+
+  if (isRefreshRunning()) {
+    return NextResponse.json({
+      success: false,
+      error: 'A refresh is already running'
+    }, { status: 409 });
+  }
+
+  // A complete refresh takes minutes, the request does not wait for it
+  runScheduledRefresh('manual').catch(error =>
+    console.error('[RefreshSchedule] Manual refresh failed:', error)
+  );
+
+  return NextResponse.json({
+    success: true,
+    data: { started: true }
+  });
+}
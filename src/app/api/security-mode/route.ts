@@ -1,8 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { SecurityModeSchema, ApiTokenSchema, validateApiRequest, createValidationErrorResponse } from '@/lib/validation';
+import { getAuditActor, recordAudit } from '@/lib/auditLog';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
 
 export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
+  const body = await request.clone().json().catch(() => null);
+  const response = await updateSecurityMode(request);
+
+  // Requests rejected before calling Cloudflare are not audited
+  const parsed = SecurityModeSchema.safeParse(body);
+  if (!parsed.success || response.status === 401) {
+    return response;
+  }
+
+  const { zoneId, mode, enabled } = parsed.data;
+  const result = await response.clone().json().catch(() => null);
+  await recordAudit({
+    ...(await getAuditActor(request)),
+    action: 'security_mode',
+    zoneId,
+    target: mode,
+    before: { [mode]: !enabled },
+    after: { [mode]: enabled },
+    success: response.ok && result?.success !== false,
+    cloudflareResponse: result?.data ?? result?.details,
+    error: result?.error
+  });
+
+  return response;
+}
+
+async function updateSecurityMode(request: NextRequest): Promise<NextResponse> {
   try {
     const body = await request.json();
     
@@ -26,7 +59,7 @@ export async function POST(request: NextRequest) {
     const { zoneId, mode, enabled } = validatedData;
 
     // Validate API token
-    const apiToken = request.headers.get('x-api-token');
+    const apiToken = await getRequestApiToken(request);
     if (!apiToken) {
       return NextResponse.json(
         { error: 'API token is required' },
@@ -306,6 +339,9 @@ export async function POST(request: NextRequest) {
 }
 
 export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
   try {
     const { searchParams } = new URL(request.url);
     const zoneId = searchParams.get('zoneId');
@@ -317,7 +353,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const apiToken = request.headers.get('x-api-token');
+    const apiToken = await getRequestApiToken(request);
     if (!apiToken) {
       return NextResponse.json(
         { error: 'API token is required' },
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTemplateHistory } from '@/lib/templateHistory';
+import { requirePermission } from '@/lib/auth';
+
+// GET - Revisiones de una plantilla, de la más reciente a la más antigua
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const revisions = await getTemplateHistory(id);
+
+    return NextResponse.json({
+      success: true,
+      data: { revisions }
+    });
+  } catch (error) {
+    console.error('[TemplateHistory] Error loading history:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load template history'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RuleTemplate } from '@/types/cloudflare';
+import { safeUpdateJsonFile } from '@/lib/fileSystem';
+import { incrementVersion } from '@/lib/ruleUtils';
+import { getTemplateHistory, recordTemplateRevisions } from '@/lib/templateHistory';
+import { arePhaseConfigsEqual } from '@/lib/rulePhases';
+import { TemplateRollbackSchema, createValidationErrorResponse } from '@/lib/validation';
+import { requirePermission } from '@/lib/auth';
+
+const RULES_TEMPLATES_FILE = 'security-rules-templates.json';
+
+interface RulesTemplatesCache {
+  templates: RuleTemplate[];
+  lastUpdated: string;
+}
+
+class TemplateRollbackError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'TemplateRollbackError';
+  }
+}
+
+// POST - Restaurar el contenido de una revisión anterior como nueva versión
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = TemplateRollbackSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const revisions = await getTemplateHistory(id);
+    const revision = revisions.find(item => item.id === parsed.data.revisionId);
+    if (!revision) {
+      return NextResponse.json({
+        success: false,
+        error: 'Revision not found'
+      }, { status: 404 });
+    }
+
+    let currentTemplate!: RuleTemplate;
+    let restoredTemplate!: RuleTemplate;
+
+    // The template is read and replaced under the file lock, an edit made meanwhile is never overwritten
+    await safeUpdateJsonFile<RulesTemplatesCache>(RULES_TEMPLATES_FILE, cache => {
+      const templates = cache.templates || [];
+      const current = templates.find(template => template.id === id);
+      if (!current) {
+        throw new TemplateRollbackError('Rule template not found', 404);
+      }
+      if (
+        revision.expression === current.expression &&
+        revision.action === current.action &&
+        JSON.stringify(revision.actionParameters || {}) === JSON.stringify(current.actionParameters || {}) &&
+        arePhaseConfigsEqual(revision, current)
+      ) {
+        throw new TemplateRollbackError('Template already matches this revision', 400);
+      }
+
+      // Rolling back creates a new version so domains with the current one show up as outdated
+      const restored: RuleTemplate = {
+        ...current,
+        expression: revision.expression,
+        action: revision.action,
+        actionParameters: revision.actionParameters || {},
+        ratelimit: revision.ratelimit,
+        redirect: revision.redirect,
+        rewrite: revision.rewrite,
+        managedRuleset: revision.managedRuleset,
+        version: incrementVersion(current.version),
+        updatedAt: new Date().toISOString()
+      };
+      currentTemplate = current;
+      restoredTemplate = restored;
+
+      return {
+        ...cache,
+        templates: templates.map(template => template.id === id ? restored : template),
+        lastUpdated: new Date().toISOString()
+      };
+    });
+
+    await recordTemplateRevisions([{
+      template: restoredTemplate,
+      previous: currentTemplate,
+      source: 'rollback',
+      restoredFrom: revision.version
+    }]);
+
+    console.log(`[TemplateHistory] Rolled back ${restoredTemplate.friendlyId} to v${revision.version} as v${restoredTemplate.version}`);
+
+    return NextResponse.json({
+      success: true,
+      data: restoredTemplate,
+      versionChanged: true
+    });
+  } catch (error) {
+    if (error instanceof TemplateRollbackError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('[TemplateHistory] Error rolling back template:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to roll back template'
+    }, { status: 500 });
+  }
+}
@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { promises as fs } from 'fs';
-import path from 'path';
 import { RuleTemplate } from '@/types/cloudflare';
-
-const RULES_CACHE_FILE = path.join(process.cwd(), 'cache', 'security-rules-templates.json');
+import { validateExpression } from '@/lib/ruleExpression';
+import { recordTemplateRevisions } from '@/lib/templateHistory';
+import { RuleTemplatePhaseSchema, TemplateAccountIdsSchema, createValidationErrorResponse } from '@/lib/validation';
+import { arePhaseConfigsEqual } from '@/lib/rulePhases';
+import { getAuditActor, recordAudit } from '@/lib/auditLog';
+import { getStorage } from '@/lib/storage';
+import { requirePermission } from '@/lib/auth';
 
 interface RulesCache {
   templates: RuleTemplate[];
@@ -11,68 +14,22 @@ interface RulesCache {
 }
 
 async function loadRulesCache(): Promise<RulesCache> {
-  try {
-    const data = await fs.readFile(RULES_CACHE_FILE, 'utf-8');
-    return JSON.parse(data);
-  } catch {
-    return {
-      templates: [],
-      lastUpdated: new Date().toISOString()
-    };
-  }
-}
-
-async function saveRulesCache(cache: RulesCache): Promise<void> {
-  try {
-    cache.lastUpdated = new Date().toISOString();
-    const jsonData = JSON.stringify(cache, null, 2);
-
-    console.log('[Security Rules [id]] 💾 Saving rules cache...');
-    console.log(`[Security Rules [id]] File path: ${RULES_CACHE_FILE}`);
-    console.log(`[Security Rules [id]] Templates count: ${cache.templates.length}`);
-    console.log(`[Security Rules [id]] Data size: ${jsonData.length} bytes`);
-
-    // Check if directory exists
-    const cacheDir = path.dirname(RULES_CACHE_FILE);
-    try {
-      await fs.access(cacheDir);
-      console.log(`[Security Rules [id]] ✅ Cache directory exists: ${cacheDir}`);
-    } catch (error) {
-      console.log(`[Security Rules [id]] ⚠️ Cache directory does not exist, creating: ${cacheDir}`);
-      await fs.mkdir(cacheDir, { recursive: true });
-      console.log(`[Security Rules [id]] ✅ Cache directory created`);
-    }
-
-    // Write file
-    await fs.writeFile(RULES_CACHE_FILE, jsonData, 'utf-8');
-    console.log(`[Security Rules [id]] ✅ Rules cache saved successfully`);
-
-    // Verify write
-    const verifyData = await fs.readFile(RULES_CACHE_FILE, 'utf-8');
-    const verifyParsed = JSON.parse(verifyData);
-    console.log(`[Security Rules [id]] ✅ Verification: ${verifyParsed.templates.length} templates in file`);
-
-    if (verifyParsed.templates.length !== cache.templates.length) {
-      console.error(`[Security Rules [id]] ❌ MISMATCH: Expected ${cache.templates.length}, got ${verifyParsed.templates.length}`);
-      throw new Error('Template count mismatch after save');
-    }
-  } catch (error) {
-    console.error('[Security Rules [id]] ❌ Error saving rules cache:', error);
-    console.error('[Security Rules [id]] Error details:', {
-      message: error instanceof Error ? error.message : String(error),
-      path: RULES_CACHE_FILE,
-      templatesCount: cache.templates.length
-    });
-    throw error;
-  }
+  const storage = await getStorage();
+  return (await storage.templates.read()) || {
+    templates: [],
+    lastUpdated: new Date().toISOString()
+  };
 }
 
 // PUT - Actualizar plantilla específica
 export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const body = await request.json();
-    const { name, description, expression, action, actionParameters, tags, applicableTags, excludedDomains, enabled } = body;
+    const { name, description, expression, action, actionParameters, tags, applicableTags, excludedDomains, accountIds, enabled, ratelimit, redirect, rewrite, managedRuleset } = body;
 
     if (!name || !expression || !action) {
       return NextResponse.json({
@@ -81,6 +38,14 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       }, { status: 400 });
     }
 
+    const accountIdsCheck = TemplateAccountIdsSchema.safeParse(accountIds);
+    if (!accountIdsCheck.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(accountIdsCheck.error)
+      }, { status: 400 });
+    }
+
     const cache = await loadRulesCache();
     const templateIndex = cache.templates.findIndex(template => template.id === id);
 
@@ -92,6 +57,19 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
     }
 
     const existingTemplate = cache.templates[templateIndex];
+
+    // Only validate changed expressions so imported rules can still be edited
+    if (expression && expression !== existingTemplate.expression) {
+      const expressionCheck = validateExpression(expression);
+      if (!expressionCheck.valid) {
+        return NextResponse.json({
+          success: false,
+          error: `Invalid expression: ${expressionCheck.errors[0].message}`,
+          errorType: 'INVALID_EXPRESSION',
+          details: expressionCheck.errors
+        }, { status: 400 });
+      }
+    }
     
     // Check for duplicate names (excluding current template)
     if (cache.templates.some(template => template.name === name && template.id !== id)) {
@@ -101,9 +79,29 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       }, { status: 400 });
     }
     
+    // The phase is fixed at creation, the deployed rules live in that phase's ruleset
+    const phaseCheck = RuleTemplatePhaseSchema.safeParse({
+      phase: existingTemplate.phase,
+      action,
+      ratelimit: ratelimit || existingTemplate.ratelimit,
+      redirect: redirect || existingTemplate.redirect,
+      rewrite: rewrite || existingTemplate.rewrite,
+      managedRuleset: managedRuleset || existingTemplate.managedRuleset
+    });
+    if (!phaseCheck.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(phaseCheck.error)
+      }, { status: 400 });
+    }
+
     // Increment version for significant changes
     let newVersion = existingTemplate.version;
-    if (expression !== existingTemplate.expression || action !== existingTemplate.action) {
+    if (
+      expression !== existingTemplate.expression ||
+      action !== existingTemplate.action ||
+      !arePhaseConfigsEqual(phaseCheck.data, existingTemplate)
+    ) {
       const versionParts = existingTemplate.version.split('.');
       versionParts[1] = String(parseInt(versionParts[1]) + 1);
       newVersion = versionParts.join('.');
@@ -116,9 +114,14 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       expression,
       action,
       actionParameters: actionParameters || {},
+      ratelimit: phaseCheck.data.ratelimit,
+      redirect: phaseCheck.data.redirect,
+      rewrite: phaseCheck.data.rewrite,
+      managedRuleset: phaseCheck.data.managedRuleset,
       tags: tags || [],
       applicableTags: applicableTags || [],
       excludedDomains: excludedDomains || [],
+      accountIds: accountIdsCheck.data !== undefined ? accountIdsCheck.data : existingTemplate.accountIds,
       enabled: enabled !== undefined ? enabled : existingTemplate.enabled,
       updatedAt: new Date().toISOString(),
       version: newVersion
@@ -132,11 +135,17 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       newVersion: updatedTemplate.version
     });
 
-    cache.templates[templateIndex] = updatedTemplate;
-    console.log(`[Security Rules [id] PUT] Total templates before save: ${cache.templates.length}`);
-
-    await saveRulesCache(cache);
+    await (await getStorage()).templates.upsert(updatedTemplate);
     console.log('[Security Rules [id] PUT] ✅ Template updated and saved successfully');
+    await recordTemplateRevisions([{ template: updatedTemplate, previous: existingTemplate, source: 'ui_edit' }]);
+    await recordAudit({
+      ...(await getAuditActor(request)),
+      action: 'template_update',
+      target: updatedTemplate.friendlyId,
+      before: existingTemplate,
+      after: updatedTemplate,
+      success: true
+    });
 
     // Return version change flag so client can handle cache invalidation
     const versionChanged = newVersion !== existingTemplate.version;
@@ -160,6 +169,9 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
 
 // DELETE - Eliminar plantilla específica
 export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
 
@@ -173,8 +185,15 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
       }, { status: 404 });
     }
 
-    const deletedTemplate = cache.templates.splice(templateIndex, 1)[0];
-    await saveRulesCache(cache);
+    const deletedTemplate = cache.templates[templateIndex];
+    await (await getStorage()).templates.remove(deletedTemplate.id);
+    await recordAudit({
+      ...(await getAuditActor(request)),
+      action: 'template_delete',
+      target: deletedTemplate.friendlyId,
+      before: deletedTemplate,
+      success: true
+    });
 
     return NextResponse.json({
       success: true,
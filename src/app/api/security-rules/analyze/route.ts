@@ -3,6 +3,10 @@ import { CloudflareAPI } from '@/lib/cloudflare';
 import { DomainRuleStatus, RuleConflict, RuleTemplate, ConflictResolution } from '@/types/cloudflare';
 import { safeReadJsonFile, safeWriteJsonFile } from '@/lib/fileSystem';
 import { incrementVersion } from '@/lib/ruleUtils';
+import { recordTemplateRevisions } from '@/lib/templateHistory';
+import { cloudflareRateLimiter, waitForRateLimitBudget, ESTIMATED_CALLS_PER_DOMAIN } from '@/lib/rateLimiter';
+import { resolveApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
 
 const DOMAIN_RULES_CACHE_FILE = 'domain-rules-status.json';
 const RULES_TEMPLATES_FILE = 'security-rules-templates.json';
@@ -49,15 +53,18 @@ async function loadRulesTemplates(): Promise<RulesTemplatesCache> {
 
 // POST - Analyze rules for specific zones or all zones
 export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const {
-      apiToken,
+      apiToken: credential,
       zoneIds,
       forceRefresh = false,
-      batchSize: customBatchSize,
-      batchDelay: customBatchDelay
+      batchSize: customBatchSize
     } = body;
+    const apiToken = await resolveApiToken(credential);
 
     console.log('[Analyze API] Token received:', apiToken ? `${apiToken.substring(0, 8)}...` : 'null');
     if (!apiToken) {
@@ -214,6 +221,7 @@ export async function POST(request: NextRequest) {
               // Add to cache and save immediately
               templatesCache.templates.push(newTemplate);
               await safeWriteJsonFile(RULES_TEMPLATES_FILE, templatesCache);
+              await recordTemplateRevisions([{ template: newTemplate, source: 'domain_sync', sourceDomain: zone.name }]);
 
               appliedRules.push({
                 templateId: newTemplate.id,
@@ -262,11 +270,10 @@ export async function POST(request: NextRequest) {
 
     // Process zones in parallel batches for better performance
     // Use custom values from settings if provided, otherwise use defaults
-    const BATCH_SIZE = customBatchSize || 4; // Optimized for Cloudflare's 1200 req/5min limit (~7 API calls/domain)
-    const BATCH_DELAY = customBatchDelay || 6000; // 6 seconds between batches to stay under rate limits
+    // Pacing between batches is handled by the shared rate limiter (1200 req/5min budget)
+    const BATCH_SIZE = customBatchSize || 4;
 
-    console.log(`[Analyze API] Rate limiting config: BATCH_SIZE=${BATCH_SIZE}, BATCH_DELAY=${BATCH_DELAY}ms`);
-    console.log(`[Analyze API] Processing in batches of ${BATCH_SIZE} zones with ${BATCH_DELAY}ms delay between batches`);
+    console.log(`[Analyze API] Rate limiting config: BATCH_SIZE=${BATCH_SIZE}, budget=${cloudflareRateLimiter.getBudget().remaining} requests`);
 
     for (let i = 0; i < targetZoneIds.length; i += BATCH_SIZE) {
       const batch = targetZoneIds.slice(i, i + BATCH_SIZE);
@@ -307,10 +314,10 @@ export async function POST(request: NextRequest) {
         console.warn(`[Analyze API] Failed to save progress after batch ${batchNumber}:`, saveError);
       }
 
-      // Rate limiting delay between batches
+      // Wait for the shared rate limit budget to cover the next batch
       if (i + BATCH_SIZE < targetZoneIds.length) {
-        console.log(`[Analyze API] Waiting ${BATCH_DELAY}ms before next batch...`);
-        await new Promise(resolve => setTimeout(resolve, BATCH_DELAY));
+        const nextBatchSize = Math.min(BATCH_SIZE, targetZoneIds.length - i - BATCH_SIZE);
+        await waitForRateLimitBudget(nextBatchSize * ESTIMATED_CALLS_PER_DOMAIN);
       }
     }
 
@@ -369,6 +376,9 @@ export async function POST(request: NextRequest) {
 
 // GET - Get cached analysis results
 export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
   try {
     const { searchParams } = new URL(request.url);
     const zoneId = searchParams.get('zoneId');
@@ -3,9 +3,14 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { CloudflareAPI } from '@/lib/cloudflare';
-import { BulkRuleApplication, RuleTemplate, ConflictResolution } from '@/types/cloudflare';
+import { BulkRuleApplication, RuleTemplate, RuleConflict, ConflictResolution } from '@/types/cloudflare';
+import { detectRuleConflicts, mergeConflictExpressions } from '@/lib/ruleConflicts';
+import { getRulePhase, templatePhaseRuleFields } from '@/lib/rulePhases';
+import { getStorage } from '@/lib/storage';
+import { resolveApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+import { requireChangeApproval } from '@/lib/changeRequests';
 
-const RULES_TEMPLATES_FILE = path.join(process.cwd(), 'security-rules-templates.json');
 const APPLICATION_LOG_FILE = path.join(process.cwd(), 'rule-application-log.json');
 
 interface RulesTemplatesCache {
@@ -30,15 +35,11 @@ interface ApplicationLog {
 }
 
 async function loadRulesTemplates(): Promise<RulesTemplatesCache> {
-  try {
-    const data = await fs.readFile(RULES_TEMPLATES_FILE, 'utf-8');
-    return JSON.parse(data);
-  } catch {
-    return {
-      templates: [],
-      lastUpdated: new Date().toISOString()
-    };
-  }
+  const storage = await getStorage();
+  return (await storage.templates.read()) || {
+    templates: [],
+    lastUpdated: new Date().toISOString()
+  };
 }
 
 async function loadApplicationLogs(): Promise<ApplicationLog[]> {
@@ -64,15 +65,19 @@ async function saveApplicationLog(log: ApplicationLog): Promise<void> {
 
 // POST - Apply rule template to multiple zones
 export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const { 
-      apiToken, 
+      apiToken: credential, 
       templateId, 
       targetZoneIds, 
       conflictResolution = ConflictResolution.MANUAL,
       preview = false 
     }: BulkRuleApplication & { apiToken: string } = body;
+    const apiToken = await resolveApiToken(credential);
 
     if (!apiToken) {
       return NextResponse.json({
@@ -88,6 +93,12 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // Zones under the approval policy only get templates from an approved change request
+    if (!preview) {
+      const needsApproval = await requireChangeApproval(request, targetZoneIds);
+      if (needsApproval) return needsApproval;
+    }
+
     const cloudflareAPI = new CloudflareAPI(apiToken);
     const templatesCache = await loadRulesTemplates();
     
@@ -122,7 +133,7 @@ export async function POST(request: NextRequest) {
         success: false,
         error: undefined as string | undefined,
         appliedRuleId: undefined as string | undefined,
-        conflicts: [] as any[]
+        conflicts: [] as RuleConflict[]
       };
 
       try {
@@ -136,58 +147,52 @@ export async function POST(request: NextRequest) {
         // Get existing security rules for this zone
         const existingRules = await cloudflareAPI.getZoneSecurityRules(zoneId);
         
-        // Check for conflicts
-        const conflictingRules = existingRules.filter(rule => {
-          // Check for identical expressions
-          if (rule.expression === template.expression) {
-            return true;
-          }
-          
-          // Check for similar expressions (simplified)
-          const similarity = calculateExpressionSimilarity(template.expression, rule.expression);
-          return similarity > 0.8;
+        // Check for conflicts against the zone's custom rules
+        const conflicts = detectRuleConflicts(template, existingRules, {
+          zoneId,
+          domainName,
+          templates: templatesCache.templates
         });
+        let expression = template.expression;
 
-        if (conflictingRules.length > 0) {
-          result.conflicts = conflictingRules.map(rule => ({
-            cloudflareRuleId: rule.id,
-            expression: rule.expression,
-            action: rule.action,
-            description: rule.description,
-            rulesetId: rule.rulesetId
-          }));
+        if (conflicts.length > 0) {
+          result.conflicts = conflicts;
 
           // Handle conflicts based on resolution strategy
           switch (conflictResolution) {
             case ConflictResolution.SKIP:
-              result.error = `Conflicts detected (${conflictingRules.length}), skipped as requested`;
+              result.error = `Conflicts detected (${conflicts.length}), skipped as requested`;
               results.push(result);
               continue;
 
             case ConflictResolution.MANUAL:
-              result.error = `Manual resolution required for ${conflictingRules.length} conflicts`;
+              result.error = `Manual resolution required for ${conflicts.length} conflicts`;
               results.push(result);
               continue;
 
+            case ConflictResolution.MERGE: {
+              const mergedExpression = mergeConflictExpressions(template, conflicts);
+              if (!mergedExpression) {
+                result.error = 'Conflicting rules can not be merged with this template';
+                results.push(result);
+                continue;
+              }
+              expression = mergedExpression;
+            }
+            // falls through: merged rules replace the conflicting ones
+
             case ConflictResolution.REPLACE:
               if (!preview) {
                 // Remove conflicting rules
-                for (const conflictingRule of conflictingRules) {
+                for (const conflict of conflicts) {
                   try {
-                    await cloudflareAPI.removeRuleFromZone(zoneId, conflictingRule.id);
+                    await cloudflareAPI.removeRuleFromZone(zoneId, conflict.conflictingRule.cloudflareRuleId);
                   } catch (removeError) {
-                    console.warn(`Failed to remove conflicting rule ${conflictingRule.id}:`, removeError);
+                    console.warn(`Failed to remove conflicting rule ${conflict.conflictingRule.cloudflareRuleId}:`, removeError);
                   }
                 }
               }
               break;
-
-            case ConflictResolution.MERGE:
-              // For now, treat merge as replace
-              // TODO: Implement actual merge logic
-              result.error = 'Merge resolution not yet implemented';
-              results.push(result);
-              continue;
           }
         }
 
@@ -195,14 +200,15 @@ export async function POST(request: NextRequest) {
         if (!preview) {
           const newRule = {
             id: uuidv4(),
-            expression: template.expression,
+            expression,
             action: template.action,
             action_parameters: template.actionParameters,
+            ...templatePhaseRuleFields(template),
             description: `${template.name} - ${template.description}`,
             enabled: template.enabled
           };
 
-          const updatedRuleset = await cloudflareAPI.addRuleToZone(zoneId, newRule);
+          const updatedRuleset = await cloudflareAPI.addRuleToZone(zoneId, newRule, getRulePhase(template));
           result.appliedRuleId = newRule.id;
           result.success = true;
         } else {
@@ -270,7 +276,10 @@ export async function POST(request: NextRequest) {
 }
 
 // GET - Get application history
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
   try {
     const logs = await loadApplicationLogs();
     return NextResponse.json({
@@ -287,14 +296,3 @@ export async function GET() {
     }, { status: 500 });
   }
 }
-
-// Helper function to calculate expression similarity
-function calculateExpressionSimilarity(expr1: string, expr2: string): number {
-  const keywords1 = new Set(expr1.toLowerCase().match(/\w+/g) || []);
-  const keywords2 = new Set(expr2.toLowerCase().match(/\w+/g) || []);
-  
-  const intersection = new Set([...keywords1].filter(x => keywords2.has(x)));
-  const union = new Set([...keywords1, ...keywords2]);
-  
-  return intersection.size / union.size;
-}
\ No newline at end of file
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { CloudflareAPI } from '@/lib/cloudflare';
 import { safeReadJsonFile, safeWriteJsonFile } from '@/lib/fileSystem';
 import { v4 as uuidv4 } from 'uuid';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
 
 interface AutoDiscoveryRequest {
   zoneId: string;
@@ -23,8 +25,11 @@ interface TemplateCandidate {
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
   try {
-    const apiToken = request.headers.get('x-api-token');
+    const apiToken = await getRequestApiToken(request);
     if (!apiToken) {
       return NextResponse.json({ error: 'API token requerido' }, { status: 401 });
     }
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CloudflareAPI } from '@/lib/cloudflare';
+import { RuleConflict, RuleTemplate } from '@/types/cloudflare';
+import { safeReadJsonFile } from '@/lib/fileSystem';
+import { detectRuleConflicts } from '@/lib/ruleConflicts';
+import { waitForRateLimitBudget, ESTIMATED_CALLS_PER_DOMAIN } from '@/lib/rateLimiter';
+import { RuleConflictCheckSchema, createValidationErrorResponse } from '@/lib/validation';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+
+const RULES_TEMPLATES_FILE = 'security-rules-templates.json';
+
+// Zones checked in parallel; each one reads every custom ruleset of the zone
+const BATCH_SIZE = 5;
+
+interface RulesTemplatesCache {
+  templates: RuleTemplate[];
+  lastUpdated: string;
+}
+
+// POST - Detect custom rules that conflict with a template in each target zone
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = RuleConflictCheckSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const { templateId, targets } = parsed.data;
+    const cache = await safeReadJsonFile<RulesTemplatesCache>(RULES_TEMPLATES_FILE);
+    const template = cache.templates.find(t => t.id === templateId);
+    if (!template) {
+      return NextResponse.json({
+        success: false,
+        error: 'Rule template not found'
+      }, { status: 404 });
+    }
+
+    const cloudflareAPI = new CloudflareAPI(apiToken);
+    const conflicts: RuleConflict[] = [];
+    const failedZones: Array<{ zoneId: string; domainName: string; error: string }> = [];
+
+    for (let i = 0; i < targets.length; i += BATCH_SIZE) {
+      const batch = targets.slice(i, i + BATCH_SIZE);
+
+      const batchResults = await Promise.all(batch.map(async (target) => {
+        try {
+          const existingRules = await cloudflareAPI.getZoneSecurityRules(target.zoneId);
+          return detectRuleConflicts(template, existingRules, {
+            zoneId: target.zoneId,
+            domainName: target.domainName,
+            templates: cache.templates
+          });
+        } catch (error) {
+          console.error(`[RuleConflicts] Error checking zone ${target.domainName}:`, error);
+          failedZones.push({
+            zoneId: target.zoneId,
+            domainName: target.domainName,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+          return [];
+        }
+      }));
+
+      conflicts.push(...batchResults.flat());
+
+      if (i + BATCH_SIZE < targets.length) {
+        await waitForRateLimitBudget(BATCH_SIZE * ESTIMATED_CALLS_PER_DOMAIN);
+      }
+    }
+
+    console.log(`[RuleConflicts] ${template.friendlyId}: ${conflicts.length} conflicts in ${targets.length} zones, ${failedZones.length} zones failed`);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        conflicts,
+        failedZones
+      }
+    });
+
+  } catch (error) {
+    console.error('[RuleConflicts] Error detecting conflicts:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to detect rule conflicts'
+    }, { status: 500 });
+  }
+}
@@ -1,10 +1,8 @@
-import { NextResponse } from 'next/server';
-import { promises as fs } from 'fs';
-import path from 'path';
+import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
 import { RuleTemplate } from '@/types/cloudflare';
-
-const RULES_CACHE_FILE = path.join(process.cwd(), 'security-rules-templates.json');
+import { getStorage } from '@/lib/storage';
+import { requirePermission } from '@/lib/auth';
 
 interface RulesCache {
   templates: RuleTemplate[];
@@ -12,7 +10,10 @@ interface RulesCache {
 }
 
 // POST - Initialize example security rules
-export async function POST() {
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
   try {
     const exampleTemplates: RuleTemplate[] = [
       {
@@ -131,7 +132,7 @@ export async function POST() {
       lastUpdated: new Date().toISOString()
     };
 
-    await fs.writeFile(RULES_CACHE_FILE, JSON.stringify(cache, null, 2));
+    await (await getStorage()).templates.write(cache);
 
     return NextResponse.json({
       success: true,
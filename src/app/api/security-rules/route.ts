@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { promises as fs } from 'fs';
-import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { SecurityRule, RuleTemplate } from '@/types/cloudflare';
 import { generateNextFriendlyId } from '@/lib/ruleUtils';
-
-const RULES_CACHE_FILE = path.join(process.cwd(), 'cache', 'security-rules-templates.json');
+import { validateExpression } from '@/lib/ruleExpression';
+import { recordTemplateRevisions } from '@/lib/templateHistory';
+import { RuleTemplatePhaseSchema, TemplateAccountIdsSchema, createValidationErrorResponse } from '@/lib/validation';
+import { DEFAULT_RULE_PHASE, arePhaseConfigsEqual } from '@/lib/rulePhases';
+import { getStorage } from '@/lib/storage';
+import { getRequestAccountId, isTemplateAvailableForAccount } from '@/lib/accounts';
+import { requirePermission } from '@/lib/auth';
 
 interface RulesCache {
   templates: RuleTemplate[];
@@ -13,70 +16,25 @@ interface RulesCache {
 }
 
 async function loadRulesCache(): Promise<RulesCache> {
-  try {
-    const data = await fs.readFile(RULES_CACHE_FILE, 'utf-8');
-    return JSON.parse(data);
-  } catch {
-    return {
-      templates: [],
-      lastUpdated: new Date().toISOString()
-    };
-  }
+  const storage = await getStorage();
+  return (await storage.templates.read()) || {
+    templates: [],
+    lastUpdated: new Date().toISOString()
+  };
 }
 
-async function saveRulesCache(cache: RulesCache): Promise<void> {
-  try {
-    cache.lastUpdated = new Date().toISOString();
-    const jsonData = JSON.stringify(cache, null, 2);
-
-    console.log('[Security Rules] 💾 Saving rules cache...');
-    console.log(`[Security Rules] File path: ${RULES_CACHE_FILE}`);
-    console.log(`[Security Rules] Templates count: ${cache.templates.length}`);
-    console.log(`[Security Rules] Data size: ${jsonData.length} bytes`);
-
-    // Check if directory exists
-    const cacheDir = path.dirname(RULES_CACHE_FILE);
-    try {
-      await fs.access(cacheDir);
-      console.log(`[Security Rules] ✅ Cache directory exists: ${cacheDir}`);
-    } catch (error) {
-      console.log(`[Security Rules] ⚠️ Cache directory does not exist, creating: ${cacheDir}`);
-      await fs.mkdir(cacheDir, { recursive: true });
-      console.log(`[Security Rules] ✅ Cache directory created`);
-    }
-
-    // Write file
-    await fs.writeFile(RULES_CACHE_FILE, jsonData, 'utf-8');
-    console.log(`[Security Rules] ✅ Rules cache saved successfully`);
-
-    // Verify write
-    const verifyData = await fs.readFile(RULES_CACHE_FILE, 'utf-8');
-    const verifyParsed = JSON.parse(verifyData);
-    console.log(`[Security Rules] ✅ Verification: ${verifyParsed.templates.length} templates in file`);
-
-    if (verifyParsed.templates.length !== cache.templates.length) {
-      console.error(`[Security Rules] ❌ MISMATCH: Expected ${cache.templates.length}, got ${verifyParsed.templates.length}`);
-      throw new Error('Template count mismatch after save');
-    }
-  } catch (error) {
-    console.error('[Security Rules] ❌ Error saving rules cache:', error);
-    console.error('[Security Rules] Error details:', {
-      message: error instanceof Error ? error.message : String(error),
-      path: RULES_CACHE_FILE,
-      templatesCount: cache.templates.length
-    });
-    throw error;
-  }
-}
+// GET - Obtener las plantillas de reglas disponibles para la cuenta activa
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
 
-// GET - Obtener todas las plantillas de reglas
-export async function GET() {
   try {
     const cache = await loadRulesCache();
+    const accountId = getRequestAccountId(request);
     return NextResponse.json({
       success: true,
       data: {
-        templates: cache.templates,
+        templates: cache.templates.filter(template => isTemplateAvailableForAccount(template, accountId)),
         lastUpdated: cache.lastUpdated
       }
     });
@@ -91,9 +49,12 @@ export async function GET() {
 
 // POST - Crear nueva plantilla de regla
 export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
-    const { name, description, expression, action, actionParameters, tags, applicableTags, excludedDomains } = body;
+    const { name, description, expression, action, actionParameters, tags, applicableTags, excludedDomains, accountIds, phase, ratelimit, redirect, rewrite, managedRuleset } = body;
 
     if (!name || !expression || !action) {
       return NextResponse.json({
@@ -102,6 +63,32 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    const phaseCheck = RuleTemplatePhaseSchema.safeParse({ phase, action, ratelimit, redirect, rewrite, managedRuleset });
+    if (!phaseCheck.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(phaseCheck.error)
+      }, { status: 400 });
+    }
+
+    const accountIdsCheck = TemplateAccountIdsSchema.safeParse(accountIds);
+    if (!accountIdsCheck.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(accountIdsCheck.error)
+      }, { status: 400 });
+    }
+
+    const expressionCheck = validateExpression(expression);
+    if (!expressionCheck.valid) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid expression: ${expressionCheck.errors[0].message}`,
+        errorType: 'INVALID_EXPRESSION',
+        details: expressionCheck.errors
+      }, { status: 400 });
+    }
+
     const cache = await loadRulesCache();
     
     // Check for duplicate names
@@ -124,9 +111,17 @@ export async function POST(request: NextRequest) {
       expression,
       action,
       actionParameters: actionParameters || {},
+      ...(phaseCheck.data.phase !== DEFAULT_RULE_PHASE && {
+        phase: phaseCheck.data.phase,
+        ratelimit: phaseCheck.data.ratelimit,
+        redirect: phaseCheck.data.redirect,
+        rewrite: phaseCheck.data.rewrite,
+        managedRuleset: phaseCheck.data.managedRuleset
+      }),
       tags: tags || [],
       applicableTags: applicableTags || [],
       excludedDomains: excludedDomains || [],
+      ...(accountIdsCheck.data?.length && { accountIds: accountIdsCheck.data }),
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
       version: '1.0.0'
@@ -139,11 +134,10 @@ export async function POST(request: NextRequest) {
       version: newTemplate.version
     });
 
-    cache.templates.push(newTemplate);
-    console.log(`[Security Rules POST] Total templates before save: ${cache.templates.length}`);
-
-    await saveRulesCache(cache);
+    await (await getStorage()).templates.upsert(newTemplate);
+    console.log(`[Security Rules POST] Total templates after save: ${cache.templates.length + 1}`);
     console.log('[Security Rules POST] ✅ Template created and saved successfully');
+    await recordTemplateRevisions([{ template: newTemplate, source: 'ui_create' }]);
 
     return NextResponse.json({
       success: true,
@@ -160,9 +154,12 @@ export async function POST(request: NextRequest) {
 
 // PUT - Actualizar plantilla existente
 export async function PUT(request: NextRequest) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
-    const { id, name, description, expression, action, actionParameters, tags, applicableTags, excludedDomains, enabled } = body;
+    const { id, name, description, expression, action, actionParameters, tags, applicableTags, excludedDomains, accountIds, enabled, ratelimit, redirect, rewrite, managedRuleset } = body;
 
     if (!id) {
       return NextResponse.json({
@@ -171,6 +168,14 @@ export async function PUT(request: NextRequest) {
       }, { status: 400 });
     }
 
+    const accountIdsCheck = TemplateAccountIdsSchema.safeParse(accountIds);
+    if (!accountIdsCheck.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(accountIdsCheck.error)
+      }, { status: 400 });
+    }
+
     const cache = await loadRulesCache();
     const templateIndex = cache.templates.findIndex(template => template.id === id);
 
@@ -182,10 +187,43 @@ export async function PUT(request: NextRequest) {
     }
 
     const existingTemplate = cache.templates[templateIndex];
-    
+
+    // Only validate changed expressions so imported rules can still be edited
+    if (expression && expression !== existingTemplate.expression) {
+      const expressionCheck = validateExpression(expression);
+      if (!expressionCheck.valid) {
+        return NextResponse.json({
+          success: false,
+          error: `Invalid expression: ${expressionCheck.errors[0].message}`,
+          errorType: 'INVALID_EXPRESSION',
+          details: expressionCheck.errors
+        }, { status: 400 });
+      }
+    }
+
+    // The phase is fixed at creation, the deployed rules live in that phase's ruleset
+    const phaseCheck = RuleTemplatePhaseSchema.safeParse({
+      phase: existingTemplate.phase,
+      action: action || existingTemplate.action,
+      ratelimit: ratelimit || existingTemplate.ratelimit,
+      redirect: redirect || existingTemplate.redirect,
+      rewrite: rewrite || existingTemplate.rewrite,
+      managedRuleset: managedRuleset || existingTemplate.managedRuleset
+    });
+    if (!phaseCheck.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(phaseCheck.error)
+      }, { status: 400 });
+    }
+
     // Increment version for significant changes
     let newVersion = existingTemplate.version;
-    if (expression !== existingTemplate.expression || action !== existingTemplate.action) {
+    if (
+      expression !== existingTemplate.expression ||
+      action !== existingTemplate.action ||
+      !arePhaseConfigsEqual(phaseCheck.data, existingTemplate)
+    ) {
       const versionParts = existingTemplate.version.split('.');
       versionParts[1] = String(parseInt(versionParts[1]) + 1);
       newVersion = versionParts.join('.');
@@ -198,9 +236,14 @@ export async function PUT(request: NextRequest) {
       expression: expression || existingTemplate.expression,
       action: action || existingTemplate.action,
       actionParameters: actionParameters || existingTemplate.actionParameters,
+      ratelimit: phaseCheck.data.ratelimit,
+      redirect: phaseCheck.data.redirect,
+      rewrite: phaseCheck.data.rewrite,
+      managedRuleset: phaseCheck.data.managedRuleset,
       tags: tags || existingTemplate.tags,
       applicableTags: applicableTags || existingTemplate.applicableTags,
       excludedDomains: excludedDomains || existingTemplate.excludedDomains,
+      accountIds: accountIdsCheck.data !== undefined ? accountIdsCheck.data : existingTemplate.accountIds,
       enabled: enabled !== undefined ? enabled : existingTemplate.enabled,
       updatedAt: new Date().toISOString(),
       version: newVersion
@@ -214,11 +257,9 @@ export async function PUT(request: NextRequest) {
       newVersion: updatedTemplate.version
     });
 
-    cache.templates[templateIndex] = updatedTemplate;
-    console.log(`[Security Rules PUT] Total templates before save: ${cache.templates.length}`);
-
-    await saveRulesCache(cache);
+    await (await getStorage()).templates.upsert(updatedTemplate);
     console.log('[Security Rules PUT] ✅ Template updated and saved successfully');
+    await recordTemplateRevisions([{ template: updatedTemplate, previous: existingTemplate, source: 'ui_edit' }]);
 
     return NextResponse.json({
       success: true,
@@ -235,6 +276,9 @@ export async function PUT(request: NextRequest) {
 
 // DELETE - Eliminar plantilla
 export async function DELETE(request: NextRequest) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
   try {
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
@@ -262,9 +306,8 @@ export async function DELETE(request: NextRequest) {
       friendlyId: deletedTemplate.friendlyId,
       name: deletedTemplate.name
     });
-    console.log(`[Security Rules DELETE] Total templates before save: ${cache.templates.length}`);
 
-    await saveRulesCache(cache);
+    await (await getStorage()).templates.remove(deletedTemplate.id);
     console.log('[Security Rules DELETE] ✅ Template deleted and saved successfully');
 
     return NextResponse.json({
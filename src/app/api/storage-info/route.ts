@@ -5,13 +5,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PersistentStorage } from '@/lib/persistentStorage';
 import { safeReadJsonFile, safeWriteJsonFile } from '@/lib/fileSystem';
+import { requirePermission } from '@/lib/auth';
 
 export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
   try {
     console.log('[StorageInfo] Getting storage information...');
 
     // Get storage info
-    const storageInfo = PersistentStorage.getInfo();
+    const storageInfo = await PersistentStorage.getInfo();
 
     // Test basic operations
     const testData = {
@@ -80,6 +84,9 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const { action, fileName, data } = body;
@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { CloudflareAPI } from '@/lib/cloudflare';
 import { RuleTemplate } from '@/types/cloudflare';
 import { safeReadJsonFile, safeWriteJsonFile } from '@/lib/fileSystem';
+import { waitForRateLimitBudget, ESTIMATED_CALLS_PER_DOMAIN } from '@/lib/rateLimiter';
+import { recordTemplateRevisions } from '@/lib/templateHistory';
+import { resolveApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
 
 const RULES_TEMPLATES_FILE = 'security-rules-templates.json';
 
@@ -31,9 +35,13 @@ async function saveRulesTemplates(templates: RuleTemplate[]): Promise<void> {
 
 // POST - Auto-detect and import templates from existing rules
 export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
-    const { apiToken, forceRefresh = false } = body;
+    const { apiToken: credential, forceRefresh = false } = body;
+    const apiToken = await resolveApiToken(credential);
 
     console.log('[Auto-Detect API] Starting template auto-detection process');
 
@@ -90,9 +98,9 @@ export async function POST(request: NextRequest) {
         }
       }
 
-      // Rate limiting delay
+      // Wait for the shared rate limit budget to cover the next batch
       if (i + BATCH_SIZE < allZones.length) {
-        await new Promise(resolve => setTimeout(resolve, 200));
+        await waitForRateLimitBudget(BATCH_SIZE * ESTIMATED_CALLS_PER_DOMAIN);
       }
     }
 
@@ -132,6 +140,14 @@ export async function POST(request: NextRequest) {
       });
 
       await saveRulesTemplates(updatedTemplates);
+      await recordTemplateRevisions([
+        ...importResult.importedTemplates.map(template => ({ template, source: 'domain_sync' as const })),
+        ...importResult.updatedTemplates.map(template => ({
+          template,
+          previous: existingTemplates.templates.find(existing => existing.id === template.id),
+          source: 'domain_sync' as const
+        }))
+      ]);
 
       console.log(`[Auto-Detect API] Updated templates cache with ${importResult.importedTemplates.length} new and ${importResult.updatedTemplates.length} updated templates`);
     }
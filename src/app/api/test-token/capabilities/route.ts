@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TokenCapabilitiesRequestSchema, createValidationErrorResponse } from '@/lib/validation';
+import { getTokenCapabilities, loadTokenCapabilities } from '@/lib/tokenCapabilities';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+
+// GET - Cached capabilities of the token on every probed zone
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { zones: await loadTokenCapabilities(apiToken) }
+    });
+  } catch (error) {
+    console.error('[TokenCapabilities] Error loading capabilities:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load token capabilities'
+    }, { status: 500 });
+  }
+}
+
+// POST - Probe the zones without a fresh cached result (or all of them with refresh)
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = TokenCapabilitiesRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const zones = await getTokenCapabilities(apiToken, parsed.data.targets, { refresh: parsed.data.refresh });
+    const limited = zones.filter(zone => Object.values(zone.capabilities).includes('denied')).length;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        zones,
+        summary: {
+          total: zones.length,
+          limited
+        }
+      }
+    });
+  } catch (error) {
+    console.error('[TokenCapabilities] Error probing capabilities:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to probe token capabilities',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TokenVaultTokenSchema, createValidationErrorResponse } from '@/lib/validation';
+import { TokenVaultError, getTokenInfo, isTokenHandle, isTokenVaultConfigured, removeToken, rotateToken, storeToken } from '@/lib/tokenVault';
+import { isUsableToken, runTokenTests } from '@/lib/tokenTest';
+import { getSessionUser, requirePermission } from '@/lib/auth';
+
+function vaultErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof TokenVaultError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+  }
+  console.error(`[Token Vault API] ${fallback}:`, error);
+  return NextResponse.json({
+    success: false,
+    error: fallback,
+    errorDetails: error instanceof Error ? error.message : 'Unknown error'
+  }, { status: 500 });
+}
+
+function getHandle(request: NextRequest): string | null {
+  const handle = request.headers.get('x-api-token');
+  return handle && isTokenHandle(handle) ? handle : null;
+}
+
+// GET - Whether the vault is enabled, and the masked preview of the token behind the handle sent
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    const configured = isTokenVaultConfigured();
+    const handle = getHandle(request);
+    if (!configured || !handle) {
+      return NextResponse.json({ success: true, data: { configured } });
+    }
+
+    const token = await getTokenInfo(handle);
+    if (!token) {
+      return NextResponse.json({ success: false, error: 'Token handle not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: { configured, token } });
+  } catch (error) {
+    return vaultErrorResponse(error, 'Failed to read token vault');
+  }
+}
+
+// POST - Store a token, only its handle and masked preview go back to the browser
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    const validation = TokenVaultTokenSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(validation.error)
+      }, { status: 400 });
+    }
+
+    const user = await getSessionUser(request);
+    const stored = await storeToken(validation.data.token, { ownerId: user?.id });
+    return NextResponse.json({ success: true, data: stored });
+  } catch (error) {
+    return vaultErrorResponse(error, 'Failed to store token');
+  }
+}
+
+// PUT - Rotate the token behind the handle, the new token must pass the /api/test-token checks first
+export async function PUT(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
+  try {
+    const handle = getHandle(request);
+    if (!handle) {
+      return NextResponse.json({ success: false, error: 'Token handle is required' }, { status: 401 });
+    }
+
+    const validation = TokenVaultTokenSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(validation.error)
+      }, { status: 400 });
+    }
+
+    const tests = await runTokenTests(validation.data.token);
+    if (!isUsableToken(tests)) {
+      return NextResponse.json({
+        success: false,
+        error: 'New token failed validation',
+        data: { tests }
+      }, { status: 400 });
+    }
+
+    const user = await getSessionUser(request);
+    const token = await rotateToken(handle, validation.data.token, { ownerId: user?.id });
+    return NextResponse.json({ success: true, data: { token, tests } });
+  } catch (error) {
+    return vaultErrorResponse(error, 'Failed to rotate token');
+  }
+}
+
+// DELETE - Forget the token behind the handle (logout or account removed), only its owner can
+export async function DELETE(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    const handle = getHandle(request);
+    if (!handle) {
+      return NextResponse.json({ success: false, error: 'Token handle is required' }, { status: 401 });
+    }
+
+    const user = await getSessionUser(request);
+    const removed = await removeToken(handle, { ownerId: user?.id });
+    return NextResponse.json({ success: true, data: { removed } });
+  } catch (error) {
+    return vaultErrorResponse(error, 'Failed to remove token');
+  }
+}
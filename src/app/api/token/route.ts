@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { promises as fs } from 'fs';
 import { join } from 'path';
+import { requirePermission } from '@/lib/auth';
 
 const ENV_FILE_PATH = join(process.cwd(), '.env.local');
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
   try {
     const envContent = await fs.readFile(ENV_FILE_PATH, 'utf-8');
     const lines = envContent.split('\n');
@@ -23,6 +27,9 @@ export async function GET() {
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
   try {
     const { token, clearCache = true } = await request.json();
 
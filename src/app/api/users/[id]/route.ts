@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserUpdateSchema, createValidationErrorResponse } from '@/lib/validation';
+import { AuthError, deleteUser, requirePermission, updateUser } from '@/lib/auth';
+
+// PUT - Change the role or reset the password of a user
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requirePermission(request, 'users:manage');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const parsed = UserUpdateSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const user = await updateUser(id, parsed.data);
+    return NextResponse.json({ success: true, data: { user } });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('[Users API] Error updating user:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update user'
+    }, { status: 500 });
+  }
+}
+
+// DELETE - Delete a user and end its sessions
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requirePermission(request, 'users:manage');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    await deleteUser(id);
+    return NextResponse.json({ success: true, data: { id } });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('[Users API] Error deleting user:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete user'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserCreateSchema, createValidationErrorResponse } from '@/lib/validation';
+import { AuthError, createUser, listUsers, requirePermission } from '@/lib/auth';
+
+// GET - List the local users
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'users:manage');
+  if (denied) return denied;
+
+  try {
+    const users = await listUsers();
+    return NextResponse.json({ success: true, data: { users } });
+  } catch (error) {
+    console.error('[Users API] Error listing users:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to list users'
+    }, { status: 500 });
+  }
+}
+
+// POST - Create a user with a role
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'users:manage');
+  if (denied) return denied;
+
+  try {
+    const parsed = UserCreateSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const user = await createUser(parsed.data);
+    return NextResponse.json({ success: true, data: { user } });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('[Users API] Error creating user:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create user'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CloudflareAPI } from '@/lib/cloudflare';
+import { ZoneSettingsTargetsSchema, createValidationErrorResponse } from '@/lib/validation';
+import {
+  checkZoneSettingsDrift,
+  getProfileSettingIds,
+  loadZoneSettingsDrift,
+  loadZoneSettingsProfiles,
+  saveZoneSettingsDrift
+} from '@/lib/zoneSettings';
+import { waitForRateLimitBudget } from '@/lib/rateLimiter';
+import { ZoneSettingsDriftReport } from '@/types/cloudflare';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+
+// Zones checked in parallel; each zone costs one call per setting in the profile
+const BATCH_SIZE = 5;
+
+// GET - Last drift report of every checked zone
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    const cache = await loadZoneSettingsDrift();
+    return NextResponse.json({
+      success: true,
+      data: {
+        reports: cache.reports,
+        lastUpdated: cache.lastUpdated
+      }
+    });
+  } catch (error) {
+    console.error('[ZoneSettings] Error loading drift reports:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load drift reports'
+    }, { status: 500 });
+  }
+}
+
+// POST - Read the settings of each zone and compare them with a profile
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    const apiToken = await getRequestApiToken(request);
+    if (!apiToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'API token is required'
+      }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = ZoneSettingsTargetsSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const { profileId, targets } = parsed.data;
+    const { profiles } = await loadZoneSettingsProfiles();
+    const profile = profiles.find(p => p.id === profileId);
+    if (!profile) {
+      return NextResponse.json({
+        success: false,
+        error: 'Profile not found'
+      }, { status: 404 });
+    }
+
+    const cloudflareAPI = new CloudflareAPI(apiToken);
+    const callsPerZone = getProfileSettingIds(profile.settings).length;
+    const reports: ZoneSettingsDriftReport[] = [];
+
+    console.log(`[ZoneSettings] Checking ${targets.length} zones against profile "${profile.name}"`);
+
+    for (let i = 0; i < targets.length; i += BATCH_SIZE) {
+      const batch = targets.slice(i, i + BATCH_SIZE);
+      const batchReports = await Promise.all(
+        batch.map(target => checkZoneSettingsDrift(cloudflareAPI, target.zoneId, target.domainName, profile))
+      );
+      reports.push(...batchReports);
+
+      if (i + BATCH_SIZE < targets.length) {
+        await waitForRateLimitBudget(BATCH_SIZE * callsPerZone);
+      }
+    }
+
+    await saveZoneSettingsDrift(reports);
+
+    const drifted = reports.filter(report => report.drifts.length > 0).length;
+    const failed = reports.filter(report => report.error).length;
+    console.log(`[ZoneSettings] Drift check done: ${drifted} drifted, ${failed} failed`);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        reports,
+        summary: {
+          total: reports.length,
+          compliant: reports.length - drifted - failed,
+          drifted,
+          failed
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('[ZoneSettings] Error checking drift:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to check zone settings drift',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,244 @@
+import { NextRequest } from 'next/server';
+import { CloudflareAPI } from '@/lib/cloudflare';
+import { ZoneSettingsTargetsSchema } from '@/lib/validation';
+import { waitForRateLimitBudget } from '@/lib/rateLimiter';
+import {
+  checkZoneSettingsDrift,
+  getProfileSettingIds,
+  loadZoneSettingsProfiles,
+  saveZoneSettingsDrift,
+  toCloudflareValue
+} from '@/lib/zoneSettings';
+import { ZoneSettingDrift, ZoneSettingsDriftReport } from '@/types/cloudflare';
+import { getAuditActor, recordAudit } from '@/lib/auditLog';
+import { getRequestApiToken } from '@/lib/tokenVault';
+import { requirePermission } from '@/lib/auth';
+
+interface EnforceProfileProgress {
+  type: 'progress' | 'domain_complete' | 'complete' | 'error';
+  progress: number;
+  currentDomain?: string;
+  completedDomains?: number;
+  totalDomains?: number;
+  domain?: {
+    zoneId: string;
+    domainName: string;
+    success: boolean;
+    message: string;
+    error?: string;
+  };
+  summary?: {
+    total: number;
+    successful: number;
+    failed: number;
+  };
+  error?: string;
+}
+
+const BATCH_SIZE = 5;
+
+// POST - Apply a settings profile to the target zones with streaming progress
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:write');
+  if (denied) return denied;
+
+  const apiToken = await getRequestApiToken(request);
+  if (!apiToken) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'API token is required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const body = await request.json();
+  const parsed = ZoneSettingsTargetsSchema.safeParse(body);
+  if (!parsed.success) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Profile and target domains are required' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { profileId, targets } = parsed.data;
+  const actor = await getAuditActor(request);
+  const { profiles } = await loadZoneSettingsProfiles();
+  const profile = profiles.find(p => p.id === profileId);
+  if (!profile) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Profile not found' }),
+      { status: 404, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Read every setting, write the drifted ones and read them again to verify
+  const callsPerZone = getProfileSettingIds(profile.settings).length * 3;
+
+  // Create a streaming response
+  const stream = new ReadableStream({
+    async start(controller) {
+      const encoder = new TextEncoder();
+
+      // Helper function to send progress updates
+      const sendProgress = (data: EnforceProfileProgress) => {
+        const chunk = encoder.encode(`data: ${JSON.stringify(data)}\n\n`);
+        controller.enqueue(chunk);
+      };
+
+      try {
+        const cloudflareAPI = new CloudflareAPI(apiToken);
+
+        sendProgress({
+          type: 'progress',
+          progress: 0,
+          totalDomains: targets.length,
+          completedDomains: 0
+        });
+
+        let completedCount = 0;
+        let successfulCount = 0;
+
+        for (let i = 0; i < targets.length; i += BATCH_SIZE) {
+          if (request.signal.aborted) {
+            sendProgress({
+              type: 'error',
+              progress: (completedCount / targets.length) * 100,
+              error: 'Operation cancelled by user'
+            });
+            controller.close();
+            return;
+          }
+
+          const batch = targets.slice(i, i + BATCH_SIZE);
+          const reports: ZoneSettingsDriftReport[] = [];
+          const appliedDrifts = new Map<string, ZoneSettingDrift[]>();
+
+          const batchResults = await Promise.all(batch.map(async (target) => {
+            const result = {
+              zoneId: target.zoneId,
+              domainName: target.domainName,
+              success: false,
+              message: '',
+              error: undefined as string | undefined
+            };
+
+            const before = await checkZoneSettingsDrift(cloudflareAPI, target.zoneId, target.domainName, profile);
+            if (before.error) {
+              reports.push(before);
+              result.message = 'No se pudieron leer los ajustes de la zona';
+              result.error = before.error;
+              return result;
+            }
+
+            if (before.drifts.length === 0) {
+              reports.push(before);
+              result.success = true;
+              result.message = 'Ya cumple el perfil';
+              return result;
+            }
+
+            const failedSettings: string[] = [];
+            appliedDrifts.set(target.zoneId, before.drifts);
+            for (const drift of before.drifts) {
+              const updated = await cloudflareAPI.updateZoneSetting(
+                target.zoneId,
+                drift.setting,
+                toCloudflareValue(drift.setting, drift.expected)
+              );
+              if (!updated) {
+                failedSettings.push(drift.setting);
+              }
+            }
+
+            const after = await checkZoneSettingsDrift(cloudflareAPI, target.zoneId, target.domainName, profile);
+            reports.push(after);
+
+            if (failedSettings.length === 0 && after.drifts.length === 0 && !after.error) {
+              result.success = true;
+              result.message = `${before.drifts.length} ajustes corregidos`;
+            } else {
+              const pending = after.drifts.map(drift => drift.setting);
+              result.message = `Ajustes sin aplicar: ${Array.from(new Set([...failedSettings, ...pending])).join(', ')}`;
+              result.error = after.error || 'Some settings could not be updated';
+            }
+
+            return result;
+          }));
+
+          // Persist after every batch so the pills reflect partial runs
+          await saveZoneSettingsDrift(reports);
+
+          // Only zones that were written to are audited, compliant ones had nothing to change
+          await recordAudit(batchResults
+            .filter(result => appliedDrifts.has(result.zoneId))
+            .map(result => {
+              const drifts = appliedDrifts.get(result.zoneId)!;
+              return {
+                ...actor,
+                action: 'zone_settings_enforce' as const,
+                zoneId: result.zoneId,
+                domainName: result.domainName,
+                target: profile.name,
+                before: Object.fromEntries(drifts.map(drift => [drift.setting, drift.actual])),
+                after: Object.fromEntries(drifts.map(drift => [drift.setting, drift.expected])),
+                success: result.success,
+                cloudflareResponse: result.message,
+                error: result.error
+              };
+            }));
+
+          for (const result of batchResults) {
+            completedCount++;
+            if (result.success) successfulCount++;
+
+            sendProgress({
+              type: 'domain_complete',
+              progress: (completedCount / targets.length) * 100,
+              currentDomain: result.domainName,
+              completedDomains: completedCount,
+              totalDomains: targets.length,
+              domain: result
+            });
+          }
+
+          if (i + BATCH_SIZE < targets.length) {
+            await waitForRateLimitBudget(BATCH_SIZE * callsPerZone);
+          }
+        }
+
+        console.log(`[ZoneSettings] Profile "${profile.name}" enforced on ${successfulCount}/${targets.length} zones`);
+
+        sendProgress({
+          type: 'complete',
+          progress: 100,
+          completedDomains: completedCount,
+          totalDomains: targets.length,
+          summary: {
+            total: targets.length,
+            successful: successfulCount,
+            failed: targets.length - successfulCount
+          }
+        });
+
+      } catch (error) {
+        sendProgress({
+          type: 'error',
+          progress: 0,
+          error: error instanceof Error ? error.message : 'Unknown error occurred'
+        });
+      }
+
+      controller.close();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST',
+      'Access-Control-Allow-Headers': 'Content-Type, x-api-token'
+    }
+  });
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZoneSettingsProfileSchema, createValidationErrorResponse } from '@/lib/validation';
+import {
+  ZoneSettingsProfileError,
+  removeZoneSettingsDriftForProfile,
+  updateZoneSettingsProfiles
+} from '@/lib/zoneSettings';
+import { ZoneSettingsProfile } from '@/types/cloudflare';
+import { requirePermission } from '@/lib/auth';
+
+// PUT - Update a zone settings profile
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = ZoneSettingsProfileSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const { name, description, settings, isDefault } = parsed.data;
+    let profile = null as ZoneSettingsProfile | null;
+
+    const cache = await updateZoneSettingsProfiles(current => {
+      const existing = current.profiles.find(item => item.id === id);
+      if (!existing) {
+        throw new ZoneSettingsProfileError('Profile not found', 404);
+      }
+      if (current.profiles.some(item => item.id !== id && item.name.toLowerCase() === name.toLowerCase())) {
+        throw new ZoneSettingsProfileError('A profile with this name already exists', 400);
+      }
+
+      const updated = { ...existing, name, description, settings, updatedAt: new Date().toISOString() };
+      profile = updated;
+      return {
+        ...current,
+        profiles: current.profiles.map(item => item.id === id ? updated : item),
+        defaultProfileId: isDefault ? id : current.defaultProfileId
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { profile, defaultProfileId: cache.defaultProfileId }
+    });
+  } catch (error) {
+    if (error instanceof ZoneSettingsProfileError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('[ZoneSettings] Error updating profile:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update zone settings profile'
+    }, { status: 500 });
+  }
+}
+
+// DELETE - Delete a zone settings profile and its drift reports
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+
+    const cache = await updateZoneSettingsProfiles(current => {
+      if (!current.profiles.some(profile => profile.id === id)) {
+        throw new ZoneSettingsProfileError('Profile not found', 404);
+      }
+      const profiles = current.profiles.filter(profile => profile.id !== id);
+      return {
+        ...current,
+        profiles,
+        defaultProfileId: current.defaultProfileId === id ? profiles[0]?.id : current.defaultProfileId
+      };
+    });
+    await removeZoneSettingsDriftForProfile(id);
+
+    return NextResponse.json({
+      success: true,
+      data: { defaultProfileId: cache.defaultProfileId }
+    });
+  } catch (error) {
+    if (error instanceof ZoneSettingsProfileError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('[ZoneSettings] Error deleting profile:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete zone settings profile'
+    }, { status: 500 });
+  }
+}
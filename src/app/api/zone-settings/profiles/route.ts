@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { ZoneSettingsProfile } from '@/types/cloudflare';
+import { ZoneSettingsProfileSchema, createValidationErrorResponse } from '@/lib/validation';
+import { ZoneSettingsProfileError, loadZoneSettingsProfiles, updateZoneSettingsProfiles } from '@/lib/zoneSettings';
+import { requirePermission } from '@/lib/auth';
+
+// GET - List zone settings profiles
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'domains:read');
+  if (denied) return denied;
+
+  try {
+    const cache = await loadZoneSettingsProfiles();
+    return NextResponse.json({
+      success: true,
+      data: {
+        profiles: cache.profiles,
+        defaultProfileId: cache.defaultProfileId,
+        lastUpdated: cache.lastUpdated
+      }
+    });
+  } catch (error) {
+    console.error('[ZoneSettings] Error loading profiles:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load zone settings profiles'
+    }, { status: 500 });
+  }
+}
+
+// POST - Create a zone settings profile
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'templates:manage');
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const parsed = ZoneSettingsProfileSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        ...createValidationErrorResponse(parsed.error)
+      }, { status: 400 });
+    }
+
+    const { name, description, settings, isDefault } = parsed.data;
+    const now = new Date().toISOString();
+    const profile: ZoneSettingsProfile = {
+      id: uuidv4(),
+      name,
+      description,
+      settings,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const cache = await updateZoneSettingsProfiles(current => {
+      if (current.profiles.some(item => item.name.toLowerCase() === name.toLowerCase())) {
+        throw new ZoneSettingsProfileError('A profile with this name already exists', 400);
+      }
+      return {
+        ...current,
+        profiles: [...current.profiles, profile],
+        // The first profile becomes the default one
+        defaultProfileId: isDefault || !current.defaultProfileId ? profile.id : current.defaultProfileId
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { profile, defaultProfileId: cache.defaultProfileId }
+    });
+  } catch (error) {
+    if (error instanceof ZoneSettingsProfileError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('[ZoneSettings] Error creating profile:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create zone settings profile'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+'use client';
+
+import Link from 'next/link';
+import { ArrowLeft, ScrollText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { SimpleThemeToggle } from '@/components/SimpleThemeToggle';
+import { AuditLogViewer } from '@/components/AuditLogViewer';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+
+export default function AuditPage() {
+  useCurrentUser({ requireLogin: true });
+
+  return (
+    <div className="container mx-auto py-8 px-4 space-y-4">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold flex items-center gap-2"><ScrollText className="h-6 w-6" />Auditoría</h1>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/"><ArrowLeft className="h-4 w-4 mr-1" />Volver al panel</Link>
+          </Button>
+          <SimpleThemeToggle />
+        </div>
+      </div>
+      <AuditLogViewer />
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2, LogIn, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { SimpleThemeToggle } from '@/components/SimpleThemeToggle';
+
+export default function LoginPage() {
+  const [loading, setLoading] = useState(true);
+  // Without users the page creates the first one, a security-admin
+  const [setupMode, setSetupMode] = useState(false);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const checkSession = async () => {
+      try {
+        const response = await fetch('/api/auth/session');
+        const result = await response.json();
+        if (result.success && result.data.user) {
+          window.location.href = '/';
+          return;
+        }
+        setSetupMode(result.success && !result.data.authEnabled);
+      } catch (error) {
+        console.error('[Login] Error checking session:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    checkSession();
+  }, []);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (setupMode && password !== confirmPassword) {
+      setError('Las contraseñas no coinciden');
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(setupMode ? '/api/auth/setup' : '/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password })
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        setError(response.status === 401
+          ? 'Usuario o contraseña incorrectos'
+          : result.details?.[0]?.message || result.error || 'Error al iniciar sesión');
+        return;
+      }
+
+      window.location.href = '/';
+    } catch (error) {
+      console.error('[Login] Error logging in:', error);
+      setError('Error al iniciar sesión');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto py-8 px-4">
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Cargando...
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="flex justify-end">
+        <SimpleThemeToggle />
+      </div>
+      <Card className="max-w-md mx-auto mt-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {setupMode ? <ShieldCheck className="h-5 w-5" /> : <LogIn className="h-5 w-5" />}
+            {setupMode ? 'Crear administrador' : 'Iniciar sesión'}
+          </CardTitle>
+          <CardDescription>
+            {setupMode
+              ? 'Todavía no hay usuarios. El primero será administrador de seguridad y desde entonces será necesario iniciar sesión para usar el gestor.'
+              : 'Inicia sesión con tu usuario del gestor.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={submit} className="space-y-4">
+            <div>
+              <Label htmlFor="username">Usuario</Label>
+              <Input
+                id="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoComplete="username"
+                autoFocus
+              />
+            </div>
+            <div>
+              <Label htmlFor="password">Contraseña</Label>
+              <Input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete={setupMode ? 'new-password' : 'current-password'}
+              />
+              {setupMode && <p className="text-xs text-muted-foreground mt-1">Al menos 10 caracteres</p>}
+            </div>
+            {setupMode && (
+              <div>
+                <Label htmlFor="confirm-password">Repetir contraseña</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  autoComplete="new-password"
+                />
+              </div>
+            )}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <Button type="submit" className="w-full" disabled={submitting || !username || !password}>
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {setupMode ? 'Crear y entrar' : 'Entrar'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
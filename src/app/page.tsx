@@ -10,11 +10,15 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { Key, Shield, Globe, CheckCircle, XCircle, Clock, AlertTriangle, LogOut, Settings as SettingsIcon } from 'lucide-react';
+import { Key, Shield, Globe, CheckCircle, XCircle, Clock, AlertTriangle, LogOut, ScrollText, Settings as SettingsIcon } from 'lucide-react';
 import { tokenStorage } from '@/lib/tokenStorage';
 import { SimpleThemeToggle } from '@/components/SimpleThemeToggle';
 import { Settings } from '@/components/Settings';
+import { AccountSwitcher } from '@/components/AccountSwitcher';
+import { UserMenu } from '@/components/UserMenu';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
 import Image from 'next/image';
+import Link from 'next/link';
 
 export default function Home() {
   const [loading, setLoading] = useState(true);
@@ -26,11 +30,15 @@ export default function Home() {
   const [envTokenInfo, setEnvTokenInfo] = useState<{ hasToken: boolean; maskedToken?: string } | null>(null);
   const [loadingEnvToken, setLoadingEnvToken] = useState(false);
   const tokenInputRef = useRef<HTMLInputElement>(null);
+  const session = useCurrentUser({ requireLogin: true });
 
   // Check for environment token on mount
   useEffect(() => {
     const checkEnvToken = async () => {
       try {
+        // Move tokens saved before the vault was enabled into it
+        await tokenStorage.syncWithVault();
+
         // First check if there's already a token in localStorage
         if (tokenStorage.hasValidToken()) {
           setLoading(false);
@@ -64,8 +72,12 @@ export default function Home() {
       const response = await fetch('/api/env-token', { method: 'POST' });
       const data = await response.json();
 
-      if (data.success && data.token) {
-        tokenStorage.setToken(data.token);
+      if (data.success && data.handle) {
+        tokenStorage.setTokenHandle(data.handle, data.maskedToken);
+        console.log('[Home] Environment token loaded successfully');
+        forceRerender();
+      } else if (data.success && data.token) {
+        await tokenStorage.setToken(data.token);
         console.log('[Home] Environment token loaded successfully');
         forceRerender();
       }
@@ -80,6 +92,11 @@ export default function Home() {
 
   const confirmResetToken = () => {
     tokenStorage.clearToken();
+    // Another stored account becomes active, its data is loaded from scratch
+    if (tokenStorage.hasValidToken()) {
+      window.location.reload();
+      return;
+    }
     setTestResults(null);
     setShowChangeTokenDialog(false);
     forceRerender();
@@ -99,11 +116,10 @@ export default function Home() {
 
     try {
       // Check if token is different from stored token
-      const currentToken = tokenStorage.getToken();
-      const isTokenChanged = currentToken !== token;
+      const isTokenChanged = !tokenStorage.isCurrentToken(token);
 
-      // Save to localStorage
-      tokenStorage.setToken(token);
+      // Save to the vault (or localStorage without vault)
+      await tokenStorage.setToken(token);
 
       // Clear cache if token changed (different API account)
       if (isTokenChanged) {
@@ -123,7 +139,9 @@ export default function Home() {
       console.error('Error saving token:', error);
       setTestResults({
         success: false,
-        error: 'Error al guardar el token. Intenta de nuevo.',
+        error: error instanceof Error && error.message
+          ? `Error al guardar el token: ${error.message}`
+          : 'Error al guardar el token. Intenta de nuevo.',
       });
     }
   };
@@ -155,7 +173,8 @@ export default function Home() {
     return <Badge variant={success ? "default" : "destructive"}>{success ? "✓ OK" : "✗ Error"}</Badge>;
   };
 
-  if (loading) {
+  // Without a session the hook is sending the browser to /login
+  if (loading || session.loading || (session.authEnabled && !session.user)) {
     return (
       <div className="container mx-auto py-8 px-4">
         <div className="flex items-center justify-center py-8">
@@ -169,7 +188,7 @@ export default function Home() {
   }
 
   const isTokenSet = tokenStorage.hasValidToken();
-  const storedToken = tokenStorage.getToken();
+  const maskedToken = tokenStorage.getActiveAccount()?.maskedToken;
   const tokenAge = tokenStorage.getTokenAge();
 
   return (
@@ -303,9 +322,14 @@ export default function Home() {
             </div>
             <div className="flex items-center gap-2">
               <div className="text-xs text-muted-foreground mr-2">
-                <div>Token: ***{storedToken?.slice(-8)}</div>
+                <div>Token: {maskedToken}</div>
                 {tokenAge !== null && <div>Guardado: {tokenAge === 0 ? 'Ahora' : `hace ${tokenAge}h`}</div>}
               </div>
+              <AccountSwitcher />
+              <UserMenu />
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/audit"><ScrollText className="h-4 w-4 mr-1" />Auditoría</Link>
+              </Button>
               <Button onClick={() => setShowSettings(true)} variant="outline" size="sm">
                 <SettingsIcon className="h-4 w-4 mr-1" />
                 Configuración
@@ -7,6 +7,8 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { CheckCircle, XCircle, Clock, AlertTriangle } from 'lucide-react';
+import { TOKEN_CAPABILITY_LABELS } from '@/hooks/useTokenCapabilities';
+import { TokenCapability, ZoneTokenCapabilities } from '@/types/cloudflare';
 
 export default function TestTokenPage() {
   const [testResults, setTestResults] = useState<any>(null);
@@ -227,6 +229,38 @@ export default function TestTokenPage() {
                       </Card>
                     )}
 
+                    {/* Capabilities per zone */}
+                    {testResults.data.capabilities?.success && testResults.data.capabilities.zones.length > 0 && (
+                      <Card>
+                        <CardHeader>
+                          <CardTitle className="text-lg">Permisos por Zona</CardTitle>
+                          <CardDescription>
+                            Permisos que usa el gestor, comprobados sin modificar nada en las primeras zonas
+                          </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                          <div className="space-y-2">
+                            {testResults.data.capabilities.zones.map((zone: ZoneTokenCapabilities) => (
+                              <div key={zone.zoneId} className="p-2 bg-muted rounded space-y-1">
+                                <span className="font-mono text-sm">{zone.domainName}</span>
+                                <div className="flex flex-wrap gap-1">
+                                  {(Object.keys(TOKEN_CAPABILITY_LABELS) as TokenCapability[]).map(capability => (
+                                    <Badge
+                                      key={capability}
+                                      variant={{ granted: 'default', denied: 'destructive', unknown: 'outline' }[zone.capabilities[capability]] as 'default' | 'destructive' | 'outline'}
+                                      title={zone.capabilities[capability] === 'unknown' ? 'No se pudo comprobar' : undefined}
+                                    >
+                                      {TOKEN_CAPABILITY_LABELS[capability]}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        </CardContent>
+                      </Card>
+                    )}
+
                     {/* All Rulesets */}
                     {testResults.data.rulesets?.types && (
                       <Card>
@@ -0,0 +1,210 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Check, ChevronDown, Layers, Loader2, Plus, Trash2, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { CloudflareAccount, tokenStorage } from '@/lib/tokenStorage';
+import { CrossAccountBulkDialog } from './CrossAccountBulkDialog';
+
+// Stores, caches and open modals belong to one account, a reload starts clean with the new one
+const reloadForAccount = () => window.location.reload();
+
+export function AccountSwitcher() {
+  const [accounts, setAccounts] = useState<CloudflareAccount[]>([]);
+  const [activeAccount, setActiveAccount] = useState<CloudflareAccount | null>(null);
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [showCrossAccountDialog, setShowCrossAccountDialog] = useState(false);
+  const [accountToRemove, setAccountToRemove] = useState<CloudflareAccount | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newToken, setNewToken] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [addError, setAddError] = useState<string | null>(null);
+
+  const refreshAccounts = () => {
+    setAccounts(tokenStorage.getAccounts());
+    setActiveAccount(tokenStorage.getActiveAccount());
+  };
+
+  useEffect(() => {
+    refreshAccounts();
+  }, []);
+
+  const switchTo = (accountId: string) => {
+    if (accountId === activeAccount?.id) return;
+    tokenStorage.setActiveAccount(accountId);
+    reloadForAccount();
+  };
+
+  const closeAddDialog = () => {
+    setShowAddDialog(false);
+    setNewName('');
+    setNewToken('');
+    setAddError(null);
+  };
+
+  const addAccount = async () => {
+    const token = newToken.trim();
+    if (!tokenStorage.isValidTokenFormat(token)) {
+      setAddError('Formato de token inválido. El token debe tener al menos 40 caracteres.');
+      return;
+    }
+
+    setAdding(true);
+    setAddError(null);
+    try {
+      // Only tokens that can list zones are stored, the same check as the first token
+      const response = await fetch('/api/test-token', { headers: { 'x-api-token': token } });
+      const result = await response.json();
+      if (!result.success || !result.data?.zones?.success) {
+        setAddError(result.data?.zones?.error || result.error || 'El token no tiene acceso a las zonas');
+        return;
+      }
+
+      const account = await tokenStorage.addAccount(newName, token);
+      toast.success(`Cuenta "${account.name}" añadida`);
+      reloadForAccount();
+    } catch (error) {
+      console.error('Error adding account:', error);
+      setAddError(error instanceof Error ? error.message : 'Error al probar el token');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const confirmRemove = () => {
+    if (!accountToRemove) return;
+    const wasActive = accountToRemove.id === activeAccount?.id;
+    tokenStorage.removeAccount(accountToRemove.id);
+    setAccountToRemove(null);
+
+    if (wasActive) {
+      reloadForAccount();
+    } else {
+      refreshAccounts();
+      toast.success('Cuenta eliminada');
+    }
+  };
+
+  if (!activeAccount) return null;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="max-w-[220px]">
+            <Users className="h-4 w-4 mr-1 shrink-0" />
+            <span className="truncate">{activeAccount.name}</span>
+            <ChevronDown className="h-4 w-4 ml-1 shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Cuentas de Cloudflare</DropdownMenuLabel>
+          {accounts.map(account => (
+            <DropdownMenuItem key={account.id} onSelect={() => switchTo(account.id)} className="flex items-center gap-2">
+              <Check className={`h-4 w-4 shrink-0 ${account.id === activeAccount.id ? 'opacity-100' : 'opacity-0'}`} />
+              <div className="min-w-0 flex-1">
+                <div className="truncate">{account.name}</div>
+                <div className="text-xs text-muted-foreground font-mono">{account.maskedToken}</div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 text-muted-foreground hover:text-red-600"
+                title="Eliminar cuenta"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setAccountToRemove(account);
+                }}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setShowAddDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Añadir cuenta
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setShowCrossAccountDialog(true)} disabled={accounts.length < 2}>
+            <Layers className="h-4 w-4 mr-2" />
+            Operación en varias cuentas
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={showAddDialog} onOpenChange={(open) => !open && closeAddDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Añadir cuenta</DialogTitle>
+            <DialogDescription>
+              Cada cuenta usa su propio token de API y su propia caché de dominios.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="account-name">Nombre</Label>
+              <Input
+                id="account-name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="Cliente Ejemplo"
+                maxLength={100}
+              />
+            </div>
+            <div>
+              <Label htmlFor="account-token">Token API de Cloudflare</Label>
+              <Input
+                id="account-token"
+                type="password"
+                value={newToken}
+                onChange={(e) => setNewToken(e.target.value)}
+                placeholder="Token con permisos de lectura de zonas"
+              />
+            </div>
+            {addError && <p className="text-sm text-red-600">{addError}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeAddDialog} disabled={adding}>Cancelar</Button>
+            <Button onClick={addAccount} disabled={adding || !newToken.trim()}>
+              {adding && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Probar y añadir
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={accountToRemove !== null} onOpenChange={(open) => !open && setAccountToRemove(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Eliminar cuenta</DialogTitle>
+            <DialogDescription>
+              Se eliminará el token de &quot;{accountToRemove?.name}&quot; de este navegador. La caché de dominios y las plantillas no se borran.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAccountToRemove(null)}>Cancelar</Button>
+            <Button variant="destructive" onClick={confirmRemove}>Eliminar</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <CrossAccountBulkDialog
+        isOpen={showCrossAccountDialog}
+        onClose={() => setShowCrossAccountDialog(false)}
+        accounts={accounts}
+      />
+    </>
+  );
+}
@@ -0,0 +1,300 @@
+'use client';
+
+import { Fragment, useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronDown, ChevronRight, Download, Loader2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { AuditAction, AuditEntry } from '@/types/cloudflare';
+
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  proxy_toggle: 'Cambio de proxy',
+  proxy_bulk: 'Proxy masivo',
+  security_mode: 'Modo de seguridad',
+  firewall_bulk: 'Firewall masivo',
+  template_update: 'Plantilla editada',
+  template_delete: 'Plantilla eliminada',
+  rules_add: 'Reglas aplicadas',
+  rules_remove: 'Reglas removidas',
+  rules_clean: 'Reglas limpiadas',
+  rules_reconcile: 'Reconciliación de reglas',
+  custom_rule_delete: 'Regla personalizada eliminada',
+  origin_migration: 'Migración de origen',
+  zone_file_apply: 'Archivo de zona aplicado',
+  zone_settings_enforce: 'Perfil de ajustes aplicado'
+};
+
+const PAGE_SIZE = 50;
+const ALL = 'all';
+
+interface AuditFilters {
+  zone: string;
+  action: string;
+  actor: string;
+  success: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = { zone: '', action: ALL, actor: '', success: ALL, from: '', to: '' };
+
+function buildQuery(filters: AuditFilters, extra: Record<string, string>): string {
+  const params = new URLSearchParams(extra);
+  if (filters.zone.trim()) params.set('zone', filters.zone.trim());
+  if (filters.action !== ALL) params.set('action', filters.action);
+  if (filters.actor.trim()) params.set('actor', filters.actor.trim());
+  if (filters.success !== ALL) params.set('success', filters.success);
+  // Date inputs are local days: from the start of the first to the end of the last
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params.toString();
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+export function AuditLogViewer() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState<'csv' | 'json' | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadEntries = async () => {
+    try {
+      setLoading(true);
+      const query = buildQuery(appliedFilters, { limit: String(PAGE_SIZE), offset: String(page * PAGE_SIZE) });
+      const response = await fetch(`/api/audit?${query}`);
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Error en la petición');
+      }
+      setEntries(result.data.entries);
+      setTotal(result.data.total);
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al cargar el registro de auditoría');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, [appliedFilters, page]);
+
+  const applyFilters = () => {
+    setPage(0);
+    setAppliedFilters(filters);
+  };
+
+  const clearFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setPage(0);
+    setAppliedFilters(EMPTY_FILTERS);
+  };
+
+  const exportLog = async (format: 'csv' | 'json') => {
+    try {
+      setExporting(format);
+      const response = await fetch(`/api/audit?${buildQuery(appliedFilters, { format })}`);
+      if (!response.ok) {
+        const result = await response.json();
+        toast.error(result.error || 'Error al exportar el registro');
+        return;
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success(`Registro exportado en ${format.toUpperCase()}`);
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+      toast.error('Error al exportar el registro');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Registro de auditoría</CardTitle>
+            <CardDescription>
+              Cada cambio hecho desde el gestor: quién, en qué zona, valores antes y después y la respuesta de Cloudflare
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={loadEntries} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+              Actualizar
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => exportLog('csv')} disabled={exporting !== null}>
+              {exporting === 'csv' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />}
+              CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => exportLog('json')} disabled={exporting !== null}>
+              {exporting === 'json' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />}
+              JSON
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="audit-zone">Dominio o zona</Label>
+            <Input
+              id="audit-zone"
+              value={filters.zone}
+              onChange={(e) => setFilters({ ...filters, zone: e.target.value })}
+              onKeyDown={(e) => e.key === 'Enter' && applyFilters()}
+              placeholder="ejemplo.com"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Acción</Label>
+            <Select value={filters.action} onValueChange={(value) => setFilters({ ...filters, action: value })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todas</SelectItem>
+                {Object.entries(AUDIT_ACTION_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-actor">Actor</Label>
+            <Input
+              id="audit-actor"
+              value={filters.actor}
+              onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+              onKeyDown={(e) => e.key === 'Enter' && applyFilters()}
+              placeholder="user:…, token:… o IP"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Resultado</Label>
+            <Select value={filters.success} onValueChange={(value) => setFilters({ ...filters, success: value })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todos</SelectItem>
+                <SelectItem value="true">Exitosos</SelectItem>
+                <SelectItem value="false">Fallidos</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-from">Desde</Label>
+            <Input id="audit-from" type="date" value={filters.from} onChange={(e) => setFilters({ ...filters, from: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to">Hasta</Label>
+            <Input id="audit-to" type="date" value={filters.to} onChange={(e) => setFilters({ ...filters, to: e.target.value })} />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" onClick={applyFilters}>Filtrar</Button>
+          <Button size="sm" variant="ghost" onClick={clearFilters}>Limpiar filtros</Button>
+        </div>
+
+        <div className="border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Fecha</TableHead>
+                <TableHead>Actor</TableHead>
+                <TableHead>Acción</TableHead>
+                <TableHead>Dominio</TableHead>
+                <TableHead>Objetivo</TableHead>
+                <TableHead>Resultado</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                    {loading ? 'Cargando...' : 'No hay cambios registrados con estos filtros'}
+                  </TableCell>
+                </TableRow>
+              )}
+              {entries.map(entry => (
+                <Fragment key={entry.id}>
+                  <TableRow className="cursor-pointer" onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}>
+                    <TableCell>
+                      {expandedId === entry.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-xs">{new Date(entry.timestamp).toLocaleString()}</TableCell>
+                    <TableCell className="text-xs font-mono">
+                      <div>{entry.actor}</div>
+                      {entry.actorIp && <div className="text-muted-foreground">{entry.actorIp}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">{AUDIT_ACTION_LABELS[entry.action] || entry.action}</TableCell>
+                    <TableCell className="text-sm">{entry.domainName || entry.zoneId || '—'}</TableCell>
+                    <TableCell className="text-xs max-w-[240px] truncate" title={entry.target}>{entry.target || '—'}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={entry.success ? 'bg-green-100 text-green-700 border-green-300' : 'bg-red-100 text-red-700 border-red-300'}>
+                        {entry.success ? 'Exitoso' : 'Fallido'}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                  {expandedId === entry.id && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="bg-muted/40">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-xs">
+                          <div>
+                            <div className="font-medium mb-1">Antes</div>
+                            <pre className="whitespace-pre-wrap break-all max-h-64 overflow-auto">{formatValue(entry.before)}</pre>
+                          </div>
+                          <div>
+                            <div className="font-medium mb-1">Después</div>
+                            <pre className="whitespace-pre-wrap break-all max-h-64 overflow-auto">{formatValue(entry.after)}</pre>
+                          </div>
+                          <div>
+                            <div className="font-medium mb-1">Respuesta de Cloudflare</div>
+                            <pre className="whitespace-pre-wrap break-all max-h-64 overflow-auto">{formatValue(entry.cloudflareResponse)}</pre>
+                            {entry.error && <div className="text-red-600 mt-2">Error: {entry.error}</div>}
+                            {entry.jobId && <div className="text-muted-foreground mt-2">Trabajo: {entry.jobId}</div>}
+                          </div>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>{total} cambio{total === 1 ? '' : 's'} registrado{total === 1 ? '' : 's'}</span>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0 || loading}>Anterior</Button>
+            <span>Página {page + 1} de {totalPages}</span>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= totalPages || loading}>Siguiente</Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,14 +2,15 @@
 
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
-import { AlertTriangle, ExternalLink, Shield } from 'lucide-react';
+import { AlertTriangle, ExternalLink, RefreshCw, Shield } from 'lucide-react';
 
 interface BotFightPermissionAlertProps {
   show: boolean;
   onDismiss?: () => void;
+  onRecheck?: () => void; // Probe the token again, once its permissions were fixed
 }
 
-export function BotFightPermissionAlert({ show, onDismiss }: BotFightPermissionAlertProps) {
+export function BotFightPermissionAlert({ show, onDismiss, onRecheck }: BotFightPermissionAlertProps) {
   if (!show) return null;
 
   const handleOpenTokenPage = () => {
@@ -65,6 +66,17 @@ export function BotFightPermissionAlert({ show, onDismiss }: BotFightPermissionA
             Ver Documentación
             <ExternalLink className="h-3 w-3 ml-1" />
           </Button>
+          {onRecheck && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onRecheck}
+              className="border-orange-300 text-orange-700 hover:bg-orange-100"
+            >
+              <RefreshCw className="h-3 w-3 mr-1" />
+              Comprobar de nuevo
+            </Button>
+          )}
           {onDismiss && (
             <Button
               size="sm"
@@ -1,11 +1,27 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { AlertTriangle, CheckCircle, Clock, RefreshCw } from 'lucide-react';
-import { RuleTemplate } from '@/types/cloudflare';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, CheckCircle, Clock, RefreshCw, GitMerge, ClipboardCheck } from 'lucide-react';
+import { RuleTemplate, RuleConflict, ConflictResolution } from '@/types/cloudflare';
+import { canMergeConflicts, getDefaultResolution } from '@/lib/ruleConflicts';
+
+const CONFLICT_TYPE_LABELS: Record<RuleConflict['conflictType'], { label: string; className: string }> = {
+  identical: { label: 'Idéntica', className: 'bg-blue-100 text-blue-800' },
+  similar: { label: 'Similar', className: 'bg-sky-100 text-sky-800' },
+  overlapping: { label: 'Solapada', className: 'bg-amber-100 text-amber-800' },
+  contradictory: { label: 'Contradictoria', className: 'bg-red-100 text-red-800' }
+};
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  [ConflictResolution.REPLACE]: 'Reemplazar la existente',
+  [ConflictResolution.MERGE]: 'Combinar condiciones',
+  [ConflictResolution.SKIP]: 'Mantener la existente',
+  [ConflictResolution.MANUAL]: 'Revisión manual'
+};
 
 interface DomainPreview {
   zoneId: string;
@@ -13,12 +29,26 @@ interface DomainPreview {
   currentVersion?: string;
   action: 'update' | 'add' | 'skip';
   reason?: string;
+  conflicts?: RuleConflict[];
 }
 
+// Zones without detected conflicts default to MANUAL, so a rule created since the preview is never overwritten
+const buildDefaultResolutions = (domains: DomainPreview[]): Record<string, ConflictResolution> => {
+  const resolutions: Record<string, ConflictResolution> = {};
+  domains.filter(d => d.action !== 'skip').forEach(domain => {
+    resolutions[domain.zoneId] = domain.conflicts?.length
+      ? getDefaultResolution(domain.conflicts)
+      : ConflictResolution.MANUAL;
+  });
+  return resolutions;
+};
+
 interface BulkUpdatePreviewModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: () => void;
+  onConfirm: (conflictResolutions: Record<string, ConflictResolution>) => void;
+  onRequestApproval?: (conflictResolutions: Record<string, ConflictResolution>) => void; // Hold the update for a second user
+  approvalRequired?: boolean; // Some zone is under the approval policy, only a change request can apply it
   template: RuleTemplate;
   domains: DomainPreview[];
   isUpdating: boolean;
@@ -28,16 +58,34 @@ export function BulkUpdatePreviewModal({
   isOpen,
   onClose,
   onConfirm,
+  onRequestApproval,
+  approvalRequired = false,
   template,
   domains,
   isUpdating
 }: BulkUpdatePreviewModalProps) {
   const [confirmed, setConfirmed] = useState(false);
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>(() => buildDefaultResolutions(domains));
+
+  useEffect(() => {
+    setResolutions(buildDefaultResolutions(domains));
+  }, [domains]);
+
+  const withConflicts = domains.filter(d => d.action !== 'skip' && d.conflicts?.length);
+  const heldBack = withConflicts.filter(d =>
+    resolutions[d.zoneId] === ConflictResolution.SKIP || resolutions[d.zoneId] === ConflictResolution.MANUAL
+  ).length;
 
   const stats = {
     toUpdate: domains.filter(d => d.action === 'update').length,
     toAdd: domains.filter(d => d.action === 'add').length,
     toSkip: domains.filter(d => d.action === 'skip').length,
+    conflicts: withConflicts.length,
+  };
+
+  const setResolution = (zoneId: string, resolution: ConflictResolution) => {
+    setResolutions(prev => ({ ...prev, [zoneId]: resolution }));
+    setConfirmed(false);
   };
 
   const getActionIcon = (action: string) => {
@@ -72,7 +120,7 @@ export function BulkUpdatePreviewModal({
       return;
     }
 
-    onConfirm();
+    onConfirm(resolutions);
     setConfirmed(false);
   };
 
@@ -83,7 +131,7 @@ export function BulkUpdatePreviewModal({
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="max-w-2xl max-h-[80vh]">
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <AlertTriangle className="h-5 w-5 text-orange-600" />
@@ -108,7 +156,7 @@ export function BulkUpdatePreviewModal({
           </div>
 
           {/* Statistics */}
-          <div className="grid grid-cols-3 gap-4">
+          <div className="grid grid-cols-4 gap-4">
             <div className="bg-blue-50 dark:bg-blue-950 p-3 rounded-lg text-center">
               <div className="text-2xl font-bold text-blue-600">{stats.toUpdate}</div>
               <div className="text-sm text-blue-700">A actualizar</div>
@@ -121,6 +169,10 @@ export function BulkUpdatePreviewModal({
               <div className="text-2xl font-bold text-gray-600">{stats.toSkip}</div>
               <div className="text-sm text-gray-700">A omitir</div>
             </div>
+            <div className="bg-amber-50 dark:bg-amber-950 p-3 rounded-lg text-center">
+              <div className="text-2xl font-bold text-amber-600">{stats.conflicts}</div>
+              <div className="text-sm text-amber-700">Con conflictos</div>
+            </div>
           </div>
 
           {/* Domain List */}
@@ -129,22 +181,64 @@ export function BulkUpdatePreviewModal({
             <div className="h-64 border rounded-lg overflow-y-auto">
               <div className="p-4 space-y-2">
                 {domains.map((domain) => (
-                  <div key={domain.zoneId} className="flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-900 rounded">
-                    <div className="flex items-center gap-2">
-                      {getActionIcon(domain.action)}
-                      <span className="font-medium">{domain.domain}</span>
-                      {domain.currentVersion && (
-                        <Badge variant="outline" className="text-xs">
-                          v{domain.currentVersion}
-                        </Badge>
-                      )}
-                    </div>
-                    <div className="flex items-center gap-2">
-                      {getActionBadge(domain.action)}
-                      {domain.reason && (
-                        <span className="text-xs text-muted-foreground">{domain.reason}</span>
-                      )}
+                  <div key={domain.zoneId} className="p-2 bg-gray-50 dark:bg-gray-900 rounded">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        {getActionIcon(domain.action)}
+                        <span className="font-medium">{domain.domain}</span>
+                        {domain.currentVersion && (
+                          <Badge variant="outline" className="text-xs">
+                            v{domain.currentVersion}
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {getActionBadge(domain.action)}
+                        {domain.reason && (
+                          <span className="text-xs text-muted-foreground">{domain.reason}</span>
+                        )}
+                      </div>
                     </div>
+
+                    {domain.action !== 'skip' && domain.conflicts && domain.conflicts.length > 0 && (
+                      <div className="mt-2 ml-6 space-y-2 border-l-2 border-amber-300 pl-3">
+                        {domain.conflicts.map(conflict => (
+                          <div key={conflict.conflictingRule.cloudflareRuleId} className="text-xs space-y-1">
+                            <div className="flex items-center gap-2">
+                              <Badge className={`text-xs ${CONFLICT_TYPE_LABELS[conflict.conflictType].className}`}>
+                                {CONFLICT_TYPE_LABELS[conflict.conflictType].label}
+                              </Badge>
+                              <span className="font-medium">{conflict.conflictingRule.description || conflict.conflictingRule.cloudflareRuleId}</span>
+                              <Badge variant="outline" className="text-xs">{conflict.conflictingRule.action}</Badge>
+                              <span className="text-muted-foreground">{Math.round(conflict.confidence * 100)}%</span>
+                            </div>
+                            <code className="block font-mono text-muted-foreground break-all">{conflict.conflictingRule.expression}</code>
+                          </div>
+                        ))}
+                        <div className="flex items-center gap-2">
+                          <GitMerge className="h-4 w-4 text-amber-600" />
+                          <Select
+                            value={resolutions[domain.zoneId]}
+                            onValueChange={(value) => setResolution(domain.zoneId, value as ConflictResolution)}
+                          >
+                            <SelectTrigger className="h-8 w-56 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.values(ConflictResolution).map(resolution => (
+                                <SelectItem
+                                  key={resolution}
+                                  value={resolution}
+                                  disabled={resolution === ConflictResolution.MERGE && !canMergeConflicts(template, domain.conflicts!)}
+                                >
+                                  {RESOLUTION_LABELS[resolution]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -160,8 +254,14 @@ export function BulkUpdatePreviewModal({
                   Esta acción no se puede deshacer
                 </p>
                 <p className="text-orange-700 dark:text-orange-300 mt-1">
-                  Se actualizarán {stats.toUpdate + stats.toAdd} dominios. Asegúrate de que la nueva versión de la regla sea correcta.
+                  Se actualizarán {stats.toUpdate + stats.toAdd - heldBack} dominios. Asegúrate de que la nueva versión de la regla sea correcta.
+                  {heldBack > 0 && ` ${heldBack} dominios con conflictos no se modificarán.`}
                 </p>
+                {approvalRequired && (
+                  <p className="font-medium text-orange-900 dark:text-orange-100 mt-1">
+                    Hay dominios protegidos: el cambio solo puede aplicarse con una solicitud aprobada.
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -171,9 +271,15 @@ export function BulkUpdatePreviewModal({
           <Button variant="outline" onClick={handleClose} disabled={isUpdating}>
             Cancelar
           </Button>
+          {onRequestApproval && (
+            <Button variant="outline" onClick={() => onRequestApproval(resolutions)} disabled={isUpdating}>
+              <ClipboardCheck className="h-4 w-4 mr-2" />
+              Solicitar aprobación
+            </Button>
+          )}
           <Button
             onClick={handleConfirm}
-            disabled={isUpdating}
+            disabled={isUpdating || approvalRequired}
             className={confirmed ? "bg-red-600 hover:bg-red-700" : ""}
           >
             {isUpdating ? (
@@ -0,0 +1,392 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, ChevronDown, ChevronRight, ClipboardCheck, Loader2, MessageSquare, Play, RefreshCw, ShieldCheck, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { BulkOperationProgressModal } from './BulkOperationProgressModal';
+import { useBulkOperation } from '@/hooks/useBulkOperation';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { useDomainStore } from '@/store/domainStore';
+import { tokenStorage } from '@/lib/tokenStorage';
+import { ChangeApprovalPolicy, ChangeRequest, ChangeRequestStatus, ConflictResolution } from '@/types/cloudflare';
+
+type ApprovalPolicyChanges = Pick<ChangeApprovalPolicy, 'requireForAllZones' | 'protectedZones'>;
+
+interface ChangeRequestsPanelProps {
+  reloadKey?: number; // Bumped by the parent after it creates a request
+  policy: ChangeApprovalPolicy | null;
+  savingPolicy: boolean;
+  onSavePolicy: (policy: ApprovalPolicyChanges) => Promise<boolean>;
+}
+
+const STATUS_LABELS: Record<ChangeRequestStatus, string> = {
+  pending: 'Pendiente',
+  approved: 'Aprobada',
+  rejected: 'Rechazada',
+  cancelled: 'Cancelada',
+  executed: 'Ejecutada'
+};
+
+const STATUS_CLASSES: Record<ChangeRequestStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-700',
+  executed: 'bg-blue-100 text-blue-800'
+};
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  [ConflictResolution.REPLACE]: 'Reemplazar',
+  [ConflictResolution.MERGE]: 'Combinar',
+  [ConflictResolution.SKIP]: 'Mantener existente',
+  [ConflictResolution.MANUAL]: 'Manual'
+};
+
+const isOpen = (request: ChangeRequest) => request.status === 'pending' || request.status === 'approved';
+
+const readError = (result: any, fallback: string) => result.details?.[0]?.message || result.error || fallback;
+
+/**
+ * Bulk template rollouts waiting for a second user: review, comments and execution once approved
+ */
+export function ChangeRequestsPanel({ reloadKey, policy, savingPolicy, onSavePolicy }: ChangeRequestsPanelProps) {
+  const { user, can } = useCurrentUser();
+  const allDomains = useDomainStore(state => state.allDomains);
+  const [requests, setRequests] = useState<ChangeRequest[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [showClosed, setShowClosed] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [commentText, setCommentText] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [executing, setExecuting] = useState<ChangeRequest | null>(null);
+
+  const loadRequests = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/change-requests');
+      const result = await response.json();
+      if (!result.success) throw new Error(readError(result, 'Error al cargar solicitudes'));
+      setRequests(result.data.requests);
+    } catch (error) {
+      console.error('Error loading change requests:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al cargar solicitudes');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests, reloadKey]);
+
+  const bulkOperation = useBulkOperation({
+    endpoint: '/api/change-requests',
+    apiToken: tokenStorage.getToken() || '',
+    onComplete: (summary) => {
+      toast.success(`Solicitud ejecutada: ${summary.successful} éxitos, ${summary.failed} errores`);
+      if (executing) {
+        useDomainStore.getState().refreshMultipleDomains(executing.diff.map(domain => domain.zoneId));
+      }
+      loadRequests();
+    },
+    onError: () => loadRequests()
+  });
+
+  const postAction = async (request: ChangeRequest, path: string, body: object, success: string) => {
+    setBusyId(request.id);
+    try {
+      const response = await fetch(`/api/change-requests/${request.id}/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(readError(result, 'Error al actualizar la solicitud'));
+
+      toast.success(success);
+      setRequests(current => current.map(item => item.id === request.id ? result.data.request : item));
+      return true;
+    } catch (error) {
+      console.error('Error updating change request:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al actualizar la solicitud');
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const review = async (request: ChangeRequest, approve: boolean) => {
+    const comment = commentText.trim();
+    const done = await postAction(
+      request,
+      'review',
+      { decision: approve ? 'approve' : 'reject', ...(comment && { comment }) },
+      approve ? 'Solicitud aprobada' : 'Solicitud rechazada'
+    );
+    if (done) setCommentText('');
+  };
+
+  const addComment = async (request: ChangeRequest) => {
+    if (await postAction(request, 'comments', { text: commentText.trim() }, 'Comentario agregado')) {
+      setCommentText('');
+    }
+  };
+
+  const cancel = (request: ChangeRequest) => {
+    if (!confirm(`¿Cancelar la solicitud "${request.title}"?`)) return;
+    postAction(request, 'cancel', {}, 'Solicitud cancelada');
+  };
+
+  const openExecution = (request: ChangeRequest) => {
+    setExecuting(request);
+    bulkOperation.initializeDomains(request.diff.map(({ zoneId, domainName }) => ({ zoneId, domainName })));
+  };
+
+  const closeExecution = () => {
+    setExecuting(null);
+    bulkOperation.resetOperation();
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpandedId(current => current === id ? null : id);
+    setCommentText('');
+  };
+
+  const savePolicyChanges = (changes: Partial<ApprovalPolicyChanges>) => {
+    if (!policy) return;
+    onSavePolicy({
+      requireForAllZones: changes.requireForAllZones ?? policy.requireForAllZones,
+      protectedZones: changes.protectedZones ?? policy.protectedZones
+    });
+  };
+
+  const addProtectedZone = (zoneId: string) => {
+    const domain = allDomains.find(item => item.zoneId === zoneId);
+    if (!policy || !domain) return;
+    savePolicyChanges({ protectedZones: [...policy.protectedZones, { zoneId, domainName: domain.domain }] });
+  };
+
+  const removeProtectedZone = (zoneId: string) => {
+    if (!policy) return;
+    savePolicyChanges({ protectedZones: policy.protectedZones.filter(zone => zone.zoneId !== zoneId) });
+  };
+
+  const canEditPolicy = can('changes:approve') && !savingPolicy;
+  const protectedIds = new Set(policy?.protectedZones.map(zone => zone.zoneId));
+  const unprotectedDomains = allDomains.filter(domain => !protectedIds.has(domain.zoneId));
+
+  const pendingCount = requests.filter(request => request.status === 'pending').length;
+  const visible = showClosed ? requests : requests.filter(isOpen);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Solicitudes de cambio
+            {pendingCount > 0 && <Badge variant="secondary">{pendingCount} pendientes</Badge>}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setShowClosed(!showClosed)}>
+              {showClosed ? 'Ocultar cerradas' : 'Mostrar cerradas'}
+            </Button>
+            <Button variant="outline" size="sm" onClick={loadRequests} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {policy && (
+          <div className="rounded border p-3 space-y-2 text-sm">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="font-medium flex items-center gap-2">
+                <ShieldCheck className="h-4 w-4" />
+                Dominios protegidos
+              </p>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="approval-all-zones"
+                  checked={policy.requireForAllZones}
+                  disabled={!canEditPolicy}
+                  onCheckedChange={(checked) => savePolicyChanges({ requireForAllZones: checked === true })}
+                />
+                <Label htmlFor="approval-all-zones">Exigir aprobación en todos los dominios</Label>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Aplicar o actualizar plantillas en estos dominios solo es posible ejecutando una solicitud aprobada.
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {policy.protectedZones.length === 0 && (
+                <span className="text-xs text-muted-foreground">Ningún dominio marcado como producción</span>
+              )}
+              {policy.protectedZones.map(zone => (
+                <Badge key={zone.zoneId} variant="outline" className="gap-1 font-mono">
+                  {zone.domainName}
+                  {canEditPolicy && (
+                    <button type="button" onClick={() => removeProtectedZone(zone.zoneId)} aria-label={`Quitar ${zone.domainName}`}>
+                      <X className="h-3 w-3" />
+                    </button>
+                  )}
+                </Badge>
+              ))}
+            </div>
+            {can('changes:approve') && unprotectedDomains.length > 0 && (
+              <Select value="" onValueChange={addProtectedZone} disabled={!canEditPolicy}>
+                <SelectTrigger className="h-8 w-64">
+                  <SelectValue placeholder="Marcar dominio como producción" />
+                </SelectTrigger>
+                <SelectContent>
+                  {unprotectedDomains.map(domain => (
+                    <SelectItem key={domain.zoneId} value={domain.zoneId}>{domain.domain}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        )}
+
+        {visible.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            {loading ? 'Cargando...' : 'No hay solicitudes abiertas. Usa "Solicitar aprobación" al aplicar o actualizar una plantilla.'}
+          </p>
+        )}
+
+        {visible.map(request => {
+          const expanded = expandedId === request.id;
+          const isAuthor = request.requestedBy === user?.username;
+          const canReview = request.status === 'pending' && can('changes:approve') && !isAuthor;
+          const busy = busyId === request.id;
+
+          return (
+            <div key={request.id} className="rounded border">
+              <div className="flex items-center justify-between gap-2 p-3">
+                <button
+                  type="button"
+                  className="flex items-center gap-2 text-left min-w-0"
+                  onClick={() => toggleExpanded(request.id)}
+                >
+                  {expanded ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+                  <Badge className={STATUS_CLASSES[request.status]}>{STATUS_LABELS[request.status]}</Badge>
+                  <span className="font-medium truncate">{request.title}</span>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {request.diff.length} dominios · {request.requestedBy} · {new Date(request.createdAt).toLocaleString()}
+                  </span>
+                </button>
+
+                <div className="flex gap-1 shrink-0">
+                  {canReview && (
+                    <>
+                      <Button size="sm" variant="outline" onClick={() => review(request, true)} disabled={busy}>
+                        <Check className="h-4 w-4 mr-1" />Aprobar
+                      </Button>
+                      <Button size="sm" variant="outline" className="text-red-600" onClick={() => review(request, false)} disabled={busy}>
+                        <X className="h-4 w-4 mr-1" />Rechazar
+                      </Button>
+                    </>
+                  )}
+                  {request.status === 'approved' && can('domains:write') && (
+                    <Button size="sm" onClick={() => openExecution(request)} disabled={busy}>
+                      <Play className="h-4 w-4 mr-1" />Ejecutar
+                    </Button>
+                  )}
+                  {isOpen(request) && isAuthor && (
+                    <Button size="sm" variant="ghost" onClick={() => cancel(request)} disabled={busy}>
+                      Cancelar
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {expanded && (
+                <div className="border-t p-3 space-y-3 text-sm">
+                  <div>
+                    <p className="font-medium mb-1">
+                      {request.template.friendlyId} v{request.template.version} · {request.template.name}
+                    </p>
+                    <code className="block bg-muted rounded p-2 text-xs break-all">{request.template.expression}</code>
+                  </div>
+
+                  <div className="space-y-1">
+                    <p className="font-medium">Dominios</p>
+                    {request.diff.map(domain => (
+                      <div key={domain.zoneId} className="flex flex-wrap items-center gap-2">
+                        <span className="font-mono">{domain.domainName}</span>
+                        <Badge variant="outline">{domain.change === 'add' ? 'Agregar' : 'Actualizar'}</Badge>
+                        {domain.currentVersion && (
+                          <span className="text-xs text-muted-foreground">v{domain.currentVersion} → v{request.template.version}</span>
+                        )}
+                        {!!domain.conflicts && (
+                          <span className="text-xs text-orange-600">
+                            {domain.conflicts} conflictos{domain.resolution && `: ${RESOLUTION_LABELS[domain.resolution]}`}
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="space-y-1">
+                    <p className="font-medium">Historial</p>
+                    {request.history.map((event, index) => (
+                      <p key={index} className="text-xs text-muted-foreground">
+                        {new Date(event.at).toLocaleString()} · {STATUS_LABELS[event.status]} por {event.actor}
+                        {event.note && ` · ${event.note}`}
+                      </p>
+                    ))}
+                  </div>
+
+                  <div className="space-y-1">
+                    <p className="font-medium">Comentarios</p>
+                    {request.comments.length === 0 && <p className="text-xs text-muted-foreground">Sin comentarios</p>}
+                    {request.comments.map(comment => (
+                      <p key={comment.id} className="text-xs">
+                        <span className="font-medium">{comment.author}</span>
+                        <span className="text-muted-foreground"> · {new Date(comment.createdAt).toLocaleString()}: </span>
+                        {comment.text}
+                      </p>
+                    ))}
+                    <div className="flex gap-2 pt-1">
+                      <Input
+                        value={commentText}
+                        onChange={(e) => setCommentText(e.target.value)}
+                        placeholder={canReview ? 'Comentario (se guarda con la aprobación o el rechazo)' : 'Agregar un comentario'}
+                        className="h-8"
+                      />
+                      <Button size="sm" variant="outline" onClick={() => addComment(request)} disabled={busy || !commentText.trim()}>
+                        {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <MessageSquare className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+
+      <BulkOperationProgressModal
+        isOpen={executing !== null}
+        onClose={closeExecution}
+        title={executing ? `Ejecutar: ${executing.title}` : ''}
+        domains={bulkOperation.domains}
+        onStart={() => bulkOperation.startCustomOperation(`/api/change-requests/${executing?.id}/execute`, {})}
+        onCancel={bulkOperation.cancelOperation}
+        canCancel={bulkOperation.canCancel}
+        progress={bulkOperation.progress}
+        isStarted={bulkOperation.isStarted}
+        isCompleted={bulkOperation.isCompleted}
+        summary={bulkOperation.summary}
+        phase={bulkOperation.phase}
+      />
+    </Card>
+  );
+}
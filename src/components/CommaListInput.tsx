@@ -0,0 +1,40 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+
+function parseList(text: string): string[] {
+  return text.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+interface CommaListInputProps {
+  id?: string;
+  value: string[];
+  onChange: (value: string[]) => void;
+  placeholder?: string;
+}
+
+/**
+ * Text input for comma separated lists
+ * Keeps the raw text while typing so trailing commas and spaces aren't swallowed
+ */
+export function CommaListInput({ id, value, onChange, placeholder }: CommaListInputProps) {
+  const [text, setText] = useState(value.join(', '));
+
+  // Follow external changes (switching the edited template, resetting the form)
+  useEffect(() => {
+    setText(current => parseList(current).join(',') === value.join(',') ? current : value.join(', '));
+  }, [value]);
+
+  return (
+    <Input
+      id={id}
+      value={text}
+      placeholder={placeholder}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(parseList(e.target.value));
+      }}
+    />
+  );
+}
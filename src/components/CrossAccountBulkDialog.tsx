@@ -0,0 +1,195 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { RuleTemplate } from '@/types/cloudflare';
+import { CloudflareAccount, tokenStorage } from '@/lib/tokenStorage';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+
+type CrossAccountAction = 'add' | 'remove' | 'clean';
+
+const ACTION_LABELS: Record<CrossAccountAction, string> = {
+  add: 'Aplicar reglas',
+  remove: 'Eliminar reglas',
+  clean: 'Limpiar todas las reglas'
+};
+
+interface CrossAccountBulkDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  accounts: CloudflareAccount[];
+}
+
+/**
+ * Queues the same rules action on every domain of several accounts, one job per account
+ * Progress of each job is followed in the jobs panel
+ */
+export function CrossAccountBulkDialog({ isOpen, onClose, accounts }: CrossAccountBulkDialogProps) {
+  const [templates, setTemplates] = useState<RuleTemplate[]>([]);
+  const [loadingTemplates, setLoadingTemplates] = useState(false);
+  const [action, setAction] = useState<CrossAccountAction>('add');
+  const [selectedRules, setSelectedRules] = useState<string[]>([]);
+  const [selectedAccounts, setSelectedAccounts] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const { can } = useCurrentUser();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelectedAccounts(accounts.map(account => account.id));
+    setSelectedRules([]);
+    loadTemplates();
+  }, [isOpen]);
+
+  // Templates of the active account, the jobs skip the ones another account can't use
+  const loadTemplates = async () => {
+    setLoadingTemplates(true);
+    try {
+      const response = await fetch('/api/security-rules');
+      const result = await response.json();
+      if (result.success) {
+        setTemplates(result.data.templates.filter((template: RuleTemplate) => template.enabled));
+      }
+    } catch (error) {
+      console.error('Error loading templates:', error);
+      toast.error('Error al cargar las plantillas');
+    } finally {
+      setLoadingTemplates(false);
+    }
+  };
+
+  const toggle = (list: string[], value: string, checked: boolean) => {
+    return checked ? [...list, value] : list.filter(item => item !== value);
+  };
+
+  const handleSubmit = async () => {
+    const targets = accounts
+      .filter(account => selectedAccounts.includes(account.id))
+      .map(account => ({ accountId: account.id, accountName: account.name, token: tokenStorage.getAccountToken(account.id) }))
+      .filter((account): account is { accountId: string; accountName: string; token: string } => account.token !== null);
+
+    if (targets.length === 0) {
+      toast.error('Selecciona al menos una cuenta con token válido');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetch('/api/jobs/cross-account', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          selectedRules: action === 'clean' ? [] : selectedRules,
+          accounts: targets
+        })
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.details?.[0]?.message || result.data?.skipped?.[0]?.error || result.error || 'Error al crear los trabajos');
+      }
+
+      const { jobs, skipped } = result.data;
+      toast.success(`${jobs.length} trabajos en cola. Sigue el progreso en el panel de trabajos`);
+      for (const account of skipped) {
+        toast.warning(`${account.accountName}: ${account.error}`);
+      }
+      onClose();
+    } catch (error) {
+      console.error('Error queuing cross-account jobs:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al crear los trabajos');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const needsRules = action !== 'clean';
+  const canSubmit = selectedAccounts.length > 0 && (!needsRules || selectedRules.length > 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Operación en varias cuentas</DialogTitle>
+          <DialogDescription>
+            Se crea un trabajo por cuenta sobre todos sus dominios, usando el token de cada cuenta.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Acción</Label>
+            <Select value={action} onValueChange={(value) => setAction(value as CrossAccountAction)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ACTION_LABELS) as CrossAccountAction[])
+                  .filter(key => key !== 'clean' || can('rules:destructive'))
+                  .map(key => (
+                    <SelectItem key={key} value={key}>{ACTION_LABELS[key]}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {needsRules && (
+            <div>
+              <Label>Reglas</Label>
+              <div className="mt-1 max-h-48 overflow-y-auto space-y-2 rounded border p-2">
+                {loadingTemplates && <Loader2 className="h-4 w-4 animate-spin" />}
+                {!loadingTemplates && templates.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No hay plantillas habilitadas</p>
+                )}
+                {templates.map(template => (
+                  <div key={template.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`cross-rule-${template.id}`}
+                      checked={selectedRules.includes(template.friendlyId)}
+                      onCheckedChange={(checked) => setSelectedRules(toggle(selectedRules, template.friendlyId, checked === true))}
+                    />
+                    <Label htmlFor={`cross-rule-${template.id}`} className="font-normal">
+                      <span className="font-mono text-xs mr-1">{template.friendlyId}</span>
+                      {template.name}
+                      {template.accountIds?.length ? <span className="text-xs text-muted-foreground ml-1">(solo algunas cuentas)</span> : null}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <Label>Cuentas</Label>
+            <div className="mt-1 space-y-2">
+              {accounts.map(account => (
+                <div key={account.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`cross-account-${account.id}`}
+                    checked={selectedAccounts.includes(account.id)}
+                    onCheckedChange={(checked) => setSelectedAccounts(toggle(selectedAccounts, account.id, checked === true))}
+                  />
+                  <Label htmlFor={`cross-account-${account.id}`} className="font-normal">{account.name}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={submitting}>Cancelar</Button>
+          <Button onClick={handleSubmit} disabled={submitting || !canSubmit}>
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Crear trabajos
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
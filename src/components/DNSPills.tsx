@@ -1,9 +1,14 @@
 'use client';
 
+import { useState } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { DomainStatus } from '@/types/cloudflare';
+import { List } from 'lucide-react';
+import { DNSRecordsModal } from './DNSRecordsModal';
+import { tokenStorage } from '@/lib/tokenStorage';
+import { missingCapabilityMessage, useTokenCapabilities } from '@/hooks/useTokenCapabilities';
 
 interface DNSPillsProps {
   domain: DomainStatus;
@@ -12,6 +17,10 @@ interface DNSPillsProps {
 }
 
 export function DNSPills({ domain, onToggleProxy, updatingRecords }: DNSPillsProps) {
+  const [recordsModalOpen, setRecordsModalOpen] = useState(false);
+  const { isDenied } = useTokenCapabilities();
+  const dnsEditDenied = isDenied(domain.zoneId, 'dnsEdit');
+
   const getRootPillColor = () => {
     const isUpdating = updatingRecords?.has(`${domain.zoneId}-${domain.rootRecord?.id}`);
     if (isUpdating) return 'bg-yellow-500 hover:bg-yellow-600';
@@ -48,7 +57,7 @@ export function DNSPills({ domain, onToggleProxy, updatingRecords }: DNSPillsPro
             <Button
               variant="ghost"
               size="sm"
-              disabled={!domain.rootRecord || updatingRecords?.has(`${domain.zoneId}-${domain.rootRecord?.id}`)}
+              disabled={!domain.rootRecord || dnsEditDenied || updatingRecords?.has(`${domain.zoneId}-${domain.rootRecord?.id}`)}
               onClick={() => {
                 if (domain.rootRecord && onToggleProxy) {
                   onToggleProxy(domain.zoneId, domain.rootRecord.id, domain.rootProxied);
@@ -61,7 +70,11 @@ export function DNSPills({ domain, onToggleProxy, updatingRecords }: DNSPillsPro
           </TooltipTrigger>
           <TooltipContent>
             <p>{getRootState()} {domain.rootRecord ? `(${domain.rootRecord.type})` : ''}</p>
-            {domain.rootRecord && <p className="text-xs opacity-75">Click para cambiar proxy</p>}
+            {domain.rootRecord && (
+              <p className="text-xs opacity-75">
+                {dnsEditDenied ? missingCapabilityMessage('dnsEdit') : 'Click para cambiar proxy'}
+              </p>
+            )}
           </TooltipContent>
         </Tooltip>
 
@@ -70,7 +83,7 @@ export function DNSPills({ domain, onToggleProxy, updatingRecords }: DNSPillsPro
             <Button
               variant="ghost"
               size="sm"
-              disabled={!domain.wwwRecord || updatingRecords?.has(`${domain.zoneId}-${domain.wwwRecord?.id}`)}
+              disabled={!domain.wwwRecord || dnsEditDenied || updatingRecords?.has(`${domain.zoneId}-${domain.wwwRecord?.id}`)}
               onClick={() => {
                 if (domain.wwwRecord && onToggleProxy) {
                   onToggleProxy(domain.zoneId, domain.wwwRecord.id, domain.wwwProxied);
@@ -83,10 +96,39 @@ export function DNSPills({ domain, onToggleProxy, updatingRecords }: DNSPillsPro
           </TooltipTrigger>
           <TooltipContent>
             <p>{getWWWState()} {domain.wwwRecord ? `(${domain.wwwRecord.type})` : ''}</p>
-            {domain.wwwRecord && <p className="text-xs opacity-75">Click para cambiar proxy</p>}
+            {domain.wwwRecord && (
+              <p className="text-xs opacity-75">
+                {dnsEditDenied ? missingCapabilityMessage('dnsEdit') : 'Click para cambiar proxy'}
+              </p>
+            )}
+          </TooltipContent>
+        </Tooltip>
+
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setRecordsModalOpen(true)}
+              className="h-6 w-6 p-0 rounded-full"
+            >
+              <List className="h-3.5 w-3.5" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>Ver y editar todos los registros DNS</p>
           </TooltipContent>
         </Tooltip>
       </div>
+
+      {recordsModalOpen && tokenStorage.getToken() && (
+        <DNSRecordsModal
+          isOpen={recordsModalOpen}
+          onClose={() => setRecordsModalOpen(false)}
+          zoneId={domain.zoneId}
+          domainName={domain.domain}
+        />
+      )}
     </TooltipProvider>
   );
 }
\ No newline at end of file
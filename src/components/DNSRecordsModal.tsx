@@ -0,0 +1,644 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Globe, Plus, Pencil, Trash2, Info, Save, X, Download, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { CloudflareDNSRecord, DNSRecordInput, DNSRecordType } from '@/types/cloudflare';
+import { tokenStorage } from '@/lib/tokenStorage';
+import { useDomainStore } from '@/store/domainStore';
+import { ZoneFileImportModal } from './ZoneFileImportModal';
+
+const RECORD_TYPES: DNSRecordType[] = ['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'SRV', 'CAA'];
+const PROXIABLE_TYPES: DNSRecordType[] = ['A', 'AAAA', 'CNAME'];
+
+interface RecordFormState {
+  type: DNSRecordType;
+  name: string;
+  content: string;
+  ttl: string;
+  proxied: boolean;
+  priority: string;
+  weight: string;
+  port: string;
+  target: string;
+  flags: string;
+  tag: string;
+  value: string;
+  comment: string;
+  tags: string;
+}
+
+const EMPTY_FORM: RecordFormState = {
+  type: 'A',
+  name: '',
+  content: '',
+  ttl: '1',
+  proxied: false,
+  priority: '10',
+  weight: '0',
+  port: '',
+  target: '',
+  flags: '0',
+  tag: 'issue',
+  value: '',
+  comment: '',
+  tags: ''
+};
+
+interface DNSRecordsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  zoneId: string;
+  domainName: string;
+}
+
+/**
+ * Convert a Cloudflare record into editable form state
+ */
+const recordToForm = (record: CloudflareDNSRecord): RecordFormState => ({
+  ...EMPTY_FORM,
+  type: record.type as DNSRecordType,
+  name: record.name,
+  content: record.content,
+  ttl: String(record.ttl),
+  proxied: record.proxied,
+  priority: String(record.data?.priority ?? record.priority ?? EMPTY_FORM.priority),
+  weight: String(record.data?.weight ?? EMPTY_FORM.weight),
+  port: record.data?.port !== undefined ? String(record.data.port) : '',
+  target: record.data?.target ?? '',
+  flags: String(record.data?.flags ?? EMPTY_FORM.flags),
+  tag: record.data?.tag ?? EMPTY_FORM.tag,
+  value: record.data?.value ?? '',
+  comment: record.comment ?? '',
+  tags: (record.tags || []).join(', ')
+});
+
+/**
+ * Build the API payload for the selected record type
+ */
+const formToInput = (form: RecordFormState): DNSRecordInput => {
+  const input: DNSRecordInput = {
+    type: form.type,
+    name: form.name.trim(),
+    ttl: Number(form.ttl),
+    comment: form.comment.trim() || undefined,
+    tags: form.tags.split(',').map(tag => tag.trim()).filter(Boolean)
+  };
+
+  switch (form.type) {
+    case 'A':
+    case 'AAAA':
+    case 'CNAME':
+      return { ...input, content: form.content.trim(), proxied: form.proxied };
+    case 'MX':
+      return { ...input, content: form.content.trim(), priority: Number(form.priority) };
+    case 'TXT':
+      return { ...input, content: form.content };
+    case 'SRV':
+      return {
+        ...input,
+        data: {
+          priority: Number(form.priority),
+          weight: Number(form.weight),
+          port: Number(form.port),
+          target: form.target.trim()
+        }
+      };
+    case 'CAA':
+      return {
+        ...input,
+        data: {
+          flags: Number(form.flags),
+          tag: form.tag,
+          value: form.value.trim()
+        }
+      };
+  }
+};
+
+/**
+ * Human readable content column (SRV/CAA keep their content in `data`)
+ */
+const formatRecordContent = (record: CloudflareDNSRecord): string => {
+  if (record.type === 'MX' && record.priority !== undefined) {
+    return `${record.priority} ${record.content}`;
+  }
+  return record.content;
+};
+
+export function DNSRecordsModal({ isOpen, onClose, zoneId, domainName }: DNSRecordsModalProps) {
+  const [loading, setLoading] = useState(false);
+  const [records, setRecords] = useState<CloudflareDNSRecord[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<string>('all');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null); // 'new' while creating
+  const [form, setForm] = useState<RecordFormState>(EMPTY_FORM);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [hasChanges, setHasChanges] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const { refreshSingleDomain } = useDomainStore();
+
+  const loadRecords = useCallback(async () => {
+    const apiToken = tokenStorage.getToken();
+    if (!apiToken) return;
+
+    setLoading(true);
+    setLoadError(null);
+    try {
+      const response = await fetch(`/api/domains/dns/${zoneId}`, {
+        headers: { 'x-api-token': apiToken }
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setRecords(result.data.records);
+      } else {
+        setLoadError(result.error || 'No se pudieron cargar los registros DNS');
+      }
+    } catch (error) {
+      console.error('Error loading DNS records:', error);
+      setLoadError('No se pudieron cargar los registros DNS');
+    } finally {
+      setLoading(false);
+    }
+  }, [zoneId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadRecords();
+      setEditingId(null);
+      setHasChanges(false);
+    }
+  }, [isOpen, loadRecords]);
+
+  const handleClose = useCallback(async () => {
+    // Root/www pills depend on these records, refresh the row if anything changed
+    if (hasChanges) {
+      await refreshSingleDomain(zoneId);
+    }
+    setHasChanges(false);
+    onClose();
+  }, [hasChanges, zoneId, refreshSingleDomain, onClose]);
+
+  const filteredRecords = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return records.filter(record => {
+      if (typeFilter !== 'all' && record.type !== typeFilter) return false;
+      if (!term) return true;
+      return record.name.toLowerCase().includes(term) || record.content.toLowerCase().includes(term);
+    });
+  }, [records, typeFilter, searchTerm]);
+
+  const updateForm = (changes: Partial<RecordFormState>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+  };
+
+  const startCreate = () => {
+    setForm({ ...EMPTY_FORM, name: domainName });
+    setEditingId('new');
+  };
+
+  const startEdit = (record: CloudflareDNSRecord) => {
+    setForm(recordToForm(record));
+    setEditingId(record.id);
+  };
+
+  const handleSave = async () => {
+    const apiToken = tokenStorage.getToken();
+    if (!apiToken || !editingId) return;
+
+    const isNew = editingId === 'new';
+    const url = isNew ? `/api/domains/dns/${zoneId}` : `/api/domains/dns/${zoneId}/${editingId}`;
+
+    try {
+      setActionLoading('save');
+      const response = await fetch(url, {
+        method: isNew ? 'POST' : 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-token': apiToken
+        },
+        body: JSON.stringify(formToInput(form))
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        toast.success(isNew ? `Registro ${form.type} creado` : `Registro ${form.type} actualizado`);
+        setEditingId(null);
+        setHasChanges(true);
+        await loadRecords();
+      } else if (result.details) {
+        const firstError = result.details[0];
+        toast.error(`Datos inválidos: ${firstError.field ? `${firstError.field} - ` : ''}${firstError.message}`);
+      } else {
+        toast.error(result.error || 'Error al guardar el registro DNS');
+      }
+    } catch (error) {
+      console.error('Error saving DNS record:', error);
+      toast.error('Error al guardar el registro DNS');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleDelete = async (record: CloudflareDNSRecord) => {
+    const apiToken = tokenStorage.getToken();
+    if (!apiToken) return;
+
+    if (!confirm(`¿Eliminar el registro ${record.type} ${record.name}?`)) {
+      return;
+    }
+
+    try {
+      setActionLoading(record.id);
+      const response = await fetch(`/api/domains/dns/${zoneId}/${record.id}`, {
+        method: 'DELETE',
+        headers: { 'x-api-token': apiToken }
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        toast.success(`Registro ${record.type} ${record.name} eliminado`);
+        setRecords(prev => prev.filter(r => r.id !== record.id));
+        setHasChanges(true);
+        if (editingId === record.id) {
+          setEditingId(null);
+        }
+      } else {
+        toast.error(result.error || 'Error al eliminar el registro DNS');
+      }
+    } catch (error) {
+      console.error('Error deleting DNS record:', error);
+      toast.error('Error al eliminar el registro DNS');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleExport = async () => {
+    const apiToken = tokenStorage.getToken();
+    if (!apiToken) return;
+
+    try {
+      setActionLoading('export');
+      const response = await fetch(`/api/domains/dns/${zoneId}/zone-file`, {
+        headers: { 'x-api-token': apiToken }
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        toast.error(result.error || 'Error al exportar el archivo de zona');
+        return;
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${domainName}.zone`;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success('Archivo de zona exportado');
+    } catch (error) {
+      console.error('Error exporting zone file:', error);
+      toast.error('Error al exportar el archivo de zona');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleImportApplied = () => {
+    setHasChanges(true);
+    loadRecords();
+  };
+
+  const renderTypeFields = () => {
+    switch (form.type) {
+      case 'SRV':
+        return (
+          <div className="grid grid-cols-4 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="dns-priority">Prioridad</Label>
+              <Input id="dns-priority" type="number" value={form.priority} onChange={(e) => updateForm({ priority: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="dns-weight">Peso</Label>
+              <Input id="dns-weight" type="number" value={form.weight} onChange={(e) => updateForm({ weight: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="dns-port">Puerto</Label>
+              <Input id="dns-port" type="number" value={form.port} onChange={(e) => updateForm({ port: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="dns-target">Destino</Label>
+              <Input id="dns-target" value={form.target} placeholder="sip.ejemplo.com" onChange={(e) => updateForm({ target: e.target.value })} />
+            </div>
+          </div>
+        );
+      case 'CAA':
+        return (
+          <div className="grid grid-cols-4 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="dns-flags">Flags</Label>
+              <Input id="dns-flags" type="number" value={form.flags} onChange={(e) => updateForm({ flags: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Etiqueta</Label>
+              <Select value={form.tag} onValueChange={(tag) => updateForm({ tag })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="issue">issue</SelectItem>
+                  <SelectItem value="issuewild">issuewild</SelectItem>
+                  <SelectItem value="iodef">iodef</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="dns-value">Valor</Label>
+              <Input id="dns-value" value={form.value} placeholder="letsencrypt.org" onChange={(e) => updateForm({ value: e.target.value })} />
+            </div>
+          </div>
+        );
+      default:
+        return (
+          <div className="grid grid-cols-4 gap-3">
+            <div className={`space-y-1 ${form.type === 'MX' ? 'col-span-3' : 'col-span-4'}`}>
+              <Label htmlFor="dns-content">Contenido</Label>
+              <Input
+                id="dns-content"
+                value={form.content}
+                placeholder={form.type === 'A' ? '192.0.2.1' : form.type === 'AAAA' ? '2001:db8::1' : form.type === 'TXT' ? 'v=spf1 include:_spf.ejemplo.com ~all' : 'destino.ejemplo.com'}
+                onChange={(e) => updateForm({ content: e.target.value })}
+              />
+            </div>
+            {form.type === 'MX' && (
+              <div className="space-y-1">
+                <Label htmlFor="dns-priority">Prioridad</Label>
+                <Input id="dns-priority" type="number" value={form.priority} onChange={(e) => updateForm({ priority: e.target.value })} />
+              </div>
+            )}
+          </div>
+        );
+    }
+  };
+
+  const renderForm = () => (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">
+          {editingId === 'new' ? 'Nuevo registro' : 'Editar registro'}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-4 gap-3">
+          <div className="space-y-1">
+            <Label>Tipo</Label>
+            <Select
+              value={form.type}
+              onValueChange={(type) => updateForm({ type: type as DNSRecordType })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RECORD_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 col-span-2">
+            <Label htmlFor="dns-name">Nombre</Label>
+            <Input
+              id="dns-name"
+              value={form.name}
+              placeholder={form.type === 'SRV' ? `_sip._tcp.${domainName}` : domainName}
+              onChange={(e) => updateForm({ name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="dns-ttl">TTL (1 = auto)</Label>
+            <Input id="dns-ttl" type="number" value={form.ttl} onChange={(e) => updateForm({ ttl: e.target.value })} />
+          </div>
+        </div>
+
+        {renderTypeFields()}
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="dns-comment">Comentario</Label>
+            <Input id="dns-comment" value={form.comment} maxLength={100} onChange={(e) => updateForm({ comment: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="dns-tags">Etiquetas (nombre:valor, separadas por coma)</Label>
+            <Input id="dns-tags" value={form.tags} placeholder="env:prod, owner:web" onChange={(e) => updateForm({ tags: e.target.value })} />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          {PROXIABLE_TYPES.includes(form.type) ? (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="dns-proxied"
+                checked={form.proxied}
+                onCheckedChange={(checked) => updateForm({ proxied: checked === true })}
+              />
+              <Label htmlFor="dns-proxied">Con proxy de Cloudflare</Label>
+            </div>
+          ) : <div />}
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setEditingId(null)} disabled={actionLoading === 'save'}>
+              <X className="h-4 w-4" />
+              <span className="ml-1">Cancelar</span>
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={actionLoading !== null || !form.name.trim()}>
+              {actionLoading === 'save' ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4" />
+              )}
+              <span className="ml-1">Guardar</span>
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-6xl w-[90vw] max-h-[80vh] overflow-y-auto sm:max-w-6xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Globe className="h-5 w-5" />
+            Registros DNS: {domainName}
+          </DialogTitle>
+          <DialogDescription>
+            Crea, edita y elimina los registros DNS de este dominio
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+            <span className="ml-2">Cargando registros...</span>
+          </div>
+        ) : loadError ? (
+          <Alert>
+            <Info className="h-4 w-4" />
+            <AlertDescription>{loadError}</AlertDescription>
+          </Alert>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Select value={typeFilter} onValueChange={setTypeFilter}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos</SelectItem>
+                  {RECORD_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder="Buscar por nombre o contenido..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="max-w-sm"
+              />
+              <span className="text-sm text-muted-foreground">
+                {filteredRecords.length} de {records.length} registros
+              </span>
+              <Button variant="outline" size="sm" className="ml-auto" onClick={handleExport} disabled={actionLoading !== null}>
+                {actionLoading === 'export' ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Download className="h-4 w-4" />
+                )}
+                <span className="ml-1">Exportar</span>
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setImportOpen(true)} disabled={editingId !== null}>
+                <Upload className="h-4 w-4" />
+                <span className="ml-1">Importar</span>
+              </Button>
+              <Button size="sm" onClick={startCreate} disabled={editingId !== null}>
+                <Plus className="h-4 w-4" />
+                <span className="ml-1">Nuevo registro</span>
+              </Button>
+            </div>
+
+            {editingId !== null && renderForm()}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-20">Tipo</TableHead>
+                  <TableHead>Nombre</TableHead>
+                  <TableHead>Contenido</TableHead>
+                  <TableHead className="w-20">TTL</TableHead>
+                  <TableHead className="w-24">Proxy</TableHead>
+                  <TableHead className="w-24 text-right">Acciones</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredRecords.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-4 text-muted-foreground">
+                      No hay registros que coincidan
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredRecords.map(record => {
+                    const isManageable = RECORD_TYPES.includes(record.type as DNSRecordType);
+                    return (
+                      <TableRow key={record.id}>
+                        <TableCell>
+                          <Badge variant="outline" className="font-mono">{record.type}</Badge>
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {record.name}
+                          {record.comment && (
+                            <div className="text-muted-foreground font-sans">{record.comment}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs break-all max-w-md">
+                          {formatRecordContent(record)}
+                          {record.tags?.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {record.tags.map(tag => (
+                                <Badge key={tag} variant="secondary" className="text-xs font-sans">{tag}</Badge>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs">{record.ttl === 1 ? 'Auto' : record.ttl}</TableCell>
+                        <TableCell>
+                          {record.proxiable ? (
+                            <Badge variant={record.proxied ? 'default' : 'secondary'}>
+                              {record.proxied ? 'Con proxy' : 'Solo DNS'}
+                            </Badge>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">-</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-8 w-8 p-0"
+                              onClick={() => startEdit(record)}
+                              disabled={!isManageable || record.locked || editingId !== null || actionLoading !== null}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-8 w-8 p-0"
+                              onClick={() => handleDelete(record)}
+                              disabled={record.locked || actionLoading !== null}
+                            >
+                              {actionLoading === record.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Trash2 className="h-4 w-4" />
+                              )}
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <ZoneFileImportModal
+          isOpen={importOpen}
+          onClose={() => setImportOpen(false)}
+          zoneId={zoneId}
+          domainName={domainName}
+          onApplied={handleImportApplied}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
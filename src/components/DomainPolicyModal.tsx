@@ -0,0 +1,298 @@
+'use client';
+
+import { useState, useMemo, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Play, Tags, Plus, Minus, Info } from 'lucide-react';
+import { toast } from 'sonner';
+import { DomainPolicyReport } from '@/types/cloudflare';
+import { tokenStorage } from '@/lib/tokenStorage';
+import { computeDomainPolicy, getReconcilePlan, isPolicyCompliant, isPolicyManaged } from '@/lib/domainPolicy';
+import { useDomainStore } from '@/store/domainStore';
+import { useBulkOperation } from '@/hooks/useBulkOperation';
+import { BulkOperationProgressModal } from './BulkOperationProgressModal';
+
+interface DomainPolicyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+function parseTags(value: string): string[] {
+  return value
+    .split(',')
+    .map(tag => tag.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export function DomainPolicyModal({ isOpen, onClose }: DomainPolicyModalProps) {
+  const [tagInput, setTagInput] = useState('');
+  const [savingTags, setSavingTags] = useState(false);
+  const [onlySelected, setOnlySelected] = useState(false);
+  const [showCompliant, setShowCompliant] = useState(false);
+  const [showProgressModal, setShowProgressModal] = useState(false);
+  const { allDomains, selectedDomains, domainTags, ruleTemplates, loadPolicyData, setDomainTags } = useDomainStore();
+
+  const apiToken = tokenStorage.getToken() || '';
+
+  useEffect(() => {
+    if (isOpen) {
+      loadPolicyData();
+    }
+  }, [isOpen, loadPolicyData]);
+
+  const scopedDomains = useMemo(
+    () => onlySelected ? allDomains.filter(d => selectedDomains.has(d.domain)) : allDomains,
+    [allDomains, selectedDomains, onlySelected]
+  );
+
+  // Domains without analyzed rules can't be compared against the policy
+  const analyzedDomains = useMemo(
+    () => scopedDomains.filter(d => d.securityRules),
+    [scopedDomains]
+  );
+
+  const reports = useMemo<DomainPolicyReport[]>(
+    () => analyzedDomains.map(domain => computeDomainPolicy(ruleTemplates, {
+      zoneId: domain.zoneId,
+      domainName: domain.domain,
+      tags: domainTags[domain.zoneId] || [],
+      appliedRules: domain.securityRules?.templateRules || []
+    })),
+    [analyzedDomains, ruleTemplates, domainTags]
+  );
+
+  const pendingReports = useMemo(() => reports.filter(report => !isPolicyCompliant(report)), [reports]);
+  const visibleReports = showCompliant ? reports : pendingReports;
+  const managedTemplates = ruleTemplates.filter(isPolicyManaged).length;
+
+  const bulkOperation = useBulkOperation({
+    endpoint: '/api/domains/rules/bulk-action-stream',
+    apiToken,
+    onComplete: () => {
+      const { refreshMultipleDomains } = useDomainStore.getState();
+      refreshMultipleDomains(pendingReports.map(report => report.zoneId));
+    }
+  });
+
+  const updateTags = async (mode: 'add' | 'remove') => {
+    const tags = parseTags(tagInput);
+    const targets = allDomains
+      .filter(d => selectedDomains.has(d.domain))
+      .map(d => ({ zoneId: d.zoneId, domainName: d.domain }));
+    if (tags.length === 0 || targets.length === 0) return;
+
+    try {
+      setSavingTags(true);
+      const response = await fetch('/api/domains/tags', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          targets,
+          add: mode === 'add' ? tags : [],
+          remove: mode === 'remove' ? tags : []
+        })
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setDomainTags(result.data.domains);
+        setTagInput('');
+        toast.success(mode === 'add'
+          ? `Tags añadidos a ${targets.length} dominios`
+          : `Tags quitados de ${targets.length} dominios`);
+      } else {
+        toast.error(result.details?.[0]?.message || result.error || 'Error al actualizar los tags');
+      }
+    } catch (error) {
+      console.error('Error updating domain tags:', error);
+      toast.error('Error al actualizar los tags');
+    } finally {
+      setSavingTags(false);
+    }
+  };
+
+  const handleReview = () => {
+    bulkOperation.initializeDomains(
+      pendingReports.map(report => ({ zoneId: report.zoneId, domainName: report.domainName }))
+    );
+    setShowProgressModal(true);
+  };
+
+  const handleStartOperation = async () => {
+    const plan: Record<string, { add: string[]; remove: string[] }> = {};
+    pendingReports.forEach(report => {
+      plan[report.zoneId] = getReconcilePlan(report);
+    });
+
+    await bulkOperation.startCustomOperation('/api/domains/rules/bulk-action-stream', {
+      action: 'reconcile',
+      targetZoneIds: pendingReports.map(report => report.zoneId),
+      plan
+    });
+  };
+
+  const handleCloseProgress = () => {
+    setShowProgressModal(false);
+    bulkOperation.resetOperation();
+  };
+
+  const renderIds = (ids: string[], className: string) => (
+    <div className="flex gap-1 flex-wrap">
+      {ids.map(id => (
+        <Badge key={id} className={`text-xs font-mono text-white border-0 ${className}`}>{id}</Badge>
+      ))}
+    </div>
+  );
+
+  return (
+    <>
+      <Dialog open={isOpen && !showProgressModal} onOpenChange={onClose}>
+        <DialogContent className="max-w-6xl w-[90vw] max-h-[85vh] overflow-y-auto sm:max-w-6xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Tags className="h-5 w-5" />
+              Políticas por tags
+            </DialogTitle>
+            <DialogDescription>
+              Cada plantilla con tags aplicables se exige en los dominios que tengan alguno de esos tags y se retira del resto
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="policy-tags">Tags de los dominios seleccionados ({selectedDomains.size})</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="policy-tags"
+                  value={tagInput}
+                  placeholder="produccion, wordpress"
+                  onChange={(e) => setTagInput(e.target.value)}
+                  disabled={selectedDomains.size === 0}
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => updateTags('add')}
+                  disabled={savingTags || selectedDomains.size === 0 || parseTags(tagInput).length === 0}
+                >
+                  {savingTags ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                  <span className="ml-1">Añadir</span>
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => updateTags('remove')}
+                  disabled={savingTags || selectedDomains.size === 0 || parseTags(tagInput).length === 0}
+                >
+                  <Minus className="h-4 w-4" />
+                  <span className="ml-1">Quitar</span>
+                </Button>
+              </div>
+            </div>
+
+            {managedTemplates === 0 && (
+              <Alert>
+                <Info className="h-4 w-4" />
+                <AlertDescription>
+                  Ninguna plantilla tiene tags aplicables. Solo se retirarán las plantillas de los dominios excluidos.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex items-center gap-6">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="policy-only-selected"
+                  checked={onlySelected}
+                  disabled={selectedDomains.size === 0}
+                  onCheckedChange={(checked) => setOnlySelected(checked === true)}
+                />
+                <Label htmlFor="policy-only-selected">
+                  Solo dominios seleccionados ({selectedDomains.size})
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="policy-show-compliant"
+                  checked={showCompliant}
+                  onCheckedChange={(checked) => setShowCompliant(checked === true)}
+                />
+                <Label htmlFor="policy-show-compliant">Mostrar dominios que cumplen</Label>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between p-3 bg-muted rounded-lg text-sm">
+              <span>
+                {reports.length} dominios analizados, <strong>{pendingReports.length} con cambios pendientes</strong>
+                {scopedDomains.length > analyzedDomains.length && (
+                  <span className="text-muted-foreground"> ({scopedDomains.length - analyzedDomains.length} sin reglas analizadas)</span>
+                )}
+              </span>
+              <Button
+                size="sm"
+                onClick={handleReview}
+                disabled={pendingReports.length === 0}
+              >
+                <Play className="h-4 w-4" />
+                <span className="ml-1">Reconciliar</span>
+              </Button>
+            </div>
+
+            {visibleReports.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Dominio</TableHead>
+                    <TableHead>Tags</TableHead>
+                    <TableHead>Faltan</TableHead>
+                    <TableHead>Sobran</TableHead>
+                    <TableHead>Desactualizadas</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleReports.map(report => (
+                    <TableRow key={report.zoneId}>
+                      <TableCell className="font-medium">{report.domainName}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-1 flex-wrap">
+                          {report.tags.length === 0 && <span className="text-xs text-muted-foreground">Sin tags</span>}
+                          {report.tags.map(tag => (
+                            <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>{renderIds(report.missing, 'bg-red-500')}</TableCell>
+                      <TableCell>{renderIds(report.extra, 'bg-purple-500')}</TableCell>
+                      <TableCell>{renderIds(report.outdated, 'bg-amber-500')}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <BulkOperationProgressModal
+        isOpen={showProgressModal}
+        onClose={handleCloseProgress}
+        title={`Reconciliar políticas en ${pendingReports.length} dominios`}
+        domains={bulkOperation.domains}
+        onStart={handleStartOperation}
+        onCancel={bulkOperation.cancelOperation}
+        canCancel={bulkOperation.canCancel}
+        progress={bulkOperation.progress}
+        isStarted={bulkOperation.isStarted}
+        isCompleted={bulkOperation.isCompleted}
+        summary={bulkOperation.summary}
+        phase={bulkOperation.phase}
+      />
+    </>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { DomainStatus } from '@/types/cloudflare';
+import { useDomainStore } from '@/store/domainStore';
+import { computeDomainPolicy } from '@/lib/domainPolicy';
+
+interface DomainPolicyPillsProps {
+  domain: DomainStatus;
+}
+
+export function DomainPolicyPills({ domain }: DomainPolicyPillsProps) {
+  const tags = useDomainStore(state => state.domainTags[domain.zoneId]);
+  const templates = useDomainStore(state => state.ruleTemplates);
+
+  const report = useMemo(() => computeDomainPolicy(templates, {
+    zoneId: domain.zoneId,
+    domainName: domain.domain,
+    tags: tags || [],
+    appliedRules: domain.securityRules?.templateRules || []
+  }), [templates, tags, domain]);
+
+  // Rules are only known after an analysis; without them the report would list everything as missing
+  if (!domain.securityRules) return null;
+
+  const groups = [
+    { key: 'missing', label: 'Faltan', ids: report.missing, className: 'bg-red-500 hover:bg-red-600', description: 'Plantillas que sus tags requieren y no están aplicadas' },
+    { key: 'extra', label: 'Sobran', ids: report.extra, className: 'bg-purple-500 hover:bg-purple-600', description: 'Plantillas aplicadas que la política no permite en este dominio' },
+    { key: 'outdated', label: 'Desact.', ids: report.outdated, className: 'bg-amber-500 hover:bg-amber-600', description: 'Plantillas requeridas con una versión anterior' }
+  ].filter(group => group.ids.length > 0);
+
+  if (groups.length === 0) return null;
+
+  return (
+    <TooltipProvider>
+      <div className="flex gap-1 flex-wrap">
+        {groups.map(group => (
+          <Tooltip key={group.key}>
+            <TooltipTrigger asChild>
+              <Badge className={`text-xs h-6 rounded-full text-white border-0 ${group.className}`}>
+                {group.label} {group.ids.length}
+              </Badge>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>{group.description}</p>
+              <p className="text-xs font-mono">{group.ids.join(', ')}</p>
+              {report.tags.length > 0 && (
+                <p className="text-xs opacity-75">Tags: {report.tags.join(', ')}</p>
+              )}
+            </TooltipContent>
+          </Tooltip>
+        ))}
+      </div>
+    </TooltipProvider>
+  );
+}
@@ -6,9 +6,12 @@ import { TableCell, TableRow } from '@/components/ui/table';
 import { Checkbox } from '@/components/ui/checkbox';
 import { RulePillsDisplay } from './RulePill';
 import { DNSPills } from './DNSPills';
+import { ZoneSettingsPills } from './ZoneSettingsPills';
+import { DomainPolicyPills } from './DomainPolicyPills';
 import { FirewallControls } from './FirewallControls';
 import { Button } from '@/components/ui/button';
 import { RefreshCw } from 'lucide-react';
+import { PHASE_RULE_TYPES, getRulePhase } from '@/lib/rulePhases';
 
 interface DomainRowProps {
   domain: DomainStatus;
@@ -58,10 +61,14 @@ export const DomainRow = React.memo<DomainRowProps>(({
           domainVersion: rule.version,
           isUpdated: !rule.isOutdated,
           action: rule.action || 'unknown',
-          type: 'firewall_custom',
+          type: PHASE_RULE_TYPES[getRulePhase(rule)],
           expression: truncatedExpression,
           lastUpdated: new Date(domain.securityRules?.lastAnalyzed || Date.now()),
-          templateId: rule.friendlyId
+          templateId: rule.friendlyId,
+          ratelimit: rule.ratelimit,
+          redirect: rule.redirect,
+          rewrite: rule.rewrite,
+          managedRuleset: rule.managedRuleset
         };
       });
     }
@@ -79,11 +86,14 @@ export const DomainRow = React.memo<DomainRowProps>(({
       </TableCell>
       <TableCell className="font-medium">{domain.domain}</TableCell>
       <TableCell>
-        <DNSPills
-          domain={domain}
-          onToggleProxy={onToggleProxy}
-          updatingRecords={updatingRecords}
-        />
+        <div className="flex items-center gap-2 flex-wrap">
+          <DNSPills
+            domain={domain}
+            onToggleProxy={onToggleProxy}
+            updatingRecords={updatingRecords}
+          />
+          <ZoneSettingsPills zoneId={domain.zoneId} />
+        </div>
       </TableCell>
       <TableCell>
         <FirewallControls
@@ -95,10 +105,13 @@ export const DomainRow = React.memo<DomainRowProps>(({
         />
       </TableCell>
       <TableCell>
-        <RulePillsDisplay
-          rules={rulePills}
-          domainId={domain.zoneId}
-        />
+        <div className="flex items-center gap-2 flex-wrap">
+          <RulePillsDisplay
+            rules={rulePills}
+            domainId={domain.zoneId}
+          />
+          <DomainPolicyPills domain={domain} />
+        </div>
       </TableCell>
       <TableCell className="text-right">
         <Button
@@ -12,8 +12,10 @@ import { Loader2, Shield, Settings, AlertTriangle, Trash2, Info, Plus } from 'lu
 import { toast } from 'sonner';
 import { RuleTemplate } from '@/types/cloudflare';
 import { CollapsibleExpression } from './CollapsibleExpression';
+import { ManagedRulesetsCard } from './ManagedRulesetsCard';
 import { tokenStorage } from '@/lib/tokenStorage';
 import { useDomainStore } from '@/store/domainStore';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
 
 interface TemplateRule {
   friendlyId: string;
@@ -54,6 +56,7 @@ export function DomainRulesModal({ isOpen, onClose, zoneId, domainName }: Domain
   const [selectedTemplate, setSelectedTemplate] = useState<string>('');
   const [hasChanges, setHasChanges] = useState(false);
   const { refreshSingleDomain } = useDomainStore();
+  const { can } = useCurrentUser();
 
   const loadDomainRules = useCallback(async () => {
     if (!zoneId) return;
@@ -431,6 +434,7 @@ export function DomainRulesModal({ isOpen, onClose, zoneId, domainName }: Domain
               </div>
               
               <div className="flex gap-2">
+                {can('domains:write') && (
                 <div className="flex items-center gap-2 mr-2">
                   <Select value={selectedTemplate} onValueChange={setSelectedTemplate}>
                     <SelectTrigger className="w-32">
@@ -462,20 +466,25 @@ export function DomainRulesModal({ isOpen, onClose, zoneId, domainName }: Domain
                     <span className="ml-1">Aplicar</span>
                   </Button>
                 </div>
-                <Separator orientation="vertical" className="h-8" />
-                <Button
-                  variant="destructive"
-                  size="sm"
-                  onClick={handleCleanAllRules}
-                  disabled={totalRules === 0 || actionLoading !== null}
-                >
-                  {actionLoading === 'all' ? (
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                  ) : (
-                    <Trash2 className="h-4 w-4" />
-                  )}
-                  <span className="ml-1">Limpiar Todo</span>
-                </Button>
+                )}
+                {can('rules:destructive') && (
+                  <>
+                    <Separator orientation="vertical" className="h-8" />
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={handleCleanAllRules}
+                      disabled={totalRules === 0 || actionLoading !== null}
+                    >
+                      {actionLoading === 'all' ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="h-4 w-4" />
+                      )}
+                      <span className="ml-1">Limpiar Todo</span>
+                    </Button>
+                  </>
+                )}
               </div>
             </div>
 
@@ -510,19 +519,21 @@ export function DomainRulesModal({ isOpen, onClose, zoneId, domainName }: Domain
                         </div>
                         <div className="flex items-center gap-2">
                           <Badge>{rule.action}</Badge>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleDeleteIndividualRule(rule.cloudflareRuleId, rule.friendlyId, true)}
-                            disabled={actionLoading !== null}
-                            className="h-8 w-8 p-0"
-                          >
-                            {actionLoading === rule.cloudflareRuleId ? (
-                              <Loader2 className="h-4 w-4 animate-spin" />
-                            ) : (
-                              <Trash2 className="h-4 w-4" />
-                            )}
-                          </Button>
+                          {can('domains:write') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDeleteIndividualRule(rule.cloudflareRuleId, rule.friendlyId, true)}
+                              disabled={actionLoading !== null}
+                              className="h-8 w-8 p-0"
+                            >
+                              {actionLoading === rule.cloudflareRuleId ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Trash2 className="h-4 w-4" />
+                              )}
+                            </Button>
+                          )}
                         </div>
                       </div>
                       <CollapsibleExpression expression={rule.expression} />
@@ -561,19 +572,21 @@ export function DomainRulesModal({ isOpen, onClose, zoneId, domainName }: Domain
                         </div>
                         <div className="flex items-center gap-2">
                           <Badge variant="outline">{rule.action}</Badge>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleDeleteIndividualRule(rule.cloudflareRuleId, rule.description || 'custom', false)}
-                            disabled={actionLoading !== null}
-                            className="h-8 w-8 p-0"
-                          >
-                            {actionLoading === rule.cloudflareRuleId ? (
-                              <Loader2 className="h-4 w-4 animate-spin" />
-                            ) : (
-                              <Trash2 className="h-4 w-4" />
-                            )}
-                          </Button>
+                          {can('rules:destructive') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDeleteIndividualRule(rule.cloudflareRuleId, rule.description || 'custom', false)}
+                              disabled={actionLoading !== null}
+                              className="h-8 w-8 p-0"
+                            >
+                              {actionLoading === rule.cloudflareRuleId ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Trash2 className="h-4 w-4" />
+                              )}
+                            </Button>
+                          )}
                         </div>
                       </div>
                       <CollapsibleExpression expression={rule.expression} />
@@ -583,6 +596,8 @@ export function DomainRulesModal({ isOpen, onClose, zoneId, domainName }: Domain
               </CardContent>
             </Card>
 
+            {zoneId && <ManagedRulesetsCard zoneId={zoneId} />}
+
             {domainHasConflicts && (
               <Card>
                 <CardHeader>
@@ -1,15 +1,24 @@
 'use client';
 
-import { Globe, RefreshCw } from 'lucide-react';
+import { useState } from 'react';
+import { Bell, Globe, ListChecks, ListTodo, RefreshCw, Replace, SlidersHorizontal, Tags } from 'lucide-react';
 import { CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Loader2 } from 'lucide-react';
+import { OriginMigrationModal } from './OriginMigrationModal';
+import { ZoneSettingsProfilesModal } from './ZoneSettingsProfilesModal';
+import { DomainPolicyModal } from './DomainPolicyModal';
+import { IPListsModal } from './IPListsModal';
+import { JobsPanel } from './JobsPanel';
+import { NotificationsModal } from './NotificationsModal';
+import { useBulkJobs } from '@/hooks/useBulkJobs';
 
 interface DomainTableHeaderProps {
   totalCount: number;
   processedCount: number;
   loading: boolean;
   isBackgroundRefreshing: boolean;
+  lastUpdate: Date | null;
   onRefresh: () => void;
 }
 
@@ -18,8 +27,17 @@ export function DomainTableHeader({
   processedCount,
   loading,
   isBackgroundRefreshing,
+  lastUpdate,
   onRefresh,
 }: DomainTableHeaderProps) {
+  const [showOriginMigration, setShowOriginMigration] = useState(false);
+  const [showSettingsProfiles, setShowSettingsProfiles] = useState(false);
+  const [showPolicies, setShowPolicies] = useState(false);
+  const [showIPLists, setShowIPLists] = useState(false);
+  const [showJobs, setShowJobs] = useState(false);
+  const [showNotifications, setShowNotifications] = useState(false);
+  const bulkJobs = useBulkJobs();
+
   const formatLastUpdate = (date: Date) => {
     return date.toLocaleString('es-ES', {
       hour: '2-digit',
@@ -40,6 +58,63 @@ export function DomainTableHeader({
         </CardTitle>
         <div className="flex flex-col items-end gap-1">
           <div className="flex items-center gap-1">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                bulkJobs.loadJobs();
+                setShowJobs(true);
+              }}
+            >
+              {bulkJobs.activeCount > 0
+                ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                : <ListTodo className="h-4 w-4 mr-2" />}
+              Trabajos{bulkJobs.activeCount > 0 ? ` (${bulkJobs.activeCount})` : ''}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowPolicies(true)}
+              disabled={loading || totalCount === 0}
+            >
+              <Tags className="h-4 w-4 mr-2" />
+              Políticas por tags
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowIPLists(true)}
+              disabled={loading}
+            >
+              <ListChecks className="h-4 w-4 mr-2" />
+              Listas de IPs
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowNotifications(true)}
+            >
+              <Bell className="h-4 w-4 mr-2" />
+              Alertas
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowSettingsProfiles(true)}
+              disabled={loading}
+            >
+              <SlidersHorizontal className="h-4 w-4 mr-2" />
+              Perfiles de ajustes
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowOriginMigration(true)}
+              disabled={loading || totalCount === 0}
+            >
+              <Replace className="h-4 w-4 mr-2" />
+              Migrar IP de origen
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -53,11 +128,59 @@ export function DomainTableHeader({
           <div className="flex items-center gap-2 h-4">
             {isBackgroundRefreshing && <Loader2 className="h-3 w-3 animate-spin" />}
             <span className="text-xs text-muted-foreground">
-              Últ. actualización: {formatLastUpdate(new Date())}
+              Últ. actualización: {lastUpdate ? formatLastUpdate(lastUpdate) : '—'}
             </span>
           </div>
         </div>
       </div>
+
+      {showOriginMigration && (
+        <OriginMigrationModal
+          isOpen={showOriginMigration}
+          onClose={() => setShowOriginMigration(false)}
+        />
+      )}
+
+      {showSettingsProfiles && (
+        <ZoneSettingsProfilesModal
+          isOpen={showSettingsProfiles}
+          onClose={() => setShowSettingsProfiles(false)}
+        />
+      )}
+
+      {showIPLists && (
+        <IPListsModal
+          isOpen={showIPLists}
+          onClose={() => setShowIPLists(false)}
+        />
+      )}
+
+      {showJobs && (
+        <JobsPanel
+          isOpen={showJobs}
+          onClose={() => setShowJobs(false)}
+          jobs={bulkJobs.jobs}
+          loading={bulkJobs.loading}
+          onRefresh={bulkJobs.loadJobs}
+          onCancel={bulkJobs.cancelJob}
+          onResume={bulkJobs.resumeJob}
+          onClearFinished={bulkJobs.clearFinished}
+        />
+      )}
+
+      {showNotifications && (
+        <NotificationsModal
+          isOpen={showNotifications}
+          onClose={() => setShowNotifications(false)}
+        />
+      )}
+
+      {showPolicies && (
+        <DomainPolicyModal
+          isOpen={showPolicies}
+          onClose={() => setShowPolicies(false)}
+        />
+      )}
     </CardHeader>
   );
 }
\ No newline at end of file
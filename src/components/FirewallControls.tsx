@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Siren, Bot } from 'lucide-react';
 import { DomainStatus } from '@/types/cloudflare';
+import { missingCapabilityMessage, useTokenCapabilities } from '@/hooks/useTokenCapabilities';
 
 interface FirewallControlsProps {
   domain: DomainStatus;
@@ -22,6 +23,10 @@ export function FirewallControls({
   updatingUnderAttack = false,
   updatingBotFight = false
 }: FirewallControlsProps) {
+  const { isDenied } = useTokenCapabilities();
+  const underAttackDenied = isDenied(domain.zoneId, 'zoneSettingsEdit');
+  const botFightDenied = isDenied(domain.zoneId, 'botManagement');
+
   return (
     <TooltipProvider>
       <div className="flex gap-1">
@@ -31,7 +36,7 @@ export function FirewallControls({
               size="sm"
               variant="ghost"
               onClick={() => onToggleUnderAttack?.(domain.zoneId, !domain.underAttackMode)}
-              disabled={isUpdating || updatingUnderAttack}
+              disabled={isUpdating || updatingUnderAttack || underAttackDenied}
               className={`w-8 h-8 p-0 ${
                 updatingUnderAttack
                   ? 'text-yellow-500'
@@ -50,6 +55,7 @@ export function FirewallControls({
                 : `Under Attack Mode: ${domain.underAttackMode ? 'Activo' : 'Inactivo'}`
               }
             </p>
+            {underAttackDenied && <p className="text-xs opacity-75">{missingCapabilityMessage('zoneSettingsEdit')}</p>}
           </TooltipContent>
         </Tooltip>
 
@@ -59,7 +65,7 @@ export function FirewallControls({
               size="sm"
               variant="ghost"
               onClick={() => onToggleBotFight?.(domain.zoneId, !domain.botFightMode)}
-              disabled={isUpdating || updatingBotFight}
+              disabled={isUpdating || updatingBotFight || botFightDenied}
               className={`w-8 h-8 p-0 ${
                 updatingBotFight
                   ? 'text-yellow-500'
@@ -78,6 +84,7 @@ export function FirewallControls({
                 : `Bot Fight Mode: ${domain.botFightMode ? 'Activo' : 'Inactivo'}`
               }
             </p>
+            {botFightDenied && <p className="text-xs opacity-75">{missingCapabilityMessage('botManagement')}</p>}
           </TooltipContent>
         </Tooltip>
       </div>
@@ -0,0 +1,824 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ListChecks, Loader2, Plus, ScanSearch, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { tokenStorage } from '@/lib/tokenStorage';
+import { parseIPListCsv } from '@/lib/ipLists';
+import { RULE_PHASE_LABELS, isTemplateRulePhase } from '@/lib/rulePhases';
+import { useDomainStore } from '@/store/domainStore';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import {
+  CloudflareAccount,
+  CloudflareIPAccessRule,
+  CloudflareIPList,
+  CloudflareIPListItem,
+  IPAccessRuleMode,
+  IPAccessRuleTarget,
+  IPListUsage
+} from '@/types/cloudflare';
+
+const ACCESS_RULE_MODES: Array<{ value: IPAccessRuleMode; label: string }> = [
+  { value: 'block', label: 'Bloquear' },
+  { value: 'managed_challenge', label: 'Managed Challenge' },
+  { value: 'challenge', label: 'Challenge' },
+  { value: 'js_challenge', label: 'JS Challenge' },
+  { value: 'whitelist', label: 'Permitir' }
+];
+
+const ACCESS_RULE_TARGETS: Array<{ value: IPAccessRuleTarget; label: string; placeholder: string }> = [
+  { value: 'ip', label: 'IPv4', placeholder: '203.0.113.10' },
+  { value: 'ip6', label: 'IPv6', placeholder: '2001:db8::1' },
+  { value: 'ip_range', label: 'Rango IP', placeholder: '203.0.113.0/24' },
+  { value: 'asn', label: 'ASN', placeholder: 'AS13335' },
+  { value: 'country', label: 'País', placeholder: 'CN' }
+];
+
+interface IPListsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Request helper: every endpoint of this modal needs the API token header
+ */
+async function requestWithToken(url: string, init: RequestInit = {}) {
+  const apiToken = tokenStorage.getToken();
+  if (!apiToken) {
+    throw new Error('No hay token de API configurado');
+  }
+
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-token': apiToken,
+      ...init.headers
+    }
+  });
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.details?.[0]?.message || result.error || 'Error en la petición');
+  }
+  return result.data;
+}
+
+export function IPListsModal({ isOpen, onClose }: IPListsModalProps) {
+  const { allDomains, selectedDomains } = useDomainStore();
+  const { can } = useCurrentUser();
+
+  // Account lists
+  const [accounts, setAccounts] = useState<CloudflareAccount[]>([]);
+  const [accountId, setAccountId] = useState<string>('');
+  const [lists, setLists] = useState<CloudflareIPList[]>([]);
+  const [selectedListId, setSelectedListId] = useState<string | null>(null);
+  const [items, setItems] = useState<CloudflareIPListItem[]>([]);
+  const [selectedItemIds, setSelectedItemIds] = useState<Set<string>>(new Set());
+  const [loadingLists, setLoadingLists] = useState(false);
+  const [loadingItems, setLoadingItems] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [newList, setNewList] = useState({ name: '', description: '' });
+  const [newItem, setNewItem] = useState({ ip: '', comment: '' });
+  const [itemFilter, setItemFilter] = useState('');
+  const [csvText, setCsvText] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Zone IP access rules
+  const [accessZoneId, setAccessZoneId] = useState<string>('');
+  const [accessRules, setAccessRules] = useState<CloudflareIPAccessRule[]>([]);
+  const [loadingAccessRules, setLoadingAccessRules] = useState(false);
+  const [newAccessRule, setNewAccessRule] = useState<{ mode: IPAccessRuleMode; target: IPAccessRuleTarget; value: string; notes: string }>({
+    mode: 'block',
+    target: 'ip',
+    value: '',
+    notes: ''
+  });
+
+  // List usage across zones
+  const [usage, setUsage] = useState<IPListUsage[] | null>(null);
+  const [failedZones, setFailedZones] = useState<string[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [onlySelected, setOnlySelected] = useState(false);
+
+  const selectedList = lists.find(list => list.id === selectedListId) || null;
+  const csvPreview = useMemo(() => csvText.trim() ? parseIPListCsv(csvText) : null, [csvText]);
+
+  const filteredItems = useMemo(() => {
+    const filter = itemFilter.trim().toLowerCase();
+    if (!filter) return items;
+    return items.filter(item => item.ip.includes(filter) || item.comment?.toLowerCase().includes(filter));
+  }, [items, itemFilter]);
+
+  const usageTargets = useMemo(() => {
+    const domains = onlySelected
+      ? allDomains.filter(d => selectedDomains.has(d.domain))
+      : allDomains;
+    return domains.map(d => ({ zoneId: d.zoneId, domainName: d.domain }));
+  }, [allDomains, selectedDomains, onlySelected]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadLists();
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (accessZoneId) {
+      loadAccessRules(accessZoneId);
+    }
+  }, [accessZoneId]);
+
+  const loadLists = async (requestedAccountId?: string) => {
+    try {
+      setLoadingLists(true);
+      const query = requestedAccountId ? `?accountId=${requestedAccountId}` : '';
+      const data = await requestWithToken(`/api/ip-lists${query}`);
+      setAccounts(data.accounts);
+      setAccountId(data.accountId);
+      setLists(data.lists);
+    } catch (error) {
+      console.error('Error loading IP lists:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al cargar las listas de IPs');
+    } finally {
+      setLoadingLists(false);
+    }
+  };
+
+  const selectList = async (list: CloudflareIPList) => {
+    setSelectedListId(list.id);
+    setSelectedItemIds(new Set());
+    setItemFilter('');
+    setCsvText('');
+    await loadItems(list.id);
+  };
+
+  const loadItems = async (listId: string) => {
+    try {
+      setLoadingItems(true);
+      const data = await requestWithToken(`/api/ip-lists/${listId}?accountId=${accountId}`);
+      setItems(data.items);
+    } catch (error) {
+      console.error('Error loading IP list items:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al cargar los elementos de la lista');
+    } finally {
+      setLoadingItems(false);
+    }
+  };
+
+  const handleCreateList = async () => {
+    try {
+      setSaving(true);
+      const list = await requestWithToken('/api/ip-lists', {
+        method: 'POST',
+        body: JSON.stringify({
+          accountId,
+          name: newList.name.trim(),
+          description: newList.description.trim() || undefined
+        })
+      });
+      toast.success(`Lista $${list.name} creada`);
+      setNewList({ name: '', description: '' });
+      await loadLists(accountId);
+      await selectList(list);
+    } catch (error) {
+      console.error('Error creating IP list:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al crear la lista');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteList = async () => {
+    if (!selectedList || !confirm(`¿Eliminar la lista $${selectedList.name} y sus ${selectedList.num_items} elementos?`)) return;
+
+    try {
+      setSaving(true);
+      await requestWithToken(`/api/ip-lists/${selectedList.id}?accountId=${accountId}`, { method: 'DELETE' });
+      toast.success('Lista eliminada');
+      setSelectedListId(null);
+      setItems([]);
+      await loadLists(accountId);
+    } catch (error) {
+      console.error('Error deleting IP list:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al eliminar la lista (¿sigue en uso en alguna regla?)');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addItems = async (newItems: Array<{ ip: string; comment?: string }>) => {
+    if (!selectedList) return false;
+
+    try {
+      setSaving(true);
+      const data = await requestWithToken(`/api/ip-lists/${selectedList.id}/items`, {
+        method: 'POST',
+        body: JSON.stringify({ accountId, items: newItems })
+      });
+      toast.success(`${data.added} elementos añadidos a $${selectedList.name}`);
+      await Promise.all([loadItems(selectedList.id), loadLists(accountId)]);
+      return true;
+    } catch (error) {
+      console.error('Error adding IP list items:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al añadir elementos');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddItem = async () => {
+    const added = await addItems([{ ip: newItem.ip.trim(), comment: newItem.comment.trim() || undefined }]);
+    if (added) {
+      setNewItem({ ip: '', comment: '' });
+    }
+  };
+
+  const handleImportCsv = async () => {
+    if (!csvPreview || csvPreview.items.length === 0) return;
+    const added = await addItems(csvPreview.items);
+    if (added) {
+      setCsvText('');
+    }
+  };
+
+  const handleCsvFile = async (file: File | undefined) => {
+    if (!file) return;
+    setCsvText(await file.text());
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleRemoveItems = async () => {
+    if (!selectedList || selectedItemIds.size === 0) return;
+    if (!confirm(`¿Quitar ${selectedItemIds.size} elementos de $${selectedList.name}?`)) return;
+
+    try {
+      setSaving(true);
+      await requestWithToken(`/api/ip-lists/${selectedList.id}/items`, {
+        method: 'DELETE',
+        body: JSON.stringify({ accountId, itemIds: [...selectedItemIds] })
+      });
+      toast.success(`${selectedItemIds.size} elementos eliminados`);
+      setSelectedItemIds(new Set());
+      await Promise.all([loadItems(selectedList.id), loadLists(accountId)]);
+    } catch (error) {
+      console.error('Error removing IP list items:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al eliminar elementos');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleItem = (itemId: string, checked: boolean) => {
+    setSelectedItemIds(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(itemId);
+      } else {
+        next.delete(itemId);
+      }
+      return next;
+    });
+  };
+
+  const loadAccessRules = async (zoneId: string) => {
+    try {
+      setLoadingAccessRules(true);
+      const data = await requestWithToken(`/api/domains/access-rules/${zoneId}`);
+      setAccessRules(data.rules);
+    } catch (error) {
+      console.error('Error loading IP access rules:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al cargar las reglas de acceso');
+      setAccessRules([]);
+    } finally {
+      setLoadingAccessRules(false);
+    }
+  };
+
+  const handleCreateAccessRule = async () => {
+    if (!accessZoneId) return;
+
+    try {
+      setSaving(true);
+      await requestWithToken(`/api/domains/access-rules/${accessZoneId}`, {
+        method: 'POST',
+        body: JSON.stringify({
+          mode: newAccessRule.mode,
+          target: newAccessRule.target,
+          value: newAccessRule.value.trim(),
+          notes: newAccessRule.notes.trim() || undefined
+        })
+      });
+      toast.success('Regla de acceso creada');
+      setNewAccessRule(prev => ({ ...prev, value: '', notes: '' }));
+      await loadAccessRules(accessZoneId);
+    } catch (error) {
+      console.error('Error creating IP access rule:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al crear la regla de acceso');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteAccessRule = async (rule: CloudflareIPAccessRule) => {
+    if (!confirm(`¿Eliminar la regla para ${rule.configuration.value}?`)) return;
+
+    try {
+      await requestWithToken(`/api/domains/access-rules/${accessZoneId}/${rule.id}`, { method: 'DELETE' });
+      toast.success('Regla de acceso eliminada');
+      await loadAccessRules(accessZoneId);
+    } catch (error) {
+      console.error('Error deleting IP access rule:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al eliminar la regla de acceso');
+    }
+  };
+
+  const handleScanUsage = async () => {
+    if (usageTargets.length === 0) {
+      toast.error('No hay dominios para analizar');
+      return;
+    }
+
+    try {
+      setScanning(true);
+      const data = await requestWithToken('/api/ip-lists/usage', {
+        method: 'POST',
+        body: JSON.stringify({ accountId, targets: usageTargets })
+      });
+      setUsage(data.usage);
+      setFailedZones(data.failedZones);
+      toast.success(`Análisis completado en ${data.scannedZones} dominios`);
+    } catch (error) {
+      console.error('Error scanning IP list usage:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al analizar el uso de las listas');
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const accessTarget = ACCESS_RULE_TARGETS.find(target => target.value === newAccessRule.target)!;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-6xl w-[92vw] max-h-[88vh] overflow-y-auto sm:max-w-6xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Listas de IPs y reglas de acceso
+          </DialogTitle>
+          <DialogDescription>
+            Gestiona las listas de IPs de la cuenta (se usan en las expresiones como <code>$nombre_lista</code>), las reglas de acceso por IP de cada zona y dónde se usa cada lista
+          </DialogDescription>
+        </DialogHeader>
+
+        {accounts.length > 1 && (
+          <div className="flex items-center gap-2">
+            <Label>Cuenta</Label>
+            <Select
+              value={accountId}
+              onValueChange={(value) => {
+                setSelectedListId(null);
+                setItems([]);
+                setUsage(null);
+                loadLists(value);
+              }}
+            >
+              <SelectTrigger className="w-72">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts.map(account => (
+                  <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <Tabs defaultValue="lists">
+          <TabsList>
+            <TabsTrigger value="lists">Listas de la cuenta</TabsTrigger>
+            <TabsTrigger value="access-rules">Reglas de acceso por zona</TabsTrigger>
+            <TabsTrigger value="usage">Uso en zonas</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="lists" className="mt-4">
+            <div className="grid grid-cols-[240px_1fr] gap-4">
+              <div className="space-y-2 border-r pr-4">
+                {loadingLists ? (
+                  <div className="flex justify-center py-4">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  </div>
+                ) : lists.length === 0 ? (
+                  <p className="text-xs text-muted-foreground text-center py-4">No hay listas de IPs</p>
+                ) : (
+                  lists.map(list => (
+                    <button
+                      key={list.id}
+                      onClick={() => selectList(list)}
+                      className={`w-full text-left p-2 rounded-md text-sm hover:bg-muted ${selectedListId === list.id ? 'bg-muted font-medium' : ''}`}
+                    >
+                      <div className="font-mono">${list.name}</div>
+                      <div className="text-xs text-muted-foreground">{list.num_items} elementos</div>
+                    </button>
+                  ))
+                )}
+
+                <div className="space-y-2 border-t pt-3">
+                  <Label htmlFor="ip-list-name">Nueva lista</Label>
+                  <Input
+                    id="ip-list-name"
+                    value={newList.name}
+                    placeholder="ips_bloqueadas"
+                    className="font-mono"
+                    onChange={(e) => setNewList({ ...newList, name: e.target.value.toLowerCase() })}
+                  />
+                  <Input
+                    value={newList.description}
+                    placeholder="Descripción"
+                    onChange={(e) => setNewList({ ...newList, description: e.target.value })}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                    onClick={handleCreateList}
+                    disabled={saving || !accountId || !newList.name.trim()}
+                  >
+                    <Plus className="h-4 w-4" />
+                    <span className="ml-1">Crear lista</span>
+                  </Button>
+                </div>
+              </div>
+
+              {!selectedList ? (
+                <div className="flex items-center justify-center text-sm text-muted-foreground py-12">
+                  Selecciona una lista para ver y editar sus elementos
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <div className="font-mono font-medium">${selectedList.name}</div>
+                      {selectedList.description && (
+                        <div className="text-xs text-muted-foreground">{selectedList.description}</div>
+                      )}
+                      <div className="text-xs text-muted-foreground mt-1">
+                        Úsala en una plantilla con <code>ip.src in ${selectedList.name}</code>
+                      </div>
+                    </div>
+                    {can('rules:destructive') && (
+                      <Button variant="outline" size="sm" onClick={handleDeleteList} disabled={saving}>
+                        <Trash2 className="h-4 w-4" />
+                        <span className="ml-1">Eliminar lista</span>
+                      </Button>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+                    <div className="space-y-1">
+                      <Label htmlFor="ip-list-item-ip">IP o rango CIDR</Label>
+                      <Input
+                        id="ip-list-item-ip"
+                        value={newItem.ip}
+                        placeholder="203.0.113.0/24"
+                        className="font-mono"
+                        onChange={(e) => setNewItem({ ...newItem, ip: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="ip-list-item-comment">Comentario</Label>
+                      <Input
+                        id="ip-list-item-comment"
+                        value={newItem.comment}
+                        placeholder="Scanner detectado el 12/03"
+                        onChange={(e) => setNewItem({ ...newItem, comment: e.target.value })}
+                      />
+                    </div>
+                    <Button size="sm" onClick={handleAddItem} disabled={saving || !newItem.ip.trim()}>
+                      {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                      <span className="ml-1">Añadir</span>
+                    </Button>
+                  </div>
+
+                  <div className="space-y-2 rounded-lg border p-3">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="ip-list-csv">Importar CSV (ip,comentario por línea)</Label>
+                      <div>
+                        <input
+                          ref={fileInputRef}
+                          type="file"
+                          accept=".csv,.txt,text/csv,text/plain"
+                          className="hidden"
+                          onChange={(e) => handleCsvFile(e.target.files?.[0])}
+                        />
+                        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                          <Upload className="h-4 w-4" />
+                          <span className="ml-1">Cargar archivo</span>
+                        </Button>
+                      </div>
+                    </div>
+                    <Textarea
+                      id="ip-list-csv"
+                      value={csvText}
+                      placeholder={'ip,comentario\n198.51.100.7,Bot de scraping\n2001:db8::/32,Red de pruebas'}
+                      className="font-mono text-xs h-24"
+                      onChange={(e) => setCsvText(e.target.value)}
+                    />
+                    {csvPreview && (
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="text-xs space-y-1">
+                          <div>{csvPreview.items.length} elementos válidos</div>
+                          {csvPreview.errors.slice(0, 5).map(error => (
+                            <div key={error.line} className="text-red-600">
+                              Línea {error.line} ({error.value}): {error.message}
+                            </div>
+                          ))}
+                          {csvPreview.errors.length > 5 && (
+                            <div className="text-red-600">y {csvPreview.errors.length - 5} errores más</div>
+                          )}
+                        </div>
+                        <Button size="sm" onClick={handleImportCsv} disabled={saving || csvPreview.items.length === 0}>
+                          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                          <span className="ml-1">Importar {csvPreview.items.length}</span>
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex items-center justify-between gap-2">
+                    <Input
+                      value={itemFilter}
+                      placeholder="Filtrar por IP o comentario"
+                      className="max-w-xs"
+                      onChange={(e) => setItemFilter(e.target.value)}
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleRemoveItems}
+                      disabled={saving || selectedItemIds.size === 0}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="ml-1">Quitar seleccionados ({selectedItemIds.size})</span>
+                    </Button>
+                  </div>
+
+                  {loadingItems ? (
+                    <div className="flex justify-center py-6">
+                      <Loader2 className="h-5 w-5 animate-spin" />
+                    </div>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-8">
+                            <Checkbox
+                              checked={filteredItems.length > 0 && filteredItems.every(item => selectedItemIds.has(item.id))}
+                              onCheckedChange={(checked) => setSelectedItemIds(checked === true ? new Set(filteredItems.map(item => item.id)) : new Set())}
+                            />
+                          </TableHead>
+                          <TableHead>IP / rango</TableHead>
+                          <TableHead>Comentario</TableHead>
+                          <TableHead>Modificado</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {filteredItems.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={4} className="text-center text-sm text-muted-foreground">
+                              La lista está vacía
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          filteredItems.map(item => (
+                            <TableRow key={item.id}>
+                              <TableCell>
+                                <Checkbox
+                                  checked={selectedItemIds.has(item.id)}
+                                  onCheckedChange={(checked) => toggleItem(item.id, checked === true)}
+                                />
+                              </TableCell>
+                              <TableCell className="font-mono text-xs">{item.ip}</TableCell>
+                              <TableCell className="text-xs">{item.comment}</TableCell>
+                              <TableCell className="text-xs text-muted-foreground">
+                                {new Date(item.modified_on).toLocaleString('es-ES')}
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="access-rules" className="mt-4 space-y-4">
+            <div className="flex items-center gap-2">
+              <Label>Dominio</Label>
+              <Select value={accessZoneId} onValueChange={setAccessZoneId}>
+                <SelectTrigger className="w-72">
+                  <SelectValue placeholder="Selecciona un dominio" />
+                </SelectTrigger>
+                <SelectContent>
+                  {allDomains.map(domain => (
+                    <SelectItem key={domain.zoneId} value={domain.zoneId}>{domain.domain}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {accessZoneId && (
+              <>
+                <div className="grid grid-cols-[170px_130px_1fr_1fr_auto] gap-2 items-end">
+                  <div className="space-y-1">
+                    <Label>Acción</Label>
+                    <Select
+                      value={newAccessRule.mode}
+                      onValueChange={(value) => setNewAccessRule({ ...newAccessRule, mode: value as IPAccessRuleMode })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ACCESS_RULE_MODES.map(mode => (
+                          <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Tipo</Label>
+                    <Select
+                      value={newAccessRule.target}
+                      onValueChange={(value) => setNewAccessRule({ ...newAccessRule, target: value as IPAccessRuleTarget })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ACCESS_RULE_TARGETS.map(target => (
+                          <SelectItem key={target.value} value={target.value}>{target.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="access-rule-value">Valor</Label>
+                    <Input
+                      id="access-rule-value"
+                      value={newAccessRule.value}
+                      placeholder={accessTarget.placeholder}
+                      className="font-mono"
+                      onChange={(e) => setNewAccessRule({ ...newAccessRule, value: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="access-rule-notes">Notas</Label>
+                    <Input
+                      id="access-rule-notes"
+                      value={newAccessRule.notes}
+                      onChange={(e) => setNewAccessRule({ ...newAccessRule, notes: e.target.value })}
+                    />
+                  </div>
+                  <Button size="sm" onClick={handleCreateAccessRule} disabled={saving || !newAccessRule.value.trim()}>
+                    {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                    <span className="ml-1">Crear</span>
+                  </Button>
+                </div>
+
+                {loadingAccessRules ? (
+                  <div className="flex justify-center py-6">
+                    <Loader2 className="h-5 w-5 animate-spin" />
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Acción</TableHead>
+                        <TableHead>Valor</TableHead>
+                        <TableHead>Notas</TableHead>
+                        <TableHead>Ámbito</TableHead>
+                        <TableHead className="w-12" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {accessRules.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={5} className="text-center text-sm text-muted-foreground">
+                            Este dominio no tiene reglas de acceso por IP
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        accessRules.map(rule => (
+                          <TableRow key={rule.id}>
+                            <TableCell>
+                              <Badge variant={rule.mode === 'whitelist' ? 'secondary' : 'destructive'} className="text-xs">
+                                {ACCESS_RULE_MODES.find(mode => mode.value === rule.mode)?.label || rule.mode}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="font-mono text-xs">{rule.configuration.value}</TableCell>
+                            <TableCell className="text-xs">{rule.notes}</TableCell>
+                            <TableCell className="text-xs text-muted-foreground">
+                              {rule.scope?.type === 'zone' || !rule.scope ? 'Zona' : 'Cuenta'}
+                            </TableCell>
+                            <TableCell>
+                              {/* Account level rules are inherited and can only be deleted from the account */}
+                              {(rule.scope?.type === 'zone' || !rule.scope) && (
+                                <Button variant="ghost" size="sm" onClick={() => handleDeleteAccessRule(rule)}>
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                )}
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="usage" className="mt-4 space-y-4">
+            <div className="flex items-center gap-3">
+              <Button variant="outline" size="sm" onClick={handleScanUsage} disabled={scanning || !accountId}>
+                {scanning ? <Loader2 className="h-4 w-4 animate-spin" /> : <ScanSearch className="h-4 w-4" />}
+                <span className="ml-1">Analizar {usageTargets.length} dominios</span>
+              </Button>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="ip-list-usage-selected"
+                  checked={onlySelected}
+                  disabled={selectedDomains.size === 0}
+                  onCheckedChange={(checked) => setOnlySelected(checked === true)}
+                />
+                <Label htmlFor="ip-list-usage-selected">Solo seleccionados ({selectedDomains.size})</Label>
+              </div>
+            </div>
+
+            {failedZones.length > 0 && (
+              <p className="text-xs text-red-600">No se pudieron leer las reglas de: {failedZones.join(', ')}</p>
+            )}
+
+            {usage === null ? (
+              <p className="text-sm text-muted-foreground">
+                Analiza las reglas de los dominios para ver qué plantillas y reglas hacen referencia a cada lista
+              </p>
+            ) : usage.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No hay listas en la cuenta ni referencias en las reglas</p>
+            ) : (
+              <div className="space-y-3">
+                {usage.map(entry => (
+                  <div key={entry.listName} className="rounded-lg border p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono font-medium">${entry.listName}</span>
+                      {!lists.some(list => list.name === entry.listName) && (
+                        <Badge variant="outline" className="text-xs">No pertenece a la cuenta</Badge>
+                      )}
+                      {entry.templates.length === 0 && entry.zones.length === 0 && (
+                        <Badge variant="secondary" className="text-xs">Sin uso</Badge>
+                      )}
+                    </div>
+                    {entry.templates.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-1 text-xs">
+                        <span className="text-muted-foreground">Plantillas:</span>
+                        {entry.templates.map(template => (
+                          <Badge key={template.friendlyId} variant="outline" className="text-xs">
+                            {template.friendlyId} {template.name}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                    {entry.zones.map(zone => (
+                      <div key={zone.zoneId} className="text-xs">
+                        <span className="font-medium">{zone.domainName}</span>
+                        <span className="text-muted-foreground">
+                          {' '}• {zone.rules.map(rule => `${rule.description || 'Sin descripción'} (${isTemplateRulePhase(rule.phase) ? RULE_PHASE_LABELS[rule.phase] : rule.phase}${rule.enabled ? '' : ', desactivada'})`).join(' • ')}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,237 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChevronDown, ChevronRight, Loader2, Play, RefreshCw, RotateCcw, Square, Trash2 } from 'lucide-react';
+import { isActiveJob } from '@/hooks/useBulkJobs';
+import type { BulkJobView } from '@/lib/jobQueue';
+import type { BulkJobStatus, BulkJobTargetStatus } from '@/types/cloudflare';
+
+const JOB_STATUS_LABELS: Record<BulkJobStatus, { label: string; className: string }> = {
+  queued: { label: 'En cola', className: 'bg-gray-100 text-gray-700 border-gray-300' },
+  running: { label: 'En curso', className: 'bg-blue-100 text-blue-700 border-blue-300' },
+  interrupted: { label: 'Interrumpido', className: 'bg-orange-100 text-orange-700 border-orange-300' },
+  completed: { label: 'Completado', className: 'bg-green-100 text-green-700 border-green-300' },
+  failed: { label: 'Fallido', className: 'bg-red-100 text-red-700 border-red-300' },
+  cancelled: { label: 'Cancelado', className: 'bg-gray-100 text-gray-500 border-gray-300' }
+};
+
+const TARGET_STATUS_LABELS: Record<BulkJobTargetStatus, { label: string; className: string }> = {
+  pending: { label: 'Pendiente', className: 'text-muted-foreground' },
+  running: { label: 'Procesando', className: 'text-blue-600' },
+  success: { label: 'OK', className: 'text-green-600' },
+  failed: { label: 'Error', className: 'text-red-600' },
+  cancelled: { label: 'Cancelado', className: 'text-muted-foreground' }
+};
+
+const JOB_TYPE_LABELS: Record<BulkJobView['type'], string> = {
+  rules: 'Reglas',
+  firewall: 'Firewall'
+};
+
+interface JobsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  jobs: BulkJobView[];
+  loading: boolean;
+  onRefresh: () => void;
+  onCancel: (jobId: string) => Promise<void>;
+  onResume: (jobId: string, retryFailed?: boolean) => Promise<void>;
+  onClearFinished: () => Promise<void>;
+}
+
+function formatDate(value?: string) {
+  if (!value) return '—';
+  return new Date(value).toLocaleString('es-ES', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+}
+
+export function JobsPanel({
+  isOpen,
+  onClose,
+  jobs,
+  loading,
+  onRefresh,
+  onCancel,
+  onResume,
+  onClearFinished
+}: JobsPanelProps) {
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+  const [busyJobId, setBusyJobId] = useState<string | null>(null);
+
+  const runJobAction = async (jobId: string, action: () => Promise<void>) => {
+    setBusyJobId(jobId);
+    try {
+      await action();
+    } finally {
+      setBusyJobId(null);
+    }
+  };
+
+  const hasFinishedJobs = jobs.some(job => !isActiveJob(job) && job.status !== 'interrupted');
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-6xl w-[92vw] max-h-[88vh] overflow-y-auto sm:max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>Trabajos en segundo plano</DialogTitle>
+          <DialogDescription>
+            Las operaciones masivas siguen ejecutándose en el servidor aunque cierres el navegador.
+            Los trabajos interrumpidos por un reinicio no continúan solos: el token de API solo se guarda en memoria,
+            así que hay que reanudarlos desde aquí con el mismo token y siguen desde el último dominio pendiente.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={onRefresh} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Actualizar
+          </Button>
+          <Button variant="outline" size="sm" onClick={onClearFinished} disabled={!hasFinishedJobs}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Limpiar finalizados
+          </Button>
+        </div>
+
+        {jobs.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No hay trabajos registrados
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Operación</TableHead>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead>Dominios</TableHead>
+                <TableHead>Creado</TableHead>
+                <TableHead>Finalizado</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.map(job => {
+                const status = JOB_STATUS_LABELS[job.status];
+                const done = job.targets.filter(target => target.status === 'success' || target.status === 'failed').length;
+                const failed = job.targets.filter(target => target.status === 'failed').length;
+                const expanded = expandedJobId === job.id;
+                const busy = busyJobId === job.id;
+
+                return (
+                  <Fragment key={job.id}>
+                    <TableRow>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          onClick={() => setExpandedJobId(expanded ? null : job.id)}
+                        >
+                          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </Button>
+                      </TableCell>
+                      <TableCell className="font-medium max-w-xs truncate" title={job.label}>
+                        {job.label}
+                        {job.accountName && <div className="text-xs text-muted-foreground truncate">Cuenta: {job.accountName}</div>}
+                        {job.error && <div className="text-xs text-red-600 truncate">{job.error}</div>}
+                      </TableCell>
+                      <TableCell>{JOB_TYPE_LABELS[job.type]}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={status.className}>
+                          {job.status === 'running' && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                          {job.cancelRequested && isActiveJob(job) ? 'Cancelando...' : status.label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {done}/{job.targets.length}
+                        {failed > 0 && <span className="text-red-600 ml-1">({failed} con error)</span>}
+                      </TableCell>
+                      <TableCell className="text-xs">{formatDate(job.createdAt)}</TableCell>
+                      <TableCell className="text-xs">{formatDate(job.finishedAt)}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          {isActiveJob(job) && !job.cancelRequested && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={busy}
+                              onClick={() => runJobAction(job.id, () => onCancel(job.id))}
+                            >
+                              <Square className="h-3 w-3 mr-1" />
+                              Cancelar
+                            </Button>
+                          )}
+                          {job.status === 'interrupted' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={busy || !job.ownToken}
+                              title={job.ownToken ? undefined : 'Creado con otro token de API'}
+                              onClick={() => runJobAction(job.id, () => onResume(job.id))}
+                            >
+                              <Play className="h-3 w-3 mr-1" />
+                              Reanudar
+                            </Button>
+                          )}
+                          {!isActiveJob(job) && failed > 0 && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={busy || !job.ownToken}
+                              title={job.ownToken ? undefined : 'Creado con otro token de API'}
+                              onClick={() => runJobAction(job.id, () => onResume(job.id, true))}
+                            >
+                              <RotateCcw className="h-3 w-3 mr-1" />
+                              Reintentar fallidos
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+
+                    {expanded && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={7}>
+                          <div className="space-y-1 py-1">
+                            {job.targets.map(target => {
+                              const targetStatus = TARGET_STATUS_LABELS[target.status];
+                              return (
+                                <div key={target.zoneId} className="flex items-start gap-3 text-xs">
+                                  <span className="font-mono w-56 truncate" title={target.domainName}>
+                                    {target.domainName}
+                                  </span>
+                                  <span className={`w-20 ${targetStatus.className}`}>{targetStatus.label}</span>
+                                  <span className="w-20 text-muted-foreground">
+                                    {target.attempts} intento{target.attempts === 1 ? '' : 's'}
+                                  </span>
+                                  <span className={target.error ? 'text-red-600' : 'text-muted-foreground'}>
+                                    {target.error || target.message || ''}
+                                  </span>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
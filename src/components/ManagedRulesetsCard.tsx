@@ -0,0 +1,137 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, RefreshCw, ShieldCheck, AlertTriangle } from 'lucide-react';
+import { ManagedRulesetDeployment } from '@/types/cloudflare';
+import { OWASP_SENSITIVITY_LABELS, isOwaspRuleset } from '@/lib/managedRulesets';
+import { tokenStorage } from '@/lib/tokenStorage';
+
+interface ManagedRulesetsCardProps {
+  zoneId: string;
+}
+
+/**
+ * Managed WAF rulesets executed in the zone (Cloudflare Managed, OWASP Core...) and their overrides
+ */
+export function ManagedRulesetsCard({ zoneId }: ManagedRulesetsCardProps) {
+  const [loading, setLoading] = useState(false);
+  const [deployments, setDeployments] = useState<ManagedRulesetDeployment[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDeployments = useCallback(async () => {
+    const apiToken = tokenStorage.getToken();
+    if (!apiToken) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/domains/managed-rulesets/${zoneId}`, {
+        headers: { 'x-api-token': apiToken }
+      });
+      const result = await response.json();
+
+      if (response.ok && result.success) {
+        setDeployments(result.data.deployments);
+      } else {
+        console.error('[ManagedRulesetsCard] Error response:', result);
+        setError(result.errorType === 'INSUFFICIENT_PERMISSIONS'
+          ? 'Token sin permisos para ver los rulesets gestionados.'
+          : result.error || 'Error al cargar los rulesets gestionados');
+      }
+    } catch (error) {
+      console.error('[ManagedRulesetsCard] Error loading managed rulesets:', error);
+      setError('Error de conexión al cargar los rulesets gestionados');
+    } finally {
+      setLoading(false);
+    }
+  }, [zoneId]);
+
+  useEffect(() => {
+    loadDeployments();
+  }, [loadDeployments]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-4 w-4 text-purple-600" />
+            WAF gestionado ({deployments?.length ?? 0})
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={loadDeployments} disabled={loading} className="h-8 w-8 p-0">
+            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          </Button>
+        </div>
+        <CardDescription>
+          Rulesets gestionados desplegados en la fase http_request_firewall_managed
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error ? (
+          <div className="text-center py-4 text-sm text-destructive">{error}</div>
+        ) : deployments === null ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : deployments.length === 0 ? (
+          <div className="text-center py-4 text-muted-foreground">
+            No hay rulesets gestionados desplegados
+          </div>
+        ) : (
+          deployments.map((deployment) => (
+            <div key={deployment.ruleId} className="border rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  {deployment.templateFriendlyId && (
+                    <Badge variant="secondary" className="font-mono">{deployment.templateFriendlyId}</Badge>
+                  )}
+                  <span className="font-medium">{deployment.rulesetName}</span>
+                  <Badge variant={deployment.enabled ? 'default' : 'secondary'}>
+                    {deployment.enabled ? 'Activo' : 'Inactivo'}
+                  </Badge>
+                </div>
+                {deployment.expression !== 'true' && (
+                  <Badge variant="outline" className="font-mono text-xs max-w-60 truncate" title={deployment.expression}>
+                    {deployment.expression}
+                  </Badge>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-2 text-xs">
+                <Badge variant="outline">
+                  Acción: {deployment.config.action || 'por defecto'}
+                </Badge>
+                {isOwaspRuleset(deployment.rulesetId) && (
+                  <>
+                    <Badge variant="outline">
+                      Sensibilidad: {deployment.config.sensitivity ? OWASP_SENSITIVITY_LABELS[deployment.config.sensitivity] : 'por defecto'}
+                    </Badge>
+                    <Badge variant="outline">
+                      Paranoia: PL{deployment.config.paranoiaLevel || 4}
+                    </Badge>
+                  </>
+                )}
+                <Badge variant="outline">
+                  Reglas desactivadas: {deployment.config.disabledRules.length}
+                </Badge>
+              </div>
+              {deployment.config.disabledRules.length > 0 && (
+                <div className="text-xs font-mono text-muted-foreground break-all">
+                  {deployment.config.disabledRules.join(', ')}
+                </div>
+              )}
+              {deployment.unmanagedOverrides > 0 && (
+                <div className="flex items-center gap-1 text-xs text-amber-600">
+                  <AlertTriangle className="h-3 w-3" />
+                  {deployment.unmanagedOverrides} overrides adicionales configurados en Cloudflare
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,419 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Bell, Loader2, Pencil, Plus, RotateCcw, Send, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { DRIFT_EVENT_LABELS, DRIFT_EVENT_TYPES } from '@/lib/driftAlerts';
+import { DriftEventType, WebhookDelivery, WebhookFormat, WebhookTarget } from '@/types/cloudflare';
+
+const WEBHOOK_FORMATS: Array<{ value: WebhookFormat; label: string }> = [
+  { value: 'json', label: 'JSON genérico' },
+  { value: 'slack', label: 'Slack' },
+  { value: 'teams', label: 'Microsoft Teams' }
+];
+
+const DELIVERY_STATUS_LABELS: Record<WebhookDelivery['status'], { label: string; className: string }> = {
+  pending: { label: 'Reintentando', className: 'bg-amber-100 text-amber-700 border-amber-300' },
+  success: { label: 'Entregado', className: 'bg-green-100 text-green-700 border-green-300' },
+  failed: { label: 'Fallido', className: 'bg-red-100 text-red-700 border-red-300' }
+};
+
+interface TargetForm {
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  enabled: boolean;
+  events: DriftEventType[];
+}
+
+const EMPTY_TARGET_FORM: TargetForm = {
+  name: '',
+  url: '',
+  format: 'json',
+  enabled: true,
+  events: [...DRIFT_EVENT_TYPES]
+};
+
+interface NotificationsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+async function requestJson(url: string, init: RequestInit = {}) {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers }
+  });
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.details?.[0]?.message || result.error || 'Error en la petición');
+  }
+  return result.data;
+}
+
+export function NotificationsModal({ isOpen, onClose }: NotificationsModalProps) {
+  const [targets, setTargets] = useState<WebhookTarget[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [cooldownMinutes, setCooldownMinutes] = useState(60);
+  const [loading, setLoading] = useState(false);
+
+  const [editingTargetId, setEditingTargetId] = useState<string | null>(null);
+  const [showTargetForm, setShowTargetForm] = useState(false);
+  const [targetForm, setTargetForm] = useState<TargetForm>(EMPTY_TARGET_FORM);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadNotifications = async () => {
+    try {
+      setLoading(true);
+      const data = await requestJson('/api/notifications');
+      setTargets(data.targets);
+      setDeliveries(data.deliveries);
+      setCooldownMinutes(data.cooldownMinutes);
+    } catch (error) {
+      toast.error(`Error al cargar las notificaciones: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      loadNotifications();
+    }
+  }, [isOpen]);
+
+  const openTargetForm = (target?: WebhookTarget) => {
+    setEditingTargetId(target?.id || null);
+    setTargetForm(target
+      ? { name: target.name, url: target.url, format: target.format, enabled: target.enabled, events: target.events }
+      : EMPTY_TARGET_FORM);
+    setShowTargetForm(true);
+  };
+
+  const toggleFormEvent = (event: DriftEventType, checked: boolean) => {
+    setTargetForm(prev => ({
+      ...prev,
+      events: checked ? [...prev.events, event] : prev.events.filter(item => item !== event)
+    }));
+  };
+
+  const saveTarget = async () => {
+    try {
+      setSaving(true);
+      await requestJson(editingTargetId ? `/api/notifications/targets/${editingTargetId}` : '/api/notifications/targets', {
+        method: editingTargetId ? 'PUT' : 'POST',
+        body: JSON.stringify(targetForm)
+      });
+      toast.success(editingTargetId ? 'Destino actualizado' : 'Destino creado');
+      setShowTargetForm(false);
+      await loadNotifications();
+    } catch (error) {
+      toast.error(`Error al guardar el destino: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteTarget = async (target: WebhookTarget) => {
+    if (!confirm(`¿Eliminar el destino "${target.name}"?`)) return;
+    try {
+      await requestJson(`/api/notifications/targets/${target.id}`, { method: 'DELETE' });
+      toast.success('Destino eliminado');
+      await loadNotifications();
+    } catch (error) {
+      toast.error(`Error al eliminar el destino: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+    }
+  };
+
+  const sendTest = async (target: WebhookTarget) => {
+    try {
+      setBusyId(target.id);
+      const { delivery } = await requestJson(`/api/notifications/targets/${target.id}/test`, { method: 'POST' });
+      if (delivery.status === 'success') {
+        toast.success(`Prueba entregada a ${target.name}`);
+      } else {
+        toast.error(`La prueba falló: ${delivery.error || 'Error desconocido'}`);
+      }
+      await loadNotifications();
+    } catch (error) {
+      toast.error(`Error al enviar la prueba: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const retry = async (delivery: WebhookDelivery) => {
+    try {
+      setBusyId(delivery.id);
+      const result = await requestJson(`/api/notifications/deliveries/${delivery.id}/retry`, { method: 'POST' });
+      if (result.delivery.status === 'success') {
+        toast.success('Notificación reenviada');
+      } else {
+        toast.error(`El reenvío falló: ${result.delivery.error || 'Error desconocido'}`);
+      }
+      await loadNotifications();
+    } catch (error) {
+      toast.error(`Error al reenviar: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const saveCooldown = async () => {
+    try {
+      await requestJson('/api/notifications', {
+        method: 'PUT',
+        body: JSON.stringify({ cooldownMinutes })
+      });
+      toast.success('Enfriamiento guardado');
+    } catch (error) {
+      toast.error(`Error al guardar: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-6xl w-[92vw] max-h-[88vh] overflow-y-auto sm:max-w-6xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            Alertas de configuración
+          </DialogTitle>
+          <DialogDescription>
+            Cuando una actualización (programada o manual) detecta que un proxy se desactivó, se activó Under Attack
+            o una regla de plantilla quedó desactualizada o desapareció, se envía un aviso a los webhooks configurados.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="targets">
+          <TabsList>
+            <TabsTrigger value="targets">Destinos</TabsTrigger>
+            <TabsTrigger value="deliveries">Registro de envíos</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="targets" className="space-y-4">
+            <div className="flex items-end justify-between gap-4">
+              <div className="flex items-end gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="cooldown">Enfriamiento (minutos)</Label>
+                  <Input
+                    id="cooldown"
+                    type="number"
+                    min="0"
+                    className="w-32"
+                    value={cooldownMinutes}
+                    onChange={(e) => setCooldownMinutes(parseInt(e.target.value) || 0)}
+                  />
+                </div>
+                <Button variant="outline" size="sm" onClick={saveCooldown}>Guardar</Button>
+                <p className="text-xs text-muted-foreground max-w-sm">
+                  El mismo cambio en el mismo dominio no se vuelve a notificar hasta que pase este tiempo.
+                </p>
+              </div>
+              <Button size="sm" onClick={() => openTargetForm()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Nuevo destino
+              </Button>
+            </div>
+
+            {showTargetForm && (
+              <div className="border rounded-lg p-4 space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="target-name">Nombre</Label>
+                    <Input
+                      id="target-name"
+                      value={targetForm.name}
+                      onChange={(e) => setTargetForm(prev => ({ ...prev, name: e.target.value }))}
+                      placeholder="Canal #seguridad"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Formato</Label>
+                    <Select
+                      value={targetForm.format}
+                      onValueChange={(value) => setTargetForm(prev => ({ ...prev, format: value as WebhookFormat }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WEBHOOK_FORMATS.map(format => (
+                          <SelectItem key={format.value} value={format.value}>{format.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="target-url">URL del webhook</Label>
+                  <Input
+                    id="target-url"
+                    value={targetForm.url}
+                    onChange={(e) => setTargetForm(prev => ({ ...prev, url: e.target.value }))}
+                    placeholder="https://hooks.slack.com/services/..."
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Eventos que se notifican</Label>
+                  <div className="flex flex-wrap gap-4">
+                    {DRIFT_EVENT_TYPES.map(event => (
+                      <label key={event} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={targetForm.events.includes(event)}
+                          onCheckedChange={(checked) => toggleFormEvent(event, checked === true)}
+                        />
+                        {DRIFT_EVENT_LABELS[event]}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={targetForm.enabled}
+                    onCheckedChange={(checked) => setTargetForm(prev => ({ ...prev, enabled: checked === true }))}
+                  />
+                  Activo
+                </label>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setShowTargetForm(false)}>Cancelar</Button>
+                  <Button size="sm" onClick={saveTarget} disabled={saving}>
+                    {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Guardar destino
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {loading && targets.length === 0 ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : targets.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No hay destinos configurados</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nombre</TableHead>
+                    <TableHead>Formato</TableHead>
+                    <TableHead>URL</TableHead>
+                    <TableHead>Eventos</TableHead>
+                    <TableHead>Estado</TableHead>
+                    <TableHead className="text-right">Acciones</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {targets.map(target => (
+                    <TableRow key={target.id}>
+                      <TableCell className="font-medium">{target.name}</TableCell>
+                      <TableCell>{WEBHOOK_FORMATS.find(format => format.value === target.format)?.label}</TableCell>
+                      <TableCell className="font-mono text-xs max-w-xs truncate" title={target.url}>{target.url}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {target.events.map(event => (
+                            <Badge key={event} variant="outline" className="text-xs">{DRIFT_EVENT_LABELS[event]}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={target.enabled ? 'default' : 'secondary'}>
+                          {target.enabled ? 'Activo' : 'Pausado'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button variant="outline" size="sm" onClick={() => sendTest(target)} disabled={busyId === target.id}>
+                            {busyId === target.id
+                              ? <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                              : <Send className="h-3 w-3 mr-1" />}
+                            Probar
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => openTargetForm(target)}>
+                            <Pencil className="h-3 w-3" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => deleteTarget(target)}>
+                            <Trash2 className="h-3 w-3 text-red-600" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+
+          <TabsContent value="deliveries" className="space-y-4">
+            {deliveries.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">Todavía no se envió ninguna notificación</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fecha</TableHead>
+                    <TableHead>Destino</TableHead>
+                    <TableHead>Eventos</TableHead>
+                    <TableHead>Estado</TableHead>
+                    <TableHead>Intentos</TableHead>
+                    <TableHead>Respuesta</TableHead>
+                    <TableHead className="text-right">Acciones</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map(delivery => {
+                    const status = DELIVERY_STATUS_LABELS[delivery.status];
+                    return (
+                      <TableRow key={delivery.id}>
+                        <TableCell className="text-xs">{new Date(delivery.createdAt).toLocaleString('es-ES')}</TableCell>
+                        <TableCell>
+                          {delivery.targetName}
+                          {delivery.test && <Badge variant="outline" className="ml-2 text-xs">Prueba</Badge>}
+                        </TableCell>
+                        <TableCell className="text-xs max-w-sm">
+                          {delivery.events.map(event => (
+                            <div key={`${event.type}-${event.zoneId}-${event.subject}`} className="truncate" title={event.message}>
+                              {event.message}
+                            </div>
+                          ))}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={status.className}>{status.label}</Badge>
+                        </TableCell>
+                        <TableCell>{delivery.attempts}</TableCell>
+                        <TableCell className="text-xs">
+                          {delivery.error
+                            ? <span className="text-red-600">{delivery.error}</span>
+                            : delivery.statusCode ? `HTTP ${delivery.statusCode}` : '—'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {delivery.status === 'failed' && (
+                            <Button variant="outline" size="sm" onClick={() => retry(delivery)} disabled={busyId === delivery.id}>
+                              <RotateCcw className="h-3 w-3 mr-1" />
+                              Reintentar
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
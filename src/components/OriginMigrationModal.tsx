@@ -0,0 +1,344 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Search, ArrowRight, Play, AlertTriangle, Replace } from 'lucide-react';
+import { toast } from 'sonner';
+import { tokenStorage } from '@/lib/tokenStorage';
+import { useDomainStore } from '@/store/domainStore';
+import { useBulkOperation } from '@/hooks/useBulkOperation';
+import { BulkOperationProgressModal } from './BulkOperationProgressModal';
+import type { OriginMigrationMatch } from '@/lib/originMigration';
+
+const RECORD_TYPES = ['A', 'AAAA', 'CNAME'] as const;
+
+interface OriginMigrationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface SearchResult {
+  matches: OriginMigrationMatch[];
+  failedZones: Array<{ zoneId: string; domainName: string; error: string }>;
+  scannedZones: number;
+}
+
+export function OriginMigrationModal({ isOpen, onClose }: OriginMigrationModalProps) {
+  const [find, setFind] = useState('');
+  const [replace, setReplace] = useState('');
+  const [recordTypes, setRecordTypes] = useState<string[]>([...RECORD_TYPES]);
+  const [onlySelected, setOnlySelected] = useState(false);
+  const [searching, setSearching] = useState(false);
+  const [result, setResult] = useState<SearchResult | null>(null);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [showProgressModal, setShowProgressModal] = useState(false);
+  const { allDomains, selectedDomains } = useDomainStore();
+
+  const apiToken = tokenStorage.getToken() || '';
+
+  const applicableMatches = useMemo(
+    () => (result?.matches || []).filter(match => !match.invalidReason && !excluded.has(match.recordId)),
+    [result, excluded]
+  );
+
+  const bulkOperation = useBulkOperation({
+    endpoint: '/api/domains/dns/origin-migration/apply-stream',
+    apiToken,
+    onComplete: (summary) => {
+      const { refreshMultipleDomains } = useDomainStore.getState();
+      refreshMultipleDomains(Array.from(new Set(applicableMatches.map(match => match.zoneId))));
+
+      if (summary.rollbackFile) {
+        const rollbackFile = summary.rollbackFile;
+        toast.info(`Valores anteriores guardados en ${rollbackFile}`, {
+          duration: 15000,
+          action: {
+            label: 'Descargar',
+            onClick: () => window.open(`/api/domains/dns/origin-migration/rollback?file=${encodeURIComponent(rollbackFile)}`, '_blank')
+          }
+        });
+      }
+    }
+  });
+
+  const targets = useMemo(() => {
+    const domains = onlySelected
+      ? allDomains.filter(d => selectedDomains.has(d.domain))
+      : allDomains;
+    return domains.map(d => ({ zoneId: d.zoneId, domainName: d.domain }));
+  }, [allDomains, selectedDomains, onlySelected]);
+
+  const resetState = () => {
+    setResult(null);
+    setExcluded(new Set());
+  };
+
+  const toggleRecordType = (type: string) => {
+    setRecordTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+    resetState();
+  };
+
+  const toggleExcluded = (recordId: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(recordId)) {
+        next.delete(recordId);
+      } else {
+        next.add(recordId);
+      }
+      return next;
+    });
+  };
+
+  const handleSearch = async () => {
+    if (!apiToken) return;
+    if (targets.length === 0) {
+      toast.error('No hay dominios para buscar');
+      return;
+    }
+
+    try {
+      setSearching(true);
+      resetState();
+      const response = await fetch('/api/domains/dns/origin-migration/search', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-token': apiToken
+        },
+        body: JSON.stringify({ find, replace, recordTypes, targets })
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setResult(data.data);
+        if (data.data.matches.length === 0) {
+          toast.info(`No se encontraron registros con "${find}"`);
+        }
+      } else {
+        toast.error(data.details?.[0]?.message || data.error || 'Error al buscar registros');
+      }
+    } catch (error) {
+      console.error('Error searching origin records:', error);
+      toast.error('Error al buscar registros');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleReview = () => {
+    const zones = new Map<string, string>();
+    applicableMatches.forEach(match => zones.set(match.zoneId, match.domainName));
+
+    bulkOperation.initializeDomains(
+      Array.from(zones.entries()).map(([zoneId, domainName]) => ({ zoneId, domainName }))
+    );
+    setShowProgressModal(true);
+  };
+
+  const handleStartOperation = async () => {
+    const grouped = new Map<string, { zoneId: string; domainName: string; recordIds: string[] }>();
+    for (const match of applicableMatches) {
+      const target = grouped.get(match.zoneId) || { zoneId: match.zoneId, domainName: match.domainName, recordIds: [] };
+      target.recordIds.push(match.recordId);
+      grouped.set(match.zoneId, target);
+    }
+
+    await bulkOperation.startCustomOperation('/api/domains/dns/origin-migration/apply-stream', {
+      find,
+      replace,
+      targets: Array.from(grouped.values())
+    });
+  };
+
+  const handleCloseProgress = () => {
+    const finished = bulkOperation.isCompleted;
+    setShowProgressModal(false);
+    bulkOperation.resetOperation();
+    if (finished) {
+      resetState();
+      onClose();
+    }
+  };
+
+  const handleClose = () => {
+    resetState();
+    onClose();
+  };
+
+  return (
+    <>
+      <Dialog open={isOpen && !showProgressModal} onOpenChange={handleClose}>
+        <DialogContent className="max-w-6xl w-[90vw] max-h-[85vh] overflow-y-auto sm:max-w-6xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Replace className="h-5 w-5" />
+              Migración de IP de origen
+            </DialogTitle>
+            <DialogDescription>
+              Busca registros A, AAAA y CNAME que apunten al origen anterior en todas las zonas y reemplázalos por el nuevo valor
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-[1fr_auto_1fr] items-end gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="migration-find">Valor actual</Label>
+                <Input
+                  id="migration-find"
+                  value={find}
+                  placeholder="192.0.2.10"
+                  onChange={(e) => {
+                    setFind(e.target.value);
+                    resetState();
+                  }}
+                />
+              </div>
+              <ArrowRight className="h-4 w-4 mb-3 text-muted-foreground" />
+              <div className="space-y-1">
+                <Label htmlFor="migration-replace">Nuevo valor</Label>
+                <Input
+                  id="migration-replace"
+                  value={replace}
+                  placeholder="198.51.100.20"
+                  onChange={(e) => {
+                    setReplace(e.target.value);
+                    resetState();
+                  }}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-6">
+              <div className="flex items-center gap-4">
+                {RECORD_TYPES.map(type => (
+                  <div key={type} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`migration-type-${type}`}
+                      checked={recordTypes.includes(type)}
+                      onCheckedChange={() => toggleRecordType(type)}
+                    />
+                    <Label htmlFor={`migration-type-${type}`}>{type}</Label>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="migration-only-selected"
+                  checked={onlySelected}
+                  disabled={selectedDomains.size === 0}
+                  onCheckedChange={(checked) => {
+                    setOnlySelected(checked === true);
+                    resetState();
+                  }}
+                />
+                <Label htmlFor="migration-only-selected">
+                  Solo dominios seleccionados ({selectedDomains.size})
+                </Label>
+              </div>
+              <Button
+                size="sm"
+                className="ml-auto"
+                onClick={handleSearch}
+                disabled={searching || !find.trim() || !replace.trim() || recordTypes.length === 0}
+              >
+                {searching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+                <span className="ml-1">Buscar en {targets.length} dominios</span>
+              </Button>
+            </div>
+
+            {result && (
+              <div className="space-y-3">
+                {result.failedZones.length > 0 && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      No se pudieron leer {result.failedZones.length} zonas: {result.failedZones.map(z => z.domainName).join(', ')}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="flex items-center justify-between p-3 bg-muted rounded-lg text-sm">
+                  <span>
+                    {result.matches.length} registros encontrados en {result.scannedZones} dominios,{' '}
+                    <strong>{applicableMatches.length} seleccionados</strong>
+                  </span>
+                  <Button
+                    size="sm"
+                    onClick={handleReview}
+                    disabled={applicableMatches.length === 0}
+                  >
+                    <Play className="h-4 w-4" />
+                    <span className="ml-1">Aplicar cambios</span>
+                  </Button>
+                </div>
+
+                {result.matches.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10" />
+                        <TableHead>Dominio</TableHead>
+                        <TableHead>Registro</TableHead>
+                        <TableHead className="w-20">Tipo</TableHead>
+                        <TableHead>Cambio</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.matches.map(match => (
+                        <TableRow key={match.recordId} className={match.invalidReason ? 'opacity-60' : ''}>
+                          <TableCell>
+                            <Checkbox
+                              checked={!match.invalidReason && !excluded.has(match.recordId)}
+                              disabled={!!match.invalidReason}
+                              onCheckedChange={() => toggleExcluded(match.recordId)}
+                            />
+                          </TableCell>
+                          <TableCell className="font-medium">{match.domainName}</TableCell>
+                          <TableCell className="font-mono text-xs">{match.name}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className="font-mono">{match.type}</Badge>
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">
+                            <span className="text-red-600">{match.oldContent}</span>
+                            <ArrowRight className="inline h-3 w-3 mx-2" />
+                            <span className="text-green-600">{match.newContent}</span>
+                            {match.invalidReason && (
+                              <div className="text-destructive font-sans">{match.invalidReason}</div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <BulkOperationProgressModal
+        isOpen={showProgressModal}
+        onClose={handleCloseProgress}
+        title={`Reemplazar ${find} por ${replace} en ${applicableMatches.length} registros`}
+        domains={bulkOperation.domains}
+        onStart={handleStartOperation}
+        onCancel={bulkOperation.cancelOperation}
+        canCancel={bulkOperation.canCancel}
+        progress={bulkOperation.progress}
+        isStarted={bulkOperation.isStarted}
+        isCompleted={bulkOperation.isCompleted}
+        summary={bulkOperation.summary}
+        phase={bulkOperation.phase}
+      />
+    </>
+  );
+}
@@ -3,7 +3,10 @@
 import React from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { ArrowRightLeft, CornerUpRight, ShieldCheck, Timer } from 'lucide-react';
 import { RulePillData } from '@/types/cloudflare';
+import { formatRateLimit, formatRedirect, formatRewrite } from '@/lib/rulePhases';
+import { formatManagedRuleset } from '@/lib/managedRulesets';
 
 interface RulePillProps {
   rule: RulePillData;
@@ -13,14 +16,21 @@ interface RulePillProps {
 export function RulePill({ rule, domainId }: RulePillProps) {
   const isUpdated = rule.isUpdated;
   const hasVersionMismatch = rule.domainVersion && rule.domainVersion !== rule.version;
+  const isRateLimit = rule.type === 'rate_limiting';
+  const isRedirect = rule.type === 'redirect';
+  const isRewrite = rule.type === 'url_rewrite';
+  const isManaged = rule.type === 'managed_ruleset';
 
-  // Determine pill color based on status
+  // Determine pill color based on status, rate limiting rules get a dashed border
+  // redirects/rewrites a dotted one and managed rulesets a double one
   const getPillStyle = () => {
-    if (isUpdated) {
-      return 'bg-green-100 text-green-800 border-green-200 hover:bg-green-200';
-    } else {
-      return 'bg-red-100 text-red-800 border-red-200 hover:bg-red-200';
-    }
+    const status = isUpdated
+      ? 'bg-green-100 text-green-800 border-green-200 hover:bg-green-200'
+      : 'bg-red-100 text-red-800 border-red-200 hover:bg-red-200';
+    if (isRateLimit) return `${status} border-dashed border-current`;
+    if (isRedirect || isRewrite) return `${status} border-dotted border-current`;
+    if (isManaged) return `${status} border-double border-[3px] border-current`;
+    return status;
   };
 
   const formatDate = (date: Date) => {
@@ -39,6 +49,12 @@ export function RulePill({ rule, domainId }: RulePillProps) {
         return '🛡️';
       case 'rate_limiting':
         return '⏱️';
+      case 'redirect':
+        return '↪️';
+      case 'url_rewrite':
+        return '🔀';
+      case 'managed_ruleset':
+        return '🧰';
       default:
         return '🔧';
     }
@@ -56,6 +72,12 @@ export function RulePill({ rule, domainId }: RulePillProps) {
         return '✅';
       case 'log':
         return '📝';
+      case 'redirect':
+        return '↪️';
+      case 'rewrite':
+        return '🔀';
+      case 'execute':
+        return '🧰';
       default:
         return '⚙️';
     }
@@ -69,6 +91,10 @@ export function RulePill({ rule, domainId }: RulePillProps) {
             variant="outline"
             className={`text-xs px-2 py-1 cursor-help transition-colors ${getPillStyle()}`}
           >
+            {isRateLimit && <Timer />}
+            {isRedirect && <CornerUpRight />}
+            {isRewrite && <ArrowRightLeft />}
+            {isManaged && <ShieldCheck />}
             {rule.id}
           </Badge>
         </TooltipTrigger>
@@ -123,6 +149,46 @@ export function RulePill({ rule, domainId }: RulePillProps) {
               </div>
             </div>
 
+            {rule.ratelimit && (
+              <div className="pt-2 border-t">
+                <span className="text-gray-600">⏱️ Límite:</span>
+                <div className="font-medium">{formatRateLimit(rule.ratelimit)}</div>
+                <div className="text-xs text-gray-600 mt-1">
+                  Por: {rule.ratelimit.characteristics.join(', ')}
+                  {rule.ratelimit.countingExpression && ` • Cuenta: ${rule.ratelimit.countingExpression}`}
+                </div>
+              </div>
+            )}
+
+            {rule.redirect && (
+              <div className="pt-2 border-t">
+                <span className="text-gray-600">↪️ Redirección:</span>
+                <div className="font-medium break-all">{formatRedirect(rule.redirect)}</div>
+                <div className="text-xs text-gray-600 mt-1">
+                  {rule.redirect.preserveQueryString ? 'Conserva la query string' : 'Descarta la query string'}
+                </div>
+              </div>
+            )}
+
+            {rule.rewrite && (
+              <div className="pt-2 border-t">
+                <span className="text-gray-600">🔀 Reescritura:</span>
+                <div className="font-medium break-all">{formatRewrite(rule.rewrite)}</div>
+              </div>
+            )}
+
+            {rule.managedRuleset && (
+              <div className="pt-2 border-t">
+                <span className="text-gray-600">🧰 WAF gestionado:</span>
+                <div className="font-medium break-all">{formatManagedRuleset(rule.managedRuleset)}</div>
+                {rule.managedRuleset.disabledRules.length > 0 && (
+                  <div className="text-xs text-gray-600 mt-1 font-mono break-all">
+                    Desactivadas: {rule.managedRuleset.disabledRules.join(', ')}
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="pt-2 border-t">
               <span className="text-gray-600">📜 Expression:</span>
               <div className="mt-1 p-2 bg-gray-50 rounded text-xs font-mono break-all">
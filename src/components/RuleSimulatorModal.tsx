@@ -0,0 +1,337 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FlaskConical, ShieldCheck, ShieldAlert, AlertTriangle, RotateCcw } from 'lucide-react';
+import { RuleTemplate } from '@/types/cloudflare';
+import {
+  DEFAULT_SIMULATED_REQUEST,
+  RuleSimulationOutcome,
+  SimulatedRequest,
+  simulateTemplates
+} from '@/lib/ruleSimulator';
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+const OUTCOME_BADGES: Record<RuleSimulationOutcome, { label: string; className: string }> = {
+  match: { label: 'Coincide', className: 'bg-red-500 hover:bg-red-600 text-white border-0' },
+  no_match: { label: 'No coincide', className: 'bg-muted text-muted-foreground border-0' },
+  unknown: { label: 'Indeterminado', className: 'bg-amber-500 hover:bg-amber-600 text-white border-0' },
+  invalid: { label: 'Expresión inválida', className: 'bg-destructive text-white border-0' },
+  disabled: { label: 'Deshabilitada', className: 'bg-secondary text-secondary-foreground border-0' }
+};
+
+interface RuleSimulatorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  templates: RuleTemplate[];
+}
+
+/**
+ * "Name: value" per line
+ */
+function parseHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  }
+  return headers;
+}
+
+/**
+ * "name: value1, value2" per line
+ */
+function parseLists(text: string): Record<string, string[]> {
+  const lists: Record<string, string[]> = {};
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const name = line.slice(0, separator).trim().replace(/^\$/, '');
+    lists[name] = line.slice(separator + 1).split(',').map(value => value.trim()).filter(Boolean);
+  }
+  return lists;
+}
+
+function formatHeaders(headers: Record<string, string>): string {
+  return Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n');
+}
+
+export function RuleSimulatorModal({ isOpen, onClose, templates }: RuleSimulatorModalProps) {
+  const [request, setRequest] = useState<SimulatedRequest>(DEFAULT_SIMULATED_REQUEST);
+  const [headersText, setHeadersText] = useState(formatHeaders(DEFAULT_SIMULATED_REQUEST.headers));
+  const [listsText, setListsText] = useState('');
+
+  const report = useMemo(
+    () => simulateTemplates(
+      templates,
+      { ...request, headers: parseHeaders(headersText) },
+      { lists: parseLists(listsText) }
+    ),
+    [templates, request, headersText, listsText]
+  );
+
+  const updateField = <K extends keyof SimulatedRequest>(field: K, value: SimulatedRequest[K]) => {
+    setRequest(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleReset = () => {
+    setRequest(DEFAULT_SIMULATED_REQUEST);
+    setHeadersText(formatHeaders(DEFAULT_SIMULATED_REQUEST.headers));
+    setListsText('');
+  };
+
+  const winner = report.winner;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-6xl w-[90vw] max-h-[85vh] overflow-y-auto sm:max-w-6xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Probar reglas
+          </DialogTitle>
+          <DialogDescription>
+            Simula una petición y comprueba qué plantillas coincidirían y qué acción se aplicaría según su prioridad, sin tocar ninguna zona
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-6">
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1 col-span-2">
+                <Label htmlFor="sim-ip">IP de origen</Label>
+                <Input
+                  id="sim-ip"
+                  value={request.ip}
+                  onChange={(e) => updateField('ip', e.target.value.trim())}
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="sim-country">País</Label>
+                <Input
+                  id="sim-country"
+                  value={request.country}
+                  maxLength={2}
+                  placeholder="ES"
+                  onChange={(e) => updateField('country', e.target.value.toUpperCase())}
+                  className="font-mono"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="sim-asn">ASN</Label>
+                <Input
+                  id="sim-asn"
+                  type="number"
+                  value={request.asn}
+                  onChange={(e) => updateField('asn', Number(e.target.value) || 0)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="sim-bot-score">Bot score</Label>
+                <Input
+                  id="sim-bot-score"
+                  type="number"
+                  min={1}
+                  max={99}
+                  value={request.botScore}
+                  onChange={(e) => updateField('botScore', Number(e.target.value) || 0)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Método</Label>
+                <Select value={request.method} onValueChange={(value) => updateField('method', value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HTTP_METHODS.map(method => (
+                      <SelectItem key={method} value={method}>{method}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="sim-host">Host</Label>
+                <Input
+                  id="sim-host"
+                  value={request.host}
+                  onChange={(e) => updateField('host', e.target.value.trim())}
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="sim-path">Ruta</Label>
+                <Input
+                  id="sim-path"
+                  value={request.path}
+                  onChange={(e) => updateField('path', e.target.value)}
+                  className="font-mono"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="sim-query">Query string</Label>
+              <Input
+                id="sim-query"
+                value={request.query}
+                placeholder="page=1&s=test"
+                onChange={(e) => updateField('query', e.target.value.replace(/^\?/, ''))}
+                className="font-mono"
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="sim-user-agent">User-Agent</Label>
+              <Input
+                id="sim-user-agent"
+                value={request.userAgent}
+                onChange={(e) => updateField('userAgent', e.target.value)}
+                className="font-mono text-xs"
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="sim-headers">Cabeceras (una por línea, Nombre: valor)</Label>
+              <Textarea
+                id="sim-headers"
+                value={headersText}
+                rows={4}
+                onChange={(e) => setHeadersText(e.target.value)}
+                className="font-mono text-xs"
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="sim-lists">Listas (una por línea, nombre: valor1, valor2)</Label>
+              <Textarea
+                id="sim-lists"
+                value={listsText}
+                rows={2}
+                placeholder="whitelist_ip: 192.0.2.0/24, 198.51.100.7"
+                onChange={(e) => setListsText(e.target.value)}
+                className="font-mono text-xs"
+              />
+            </div>
+
+            <div className="flex items-center gap-6">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="sim-ssl"
+                  checked={request.ssl}
+                  onCheckedChange={(checked) => updateField('ssl', checked === true)}
+                />
+                <Label htmlFor="sim-ssl">HTTPS</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="sim-verified-bot"
+                  checked={request.verifiedBot}
+                  onCheckedChange={(checked) => updateField('verifiedBot', checked === true)}
+                />
+                <Label htmlFor="sim-verified-bot">Bot verificado</Label>
+              </div>
+              <Button variant="ghost" size="sm" className="ml-auto" onClick={handleReset}>
+                <RotateCcw className="h-4 w-4" />
+                <span className="ml-1">Restablecer</span>
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {winner ? (
+              <Alert className={winner.action === 'allow' || winner.action === 'skip' ? 'border-green-500' : 'border-red-500'}>
+                <ShieldAlert className="h-4 w-4" />
+                <AlertDescription>
+                  Acción final: <strong>{winner.action}</strong> por {winner.friendlyId} &quot;{winner.name}&quot; (prioridad {winner.priority})
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <Alert className="border-green-500">
+                <ShieldCheck className="h-4 w-4" />
+                <AlertDescription>
+                  Ninguna plantilla detendría esta petición
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {report.logged.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Registrada por: {report.logged.map(result => result.friendlyId).join(', ')}
+              </p>
+            )}
+
+            {report.uncertain && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  Alguna plantilla evaluada antes no se pudo resolver con los datos de la petición; el resultado real podría ser distinto
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {templates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No hay plantillas para probar</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Prior.</TableHead>
+                    <TableHead>Plantilla</TableHead>
+                    <TableHead className="w-32">Acción</TableHead>
+                    <TableHead className="w-36">Resultado</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.results.map(result => (
+                    <TableRow
+                      key={result.templateId}
+                      className={winner?.templateId === result.templateId ? 'bg-red-50 dark:bg-red-950/30' : ''}
+                    >
+                      <TableCell className="font-mono text-xs">{result.priority}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline" className="font-mono">{result.friendlyId}</Badge>
+                          <span className="text-sm">{result.name}</span>
+                        </div>
+                        {result.notes.map(note => (
+                          <div key={note} className="text-xs text-muted-foreground mt-1">{note}</div>
+                        ))}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{result.action}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={OUTCOME_BADGES[result.outcome].className}>
+                          {OUTCOME_BADGES[result.outcome].label}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
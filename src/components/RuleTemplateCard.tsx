@@ -3,7 +3,7 @@
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { Trash2, Edit2, RefreshCw, ChevronDown, ChevronRight } from 'lucide-react';
+import { Trash2, Edit2, RefreshCw, ChevronDown, ChevronRight, Send } from 'lucide-react';
 import { RuleTemplate } from '@/types/cloudflare';
 import { useState } from 'react';
 
@@ -13,6 +13,7 @@ interface RuleTemplateCardProps {
   usageStats?: { domainCount: number; domains: string[] };
   onEdit: (template: RuleTemplate) => void;
   onUpdateAll: (template: RuleTemplate) => void;
+  onApplyAll: (template: RuleTemplate) => void;
   onDelete: (templateId: string) => void;
 }
 
@@ -22,6 +23,7 @@ export function RuleTemplateCard({
   usageStats,
   onEdit,
   onUpdateAll,
+  onApplyAll,
   onDelete,
 }: RuleTemplateCardProps) {
   const [showExpression, setShowExpression] = useState(false);
@@ -85,6 +87,16 @@ export function RuleTemplateCard({
                 <RefreshCw className="h-4 w-4" />
               )}
             </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onApplyAll(template)}
+              disabled={isUpdating || !template.enabled}
+              title="Aplicar en todos los dominios (vista previa con conflictos)"
+              className="h-8 w-8 p-0"
+            >
+              <Send className="h-4 w-4" />
+            </Button>
             <Button
               variant="ghost"
               size="sm"
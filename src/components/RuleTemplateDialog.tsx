@@ -6,7 +6,10 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { RuleTemplate } from '@/types/cloudflare';
+import { ManagedRulesetConfig, RateLimitConfig, RedirectConfig, RulePhase, RuleTemplate, UrlRewriteConfig } from '@/types/cloudflare';
+import { RULE_ACTION_LABELS, getFormActions } from '@/lib/rulePhases';
+import { CommaListInput } from './CommaListInput';
+import { RuleTemplatePhaseFields } from './RuleTemplatePhaseFields';
 
 interface RuleTemplateDialogProps {
   isOpen: boolean;
@@ -16,8 +19,15 @@ interface RuleTemplateDialogProps {
     description: string;
     expression: string;
     action: RuleTemplate['action'];
+    phase: RulePhase;
+    ratelimit?: RateLimitConfig;
+    redirect?: RedirectConfig;
+    rewrite?: UrlRewriteConfig;
+    managedRuleset?: ManagedRulesetConfig;
+    applicableTags: string[];
+    excludedDomains: string[];
   };
-  onFormChange: (field: string, value: string) => void;
+  onFormChange: (field: string, value: string | string[] | RateLimitConfig | RedirectConfig | UrlRewriteConfig | ManagedRulesetConfig | undefined) => void;
   onSave: () => void;
   onClose: () => void;
 }
@@ -61,21 +71,32 @@ export function RuleTemplateDialog({
               <Select
                 value={formData.action}
                 onValueChange={(value) => onFormChange('action', value)}
+                disabled={getFormActions(formData.phase).length === 1}
               >
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="block">Block</SelectItem>
-                  <SelectItem value="challenge">Challenge</SelectItem>
-                  <SelectItem value="managed_challenge">Managed Challenge</SelectItem>
-                  <SelectItem value="allow">Allow</SelectItem>
-                  <SelectItem value="log">Log</SelectItem>
+                  {getFormActions(formData.phase).map(action => (
+                    <SelectItem key={action} value={action}>{RULE_ACTION_LABELS[action]}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
           </div>
 
+          <RuleTemplatePhaseFields
+            idPrefix={isEdit ? "edit-rule" : "rule"}
+            phase={formData.phase}
+            action={formData.action}
+            ratelimit={formData.ratelimit}
+            redirect={formData.redirect}
+            rewrite={formData.rewrite}
+            managedRuleset={formData.managedRuleset}
+            phaseLocked={isEdit}
+            onChange={onFormChange}
+          />
+
           <div>
             <Label htmlFor={isEdit ? "edit-rule-description" : "rule-description"}>Descripción</Label>
             <Textarea
@@ -96,6 +117,27 @@ export function RuleTemplateDialog({
               className="font-mono text-sm min-h-[100px] max-h-[300px] overflow-y-auto resize-y"
             />
           </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <Label htmlFor={isEdit ? "edit-rule-applicable-tags" : "rule-applicable-tags"}>Aplicar a dominios con tags</Label>
+              <CommaListInput
+                id={isEdit ? "edit-rule-applicable-tags" : "rule-applicable-tags"}
+                value={formData.applicableTags}
+                onChange={(value) => onFormChange('applicableTags', value.map(tag => tag.toLowerCase()))}
+                placeholder="produccion, wordpress"
+              />
+            </div>
+            <div>
+              <Label htmlFor={isEdit ? "edit-rule-excluded-domains" : "rule-excluded-domains"}>Dominios excluidos</Label>
+              <CommaListInput
+                id={isEdit ? "edit-rule-excluded-domains" : "rule-excluded-domains"}
+                value={formData.excludedDomains}
+                onChange={(value) => onFormChange('excludedDomains', value.map(domain => domain.toLowerCase()))}
+                placeholder="ejemplo.com"
+              />
+            </div>
+          </div>
         </div>
 
         <DialogFooter>
@@ -0,0 +1,431 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ManagedRulesetAction,
+  ManagedRulesetConfig,
+  OwaspSensitivity,
+  RateLimitConfig,
+  RedirectConfig,
+  RedirectStatusCode,
+  RulePhase,
+  RuleTemplate,
+  UrlRewriteConfig
+} from '@/types/cloudflare';
+import {
+  DEFAULT_MANAGED_RULESET,
+  DEFAULT_RATE_LIMIT,
+  DEFAULT_REDIRECT,
+  DEFAULT_REWRITE,
+  PHASE_ACTIONS,
+  RATE_LIMIT_MITIGATION_TIMEOUTS,
+  RATE_LIMIT_PERIODS,
+  REDIRECT_STATUS_CODES,
+  REQUIRED_RATE_LIMIT_CHARACTERISTIC,
+  RULE_PHASE_LABELS,
+  TEMPLATE_RULE_PHASES,
+  buildRedirectSourceExpression,
+  buildRewriteSourceExpression,
+  formatDuration,
+  getDefaultPhaseConfig
+} from '@/lib/rulePhases';
+import {
+  MANAGED_RULESETS,
+  MANAGED_RULESET_ACTIONS,
+  MANAGED_RULESET_EXPRESSION,
+  OWASP_PARANOIA_LEVELS,
+  OWASP_SENSITIVITY_LABELS,
+  OWASP_SENSITIVITY_THRESHOLDS,
+  isOwaspRuleset
+} from '@/lib/managedRulesets';
+import { CommaListInput } from './CommaListInput';
+
+type PhaseField = 'phase' | 'ratelimit' | 'redirect' | 'rewrite' | 'managedRuleset' | 'action' | 'expression';
+
+interface RuleTemplatePhaseFieldsProps {
+  idPrefix: string;
+  phase: RulePhase;
+  action: RuleTemplate['action'];
+  ratelimit?: RateLimitConfig;
+  redirect?: RedirectConfig;
+  rewrite?: UrlRewriteConfig;
+  managedRuleset?: ManagedRulesetConfig;
+  phaseLocked: boolean; // Existing templates keep their phase
+  onChange: (field: PhaseField, value: RulePhase | RateLimitConfig | RedirectConfig | UrlRewriteConfig | ManagedRulesetConfig | string | undefined) => void;
+}
+
+const REDIRECT_STATUS_LABELS: Record<RedirectStatusCode, string> = {
+  301: '301 - Permanente',
+  302: '302 - Temporal',
+  303: '303 - Ver otra',
+  307: '307 - Temporal (mantiene método)',
+  308: '308 - Permanente (mantiene método)'
+};
+
+// Select items can't have an empty value
+const DEFAULT_OPTION = 'default';
+
+/**
+ * Rule type selector plus the phase specific parameters: rate limits, redirects, URL rewrites
+ * and managed ruleset overrides
+ */
+export function RuleTemplatePhaseFields({ idPrefix, phase, action, ratelimit, redirect, rewrite, managedRuleset, phaseLocked, onChange }: RuleTemplatePhaseFieldsProps) {
+  const config = ratelimit || DEFAULT_RATE_LIMIT;
+  const redirectConfig = redirect || DEFAULT_REDIRECT;
+  const rewriteConfig = rewrite || DEFAULT_REWRITE;
+  const managedConfig = managedRuleset || DEFAULT_MANAGED_RULESET;
+
+  const handlePhaseChange = (value: RulePhase) => {
+    const defaults = getDefaultPhaseConfig(value);
+    onChange('phase', value);
+    onChange('ratelimit', defaults.ratelimit && (ratelimit || defaults.ratelimit));
+    onChange('redirect', defaults.redirect && (redirect || defaults.redirect));
+    onChange('rewrite', defaults.rewrite && (rewrite || defaults.rewrite));
+    onChange('managedRuleset', defaults.managedRuleset && (managedRuleset || defaults.managedRuleset));
+    if (!PHASE_ACTIONS[value].includes(action)) {
+      onChange('action', PHASE_ACTIONS[value][0]);
+    }
+    // Managed rulesets usually run on every request, the ruleset decides what to match
+    if (value === 'http_request_firewall_managed') {
+      onChange('expression', MANAGED_RULESET_EXPRESSION);
+    }
+  };
+
+  const updateRateLimit = (changes: Partial<RateLimitConfig>) => {
+    onChange('ratelimit', { ...config, ...changes });
+  };
+
+  const updateRedirect = (changes: Partial<RedirectConfig>) => {
+    onChange('redirect', { ...redirectConfig, ...changes });
+  };
+
+  const updateRewrite = (changes: Partial<UrlRewriteConfig>) => {
+    onChange('rewrite', { ...rewriteConfig, ...changes });
+  };
+
+  const updateManagedRuleset = (changes: Partial<ManagedRulesetConfig>) => {
+    onChange('managedRuleset', { ...managedConfig, ...changes });
+  };
+
+  // Sensitivity and paranoia level only exist in the OWASP ruleset
+  const handleManagedRulesetChange = (rulesetId: string) => {
+    updateManagedRuleset(isOwaspRuleset(rulesetId)
+      ? { rulesetId }
+      : { rulesetId, sensitivity: undefined, paranoiaLevel: undefined });
+  };
+
+  // The source pattern doubles as the rule expression, wildcard_replace needs both to match
+  const handleRedirectPatternChange = (pattern: string) => {
+    updateRedirect({ sourceUrlPattern: pattern || undefined });
+    if (pattern) {
+      onChange('expression', buildRedirectSourceExpression(pattern));
+    }
+  };
+
+  const handleRewritePatternChange = (pattern: string) => {
+    updateRewrite({ sourcePathPattern: pattern || undefined });
+    if (pattern) {
+      onChange('expression', buildRewriteSourceExpression(pattern));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor={`${idPrefix}-phase`}>Tipo de regla</Label>
+        <Select value={phase} onValueChange={(value) => handlePhaseChange(value as RulePhase)} disabled={phaseLocked}>
+          <SelectTrigger id={`${idPrefix}-phase`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TEMPLATE_RULE_PHASES.map(item => (
+              <SelectItem key={item} value={item}>{RULE_PHASE_LABELS[item]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {phaseLocked && (
+          <p className="text-xs text-muted-foreground mt-1">El tipo de regla no se puede cambiar una vez creada la plantilla</p>
+        )}
+      </div>
+
+      {phase === 'http_ratelimit' && (
+        <div className="space-y-4 rounded-lg border p-3">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor={`${idPrefix}-requests`}>Peticiones por periodo *</Label>
+              <Input
+                id={`${idPrefix}-requests`}
+                type="number"
+                min={1}
+                value={config.requestsPerPeriod}
+                onChange={(e) => updateRateLimit({ requestsPerPeriod: Number(e.target.value) })}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`${idPrefix}-period`}>Periodo *</Label>
+              <Select
+                value={String(config.period)}
+                onValueChange={(value) => updateRateLimit({ period: Number(value) })}
+              >
+                <SelectTrigger id={`${idPrefix}-period`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RATE_LIMIT_PERIODS.map(period => (
+                    <SelectItem key={period} value={String(period)}>{formatDuration(period)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor={`${idPrefix}-timeout`}>Duración de la acción *</Label>
+              <Select
+                value={String(config.mitigationTimeout)}
+                onValueChange={(value) => updateRateLimit({ mitigationTimeout: Number(value) })}
+              >
+                <SelectTrigger id={`${idPrefix}-timeout`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RATE_LIMIT_MITIGATION_TIMEOUTS.map(timeout => (
+                    <SelectItem key={timeout} value={String(timeout)}>{timeout === 0 ? 'Solo mientras se supere' : formatDuration(timeout)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor={`${idPrefix}-characteristics`}>Características (separadas por comas) *</Label>
+            <CommaListInput
+              id={`${idPrefix}-characteristics`}
+              value={config.characteristics}
+              onChange={(value) => updateRateLimit({ characteristics: value })}
+              placeholder={`${REQUIRED_RATE_LIMIT_CHARACTERISTIC}, ip.src`}
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Las peticiones se cuentan por cada combinación de valores. Debe incluir {REQUIRED_RATE_LIMIT_CHARACTERISTIC}
+            </p>
+          </div>
+
+          <div>
+            <Label htmlFor={`${idPrefix}-counting`}>Expresión de conteo</Label>
+            <Textarea
+              id={`${idPrefix}-counting`}
+              value={config.countingExpression || ''}
+              onChange={(e) => updateRateLimit({ countingExpression: e.target.value || undefined })}
+              placeholder='http.response.code eq 401'
+              className="font-mono text-sm min-h-16 resize-y"
+            />
+            <p className="text-xs text-muted-foreground mt-1">Vacía: cuentan las peticiones que cumplen la expresión de la regla</p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`${idPrefix}-origin`}
+              checked={Boolean(config.requestsToOrigin)}
+              onCheckedChange={(checked) => updateRateLimit({ requestsToOrigin: checked === true || undefined })}
+            />
+            <Label htmlFor={`${idPrefix}-origin`}>Contar solo las peticiones que llegan al origen (no cacheadas)</Label>
+          </div>
+        </div>
+      )}
+
+      {phase === 'http_request_dynamic_redirect' && (
+        <div className="space-y-4 rounded-lg border p-3">
+          <div>
+            <Label htmlFor={`${idPrefix}-source-url`}>Patrón de URL de origen</Label>
+            <Input
+              id={`${idPrefix}-source-url`}
+              value={redirectConfig.sourceUrlPattern || ''}
+              onChange={(e) => handleRedirectPatternChange(e.target.value)}
+              placeholder="https://*.example.com/blog/*"
+              className="font-mono text-sm"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Usa * como comodín y {'${1}, ${2}'}... en el destino. Vacío: se redirige todo lo que cumple la expresión
+            </p>
+          </div>
+
+          <div>
+            <Label htmlFor={`${idPrefix}-target-url`}>URL de destino *</Label>
+            <Input
+              id={`${idPrefix}-target-url`}
+              value={redirectConfig.targetUrl}
+              onChange={(e) => updateRedirect({ targetUrl: e.target.value })}
+              placeholder="https://www.example.com/${2}"
+              className="font-mono text-sm"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor={`${idPrefix}-status`}>Código de estado *</Label>
+              <Select
+                value={String(redirectConfig.statusCode)}
+                onValueChange={(value) => updateRedirect({ statusCode: Number(value) as RedirectStatusCode })}
+              >
+                <SelectTrigger id={`${idPrefix}-status`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REDIRECT_STATUS_CODES.map(code => (
+                    <SelectItem key={code} value={String(code)}>{REDIRECT_STATUS_LABELS[code]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2 pt-6">
+              <Checkbox
+                id={`${idPrefix}-preserve-query`}
+                checked={redirectConfig.preserveQueryString}
+                onCheckedChange={(checked) => updateRedirect({ preserveQueryString: checked === true })}
+              />
+              <Label htmlFor={`${idPrefix}-preserve-query`}>Conservar la query string</Label>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {phase === 'http_request_transform' && (
+        <div className="space-y-4 rounded-lg border p-3">
+          <div>
+            <Label htmlFor={`${idPrefix}-source-path`}>Patrón de ruta de origen</Label>
+            <Input
+              id={`${idPrefix}-source-path`}
+              value={rewriteConfig.sourcePathPattern || ''}
+              onChange={(e) => handleRewritePatternChange(e.target.value)}
+              placeholder="/old/*"
+              className="font-mono text-sm"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Usa * como comodín y {'${1}, ${2}'}... en la ruta de destino
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor={`${idPrefix}-target-path`}>Ruta de destino</Label>
+              <Input
+                id={`${idPrefix}-target-path`}
+                value={rewriteConfig.targetPath || ''}
+                onChange={(e) => updateRewrite({ targetPath: e.target.value || undefined })}
+                placeholder="/new/${1}"
+                className="font-mono text-sm"
+              />
+            </div>
+            <div>
+              <Label htmlFor={`${idPrefix}-target-query`}>Query de destino</Label>
+              <Input
+                id={`${idPrefix}-target-query`}
+                value={rewriteConfig.targetQuery || ''}
+                onChange={(e) => updateRewrite({ targetQuery: e.target.value || undefined })}
+                placeholder="utm_source=legacy"
+                className="font-mono text-sm"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">La URL se reescribe antes de llegar al origen, el visitante no ve el cambio</p>
+        </div>
+      )}
+
+      {phase === 'http_request_firewall_managed' && (
+        <div className="space-y-4 rounded-lg border p-3">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor={`${idPrefix}-managed-ruleset`}>Ruleset gestionado *</Label>
+              <Select value={managedConfig.rulesetId} onValueChange={handleManagedRulesetChange}>
+                <SelectTrigger id={`${idPrefix}-managed-ruleset`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MANAGED_RULESETS.map(ruleset => (
+                    <SelectItem key={ruleset.id} value={ruleset.id}>{ruleset.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                {MANAGED_RULESETS.find(ruleset => ruleset.id === managedConfig.rulesetId)?.description}
+              </p>
+            </div>
+            <div>
+              <Label htmlFor={`${idPrefix}-managed-action`}>Acción</Label>
+              <Select
+                value={managedConfig.action || DEFAULT_OPTION}
+                onValueChange={(value) => updateManagedRuleset({ action: value === DEFAULT_OPTION ? undefined : value as ManagedRulesetAction })}
+              >
+                <SelectTrigger id={`${idPrefix}-managed-action`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_OPTION}>Por defecto de cada regla</SelectItem>
+                  {MANAGED_RULESET_ACTIONS.map(item => (
+                    <SelectItem key={item} value={item}>{item}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {isOwaspRuleset(managedConfig.rulesetId) && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor={`${idPrefix}-owasp-sensitivity`}>Sensibilidad</Label>
+                <Select
+                  value={managedConfig.sensitivity || DEFAULT_OPTION}
+                  onValueChange={(value) => updateManagedRuleset({ sensitivity: value === DEFAULT_OPTION ? undefined : value as OwaspSensitivity })}
+                >
+                  <SelectTrigger id={`${idPrefix}-owasp-sensitivity`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_OPTION}>Por defecto</SelectItem>
+                    {(Object.keys(OWASP_SENSITIVITY_LABELS) as OwaspSensitivity[]).map(level => (
+                      <SelectItem key={level} value={level}>
+                        {OWASP_SENSITIVITY_LABELS[level]} (anomaly score ≥ {OWASP_SENSITIVITY_THRESHOLDS[level]})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor={`${idPrefix}-owasp-paranoia`}>Nivel de paranoia</Label>
+                <Select
+                  value={String(managedConfig.paranoiaLevel || 4)}
+                  onValueChange={(value) => updateManagedRuleset({ paranoiaLevel: Number(value) as ManagedRulesetConfig['paranoiaLevel'] })}
+                >
+                  <SelectTrigger id={`${idPrefix}-owasp-paranoia`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OWASP_PARANOIA_LEVELS.map(level => (
+                      <SelectItem key={level} value={String(level)}>PL{level}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">Niveles altos detectan más ataques y generan más falsos positivos</p>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor={`${idPrefix}-disabled-rules`}>Reglas desactivadas (IDs separados por comas)</Label>
+            <CommaListInput
+              id={`${idPrefix}-disabled-rules`}
+              value={managedConfig.disabledRules}
+              onChange={(value) => updateManagedRuleset({ disabledRules: value })}
+              placeholder="5de7edfa648c4d6891dc3e7f84534ffa"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Usa la expresión de la regla para limitar el despliegue, por ejemplo a un hostname
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
-import { RefreshCw, CheckCircle, AlertCircle } from 'lucide-react';
+import { RefreshCw, CheckCircle, AlertCircle, ClipboardCheck } from 'lucide-react';
 import { RuleTemplate } from '@/types/cloudflare';
 
 interface AffectedDomain {
@@ -22,6 +22,8 @@ interface RuleUpdateConfirmationModalProps {
   template: RuleTemplate;
   affectedDomains: AffectedDomain[];
   onConfirm: (updateDomains: boolean) => Promise<void>;
+  onRequestApproval?: () => Promise<void>; // Hold the update for a second user
+  approvalRequired?: boolean; // Some zone is under the approval policy, only a change request can update it
   onUpdateProgress?: (callback: (progress: number) => void) => void;
 }
 
@@ -31,6 +33,8 @@ export function RuleUpdateConfirmationModal({
   template,
   affectedDomains,
   onConfirm,
+  onRequestApproval,
+  approvalRequired = false,
   onUpdateProgress
 }: RuleUpdateConfirmationModalProps) {
   const [isUpdating, setIsUpdating] = useState(false);
@@ -203,6 +207,11 @@ export function RuleUpdateConfirmationModal({
           <p className="text-sm text-muted-foreground">
             ¿Desea actualizar estos dominios con la nueva versión de la regla?
           </p>
+          {approvalRequired && (
+            <p className="text-sm text-orange-700">
+              Hay dominios protegidos: la actualización solo puede aplicarse con una solicitud aprobada.
+            </p>
+          )}
         </div>
 
         <DialogFooter className="gap-2">
@@ -213,9 +222,19 @@ export function RuleUpdateConfirmationModal({
           >
             No actualizar
           </Button>
+          {onRequestApproval && (
+            <Button
+              variant="outline"
+              onClick={onRequestApproval}
+              disabled={isUpdating}
+            >
+              <ClipboardCheck className="h-4 w-4 mr-2" />
+              Solicitar aprobación
+            </Button>
+          )}
           <Button
             onClick={() => handleConfirm(true)}
-            disabled={isUpdating}
+            disabled={isUpdating || approvalRequired}
           >
             {isUpdating ? (
               <>
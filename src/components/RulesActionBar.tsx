@@ -6,13 +6,15 @@ import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { Loader2, Plus, Minus, Trash2, Play, Shield, ShieldOff, Siren, Bot } from 'lucide-react';
+import { Loader2, Plus, Minus, Trash2, Play, Shield, ShieldOff, Siren, Bot, SlidersHorizontal } from 'lucide-react';
 import { toast } from 'sonner';
-import { RuleTemplate } from '@/types/cloudflare';
+import { RuleTemplate, TokenCapability, ZoneSettingsProfile } from '@/types/cloudflare';
 import { tokenStorage } from '@/lib/tokenStorage';
 import { BulkOperationProgressModal } from './BulkOperationProgressModal';
 import { useBulkOperation } from '@/hooks/useBulkOperation';
 import { useDomainStore } from '@/store/domainStore';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { TOKEN_CAPABILITY_LABELS, useTokenCapabilities } from '@/hooks/useTokenCapabilities';
 
 interface RulesActionBarProps {
   selectedDomains: string[]; // Zone IDs of selected domains
@@ -23,12 +25,25 @@ interface RulesActionBarProps {
   onBulkBotFight?: (enabled: boolean) => Promise<void>;
 }
 
-type ActionType = 'add' | 'remove' | 'clean' | 'proxy' | 'underAttack' | 'botFight';
+type ActionType = 'add' | 'remove' | 'clean' | 'proxy' | 'underAttack' | 'botFight' | 'enforceProfile';
+
+// Token scope each action needs on the zones
+const ACTION_CAPABILITIES: Record<ActionType, TokenCapability> = {
+  add: 'rulesetsEdit',
+  remove: 'rulesetsEdit',
+  clean: 'rulesetsEdit',
+  proxy: 'dnsEdit',
+  underAttack: 'zoneSettingsEdit',
+  botFight: 'botManagement',
+  enforceProfile: 'zoneSettingsEdit'
+};
 
 export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSelectedDomains, onBulkProxy, onBulkUnderAttack, onBulkBotFight }: RulesActionBarProps) {
   const [action, setAction] = useState<ActionType>('add');
   const [selectedRules, setSelectedRules] = useState<string[]>([]);
   const [templates, setTemplates] = useState<RuleTemplate[]>([]);
+  const [settingsProfiles, setSettingsProfiles] = useState<ZoneSettingsProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState<string>('');
   const [loading, setLoading] = useState(false);
   const [showProgressModal, setShowProgressModal] = useState(false);
   const [useNewDNSModal, setUseNewDNSModal] = useState(false); // Feature flag for DNS modal
@@ -37,6 +52,8 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
 
   const apiToken = tokenStorage.getToken() || '';
   const { allDomains } = useDomainStore();
+  const { can } = useCurrentUser();
+  const { deniedZones } = useTokenCapabilities();
 
   const bulkOperation = useBulkOperation({
     endpoint: '/api/domains/rules/bulk-action-stream',
@@ -51,6 +68,12 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
         refreshMultipleDomains(selectedDomains);
         // Clear selection after refresh so all domains are visible
         setTimeout(() => clearDomainSelection(), 500);
+      } else if (action === 'enforceProfile') {
+        // Zone settings profile: reload drift pills and domain data
+        const { refreshMultipleDomains, loadSettingsDrift, clearDomainSelection } = useDomainStore.getState();
+        loadSettingsDrift();
+        refreshMultipleDomains(selectedDomains);
+        setTimeout(() => clearDomainSelection(), 500);
       } else if ((action === 'add' || action === 'remove' || action === 'clean') && useNewRulesModal) {
         // Rules operations using new modal with 3 phases
         const { refreshMultipleDomains, clearDomainSelection } = useDomainStore.getState();
@@ -74,6 +97,7 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
 
   useEffect(() => {
     loadTemplates();
+    loadSettingsProfiles();
   }, []);
 
   const loadTemplates = async () => {
@@ -88,6 +112,19 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
     }
   };
 
+  const loadSettingsProfiles = async () => {
+    try {
+      const response = await fetch('/api/zone-settings/profiles');
+      const result = await response.json();
+      if (result.success) {
+        setSettingsProfiles(result.data.profiles);
+        setSelectedProfileId(result.data.defaultProfileId || result.data.profiles[0]?.id || '');
+      }
+    } catch (error) {
+      console.error('Error loading zone settings profiles:', error);
+    }
+  };
+
   const getDomainName = (zoneId: string): string => {
     const domain = allDomains.find(d => d.zoneId === zoneId);
     return domain?.domain || zoneId;
@@ -124,6 +161,10 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
         return `${isEnabled ? 'Activar' : 'Desactivar'} Under Attack Mode en ${domainCount} dominios`;
       case 'botFight':
         return `${isEnabled ? 'Activar' : 'Desactivar'} Bot Fight Mode en ${domainCount} dominios`;
+      case 'enforceProfile': {
+        const profile = settingsProfiles.find(p => p.id === selectedProfileId);
+        return `Aplicar perfil "${profile?.name || ''}" en ${domainCount} dominios`;
+      }
       default:
         return 'Operación masiva';
     }
@@ -177,6 +218,17 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
         }))
       };
       await bulkOperation.startCustomOperation(endpoint, payload);
+    } else if (action === 'enforceProfile') {
+      // Zone settings profile enforcement
+      const endpoint = '/api/zone-settings/enforce-stream';
+      const payload = {
+        profileId: selectedProfileId,
+        targets: selectedDomains.map(zoneId => ({
+          zoneId,
+          domainName: getDomainName(zoneId)
+        }))
+      };
+      await bulkOperation.startCustomOperation(endpoint, payload);
     } else if ((action === 'add' || action === 'remove' || action === 'clean') && useNewRulesModal) {
       // Rules operations using new 3-phase streaming system
       const endpoint = '/api/domains/rules/bulk-action-stream';
@@ -270,6 +322,38 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
     }
   };
 
+  const handleEnforceProfile = () => {
+    if (!selectedProfileId) {
+      toast.error('Selecciona un perfil de ajustes');
+      return;
+    }
+
+    const domains = selectedDomains.map(zoneId => ({
+      zoneId,
+      domainName: getDomainName(zoneId)
+    }));
+
+    bulkOperation.initializeDomains(domains);
+    setAction('enforceProfile');
+    setShowProgressModal(true);
+  };
+
+  /**
+   * Selected zones the token can't run the action on: the action is blocked when it's all of them,
+   * otherwise the note warns that those zones will fail
+   */
+  const getCapabilityStatus = (actionType: ActionType) => {
+    const capability = ACTION_CAPABILITIES[actionType];
+    const denied = deniedZones(selectedDomains, capability).length;
+    const label = TOKEN_CAPABILITY_LABELS[capability];
+
+    if (denied === 0) return { blocked: false, note: null };
+    if (denied === selectedDomains.length) {
+      return { blocked: true, note: `El token no tiene el permiso "${label}" en los dominios seleccionados` };
+    }
+    return { blocked: false, note: `${denied} dominios sin permiso "${label}", fallarán` };
+  };
+
   const getActionIcon = () => {
     switch (action) {
       case 'add': return <Plus className="h-4 w-4" />;
@@ -290,6 +374,17 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
     return null;
   }
 
+  // Every action of the bar changes the zones, read-only users don't get it
+  if (!can('domains:write')) {
+    return null;
+  }
+
+  const rulesStatus = getCapabilityStatus(action);
+  const profileStatus = getCapabilityStatus('enforceProfile');
+  const proxyStatus = getCapabilityStatus('proxy');
+  const underAttackStatus = getCapabilityStatus('underAttack');
+  const botFightStatus = getCapabilityStatus('botFight');
+
   return (
     <>
       <div className="flex items-center gap-4 p-4 bg-muted rounded-lg border">
@@ -339,12 +434,14 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
                   Eliminar
                 </div>
               </SelectItem>
-              <SelectItem value="clean">
-                <div className="flex items-center gap-2">
-                  <Trash2 className="h-4 w-4" />
-                  Limpiar Todo
-                </div>
-              </SelectItem>
+              {can('rules:destructive') && (
+                <SelectItem value="clean">
+                  <div className="flex items-center gap-2">
+                    <Trash2 className="h-4 w-4" />
+                    Limpiar Todo
+                  </div>
+                </SelectItem>
+              )}
             </SelectContent>
           </Select>
 
@@ -368,7 +465,7 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
 
           <Button
             onClick={handleConfirmAction}
-            disabled={loading || (action !== 'clean' && selectedRules.length === 0)}
+            disabled={loading || rulesStatus.blocked || (action !== 'clean' && selectedRules.length === 0)}
             className="ml-2"
           >
             {loading ? (
@@ -378,8 +475,48 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
             )}
             <span className="ml-1">Procesar</span>
           </Button>
+          {rulesStatus.note && (
+            <span className="text-xs text-amber-600 max-w-[220px]">{rulesStatus.note}</span>
+          )}
         </div>
 
+        {settingsProfiles.length > 0 && (
+          <>
+            <Separator orientation="vertical" className="h-6" />
+            <div className="flex items-center gap-1">
+              <Select value={selectedProfileId} onValueChange={setSelectedProfileId}>
+                <SelectTrigger className="w-40 h-8">
+                  <SelectValue placeholder="Perfil" />
+                </SelectTrigger>
+                <SelectContent>
+                  {settingsProfiles.map(profile => (
+                    <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={handleEnforceProfile}
+                      disabled={loading || !selectedProfileId || profileStatus.blocked}
+                      className="p-2"
+                    >
+                      <SlidersHorizontal className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Aplicar perfil de ajustes</p>
+                    {profileStatus.note && <p className="text-xs opacity-75">{profileStatus.note}</p>}
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            </div>
+          </>
+        )}
+
         {onBulkProxy && (
           <>
             <Separator orientation="vertical" className="h-6" />
@@ -391,7 +528,7 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
                       size="sm"
                       variant="ghost"
                       onClick={() => handleBulkAction('proxy', true)}
-                      disabled={loading}
+                      disabled={loading || proxyStatus.blocked}
                       className="p-2 hover:bg-green-50"
                     >
                       <Shield className="h-4 w-4 text-green-600" />
@@ -399,6 +536,7 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
                   </TooltipTrigger>
                   <TooltipContent>
                     <p>Habilitar Proxy</p>
+                    {proxyStatus.note && <p className="text-xs opacity-75">{proxyStatus.note}</p>}
                   </TooltipContent>
                 </Tooltip>
                 <Tooltip>
@@ -407,7 +545,7 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
                       size="sm"
                       variant="ghost"
                       onClick={() => handleBulkAction('proxy', false)}
-                      disabled={loading}
+                      disabled={loading || proxyStatus.blocked}
                       className="p-2 hover:bg-red-50"
                     >
                       <Shield className="h-4 w-4 text-gray-400" />
@@ -415,6 +553,7 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
                   </TooltipTrigger>
                   <TooltipContent>
                     <p>Deshabilitar Proxy</p>
+                    {proxyStatus.note && <p className="text-xs opacity-75">{proxyStatus.note}</p>}
                   </TooltipContent>
                 </Tooltip>
               </div>
@@ -433,7 +572,7 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
                       size="sm"
                       variant="ghost"
                       onClick={() => handleBulkAction('underAttack', true)}
-                      disabled={loading}
+                      disabled={loading || underAttackStatus.blocked}
                       className="p-2 hover:bg-orange-50"
                     >
                       <Siren className="h-4 w-4 text-red-500" />
@@ -441,6 +580,7 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
                   </TooltipTrigger>
                   <TooltipContent>
                     <p>Habilitar Under Attack</p>
+                    {underAttackStatus.note && <p className="text-xs opacity-75">{underAttackStatus.note}</p>}
                   </TooltipContent>
                 </Tooltip>
                 <Tooltip>
@@ -449,7 +589,7 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
                       size="sm"
                       variant="ghost"
                       onClick={() => handleBulkAction('underAttack', false)}
-                      disabled={loading}
+                      disabled={loading || underAttackStatus.blocked}
                       className="p-2 hover:bg-gray-50"
                     >
                       <Siren className="h-4 w-4 text-gray-400" />
@@ -457,6 +597,7 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
                   </TooltipTrigger>
                   <TooltipContent>
                     <p>Deshabilitar Under Attack</p>
+                    {underAttackStatus.note && <p className="text-xs opacity-75">{underAttackStatus.note}</p>}
                   </TooltipContent>
                 </Tooltip>
               </div>
@@ -475,7 +616,7 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
                       size="sm"
                       variant="ghost"
                       onClick={() => handleBulkAction('botFight', true)}
-                      disabled={loading}
+                      disabled={loading || botFightStatus.blocked}
                       className="p-2 hover:bg-blue-50"
                     >
                       <Bot className="h-4 w-4 text-blue-500" />
@@ -483,6 +624,7 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
                   </TooltipTrigger>
                   <TooltipContent>
                     <p>Habilitar Bot Fight</p>
+                    {botFightStatus.note && <p className="text-xs opacity-75">{botFightStatus.note}</p>}
                   </TooltipContent>
                 </Tooltip>
                 <Tooltip>
@@ -491,7 +633,7 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
                       size="sm"
                       variant="ghost"
                       onClick={() => handleBulkAction('botFight', false)}
-                      disabled={loading}
+                      disabled={loading || botFightStatus.blocked}
                       className="p-2 hover:bg-gray-50"
                     >
                       <Bot className="h-4 w-4 text-gray-400" />
@@ -499,6 +641,7 @@ export function RulesActionBar({ selectedDomains, onClearSelection, onRefreshSel
                   </TooltipTrigger>
                   <TooltipContent>
                     <p>Deshabilitar Bot Fight</p>
+                    {botFightStatus.note && <p className="text-xs opacity-75">{botFightStatus.note}</p>}
                   </TooltipContent>
                 </Tooltip>
               </div>
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { Shield, Plus, RefreshCw } from 'lucide-react';
+import { Shield, Plus, RefreshCw, FlaskConical } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { tokenStorage } from '@/lib/tokenStorage';
 import { toast } from 'sonner';
@@ -9,9 +9,10 @@ import { toast } from 'sonner';
 interface SecurityRulesHeaderProps {
   templateCount: number;
   onCreateNew: () => void;
+  onTestRules: () => void;
 }
 
-export function SecurityRulesHeader({ templateCount, onCreateNew }: SecurityRulesHeaderProps) {
+export function SecurityRulesHeader({ templateCount, onCreateNew, onTestRules }: SecurityRulesHeaderProps) {
   const [isAutoDetecting, setIsAutoDetecting] = useState(false);
 
   const handleAutoDetect = async () => {
@@ -74,6 +75,14 @@ export function SecurityRulesHeader({ templateCount, onCreateNew }: SecurityRule
           <RefreshCw className={`h-4 w-4 mr-2 ${isAutoDetecting ? 'animate-spin' : ''}`} />
           Auto-detectar Plantillas
         </Button>
+        <Button
+          variant="outline"
+          onClick={onTestRules}
+          disabled={templateCount === 0}
+        >
+          <FlaskConical className="h-4 w-4 mr-2" />
+          Probar reglas
+        </Button>
       </div>
     </div>
   );
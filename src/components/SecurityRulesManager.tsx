@@ -1,14 +1,22 @@
 'use client';
 
+import { useState } from 'react';
 import { SecurityRulesHeader } from './SecurityRulesHeader';
 import { SecurityRulesEmptyState } from './SecurityRulesEmptyState';
 import { RuleTemplateCard } from './RuleTemplateCard';
 import { RuleTemplateDialog } from './RuleTemplateDialog';
 import { BulkUpdatePreviewModal } from './BulkUpdatePreviewModal';
 import { RuleUpdateConfirmationModal } from './RuleUpdateConfirmationModal';
+import { RuleSimulatorModal } from './RuleSimulatorModal';
+import { ChangeRequestsPanel } from './ChangeRequestsPanel';
 import { useSecurityRulesManager } from '@/hooks/useSecurityRulesManager';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { useApprovalPolicy } from '@/hooks/useApprovalPolicy';
 
 export default function SecurityRulesManager() {
+  const [showSimulator, setShowSimulator] = useState(false);
+  const { authEnabled, can } = useCurrentUser();
+  const approvalPolicy = useApprovalPolicy();
   const {
     templates,
     loading,
@@ -22,6 +30,7 @@ export default function SecurityRulesManager() {
     showUpdateConfirmation,
     updateConfirmationData,
     ruleUsageStats,
+    changeRequestsVersion,
     setShowCreateDialog,
     setShowEditDialog,
     setShowPreviewModal,
@@ -29,21 +38,27 @@ export default function SecurityRulesManager() {
     setUpdateConfirmationData,
     handleEditTemplate,
     handleUpdateAllDomains,
+    getBulkUpdatePreview,
     executeBulkUpdate,
     createTemplate,
     updateTemplate,
     deleteTemplate,
     updateFormField,
     handleRuleUpdateConfirmation,
+    requestBulkUpdateApproval,
+    requestRuleUpdateApproval,
     registerProgressCallback,
   } = useSecurityRulesManager();
 
+  // Approval needs user accounts: the requester and the reviewer must be different users
+  const canRequestApproval = authEnabled && can('domains:write');
 
   return (
     <div className="space-y-6">
       <SecurityRulesHeader
         templateCount={templates.length}
         onCreateNew={() => setShowCreateDialog(true)}
+        onTestRules={() => setShowSimulator(true)}
       />
 
       <div className="space-y-4">
@@ -63,6 +78,7 @@ export default function SecurityRulesManager() {
                 usageStats={ruleUsageStats.get(template.friendlyId)}
                 onEdit={handleEditTemplate}
                 onUpdateAll={handleUpdateAllDomains}
+                onApplyAll={getBulkUpdatePreview}
                 onDelete={deleteTemplate}
               />
             ))}
@@ -70,6 +86,15 @@ export default function SecurityRulesManager() {
         )}
       </div>
 
+      {authEnabled && (
+        <ChangeRequestsPanel
+          reloadKey={changeRequestsVersion}
+          policy={approvalPolicy.policy}
+          savingPolicy={approvalPolicy.saving}
+          onSavePolicy={approvalPolicy.savePolicy}
+        />
+      )}
+
       <RuleTemplateDialog
         isOpen={showCreateDialog}
         isEdit={false}
@@ -93,6 +118,10 @@ export default function SecurityRulesManager() {
           isOpen={showPreviewModal}
           onClose={() => setShowPreviewModal(false)}
           onConfirm={executeBulkUpdate}
+          onRequestApproval={canRequestApproval ? requestBulkUpdateApproval : undefined}
+          approvalRequired={approvalPolicy.requiresApproval(previewData.domains
+            .filter(domain => domain.action !== 'skip')
+            .map(domain => domain.zoneId))}
           template={previewData.template}
           domains={previewData.domains}
           isUpdating={updatingTemplate !== null}
@@ -109,9 +138,17 @@ export default function SecurityRulesManager() {
           template={updateConfirmationData.template}
           affectedDomains={updateConfirmationData.affectedDomains}
           onConfirm={handleRuleUpdateConfirmation}
+          onRequestApproval={canRequestApproval ? requestRuleUpdateApproval : undefined}
+          approvalRequired={approvalPolicy.requiresApproval(updateConfirmationData.affectedDomains.map(domain => domain.zoneId))}
           onUpdateProgress={registerProgressCallback}
         />
       )}
+
+      <RuleSimulatorModal
+        isOpen={showSimulator}
+        onClose={() => setShowSimulator(false)}
+        templates={templates}
+      />
     </div>
   );
 }
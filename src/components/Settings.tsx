@@ -10,6 +10,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Key,
   Palette,
@@ -21,10 +22,42 @@ import {
   Clock,
   RotateCcw,
   LogOut,
-  Trash2
+  Trash2,
+  CalendarClock,
+  Play
 } from 'lucide-react';
 import { tokenStorage } from '@/lib/tokenStorage';
 import { settingsStorage } from '@/lib/settingsStorage';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import type { RateLimitBudget } from '@/lib/rateLimiter';
+import type { RefreshScheduleCache } from '@/lib/refreshScheduler';
+import type { RefreshRun } from '@/types/cloudflare';
+
+interface RefreshScheduleState extends RefreshScheduleCache {
+  nextRun: string | null;
+  running: boolean;
+  hasEnvironmentToken: boolean;
+}
+
+const CRON_PRESETS: Array<{ value: string; label: string }> = [
+  { value: '0 * * * *', label: 'Cada hora' },
+  { value: '0 */6 * * *', label: 'Cada 6 horas' },
+  { value: '0 3 * * *', label: 'Todos los días a las 03:00' },
+  { value: '0 3 * * 1', label: 'Los lunes a las 03:00' }
+];
+
+const RUN_STATUS_LABELS: Record<RefreshRun['status'], string> = {
+  running: 'En curso',
+  success: 'Correcta',
+  failed: 'Fallida',
+  skipped: 'Omitida'
+};
+
+function formatDuration(ms?: number) {
+  if (ms === undefined) return '—';
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
 
 interface SettingsProps {
   open: boolean;
@@ -39,12 +72,21 @@ export function Settings({ open, onOpenChange, onTokenChange, onLogout }: Settin
   const [testResults, setTestResults] = useState<any>(null);
   const [showTokenChangeWarning, setShowTokenChangeWarning] = useState(false);
   const [clearingCache, setClearingCache] = useState(false);
+  const { can } = useCurrentUser();
 
   const tokenInputRef = useRef<HTMLInputElement>(null);
 
   // Rate limiting settings
   const [batchSize, setBatchSize] = useState(4);
-  const [batchDelay, setBatchDelay] = useState(6000);
+  const [rateLimitBudget, setRateLimitBudget] = useState<RateLimitBudget | null>(null);
+
+  // Scheduled refresh (server-side)
+  const [schedule, setSchedule] = useState<RefreshScheduleState | null>(null);
+  const [scheduleEnabled, setScheduleEnabled] = useState(false);
+  const [cronExpression, setCronExpression] = useState('');
+  const [scheduleBatchSize, setScheduleBatchSize] = useState(4);
+  const [scheduleError, setScheduleError] = useState<string | null>(null);
+  const [savingSchedule, setSavingSchedule] = useState(false);
 
   // Theme setting
   const [theme, setTheme] = useState<'light' | 'dark' | 'system'>('system');
@@ -54,11 +96,107 @@ export function Settings({ open, onOpenChange, onTokenChange, onLogout }: Settin
     if (open) {
       const settings = settingsStorage.getSettings();
       setBatchSize(settings.apiRateLimiting.batchSize);
-      setBatchDelay(settings.apiRateLimiting.batchDelay);
       setTheme(settings.theme);
     }
   }, [open]);
 
+  // Poll the server-side rate limit budget while the Rate Limiting tab is visible
+  useEffect(() => {
+    if (!open || activeTab !== 'api') return;
+
+    const loadBudget = async () => {
+      try {
+        const response = await fetch('/api/rate-limit');
+        const result = await response.json();
+        if (result.success) {
+          setRateLimitBudget(result.data);
+        }
+      } catch (error) {
+        console.error('[Settings] Error loading rate limit budget:', error);
+      }
+    };
+
+    loadBudget();
+    const interval = setInterval(loadBudget, 5000);
+    return () => clearInterval(interval);
+  }, [open, activeTab]);
+
+  const applySchedule = (data: RefreshScheduleState) => {
+    setSchedule(data);
+    setScheduleEnabled(data.config.enabled);
+    setCronExpression(data.config.cronExpression);
+    setScheduleBatchSize(data.config.batchSize);
+  };
+
+  // Refresh the schedule status while the Schedule tab is visible (runs finish in the background)
+  useEffect(() => {
+    if (!open || activeTab !== 'schedule') return;
+
+    // Only the first load fills the form, polling must not overwrite what is being edited
+    const loadSchedule = async (fillForm: boolean) => {
+      try {
+        const response = await fetch('/api/refresh-schedule');
+        const result = await response.json();
+        if (result.success) {
+          if (fillForm) {
+            applySchedule(result.data);
+          } else {
+            setSchedule(result.data);
+          }
+        }
+      } catch (error) {
+        console.error('[Settings] Error loading refresh schedule:', error);
+      }
+    };
+
+    loadSchedule(true);
+    const interval = setInterval(() => loadSchedule(false), 5000);
+    return () => clearInterval(interval);
+  }, [open, activeTab]);
+
+  const saveSchedule = async () => {
+    try {
+      setSavingSchedule(true);
+      setScheduleError(null);
+      const response = await fetch('/api/refresh-schedule', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          enabled: scheduleEnabled,
+          cronExpression,
+          batchSize: scheduleBatchSize
+        })
+      });
+      const result = await response.json();
+      if (!result.success) {
+        setScheduleError(result.details?.[0]?.message || result.error || 'Error al guardar la programación');
+        return;
+      }
+      applySchedule(result.data);
+    } catch (error) {
+      console.error('[Settings] Error saving refresh schedule:', error);
+      setScheduleError('Error al guardar la programación');
+    } finally {
+      setSavingSchedule(false);
+    }
+  };
+
+  const runScheduleNow = async () => {
+    try {
+      setScheduleError(null);
+      const response = await fetch('/api/refresh-schedule/run', { method: 'POST' });
+      const result = await response.json();
+      if (!result.success) {
+        setScheduleError(result.error || 'No se pudo iniciar la actualización');
+        return;
+      }
+      setSchedule(prev => prev ? { ...prev, running: true } : prev);
+    } catch (error) {
+      console.error('[Settings] Error starting refresh:', error);
+      setScheduleError('No se pudo iniciar la actualización');
+    }
+  };
+
   const runTokenTest = async () => {
     const token = tokenInputRef.current?.value.trim();
     if (!token) return;
@@ -92,10 +230,10 @@ export function Settings({ open, onOpenChange, onTokenChange, onLogout }: Settin
 
     try {
       // Check if token is different
-      const currentToken = tokenStorage.getToken();
-      const isTokenChanged = currentToken !== token;
+      const isTokenChanged = !tokenStorage.isCurrentToken(token);
 
-      tokenStorage.setToken(token);
+      // A vaulted token is rotated, the server validates the new token first
+      await tokenStorage.setToken(token);
 
       // Clear cache if token changed
       if (isTokenChanged) {
@@ -110,7 +248,9 @@ export function Settings({ open, onOpenChange, onTokenChange, onLogout }: Settin
       console.error('Error saving token:', error);
       setTestResults({
         success: false,
-        error: 'Error al guardar el token. Intenta de nuevo.',
+        error: error instanceof Error && error.message
+          ? `Error al guardar el token: ${error.message}`
+          : 'Error al guardar el token. Intenta de nuevo.',
       });
     }
   };
@@ -122,7 +262,7 @@ export function Settings({ open, onOpenChange, onTokenChange, onLogout }: Settin
   };
 
   const saveRateLimitingSettings = () => {
-    settingsStorage.setRateLimiting(batchSize, batchDelay);
+    settingsStorage.setRateLimiting(batchSize);
 
     // Show success feedback
     const successMessage = document.createElement('div');
@@ -156,7 +296,6 @@ export function Settings({ open, onOpenChange, onTokenChange, onLogout }: Settin
     settingsStorage.resetToDefaults();
     const defaults = settingsStorage.getSettings();
     setBatchSize(defaults.apiRateLimiting.batchSize);
-    setBatchDelay(defaults.apiRateLimiting.batchDelay);
     setTheme(defaults.theme);
     saveTheme(defaults.theme);
   };
@@ -207,6 +346,7 @@ export function Settings({ open, onOpenChange, onTokenChange, onLogout }: Settin
   };
 
   const storedToken = tokenStorage.getToken();
+  const maskedToken = tokenStorage.getActiveAccount()?.maskedToken;
   const tokenAge = tokenStorage.getTokenAge();
 
   return (
@@ -223,7 +363,7 @@ export function Settings({ open, onOpenChange, onTokenChange, onLogout }: Settin
         </DialogHeader>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="token" className="flex items-center gap-2">
               <Key className="h-4 w-4" />
               Token API
@@ -236,6 +376,10 @@ export function Settings({ open, onOpenChange, onTokenChange, onLogout }: Settin
               <Gauge className="h-4 w-4" />
               Rate Limiting
             </TabsTrigger>
+            <TabsTrigger value="schedule" className="flex items-center gap-2">
+              <CalendarClock className="h-4 w-4" />
+              Programación
+            </TabsTrigger>
           </TabsList>
 
           {/* TOKEN TAB */}
@@ -253,7 +397,7 @@ export function Settings({ open, onOpenChange, onTokenChange, onLogout }: Settin
                     <div className="flex items-center justify-between">
                       <div className="text-sm">
                         <p className="font-medium text-blue-900 dark:text-blue-100">Token actual</p>
-                        <p className="text-blue-700 dark:text-blue-300 font-mono">***{storedToken.slice(-8)}</p>
+                        <p className="text-blue-700 dark:text-blue-300 font-mono">{maskedToken}</p>
                         {tokenAge !== null && (
                           <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">
                             Guardado: {tokenAge === 0 ? 'Ahora' : `hace ${tokenAge}h`}
@@ -278,7 +422,8 @@ export function Settings({ open, onOpenChange, onTokenChange, onLogout }: Settin
                     </p>
                     <Button
                       onClick={handleClearCache}
-                      disabled={clearingCache}
+                      disabled={clearingCache || !can('templates:manage')}
+                      title={can('templates:manage') ? undefined : 'Requiere el rol Administrador de seguridad'}
                       variant="outline"
                       className="w-full border-red-200 dark:border-red-800 hover:bg-red-50 dark:hover:bg-red-950 hover:text-red-700 dark:hover:text-red-300"
                     >
@@ -454,25 +599,6 @@ export function Settings({ open, onOpenChange, onTokenChange, onLogout }: Settin
                     </p>
                   </div>
 
-                  <div className="space-y-2">
-                    <Label htmlFor="batch-delay">
-                      Espera entre Lotes (ms)
-                      <span className="text-xs text-muted-foreground ml-2">Milisegundos de pausa</span>
-                    </Label>
-                    <Input
-                      id="batch-delay"
-                      type="number"
-                      min="500"
-                      max="15000"
-                      step="500"
-                      value={batchDelay}
-                      onChange={(e) => setBatchDelay(parseInt(e.target.value) || 6000)}
-                    />
-                    <p className="text-xs text-muted-foreground">
-                      Recomendado: 5000-8000ms (5-8 segundos). Valores más altos = más lento pero más seguro.
-                    </p>
-                  </div>
-
                   <Button onClick={saveRateLimitingSettings} className="w-full">
                     Guardar Configuración de API
                   </Button>
@@ -488,6 +614,7 @@ export function Settings({ open, onOpenChange, onTokenChange, onLogout }: Settin
                         <p className="font-medium text-blue-900 dark:text-blue-100">Límites de Cloudflare</p>
                         <p className="text-blue-700 dark:text-blue-300 mt-1">
                           Cloudflare permite <strong>1200 requests por 5 minutos</strong>. Cada dominio requiere ~7 llamadas API.
+                          El servidor regula automáticamente las pausas entre lotes según el presupuesto disponible y respeta las respuestas 429 (Retry-After).
                         </p>
                       </div>
                     </div>
@@ -498,9 +625,16 @@ export function Settings({ open, onOpenChange, onTokenChange, onLogout }: Settin
                       <p className="font-medium text-green-900 dark:text-green-100">Configuración Actual</p>
                       <div className="text-green-700 dark:text-green-300 mt-2 space-y-1">
                         <p>• Batch Size: {batchSize} dominios en paralelo</p>
-                        <p>• Delay: {batchDelay}ms ({(batchDelay / 1000).toFixed(1)}s) entre lotes</p>
                         <p>• Estimado: ~{Math.ceil(110 / batchSize)} lotes para 110 dominios</p>
-                        <p>• Tiempo total: ~{Math.ceil((110 / batchSize) * (batchDelay / 1000))}s</p>
+                        {rateLimitBudget && (
+                          <>
+                            <p>• Presupuesto disponible: {rateLimitBudget.remaining}/{rateLimitBudget.capacity} requests</p>
+                            <p>• Recarga: {rateLimitBudget.refillPerSecond.toFixed(1)} requests/s</p>
+                            {rateLimitBudget.pausedUntil && (
+                              <p>• Pausado por Cloudflare (429) hasta {new Date(rateLimitBudget.pausedUntil).toLocaleTimeString()}</p>
+                            )}
+                          </>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -515,6 +649,132 @@ export function Settings({ open, onOpenChange, onTokenChange, onLogout }: Settin
               </Button>
             </div>
           </TabsContent>
+
+          {/* SCHEDULED REFRESH TAB */}
+          <TabsContent value="schedule" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Actualización programada</CardTitle>
+                <CardDescription>
+                  El servidor actualiza la caché de dominios en segundo plano con el token de entorno
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {schedule && !schedule.hasEnvironmentToken && (
+                  <div className="bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800 rounded-lg p-3">
+                    <div className="flex items-start gap-2">
+                      <AlertTriangle className="h-5 w-5 text-amber-600 dark:text-amber-400 mt-0.5 flex-shrink-0" />
+                      <div className="text-sm">
+                        <p className="font-medium text-amber-900 dark:text-amber-100">Sin token de entorno</p>
+                        <p className="text-amber-700 dark:text-amber-300 mt-1">
+                          Define <code>CLOUDFLARE_API_TOKEN</code> en el servidor para que las actualizaciones programadas puedan ejecutarse.
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="schedule-enabled"
+                    checked={scheduleEnabled}
+                    onCheckedChange={(checked) => setScheduleEnabled(checked === true)}
+                  />
+                  <Label htmlFor="schedule-enabled">Activar actualización programada</Label>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="cron-expression">
+                    Expresión cron
+                    <span className="text-xs text-muted-foreground ml-2">minuto hora día mes día-semana (hora del servidor)</span>
+                  </Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="cron-expression"
+                      value={cronExpression}
+                      onChange={(e) => setCronExpression(e.target.value)}
+                      placeholder="0 */6 * * *"
+                      className="font-mono"
+                    />
+                    <Select value="" onValueChange={setCronExpression}>
+                      <SelectTrigger className="w-56">
+                        <SelectValue placeholder="Predefinidas" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CRON_PRESETS.map(preset => (
+                          <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="schedule-batch-size">Tamaño del lote</Label>
+                  <Input
+                    id="schedule-batch-size"
+                    type="number"
+                    min="1"
+                    max="12"
+                    value={scheduleBatchSize}
+                    onChange={(e) => setScheduleBatchSize(parseInt(e.target.value) || 4)}
+                  />
+                </div>
+
+                {scheduleError && (
+                  <div className="text-sm text-red-600 p-3 border border-red-200 rounded">
+                    {scheduleError}
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  <Button onClick={saveSchedule} disabled={savingSchedule} className="flex-1">
+                    {savingSchedule ? 'Guardando...' : 'Guardar Programación'}
+                  </Button>
+                  <Button
+                    onClick={runScheduleNow}
+                    variant="outline"
+                    disabled={!schedule?.hasEnvironmentToken || schedule?.running}
+                  >
+                    {schedule?.running ? (
+                      <Clock className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Play className="h-4 w-4 mr-2" />
+                    )}
+                    {schedule?.running ? 'Actualizando...' : 'Ejecutar ahora'}
+                  </Button>
+                </div>
+
+                <Separator />
+
+                <div className="space-y-2 text-sm">
+                  <p>
+                    <span className="text-muted-foreground">Próxima ejecución: </span>
+                    {schedule?.nextRun ? new Date(schedule.nextRun).toLocaleString('es-ES') : 'Desactivada'}
+                  </p>
+                  <Label>Últimas ejecuciones</Label>
+                  {!schedule || schedule.runs.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">Todavía no hubo ejecuciones</p>
+                  ) : (
+                    <div className="space-y-1">
+                      {schedule.runs.map(run => (
+                        <div key={run.id} className="flex items-center gap-3 text-xs border rounded px-2 py-1">
+                          <span className="w-36">{new Date(run.startedAt).toLocaleString('es-ES')}</span>
+                          <Badge variant={run.status === 'failed' ? 'destructive' : run.status === 'success' ? 'default' : 'secondary'}>
+                            {RUN_STATUS_LABELS[run.status]}
+                          </Badge>
+                          <span className="text-muted-foreground">{run.trigger === 'scheduled' ? 'Programada' : 'Manual'}</span>
+                          <span>{formatDuration(run.durationMs)}</span>
+                          {run.domainsProcessed !== undefined && <span>{run.domainsProcessed} dominios</span>}
+                          {run.error && <span className="text-red-600 truncate" title={run.error}>{run.error}</span>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </DialogContent>
     </Dialog>
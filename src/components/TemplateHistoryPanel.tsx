@@ -0,0 +1,252 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { RuleTemplate, TemplateRevision, TemplateRevisionSource } from '@/types/cloudflare';
+import { tokenStorage } from '@/lib/tokenStorage';
+import { findDomainsWithRule, updateRuleInDomains } from '@/lib/ruleUpdater';
+import { useDomainStore } from '@/store/domainStore';
+
+const SOURCE_LABELS: Record<TemplateRevisionSource, string> = {
+  initial: 'Estado previo al historial',
+  ui_create: 'Creada desde la interfaz',
+  ui_edit: 'Editada desde la interfaz',
+  domain_sync: 'Sincronizada desde un dominio',
+  rollback: 'Rollback'
+};
+
+interface DiffRow {
+  left?: { text: string; changed: boolean };
+  right?: { text: string; changed: boolean };
+}
+
+/**
+ * Line diff (longest common subsequence) laid out as side-by-side rows
+ */
+function diffLines(before: string, after: string): DiffRow[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      rows.push({ left: { text: a[i++], changed: false }, right: { text: b[j++], changed: false } });
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      rows.push({ right: { text: b[j++], changed: true } });
+    } else {
+      rows.push({ left: { text: a[i++], changed: true } });
+    }
+  }
+  return rows;
+}
+
+function describeSource(revision: TemplateRevision): string {
+  if (revision.source === 'domain_sync' && revision.sourceDomain) {
+    return `Sincronizada desde ${revision.sourceDomain}`;
+  }
+  if (revision.source === 'rollback' && revision.restoredFrom) {
+    return `Rollback a v${revision.restoredFrom}`;
+  }
+  return SOURCE_LABELS[revision.source];
+}
+
+interface TemplateHistoryPanelProps {
+  template: RuleTemplate;
+  onRolledBack: () => void;
+}
+
+export function TemplateHistoryPanel({ template, onRolledBack }: TemplateHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<TemplateRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/security-rules/${template.id}/history`);
+      const result = await response.json();
+      if (result.success) {
+        setRevisions(result.data.revisions);
+      } else {
+        toast.error(result.error || 'Error al cargar el historial');
+      }
+    } catch (error) {
+      console.error('Error loading template history:', error);
+      toast.error('Error al cargar el historial');
+    } finally {
+      setLoading(false);
+    }
+  }, [template.id]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const isCurrent = (revision: TemplateRevision) =>
+    revision.version === template.version &&
+    revision.expression === template.expression &&
+    revision.action === template.action;
+
+  const selected = revisions.find(revision => revision.id === selectedId) ||
+    revisions.find(revision => !isCurrent(revision)) ||
+    null;
+
+  const rows = useMemo(
+    () => selected ? diffLines(selected.expression, template.expression) : [],
+    [selected, template.expression]
+  );
+
+  const propagate = async (restored: RuleTemplate) => {
+    const apiToken = tokenStorage.getToken();
+    if (!apiToken) return;
+
+    const { allDomains, refreshMultipleDomains } = useDomainStore.getState();
+    const affected = await findDomainsWithRule(restored.friendlyId, allDomains);
+    if (affected.length === 0) return;
+
+    if (!confirm(`¿Aplicar la versión ${restored.version} en los ${affected.length} dominios que usan ${restored.friendlyId}?`)) {
+      toast.info(`Los dominios con ${restored.friendlyId} aparecerán como desactualizados`);
+      return;
+    }
+
+    const toastId = toast.loading(`Aplicando ${restored.friendlyId} en ${affected.length} dominios...`);
+    const zoneIds = affected.map(domain => domain.zoneId);
+    const result = await updateRuleInDomains(restored, zoneIds, apiToken, (completed, total) => {
+      toast.loading(`Aplicando ${restored.friendlyId}: ${completed}/${total} dominios`, { id: toastId });
+    });
+
+    if (result.failed.length > 0) {
+      toast.error(`Regla aplicada en ${result.successful}/${zoneIds.length} dominios; ${result.failed.length} con errores`, { id: toastId });
+    } else {
+      toast.success(`Regla aplicada en ${result.successful} dominios`, { id: toastId });
+    }
+    await refreshMultipleDomains(zoneIds);
+  };
+
+  const handleRollback = async (revision: TemplateRevision) => {
+    if (!confirm(`¿Restaurar ${template.friendlyId} al contenido de la versión ${revision.version}?`)) {
+      return;
+    }
+
+    setRollingBack(true);
+    try {
+      const response = await fetch(`/api/security-rules/${template.id}/rollback`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ revisionId: revision.id })
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        toast.error(result.details?.[0]?.message || result.error || 'Error al restaurar la revisión');
+        return;
+      }
+
+      const restored: RuleTemplate = result.data;
+      toast.success(`${restored.friendlyId} restaurada como versión ${restored.version}`);
+      setSelectedId(null);
+      onRolledBack();
+      await loadHistory();
+      await propagate(restored);
+    } catch (error) {
+      console.error('Error rolling back template:', error);
+      toast.error('Error al restaurar la revisión');
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
+  if (loading && revisions.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-4 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+        Cargando historial...
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground py-2">
+        Sin revisiones registradas. El historial empieza con el próximo cambio de la plantilla.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-[minmax(0,1fr)_minmax(0,2fr)] gap-4">
+      <div className="space-y-1 max-h-80 overflow-y-auto">
+        {revisions.map(revision => (
+          <button
+            key={revision.id}
+            type="button"
+            onClick={() => setSelectedId(revision.id)}
+            className={`w-full text-left rounded border p-2 text-xs hover:bg-muted ${selected?.id === revision.id ? 'border-blue-500 bg-muted' : ''}`}
+          >
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" className="font-mono">v{revision.version}</Badge>
+              <Badge variant="outline">{revision.action}</Badge>
+              {isCurrent(revision) && <Badge className="bg-green-500 text-white border-0">Actual</Badge>}
+            </div>
+            <div className="mt-1">{describeSource(revision)}</div>
+            <div className="text-muted-foreground">{new Date(revision.createdAt).toLocaleString('es-ES')}</div>
+          </button>
+        ))}
+      </div>
+
+      {selected ? (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="text-sm">
+              <span className="font-medium">v{selected.version}</span> comparada con la actual (v{template.version})
+              {selected.action !== template.action && (
+                <span className="ml-2">
+                  Acción: <span className="text-red-600">{selected.action}</span> → <span className="text-green-600">{template.action}</span>
+                </span>
+              )}
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleRollback(selected)}
+              disabled={rollingBack || isCurrent(selected)}
+            >
+              {rollingBack ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+              <span className="ml-1">Restaurar esta versión</span>
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-2 text-xs font-mono border rounded overflow-x-auto">
+            <div className="px-2 py-1 border-b border-r font-sans font-medium">v{selected.version}</div>
+            <div className="px-2 py-1 border-b font-sans font-medium">Actual (v{template.version})</div>
+            {rows.map((row, index) => (
+              <div key={index} className="contents">
+                <div className={`px-2 whitespace-pre-wrap break-all border-r ${row.left?.changed ? 'bg-red-50 text-red-700 dark:bg-red-950/30' : ''}`}>
+                  {row.left?.text ?? ''}
+                </div>
+                <div className={`px-2 whitespace-pre-wrap break-all ${row.right?.changed ? 'bg-green-50 text-green-700 dark:bg-green-950/30' : ''}`}>
+                  {row.right?.text ?? ''}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Selecciona una revisión para compararla con la versión actual</p>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -10,10 +10,16 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Loader2, Shield, Settings, AlertTriangle, Trash2, Plus, Edit, Save, X } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2, Shield, Settings, AlertTriangle, Trash2, Plus, Edit, Save, X, CheckCircle, History } from 'lucide-react';
 import { toast } from 'sonner';
-import { RuleTemplate } from '@/types/cloudflare';
-import { tokenStorage } from '@/lib/tokenStorage';
+import { ManagedRulesetConfig, RateLimitConfig, RedirectConfig, RulePhase, RuleTemplate, UrlRewriteConfig } from '@/types/cloudflare';
+import { CloudflareAccount, tokenStorage } from '@/lib/tokenStorage';
+import { validateExpression, getReferencedLists, ExpressionError } from '@/lib/ruleExpression';
+import { TemplateHistoryPanel } from './TemplateHistoryPanel';
+import { CommaListInput } from './CommaListInput';
+import { RuleTemplatePhaseFields } from './RuleTemplatePhaseFields';
+import { DEFAULT_RULE_PHASE, RULE_ACTION_LABELS, RULE_PHASE_LABELS, formatPhaseConfig, getFormActions, getRulePhase } from '@/lib/rulePhases';
 
 interface TemplateManagementModalProps {
   isOpen: boolean;
@@ -25,9 +31,17 @@ interface TemplateForm {
   name: string;
   description: string;
   expression: string;
-  action: 'block' | 'challenge' | 'allow' | 'log';
+  action: RuleTemplate['action'];
+  phase: RulePhase;
+  ratelimit?: RateLimitConfig;
+  redirect?: RedirectConfig;
+  rewrite?: UrlRewriteConfig;
+  managedRuleset?: ManagedRulesetConfig;
   enabled: boolean;
   tags: string[];
+  applicableTags: string[];
+  excludedDomains: string[];
+  accountIds: string[]; // Empty: shared with every account
 }
 
 const emptyTemplate: TemplateForm = {
@@ -36,8 +50,12 @@ const emptyTemplate: TemplateForm = {
   description: '',
   expression: '',
   action: 'block',
+  phase: DEFAULT_RULE_PHASE,
   enabled: true,
-  tags: []
+  tags: [],
+  applicableTags: [],
+  excludedDomains: [],
+  accountIds: []
 };
 
 export function TemplateManagementModal({ isOpen, onClose }: TemplateManagementModalProps) {
@@ -46,20 +64,41 @@ export function TemplateManagementModal({ isOpen, onClose }: TemplateManagementM
   const [editingTemplate, setEditingTemplate] = useState<string | null>(null);
   const [formData, setFormData] = useState<TemplateForm>(emptyTemplate);
   const [isCreating, setIsCreating] = useState(false);
+  const [accountListNames, setAccountListNames] = useState<string[] | null>(null);
+  const [accounts, setAccounts] = useState<CloudflareAccount[]>([]);
 
   useEffect(() => {
     if (isOpen) {
       loadTemplates();
+      loadAccountListNames();
+      setAccounts(tokenStorage.getAccounts());
     }
   }, [isOpen]);
 
+  // Names of the account IP lists, to flag $list references that do not exist
+  // Without a token or list permissions the references are shown unchecked
+  const loadAccountListNames = async () => {
+    const apiToken = tokenStorage.getToken();
+    if (!apiToken) return;
+
+    try {
+      const response = await fetch('/api/ip-lists', { headers: { 'x-api-token': apiToken } });
+      const result = await response.json();
+      if (result.success) {
+        setAccountListNames(result.data.lists.map((list: { name: string }) => list.name));
+      }
+    } catch (error) {
+      console.warn('Could not load account IP lists:', error);
+    }
+  };
+
   const loadTemplates = async () => {
     setLoading(true);
     try {
       const response = await fetch('/api/security-rules');
       if (response.ok) {
         const data = await response.json();
-        setTemplates(data.templates || []);
+        setTemplates(data.data?.templates || []);
       } else {
         throw new Error('Error al cargar plantillas');
       }
@@ -78,9 +117,17 @@ export function TemplateManagementModal({ isOpen, onClose }: TemplateManagementM
       name: template.name,
       description: template.description,
       expression: template.expression,
-      action: template.action as 'block' | 'challenge' | 'allow' | 'log',
+      action: template.action,
+      phase: getRulePhase(template),
+      ratelimit: template.ratelimit,
+      redirect: template.redirect,
+      rewrite: template.rewrite,
+      managedRuleset: template.managedRuleset,
       enabled: template.enabled,
-      tags: template.tags || []
+      tags: template.tags || [],
+      applicableTags: template.applicableTags || [],
+      excludedDomains: template.excludedDomains || [],
+      accountIds: template.accountIds || []
     });
     setIsCreating(false);
   };
@@ -113,6 +160,15 @@ export function TemplateManagementModal({ isOpen, onClose }: TemplateManagementM
       return;
     }
 
+    // Unchanged expressions are not re-validated so imported rules can still be edited
+    const originalExpression = templates.find(t => t.id === editingTemplate)?.expression;
+    const expressionCheck = validateExpression(formData.expression);
+    if (formData.expression !== originalExpression && !expressionCheck.valid) {
+      const [firstError] = expressionCheck.errors;
+      toast.error(`Expresión inválida (línea ${firstError.line}, columna ${firstError.column}): ${firstError.message}`);
+      return;
+    }
+
     const apiToken = tokenStorage.getToken();
     if (!apiToken) {
       toast.error('Token API no encontrado');
@@ -133,9 +189,7 @@ export function TemplateManagementModal({ isOpen, onClose }: TemplateManagementM
         body: JSON.stringify({
           ...formData,
           version: isCreating ? '1.0.0' : undefined, // Version handled by API for updates
-          priority: 100,
-          applicableTags: [],
-          excludedDomains: []
+          priority: 100
         })
       });
 
@@ -145,7 +199,7 @@ export function TemplateManagementModal({ isOpen, onClose }: TemplateManagementM
         handleCancel();
       } else {
         const error = await response.json();
-        throw new Error(error.error || 'Error al guardar plantilla');
+        throw new Error(error.details?.[0]?.message || error.error || 'Error al guardar plantilla');
       }
     } catch (error) {
       console.error('Error saving template:', error);
@@ -237,6 +291,11 @@ export function TemplateManagementModal({ isOpen, onClose }: TemplateManagementM
                         {template.friendlyId}
                       </Badge>
                       <CardTitle className="text-base">{template.name}</CardTitle>
+                      {getRulePhase(template) !== DEFAULT_RULE_PHASE && (
+                        <Badge variant="outline" className="border-dashed">
+                          {RULE_PHASE_LABELS[getRulePhase(template)]}
+                        </Badge>
+                      )}
                       <Badge variant={template.enabled ? 'default' : 'secondary'}>
                         {template.enabled ? 'Habilitada' : 'Deshabilitada'}
                       </Badge>
@@ -267,6 +326,7 @@ export function TemplateManagementModal({ isOpen, onClose }: TemplateManagementM
                   </div>
                   <CardDescription>
                     {template.description} • Versión {template.version} • Acción: {template.action}
+                    {formatPhaseConfig(template) && ` • ${formatPhaseConfig(template)}`}
                   </CardDescription>
                 </CardHeader>
 
@@ -279,30 +339,47 @@ export function TemplateManagementModal({ isOpen, onClose }: TemplateManagementM
                       onCancel={handleCancel}
                       loading={loading}
                       isCreating={false}
+                      originalExpression={template.expression}
+                      accountListNames={accountListNames}
+                      accounts={accounts}
                     />
                   </CardContent>
                 )}
 
                 {editingTemplate !== template.id && (
                   <CardContent className="pt-0">
-                    <div className="space-y-2">
-                      <div className="text-sm">
-                        <span className="font-medium">Expression:</span>
-                        <div className="mt-1 p-2 bg-gray-50 rounded text-xs font-mono break-all">
-                          {template.expression}
+                    <Tabs defaultValue="details">
+                      <TabsList>
+                        <TabsTrigger value="details">Detalle</TabsTrigger>
+                        <TabsTrigger value="history">
+                          <History className="h-3 w-3" />
+                          Historial
+                        </TabsTrigger>
+                      </TabsList>
+                      <TabsContent value="details">
+                        <div className="space-y-2">
+                          <div className="text-sm">
+                            <span className="font-medium">Expression:</span>
+                            <div className="mt-1 p-2 bg-gray-50 rounded text-xs font-mono break-all">
+                              {template.expression}
+                            </div>
+                          </div>
+                          {template.tags && template.tags.length > 0 && (
+                            <div className="flex items-center gap-2">
+                              <span className="text-sm font-medium">Tags:</span>
+                              {template.tags.map((tag, index) => (
+                                <Badge key={index} variant="outline" className="text-xs">
+                                  {tag}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
                         </div>
-                      </div>
-                      {template.tags && template.tags.length > 0 && (
-                        <div className="flex items-center gap-2">
-                          <span className="text-sm font-medium">Tags:</span>
-                          {template.tags.map((tag, index) => (
-                            <Badge key={index} variant="outline" className="text-xs">
-                              {tag}
-                            </Badge>
-                          ))}
-                        </div>
-                      )}
-                    </div>
+                      </TabsContent>
+                      <TabsContent value="history">
+                        <TemplateHistoryPanel template={template} onRolledBack={loadTemplates} />
+                      </TabsContent>
+                    </Tabs>
                   </CardContent>
                 )}
               </Card>
@@ -322,6 +399,8 @@ export function TemplateManagementModal({ isOpen, onClose }: TemplateManagementM
                     onCancel={handleCancel}
                     loading={loading}
                     isCreating={true}
+                    accountListNames={accountListNames}
+                    accounts={accounts}
                   />
                 </CardContent>
               </Card>
@@ -349,9 +428,19 @@ interface TemplateFormProps {
   onCancel: () => void;
   loading: boolean;
   isCreating: boolean;
+  originalExpression?: string;
+  accountListNames: string[] | null;
+  accounts: CloudflareAccount[];
 }
 
-function TemplateForm({ formData, onUpdate, onSave, onCancel, loading, isCreating }: TemplateFormProps) {
+function TemplateForm({ formData, onUpdate, onSave, onCancel, loading, isCreating, originalExpression, accountListNames, accounts }: TemplateFormProps) {
+  const expressionCheck = useMemo(
+    () => formData.expression.trim() ? validateExpression(formData.expression) : null,
+    [formData.expression]
+  );
+  const referencedLists = useMemo(() => getReferencedLists(formData.expression), [formData.expression]);
+  const blockedByExpression = expressionCheck !== null && !expressionCheck.valid && formData.expression !== originalExpression;
+
   return (
     <div className="space-y-4">
       <div className="grid grid-cols-3 gap-4">
@@ -376,20 +465,35 @@ function TemplateForm({ formData, onUpdate, onSave, onCancel, loading, isCreatin
         </div>
         <div>
           <Label htmlFor="action">Acción *</Label>
-          <Select value={formData.action} onValueChange={(value) => onUpdate('action', value)}>
+          <Select
+            value={formData.action}
+            onValueChange={(value) => onUpdate('action', value)}
+            disabled={getFormActions(formData.phase).length === 1}
+          >
             <SelectTrigger>
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="block">Block</SelectItem>
-              <SelectItem value="challenge">Challenge</SelectItem>
-              <SelectItem value="allow">Allow</SelectItem>
-              <SelectItem value="log">Log</SelectItem>
+              {getFormActions(formData.phase).map(action => (
+                <SelectItem key={action} value={action}>{RULE_ACTION_LABELS[action]}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
       </div>
 
+      <RuleTemplatePhaseFields
+        idPrefix="template"
+        phase={formData.phase}
+        action={formData.action}
+        ratelimit={formData.ratelimit}
+        redirect={formData.redirect}
+        rewrite={formData.rewrite}
+        managedRuleset={formData.managedRuleset}
+        phaseLocked={!isCreating}
+        onChange={onUpdate}
+      />
+
       <div>
         <Label htmlFor="description">Descripción</Label>
         <Input
@@ -406,9 +510,38 @@ function TemplateForm({ formData, onUpdate, onSave, onCancel, loading, isCreatin
           id="expression"
           value={formData.expression}
           onChange={(e) => onUpdate('expression', e.target.value)}
-          placeholder="(http.request.uri.path contains '/admin') or (http.request.uri.query contains 'union')"
-          className="font-mono text-sm min-h-20 resize-y"
+          placeholder='(http.request.uri.path contains "/admin") or (http.request.uri.query contains "union")'
+          className={`font-mono text-sm min-h-20 resize-y ${expressionCheck && !expressionCheck.valid ? 'border-red-500' : ''}`}
         />
+        {expressionCheck && (
+          expressionCheck.valid ? (
+            <p className="flex items-center gap-1 mt-1 text-xs text-green-600">
+              <CheckCircle className="h-3 w-3" />
+              Expresión válida
+            </p>
+          ) : (
+            <ExpressionErrorList expression={formData.expression} errors={expressionCheck.errors} />
+          )
+        )}
+        {referencedLists.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1 mt-1 text-xs">
+            <span className="text-muted-foreground">Listas:</span>
+            {referencedLists.map(name => {
+              // Managed lists ($cf.*) belong to Cloudflare, not to the account
+              const missing = accountListNames !== null && !name.startsWith('cf.') && !accountListNames.includes(name);
+              return (
+                <Badge
+                  key={name}
+                  variant="outline"
+                  className={`font-mono text-xs ${missing ? 'border-amber-500 text-amber-700' : ''}`}
+                  title={missing ? 'La lista no existe en la cuenta' : undefined}
+                >
+                  ${name}{missing && ' ⚠️'}
+                </Badge>
+              );
+            })}
+          </div>
+        )}
       </div>
 
       <div>
@@ -421,6 +554,60 @@ function TemplateForm({ formData, onUpdate, onSave, onCancel, loading, isCreatin
         />
       </div>
 
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="applicableTags">Aplicar a dominios con tags</Label>
+          <CommaListInput
+            id="applicableTags"
+            value={formData.applicableTags}
+            onChange={(value) => onUpdate('applicableTags', value.map(tag => tag.toLowerCase()))}
+            placeholder="produccion, wordpress"
+          />
+          <p className="text-xs text-muted-foreground mt-1">Vacío: la plantilla no se gestiona por tags</p>
+        </div>
+        <div>
+          <Label htmlFor="excludedDomains">Dominios excluidos</Label>
+          <CommaListInput
+            id="excludedDomains"
+            value={formData.excludedDomains}
+            onChange={(value) => onUpdate('excludedDomains', value.map(domain => domain.toLowerCase()))}
+            placeholder="ejemplo.com, staging.ejemplo.com"
+          />
+        </div>
+      </div>
+
+      {accounts.length > 1 && (
+        <div>
+          <Label>Cuentas</Label>
+          <div className="flex flex-wrap items-center gap-4 mt-1">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={formData.accountIds.length === 0}
+                onChange={(e) => onUpdate('accountIds', e.target.checked ? [] : [tokenStorage.getActiveAccount()?.id || accounts[0].id])}
+                className="rounded"
+              />
+              <span className="text-sm">Compartida (todas las cuentas)</span>
+            </label>
+            {formData.accountIds.length > 0 && accounts.map(account => (
+              <label key={account.id} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={formData.accountIds.includes(account.id)}
+                  disabled={formData.accountIds.length === 1 && formData.accountIds[0] === account.id}
+                  onChange={(e) => onUpdate('accountIds', e.target.checked
+                    ? [...formData.accountIds, account.id]
+                    : formData.accountIds.filter(id => id !== account.id))}
+                  className="rounded"
+                />
+                <span className="text-sm">{account.name}</span>
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">Las plantillas de otras cuentas no se muestran ni se aplican con el token activo</p>
+        </div>
+      )}
+
       <div className="flex items-center gap-4">
         <label className="flex items-center gap-2">
           <input
@@ -438,7 +625,7 @@ function TemplateForm({ formData, onUpdate, onSave, onCancel, loading, isCreatin
           <X className="h-4 w-4 mr-2" />
           Cancelar
         </Button>
-        <Button onClick={onSave} disabled={loading}>
+        <Button onClick={onSave} disabled={loading || blockedByExpression}>
           {loading ? (
             <Loader2 className="h-4 w-4 mr-2 animate-spin" />
           ) : (
@@ -449,4 +636,36 @@ function TemplateForm({ formData, onUpdate, onSave, onCancel, loading, isCreatin
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+interface ExpressionErrorListProps {
+  expression: string;
+  errors: ExpressionError[];
+}
+
+// Shows each error with its source line and a marker under the offending range
+function ExpressionErrorList({ expression, errors }: ExpressionErrorListProps) {
+  const lines = expression.split('\n');
+
+  return (
+    <div className="mt-2 space-y-2">
+      {errors.map((error, index) => {
+        const line = lines[error.line - 1] || '';
+        const width = Math.max(1, Math.min(error.end - error.start, line.length - error.column + 1));
+        return (
+          <div key={index} className="rounded border border-red-200 bg-red-50 p-2 text-xs">
+            <div className="flex items-center gap-1 text-red-700">
+              <AlertTriangle className="h-3 w-3 shrink-0" />
+              Línea {error.line}, columna {error.column}: {error.message}
+            </div>
+            <pre className="mt-1 font-mono text-gray-700 overflow-x-auto">
+              {line}
+              {'\n'}
+              <span className="text-red-600">{' '.repeat(error.column - 1)}{'^'.repeat(width)}</span>
+            </pre>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
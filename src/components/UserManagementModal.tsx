@@ -0,0 +1,220 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { KeyRound, Loader2, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { ROLE_LABELS, USER_ROLES, UserRole, UserView } from '@/lib/permissions';
+
+interface UserManagementModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentUserId?: string;
+}
+
+const readError = (result: any, fallback: string) => result.details?.[0]?.message || result.error || fallback;
+
+export function UserManagementModal({ isOpen, onClose, currentUserId }: UserManagementModalProps) {
+  const [users, setUsers] = useState<UserView[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [newUsername, setNewUsername] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [newRole, setNewRole] = useState<UserRole>('viewer');
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) loadUsers();
+  }, [isOpen]);
+
+  const loadUsers = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/users');
+      const result = await response.json();
+      if (!result.success) throw new Error(readError(result, 'Error al cargar usuarios'));
+      setUsers(result.data.users);
+    } catch (error) {
+      console.error('Error loading users:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al cargar usuarios');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createUser = async () => {
+    setCreating(true);
+    try {
+      const response = await fetch('/api/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: newUsername, password: newPassword, role: newRole })
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(readError(result, 'Error al crear usuario'));
+
+      toast.success(`Usuario "${result.data.user.username}" creado`);
+      setNewUsername('');
+      setNewPassword('');
+      setNewRole('viewer');
+      await loadUsers();
+    } catch (error) {
+      console.error('Error creating user:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al crear usuario');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const updateUser = async (user: UserView, changes: { role?: UserRole; password?: string }) => {
+    try {
+      const response = await fetch(`/api/users/${user.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(readError(result, 'Error al actualizar usuario'));
+
+      toast.success(changes.password ? `Contraseña de "${user.username}" cambiada` : `Rol de "${user.username}" actualizado`);
+      await loadUsers();
+    } catch (error) {
+      console.error('Error updating user:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al actualizar usuario');
+    }
+  };
+
+  const resetPassword = (user: UserView) => {
+    const password = prompt(`Nueva contraseña para "${user.username}" (al menos 10 caracteres)`);
+    if (password) updateUser(user, { password });
+  };
+
+  const deleteUser = async (user: UserView) => {
+    if (!confirm(`¿Eliminar el usuario "${user.username}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/users/${user.id}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!result.success) throw new Error(readError(result, 'Error al eliminar usuario'));
+
+      toast.success(`Usuario "${user.username}" eliminado`);
+      await loadUsers();
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al eliminar usuario');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Usuarios</DialogTitle>
+          <DialogDescription>
+            Lectura solo consulta, Operador aplica y quita reglas, y Administrador de seguridad además limpia reglas,
+            aprueba solicitudes de cambio, gestiona plantillas y usuarios.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Usuario</TableHead>
+              <TableHead>Rol</TableHead>
+              <TableHead>Último acceso</TableHead>
+              <TableHead className="w-24"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading && users.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4}><Loader2 className="h-4 w-4 animate-spin" /></TableCell>
+              </TableRow>
+            )}
+            {users.map(user => (
+              <TableRow key={user.id}>
+                <TableCell className="font-medium">
+                  {user.username}
+                  {user.id === currentUserId && <span className="text-xs text-muted-foreground ml-1">(tú)</span>}
+                </TableCell>
+                <TableCell>
+                  <Select value={user.role} onValueChange={(role) => updateUser(user, { role: role as UserRole })}>
+                    <SelectTrigger className="h-8 w-[210px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {USER_ROLES.map(role => (
+                        <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : 'Nunca'}
+                </TableCell>
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Cambiar contraseña" onClick={() => resetPassword(user)}>
+                      <KeyRound className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 text-muted-foreground hover:text-red-600"
+                      title="Eliminar usuario"
+                      onClick={() => deleteUser(user)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="rounded border p-3 space-y-3">
+          <p className="text-sm font-medium">Nuevo usuario</p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <div>
+              <Label htmlFor="new-username">Usuario</Label>
+              <Input id="new-username" value={newUsername} onChange={(e) => setNewUsername(e.target.value)} autoComplete="off" />
+            </div>
+            <div>
+              <Label htmlFor="new-password">Contraseña</Label>
+              <Input
+                id="new-password"
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                placeholder="Al menos 10 caracteres"
+                autoComplete="new-password"
+              />
+            </div>
+            <div>
+              <Label>Rol</Label>
+              <Select value={newRole} onValueChange={(role) => setNewRole(role as UserRole)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {USER_ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Button size="sm" onClick={createUser} disabled={creating || !newUsername || !newPassword}>
+            {creating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Crear usuario
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { ChevronDown, LogOut, ShieldCheck, UserCog, UserRound } from 'lucide-react';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { ROLE_LABELS } from '@/lib/permissions';
+import { UserManagementModal } from './UserManagementModal';
+
+/**
+ * Logged in user in the header, or the link to create the first user while login is not enabled
+ */
+export function UserMenu() {
+  const { loading, authEnabled, user, can, logout } = useCurrentUser();
+  const [showUsers, setShowUsers] = useState(false);
+
+  if (loading) return null;
+
+  if (!authEnabled) {
+    return (
+      <Button variant="outline" size="sm" asChild title="Crear el primer usuario y exigir inicio de sesión">
+        <Link href="/login"><ShieldCheck className="h-4 w-4 mr-1" />Activar usuarios</Link>
+      </Button>
+    );
+  }
+
+  if (!user) return null;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="max-w-[200px]">
+            <UserRound className="h-4 w-4 mr-1 shrink-0" />
+            <span className="truncate">{user.username}</span>
+            <ChevronDown className="h-4 w-4 ml-1 shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel>
+            <div className="truncate">{user.username}</div>
+            <div className="text-xs font-normal text-muted-foreground">{ROLE_LABELS[user.role]}</div>
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {can('users:manage') && (
+            <DropdownMenuItem onSelect={() => setShowUsers(true)}>
+              <UserCog className="h-4 w-4 mr-2" />
+              Usuarios
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onSelect={() => logout()}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Cerrar sesión
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {can('users:manage') && (
+        <UserManagementModal isOpen={showUsers} onClose={() => setShowUsers(false)} currentUserId={user.id} />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,318 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Upload, FileSearch, Play, CheckCircle, AlertCircle, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { tokenStorage } from '@/lib/tokenStorage';
+import type { ZoneFileDiff, ZoneFileIssue, ZoneFileChange } from '@/lib/zoneFile';
+
+interface ZoneFilePreview {
+  zoneName: string;
+  diff: ZoneFileDiff;
+  errors: ZoneFileIssue[];
+  warnings: ZoneFileIssue[];
+  parsedRecords: number;
+}
+
+interface ChangeStatus {
+  success: boolean;
+  message: string;
+}
+
+interface ZoneFileImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  zoneId: string;
+  domainName: string;
+  onApplied: () => void;
+}
+
+const ACTION_LABELS: Record<ZoneFileChange['action'], { label: string; className: string }> = {
+  create: { label: 'Crear', className: 'bg-green-600 hover:bg-green-600' },
+  update: { label: 'Actualizar', className: 'bg-amber-500 hover:bg-amber-500' },
+  delete: { label: 'Eliminar', className: 'bg-red-600 hover:bg-red-600' }
+};
+
+export function ZoneFileImportModal({ isOpen, onClose, zoneId, domainName, onApplied }: ZoneFileImportModalProps) {
+  const [zoneFile, setZoneFile] = useState('');
+  const [preview, setPreview] = useState<ZoneFilePreview | null>(null);
+  const [includeDeletes, setIncludeDeletes] = useState(false);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [statuses, setStatuses] = useState<Record<string, ChangeStatus>>({});
+  const [completed, setCompleted] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const resetState = () => {
+    setZoneFile('');
+    setPreview(null);
+    setIncludeDeletes(false);
+    setProgress(0);
+    setStatuses({});
+    setCompleted(false);
+  };
+
+  const handleClose = () => {
+    if (applying) return;
+    resetState();
+    onClose();
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setZoneFile(await file.text());
+    setPreview(null);
+    event.target.value = '';
+  };
+
+  const handleAnalyze = async () => {
+    const apiToken = tokenStorage.getToken();
+    if (!apiToken || !zoneFile.trim()) return;
+
+    try {
+      setAnalyzing(true);
+      setStatuses({});
+      setCompleted(false);
+      const response = await fetch(`/api/domains/dns/${zoneId}/zone-file`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-token': apiToken
+        },
+        body: JSON.stringify({ zoneFile })
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setPreview(result.data);
+      } else {
+        toast.error(result.details?.[0]?.message || result.error || 'Error al analizar el archivo de zona');
+      }
+    } catch (error) {
+      console.error('Error analyzing zone file:', error);
+      toast.error('Error al analizar el archivo de zona');
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  const handleApply = async () => {
+    const apiToken = tokenStorage.getToken();
+    if (!apiToken || !preview) return;
+
+    try {
+      setApplying(true);
+      setProgress(0);
+      setStatuses({});
+
+      const response = await fetch(`/api/domains/dns/${zoneId}/zone-file/apply-stream`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-token': apiToken
+        },
+        body: JSON.stringify({ zoneFile, includeDeletes })
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+
+        for (const event of events) {
+          if (!event.trim().startsWith('data: ')) continue;
+          const data = JSON.parse(event.trim().slice(6));
+          setProgress(data.progress);
+
+          if (data.type === 'change_complete' && data.change) {
+            setStatuses(prev => ({
+              ...prev,
+              [data.change.id]: { success: data.change.success, message: data.change.message }
+            }));
+          } else if (data.type === 'complete' && data.summary) {
+            toast.success(`Importación completada: ${data.summary.successful} éxitos, ${data.summary.failed} errores`);
+          } else if (data.type === 'error') {
+            toast.error(`Error en la importación: ${data.error}`);
+          }
+        }
+      }
+
+      setCompleted(true);
+      onApplied();
+    } catch (error) {
+      console.error('Error applying zone file:', error);
+      toast.error('Error al aplicar el archivo de zona');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const visibleChanges = preview
+    ? preview.diff.changes.filter(change => includeDeletes || change.action !== 'delete')
+    : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-5xl w-[90vw] max-h-[85vh] overflow-y-auto sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            Importar archivo de zona: {domainName}
+          </DialogTitle>
+          <DialogDescription>
+            Pega o carga un archivo de zona BIND (RFC 1035). Se mostrarán las diferencias antes de aplicar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".zone,.txt,.db,text/plain"
+              className="hidden"
+              onChange={handleFileSelected}
+            />
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={applying}>
+              <Upload className="h-4 w-4" />
+              <span className="ml-1">Cargar archivo</span>
+            </Button>
+            <Button size="sm" onClick={handleAnalyze} disabled={!zoneFile.trim() || analyzing || applying}>
+              {analyzing ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileSearch className="h-4 w-4" />}
+              <span className="ml-1">Analizar</span>
+            </Button>
+          </div>
+
+          <Textarea
+            value={zoneFile}
+            onChange={(e) => {
+              setZoneFile(e.target.value);
+              setPreview(null);
+            }}
+            placeholder={`$ORIGIN ${domainName}.\n$TTL 3600\n@    IN A     192.0.2.1\nwww  IN CNAME @\n@    IN MX    10 mail.${domainName}.`}
+            className="font-mono text-xs h-40"
+            disabled={applying}
+          />
+
+          {preview && (
+            <div className="space-y-3">
+              {preview.errors.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    <strong>{preview.errors.length} errores en el archivo. Corrígelos antes de aplicar:</strong>
+                    <ul className="mt-1 text-xs list-disc pl-4">
+                      {preview.errors.map((issue, index) => (
+                        <li key={index}>Línea {issue.line}: {issue.message}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {preview.warnings.length > 0 && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    <ul className="text-xs list-disc pl-4">
+                      {preview.warnings.map((issue, index) => (
+                        <li key={index}>Línea {issue.line}: {issue.message}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex items-center justify-between p-3 bg-muted rounded-lg text-sm">
+                <div className="flex items-center gap-4">
+                  <span>{preview.parsedRecords} registros en el archivo</span>
+                  <span className="text-green-600">{preview.diff.summary.creates} a crear</span>
+                  <span className="text-amber-600">{preview.diff.summary.updates} a actualizar</span>
+                  <span className="text-red-600">{preview.diff.summary.deletes} a eliminar</span>
+                  <span className="text-muted-foreground">{preview.diff.unchanged} sin cambios</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="zone-include-deletes"
+                    checked={includeDeletes}
+                    onCheckedChange={(checked) => setIncludeDeletes(checked === true)}
+                    disabled={applying}
+                  />
+                  <Label htmlFor="zone-include-deletes">Eliminar registros que no están en el archivo</Label>
+                </div>
+              </div>
+
+              {applying || completed ? <Progress value={progress} /> : null}
+
+              <div className="border rounded-lg divide-y max-h-80 overflow-y-auto">
+                {visibleChanges.length === 0 ? (
+                  <div className="text-center py-4 text-muted-foreground text-sm">
+                    No hay cambios para aplicar
+                  </div>
+                ) : (
+                  visibleChanges.map(change => {
+                    const status = statuses[change.id];
+                    return (
+                      <div key={change.id} className="flex items-start gap-3 p-2 text-xs">
+                        <Badge className={`${ACTION_LABELS[change.action].className} text-white`}>
+                          {ACTION_LABELS[change.action].label}
+                        </Badge>
+                        <Badge variant="outline" className="font-mono">{change.type}</Badge>
+                        <div className="flex-1 font-mono break-all">
+                          <div className="font-medium">{change.name}</div>
+                          {change.before && <div className="text-red-600">- {change.before}</div>}
+                          {change.after && <div className="text-green-600">+ {change.after}</div>}
+                        </div>
+                        {status && (
+                          status.success
+                            ? <CheckCircle className="h-4 w-4 text-green-500 shrink-0" />
+                            : <span className="flex items-center gap-1 text-red-600"><AlertCircle className="h-4 w-4 shrink-0" />{status.message}</span>
+                        )}
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={handleClose} disabled={applying}>
+                  {completed ? 'Cerrar' : 'Cancelar'}
+                </Button>
+                {!completed && (
+                  <Button
+                    onClick={handleApply}
+                    disabled={applying || preview.errors.length > 0 || visibleChanges.length === 0}
+                  >
+                    {applying ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+                    <span className="ml-1">Aplicar {visibleChanges.length} cambios</span>
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { HSTSSettings, ZoneSettingId } from '@/types/cloudflare';
+import { useDomainStore } from '@/store/domainStore';
+
+export const ZONE_SETTING_LABELS: Record<ZoneSettingId, { short: string; long: string }> = {
+  ssl: { short: 'SSL', long: 'Modo SSL' },
+  always_use_https: { short: 'HTTPS', long: 'Usar siempre HTTPS' },
+  min_tls_version: { short: 'TLS', long: 'Versión mínima de TLS' },
+  security_header: { short: 'HSTS', long: 'HSTS' },
+  brotli: { short: 'Brotli', long: 'Compresión Brotli' },
+  browser_check: { short: 'BIC', long: 'Browser Integrity Check' },
+  security_level: { short: 'Nivel', long: 'Nivel de seguridad' }
+};
+
+export function formatZoneSettingValue(setting: ZoneSettingId, value: unknown): string {
+  if (value === undefined || value === null) return 'desconocido';
+
+  if (setting === 'security_header') {
+    const hsts = value as HSTSSettings;
+    if (!hsts.enabled) return 'desactivado';
+    const extras = [
+      hsts.include_subdomains ? 'subdominios' : null,
+      hsts.preload ? 'preload' : null
+    ].filter(Boolean);
+    return `max-age ${hsts.max_age}${extras.length > 0 ? ` (${extras.join(', ')})` : ''}`;
+  }
+
+  return String(value);
+}
+
+interface ZoneSettingsPillsProps {
+  zoneId: string;
+}
+
+export function ZoneSettingsPills({ zoneId }: ZoneSettingsPillsProps) {
+  const report = useDomainStore(state => state.settingsDrift[zoneId]);
+
+  if (!report) return null;
+
+  const checkedAt = new Date(report.checkedAt).toLocaleString('es-ES');
+
+  if (report.error) {
+    return (
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Badge variant="outline" className="text-xs h-6 rounded-full text-muted-foreground">
+              Ajustes ?
+            </Badge>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>No se pudieron comprobar los ajustes ({report.profileName})</p>
+            <p className="text-xs opacity-75">{report.error}</p>
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+    );
+  }
+
+  if (report.drifts.length === 0) {
+    return (
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Badge className="text-xs h-6 rounded-full bg-green-500 hover:bg-green-600 text-white border-0">
+              Perfil OK
+            </Badge>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>Cumple el perfil &quot;{report.profileName}&quot;</p>
+            <p className="text-xs opacity-75">Comprobado: {checkedAt}</p>
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+    );
+  }
+
+  return (
+    <TooltipProvider>
+      <div className="flex gap-1 flex-wrap">
+        {report.drifts.map(drift => (
+          <Tooltip key={drift.setting}>
+            <TooltipTrigger asChild>
+              <Badge className="text-xs h-6 rounded-full bg-amber-500 hover:bg-amber-600 text-white border-0">
+                {ZONE_SETTING_LABELS[drift.setting].short}
+              </Badge>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>{ZONE_SETTING_LABELS[drift.setting].long} no cumple &quot;{report.profileName}&quot;</p>
+              <p className="text-xs">Esperado: {formatZoneSettingValue(drift.setting, drift.expected)}</p>
+              <p className="text-xs">Actual: {formatZoneSettingValue(drift.setting, drift.actual)}</p>
+              <p className="text-xs opacity-75">Comprobado: {checkedAt}</p>
+            </TooltipContent>
+          </Tooltip>
+        ))}
+      </div>
+    </TooltipProvider>
+  );
+}
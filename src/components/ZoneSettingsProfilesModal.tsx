@@ -0,0 +1,446 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus, Save, Trash2, SlidersHorizontal, ScanSearch, Star } from 'lucide-react';
+import { toast } from 'sonner';
+import { tokenStorage } from '@/lib/tokenStorage';
+import { useDomainStore } from '@/store/domainStore';
+import { HSTSSettings, ZoneSettingId, ZoneSettingsProfile, ZoneSettingsValues } from '@/types/cloudflare';
+import { ZONE_SETTING_LABELS, formatZoneSettingValue } from './ZoneSettingsPills';
+
+const UNMANAGED = '__unmanaged__';
+
+// Options of the settings that take a single enum value
+const SETTING_OPTIONS: Record<Exclude<ZoneSettingId, 'security_header'>, Array<{ value: string; label: string }>> = {
+  ssl: [
+    { value: 'off', label: 'Desactivado' },
+    { value: 'flexible', label: 'Flexible' },
+    { value: 'full', label: 'Completo' },
+    { value: 'strict', label: 'Completo (estricto)' }
+  ],
+  always_use_https: [
+    { value: 'on', label: 'Activado' },
+    { value: 'off', label: 'Desactivado' }
+  ],
+  min_tls_version: [
+    { value: '1.0', label: 'TLS 1.0' },
+    { value: '1.1', label: 'TLS 1.1' },
+    { value: '1.2', label: 'TLS 1.2' },
+    { value: '1.3', label: 'TLS 1.3' }
+  ],
+  brotli: [
+    { value: 'on', label: 'Activado' },
+    { value: 'off', label: 'Desactivado' }
+  ],
+  browser_check: [
+    { value: 'on', label: 'Activado' },
+    { value: 'off', label: 'Desactivado' }
+  ],
+  security_level: [
+    { value: 'essentially_off', label: 'Prácticamente desactivado' },
+    { value: 'low', label: 'Bajo' },
+    { value: 'medium', label: 'Medio' },
+    { value: 'high', label: 'Alto' },
+    { value: 'under_attack', label: 'Under Attack' }
+  ]
+};
+
+const DEFAULT_HSTS: HSTSSettings = {
+  enabled: true,
+  max_age: 15552000, // 6 months
+  include_subdomains: false,
+  preload: false
+};
+
+interface ProfileDraft {
+  id?: string;
+  name: string;
+  description: string;
+  settings: ZoneSettingsValues;
+  isDefault: boolean;
+}
+
+const EMPTY_DRAFT: ProfileDraft = {
+  name: '',
+  description: '',
+  settings: {},
+  isDefault: false
+};
+
+interface ZoneSettingsProfilesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function ZoneSettingsProfilesModal({ isOpen, onClose }: ZoneSettingsProfilesModalProps) {
+  const [profiles, setProfiles] = useState<ZoneSettingsProfile[]>([]);
+  const [defaultProfileId, setDefaultProfileId] = useState<string | undefined>();
+  const [draft, setDraft] = useState<ProfileDraft>(EMPTY_DRAFT);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [onlySelected, setOnlySelected] = useState(false);
+  const { allDomains, selectedDomains, setSettingsDriftReports } = useDomainStore();
+
+  const targets = useMemo(() => {
+    const domains = onlySelected
+      ? allDomains.filter(d => selectedDomains.has(d.domain))
+      : allDomains;
+    return domains.map(d => ({ zoneId: d.zoneId, domainName: d.domain }));
+  }, [allDomains, selectedDomains, onlySelected]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadProfiles();
+    }
+  }, [isOpen]);
+
+  const loadProfiles = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/zone-settings/profiles');
+      const result = await response.json();
+      if (result.success) {
+        setProfiles(result.data.profiles);
+        setDefaultProfileId(result.data.defaultProfileId);
+      }
+    } catch (error) {
+      console.error('Error loading zone settings profiles:', error);
+      toast.error('Error al cargar los perfiles de ajustes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectProfile = (profile: ZoneSettingsProfile) => {
+    setDraft({
+      id: profile.id,
+      name: profile.name,
+      description: profile.description || '',
+      settings: { ...profile.settings },
+      isDefault: profile.id === defaultProfileId
+    });
+  };
+
+  const updateSetting = (setting: ZoneSettingId, value: unknown) => {
+    setDraft(prev => {
+      const settings = { ...prev.settings } as Record<string, unknown>;
+      if (value === undefined) {
+        delete settings[setting];
+      } else {
+        settings[setting] = value;
+      }
+      return { ...prev, settings: settings as ZoneSettingsValues };
+    });
+  };
+
+  const updateHSTS = (changes: Partial<HSTSSettings>) => {
+    updateSetting('security_header', { ...(draft.settings.security_header || DEFAULT_HSTS), ...changes });
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const response = await fetch(
+        draft.id ? `/api/zone-settings/profiles/${draft.id}` : '/api/zone-settings/profiles',
+        {
+          method: draft.id ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: draft.name,
+            description: draft.description || undefined,
+            settings: draft.settings,
+            isDefault: draft.isDefault
+          })
+        }
+      );
+      const result = await response.json();
+
+      if (result.success) {
+        toast.success(draft.id ? 'Perfil actualizado' : 'Perfil creado');
+        await loadProfiles();
+        setDraft({ ...draft, id: result.data.profile.id, isDefault: result.data.defaultProfileId === result.data.profile.id });
+      } else {
+        toast.error(result.details?.[0]?.message || result.error || 'Error al guardar el perfil');
+      }
+    } catch (error) {
+      console.error('Error saving zone settings profile:', error);
+      toast.error('Error al guardar el perfil');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft.id || !confirm(`¿Eliminar el perfil "${draft.name}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/zone-settings/profiles/${draft.id}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (result.success) {
+        toast.success('Perfil eliminado');
+        setDraft(EMPTY_DRAFT);
+        await loadProfiles();
+        useDomainStore.getState().loadSettingsDrift();
+      } else {
+        toast.error(result.error || 'Error al eliminar el perfil');
+      }
+    } catch (error) {
+      console.error('Error deleting zone settings profile:', error);
+      toast.error('Error al eliminar el perfil');
+    }
+  };
+
+  const handleCheckDrift = async () => {
+    const apiToken = tokenStorage.getToken();
+    if (!apiToken || !draft.id) return;
+    if (targets.length === 0) {
+      toast.error('No hay dominios para comprobar');
+      return;
+    }
+
+    try {
+      setChecking(true);
+      const response = await fetch('/api/zone-settings/drift', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-token': apiToken
+        },
+        body: JSON.stringify({ profileId: draft.id, targets })
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setSettingsDriftReports(result.data.reports);
+        const { compliant, drifted, failed } = result.data.summary;
+        toast.success(`Comprobación completada: ${compliant} cumplen, ${drifted} con desviaciones, ${failed} errores`);
+      } else {
+        toast.error(result.details?.[0]?.message || result.error || 'Error al comprobar los ajustes');
+      }
+    } catch (error) {
+      console.error('Error checking zone settings drift:', error);
+      toast.error('Error al comprobar los ajustes');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const hsts = draft.settings.security_header;
+  const definedSettings = Object.keys(draft.settings).length;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-5xl w-[90vw] max-h-[85vh] overflow-y-auto sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5" />
+            Perfiles de ajustes de zona
+          </DialogTitle>
+          <DialogDescription>
+            Define la configuración base (SSL, HTTPS, TLS, HSTS, Brotli, Browser Integrity Check y nivel de seguridad) y detecta las zonas que se desvían de ella
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[220px_1fr] gap-4">
+          <div className="space-y-2 border-r pr-4">
+            <Button variant="outline" size="sm" className="w-full" onClick={() => setDraft(EMPTY_DRAFT)}>
+              <Plus className="h-4 w-4" />
+              <span className="ml-1">Nuevo perfil</span>
+            </Button>
+            {loading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-4 w-4 animate-spin" />
+              </div>
+            ) : profiles.length === 0 ? (
+              <p className="text-xs text-muted-foreground text-center py-4">No hay perfiles</p>
+            ) : (
+              profiles.map(profile => (
+                <button
+                  key={profile.id}
+                  onClick={() => selectProfile(profile)}
+                  className={`w-full text-left p-2 rounded-md text-sm hover:bg-muted ${draft.id === profile.id ? 'bg-muted font-medium' : ''}`}
+                >
+                  <div className="flex items-center gap-1">
+                    {profile.id === defaultProfileId && <Star className="h-3 w-3 text-amber-500 fill-amber-500" />}
+                    {profile.name}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {Object.keys(profile.settings).length} ajustes
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="profile-name">Nombre</Label>
+                <Input
+                  id="profile-name"
+                  value={draft.name}
+                  placeholder="Producción"
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+              <div className="flex items-end gap-2 pb-2">
+                <Checkbox
+                  id="profile-default"
+                  checked={draft.isDefault}
+                  onCheckedChange={(checked) => setDraft({ ...draft, isDefault: checked === true })}
+                />
+                <Label htmlFor="profile-default">Perfil por defecto</Label>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="profile-description">Descripción</Label>
+              <Textarea
+                id="profile-description"
+                value={draft.description}
+                className="h-16"
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {(Object.keys(SETTING_OPTIONS) as Array<keyof typeof SETTING_OPTIONS>).map(setting => (
+                <div key={setting} className="space-y-1">
+                  <Label>{ZONE_SETTING_LABELS[setting].long}</Label>
+                  <Select
+                    value={(draft.settings[setting] as string | undefined) ?? UNMANAGED}
+                    onValueChange={(value) => updateSetting(setting, value === UNMANAGED ? undefined : value)}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMANAGED}>No gestionar</SelectItem>
+                      {SETTING_OPTIONS[setting].map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+
+              <div className="space-y-1">
+                <Label>{ZONE_SETTING_LABELS.security_header.long}</Label>
+                <Select
+                  value={hsts ? (hsts.enabled ? 'on' : 'off') : UNMANAGED}
+                  onValueChange={(value) => {
+                    if (value === UNMANAGED) {
+                      updateSetting('security_header', undefined);
+                    } else {
+                      updateHSTS({ enabled: value === 'on' });
+                    }
+                  }}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMANAGED}>No gestionar</SelectItem>
+                    <SelectItem value="on">Activado</SelectItem>
+                    <SelectItem value="off">Desactivado</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {hsts?.enabled && (
+              <div className="flex items-end gap-4 p-3 bg-muted rounded-lg">
+                <div className="space-y-1">
+                  <Label htmlFor="hsts-max-age">max-age (segundos)</Label>
+                  <Input
+                    id="hsts-max-age"
+                    type="number"
+                    className="w-36"
+                    value={hsts.max_age}
+                    onChange={(e) => updateHSTS({ max_age: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="flex items-center gap-2 pb-2">
+                  <Checkbox
+                    id="hsts-subdomains"
+                    checked={hsts.include_subdomains}
+                    onCheckedChange={(checked) => updateHSTS({ include_subdomains: checked === true })}
+                  />
+                  <Label htmlFor="hsts-subdomains">Incluir subdominios</Label>
+                </div>
+                <div className="flex items-center gap-2 pb-2">
+                  <Checkbox
+                    id="hsts-preload"
+                    checked={hsts.preload}
+                    onCheckedChange={(checked) => updateHSTS({ preload: checked === true })}
+                  />
+                  <Label htmlFor="hsts-preload">Preload</Label>
+                </div>
+              </div>
+            )}
+
+            {definedSettings > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {(Object.keys(draft.settings) as ZoneSettingId[]).map(setting => (
+                  <Badge key={setting} variant="outline" className="text-xs">
+                    {ZONE_SETTING_LABELS[setting].short}: {formatZoneSettingValue(setting, draft.settings[setting])}
+                  </Badge>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center justify-between border-t pt-4">
+              <div className="flex items-center gap-3">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleCheckDrift}
+                  disabled={!draft.id || checking}
+                >
+                  {checking ? <Loader2 className="h-4 w-4 animate-spin" /> : <ScanSearch className="h-4 w-4" />}
+                  <span className="ml-1">Comprobar {targets.length} dominios</span>
+                </Button>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="profile-only-selected"
+                    checked={onlySelected}
+                    disabled={selectedDomains.size === 0}
+                    onCheckedChange={(checked) => setOnlySelected(checked === true)}
+                  />
+                  <Label htmlFor="profile-only-selected">
+                    Solo seleccionados ({selectedDomains.size})
+                  </Label>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                {draft.id && (
+                  <Button variant="outline" size="sm" onClick={handleDelete}>
+                    <Trash2 className="h-4 w-4" />
+                    <span className="ml-1">Eliminar</span>
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  onClick={handleSave}
+                  disabled={saving || !draft.name.trim() || definedSettings === 0}
+                >
+                  {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                  <span className="ml-1">Guardar</span>
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
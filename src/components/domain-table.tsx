@@ -8,13 +8,18 @@ import { DomainTableFilters } from './DomainTableFilters';
 import { DomainTableContent } from './DomainTableContent';
 import { DomainTablePagination } from './DomainTablePagination';
 import { RulesActionBar } from './RulesActionBar';
+import { BotFightPermissionAlert } from './BotFightPermissionAlert';
 import { TemplateManagementModal } from './TemplateManagementModal';
 import { useDomainTable } from '@/hooks/useDomainTable';
+import { useRefreshEvents } from '@/hooks/useRefreshEvents';
+import { useTokenCapabilities } from '@/hooks/useTokenCapabilities';
+import { useDomainStore } from '@/store/domainStore';
 import { tokenStorage } from '@/lib/tokenStorage';
 import { toast } from 'sonner';
 
 export function DomainTable() {
   const [showTemplateModal, setShowTemplateModal] = useState(false);
+  const [botFightAlertDismissed, setBotFightAlertDismissed] = useState(false);
   const [availableTemplates, setAvailableTemplates] = useState<Array<{
     id: string;
     friendlyId: string;
@@ -34,6 +39,7 @@ export function DomainTable() {
     searchTerm,
     filterPills,
     totalCount,
+    lastUpdate,
     processedDomains,
     paginatedDomains,
     totalPages,
@@ -64,6 +70,13 @@ export function DomainTable() {
     refreshingDomainId,
   } = useDomainTable();
 
+  useRefreshEvents();
+
+  // Warn before the first Bot Fight toggle fails instead of after
+  const { tokenCapabilities } = useTokenCapabilities();
+  const checkTokenCapabilities = useDomainStore(state => state.checkTokenCapabilities);
+  const botManagementDenied = Object.values(tokenCapabilities).some(zone => zone.capabilities.botManagement === 'denied');
+
   useEffect(() => {
     if (typeof initializeDomains === 'function') {
       initializeDomains();
@@ -333,6 +346,7 @@ export function DomainTable() {
           processedCount={processedDomains.length}
           loading={loading}
           isBackgroundRefreshing={isBackgroundRefreshing}
+          lastUpdate={lastUpdate}
           onRefresh={() => fetchFromCloudflareUnified(false, true)}
         />
 
@@ -346,6 +360,16 @@ export function DomainTable() {
           />
 
 
+          {botManagementDenied && !botFightAlertDismissed && (
+            <div className="mb-4">
+              <BotFightPermissionAlert
+                show
+                onDismiss={() => setBotFightAlertDismissed(true)}
+                onRecheck={() => checkTokenCapabilities(true)}
+              />
+            </div>
+          )}
+
           <RulesActionBar
             selectedDomains={Array.from(selectedDomains).map(domain => {
               const domainObj = allDomains.find(d => d.domain === domain);
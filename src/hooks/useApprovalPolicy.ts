@@ -0,0 +1,64 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { ChangeApprovalPolicy } from '@/types/cloudflare';
+
+/**
+ * Zones where template rollouts need an approved change request
+ * The server rejects those rollouts anyway, the UI uses the policy to offer only the approval path
+ */
+export const useApprovalPolicy = () => {
+  const [policy, setPolicy] = useState<ChangeApprovalPolicy | null>(null);
+  const [enforced, setEnforced] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const loadPolicy = useCallback(async () => {
+    try {
+      const response = await fetch('/api/change-requests/policy');
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Error al cargar la política de aprobación');
+      setPolicy(result.data.policy);
+      setEnforced(result.data.enforced);
+    } catch (error) {
+      console.error('Error loading approval policy:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPolicy();
+  }, [loadPolicy]);
+
+  const savePolicy = useCallback(async (next: Pick<ChangeApprovalPolicy, 'requireForAllZones' | 'protectedZones'>) => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/change-requests/policy', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(next)
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Error al guardar la política de aprobación');
+      }
+      setPolicy(result.data.policy);
+      setEnforced(result.data.enforced);
+      toast.success('Política de aprobación guardada');
+      return true;
+    } catch (error) {
+      console.error('Error saving approval policy:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al guardar la política de aprobación');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  const requiresApproval = useCallback((zoneIds: string[]) => {
+    if (!enforced || !policy || zoneIds.length === 0) return false;
+    if (policy.requireForAllZones) return true;
+    return policy.protectedZones.some(zone => zoneIds.includes(zone.zoneId));
+  }, [enforced, policy]);
+
+  return { policy, enforced, saving, savePolicy, requiresApproval };
+};
@@ -0,0 +1,127 @@
+'use client';
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import { tokenStorage } from '@/lib/tokenStorage';
+import type { BulkJobView } from '@/lib/jobQueue';
+
+// Polling while some job is queued or running
+const ACTIVE_POLL_INTERVAL = 3000;
+const IDLE_POLL_INTERVAL = 30000;
+
+async function requestJobs(url: string, init: RequestInit = {}) {
+  const apiToken = tokenStorage.getToken();
+  if (!apiToken) {
+    throw new Error('No hay token de API configurado');
+  }
+
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-token': apiToken,
+      ...init.headers
+    }
+  });
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.errorDetails || result.details?.[0]?.message || result.error || 'Error en la petición');
+  }
+  return result.data;
+}
+
+export function isActiveJob(job: BulkJobView): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+/**
+ * Server-side bulk jobs for the jobs panel
+ * Jobs interrupted by a server restart are resumed once with the current token
+ */
+export function useBulkJobs() {
+  const [jobs, setJobs] = useState<BulkJobView[]>([]);
+  const [loading, setLoading] = useState(false);
+  const autoResumed = useRef(false);
+
+  const loadJobs = useCallback(async () => {
+    if (!tokenStorage.getToken()) return [];
+    try {
+      setLoading(true);
+      const data = await requestJobs('/api/jobs');
+      setJobs(data.jobs);
+      return data.jobs as BulkJobView[];
+    } catch (error) {
+      console.error('[useBulkJobs] Error loading jobs:', error);
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const resumeJob = useCallback(async (jobId: string, retryFailed = false) => {
+    try {
+      await requestJobs(`/api/jobs/${jobId}/resume`, {
+        method: 'POST',
+        body: JSON.stringify({ retryFailed })
+      });
+      toast.success(retryFailed ? 'Reintentando los dominios fallidos' : 'Trabajo reanudado');
+      await loadJobs();
+    } catch (error) {
+      toast.error(`No se pudo reanudar el trabajo: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+    }
+  }, [loadJobs]);
+
+  const cancelJob = useCallback(async (jobId: string) => {
+    try {
+      await requestJobs(`/api/jobs/${jobId}/cancel`, { method: 'POST' });
+      toast.info('Cancelando trabajo...');
+      await loadJobs();
+    } catch (error) {
+      toast.error(`No se pudo cancelar el trabajo: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+    }
+  }, [loadJobs]);
+
+  const clearFinished = useCallback(async () => {
+    try {
+      const data = await requestJobs('/api/jobs', { method: 'DELETE' });
+      toast.success(`${data.removedCount} trabajos finalizados eliminados`);
+      await loadJobs();
+    } catch (error) {
+      toast.error(`No se pudieron limpiar los trabajos: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+    }
+  }, [loadJobs]);
+
+  // First load: pick up jobs a restart left behind
+  useEffect(() => {
+    loadJobs().then(async (loaded) => {
+      if (autoResumed.current) return;
+      autoResumed.current = true;
+
+      const interrupted = loaded.filter(job => job.status === 'interrupted' && job.ownToken);
+      if (interrupted.length === 0) return;
+
+      toast.info(`Reanudando ${interrupted.length} trabajo${interrupted.length === 1 ? '' : 's'} interrumpido${interrupted.length === 1 ? '' : 's'}`);
+      for (const job of interrupted) {
+        await requestJobs(`/api/jobs/${job.id}/resume`, { method: 'POST', body: '{}' })
+          .catch(error => console.error(`[useBulkJobs] Could not resume job ${job.id}:`, error));
+      }
+      await loadJobs();
+    });
+  }, [loadJobs]);
+
+  const hasActiveJobs = jobs.some(isActiveJob);
+  useEffect(() => {
+    const interval = setInterval(loadJobs, hasActiveJobs ? ACTIVE_POLL_INTERVAL : IDLE_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [loadJobs, hasActiveJobs]);
+
+  return {
+    jobs,
+    loading,
+    activeCount: jobs.filter(isActiveJob).length,
+    loadJobs,
+    resumeJob,
+    cancelJob,
+    clearFinished
+  };
+}
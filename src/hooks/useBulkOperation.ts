@@ -11,8 +11,16 @@ interface BulkOperationDomain {
   error?: string;
 }
 
+interface BulkOperationSummary {
+  total: number;
+  successful: number;
+  failed: number;
+  rollbackFile?: string; // Set by operations that keep the previous values (origin migration)
+}
+
 interface BulkOperationProgress {
-  type: 'progress' | 'domain_complete' | 'complete' | 'error' | 'phase_update';
+  type: 'job_created' | 'progress' | 'domain_complete' | 'complete' | 'error' | 'phase_update';
+  jobId?: string; // Operations queued as server-side jobs
   progress: number;
   currentDomain?: string;
   completedDomains?: number;
@@ -29,18 +37,14 @@ interface BulkOperationProgress {
     message: string;
     error?: string;
   };
-  summary?: {
-    total: number;
-    successful: number;
-    failed: number;
-  };
+  summary?: BulkOperationSummary;
   error?: string;
 }
 
 interface UseBulkOperationOptions {
   endpoint: string;
   apiToken: string;
-  onComplete?: (summary: { total: number; successful: number; failed: number }) => void;
+  onComplete?: (summary: BulkOperationSummary) => void;
   onError?: (error: string) => void;
 }
 
@@ -54,9 +58,10 @@ export function useBulkOperation({
   const [progress, setProgress] = useState(0);
   const [isStarted, setIsStarted] = useState(false);
   const [isCompleted, setIsCompleted] = useState(false);
-  const [summary, setSummary] = useState<{ total: number; successful: number; failed: number } | undefined>();
+  const [summary, setSummary] = useState<BulkOperationSummary | undefined>();
   const [phase, setPhase] = useState<{ current: 'api_calls' | 'verification' | 'cache_refresh'; description: string; progress: number } | undefined>();
   const abortControllerRef = useRef<AbortController | null>(null);
+  const jobIdRef = useRef<string | null>(null);
 
   const initializeDomains = useCallback((initialDomains: Array<{ zoneId: string; domainName: string }>) => {
     setDomains(initialDomains.map(domain => ({
@@ -76,6 +81,7 @@ export function useBulkOperation({
       setProgress(0);
       setIsCompleted(false);
       setPhase(undefined);
+      jobIdRef.current = null;
 
       // Create abort controller for cancellation
       const abortController = new AbortController();
@@ -95,7 +101,9 @@ export function useBulkOperation({
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        // Routes reject the operation with a JSON error before streaming
+        const result = await response.json().catch(() => null);
+        throw new Error(result?.error || `HTTP error! status: ${response.status}`);
       }
 
       if (!response.body) {
@@ -129,7 +137,10 @@ export function useBulkOperation({
                   setPhase(data.phase);
                 }
 
-                if (data.type === 'phase_update' && data.phase) {
+                if (data.type === 'job_created' && data.jobId) {
+                  // The job keeps running on the server if this stream is closed
+                  jobIdRef.current = data.jobId;
+                } else if (data.type === 'phase_update' && data.phase) {
                   // Just update phase, no other action needed
                   setPhase(data.phase);
                 } else if (data.type === 'domain_complete' && data.domain) {
@@ -192,11 +203,19 @@ export function useBulkOperation({
   }, [endpoint, startCustomOperation]);
 
   const cancelOperation = useCallback(() => {
+    // Closing the stream alone would leave a queued job running, so the job is cancelled first
+    if (jobIdRef.current) {
+      fetch(`/api/jobs/${jobIdRef.current}/cancel`, {
+        method: 'POST',
+        headers: { 'x-api-token': apiToken }
+      }).catch(error => console.error('Failed to cancel job:', error));
+      jobIdRef.current = null;
+    }
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
       toast.info('Cancelando operación...');
     }
-  }, []);
+  }, [apiToken]);
 
   const resetOperation = useCallback(() => {
     setDomains([]);
@@ -206,6 +225,7 @@ export function useBulkOperation({
     setSummary(undefined);
     setPhase(undefined);
     abortControllerRef.current = null;
+    jobIdRef.current = null;
   }, []);
 
   return {
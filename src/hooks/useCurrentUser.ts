@@ -0,0 +1,71 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Permission, UserView, hasPermission } from '@/lib/permissions';
+import { tokenStorage } from '@/lib/tokenStorage';
+
+interface SessionState {
+  authEnabled: boolean;
+  user: UserView | null;
+}
+
+// One request per page load, shared by every component that checks permissions
+let sessionRequest: Promise<SessionState> | null = null;
+
+const loadSession = (): Promise<SessionState> => {
+  if (!sessionRequest) {
+    sessionRequest = fetch('/api/auth/session')
+      .then(response => response.json())
+      .then(result => result.success ? result.data : { authEnabled: false, user: null })
+      .catch(error => {
+        console.error('Error loading session:', error);
+        sessionRequest = null;
+        return { authEnabled: false, user: null };
+      });
+  }
+  return sessionRequest;
+};
+
+/**
+ * Logged in user and what the UI may show them
+ * Without local users (login not enabled) every action is allowed, as the API does
+ * @param requireLogin - send the browser to /login when login is enabled and there is no session
+ */
+export const useCurrentUser = ({ requireLogin = false } = {}) => {
+  const [session, setSession] = useState<SessionState | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    loadSession().then(state => {
+      if (!active) return;
+      setSession(state);
+      if (requireLogin && state.authEnabled && !state.user) {
+        window.location.href = '/login';
+      }
+    });
+    return () => {
+      active = false;
+    };
+  }, [requireLogin]);
+
+  const can = (permission: Permission): boolean => {
+    if (!session) return false;
+    if (!session.authEnabled) return true;
+    return session.user ? hasPermission(session.user.role, permission) : false;
+  };
+
+  const logout = async () => {
+    await tokenStorage.forgetVaultedAccounts();
+    await fetch('/api/auth/logout', { method: 'POST' });
+    sessionRequest = null;
+    window.location.href = '/login';
+  };
+
+  return {
+    loading: session === null,
+    authEnabled: session?.authEnabled ?? false,
+    user: session?.user ?? null,
+    can,
+    logout
+  };
+};
@@ -0,0 +1,35 @@
+'use client';
+
+import { useEffect } from 'react';
+import { toast } from 'sonner';
+import { useDomainStore } from '@/store/domainStore';
+import type { RefreshEvent } from '@/lib/refreshScheduler';
+
+/**
+ * Listens to the server-side scheduled refresh and reloads the domains cache when it finishes,
+ * so lastUpdate moves forward without a manual reload. EventSource reconnects on its own
+ */
+export function useRefreshEvents() {
+  const reloadDomainsCache = useDomainStore(state => state.reloadDomainsCache);
+
+  useEffect(() => {
+    const source = new EventSource('/api/refresh-schedule/events');
+
+    source.onmessage = (message) => {
+      try {
+        const event: RefreshEvent = JSON.parse(message.data);
+
+        if (event.type === 'refresh_completed') {
+          reloadDomainsCache();
+          toast.info(`Dominios actualizados automáticamente (${event.run.domainsProcessed ?? 0} dominios)`);
+        } else if (event.type === 'refresh_failed') {
+          toast.error(`Falló la actualización programada: ${event.run.error || 'Error desconocido'}`);
+        }
+      } catch (error) {
+        console.warn('[useRefreshEvents] Failed to parse refresh event:', error);
+      }
+    };
+
+    return () => source.close();
+  }, [reloadDomainsCache]);
+}
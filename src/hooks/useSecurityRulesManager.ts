@@ -1,11 +1,13 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { RuleTemplate } from '@/types/cloudflare';
+import { RuleTemplate, RuleConflict, ConflictResolution, ChangeRequestDomainDiff, ManagedRulesetConfig, RateLimitConfig, RedirectConfig, RulePhase, UrlRewriteConfig } from '@/types/cloudflare';
 import { tokenStorage } from '@/lib/tokenStorage';
 import { useNotifications } from './useNotifications';
 import { BulkUpdatePreviewModal } from '@/components/BulkUpdatePreviewModal';
-import { findOutdatedDomains, updateRuleInDomains, AffectedDomain } from '@/lib/ruleUpdater';
+import { findOutdatedDomains, updateRuleInDomains, compareVersions, AffectedDomain } from '@/lib/ruleUpdater';
+import { isExcludedDomain } from '@/lib/domainPolicy';
+import { DEFAULT_RULE_PHASE, arePhaseConfigsEqual, getRulePhase } from '@/lib/rulePhases';
 
 export function useSecurityRulesManager() {
   const [templates, setTemplates] = useState<RuleTemplate[]>([]);
@@ -24,6 +26,7 @@ export function useSecurityRulesManager() {
       currentVersion?: string;
       action: 'update' | 'add' | 'skip';
       reason?: string;
+      conflicts?: RuleConflict[];
     }>;
   } | null>(null);
 
@@ -35,6 +38,8 @@ export function useSecurityRulesManager() {
   } | null>(null);
   const [updateProgress, setUpdateProgress] = useState(0);
   const [updateProgressCallback, setUpdateProgressCallback] = useState<((progress: number) => void) | null>(null);
+  // Bumped after a change request is created, so the requests panel reloads
+  const [changeRequestsVersion, setChangeRequestsVersion] = useState(0);
 
   const notifications = useNotifications();
 
@@ -43,6 +48,11 @@ export function useSecurityRulesManager() {
     description: '',
     expression: '',
     action: 'block' as RuleTemplate['action'],
+    phase: DEFAULT_RULE_PHASE as RulePhase,
+    ratelimit: undefined as RateLimitConfig | undefined,
+    redirect: undefined as RedirectConfig | undefined,
+    rewrite: undefined as UrlRewriteConfig | undefined,
+    managedRuleset: undefined as ManagedRulesetConfig | undefined,
     tags: [] as string[],
     applicableTags: [] as string[],
     excludedDomains: [] as string[]
@@ -100,7 +110,7 @@ export function useSecurityRulesManager() {
         resetForm();
         notifications.success('Plantilla creada exitosamente');
       } else {
-        notifications.error(result.error || 'Error al crear plantilla');
+        notifications.error(result.details?.[0]?.message || result.error || 'Error al crear plantilla');
       }
     } catch (error) {
       console.error('Error creating template:', error);
@@ -115,7 +125,8 @@ export function useSecurityRulesManager() {
       const oldTemplate = editingTemplate;
       const hasSignificantChanges =
         formData.expression !== oldTemplate.expression ||
-        formData.action !== oldTemplate.action;
+        formData.action !== oldTemplate.action ||
+        !arePhaseConfigsEqual(formData, oldTemplate);
 
       const response = await fetch(`/api/security-rules/${editingTemplate.id}`, {
         method: 'PUT',
@@ -165,7 +176,7 @@ export function useSecurityRulesManager() {
         resetForm();
         notifications.success('Plantilla actualizada exitosamente');
       } else {
-        notifications.error(result.error || 'Error al actualizar plantilla');
+        notifications.error(result.details?.[0]?.message || result.error || 'Error al actualizar plantilla');
       }
     } catch (error) {
       console.error('Error updating template:', error);
@@ -232,6 +243,11 @@ export function useSecurityRulesManager() {
       description: template.description,
       expression: template.expression,
       action: template.action,
+      phase: getRulePhase(template),
+      ratelimit: template.ratelimit,
+      redirect: template.redirect,
+      rewrite: template.rewrite,
+      managedRuleset: template.managedRuleset,
       tags: template.tags,
       applicableTags: template.applicableTags || [],
       excludedDomains: template.excludedDomains || []
@@ -247,65 +263,84 @@ export function useSecurityRulesManager() {
     }
 
     try {
-      const analyzeResponse = await fetch('/api/security-rules/analyze', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-token': apiToken // Also send in header for consistency
-        },
-        body: JSON.stringify({ apiToken, forceRefresh: false })
-      });
-
-      if (!analyzeResponse.ok) throw new Error('Failed to analyze domains');
+      const { useDomainStore } = await import('@/store/domainStore');
+      const storeData = useDomainStore.getState().allDomains;
 
-      const analyzeResult = await analyzeResponse.json();
-      if (!analyzeResult.success) throw new Error(analyzeResult.error);
+      if (!storeData || storeData.length === 0) {
+        notifications.error('No hay datos de dominios disponibles. Recarga la página.');
+        return;
+      }
 
-      const previewDomains = analyzeResult.data.domains.map((domainStatus: any) => {
-        let action: 'update' | 'add' | 'skip' = 'skip';
-        let reason = '';
-        let currentVersion = '';
+      const previewDomains = storeData.map(domainStatus => {
+        let action: 'update' | 'add' | 'skip' = 'add';
+        let reason = 'Nueva regla';
+        let currentVersion: string | undefined;
 
-        if (domainStatus.ruleStatus && domainStatus.ruleStatus.appliedRules) {
-          const existingRule = domainStatus.ruleStatus.appliedRules.find((rule: any) =>
-            rule.friendlyId === template.friendlyId
-          );
+        const existingRule = domainStatus.securityRules?.templateRules?.find(rule =>
+          rule.friendlyId === template.friendlyId
+        );
 
-          if (existingRule) {
-            currentVersion = existingRule.version || '';
-            const versionComparison = parseFloat(existingRule.version) - parseFloat(template.version);
+        if (isExcludedDomain(template, domainStatus.domain)) {
+          action = 'skip';
+          reason = 'Dominio excluido';
+        } else if (existingRule) {
+          currentVersion = existingRule.version;
+          const versionComparison = compareVersions(existingRule.version, template.version);
 
-            if (versionComparison < 0) {
-              action = 'update';
-              reason = `v${existingRule.version} → v${template.version}`;
-            } else if (versionComparison === 0) {
-              action = 'skip';
-              reason = 'Versión actual';
-            } else {
-              action = 'skip';
-              reason = 'Versión más nueva';
-            }
+          if (versionComparison < 0) {
+            action = 'update';
+            reason = `v${existingRule.version} → v${template.version}`;
           } else {
-            action = 'add';
-            reason = 'Nueva regla';
+            action = 'skip';
+            reason = versionComparison === 0 ? 'Versión actual' : 'Versión más nueva';
           }
-        } else {
-          action = 'add';
-          reason = 'Nueva regla';
         }
 
         return {
           zoneId: domainStatus.zoneId,
           domain: domainStatus.domain,
-          currentVersion: currentVersion || undefined,
+          currentVersion,
           action,
           reason
         };
       });
 
+      // Custom rules that clash with the template are only relevant where it will be written
+      const targets = previewDomains
+        .filter(domain => domain.action !== 'skip')
+        .map(domain => ({ zoneId: domain.zoneId, domainName: domain.domain }));
+      const conflictsByZone = new Map<string, RuleConflict[]>();
+
+      if (targets.length > 0) {
+        const conflictsResponse = await fetch('/api/security-rules/conflicts', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'x-api-token': apiToken
+          },
+          body: JSON.stringify({ templateId: template.id, targets })
+        });
+        const conflictsResult = await conflictsResponse.json();
+
+        if (!conflictsResult.success) {
+          throw new Error(conflictsResult.details?.[0]?.message || conflictsResult.error);
+        }
+
+        (conflictsResult.data.conflicts as RuleConflict[]).forEach(conflict => {
+          conflictsByZone.set(conflict.zoneId, [...(conflictsByZone.get(conflict.zoneId) || []), conflict]);
+        });
+
+        if (conflictsResult.data.failedZones.length > 0) {
+          notifications.warning(`No se pudieron revisar los conflictos de ${conflictsResult.data.failedZones.length} dominios`);
+        }
+      }
+
       setPreviewData({
         template,
-        domains: previewDomains
+        domains: previewDomains.map(domain => ({
+          ...domain,
+          conflicts: conflictsByZone.get(domain.zoneId)
+        }))
       });
       setShowPreviewModal(true);
 
@@ -315,7 +350,7 @@ export function useSecurityRulesManager() {
     }
   }, [notifications]);
 
-  const executeBulkUpdate = useCallback(async () => {
+  const executeBulkUpdate = useCallback(async (conflictResolutions: Record<string, ConflictResolution>) => {
     if (!previewData) return;
 
     const { template, domains } = previewData;
@@ -347,6 +382,7 @@ export function useSecurityRulesManager() {
           action: 'add',
           selectedRules: [template.friendlyId],
           targetZoneIds: domainsToUpdate.map(d => d.zoneId),
+          conflictResolutions,
           preview: false
         })
       });
@@ -355,8 +391,16 @@ export function useSecurityRulesManager() {
       if (updateResult.success) {
         const { summary } = updateResult.data;
         notifications.success(`Regla actualizada en ${summary.successful}/${summary.total} dominios`);
+
+        const pendingZones = domainsToUpdate.filter(d => d.conflicts?.length && conflictResolutions[d.zoneId] === ConflictResolution.MANUAL);
+        if (pendingZones.length > 0) {
+          notifications.warning(`${pendingZones.length} dominios quedaron sin aplicar por conflictos pendientes de revisión manual`);
+        }
+
+        const { useDomainStore } = await import('@/store/domainStore');
+        await useDomainStore.getState().refreshMultipleDomains(domainsToUpdate.map(d => d.zoneId));
       } else {
-        notifications.error('Error al actualizar dominios');
+        notifications.error(updateResult.error || 'Error al actualizar dominios');
       }
 
     } catch (error) {
@@ -368,6 +412,75 @@ export function useSecurityRulesManager() {
     }
   }, [previewData, notifications]);
 
+  const submitChangeRequest = useCallback(async (template: RuleTemplate, diff: ChangeRequestDomainDiff[]) => {
+    try {
+      const response = await fetch('/api/change-requests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ templateId: template.id, diff })
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.details?.[0]?.message || result.error);
+      }
+
+      notifications.success(`Solicitud de cambio creada para ${diff.length} dominios, pendiente de aprobación`);
+      setChangeRequestsVersion(version => version + 1);
+      return true;
+    } catch (error) {
+      console.error('Error creating change request:', error);
+      notifications.error(`Error al crear la solicitud de cambio: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+      return false;
+    }
+  }, [notifications]);
+
+  // Same domains and conflict resolutions executeBulkUpdate would apply, held for approval
+  const requestBulkUpdateApproval = useCallback(async (conflictResolutions: Record<string, ConflictResolution>) => {
+    if (!previewData) return;
+
+    const { template, domains } = previewData;
+    const diff: ChangeRequestDomainDiff[] = domains
+      .filter(domain => domain.action !== 'skip')
+      .map(domain => ({
+        zoneId: domain.zoneId,
+        domainName: domain.domain,
+        change: domain.action as ChangeRequestDomainDiff['change'],
+        currentVersion: domain.currentVersion,
+        reason: domain.reason,
+        conflicts: domain.conflicts?.length || undefined,
+        resolution: conflictResolutions[domain.zoneId]
+      }));
+
+    if (diff.length === 0) {
+      notifications.info('No hay dominios para actualizar');
+      setShowPreviewModal(false);
+      return;
+    }
+
+    if (await submitChangeRequest(template, diff)) {
+      setShowPreviewModal(false);
+      setPreviewData(null);
+    }
+  }, [previewData, notifications, submitChangeRequest]);
+
+  const requestRuleUpdateApproval = useCallback(async () => {
+    if (!updateConfirmationData) return;
+
+    const { template, affectedDomains } = updateConfirmationData;
+    const diff: ChangeRequestDomainDiff[] = affectedDomains.map(domain => ({
+      zoneId: domain.zoneId,
+      domainName: domain.domainName,
+      change: 'update',
+      currentVersion: domain.currentVersion,
+      reason: `v${domain.currentVersion} → v${template.version}`
+    }));
+
+    if (await submitChangeRequest(template, diff)) {
+      setShowUpdateConfirmation(false);
+      setUpdateConfirmationData(null);
+    }
+  }, [updateConfirmationData, submitChangeRequest]);
+
   const handleUpdateAllDomains = useCallback(async (template: RuleTemplate) => {
     try {
       // Find domains with outdated versions using ONLY store data (no API calls)
@@ -509,13 +622,18 @@ export function useSecurityRulesManager() {
       description: '',
       expression: '',
       action: 'block',
+      phase: DEFAULT_RULE_PHASE,
+      ratelimit: undefined,
+      redirect: undefined,
+      rewrite: undefined,
+      managedRuleset: undefined,
       tags: [],
       applicableTags: [],
       excludedDomains: []
     });
   }, []);
 
-  const updateFormField = useCallback((field: string, value: string) => {
+  const updateFormField = useCallback((field: string, value: string | string[] | RateLimitConfig | RedirectConfig | UrlRewriteConfig | ManagedRulesetConfig | undefined) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   }, []);
 
@@ -550,6 +668,7 @@ export function useSecurityRulesManager() {
     updateConfirmationData,
     ruleUsageStats,
     updateProgress,
+    changeRequestsVersion,
 
     // Actions
     setShowCreateDialog,
@@ -559,7 +678,10 @@ export function useSecurityRulesManager() {
     setUpdateConfirmationData,
     handleEditTemplate,
     handleUpdateAllDomains,
+    getBulkUpdatePreview,
     executeBulkUpdate,
+    requestBulkUpdateApproval,
+    requestRuleUpdateApproval,
     createTemplate,
     updateTemplate,
     deleteTemplate,
@@ -0,0 +1,36 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useDomainStore } from '@/store/domainStore';
+import { TokenCapability } from '@/types/cloudflare';
+
+// Names of the scopes as the Cloudflare token editor shows them
+export const TOKEN_CAPABILITY_LABELS: Record<TokenCapability, string> = {
+  zoneRead: 'Zone: Read',
+  dnsEdit: 'DNS: Edit',
+  zoneSettingsEdit: 'Zone Settings: Edit',
+  rulesetsEdit: 'Zone WAF / Rulesets: Edit',
+  botManagement: 'Bot Management'
+};
+
+export const missingCapabilityMessage = (capability: TokenCapability) => {
+  return `El token no tiene el permiso "${TOKEN_CAPABILITY_LABELS[capability]}" en esta zona`;
+};
+
+/**
+ * Scopes of the active token per zone, from the last capability probe
+ * Only a probe that got a 401/403 counts as missing, zones not probed yet (or that failed) are allowed
+ */
+export const useTokenCapabilities = () => {
+  const tokenCapabilities = useDomainStore(state => state.tokenCapabilities);
+
+  const isDenied = useCallback((zoneId: string, capability: TokenCapability) => {
+    return tokenCapabilities[zoneId]?.capabilities[capability] === 'denied';
+  }, [tokenCapabilities]);
+
+  const deniedZones = useCallback((zoneIds: string[], capability: TokenCapability) => {
+    return zoneIds.filter(zoneId => isDenied(zoneId, capability));
+  }, [isDenied]);
+
+  return { tokenCapabilities, isDenied, deniedZones };
+};
@@ -0,0 +1,10 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { markInterruptedJobs } = await import('./lib/jobQueue');
+    await markInterruptedJobs().catch(error => console.error('[JobQueue] Failed to mark interrupted jobs:', error));
+
+    const { startRefreshScheduler } = await import('./lib/refreshScheduler');
+    startRefreshScheduler();
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Cloudflare account scoping on the server
+ * Tokens stay in the browser (lib/tokenStorage.ts), requests only carry the ID of the active account
+ * in the `rollpix_account` cookie (or the `x-account-id` header) so each account gets its own domains cache
+ */
+import type { NextRequest } from 'next/server';
+
+export const ACCOUNT_COOKIE = 'rollpix_account';
+export const ACCOUNT_HEADER = 'x-account-id';
+
+// Account of the token stored before multi-account support, its cache keeps the original file name
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+export const ACCOUNT_ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+const DOMAINS_CACHE_FILE = 'domains-cache.json';
+const SCOPED_DOMAINS_CACHE_PATTERN = /^domains-cache\.([a-zA-Z0-9_-]{1,64})\.json$/;
+
+export const isValidAccountId = (accountId: unknown): accountId is string => {
+  return typeof accountId === 'string' && ACCOUNT_ID_PATTERN.test(accountId);
+};
+
+/**
+ * Account of the request, the default account when none (or an invalid one) was sent
+ */
+export function getRequestAccountId(request: NextRequest): string {
+  const accountId = request.headers.get(ACCOUNT_HEADER) || request.cookies.get(ACCOUNT_COOKIE)?.value;
+  return isValidAccountId(accountId) ? accountId : DEFAULT_ACCOUNT_ID;
+}
+
+/**
+ * domains-cache.json for the default account, domains-cache.<accountId>.json for the rest
+ */
+export function getDomainsCacheFile(accountId: string = DEFAULT_ACCOUNT_ID): string {
+  if (accountId === DEFAULT_ACCOUNT_ID) return DOMAINS_CACHE_FILE;
+  if (!isValidAccountId(accountId)) {
+    throw new Error(`Invalid account ID: ${accountId}`);
+  }
+  return `domains-cache.${accountId}.json`;
+}
+
+export const isAccountDomainsCacheFile = (fileName: string): boolean => {
+  return SCOPED_DOMAINS_CACHE_PATTERN.test(fileName);
+};
+
+/**
+ * Maps an account scoped cache file to the file it is a copy of, for per-file settings and defaults
+ */
+export const getBaseCacheFileName = (fileName: string): string => {
+  return isAccountDomainsCacheFile(fileName) ? DOMAINS_CACHE_FILE : fileName;
+};
+
+/**
+ * Templates without accountIds are shared by every account
+ */
+export function isTemplateAvailableForAccount(template: { accountIds?: string[] }, accountId: string): boolean {
+  return !template.accountIds || template.accountIds.length === 0 || template.accountIds.includes(accountId);
+}
@@ -0,0 +1,162 @@
+/**
+ * Append-only audit log of every change made through the manager
+ * Routes record who changed what on which zone, the values before and after and what Cloudflare
+ * answered. Entries are never edited or removed: past MAX_AUDIT_ENTRIES the oldest ones move to
+ * cache/audit-log-archive.json, which the exports include
+ */
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { AuditAction, AuditEntry } from '@/types/cloudflare';
+import { safeReadJsonFile, safeUpdateJsonFile } from './fileSystem';
+import { getRequestApiToken } from './tokenVault';
+import { getSessionUser } from './auth';
+
+const AUDIT_LOG_FILE = 'audit-log.json';
+const AUDIT_ARCHIVE_FILE = 'audit-log-archive.json';
+
+// Entries kept in the log the page reads, the oldest ones past this size move to the archive
+const MAX_AUDIT_ENTRIES = 5000;
+
+// Entries moved at once, so the archive is only rewritten every ARCHIVE_BATCH appends
+const ARCHIVE_BATCH = 1000;
+
+export interface AuditLogCache {
+  entries: AuditEntry[]; // Oldest first, new entries are appended
+  lastUpdated: string;
+}
+
+export type AuditEntryInput = Omit<AuditEntry, 'id' | 'timestamp'>;
+
+export interface AuditActor {
+  actor: string;
+  actorIp?: string;
+}
+
+export interface AuditLogFilters {
+  zone?: string; // Zone ID or part of the domain name
+  action?: AuditAction;
+  actor?: string;
+  success?: boolean;
+  from?: string;
+  to?: string;
+}
+
+export async function loadAuditLog({ includeArchive = false } = {}): Promise<AuditLogCache> {
+  const cache = await safeReadJsonFile<Partial<AuditLogCache>>(AUDIT_LOG_FILE);
+  const archive = includeArchive ? await safeReadJsonFile<Partial<AuditLogCache>>(AUDIT_ARCHIVE_FILE) : {};
+  return {
+    entries: [...(archive.entries || []), ...(cache.entries || [])],
+    lastUpdated: cache.lastUpdated || new Date().toISOString()
+  };
+}
+
+/**
+ * Stable, non-reversible identifier of an API token, safe to persist
+ */
+export function getTokenFingerprint(apiToken: string): string {
+  return createHash('sha256').update(apiToken).digest('hex').slice(0, 16);
+}
+
+export function getActorFromToken(apiToken: string): string {
+  return `token:${getTokenFingerprint(apiToken)}`;
+}
+
+/**
+ * Who is making the request: the logged in user (or the fingerprint of its API token when login is
+ * not enabled) and the client IP
+ */
+export async function getAuditActor(request: Request): Promise<AuditActor> {
+  const user = await getSessionUser(request);
+  const apiToken = user ? null : await getRequestApiToken(request);
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  return {
+    actor: user ? `user:${user.username}` : apiToken ? getActorFromToken(apiToken) : 'anonymous',
+    actorIp: forwardedFor?.split(',')[0].trim() || request.headers.get('x-real-ip') || undefined
+  };
+}
+
+/**
+ * Move the oldest entries to the archive before they leave the log
+ * @returns whether they were archived, otherwise they stay in the log until the next append
+ */
+async function archiveAuditEntries(entries: AuditEntry[]): Promise<boolean> {
+  try {
+    await safeUpdateJsonFile<AuditLogCache>(AUDIT_ARCHIVE_FILE, archive => ({
+      entries: [...(archive.entries || []), ...entries],
+      lastUpdated: new Date().toISOString()
+    }));
+    console.log(`[AuditLog] Archived ${entries.length} entries`);
+    return true;
+  } catch (error) {
+    console.error(`[AuditLog] Failed to archive ${entries.length} entries, keeping them in the log:`, error);
+    return false;
+  }
+}
+
+/**
+ * Append entries to the audit log, under the file lock so concurrent routes, bulk jobs and other
+ * processes don't lose entries
+ * Never throws: a failed audit write is logged but doesn't fail the change that was already made
+ */
+export async function recordAudit(input: AuditEntryInput | AuditEntryInput[]): Promise<void> {
+  const inputs = Array.isArray(input) ? input : [input];
+  if (inputs.length === 0) return;
+
+  const timestamp = new Date().toISOString();
+  const entries: AuditEntry[] = inputs.map(item => ({ id: uuidv4(), timestamp, ...item }));
+
+  try {
+    await safeUpdateJsonFile<AuditLogCache>(AUDIT_LOG_FILE, async cache => {
+      let current = [...(cache.entries || []), ...entries];
+      if (current.length > MAX_AUDIT_ENTRIES) {
+        const overflow = current.slice(0, current.length - MAX_AUDIT_ENTRIES + ARCHIVE_BATCH);
+        if (await archiveAuditEntries(overflow)) {
+          current = current.slice(overflow.length);
+        }
+      }
+      return { entries: current, lastUpdated: new Date().toISOString() };
+    });
+  } catch (error) {
+    console.error(`[AuditLog] Failed to record ${entries.length} entries (${entries.map(entry => entry.action).join(', ')}):`, error);
+  }
+}
+
+/**
+ * Entries matching the filters, most recent first
+ */
+export async function queryAuditLog(filters: AuditLogFilters = {}, { includeArchive = false } = {}): Promise<AuditEntry[]> {
+  const { entries } = await loadAuditLog({ includeArchive });
+  const zone = filters.zone?.toLowerCase();
+  const actor = filters.actor?.toLowerCase();
+
+  return entries
+    .filter(entry => {
+      if (zone && entry.zoneId !== filters.zone && !entry.domainName?.toLowerCase().includes(zone)) return false;
+      if (filters.action && entry.action !== filters.action) return false;
+      if (actor && !entry.actor.toLowerCase().includes(actor) && !entry.actorIp?.includes(actor)) return false;
+      if (filters.success !== undefined && entry.success !== filters.success) return false;
+      if (filters.from && entry.timestamp < filters.from) return false;
+      if (filters.to && entry.timestamp > filters.to) return false;
+      return true;
+    })
+    .reverse();
+}
+
+const CSV_COLUMNS: Array<keyof AuditEntry> = [
+  'timestamp', 'actor', 'actorIp', 'action', 'zoneId', 'domainName', 'target',
+  'success', 'before', 'after', 'cloudflareResponse', 'error', 'jobId', 'id'
+];
+
+function toCsvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditEntriesToCsv(entries: AuditEntry[]): string {
+  const lines = [
+    CSV_COLUMNS.join(','),
+    ...entries.map(entry => CSV_COLUMNS.map(column => toCsvCell(entry[column])).join(','))
+  ];
+  return lines.join('\n') + '\n';
+}
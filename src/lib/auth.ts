@@ -0,0 +1,290 @@
+/**
+ * Local users, login sessions and the permission checks of the API handlers
+ * Users live in cache/users.json with scrypt password hashes. A login creates a session whose ID goes
+ * to the browser in an httpOnly cookie, only its SHA-256 is stored
+ *
+ * Until the first user is created (from /login) authentication is off and every request has full
+ * access, as before users existed. Only a missing users.json means that: when it exists but can't be
+ * read every check fails with a 503 instead of turning authentication off
+ */
+import { createHash, randomBytes, scrypt as scryptCallback, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { safeReadJsonFile, safeUpdateJsonFile } from './fileSystem';
+import { Permission, UserRole, UserView, hasPermission } from './permissions';
+
+const USERS_FILE = 'users.json';
+export const SESSION_COOKIE = 'rollpix_session';
+const SESSION_MAX_AGE = 7 * 24 * 60 * 60; // Seconds, same expiry as the tokens stored in the browser
+
+interface StoredUser extends UserView {
+  passwordHash: string;
+}
+
+interface StoredSession {
+  id: string; // SHA-256 of the session ID sent in the cookie
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+interface UsersCache {
+  users: StoredUser[];
+  sessions: StoredSession[];
+  lastUpdated: string;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const scrypt = promisify(scryptCallback) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scrypt(password, salt, 64);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Checked when the username doesn't exist, so both cases take the same time
+const DUMMY_PASSWORD_HASH = `scrypt$${Buffer.alloc(16).toString('base64')}$${Buffer.alloc(64).toString('base64')}`;
+
+const hashSessionId = (sessionId: string) => createHash('sha256').update(sessionId).digest('hex');
+
+const toView = (user: StoredUser): UserView => ({
+  id: user.id,
+  username: user.username,
+  role: user.role,
+  createdAt: user.createdAt,
+  lastLoginAt: user.lastLoginAt
+});
+
+const sameUsername = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const isActiveSession = (session: StoredSession) => new Date(session.expiresAt).getTime() > Date.now();
+
+async function loadUsers(): Promise<UsersCache> {
+  let cache: Partial<UsersCache>;
+  try {
+    cache = await safeReadJsonFile<Partial<UsersCache>>(USERS_FILE);
+  } catch (error) {
+    console.error('[Auth] Users could not be read:', error);
+    throw new AuthError('User store is unavailable', 503);
+  }
+  return {
+    users: cache.users || [],
+    sessions: cache.sessions || [],
+    lastUpdated: cache.lastUpdated || new Date().toISOString()
+  };
+}
+
+/**
+ * Locked read-modify-write of the users file, an AuthError thrown by the updater leaves it as it was
+ */
+async function updateUsers(updater: (cache: UsersCache) => UsersCache): Promise<void> {
+  await safeUpdateJsonFile<UsersCache>(USERS_FILE, cache => ({
+    ...updater({ users: cache.users || [], sessions: cache.sessions || [], lastUpdated: cache.lastUpdated }),
+    lastUpdated: new Date().toISOString()
+  }));
+}
+
+/**
+ * At least one security-admin must remain, otherwise nobody could manage users
+ */
+function assertAdminRemains(users: StoredUser[]): void {
+  if (users.length > 0 && !users.some(user => user.role === 'security-admin')) {
+    throw new AuthError('At least one security-admin user is required', 400);
+  }
+}
+
+export async function isAuthEnabled(): Promise<boolean> {
+  return (await loadUsers()).users.length > 0;
+}
+
+export async function listUsers(): Promise<UserView[]> {
+  return (await loadUsers()).users.map(toView);
+}
+
+/**
+ * Create a user, the first one can only be a security-admin (it is created from the login page)
+ */
+export async function createUser(input: { username: string; password: string; role: UserRole }, { firstUser = false } = {}): Promise<UserView> {
+  const user: StoredUser = {
+    id: uuidv4(),
+    username: input.username,
+    role: firstUser ? 'security-admin' : input.role,
+    passwordHash: await hashPassword(input.password),
+    createdAt: new Date().toISOString()
+  };
+
+  await updateUsers(cache => {
+    if (firstUser && cache.users.length > 0) {
+      throw new AuthError('Users already exist, log in to create more', 409);
+    }
+    if (cache.users.some(existing => sameUsername(existing.username, user.username))) {
+      throw new AuthError('Username already exists', 409);
+    }
+    return { ...cache, users: [...cache.users, user] };
+  });
+
+  console.log(`[Auth] Created user ${user.username} (${user.role})`);
+  return toView(user);
+}
+
+/**
+ * Change the role or the password of a user, a new password ends its sessions
+ */
+export async function updateUser(id: string, changes: { role?: UserRole; password?: string }): Promise<UserView> {
+  const passwordHash = changes.password ? await hashPassword(changes.password) : undefined;
+  let updated: StoredUser | null = null;
+
+  await updateUsers(cache => {
+    const users = cache.users.map(user => {
+      if (user.id !== id) return user;
+      updated = { ...user, ...(changes.role && { role: changes.role }), ...(passwordHash && { passwordHash }) };
+      return updated;
+    });
+    if (!updated) {
+      throw new AuthError('User not found', 404);
+    }
+    assertAdminRemains(users);
+
+    const sessions = passwordHash ? cache.sessions.filter(session => session.userId !== id) : cache.sessions;
+    return { ...cache, users, sessions };
+  });
+
+  const user = updated as unknown as StoredUser;
+  console.log(`[Auth] Updated user ${user.username}`);
+  return toView(user);
+}
+
+export async function deleteUser(id: string): Promise<void> {
+  await updateUsers(cache => {
+    const users = cache.users.filter(user => user.id !== id);
+    if (users.length === cache.users.length) {
+      throw new AuthError('User not found', 404);
+    }
+    if (users.length === 0) {
+      throw new AuthError('The last user cannot be deleted', 400);
+    }
+    assertAdminRemains(users);
+    return { ...cache, users, sessions: cache.sessions.filter(session => session.userId !== id) };
+  });
+
+  console.log(`[Auth] Deleted user ${id}`);
+}
+
+/**
+ * Check the credentials and open a session
+ * @returns the session ID for the cookie, or null when the username or password is wrong
+ */
+export async function login(username: string, password: string): Promise<{ sessionId: string; user: UserView } | null> {
+  const { users } = await loadUsers();
+  const user = users.find(item => sameUsername(item.username, username));
+  const valid = await verifyPassword(password, user?.passwordHash || DUMMY_PASSWORD_HASH);
+  if (!user || !valid) {
+    console.warn(`[Auth] Failed login for ${username}`);
+    return null;
+  }
+
+  const sessionId = randomBytes(32).toString('base64url');
+  const now = new Date();
+  const session: StoredSession = {
+    id: hashSessionId(sessionId),
+    userId: user.id,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + SESSION_MAX_AGE * 1000).toISOString()
+  };
+
+  await updateUsers(cache => ({
+    ...cache,
+    users: cache.users.map(item => item.id === user.id ? { ...item, lastLoginAt: session.createdAt } : item),
+    // Expired sessions are dropped on every login
+    sessions: [...cache.sessions.filter(isActiveSession), session]
+  }));
+
+  console.log(`[Auth] ${user.username} logged in`);
+  return { sessionId, user: toView({ ...user, lastLoginAt: session.createdAt }) };
+}
+
+export async function logout(request: Request): Promise<void> {
+  const sessionId = readSessionId(request);
+  if (!sessionId) return;
+
+  const id = hashSessionId(sessionId);
+  await updateUsers(cache => ({ ...cache, sessions: cache.sessions.filter(session => session.id !== id) }));
+}
+
+function readSessionId(request: Request): string | null {
+  const cookies = request.headers.get('cookie') || '';
+  for (const cookie of cookies.split(';')) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join('='));
+  }
+  return null;
+}
+
+/**
+ * User of the session cookie sent with the request
+ */
+export async function getSessionUser(request: Request): Promise<UserView | null> {
+  const sessionId = readSessionId(request);
+  if (!sessionId) return null;
+
+  const { users, sessions } = await loadUsers();
+  const id = hashSessionId(sessionId);
+  const session = sessions.find(item => item.id === id && isActiveSession(item));
+  const user = session && users.find(item => item.id === session.userId);
+  return user ? toView(user) : null;
+}
+
+/**
+ * Permission check at the start of an API handler
+ * @returns the 401/403 response to send (503 when the users can't be read), or null when the request can go on
+ */
+export async function requirePermission(request: Request, permission: Permission): Promise<NextResponse | null> {
+  let user: UserView | null;
+  try {
+    if (!(await isAuthEnabled())) return null;
+    user = await getSessionUser(request);
+  } catch (error) {
+    if (!(error instanceof AuthError)) throw error;
+    return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+  }
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+  if (!hasPermission(user.role, permission)) {
+    console.warn(`[Auth] ${user.username} (${user.role}) denied ${permission} on ${new URL(request.url).pathname}`);
+    return NextResponse.json({ success: false, error: `Permission denied: ${permission} required` }, { status: 403 });
+  }
+  return null;
+}
+
+export function setSessionCookie(response: NextResponse, request: Request, sessionId: string): void {
+  response.cookies.set(SESSION_COOKIE, sessionId, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: new URL(request.url).protocol === 'https:',
+    path: '/',
+    maxAge: SESSION_MAX_AGE
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, sameSite: 'lax', path: '/', maxAge: 0 });
+}
@@ -1,12 +1,14 @@
 import { RuleTemplate } from '@/types/cloudflare';
 import { TemplateRuleMapping } from './ruleMapping';
-import { safeWriteJsonFile, safeReadJsonFile } from './fileSystem';
+import { safeReadJsonFile, safeUpdateJsonFile } from './fileSystem';
+import { recordTemplateRevisions, TemplateRevisionInput } from './templateHistory';
 
 export interface PendingChanges {
   ruleMappings: TemplateRuleMapping[];
   templates: RuleTemplate[];
   removedMappings: string[];
   templateUpdates: RuleTemplate[];
+  templateSources?: Record<string, string>; // Domain each new or updated template was synced from
 }
 
 export interface RuleMappingCache {
@@ -133,6 +135,7 @@ export class BatchCacheWriter {
 
     consolidated.templates = Array.from(templatesMap.values());
     consolidated.templateUpdates = Array.from(updatesMap.values());
+    consolidated.templateSources = Object.assign({}, ...allChanges.map(changes => changes.templateSources || {}));
 
     console.log(`[BatchCacheWriter] Consolidated changes:`, {
       ruleMappings: consolidated.ruleMappings.length,
@@ -188,48 +191,65 @@ export class BatchCacheWriter {
     try {
       console.log(`[BatchCacheWriter] applyTemplatesChanges called with ${changes.templates.length} new, ${changes.templateUpdates.length} updates`);
 
-      // Load current cache
-      const currentCache = await this.loadTemplatesCache();
-      console.log(`[BatchCacheWriter] Loaded current cache: ${currentCache.templates.length} existing templates`);
-
-      let templates = [...currentCache.templates];
-
-      // Add new templates
-      console.log(`[BatchCacheWriter] Adding ${changes.templates.length} new templates`);
-      templates.push(...changes.templates);
-
-      // Update existing templates
-      console.log(`[BatchCacheWriter] Applying ${changes.templateUpdates.length} template updates`);
-      for (const updatedTemplate of changes.templateUpdates) {
-        const index = templates.findIndex(t => t.id === updatedTemplate.id);
-        if (index !== -1) {
-          console.log(`[BatchCacheWriter] Updating existing template ${updatedTemplate.id} at index ${index}`);
-          templates[index] = updatedTemplate;
-        } else {
-          // If not found, add as new template
-          console.log(`[BatchCacheWriter] Template ${updatedTemplate.id} not found, adding as new`);
-          templates.push(updatedTemplate);
+      const revisions: TemplateRevisionInput[] = changes.templates.map(template => ({
+        template,
+        source: 'domain_sync',
+        sourceDomain: changes.templateSources?.[template.id]
+      }));
+
+      // Load, merge and save while holding the file lock so a concurrent template edit isn't lost
+      const updatedCache = await safeUpdateJsonFile<TemplatesCache>('security-rules-templates.json', currentCache => {
+        console.log(`[BatchCacheWriter] Loaded current cache: ${(currentCache.templates || []).length} existing templates`);
+
+        let templates = [...(currentCache.templates || [])];
+
+        // Add new templates
+        console.log(`[BatchCacheWriter] Adding ${changes.templates.length} new templates`);
+        templates.push(...changes.templates);
+
+        // Update existing templates
+        console.log(`[BatchCacheWriter] Applying ${changes.templateUpdates.length} template updates`);
+        for (const updatedTemplate of changes.templateUpdates) {
+          const index = templates.findIndex(t => t.id === updatedTemplate.id);
+          if (index !== -1) {
+            console.log(`[BatchCacheWriter] Updating existing template ${updatedTemplate.id} at index ${index}`);
+            revisions.push({
+              template: updatedTemplate,
+              previous: templates[index],
+              source: 'domain_sync',
+              sourceDomain: changes.templateSources?.[updatedTemplate.id]
+            });
+            templates[index] = updatedTemplate;
+          } else {
+            // If not found, add as new template
+            console.log(`[BatchCacheWriter] Template ${updatedTemplate.id} not found, adding as new`);
+            revisions.push({
+              template: updatedTemplate,
+              source: 'domain_sync',
+              sourceDomain: changes.templateSources?.[updatedTemplate.id]
+            });
+            templates.push(updatedTemplate);
+          }
         }
-      }
 
-      // Remove duplicates by ID (keep latest)
-      const templatesMap = new Map<string, RuleTemplate>();
-      for (const template of templates) {
-        templatesMap.set(template.id, template);
-      }
-      templates = Array.from(templatesMap.values());
+        // Remove duplicates by ID (keep latest)
+        const templatesMap = new Map<string, RuleTemplate>();
+        for (const template of templates) {
+          templatesMap.set(template.id, template);
+        }
+        templates = Array.from(templatesMap.values());
 
-      console.log(`[BatchCacheWriter] Final template count before save: ${templates.length}`);
-      console.log(`[BatchCacheWriter] Templates to save: ${templates.map(t => t.id).join(', ')}`);
+        console.log(`[BatchCacheWriter] Final template count before save: ${templates.length}`);
+        console.log(`[BatchCacheWriter] Templates to save: ${templates.map(t => t.id).join(', ')}`);
 
-      // Save updated cache
-      const updatedCache: TemplatesCache = {
-        templates,
-        lastUpdated: new Date().toISOString()
-      };
+        return {
+          templates,
+          lastUpdated: new Date().toISOString()
+        };
+      });
+      console.log(`[BatchCacheWriter] ✅ Successfully saved ${updatedCache.templates.length} templates to file`);
 
-      await safeWriteJsonFile('security-rules-templates.json', updatedCache);
-      console.log(`[BatchCacheWriter] ✅ Successfully saved ${templates.length} templates to file`);
+      await recordTemplateRevisions(revisions);
 
       return { count: changes.templates.length + changes.templateUpdates.length };
 
@@ -253,20 +273,6 @@ export class BatchCacheWriter {
     }
   }
 
-  /**
-   * Load current templates cache
-   */
-  private async loadTemplatesCache(): Promise<TemplatesCache> {
-    try {
-      return await safeReadJsonFile<TemplatesCache>('security-rules-templates.json');
-    } catch {
-      return {
-        templates: [],
-        lastUpdated: new Date().toISOString()
-      };
-    }
-  }
-
   /**
    * Utility method to create empty pending changes
    */
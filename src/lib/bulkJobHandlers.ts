@@ -0,0 +1,221 @@
+/**
+ * Per-domain work of every bulk job type
+ * Each target is applied, verified and refreshed on its own, so a job can resume from any domain
+ */
+import { BulkJob, BulkJobTarget, BulkJobType, ConflictResolution, RuleTemplate } from '@/types/cloudflare';
+import { CloudflareAPI } from './cloudflare';
+import { safeReadJsonFile } from './fileSystem';
+import { isExcludedDomain, isTemplateDesired, isTemplateForbidden } from './domainPolicy';
+import { isTemplateAvailableForAccount } from './accounts';
+import { loadDomainTags, getTagsForZone } from './domainTags';
+
+const RULES_TEMPLATES_FILE = 'security-rules-templates.json';
+
+export type BulkJobStep = 'api_calls' | 'verification' | 'cache_refresh';
+
+export interface BulkJobTargetResult {
+  success: boolean;
+  message: string;
+  error?: string;
+  before?: unknown; // Values recorded in the audit log, not kept in the job
+  after?: unknown;
+}
+
+export type BulkJobTargetRunner = (
+  api: CloudflareAPI,
+  target: BulkJobTarget,
+  onStep: (step: BulkJobStep) => void
+) => Promise<BulkJobTargetResult>;
+
+// Loads what every target of the job needs (templates, tags...) once per run
+type BulkJobHandler = (job: BulkJob) => Promise<BulkJobTargetRunner>;
+
+export const RULE_JOB_ACTIONS = ['add', 'remove', 'clean', 'reconcile'] as const;
+export const FIREWALL_JOB_ACTIONS = ['enable_under_attack', 'disable_under_attack', 'enable_bot_fight', 'disable_bot_fight'] as const;
+
+export interface RuleJobParams {
+  selectedRules?: string[];
+  plan?: Record<string, { add?: string[]; remove?: string[] }>; // Reconcile: per-zone friendlyIds
+  conflictResolutions?: Record<string, ConflictResolution>; // Add: how to handle the custom rules that clash, by zoneId
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+// A failed cache refresh never fails the domain, Cloudflare already has the change
+async function refreshDomain(api: CloudflareAPI, target: BulkJobTarget): Promise<void> {
+  try {
+    await api.refreshDomainInfo(target.zoneId);
+  } catch (error) {
+    console.warn(`[BulkJobs] Failed to refresh domain info for ${target.domainName}:`, error);
+  }
+}
+
+const runRuleJob: BulkJobHandler = async (job) => {
+  const params = job.params as RuleJobParams;
+  const selectedRules = params.selectedRules || [];
+  const templatesCache = await safeReadJsonFile<{ templates?: RuleTemplate[] }>(RULES_TEMPLATES_FILE);
+  // Templates scoped to other accounts are never applied with this job's token
+  const templates = (templatesCache.templates || [])
+    .filter(template => !job.accountId || isTemplateAvailableForAccount(template, job.accountId));
+  const domainTags = job.action === 'reconcile' ? await loadDomainTags() : null;
+  const findTemplate = (friendlyId: string) => templates.find(template => template.friendlyId === friendlyId);
+
+  return async (api, target, onStep) => {
+    const { zoneId, domainName } = target;
+    const added: string[] = [];
+    const removed: string[] = [];
+    let message: string;
+
+    onStep('api_calls');
+    if (job.action === 'clean') {
+      const cleanResult = await api.removeAllRules(zoneId);
+      if (!cleanResult.success) {
+        return { success: false, message: cleanResult.message, error: cleanResult.message };
+      }
+      message = cleanResult.message;
+    } else if (job.action === 'add') {
+      let skippedCount = 0;
+      for (const friendlyId of selectedRules) {
+        const template = findTemplate(friendlyId);
+        if (!template) continue;
+
+        // Templates that exclude this domain are never applied to it
+        if (isExcludedDomain(template, domainName)) {
+          skippedCount++;
+          continue;
+        }
+
+        const resolution = params.conflictResolutions?.[zoneId];
+        const applyResult = await api.applyTemplateRule(
+          zoneId,
+          template,
+          resolution ? { resolution, templates, domainName } : undefined
+        );
+        if (applyResult.success && (applyResult.action === 'added' || applyResult.action === 'updated')) {
+          added.push(friendlyId);
+        } else {
+          skippedCount++;
+        }
+      }
+      message = `Added: ${added.length}, Skipped: ${skippedCount}`;
+    } else if (job.action === 'reconcile') {
+      // The plan comes from the client, so every entry is checked again against the stored tags
+      const tags = domainTags ? getTagsForZone(domainTags, zoneId) : [];
+      const zonePlan = params.plan?.[zoneId] || {};
+      let skippedCount = 0;
+
+      for (const friendlyId of zonePlan.add || []) {
+        const template = findTemplate(friendlyId);
+        if (!template || !isTemplateDesired(template, domainName, tags)) {
+          skippedCount++;
+          continue;
+        }
+
+        const applyResult = await api.applyTemplateRule(zoneId, template);
+        if (applyResult.success && (applyResult.action === 'added' || applyResult.action === 'updated')) {
+          added.push(friendlyId);
+        } else {
+          skippedCount++;
+        }
+      }
+
+      for (const friendlyId of zonePlan.remove || []) {
+        const template = findTemplate(friendlyId);
+        if (!template || !isTemplateForbidden(template, domainName, tags)) {
+          skippedCount++;
+          continue;
+        }
+
+        const removeResult = await api.removeTemplateRuleByMapping(zoneId, friendlyId);
+        if (removeResult.success && removeResult.removedRuleId) {
+          removed.push(friendlyId);
+        } else {
+          skippedCount++;
+        }
+      }
+      message = `Added: ${added.length}, Removed: ${removed.length}, Skipped: ${skippedCount}`;
+    } else {
+      for (const friendlyId of selectedRules) {
+        if (!findTemplate(friendlyId)) continue;
+
+        const removeResult = await api.removeTemplateRuleByMapping(zoneId, friendlyId);
+        if (removeResult.success && removeResult.removedRuleId) {
+          removed.push(friendlyId);
+        }
+      }
+      message = `Removed: ${removed.length}`;
+    }
+
+    onStep('verification');
+    const verifications = job.action === 'clean'
+      ? [api.verifyTemplateRuleApplied(zoneId, 'all_templates', 'cleaned', 3)]
+      : [
+          ...added.map(friendlyId => api.verifyTemplateRuleApplied(zoneId, friendlyId, 'added', 3)),
+          ...removed.map(friendlyId => api.verifyTemplateRuleApplied(zoneId, friendlyId, 'removed', 3))
+        ];
+    const after = { added, removed };
+    if (!(await Promise.all(verifications)).every(Boolean)) {
+      return {
+        success: false,
+        message: 'Verificación falló: cambios no se aplicaron correctamente',
+        error: 'Verification timeout',
+        after
+      };
+    }
+
+    onStep('cache_refresh');
+    await refreshDomain(api, target);
+    return { success: true, message, after };
+  };
+};
+
+const runFirewallJob: BulkJobHandler = async (job) => {
+  const underAttack = job.action === 'enable_under_attack' || job.action === 'disable_under_attack';
+  const enabled = job.action === 'enable_under_attack' || job.action === 'enable_bot_fight';
+  const setting = underAttack ? 'security_level' : 'bot_fight_mode';
+  const value = underAttack ? (enabled ? 'under_attack' : 'medium') : enabled;
+  const modeName = underAttack ? 'Under Attack Mode' : 'Bot Fight Mode';
+
+  return async (api, target, onStep) => {
+    onStep('api_calls');
+    // Previous value for the audit log, a failed read doesn't block the change
+    const before = await api.getZoneSetting(target.zoneId, setting)
+      .then(current => ({ [setting]: current }))
+      .catch(() => undefined);
+    const after = { [setting]: value };
+
+    try {
+      await api.updateZoneSetting(target.zoneId, setting, value);
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error al ${enabled ? 'habilitar' : 'deshabilitar'} ${modeName}`,
+        error: errorMessage(error),
+        before,
+        after
+      };
+    }
+
+    onStep('verification');
+    if (!(await api.verifyZoneSetting(target.zoneId, setting, value, 3))) {
+      return {
+        success: false,
+        message: 'Verificación falló: cambio no se aplicó correctamente',
+        error: 'Verification timeout',
+        before,
+        after
+      };
+    }
+
+    onStep('cache_refresh');
+    await refreshDomain(api, target);
+    return { success: true, message: `${modeName} ${enabled ? 'habilitado' : 'deshabilitado'}`, before, after };
+  };
+};
+
+export const BULK_JOB_HANDLERS: Record<BulkJobType, BulkJobHandler> = {
+  rules: runRuleJob,
+  firewall: runFirewallJob
+};
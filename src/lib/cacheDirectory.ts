@@ -0,0 +1,9 @@
+/**
+ * Location of the cache files: CACHE_DIR when set (relative to the working directory), cache/ otherwise
+ * Resolved on every call, so a process can be pointed at another directory after the modules load
+ */
+import { resolve } from 'path';
+
+export function getCacheDir(): string {
+  return resolve(process.cwd(), process.env.CACHE_DIR || 'cache');
+}
@@ -0,0 +1,290 @@
+/**
+ * Change requests: a planned bulk template rollout that a second user must approve before it runs
+ * The request keeps the template version and the per-domain diff that was reviewed, once approved it
+ * is executed as a regular rules job (lib/jobQueue.ts). Requests live in cache/change-requests.json
+ *
+ * Approval is tied to user accounts, so requests are only available once login is enabled
+ *
+ * The approval policy in the same file marks the zones (or all of them) where template rollouts must go
+ * through an approved request: the rollout routes call requireChangeApproval before adding rules, only
+ * the execute route of an approved request queues the job without that check
+ */
+import { NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { safeReadJsonFile, safeUpdateJsonFile } from './fileSystem';
+import { AuthError, isAuthEnabled } from './auth';
+import { DEFAULT_RULE_PHASE, arePhaseConfigsEqual } from './rulePhases';
+import { ChangeApprovalPolicy, ChangeRequest, ChangeRequestDomainDiff, ChangeRequestStatus, RuleTemplate } from '@/types/cloudflare';
+
+const CHANGE_REQUESTS_FILE = 'change-requests.json';
+const RULES_TEMPLATES_FILE = 'security-rules-templates.json';
+
+// Closed requests (rejected, cancelled, executed) kept for the history
+const MAX_CLOSED_REQUESTS = 100;
+
+const OPEN_STATUSES: ChangeRequestStatus[] = ['pending', 'approved'];
+
+interface ChangeRequestsCache {
+  requests: ChangeRequest[];
+  policy?: ChangeApprovalPolicy;
+  lastUpdated: string;
+}
+
+const DEFAULT_POLICY: ChangeApprovalPolicy = { requireForAllZones: false, protectedZones: [] };
+
+export class ChangeRequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ChangeRequestError';
+  }
+}
+
+export const isOpenChangeRequest = (request: ChangeRequest) => OPEN_STATUSES.includes(request.status);
+
+/**
+ * Locked read-modify-write of one request, a ChangeRequestError thrown by the updater leaves the file as it was
+ */
+async function updateChangeRequest(id: string, updater: (request: ChangeRequest) => ChangeRequest): Promise<ChangeRequest> {
+  let updated = null as ChangeRequest | null;
+
+  await safeUpdateJsonFile<ChangeRequestsCache>(CHANGE_REQUESTS_FILE, cache => {
+    const requests = cache.requests || [];
+    const current = requests.find(request => request.id === id);
+    if (!current) {
+      throw new ChangeRequestError('Change request not found', 404);
+    }
+    const next = { ...updater(current), updatedAt: new Date().toISOString() };
+    updated = next;
+    return {
+      ...cache,
+      requests: requests.map(request => request.id === id ? next : request),
+      lastUpdated: new Date().toISOString()
+    };
+  });
+
+  return updated as unknown as ChangeRequest;
+}
+
+function assertStatus(request: ChangeRequest, allowed: ChangeRequestStatus[], action: string): void {
+  if (!allowed.includes(request.status)) {
+    throw new ChangeRequestError(`Change request is ${request.status} and can not be ${action}`, 409);
+  }
+}
+
+export async function findRuleTemplate(templateId: string): Promise<RuleTemplate | undefined> {
+  const cache = await safeReadJsonFile<{ templates?: RuleTemplate[] }>(RULES_TEMPLATES_FILE);
+  return (cache.templates || []).find(template => template.id === templateId);
+}
+
+/**
+ * Requests of the account, newest first
+ */
+export async function listChangeRequests(accountId?: string): Promise<ChangeRequest[]> {
+  const cache = await safeReadJsonFile<Partial<ChangeRequestsCache>>(CHANGE_REQUESTS_FILE);
+  return (cache.requests || [])
+    .filter(request => !accountId || !request.accountId || request.accountId === accountId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getChangeRequest(id: string): Promise<ChangeRequest | null> {
+  const cache = await safeReadJsonFile<Partial<ChangeRequestsCache>>(CHANGE_REQUESTS_FILE);
+  return (cache.requests || []).find(request => request.id === id) || null;
+}
+
+export async function createChangeRequest(
+  input: { title?: string; template: RuleTemplate; diff: ChangeRequestDomainDiff[]; accountId?: string },
+  actor: string
+): Promise<ChangeRequest> {
+  const now = new Date().toISOString();
+  const { id, friendlyId, name, version, expression, action, actionParameters, phase, ratelimit, redirect, rewrite, managedRuleset } = input.template;
+  const request: ChangeRequest = {
+    id: uuidv4(),
+    title: input.title || `Aplicar ${friendlyId} v${version}`,
+    template: {
+      id, friendlyId, name, version, expression, action,
+      ...(actionParameters && { actionParameters }),
+      ...(phase && { phase }),
+      ...(ratelimit && { ratelimit }),
+      ...(redirect && { redirect }),
+      ...(rewrite && { rewrite }),
+      ...(managedRuleset && { managedRuleset })
+    },
+    diff: input.diff,
+    status: 'pending',
+    requestedBy: actor,
+    ...(input.accountId && { accountId: input.accountId }),
+    comments: [],
+    history: [{ status: 'pending', actor, at: now }],
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await safeUpdateJsonFile<ChangeRequestsCache>(CHANGE_REQUESTS_FILE, cache => {
+    const requests = [...(cache.requests || []), request];
+    const closed = requests.filter(item => !isOpenChangeRequest(item));
+    const dropped = new Set(closed
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(MAX_CLOSED_REQUESTS)
+      .map(item => item.id));
+    return {
+      ...cache,
+      requests: requests.filter(item => !dropped.has(item.id)),
+      lastUpdated: now
+    };
+  });
+
+  console.log(`[ChangeRequests] ${actor} requested ${friendlyId} v${version} on ${input.diff.length} domains (${request.id})`);
+  return request;
+}
+
+export async function addChangeRequestComment(id: string, author: string, text: string): Promise<ChangeRequest> {
+  return updateChangeRequest(id, request => ({
+    ...request,
+    comments: [...request.comments, { id: uuidv4(), author, text, createdAt: new Date().toISOString() }]
+  }));
+}
+
+/**
+ * Approve or reject a pending request, never by the user that created it
+ */
+export async function reviewChangeRequest(id: string, reviewer: string, approve: boolean, comment?: string): Promise<ChangeRequest> {
+  const updated = await updateChangeRequest(id, request => {
+    assertStatus(request, ['pending'], 'reviewed');
+    if (request.requestedBy === reviewer) {
+      throw new ChangeRequestError('A change request must be reviewed by a different user', 403);
+    }
+
+    const status: ChangeRequestStatus = approve ? 'approved' : 'rejected';
+    return {
+      ...request,
+      status,
+      history: [...request.history, { status, actor: reviewer, at: new Date().toISOString(), ...(comment && { note: comment }) }]
+    };
+  });
+
+  console.log(`[ChangeRequests] ${reviewer} ${updated.status} change request ${id}`);
+  return updated;
+}
+
+/**
+ * Withdraw an open request, only its author can
+ */
+export async function cancelChangeRequest(id: string, actor: string): Promise<ChangeRequest> {
+  return updateChangeRequest(id, request => {
+    assertStatus(request, OPEN_STATUSES, 'cancelled');
+    if (request.requestedBy !== actor) {
+      throw new ChangeRequestError('Only the author can cancel a change request', 403);
+    }
+    return {
+      ...request,
+      status: 'cancelled',
+      history: [...request.history, { status: 'cancelled', actor, at: new Date().toISOString() }]
+    };
+  });
+}
+
+/**
+ * Whether the template still has the content that was reviewed, not every edit bumps its version
+ */
+function isApprovedContent(approved: ChangeRequest['template'], template: RuleTemplate): boolean {
+  return approved.version === template.version &&
+    approved.expression === template.expression &&
+    approved.action === template.action &&
+    JSON.stringify(approved.actionParameters || {}) === JSON.stringify(template.actionParameters || {}) &&
+    (approved.phase || DEFAULT_RULE_PHASE) === (template.phase || DEFAULT_RULE_PHASE) &&
+    arePhaseConfigsEqual(approved, template);
+}
+
+/**
+ * Mark an approved request as executed before its job is queued, so it can only run once
+ * Fails when the template changed since the request: the approval covered the reviewed content
+ */
+export async function claimChangeRequestExecution(id: string, actor: string, currentTemplate?: RuleTemplate): Promise<ChangeRequest> {
+  return updateChangeRequest(id, request => {
+    assertStatus(request, ['approved'], 'executed');
+    if (!currentTemplate || !isApprovedContent(request.template, currentTemplate)) {
+      throw new ChangeRequestError('Template changed since the request was approved, create a new change request', 409);
+    }
+    return {
+      ...request,
+      status: 'executed',
+      history: [...request.history, { status: 'executed', actor, at: new Date().toISOString() }]
+    };
+  });
+}
+
+/**
+ * Link the job that runs the request, or give the approval back when the job could not be queued
+ */
+export async function completeChangeRequestExecution(id: string, result: { jobId: string } | { error: string }): Promise<ChangeRequest> {
+  return updateChangeRequest(id, request => {
+    if ('jobId' in result) {
+      return { ...request, jobId: result.jobId };
+    }
+    const last = request.history[request.history.length - 1];
+    return {
+      ...request,
+      status: 'approved',
+      history: [...request.history, { status: 'approved', actor: last.actor, at: new Date().toISOString(), note: `Execution failed: ${result.error}` }]
+    };
+  });
+}
+
+export async function getApprovalPolicy(): Promise<ChangeApprovalPolicy> {
+  const cache = await safeReadJsonFile<Partial<ChangeRequestsCache>>(CHANGE_REQUESTS_FILE);
+  return { ...DEFAULT_POLICY, ...cache.policy };
+}
+
+export async function updateApprovalPolicy(
+  changes: Pick<ChangeApprovalPolicy, 'requireForAllZones' | 'protectedZones'>,
+  actor: string
+): Promise<ChangeApprovalPolicy> {
+  const policy: ChangeApprovalPolicy = { ...changes, updatedAt: new Date().toISOString(), updatedBy: actor };
+
+  await safeUpdateJsonFile<ChangeRequestsCache>(CHANGE_REQUESTS_FILE, cache => ({
+    ...cache,
+    requests: cache.requests || [],
+    policy,
+    lastUpdated: new Date().toISOString()
+  }));
+
+  console.log(`[ChangeRequests] ${actor} set the approval policy: ${policy.requireForAllZones ? 'all zones' : `${policy.protectedZones.length} protected zones`}`);
+  return policy;
+}
+
+/**
+ * Zones of the list where a template rollout needs an approved change request
+ * Nothing is enforced without login, there would be nobody to approve. Throws an AuthError
+ * when the users can't be read
+ */
+export async function findZonesRequiringApproval(zoneIds: string[]): Promise<string[]> {
+  if (!(await isAuthEnabled())) return [];
+
+  const policy = await getApprovalPolicy();
+  if (policy.requireForAllZones) return zoneIds;
+
+  const protectedIds = new Set(policy.protectedZones.map(zone => zone.zoneId));
+  return zoneIds.filter(zoneId => protectedIds.has(zoneId));
+}
+
+/**
+ * Guard for the routes that add or update template rules outside a change request
+ * Returns the 403 response to send when any zone is covered by the approval policy
+ */
+export async function requireChangeApproval(request: Request, zoneIds: string[]): Promise<NextResponse | null> {
+  let blocked: string[];
+  try {
+    blocked = await findZonesRequiringApproval(zoneIds);
+  } catch (error) {
+    if (!(error instanceof AuthError)) throw error;
+    return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+  }
+  if (blocked.length === 0) return null;
+
+  console.warn(`[ChangeRequests] Rollout to ${blocked.length} zones without an approved change request rejected on ${new URL(request.url).pathname}`);
+  return NextResponse.json({
+    success: false,
+    error: `Approval required: ${blocked.length} zones need an approved change request`,
+    zoneIds: blocked
+  }, { status: 403 });
+}
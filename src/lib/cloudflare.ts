@@ -1,9 +1,29 @@
-import { CloudflareZone, CloudflareDNSRecord, CloudflareApiResponse, DomainStatus, CloudflareRuleset, CloudflareRule, RuleTemplate } from '@/types/cloudflare';
+import { CloudflareZone, CloudflareAccount, CloudflareIPList, CloudflareIPListItem, CloudflareIPAccessRule, IPAccessRuleInput, IPListItemInput, CloudflareDNSRecord, DNSRecordInput, CloudflareApiResponse, DomainStatus, CloudflareRuleset, CloudflareRule, ManagedRulesetDeployment, RuleTemplate, RuleConflict, ConflictResolution, TokenCapabilityStatus } from '@/types/cloudflare';
 import { createCloudflareRuleName, parseCloudflareRuleName, isTemplateRule, compareVersions, isTemplateFormat, parseTemplateFormat, createTemplateFromRule, findTemplateByFriendlyId, generateNextFriendlyId } from './ruleUtils';
 import { addRuleMapping, removeRuleMapping, classifyRule, classifyRulesBatch, getCloudflareRuleId, getTemplateMappingByZoneAndFriendlyId } from './ruleMapping';
+import { detectRuleConflicts, mergeConflictExpressions } from './ruleConflicts';
+import { getRulePhase, isTemplateRuleset, templatePhaseFieldsFromRule, templatePhaseRuleFields } from './rulePhases';
+import { fromManagedRulesetActionParameters, getManagedRulesetName } from './managedRulesets';
+import { cloudflareRateLimiter, getBackoffDelay, parseRetryAfter, waitForRateLimitBudget, ESTIMATED_CALLS_PER_DOMAIN } from './rateLimiter';
 
 const CLOUDFLARE_API_BASE = 'https://api.cloudflare.com/client/v4';
 
+// Attempts for idempotent GET requests (first try + retries)
+const MAX_GET_ATTEMPTS = 4;
+
+// Page size used when walking every DNS record of a zone
+const DNS_RECORDS_PER_PAGE = 100;
+
+// Page sizes used when walking list items and IP access rules
+const IP_LIST_ITEMS_PER_PAGE = 500;
+const IP_ACCESS_RULES_PER_PAGE = 100;
+
+// List item changes are applied asynchronously by Cloudflare, usually within a few seconds
+const LIST_OPERATION_POLL_INTERVAL = 1000;
+const LIST_OPERATION_MAX_POLLS = 30;
+
+type RequestPriority = 'interactive' | 'bulk';
+
 // Helper function to map template actions to Cloudflare actions
 function mapTemplateActionToCloudflareAction(templateAction: string): string {
   switch (templateAction) {
@@ -14,22 +34,79 @@ function mapTemplateActionToCloudflareAction(templateAction: string): string {
   }
 }
 
+// Managed rulesets deployed outside templates also live in the managed phase entry point,
+// they are listed by getManagedRulesetDeployments and must never be treated as custom rules
+function isScannedPhaseRule(phase: string, rule: CloudflareRule): boolean {
+  return phase !== 'http_request_firewall_managed' || parseCloudflareRuleName(rule.description || '') !== null;
+}
+
 export class CloudflareAPI {
   private apiToken: string;
+  private priority: RequestPriority;
 
-  constructor(apiToken: string) {
+  /**
+   * @param priority - 'interactive' for single user actions (may use the reserved budget),
+   *                   'bulk' for batch processing (default)
+   */
+  constructor(apiToken: string, priority: RequestPriority = 'bulk') {
     this.apiToken = apiToken;
+    this.priority = priority;
+  }
+
+  /**
+   * Send a request through the shared rate limiter
+   * GET requests are retried with jittered backoff on 429, 5xx and network errors;
+   * other methods are never retried because they are not idempotent
+   */
+  private async fetchWithRateLimit(endpoint: string, options: RequestInit): Promise<Response> {
+    const method = (options.method || 'GET').toUpperCase();
+    const isIdempotent = method === 'GET';
+    const maxAttempts = isIdempotent ? MAX_GET_ATTEMPTS : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      await cloudflareRateLimiter.acquire(this.priority);
+
+      let response: Response;
+      try {
+        response = await fetch(`${CLOUDFLARE_API_BASE}${endpoint}`, {
+          ...options,
+          headers: {
+            'Authorization': `Bearer ${this.apiToken}`,
+            'Content-Type': 'application/json',
+            ...options.headers,
+          },
+        });
+      } catch (networkError) {
+        if (attempt >= maxAttempts) {
+          throw networkError;
+        }
+        const delay = getBackoffDelay(attempt);
+        console.warn(`[CloudflareAPI] Network error on ${method} ${endpoint}, retrying in ${delay}ms (attempt ${attempt}/${maxAttempts})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        continue;
+      }
+
+      cloudflareRateLimiter.syncFromHeaders(response.headers);
+
+      const isThrottled = response.status === 429;
+      if (isThrottled) {
+        cloudflareRateLimiter.registerThrottle(parseRetryAfter(response.headers.get('retry-after')));
+      }
+
+      const isRetryable = isThrottled || response.status >= 500;
+      if (!isRetryable || attempt >= maxAttempts) {
+        return response;
+      }
+
+      // The limiter already pauses every caller after a 429, so only the jitter is added here
+      const delay = getBackoffDelay(attempt);
+      console.warn(`[CloudflareAPI] ${response.status} on ${method} ${endpoint}, retrying in ${delay}ms (attempt ${attempt}/${maxAttempts})`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
   }
 
   private async makeRequest<T>(endpoint: string, options: RequestInit = {}, throwOnError = true): Promise<any> {
-    const response = await fetch(`${CLOUDFLARE_API_BASE}${endpoint}`, {
-      ...options,
-      headers: {
-        'Authorization': `Bearer ${this.apiToken}`,
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-    });
+    const response = await this.fetchWithRateLimit(endpoint, options);
 
     if (!response.ok) {
       if (throwOnError) {
@@ -57,6 +134,32 @@ export class CloudflareAPI {
     }
   }
 
+  /**
+   * Whether the token may call an endpoint, the answer itself is discarded
+   * Cloudflare checks the token permissions before the request: 401/403 means denied and a success
+   * means granted. A 404 only means granted for probes on a made-up resource (expectNotFound), it
+   * is the answer to a request that passed the permission check. Any other status (a 400 for the
+   * payload, 429, 5xx) says nothing about the permission and is unknown
+   */
+  async probePermission(
+    endpoint: string,
+    { method = 'GET', body, expectNotFound = false }: { method?: string; body?: unknown; expectNotFound?: boolean } = {}
+  ): Promise<TokenCapabilityStatus> {
+    try {
+      const response = await this.fetchWithRateLimit(endpoint, {
+        method,
+        ...(body !== undefined && { body: JSON.stringify(body) })
+      });
+      if (response.status === 401 || response.status === 403) return 'denied';
+      if (response.ok || (expectNotFound && response.status === 404)) return 'granted';
+      console.warn(`[CloudflareAPI] Permission probe ${method} ${endpoint} answered ${response.status}, permission unknown`);
+      return 'unknown';
+    } catch (error) {
+      console.warn(`[CloudflareAPI] Permission probe ${method} ${endpoint} failed:`, error);
+      return 'unknown';
+    }
+  }
+
   async getZone(zoneId: string): Promise<CloudflareZone> {
     const response = await this.makeRequest<CloudflareZone>(`/zones/${zoneId}`);
     return response.result;
@@ -71,22 +174,166 @@ export class CloudflareAPI {
     };
   }
 
-  async getDNSRecords(zoneId: string, page: number = 1, perPage: number = 100): Promise<{ records: CloudflareDNSRecord[], totalCount: number }> {
+  async getDNSRecords(zoneId: string, page: number = 1, perPage: number = 100): Promise<{ records: CloudflareDNSRecord[], totalCount: number, totalPages: number }> {
     const response = await this.makeRequest<CloudflareDNSRecord[]>(`/zones/${zoneId}/dns_records?page=${page}&per_page=${perPage}`);
     return {
       records: response.result,
-      totalCount: response.result_info?.total_count || 0
+      totalCount: response.result_info?.total_count || 0,
+      totalPages: response.result_info?.total_pages || 1
     };
   }
 
-  async updateDNSRecord(zoneId: string, recordId: string, proxied: boolean): Promise<CloudflareDNSRecord> {
+  /**
+   * Get every DNS record of a zone, following pagination
+   */
+  async getAllDNSRecords(zoneId: string): Promise<{ records: CloudflareDNSRecord[], totalCount: number }> {
+    const firstPage = await this.getDNSRecords(zoneId, 1, DNS_RECORDS_PER_PAGE);
+    const records = [...firstPage.records];
+
+    for (let page = 2; page <= firstPage.totalPages; page++) {
+      const nextPage = await this.getDNSRecords(zoneId, page, DNS_RECORDS_PER_PAGE);
+      records.push(...nextPage.records);
+    }
+
+    return {
+      records,
+      totalCount: firstPage.totalCount || records.length
+    };
+  }
+
+  async createDNSRecord(zoneId: string, record: DNSRecordInput): Promise<CloudflareDNSRecord> {
+    const response = await this.makeRequest<CloudflareDNSRecord>(`/zones/${zoneId}/dns_records`, {
+      method: 'POST',
+      body: JSON.stringify(record),
+    });
+    return response.result;
+  }
+
+  /**
+   * Update a DNS record, only the given fields are changed (PATCH)
+   */
+  async updateDNSRecord(zoneId: string, recordId: string, changes: Partial<DNSRecordInput>): Promise<CloudflareDNSRecord> {
     const response = await this.makeRequest<CloudflareDNSRecord>(`/zones/${zoneId}/dns_records/${recordId}`, {
       method: 'PATCH',
-      body: JSON.stringify({ proxied }),
+      body: JSON.stringify(changes),
     });
     return response.result;
   }
 
+  async deleteDNSRecord(zoneId: string, recordId: string): Promise<void> {
+    await this.makeRequest(`/zones/${zoneId}/dns_records/${recordId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getAccounts(): Promise<CloudflareAccount[]> {
+    const response = await this.makeRequest<CloudflareAccount[]>('/accounts?per_page=50');
+    return (response.result || []).map((account: CloudflareAccount) => ({ id: account.id, name: account.name }));
+  }
+
+  /**
+   * Account lists of kind "ip", the ones rule expressions can reference with $list_name
+   */
+  async getIPLists(accountId: string): Promise<CloudflareIPList[]> {
+    const response = await this.makeRequest<CloudflareIPList[]>(`/accounts/${accountId}/rules/lists`);
+    return (response.result || []).filter((list: CloudflareIPList) => list.kind === 'ip');
+  }
+
+  async createIPList(accountId: string, name: string, description?: string): Promise<CloudflareIPList> {
+    const response = await this.makeRequest<CloudflareIPList>(`/accounts/${accountId}/rules/lists`, {
+      method: 'POST',
+      body: JSON.stringify({ name, description, kind: 'ip' }),
+    });
+    return response.result;
+  }
+
+  async deleteIPList(accountId: string, listId: string): Promise<void> {
+    await this.makeRequest(`/accounts/${accountId}/rules/lists/${listId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Get every item of a list, following the cursor pagination
+   */
+  async getIPListItems(accountId: string, listId: string): Promise<CloudflareIPListItem[]> {
+    const items: CloudflareIPListItem[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const query = `per_page=${IP_LIST_ITEMS_PER_PAGE}${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`;
+      const response = await this.makeRequest<CloudflareIPListItem[]>(`/accounts/${accountId}/rules/lists/${listId}/items?${query}`);
+      items.push(...(response.result || []));
+      cursor = response.result_info?.cursors?.after;
+    } while (cursor);
+
+    return items;
+  }
+
+  /**
+   * Append items to a list (existing IPs only get their comment updated)
+   * Cloudflare applies list changes asynchronously, so this waits for the bulk operation
+   */
+  async addIPListItems(accountId: string, listId: string, items: IPListItemInput[]): Promise<void> {
+    const response = await this.makeRequest(`/accounts/${accountId}/rules/lists/${listId}/items`, {
+      method: 'POST',
+      body: JSON.stringify(items),
+    });
+    await this.waitForListOperation(accountId, response.result?.operation_id);
+  }
+
+  async removeIPListItems(accountId: string, listId: string, itemIds: string[]): Promise<void> {
+    const response = await this.makeRequest(`/accounts/${accountId}/rules/lists/${listId}/items`, {
+      method: 'DELETE',
+      body: JSON.stringify({ items: itemIds.map(id => ({ id })) }),
+    });
+    await this.waitForListOperation(accountId, response.result?.operation_id);
+  }
+
+  private async waitForListOperation(accountId: string, operationId?: string): Promise<void> {
+    if (!operationId) return;
+
+    for (let attempt = 1; attempt <= LIST_OPERATION_MAX_POLLS; attempt++) {
+      const response = await this.makeRequest(`/accounts/${accountId}/rules/lists/bulk_operations/${operationId}`);
+      const { status, error } = response.result || {};
+
+      if (status === 'completed') return;
+      if (status === 'failed') {
+        throw new Error(`List operation ${operationId} failed: ${error || 'unknown error'}`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, LIST_OPERATION_POLL_INTERVAL));
+    }
+
+    throw new Error(`List operation ${operationId} did not finish in time`);
+  }
+
+  async getIPAccessRules(zoneId: string): Promise<CloudflareIPAccessRule[]> {
+    const rules: CloudflareIPAccessRule[] = [];
+
+    for (let page = 1, totalPages = 1; page <= totalPages; page++) {
+      const response = await this.makeRequest<CloudflareIPAccessRule[]>(`/zones/${zoneId}/firewall/access_rules/rules?page=${page}&per_page=${IP_ACCESS_RULES_PER_PAGE}`);
+      rules.push(...(response.result || []));
+      totalPages = response.result_info?.total_pages || 1;
+    }
+
+    return rules;
+  }
+
+  async createIPAccessRule(zoneId: string, rule: IPAccessRuleInput): Promise<CloudflareIPAccessRule> {
+    const response = await this.makeRequest<CloudflareIPAccessRule>(`/zones/${zoneId}/firewall/access_rules/rules`, {
+      method: 'POST',
+      body: JSON.stringify(rule),
+    });
+    return response.result;
+  }
+
+  async deleteIPAccessRule(zoneId: string, ruleId: string): Promise<void> {
+    await this.makeRequest(`/zones/${zoneId}/firewall/access_rules/rules/${ruleId}`, {
+      method: 'DELETE',
+    });
+  }
+
   async getDomainStatuses(
     page?: number, 
     perPage?: number, 
@@ -113,7 +360,7 @@ export class CloudflareAPI {
       const batchPromises = batch.map(async (zone) => {
         try {
           const [recordsResponse, securitySettings] = await Promise.all([
-            this.getDNSRecords(zone.id),
+            this.getAllDNSRecords(zone.id),
             this.getSecuritySettings(zone.id)
           ]);
 
@@ -144,7 +391,7 @@ export class CloudflareAPI {
       onProgress?.(completedCount, zonesToProcess.length);
 
       if (i + batchSize < zonesToProcess.length) {
-        await new Promise(resolve => setTimeout(resolve, 200));
+        await waitForRateLimitBudget(batchSize * ESTIMATED_CALLS_PER_DOMAIN);
       }
     }
 
@@ -156,7 +403,7 @@ export class CloudflareAPI {
   }
 
   async toggleProxy(zoneId: string, recordId: string, proxied: boolean): Promise<CloudflareDNSRecord> {
-    return this.updateDNSRecord(zoneId, recordId, proxied);
+    return this.updateDNSRecord(zoneId, recordId, { proxied });
   }
 
   async getSecuritySettings(zoneId: string): Promise<{ underAttackMode: boolean; botFightMode: boolean }> {
@@ -321,13 +568,49 @@ export class CloudflareAPI {
         return false;
       }
 
-      return false;
+      // Remaining settings (ssl, always_use_https, min_tls_version, ...) share the generic endpoint
+      const response = await this.makeRequest<any>(`/zones/${zoneId}/settings/${setting}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ value })
+      });
+      return !!response?.success;
     } catch (error) {
       console.error(`Error updating zone setting ${setting} for zone ${zoneId}:`, error);
       return false;
     }
   }
 
+  /**
+   * Read the raw value of a single zone setting (GET sibling of updateZoneSetting)
+   */
+  async getZoneSetting(zoneId: string, setting: string): Promise<any> {
+    const response = await this.makeRequest<{ value: any }>(`/zones/${zoneId}/settings/${setting}`);
+    return response?.result?.value;
+  }
+
+  /**
+   * Read several zone settings in parallel
+   * Settings that fail (missing permission, not available on the plan) are reported in `errors`
+   */
+  async getZoneSettings(zoneId: string, settings: readonly string[]): Promise<{
+    values: Record<string, any>;
+    errors: Record<string, string>;
+  }> {
+    const results = await Promise.allSettled(settings.map(setting => this.getZoneSetting(zoneId, setting)));
+    const values: Record<string, any> = {};
+    const errors: Record<string, string> = {};
+
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        values[settings[index]] = result.value;
+      } else {
+        errors[settings[index]] = result.reason instanceof Error ? result.reason.message : 'Unknown error';
+      }
+    });
+
+    return { values, errors };
+  }
+
   async verifyZoneSetting(zoneId: string, setting: string, expectedValue: any, maxRetries: number = 5): Promise<boolean> {
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
@@ -368,7 +651,7 @@ export class CloudflareAPI {
       }
 
       // Get DNS records
-      const dnsResponse = await this.getDNSRecords(zoneId);
+      const dnsResponse = await this.getAllDNSRecords(zoneId);
 
       // Get security settings
       const securitySettings = await this.getSecuritySettings(zoneId);
@@ -447,7 +730,7 @@ export class CloudflareAPI {
     try {
       // Execute all API calls in parallel for maximum efficiency
       const [dnsData, securityData, rulesData] = await Promise.all([
-        this.getDNSRecords(zoneId, 1, 100),
+        this.getAllDNSRecords(zoneId),
         this.getSecuritySettings(zoneId),
         this.getZoneSecurityRules(zoneId)
       ]);
@@ -546,7 +829,9 @@ export class CloudflareAPI {
               name: cloudflareRule?.description || rule.ruleName,
               action: cloudflareRule?.action,
               expression: cloudflareRule?.expression,
-              description: cloudflareRule?.description
+              description: cloudflareRule?.description,
+              phase: cloudflareRule?.phase,
+              ...(cloudflareRule && templatePhaseFieldsFromRule(cloudflareRule))
             };
           })
         }
@@ -669,6 +954,39 @@ export class CloudflareAPI {
     return response.result;
   }
 
+  /**
+   * Managed rulesets executed by the zone's managed phase entry point, with their overrides
+   */
+  async getManagedRulesetDeployments(zoneId: string): Promise<ManagedRulesetDeployment[]> {
+    const rulesets = await this.getZoneRulesets(zoneId);
+    const entryPoint = rulesets.find(rs => rs.phase === 'http_request_firewall_managed' && isTemplateRuleset(rs));
+    if (!entryPoint) {
+      return [];
+    }
+
+    // The managed rulesets themselves are listed with kind "managed", their names label the deployments
+    const managedNames = new Map(rulesets.filter(rs => rs.kind === 'managed').map(rs => [rs.id, rs.name]));
+    const detailedRuleset = await this.getZoneRuleset(zoneId, entryPoint.id);
+
+    return detailedRuleset.rules
+      .filter(rule => rule.action === 'execute' && rule.action_parameters?.id)
+      .map(rule => {
+        const { config, unmanagedOverrides } = fromManagedRulesetActionParameters(rule.action_parameters);
+        const parsed = parseCloudflareRuleName(rule.description || '');
+        return {
+          ruleId: rule.id!,
+          rulesetId: config.rulesetId,
+          rulesetName: managedNames.get(config.rulesetId) || getManagedRulesetName(config.rulesetId),
+          description: rule.description,
+          expression: rule.expression,
+          enabled: rule.enabled !== false,
+          config,
+          unmanagedOverrides,
+          ...(parsed && { templateFriendlyId: parsed.friendlyId })
+        };
+      });
+  }
+
   async createZoneRuleset(zoneId: string, ruleset: Partial<CloudflareRuleset>): Promise<CloudflareRuleset> {
     const response = await this.makeRequest<CloudflareRuleset>(`/zones/${zoneId}/rulesets`, {
       method: 'POST',
@@ -700,7 +1018,7 @@ export class CloudflareAPI {
     const rulesets = await this.getZoneRulesets(zoneId, phase);
     console.log(`[CloudflareAPI] Found ${rulesets.length} rulesets for phase ${phase}`);
 
-    let targetRuleset = rulesets.find(rs => rs.phase === phase);
+    let targetRuleset = rulesets.find(rs => rs.phase === phase && isTemplateRuleset(rs));
 
     if (!targetRuleset) {
       // Create a new ruleset for this phase
@@ -722,7 +1040,9 @@ export class CloudflareAPI {
           action: rule.action,
           expression: rule.expression,
           description: rule.description,
-          enabled: rule.enabled
+          enabled: rule.enabled,
+          ...(rule.action_parameters && Object.keys(rule.action_parameters).length > 0 && { action_parameters: rule.action_parameters }),
+          ...(rule.ratelimit && { ratelimit: rule.ratelimit })
         })
       });
 
@@ -739,7 +1059,7 @@ export class CloudflareAPI {
 
   async updateRuleInZone(zoneId: string, ruleId: string, updatedRule: Partial<CloudflareRule>): Promise<CloudflareRuleset> {
     const allRulesets = await this.getZoneRulesets(zoneId);
-    const rulesets = allRulesets.filter(ruleset => ruleset.phase === 'http_request_firewall_custom');
+    const rulesets = allRulesets.filter(isTemplateRuleset);
     
     for (const ruleset of rulesets) {
       const ruleIndex = ruleset.rules.findIndex(rule => rule.id === ruleId);
@@ -765,7 +1085,7 @@ export class CloudflareAPI {
 
     // Get basic ruleset metadata (without rules)
     const allRulesets = await this.getZoneRulesets(zoneId);
-    const customRulesets = allRulesets.filter(ruleset => ruleset.phase === 'http_request_firewall_custom');
+    const customRulesets = allRulesets.filter(isTemplateRuleset);
 
     console.log(`[CloudflareAPI] Found ${customRulesets.length} custom rulesets to search for rule ${ruleId}`);
 
@@ -881,11 +1201,9 @@ export class CloudflareAPI {
 
     // Get rulesets metadata only
     const allRulesets = await this.getZoneRulesets(zoneId);
-    const rulesets = allRulesets.filter(ruleset =>
-      ruleset.phase === 'http_request_firewall_custom'
-    );
+    const rulesets = allRulesets.filter(isTemplateRuleset);
 
-    console.log(`[CloudflareAPI] Found ${rulesets.length} custom firewall rulesets out of ${allRulesets.length} total rulesets for zone ${zoneId}`);
+    console.log(`[CloudflareAPI] Found ${rulesets.length} custom firewall and rate limiting rulesets out of ${allRulesets.length} total rulesets for zone ${zoneId}`);
 
     if (rulesets.length === 0) {
       console.log(`[CloudflareAPI] No custom firewall rulesets found for zone ${zoneId}`);
@@ -921,7 +1239,8 @@ export class CloudflareAPI {
         const basicRuleset = rulesetResponse.result;
 
         if (basicRuleset.rules) {
-          for (const rule of basicRuleset.rules) {
+          const scannedRules: CloudflareRule[] = basicRuleset.rules.filter((rule: CloudflareRule) => isScannedPhaseRule(ruleset.phase, rule));
+          for (const rule of scannedRules) {
             ruleSummaries.push({
               id: rule.id!,
               rulesetId: ruleset.id,
@@ -948,18 +1267,17 @@ export class CloudflareAPI {
   }
 
   // Helper method to get all security rules for a zone (LEGACY - use getZoneSecurityRulesSummary for better performance)
-  async getZoneSecurityRules(zoneId: string): Promise<Array<CloudflareRule & { rulesetId: string; rulesetName: string }>> {
+  // Rules are tagged with the phase of their ruleset (one of the template rule phases)
+  async getZoneSecurityRules(zoneId: string): Promise<Array<CloudflareRule & { rulesetId: string; rulesetName: string; phase: string }>> {
     console.log(`[CloudflareAPI] Getting security rules for zone: ${zoneId}`);
 
     // Get all rulesets first, then filter properly
     const allRulesets = await this.getZoneRulesets(zoneId);
 
-    // Filter only for custom firewall rulesets (client-side filtering for accuracy)
-    const rulesets = allRulesets.filter(ruleset =>
-      ruleset.phase === 'http_request_firewall_custom'
-    );
+    // Filter only for custom firewall and rate limiting rulesets (client-side filtering for accuracy)
+    const rulesets = allRulesets.filter(isTemplateRuleset);
 
-    console.log(`[CloudflareAPI] Found ${rulesets.length} custom firewall rulesets out of ${allRulesets.length} total rulesets for zone ${zoneId}`);
+    console.log(`[CloudflareAPI] Found ${rulesets.length} custom firewall and rate limiting rulesets out of ${allRulesets.length} total rulesets for zone ${zoneId}`);
 
     // Early return if no custom firewall rulesets
     if (rulesets.length === 0) {
@@ -967,7 +1285,7 @@ export class CloudflareAPI {
       return [];
     }
 
-    const securityRules: Array<CloudflareRule & { rulesetId: string; rulesetName: string }> = [];
+    const securityRules: Array<CloudflareRule & { rulesetId: string; rulesetName: string; phase: string }> = [];
     let permissionIssues = 0;
     let processedRulesets = 0;
 
@@ -992,10 +1310,11 @@ export class CloudflareAPI {
         const rulesCount = detailedRuleset.rules?.length || 0;
         console.log(`[CloudflareAPI] Found ${rulesCount} rules in custom ruleset: ${ruleset.name}`);
 
-        const rulesWithMetadata = (detailedRuleset.rules || []).map(rule => ({
+        const rulesWithMetadata = (detailedRuleset.rules || []).filter(rule => isScannedPhaseRule(ruleset.phase, rule)).map(rule => ({
           ...rule,
           rulesetId: ruleset.id,
-          rulesetName: ruleset.name
+          rulesetName: ruleset.name,
+          phase: ruleset.phase
         }));
 
         processedRulesets++;
@@ -1030,29 +1349,75 @@ export class CloudflareAPI {
   }
 
   // Enhanced rule application with template management
-  async applyTemplateRule(zoneId: string, template: RuleTemplate): Promise<{ 
+  // With a conflict resolution, custom rules that clash with the template are detected and handled first
+  async applyTemplateRule(zoneId: string, template: RuleTemplate, conflictOptions?: {
+    resolution: ConflictResolution;
+    templates: RuleTemplate[];
+    domainName?: string;
+  }): Promise<{ 
     success: boolean; 
     appliedRuleId?: string; 
     removedRuleId?: string; 
     action: 'added' | 'updated' | 'skipped';
     message: string;
+    conflicts?: RuleConflict[];
   }> {
     try {
       const existingRules = await this.getZoneSecurityRules(zoneId);
       
-      // Check for existing template rules with same name (description)
+      // Check for existing template rules with same name (description) in the template's phase
+      const phase = getRulePhase(template);
       const existingTemplateRule = existingRules.find(rule => {
-        return rule.description && rule.description.toLowerCase() === template.name.toLowerCase();
+        return rule.phase === phase && rule.description && rule.description.toLowerCase() === template.name.toLowerCase();
       });
 
       // Use template name directly as description (no friendlyId, no version)
       const cloudflareRuleDescription = template.name;
 
+      let conflicts: RuleConflict[] = [];
+      let forceUpdate = false;
+
+      if (conflictOptions) {
+        conflicts = detectRuleConflicts(template, existingRules, {
+          zoneId,
+          domainName: conflictOptions.domainName || zoneId,
+          templates: conflictOptions.templates
+        });
+
+        if (conflicts.length > 0) {
+          const { resolution } = conflictOptions;
+
+          if (resolution === ConflictResolution.SKIP) {
+            return { success: true, action: 'skipped', message: `Kept ${conflicts.length} conflicting rules, ${template.friendlyId} not applied`, conflicts };
+          }
+
+          if (resolution === ConflictResolution.MANUAL) {
+            return { success: false, action: 'skipped', message: `Manual resolution required for ${conflicts.length} conflicts`, conflicts };
+          }
+
+          if (resolution === ConflictResolution.MERGE) {
+            const mergedExpression = mergeConflictExpressions(template, conflicts);
+            if (!mergedExpression) {
+              return { success: false, action: 'skipped', message: `Conflicting rules can't be merged into ${template.friendlyId}`, conflicts };
+            }
+            // The merged rule is deployed under the template name, replacing the current one
+            forceUpdate = mergedExpression !== template.expression;
+            template = { ...template, expression: mergedExpression };
+          }
+
+          // REPLACE and MERGE both drop the conflicting rules before the template is applied
+          for (const conflict of conflicts) {
+            await this.removeRuleFromZone(zoneId, conflict.conflictingRule.cloudflareRuleId);
+          }
+          console.log(`[CloudflareAPI] Resolved ${conflicts.length} conflicts for ${template.friendlyId} in zone ${zoneId} (${resolution})`);
+        }
+      }
+
       if (existingTemplateRule) {
         // Calculate version based on date comparison
         const versionInfo = this.calculateRuleVersion(existingTemplateRule, template);
 
-        if (versionInfo.status === 'outdated') {
+        if (versionInfo.status === 'outdated' || forceUpdate) {
           // Template is newer - update rule
           await this.removeRuleFromZone(zoneId, existingTemplateRule.id);
 
@@ -1061,11 +1426,12 @@ export class CloudflareAPI {
             expression: template.expression,
             action: mapTemplateActionToCloudflareAction(template.action),
             action_parameters: template.actionParameters,
+            ...templatePhaseRuleFields(template),
             description: cloudflareRuleDescription,
             enabled: template.enabled
           };
 
-          const updatedRuleset = await this.addRuleToZone(zoneId, newRule);
+          const updatedRuleset = await this.addRuleToZone(zoneId, newRule, phase);
           const addedRule = updatedRuleset.rules.find(r => r.description === cloudflareRuleDescription);
 
             // Update rule mapping
@@ -1092,11 +1458,12 @@ export class CloudflareAPI {
               appliedRuleId: addedRule?.id,
               removedRuleId: existingTemplateRule.id,
               action: 'updated',
-              message: `Rule updated successfully`
+              message: `Rule updated successfully`,
+              conflicts
             };
         } else {
           // Template is same or older version - no update needed
-          return { success: true, action: 'skipped', message: `Rule already up to date` };
+          return { success: true, action: 'skipped', message: `Rule already up to date`, conflicts };
         }
       }
 
@@ -1105,12 +1472,13 @@ export class CloudflareAPI {
         expression: template.expression,
         action: mapTemplateActionToCloudflareAction(template.action),
         action_parameters: template.actionParameters,
+        ...templatePhaseRuleFields(template),
         description: cloudflareRuleDescription,
         enabled: template.enabled
       };
 
       console.log(`[CloudflareAPI] Adding new rule for template ${template.friendlyId}:`, newRule);
-      const updatedRuleset = await this.addRuleToZone(zoneId, newRule);
+      const updatedRuleset = await this.addRuleToZone(zoneId, newRule, phase);
       console.log(`[CloudflareAPI] Updated ruleset:`, updatedRuleset);
 
       const addedRule = updatedRuleset.rules.find(r => r.description === cloudflareRuleDescription);
@@ -1135,7 +1503,8 @@ export class CloudflareAPI {
         success: true,
         appliedRuleId: addedRule?.id,
         action: 'added',
-        message: `Added new rule ${template.friendlyId} v${template.version}`
+        message: `Added new rule ${template.friendlyId} v${template.version}`,
+        conflicts
       };
 
     } catch (error) {
@@ -1638,9 +2007,9 @@ export class CloudflareAPI {
         }
       }
 
-      // Rate limiting delay
+      // Wait for the shared rate limit budget to cover the next batch
       if (i + BATCH_SIZE < zoneIds.length) {
-        await new Promise(resolve => setTimeout(resolve, 200));
+        await waitForRateLimitBudget(BATCH_SIZE * ESTIMATED_CALLS_PER_DOMAIN);
       }
     }
 
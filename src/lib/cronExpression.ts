@@ -0,0 +1,126 @@
+/**
+ * Minimal 5-field cron expressions (minute hour day-of-month month day-of-week)
+ * Supports `*`, numbers, ranges `a-b`, lists `a,b` and steps `*\/n` or `a-b/n`, evaluated in server local time
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>; // 0 = Sunday, 7 is accepted as Sunday too
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+// Upper bound for the next run search: a valid expression matches at least once within ~4 years (Feb 29)
+const MAX_SEARCH_MINUTES = 4 * 366 * 24 * 60;
+
+function parseField(field: string, index: number): Set<number> {
+  const { name, min, max } = FIELD_RANGES[index];
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepPart}" in ${name} field`);
+    }
+
+    let from: number;
+    let to: number;
+    if (rangePart === '*') {
+      from = min;
+      to = max;
+    } else if (rangePart.includes('-')) {
+      const [start, end] = rangePart.split('-');
+      from = Number(start);
+      to = Number(end);
+    } else {
+      from = Number(rangePart);
+      to = stepPart === undefined ? from : max;
+    }
+
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < min || to > max || from > to) {
+      throw new Error(`Invalid value "${part}" in ${name} field (allowed ${min}-${max})`);
+    }
+
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * @throws Error describing the first invalid field
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Cron expression must have 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(parseField);
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*'
+  };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function matchesCronSchedule(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.minutes.has(date.getMinutes()) || !schedule.hours.has(date.getHours())) return false;
+  if (!schedule.months.has(date.getMonth() + 1)) return false;
+
+  // Like cron: when both day fields are restricted, either of them matching is enough
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * First minute strictly after `from` matching the expression, null when it never matches (e.g. 31 of February)
+ */
+export function getNextCronRun(expression: string, from: Date = new Date()): Date | null {
+  const schedule = parseCronExpression(expression);
+  const candidate = new Date(from);
+  candidate.setSeconds(0, 0);
+
+  for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+    candidate.setMinutes(candidate.getMinutes() + 1);
+    if (matchesCronSchedule(schedule, candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
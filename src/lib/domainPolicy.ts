@@ -0,0 +1,100 @@
+/**
+ * Template policy engine
+ * Works out which templates each domain should have from its tags and the
+ * applicableTags / excludedDomains of every template. Pure functions, used by
+ * the domain table and by the reconcile run of the bulk-action stream
+ */
+import { DomainPolicyReport, RuleTemplate } from '@/types/cloudflare';
+import { compareVersions } from './ruleUpdater';
+
+export interface DomainPolicyInput {
+  zoneId: string;
+  domainName: string;
+  tags: string[];
+  appliedRules: Array<{ friendlyId: string; version: string }>;
+}
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase();
+}
+
+/**
+ * Templates without applicableTags are not managed by the policy
+ */
+export function isPolicyManaged(template: RuleTemplate): boolean {
+  return (template.applicableTags || []).length > 0;
+}
+
+export function isExcludedDomain(template: RuleTemplate, domainName: string): boolean {
+  const domain = domainName.toLowerCase();
+  return (template.excludedDomains || []).some(excluded => excluded.toLowerCase() === domain);
+}
+
+function matchesTags(template: RuleTemplate, tags: string[]): boolean {
+  const domainTags = new Set(tags.map(normalizeTag));
+  return (template.applicableTags || []).some(tag => domainTags.has(normalizeTag(tag)));
+}
+
+/**
+ * Whether the policy wants the template on the domain
+ */
+export function isTemplateDesired(template: RuleTemplate, domainName: string, tags: string[]): boolean {
+  return template.enabled &&
+    isPolicyManaged(template) &&
+    !isExcludedDomain(template, domainName) &&
+    matchesTags(template, tags);
+}
+
+/**
+ * Whether the policy forbids the template on the domain
+ * Excluded domains always count, even for templates without applicableTags
+ */
+export function isTemplateForbidden(template: RuleTemplate, domainName: string, tags: string[]): boolean {
+  if (isExcludedDomain(template, domainName)) return true;
+  return isPolicyManaged(template) && !matchesTags(template, tags);
+}
+
+export function computeDomainPolicy(templates: RuleTemplate[], domain: DomainPolicyInput): DomainPolicyReport {
+  const applied = new Map(domain.appliedRules.map(rule => [rule.friendlyId, rule.version]));
+  const report: DomainPolicyReport = {
+    zoneId: domain.zoneId,
+    domainName: domain.domainName,
+    tags: domain.tags,
+    desired: [],
+    missing: [],
+    extra: [],
+    outdated: []
+  };
+
+  for (const template of templates) {
+    const appliedVersion = applied.get(template.friendlyId);
+
+    if (isTemplateDesired(template, domain.domainName, domain.tags)) {
+      report.desired.push(template.friendlyId);
+      if (appliedVersion === undefined) {
+        report.missing.push(template.friendlyId);
+      } else if (compareVersions(appliedVersion, template.version) < 0) {
+        report.outdated.push(template.friendlyId);
+      }
+    } else if (appliedVersion !== undefined && isTemplateForbidden(template, domain.domainName, domain.tags)) {
+      report.extra.push(template.friendlyId);
+    }
+  }
+
+  return report;
+}
+
+export function isPolicyCompliant(report: DomainPolicyReport): boolean {
+  return report.missing.length === 0 && report.extra.length === 0 && report.outdated.length === 0;
+}
+
+/**
+ * Changes needed to bring a domain in line with the policy
+ * Outdated rules are re-applied, which replaces them with the current version
+ */
+export function getReconcilePlan(report: DomainPolicyReport): { add: string[]; remove: string[] } {
+  return {
+    add: [...report.missing, ...report.outdated],
+    remove: [...report.extra]
+  };
+}
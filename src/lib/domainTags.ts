@@ -0,0 +1,62 @@
+/**
+ * Server-side domain tags
+ * Tags drive which templates the policy engine wants on every domain
+ */
+import { DomainTagEntry } from '@/types/cloudflare';
+import { safeReadJsonFile, safeUpdateJsonFile } from './fileSystem';
+import { normalizeTag } from './domainPolicy';
+
+const DOMAIN_TAGS_FILE = 'domain-tags.json';
+
+export interface DomainTagsCache {
+  domains: Record<string, DomainTagEntry>; // keyed by zoneId
+  lastUpdated: string;
+}
+
+export async function loadDomainTags(): Promise<DomainTagsCache> {
+  const cache = await safeReadJsonFile<Partial<DomainTagsCache>>(DOMAIN_TAGS_FILE);
+  return {
+    domains: cache.domains || {},
+    lastUpdated: cache.lastUpdated || new Date().toISOString()
+  };
+}
+
+/**
+ * Add and remove tags on several domains at once
+ * Domains left without tags are dropped from the file
+ */
+export async function updateDomainTags(
+  targets: Array<{ zoneId: string; domainName: string }>,
+  add: string[],
+  remove: string[]
+): Promise<DomainTagsCache> {
+  const toAdd = add.map(normalizeTag);
+  const toRemove = new Set(remove.map(normalizeTag));
+  const now = new Date().toISOString();
+
+  const updated = await safeUpdateJsonFile<Partial<DomainTagsCache>>(DOMAIN_TAGS_FILE, cache => {
+    const domains = { ...cache.domains };
+
+    for (const target of targets) {
+      const current = domains[target.zoneId]?.tags || [];
+      const tags = Array.from(new Set([...current, ...toAdd]))
+        .filter(tag => !toRemove.has(tag))
+        .sort();
+
+      if (tags.length === 0) {
+        delete domains[target.zoneId];
+      } else {
+        domains[target.zoneId] = { domainName: target.domainName, tags, updatedAt: now };
+      }
+    }
+
+    return { ...cache, domains, lastUpdated: now };
+  });
+  console.log(`[DomainTags] Updated tags of ${targets.length} domains`);
+
+  return { domains: updated.domains || {}, lastUpdated: now };
+}
+
+export function getTagsForZone(cache: DomainTagsCache, zoneId: string): string[] {
+  return cache.domains[zoneId]?.tags || [];
+}
@@ -0,0 +1,92 @@
+/**
+ * Configuration drift detection between two snapshots of the domains cache
+ * Only transitions raise events: a domain that was already unproxied before the refresh stays quiet
+ */
+import { DomainStatus, DriftEvent, DriftEventType } from '@/types/cloudflare';
+
+export const DRIFT_EVENT_TYPES: DriftEventType[] = [
+  'proxy_disabled',
+  'under_attack_enabled',
+  'template_rule_outdated',
+  'template_rule_missing'
+];
+
+export const DRIFT_EVENT_LABELS: Record<DriftEventType, string> = {
+  proxy_disabled: 'Proxy desactivado',
+  under_attack_enabled: 'Under Attack activado',
+  template_rule_outdated: 'Regla de plantilla desactualizada',
+  template_rule_missing: 'Regla de plantilla eliminada'
+};
+
+/**
+ * Key used for dedup/cooldown: the same drift on the same domain and subject only alerts once per cooldown
+ */
+export function getDriftEventKey(event: DriftEvent): string {
+  return `${event.type}:${event.zoneId}:${event.subject || ''}`;
+}
+
+export function detectDriftEvents(previous: DomainStatus[], current: DomainStatus[]): DriftEvent[] {
+  const previousByZone = new Map(previous.map(domain => [domain.zoneId, domain]));
+  const detectedAt = new Date().toISOString();
+  const events: DriftEvent[] = [];
+
+  for (const domain of current) {
+    const before = previousByZone.get(domain.zoneId);
+    if (!before) continue; // New domains have nothing to drift from
+
+    const base = { zoneId: domain.zoneId, domainName: domain.domain, detectedAt };
+
+    const proxyChecks: Array<{ record: string; wasProxied: boolean; isProxied: boolean }> = [
+      { record: domain.domain, wasProxied: before.rootProxied, isProxied: domain.rootProxied },
+      { record: `www.${domain.domain}`, wasProxied: before.wwwProxied, isProxied: domain.wwwProxied }
+    ];
+    for (const check of proxyChecks) {
+      if (check.wasProxied && !check.isProxied) {
+        events.push({
+          ...base,
+          type: 'proxy_disabled',
+          subject: check.record,
+          message: `El proxy de ${check.record} se desactivó`
+        });
+      }
+    }
+
+    if (!before.underAttackMode && domain.underAttackMode) {
+      events.push({
+        ...base,
+        type: 'under_attack_enabled',
+        message: `Under Attack Mode se activó en ${domain.domain}`
+      });
+    }
+
+    const rulesBefore = new Map((before.securityRules?.templateRules || []).map(rule => [rule.friendlyId, rule]));
+    const rulesNow = new Map((domain.securityRules?.templateRules || []).map(rule => [rule.friendlyId, rule]));
+
+    for (const [friendlyId, rule] of rulesNow) {
+      if (rule.isOutdated && !rulesBefore.get(friendlyId)?.isOutdated) {
+        events.push({
+          ...base,
+          type: 'template_rule_outdated',
+          subject: friendlyId,
+          message: `La regla ${friendlyId} de ${domain.domain} quedó desactualizada (v${rule.version})`
+        });
+      }
+    }
+
+    // Template rules are only reported from full analyses, a snapshot without rules analysis is not a removal
+    if (domain.securityRules) {
+      for (const friendlyId of rulesBefore.keys()) {
+        if (!rulesNow.has(friendlyId)) {
+          events.push({
+            ...base,
+            type: 'template_rule_missing',
+            subject: friendlyId,
+            message: `La regla ${friendlyId} ya no está desplegada en ${domain.domain}`
+          });
+        }
+      }
+    }
+  }
+
+  return events;
+}
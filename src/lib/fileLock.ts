@@ -0,0 +1,229 @@
+/**
+ * Atomic JSON file operations with cross-request locking
+ * - Writes go to a unique temp file that is fsynced and renamed over the target, readers never see half a file
+ * - A `.lock` file created with O_EXCL serializes writers across route handlers and processes,
+ *   locks older than the stale timeout are taken over so a crashed writer can't block the file forever
+ * - Every successful write also refreshes `<file>.bak`, a corrupt file is moved aside and restored from it
+ */
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import { basename, dirname, join } from 'path';
+
+const DEFAULT_LOCK_TIMEOUT_MS = 10 * 1000;
+const DEFAULT_STALE_LOCK_MS = 30 * 1000;
+const LOCK_RETRY_MS = 20;
+
+export interface FileLockOptions {
+  timeoutMs?: number; // How long to wait for the lock before failing
+  staleMs?: number;   // Age after which a lock left behind is considered abandoned
+}
+
+export class FileLockTimeoutError extends Error {
+  constructor(filePath: string, timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms waiting for lock on ${basename(filePath)}`);
+    this.name = 'FileLockTimeoutError';
+  }
+}
+
+// Callers in the same process queue here instead of polling the lock file
+const localQueues = new Map<string, Promise<unknown>>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const lockPathFor = (filePath: string) => `${filePath}.lock`;
+export const backupPathFor = (filePath: string) => `${filePath}.bak`;
+
+/**
+ * Removes a lock whose owner stopped updating it, renaming first so only one waiter takes it over
+ */
+async function removeStaleLock(lockPath: string, staleMs: number): Promise<boolean> {
+  try {
+    const stats = await fs.stat(lockPath);
+    if (Date.now() - stats.mtimeMs < staleMs) return false;
+
+    const abandonedPath = `${lockPath}.${randomUUID()}.stale`;
+    await fs.rename(lockPath, abandonedPath);
+    await fs.unlink(abandonedPath).catch(() => undefined);
+    console.warn(`[FileLock] Removed stale lock ${basename(lockPath)} (${Math.round((Date.now() - stats.mtimeMs) / 1000)}s old)`);
+    return true;
+  } catch (error) {
+    // Released or taken over by someone else in the meantime, try again right away
+    return (error as NodeJS.ErrnoException).code === 'ENOENT';
+  }
+}
+
+async function acquireLock(filePath: string, options: Required<FileLockOptions>): Promise<string> {
+  const lockPath = lockPathFor(filePath);
+  const token = `${process.pid}:${randomUUID()}`;
+  const deadline = Date.now() + options.timeoutMs;
+
+  await fs.mkdir(dirname(filePath), { recursive: true });
+
+  while (true) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      try {
+        await handle.writeFile(JSON.stringify({ token, pid: process.pid, acquiredAt: new Date().toISOString() }));
+      } finally {
+        await handle.close();
+      }
+      return token;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+
+    if (await removeStaleLock(lockPath, options.staleMs)) continue;
+
+    if (Date.now() >= deadline) {
+      throw new FileLockTimeoutError(filePath, options.timeoutMs);
+    }
+    await sleep(LOCK_RETRY_MS + Math.random() * LOCK_RETRY_MS);
+  }
+}
+
+async function releaseLock(filePath: string, token: string): Promise<void> {
+  const lockPath = lockPathFor(filePath);
+  try {
+    const owner = JSON.parse(await fs.readFile(lockPath, 'utf-8'));
+    if (owner.token !== token) {
+      console.warn(`[FileLock] Lock on ${basename(filePath)} was taken over by another writer`);
+      return;
+    }
+    await fs.unlink(lockPath);
+  } catch {
+    // Lock already gone
+  }
+}
+
+/**
+ * Runs the operation while holding the advisory lock of the file
+ * Not reentrant: don't lock the same file again inside the operation
+ */
+export function withFileLock<T>(filePath: string, operation: () => Promise<T>, options: FileLockOptions = {}): Promise<T> {
+  const resolved: Required<FileLockOptions> = {
+    timeoutMs: options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS,
+    staleMs: options.staleMs ?? DEFAULT_STALE_LOCK_MS
+  };
+
+  const run = async () => {
+    const token = await acquireLock(filePath, resolved);
+    try {
+      return await operation();
+    } finally {
+      await releaseLock(filePath, token);
+    }
+  };
+
+  const next = (localQueues.get(filePath) || Promise.resolve()).then(run);
+  const settled = next.catch(() => undefined);
+  localQueues.set(filePath, settled);
+  settled.then(() => {
+    if (localQueues.get(filePath) === settled) localQueues.delete(filePath);
+  });
+  return next;
+}
+
+async function writeFileDurably(filePath: string, content: string): Promise<void> {
+  const tempPath = join(dirname(filePath), `.${basename(filePath)}.${process.pid}.${randomUUID()}.tmp`);
+  try {
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(content, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Replaces the file atomically and keeps the new content as the last good copy
+ * Doesn't take the lock, call it inside withFileLock when other writers may be active
+ */
+export async function writeJsonFileAtomic<T>(filePath: string, data: T): Promise<void> {
+  const content = JSON.stringify(data, null, 2);
+  await fs.mkdir(dirname(filePath), { recursive: true });
+  await writeFileDurably(filePath, content);
+
+  try {
+    await writeFileDurably(backupPathFor(filePath), content);
+  } catch (error) {
+    console.warn(`[FileLock] Could not refresh backup of ${basename(filePath)}:`, error);
+  }
+}
+
+async function readJson<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+export interface JsonReadOptions {
+  strict?: boolean; // Throw instead of returning null when a corrupt file has no good copy
+}
+
+export class UnrecoverableJsonFileError extends Error {
+  constructor(filePath: string) {
+    super(`${basename(filePath)} is corrupt and has no good copy`);
+    this.name = 'UnrecoverableJsonFileError';
+  }
+}
+
+/**
+ * Reads the file, null when it doesn't exist
+ * A file that can't be parsed is moved to `<file>.corrupt-<timestamp>` and replaced by its last good copy,
+ * in strict mode a corrupt file without one stays where it is so every read keeps failing
+ */
+export async function readJsonFileWithRecovery<T>(filePath: string, { strict = false }: JsonReadOptions = {}): Promise<T | null> {
+  try {
+    return await readJson<T>(filePath);
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error;
+    console.error(`[FileLock] ${basename(filePath)} is corrupt: ${error.message}`);
+  }
+
+  let backup: T | null = null;
+  try {
+    backup = await readJson<T>(backupPathFor(filePath));
+  } catch (error) {
+    console.error(`[FileLock] Backup of ${basename(filePath)} is unreadable too:`, error);
+  }
+
+  if (backup === null && strict) {
+    throw new UnrecoverableJsonFileError(filePath);
+  }
+
+  const quarantinePath = `${filePath}.corrupt-${Date.now()}`;
+  await fs.rename(filePath, quarantinePath).catch(() => undefined);
+
+  if (backup === null) {
+    console.error(`[FileLock] No good copy of ${basename(filePath)}, corrupt file kept at ${basename(quarantinePath)}`);
+    return null;
+  }
+
+  await writeFileDurably(filePath, JSON.stringify(backup, null, 2));
+  console.warn(`[FileLock] Restored ${basename(filePath)} from its last good copy, corrupt file kept at ${basename(quarantinePath)}`);
+  return backup;
+}
+
+/**
+ * Read-modify-write under the file lock, returns what was written
+ */
+export function updateJsonFile<T>(
+  filePath: string,
+  updater: (current: T | null) => T | Promise<T>,
+  options: FileLockOptions & JsonReadOptions = {}
+): Promise<T> {
+  return withFileLock(filePath, async () => {
+    const next = await updater(await readJsonFileWithRecovery<T>(filePath, options));
+    await writeJsonFileAtomic(filePath, next);
+    return next;
+  }, options);
+}
@@ -2,20 +2,37 @@
  * Secure file system operations
  * Implements path validation and prevents directory traversal attacks
  * Auto-fallback to memory cache in serverless environments
+ * JSON helpers go through the storage backend selected by STORAGE_BACKEND (see storage.ts)
  */
 import { promises as fs } from 'fs';
 import { join, normalize, resolve } from 'path';
 import { FileOperationSchema, validateApiRequest } from './validation';
-import { UnifiedCache, isServerlessEnvironment } from './memoryCache';
+import { UnifiedCache, isFailClosedFile, isServerlessEnvironment } from './memoryCache';
+import { deleteStoredDocument, readStoredDocument, storedDocumentExists, updateStoredDocument, writeStoredDocument } from './storage';
+import { backupPathFor } from './fileLock';
+import { getBaseCacheFileName, isAccountDomainsCacheFile } from './accounts';
+import { getCacheDir } from './cacheDirectory';
 
-// Define safe cache directory and allowed files
-const SAFE_CACHE_DIR = resolve(process.cwd(), 'cache');
+// Allowed files in the cache directory (see cacheDirectory.ts)
 const ALLOWED_FILES = [
   'domains-cache.json',
   'security-rules-templates.json',
   'domain-rules-status.json',
   'user-preferences.json',
-  'rule-id-mapping.json'
+  'rule-id-mapping.json',
+  'zone-settings-profiles.json',
+  'zone-settings-drift.json',
+  'template-history.json',
+  'domain-tags.json',
+  'bulk-jobs.json',
+  'refresh-schedule.json',
+  'notifications.json',
+  'audit-log.json',
+  'audit-log-archive.json',
+  'token-vault.json',
+  'users.json',
+  'token-capabilities.json',
+  'change-requests.json'
 ] as const;
 
 type AllowedFileName = typeof ALLOWED_FILES[number];
@@ -26,7 +43,7 @@ type AllowedFileName = typeof ALLOWED_FILES[number];
  * @returns Default structure based on file type
  */
 const getDefaultStructure = <T>(fileName: string): T => {
-  switch (fileName) {
+  switch (getBaseCacheFileName(fileName)) {
     case 'domains-cache.json':
       return {
         domains: [],
@@ -61,6 +78,77 @@ const getDefaultStructure = <T>(fileName: string): T => {
         lastUpdated: new Date().toISOString()
       } as T;
 
+    case 'zone-settings-profiles.json':
+      return {
+        profiles: [],
+        lastUpdated: new Date().toISOString()
+      } as T;
+
+    case 'zone-settings-drift.json':
+      return {
+        reports: {},
+        lastUpdated: new Date().toISOString()
+      } as T;
+
+    case 'template-history.json':
+      return {
+        revisions: [],
+        lastUpdated: new Date().toISOString()
+      } as T;
+
+    case 'domain-tags.json':
+      return {
+        domains: {},
+        lastUpdated: new Date().toISOString()
+      } as T;
+
+    case 'bulk-jobs.json':
+      return {
+        jobs: [],
+        lastUpdated: new Date().toISOString()
+      } as T;
+
+    case 'refresh-schedule.json':
+      return {
+        runs: [],
+        lastUpdated: new Date().toISOString()
+      } as T;
+
+    case 'notifications.json':
+      return {
+        targets: [],
+        deliveries: [],
+        lastAlerts: {},
+        lastUpdated: new Date().toISOString()
+      } as T;
+
+    case 'audit-log.json':
+    case 'audit-log-archive.json':
+    case 'token-vault.json':
+      return {
+        entries: [],
+        lastUpdated: new Date().toISOString()
+      } as T;
+
+    case 'token-capabilities.json':
+      return {
+        tokens: {},
+        lastUpdated: new Date().toISOString()
+      } as T;
+
+    case 'change-requests.json':
+      return {
+        requests: [],
+        lastUpdated: new Date().toISOString()
+      } as T;
+
+    case 'users.json':
+      return {
+        users: [],
+        sessions: [],
+        lastUpdated: new Date().toISOString()
+      } as T;
+
     default:
       console.warn(`[FileSystem] No default structure defined for ${fileName}, returning empty object`);
       return {} as T;
@@ -81,17 +169,18 @@ const validateAndGetSafePath = (fileName: string): string => {
     throw new Error(`Invalid file name: ${fileName}. Only specific cache files are allowed.`);
   }
 
-  // Ensure it's in our allowed list
-  if (!ALLOWED_FILES.includes(fileName as AllowedFileName)) {
+  // Ensure it's in our allowed list, or the domains cache of a non-default account
+  if (!ALLOWED_FILES.includes(fileName as AllowedFileName) && !isAccountDomainsCacheFile(fileName)) {
     throw new Error(`File not in whitelist: ${fileName}`);
   }
 
   // Create safe path
-  const safePath = join(SAFE_CACHE_DIR, fileName);
+  const cacheDir = getCacheDir();
+  const safePath = join(cacheDir, fileName);
   const normalizedPath = normalize(safePath);
 
   // Prevent directory traversal
-  if (!normalizedPath.startsWith(SAFE_CACHE_DIR)) {
+  if (!normalizedPath.startsWith(cacheDir)) {
     throw new Error(`Path traversal detected: ${fileName}`);
   }
 
@@ -102,11 +191,12 @@ const validateAndGetSafePath = (fileName: string): string => {
  * Ensures the cache directory exists
  */
 const ensureCacheDirectory = async (): Promise<void> => {
+  const cacheDir = getCacheDir();
   try {
-    await fs.access(SAFE_CACHE_DIR);
+    await fs.access(cacheDir);
   } catch (error) {
     // Directory doesn't exist, create it
-    await fs.mkdir(SAFE_CACHE_DIR, { recursive: true });
+    await fs.mkdir(cacheDir, { recursive: true });
   }
 };
 
@@ -178,14 +268,12 @@ export const safeWriteFile = async (fileName: string, content: string): Promise<
 };
 
 /**
- * Safely checks if a file exists in the cache directory
- * Uses UnifiedCache to avoid circular dependencies
+ * Safely checks if a file exists in the storage backend
  * @param fileName - Name of the file to check
  * @returns True if file exists, false otherwise
  */
 export const safeFileExists = async (fileName: string): Promise<boolean> => {
-  // Use UnifiedCache directly to avoid circular dependencies
-  return await UnifiedCache.exists(fileName);
+  return await storedDocumentExists(fileName);
 };
 
 /**
@@ -198,6 +286,7 @@ export const safeDeleteFile = async (fileName: string): Promise<void> => {
   
   try {
     await fs.unlink(safePath);
+    await fs.unlink(backupPathFor(safePath)).catch(() => undefined);
     console.log(`[FileSystem] Successfully deleted file: ${fileName}`);
   } catch (error) {
     console.error(`[FileSystem] Error deleting file ${fileName}:`, error);
@@ -241,18 +330,16 @@ export const listCacheFiles = async (): Promise<string[]> => {
 };
 
 /**
- * Safely reads and parses JSON file
- * Uses UnifiedCache to avoid circular dependencies
+ * Safely reads and parses JSON file from the storage backend
  * @param fileName - Name of the JSON file
- * @returns Parsed JSON object
- * @throws Error if file doesn't exist, can't be read, or contains invalid JSON
+ * @returns Parsed JSON object, the default structure when it doesn't exist or can't be read
+ * @throws Error if a fail-closed file (users.json) exists but can't be read
  */
 export const safeReadJsonFile = async <T = any>(fileName: string): Promise<T> => {
-  console.log(`[FileSystem] Reading ${fileName} using UnifiedCache (no circular deps)`);
+  console.log(`[FileSystem] Reading ${fileName} from storage backend`);
 
   try {
-    // Use UnifiedCache directly to avoid circular dependencies
-    const data = await UnifiedCache.read<T>(fileName);
+    const data = await readStoredDocument<T>(fileName);
 
     if (data !== null) {
       return data;
@@ -265,6 +352,10 @@ export const safeReadJsonFile = async <T = any>(fileName: string): Promise<T> =>
   } catch (error) {
     console.error(`[FileSystem] Error reading ${fileName}:`, error);
 
+    if (isFailClosedFile(fileName)) {
+      throw new Error(`Failed to read JSON file: ${fileName}`);
+    }
+
     // Return default structure if all else fails
     console.log(`[FileSystem] Returning default structure for ${fileName} due to error`);
     return getDefaultStructure<T>(fileName);
@@ -272,32 +363,58 @@ export const safeReadJsonFile = async <T = any>(fileName: string): Promise<T> =>
 };
 
 /**
- * Safely writes object as JSON file
- * Uses UnifiedCache to avoid circular dependencies
+ * Safely writes object as JSON file to the storage backend
  * @param fileName - Name of the JSON file
  * @param data - Object to serialize as JSON
  * @throws Error if serialization or write operation fails
  */
 export const safeWriteJsonFile = async (fileName: string, data: any): Promise<void> => {
   try {
-    console.log(`[FileSystem] Writing ${fileName} using UnifiedCache (no circular deps)`);
+    console.log(`[FileSystem] Writing ${fileName} to storage backend`);
 
-    // Use UnifiedCache directly to avoid circular dependencies
-    await UnifiedCache.write(fileName, data);
+    await writeStoredDocument(fileName, data);
 
-    console.log(`[FileSystem] Successfully wrote ${fileName} using UnifiedCache`);
+    console.log(`[FileSystem] Successfully wrote ${fileName}`);
   } catch (error) {
     console.error(`[FileSystem] Error writing JSON to ${fileName}:`, error);
     throw new Error(`Failed to write JSON file: ${fileName}`);
   }
 };
 
+/**
+ * Read-modify-write of a JSON file, nothing else can write the file in between
+ * @param fileName - Name of the JSON file
+ * @param updater - Gets the current content (default structure when missing) and returns the new one,
+ * throwing leaves the file as it was and the error reaches the caller unchanged
+ * @returns The content that was written
+ * @throws Error if the lock can't be acquired in time or the write fails
+ */
+export const safeUpdateJsonFile = async <T = any>(fileName: string, updater: (current: T) => T | Promise<T>): Promise<T> => {
+  let updaterFailed = false;
+
+  try {
+    console.log(`[FileSystem] Updating ${fileName} in storage backend`);
+    return await updateStoredDocument<T>(fileName, async current => {
+      try {
+        return await updater(current ?? getDefaultStructure<T>(fileName));
+      } catch (error) {
+        updaterFailed = true;
+        throw error;
+      }
+    });
+  } catch (error) {
+    if (updaterFailed) throw error;
+    console.error(`[FileSystem] Error updating JSON file ${fileName}:`, error);
+    throw new Error(`Failed to update JSON file: ${fileName}`);
+  }
+};
+
 /**
  * Invalidates cache for a specific file (compatible with serverless)
  * @param fileName - Name of the file to invalidate
  */
 export const invalidateCache = async (fileName: string): Promise<void> => {
-  await UnifiedCache.delete(fileName);
+  await deleteStoredDocument(fileName);
 };
 
 /**
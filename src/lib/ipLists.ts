@@ -0,0 +1,101 @@
+/**
+ * Account IP lists
+ * CSV import parsing and the usage report of each list across templates and zones
+ * (rule expressions reference lists as $list_name)
+ */
+import { IPListItemInput, IPListUsage, RuleTemplate } from '@/types/cloudflare';
+import { getReferencedLists } from './ruleExpression';
+import { IPListItemSchema } from './validation';
+
+export interface IPListCsvError {
+  line: number;
+  value: string;
+  message: string;
+}
+
+export interface ZoneRulesForUsage {
+  zoneId: string;
+  domainName: string;
+  rules: Array<{ expression: string; description?: string; phase: string; enabled: boolean }>;
+}
+
+/**
+ * Parse "ip,comment" lines (comma, semicolon or tab separated)
+ * A header row, blank lines and # comments are skipped; repeated IPs keep the last comment
+ */
+export function parseIPListCsv(text: string): { items: IPListItemInput[]; errors: IPListCsvError[] } {
+  const items = new Map<string, IPListItemInput>();
+  const errors: IPListCsvError[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const separator = line.search(/[,;\t]/);
+    const ip = unquote(separator === -1 ? line : line.slice(0, separator));
+    const comment = separator === -1 ? '' : unquote(line.slice(separator + 1));
+
+    if (index === 0 && /^(ip|address|direccion|dirección)$/i.test(ip)) return;
+
+    const parsed = IPListItemSchema.safeParse({ ip, comment });
+    if (!parsed.success) {
+      errors.push({ line: index + 1, value: ip, message: parsed.error.issues[0]?.message || 'Invalid item' });
+      return;
+    }
+    items.set(parsed.data.ip, parsed.data);
+  });
+
+  return { items: [...items.values()], errors };
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  return trimmed.startsWith('"') && trimmed.endsWith('"') && trimmed.length >= 2
+    ? trimmed.slice(1, -1).replace(/""/g, '"').trim()
+    : trimmed;
+}
+
+/**
+ * Where each list is referenced; lists that are not used get an entry with no templates or zones
+ */
+export function buildIPListUsage(
+  listNames: string[],
+  templates: RuleTemplate[],
+  zones: ZoneRulesForUsage[]
+): IPListUsage[] {
+  const usage = new Map<string, IPListUsage>(
+    listNames.map(listName => [listName, { listName, templates: [], zones: [] }])
+  );
+
+  // Managed lists ($cf.*) and lists of other accounts also show up in the report
+  const entryFor = (listName: string): IPListUsage => {
+    if (!usage.has(listName)) {
+      usage.set(listName, { listName, templates: [], zones: [] });
+    }
+    return usage.get(listName)!;
+  };
+
+  for (const template of templates) {
+    for (const listName of getReferencedLists(template.expression)) {
+      entryFor(listName).templates.push({ friendlyId: template.friendlyId, name: template.name });
+    }
+  }
+
+  for (const zone of zones) {
+    const rulesByList = new Map<string, IPListUsage['zones'][number]['rules']>();
+
+    for (const rule of zone.rules) {
+      for (const listName of getReferencedLists(rule.expression)) {
+        const rules = rulesByList.get(listName) || [];
+        rules.push({ description: rule.description || '', phase: rule.phase, enabled: rule.enabled });
+        rulesByList.set(listName, rules);
+      }
+    }
+
+    for (const [listName, rules] of rulesByList) {
+      entryFor(listName).zones.push({ zoneId: zone.zoneId, domainName: zone.domainName, rules });
+    }
+  }
+
+  return [...usage.values()].sort((a, b) => a.listName.localeCompare(b.listName));
+}
@@ -0,0 +1,533 @@
+/**
+ * Persistent queue for bulk jobs
+ * Jobs and their per-domain status live in cache/bulk-jobs.json, so a closed tab doesn't stop
+ * them and a restarted server can resume them. Tokens are only kept in memory: at startup every
+ * job left running or queued is marked "interrupted" and waits until a client with the same token
+ * resumes it, jobs never resume on their own
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { AuditAction, BulkJob, BulkJobStatus, BulkJobType } from '@/types/cloudflare';
+import { CloudflareAPI } from './cloudflare';
+import { safeReadJsonFile, safeUpdateJsonFile } from './fileSystem';
+import { waitForRateLimitBudget, ESTIMATED_CALLS_PER_DOMAIN } from './rateLimiter';
+import { BULK_JOB_HANDLERS, BulkJobStep, BulkJobTargetResult } from './bulkJobHandlers';
+import { getTokenFingerprint, recordAudit } from './auditLog';
+
+const BULK_JOBS_FILE = 'bulk-jobs.json';
+
+// Domains processed in parallel, the same batches the streaming routes used
+const BATCH_SIZE = 5;
+
+// A domain that keeps failing is not retried again by resume
+export const MAX_TARGET_ATTEMPTS = 3;
+
+// The worker touches its jobs while alive, a running job without heartbeat was left by a dead process
+const HEARTBEAT_INTERVAL = 15 * 1000;
+const STALE_JOB_AFTER = 60 * 1000;
+
+// Finished jobs kept for the jobs panel
+const MAX_FINISHED_JOBS = 50;
+
+const FINISHED_STATUSES: BulkJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+const STEP_DESCRIPTIONS: Record<BulkJobStep, string> = {
+  api_calls: 'Aplicando cambios en',
+  verification: 'Verificando',
+  cache_refresh: 'Actualizando'
+};
+
+interface BulkJobsCache {
+  jobs: BulkJob[];
+  lastUpdated: string;
+}
+
+// Same shape as the events of the streaming routes, plus the job ID
+export interface BulkJobEvent {
+  type: 'job_created' | 'progress' | 'domain_complete' | 'complete' | 'error';
+  jobId: string;
+  progress: number;
+  currentDomain?: string;
+  completedDomains?: number;
+  totalDomains?: number;
+  phase?: {
+    current: BulkJobStep;
+    description: string;
+    progress: number;
+  };
+  domain?: {
+    zoneId: string;
+    domainName: string;
+    success: boolean;
+    message: string;
+    error?: string;
+  };
+  summary?: {
+    total: number;
+    successful: number;
+    failed: number;
+  };
+  error?: string;
+}
+
+export interface BulkJobInput {
+  type: BulkJobType;
+  action: string;
+  params: Record<string, unknown>;
+  label: string;
+  targets: Array<{ zoneId: string; domainName: string }>;
+  accountId?: string;
+  accountName?: string;
+}
+
+// Tokens of the jobs this process can run, never persisted
+const jobTokens = new Map<string, string>();
+const listeners = new Map<string, Set<(event: BulkJobEvent) => void>>();
+let workerRunning = false;
+
+export function isFinishedJob(job: BulkJob): boolean {
+  return FINISHED_STATUSES.includes(job.status);
+}
+
+function isStale(job: BulkJob): boolean {
+  return Date.now() - new Date(job.heartbeatAt).getTime() > STALE_JOB_AFTER;
+}
+
+/**
+ * Jobs left running or queued by a process that is gone are reported as interrupted
+ */
+function withLiveStatus(job: BulkJob): BulkJob {
+  if ((job.status === 'running' || job.status === 'queued') && !jobTokens.has(job.id) && isStale(job)) {
+    return { ...job, status: 'interrupted' };
+  }
+  return job;
+}
+
+async function readJobs(): Promise<BulkJobsCache> {
+  const cache = await safeReadJsonFile<Partial<BulkJobsCache>>(BULK_JOBS_FILE);
+  return {
+    jobs: cache.jobs || [],
+    lastUpdated: cache.lastUpdated || new Date().toISOString()
+  };
+}
+
+/**
+ * Locked read-modify-write of the jobs file, so the worker, the API routes and other processes don't
+ * overwrite each other
+ */
+async function mutateJobs<T>(mutator: (cache: BulkJobsCache) => T): Promise<T> {
+  let result = undefined as T;
+  await safeUpdateJsonFile<Partial<BulkJobsCache>>(BULK_JOBS_FILE, current => {
+    const cache: BulkJobsCache = { jobs: current.jobs || [], lastUpdated: current.lastUpdated || new Date().toISOString() };
+    result = mutator(cache);
+
+    const finished = cache.jobs.filter(isFinishedJob);
+    if (finished.length > MAX_FINISHED_JOBS) {
+      const dropped = new Set(finished
+        .sort((a, b) => (b.finishedAt || '').localeCompare(a.finishedAt || ''))
+        .slice(MAX_FINISHED_JOBS)
+        .map(job => job.id));
+      cache.jobs = cache.jobs.filter(job => !dropped.has(job.id));
+    }
+
+    cache.lastUpdated = new Date().toISOString();
+    return cache;
+  });
+  return result;
+}
+
+function updateJob(jobId: string, mutator: (job: BulkJob) => void): Promise<BulkJob | null> {
+  return mutateJobs(cache => {
+    const job = cache.jobs.find(item => item.id === jobId);
+    if (!job) return null;
+    mutator(job);
+    return { ...job, targets: job.targets.map(target => ({ ...target })) };
+  });
+}
+
+function emit(jobId: string, event: Omit<BulkJobEvent, 'jobId'>): void {
+  listeners.get(jobId)?.forEach(listener => {
+    try {
+      listener({ ...event, jobId });
+    } catch (error) {
+      console.warn(`[JobQueue] Listener of job ${jobId} failed:`, error);
+    }
+  });
+}
+
+function getSummary(job: BulkJob) {
+  return {
+    total: job.targets.length,
+    successful: job.targets.filter(target => target.status === 'success').length,
+    failed: job.targets.filter(target => target.status === 'failed').length
+  };
+}
+
+function getAuditAction(job: BulkJob): AuditAction {
+  return job.type === 'firewall' ? 'firewall_bulk' : `rules_${job.action}` as AuditAction;
+}
+
+function getDoneCount(job: BulkJob): number {
+  return job.targets.filter(target => target.status !== 'pending' && target.status !== 'running').length;
+}
+
+export type BulkJobView = Omit<BulkJob, 'tokenFingerprint'> & { ownToken: boolean };
+
+/**
+ * Job as returned by the API: the token fingerprint is replaced by whether the caller's token created it
+ */
+export function toJobView(job: BulkJob, apiToken: string): BulkJobView {
+  const { tokenFingerprint, ...rest } = job;
+  return { ...rest, ownToken: tokenFingerprint === getTokenFingerprint(apiToken) };
+}
+
+/**
+ * Called once when the server starts: the tokens of the jobs left running or queued died with the
+ * previous process, so they are interrupted right away instead of after STALE_JOB_AFTER
+ */
+export async function markInterruptedJobs(): Promise<number> {
+  const interrupted = await mutateJobs(cache => {
+    const active = cache.jobs.filter(job => (job.status === 'running' || job.status === 'queued') && !jobTokens.has(job.id));
+    // Domains left running run again on resume
+    active.forEach(job => { job.status = 'interrupted'; });
+    return active.length;
+  });
+  if (interrupted > 0) {
+    console.log(`[JobQueue] ${interrupted} jobs interrupted by the restart, they resume with their API token`);
+  }
+  return interrupted;
+}
+
+export async function listJobs(): Promise<BulkJob[]> {
+  const cache = await readJobs();
+  return cache.jobs
+    .map(withLiveStatus)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getJob(jobId: string): Promise<BulkJob | null> {
+  const cache = await readJobs();
+  const job = cache.jobs.find(item => item.id === jobId);
+  return job ? withLiveStatus(job) : null;
+}
+
+/**
+ * Listen to the progress of a job run by this process, returns the unsubscribe function
+ */
+export function subscribeToJob(jobId: string, listener: (event: BulkJobEvent) => void): () => void {
+  const jobListeners = listeners.get(jobId) || new Set();
+  jobListeners.add(listener);
+  listeners.set(jobId, jobListeners);
+
+  return () => {
+    jobListeners.delete(listener);
+    if (jobListeners.size === 0) listeners.delete(jobId);
+  };
+}
+
+export async function enqueueJob(input: BulkJobInput, apiToken: string): Promise<BulkJob> {
+  const now = new Date().toISOString();
+  const job: BulkJob = {
+    id: uuidv4(),
+    type: input.type,
+    action: input.action,
+    params: input.params,
+    label: input.label,
+    status: 'queued',
+    targets: input.targets.map(target => ({ ...target, status: 'pending', attempts: 0 })),
+    tokenFingerprint: getTokenFingerprint(apiToken),
+    ...(input.accountId && { accountId: input.accountId }),
+    ...(input.accountName && { accountName: input.accountName }),
+    createdAt: now,
+    heartbeatAt: now
+  };
+
+  await mutateJobs(cache => { cache.jobs.push(job); });
+  jobTokens.set(job.id, apiToken);
+  console.log(`[JobQueue] Queued ${job.type} job ${job.id} (${job.action}) for ${job.targets.length} domains`);
+
+  startWorker();
+  return job;
+}
+
+/**
+ * Queue an interrupted job again with the token of the client resuming it
+ * Domains that were mid-flight run again, failed ones too when retryFailed is set
+ */
+export async function resumeJob(jobId: string, apiToken: string, retryFailed = false): Promise<BulkJob> {
+  const current = await getJob(jobId);
+  if (!current) {
+    throw new Error('Job not found');
+  }
+  if (current.tokenFingerprint !== getTokenFingerprint(apiToken)) {
+    throw new Error('Job was created with a different API token');
+  }
+  const resumable = current.status === 'interrupted' || (retryFailed && current.status !== 'running' && current.status !== 'queued');
+  if (!resumable) {
+    throw new Error(`Job can not be resumed while ${current.status}`);
+  }
+
+  const job = await updateJob(jobId, item => {
+    item.status = 'queued';
+    item.cancelRequested = false;
+    item.error = undefined;
+    item.finishedAt = undefined;
+    item.heartbeatAt = new Date().toISOString();
+    item.targets.forEach(target => {
+      const retry = target.status === 'running' || target.status === 'cancelled' ||
+        (retryFailed && target.status === 'failed' && target.attempts < MAX_TARGET_ATTEMPTS);
+      if (retry) target.status = 'pending';
+    });
+  });
+
+  jobTokens.set(jobId, apiToken);
+  console.log(`[JobQueue] Resumed job ${jobId}${retryFailed ? ' retrying failed domains' : ''}`);
+  startWorker();
+  return job!;
+}
+
+/**
+ * Ask a job to stop: queued and interrupted jobs stop at once, running ones after the current batch
+ */
+export async function cancelJob(jobId: string): Promise<BulkJob | null> {
+  return updateJob(jobId, job => {
+    if (isFinishedJob(job)) return;
+    const live = withLiveStatus(job);
+    if (live.status === 'running') {
+      job.cancelRequested = true;
+    } else {
+      finishJob(job, 'cancelled');
+    }
+  });
+}
+
+export async function removeFinishedJobs(): Promise<number> {
+  return mutateJobs(cache => {
+    const before = cache.jobs.length;
+    cache.jobs = cache.jobs.filter(job => !isFinishedJob(job));
+    return before - cache.jobs.length;
+  });
+}
+
+function finishJob(job: BulkJob, status: BulkJobStatus, error?: string): void {
+  job.status = status;
+  job.finishedAt = new Date().toISOString();
+  job.cancelRequested = false;
+  if (error) job.error = error;
+  job.targets.forEach(target => {
+    if (target.status === 'pending' || target.status === 'running') target.status = 'cancelled';
+  });
+}
+
+function startWorker(): void {
+  if (workerRunning) return;
+  workerRunning = true;
+
+  const heartbeat = setInterval(() => {
+    const ids = new Set(jobTokens.keys());
+    mutateJobs(cache => {
+      const now = new Date().toISOString();
+      cache.jobs.filter(job => ids.has(job.id)).forEach(job => { job.heartbeatAt = now; });
+    }).catch(error => console.warn('[JobQueue] Heartbeat failed:', error));
+  }, HEARTBEAT_INTERVAL);
+
+  (async () => {
+    try {
+      // One job at a time: jobs share the Cloudflare rate limit budget anyway
+      while (true) {
+        const cache = await readJobs();
+        const next = cache.jobs
+          .filter(job => job.status === 'queued' && jobTokens.has(job.id))
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
+        if (!next) break;
+        await runJob(next.id, jobTokens.get(next.id)!);
+      }
+    } catch (error) {
+      console.error('[JobQueue] Worker stopped unexpectedly:', error);
+    } finally {
+      clearInterval(heartbeat);
+      workerRunning = false;
+    }
+  })();
+}
+
+async function runJob(jobId: string, apiToken: string): Promise<void> {
+  let job = await updateJob(jobId, item => {
+    item.status = 'running';
+    item.startedAt = item.startedAt || new Date().toISOString();
+    item.heartbeatAt = new Date().toISOString();
+  });
+  if (!job) {
+    jobTokens.delete(jobId);
+    return;
+  }
+
+  console.log(`[JobQueue] Running ${job.type} job ${jobId}`);
+  const total = job.targets.length;
+  const progressOf = (done: number) => total > 0 ? (done / total) * 100 : 100;
+
+  try {
+    const api = new CloudflareAPI(apiToken, 'bulk');
+    const runTarget = await BULK_JOB_HANDLERS[job.type](job);
+    const pending = job.targets.filter(target => target.status === 'pending');
+
+    for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+      const batch = pending.slice(i, i + BATCH_SIZE);
+
+      const started = await updateJob(jobId, item => {
+        if (item.cancelRequested) return;
+        const now = new Date().toISOString();
+        item.targets
+          .filter(target => batch.some(pendingTarget => pendingTarget.zoneId === target.zoneId))
+          .forEach(target => {
+            target.status = 'running';
+            target.attempts++;
+            target.updatedAt = now;
+          });
+      });
+      if (!started || started.cancelRequested) {
+        job = await updateJob(jobId, item => finishJob(item, 'cancelled'));
+        emit(jobId, { type: 'error', progress: job ? progressOf(getDoneCount(job)) : 0, error: 'Operation cancelled by user' });
+        return;
+      }
+
+      // Latest stored state of the job, domains of the batch finish at different times
+      let current = started;
+
+      await Promise.all(batch.map(async (target) => {
+        const result = await runTarget(api, target, (step) => {
+          const progress = progressOf(getDoneCount(current));
+          emit(jobId, {
+            type: 'progress',
+            progress,
+            currentDomain: target.domainName,
+            completedDomains: getDoneCount(current),
+            totalDomains: total,
+            phase: {
+              current: step,
+              description: `${STEP_DESCRIPTIONS[step]} ${target.domainName}...`,
+              progress
+            }
+          });
+        }).catch((error): BulkJobTargetResult => ({
+          success: false,
+          message: `Failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }));
+
+        const updated = await updateJob(jobId, item => {
+          const stored = item.targets.find(candidate => candidate.zoneId === target.zoneId);
+          if (!stored) return;
+          stored.status = result.success ? 'success' : 'failed';
+          stored.message = result.message;
+          stored.error = result.error;
+          stored.updatedAt = new Date().toISOString();
+          item.heartbeatAt = stored.updatedAt;
+        });
+        if (updated) current = updated;
+
+        await recordAudit({
+          actor: `token:${started.tokenFingerprint}`,
+          action: getAuditAction(started),
+          zoneId: target.zoneId,
+          domainName: target.domainName,
+          target: started.label,
+          before: result.before,
+          after: result.after,
+          success: result.success,
+          cloudflareResponse: result.message,
+          error: result.error,
+          jobId
+        });
+
+        const done = getDoneCount(current);
+        emit(jobId, {
+          type: 'domain_complete',
+          progress: progressOf(done),
+          currentDomain: target.domainName,
+          completedDomains: done,
+          totalDomains: total,
+          domain: {
+            zoneId: target.zoneId,
+            domainName: target.domainName,
+            success: result.success,
+            message: result.message,
+            error: result.error
+          }
+        });
+      }));
+
+      // Wait for the shared rate limit budget to cover the next batch
+      if (i + BATCH_SIZE < pending.length) {
+        await waitForRateLimitBudget(BATCH_SIZE * ESTIMATED_CALLS_PER_DOMAIN);
+      }
+    }
+
+    job = await updateJob(jobId, item => {
+      if (item.cancelRequested) {
+        finishJob(item, 'cancelled');
+      } else {
+        item.status = 'completed';
+        item.finishedAt = new Date().toISOString();
+      }
+    });
+    if (job) {
+      const summary = getSummary(job);
+      console.log(`[JobQueue] Job ${jobId} finished: ${summary.successful} successful, ${summary.failed} failed`);
+      emit(jobId, {
+        type: 'complete',
+        progress: 100,
+        completedDomains: summary.total,
+        totalDomains: summary.total,
+        summary,
+        phase: { current: 'cache_refresh', description: 'Proceso completado', progress: 100 }
+      });
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    console.error(`[JobQueue] Job ${jobId} failed:`, error);
+    await updateJob(jobId, item => finishJob(item, 'failed', message)).catch(() => undefined);
+    emit(jobId, { type: 'error', progress: 0, error: message });
+  } finally {
+    jobTokens.delete(jobId);
+  }
+}
+
+/**
+ * Server-sent events with the progress of a queued job, for the bulk-action-stream routes
+ * Closing the stream only stops listening: the job keeps running and shows up in the jobs panel
+ */
+export function createJobEventResponse(job: BulkJob): Response {
+  let unsubscribe: (() => void) | null = null;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const encoder = new TextEncoder();
+      const send = (event: BulkJobEvent) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      send({ type: 'job_created', jobId: job.id, progress: 0, completedDomains: 0, totalDomains: job.targets.length });
+      unsubscribe = subscribeToJob(job.id, event => {
+        send(event);
+        if (event.type === 'complete' || event.type === 'error') {
+          unsubscribe?.();
+          controller.close();
+        }
+      });
+    },
+    cancel() {
+      unsubscribe?.();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST',
+      'Access-Control-Allow-Headers': 'Content-Type, x-api-token'
+    }
+  });
+}
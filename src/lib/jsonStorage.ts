@@ -0,0 +1,164 @@
+/**
+ * JSON file storage backend (default)
+ * Every entity is a file in cache/ read and written through UnifiedCache, row-level changes are
+ * read-modify-write cycles under the file lock so concurrent routes don't overwrite each other
+ */
+import { promises as fs } from 'fs';
+import { resolve } from 'path';
+import { UnifiedCache } from './memoryCache';
+import { getCacheDir } from './cacheDirectory';
+import type {
+  DomainRuleStatusDocument,
+  DomainsDocument,
+  EntityStore,
+  PreferencesDocument,
+  ProgressDocument,
+  RuleMappingsDocument,
+  StorageBackend,
+  TemplatesDocument
+} from './storage';
+
+// Preferences were kept next to package.json before they moved to cache/
+const LEGACY_PREFERENCES_PATH = resolve(process.cwd(), 'user-preferences.json');
+
+const writeChains = new Map<string, Promise<unknown>>();
+
+function chainWrite<R>(fileName: string, operation: () => Promise<R>): Promise<R> {
+  const next = (writeChains.get(fileName) || Promise.resolve()).then(operation);
+  writeChains.set(fileName, next.catch(() => undefined));
+  return next;
+}
+
+function createEntityStore<TDocument>(fileName: string, empty: () => TDocument) {
+  const store: EntityStore<TDocument> & {
+    mutate<R>(mutator: (document: TDocument) => R): Promise<R>;
+  } = {
+    read: () => UnifiedCache.read<TDocument>(fileName),
+    write: (document) => chainWrite(fileName, () => UnifiedCache.write(fileName, document)),
+    clear: () => chainWrite(fileName, () => UnifiedCache.delete(fileName)),
+    mutate: (mutator) => chainWrite(fileName, async () => {
+      let result!: ReturnType<typeof mutator>;
+      await UnifiedCache.update<TDocument>(fileName, current => {
+        const document = current || empty();
+        result = mutator(document);
+        return document;
+      });
+      return result;
+    })
+  };
+  return store;
+}
+
+function upsertBy<T>(items: T[], updates: T[], key: (item: T) => string): T[] {
+  const byKey = new Map(updates.map(item => [key(item), item]));
+  const merged = items.map(item => {
+    const update = byKey.get(key(item));
+    if (!update) return item;
+    byKey.delete(key(item));
+    return update;
+  });
+  return [...merged, ...byKey.values()];
+}
+
+export function createJsonStorage(): StorageBackend {
+  const now = () => new Date().toISOString();
+
+  const domains = createEntityStore<DomainsDocument>('domains-cache.json', () => ({ domains: [], lastUpdate: now(), totalCount: 0 }));
+  const templates = createEntityStore<TemplatesDocument>('security-rules-templates.json', () => ({ templates: [], lastUpdated: now() }));
+  const ruleMappings = createEntityStore<RuleMappingsDocument>('rule-id-mapping.json', () => ({ mappings: [], lastUpdated: now() }));
+  const domainRuleStatus = createEntityStore<DomainRuleStatusDocument>('domain-rules-status.json', () => ({ domainStatuses: [], lastUpdated: now() }));
+  const preferences = createEntityStore<PreferencesDocument>('user-preferences.json', () => ({ preferences: {}, lastUpdated: now() }));
+  const progress = createEntityStore<ProgressDocument>('progress-tracker.json', () => ({}));
+
+  const readLegacyPreferences = async (): Promise<PreferencesDocument | null> => {
+    try {
+      const legacy = JSON.parse(await fs.readFile(LEGACY_PREFERENCES_PATH, 'utf-8'));
+      return { preferences: legacy, lastUpdated: legacy.lastUpdated || now() };
+    } catch {
+      return null;
+    }
+  };
+
+  const readPreferences = async (): Promise<PreferencesDocument | null> => {
+    return (await preferences.read()) || readLegacyPreferences();
+  };
+
+  return {
+    kind: 'json',
+
+    domains: {
+      ...domains,
+      upsert: (updates) => domains.mutate(document => {
+        document.domains = upsertBy(document.domains || [], updates, domain => domain.zoneId);
+        document.totalCount = document.domains.length;
+      })
+    },
+
+    templates: {
+      ...templates,
+      upsert: (template) => templates.mutate(document => {
+        document.templates = upsertBy(document.templates || [], [template], item => item.id);
+        document.lastUpdated = now();
+      }),
+      remove: (templateId) => templates.mutate(document => {
+        const before = (document.templates || []).length;
+        document.templates = (document.templates || []).filter(item => item.id !== templateId);
+        document.lastUpdated = now();
+        return document.templates.length < before;
+      })
+    },
+
+    ruleMappings: {
+      ...ruleMappings,
+      upsert: (mappings) => ruleMappings.mutate(document => {
+        document.mappings = upsertBy(document.mappings || [], mappings, mapping => mapping.cloudflareRuleId);
+        document.lastUpdated = now();
+      }),
+      remove: (cloudflareRuleIds) => ruleMappings.mutate(document => {
+        const ids = new Set(cloudflareRuleIds);
+        document.mappings = (document.mappings || []).filter(mapping => !ids.has(mapping.cloudflareRuleId));
+        document.lastUpdated = now();
+      })
+    },
+
+    domainRuleStatus: {
+      ...domainRuleStatus,
+      upsert: (statuses) => domainRuleStatus.mutate(document => {
+        document.domainStatuses = upsertBy(document.domainStatuses || [], statuses, status => status.zoneId);
+        document.lastUpdated = now();
+      })
+    },
+
+    preferences: {
+      ...preferences,
+      read: readPreferences,
+      update: (values) => chainWrite('user-preferences.json', async () => {
+        const document = await UnifiedCache.update<PreferencesDocument>('user-preferences.json', async current => {
+          const base = current || (await readLegacyPreferences()) || { preferences: {}, lastUpdated: now() };
+          return { ...base, preferences: { ...base.preferences, ...values }, lastUpdated: now() };
+        });
+        return document.preferences;
+      })
+    },
+
+    progress: {
+      ...progress,
+      get: async (requestId) => (await progress.read())?.[requestId] || null,
+      save: (update) => progress.mutate(document => { document[update.requestId] = update; }),
+      remove: (requestIds) => progress.mutate(document => {
+        requestIds.forEach(requestId => { delete document[requestId]; });
+      })
+    },
+
+    documents: {
+      read: (name) => UnifiedCache.read(name),
+      write: (name, data) => chainWrite(name, () => UnifiedCache.write(name, data)),
+      exists: (name) => UnifiedCache.exists(name),
+      delete: (name) => chainWrite(name, () => UnifiedCache.delete(name))
+    },
+
+    updateDocument: (name, updater) => chainWrite(name, () => UnifiedCache.update(name, updater)),
+
+    describe: () => ({ backend: 'json', directory: getCacheDir() })
+  };
+}
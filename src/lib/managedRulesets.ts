@@ -0,0 +1,177 @@
+/**
+ * Cloudflare managed WAF rulesets (http_request_firewall_managed phase) and conversion
+ * of the template override set to and from the execute action parameters
+ */
+import {
+  CloudflareManagedOverrides,
+  ManagedRulesetAction,
+  ManagedRulesetConfig,
+  OwaspSensitivity
+} from '@/types/cloudflare';
+
+export interface ManagedRulesetInfo {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export const CLOUDFLARE_MANAGED_RULESET_ID = 'efb7b8c949ac4650a09736fc376e9aee';
+export const OWASP_CORE_RULESET_ID = '4814384a9e5d4991b9815dcfc25d2f1f';
+
+// Managed rulesets available to zones, the free one only on Free plans
+export const MANAGED_RULESETS: ManagedRulesetInfo[] = [
+  {
+    id: CLOUDFLARE_MANAGED_RULESET_ID,
+    name: 'Cloudflare Managed Ruleset',
+    description: 'Reglas de Cloudflare contra vulnerabilidades conocidas y zero-days'
+  },
+  {
+    id: OWASP_CORE_RULESET_ID,
+    name: 'Cloudflare OWASP Core Ruleset',
+    description: 'OWASP ModSecurity Core Rule Set con puntuación de anomalías'
+  },
+  {
+    id: 'c2e184081120413c86c3ab7e14069605',
+    name: 'Cloudflare Exposed Credentials Check',
+    description: 'Detecta credenciales filtradas en peticiones de login'
+  },
+  {
+    id: '77454fe2d30c4220b5701f6fdfb893ba',
+    name: 'Cloudflare Managed Free Ruleset',
+    description: 'Versión reducida del ruleset gestionado para el plan Free'
+  }
+];
+
+export const MANAGED_RULESET_ACTIONS: ManagedRulesetAction[] = ['block', 'managed_challenge', 'challenge', 'js_challenge', 'log'];
+
+// The OWASP ruleset only acts through this rule, which compares the anomaly score with the threshold
+export const OWASP_ANOMALY_SCORE_RULE_ID = '6179ae15870a4bb7b2d480d4843b323c';
+
+export const OWASP_SENSITIVITY_THRESHOLDS: Record<OwaspSensitivity, number> = {
+  low: 60,
+  medium: 40,
+  high: 25
+};
+
+export const OWASP_SENSITIVITY_LABELS: Record<OwaspSensitivity, string> = {
+  low: 'Baja',
+  medium: 'Media',
+  high: 'Alta'
+};
+
+export const OWASP_PARANOIA_LEVELS: Array<NonNullable<ManagedRulesetConfig['paranoiaLevel']>> = [1, 2, 3, 4];
+
+// Paranoia level N runs the rules of levels 1..N, higher levels are disabled by category
+const PARANOIA_CATEGORY_PREFIX = 'paranoia-level-';
+
+// Expression of managed deployments, the ruleset itself decides what to match
+export const MANAGED_RULESET_EXPRESSION = 'true';
+
+export function isOwaspRuleset(rulesetId: string): boolean {
+  return rulesetId === OWASP_CORE_RULESET_ID;
+}
+
+export function getManagedRulesetName(rulesetId: string): string {
+  return MANAGED_RULESETS.find(ruleset => ruleset.id === rulesetId)?.name || rulesetId;
+}
+
+/**
+ * Execute action parameters deploying a managed ruleset with the template overrides
+ */
+export function toManagedRulesetActionParameters(config: ManagedRulesetConfig) {
+  const overrides: CloudflareManagedOverrides = {};
+  const rules: NonNullable<CloudflareManagedOverrides['rules']> = [];
+
+  if (isOwaspRuleset(config.rulesetId)) {
+    if (config.action || config.sensitivity) {
+      rules.push({
+        id: OWASP_ANOMALY_SCORE_RULE_ID,
+        ...(config.action && { action: config.action }),
+        ...(config.sensitivity && { score_threshold: OWASP_SENSITIVITY_THRESHOLDS[config.sensitivity] })
+      });
+    }
+    if (config.paranoiaLevel && config.paranoiaLevel < 4) {
+      overrides.categories = OWASP_PARANOIA_LEVELS
+        .filter(level => level > config.paranoiaLevel!)
+        .map(level => ({ category: `${PARANOIA_CATEGORY_PREFIX}${level}`, enabled: false }));
+    }
+  } else if (config.action) {
+    overrides.action = config.action;
+  }
+
+  rules.push(...config.disabledRules.map(id => ({ id, enabled: false })));
+  if (rules.length > 0) overrides.rules = rules;
+
+  return {
+    id: config.rulesetId,
+    ...(Object.keys(overrides).length > 0 && { overrides })
+  };
+}
+
+/**
+ * Template overrides of a deployed managed ruleset
+ * Overrides the template format can't express are counted so the view can flag them
+ */
+export function fromManagedRulesetActionParameters(parameters: any): { config: ManagedRulesetConfig; unmanagedOverrides: number } {
+  const overrides: CloudflareManagedOverrides = parameters?.overrides || {};
+  const config: ManagedRulesetConfig = { rulesetId: parameters?.id || '', disabledRules: [] };
+  const owasp = isOwaspRuleset(config.rulesetId);
+  let unmanagedOverrides = 0;
+
+  if (overrides.action) {
+    config.action = overrides.action as ManagedRulesetAction;
+  }
+  if (overrides.enabled !== undefined) unmanagedOverrides++;
+
+  const disabledLevels: number[] = [];
+  for (const category of overrides.categories || []) {
+    const level = Number(category.category.slice(PARANOIA_CATEGORY_PREFIX.length));
+    if (owasp && category.category.startsWith(PARANOIA_CATEGORY_PREFIX) && category.enabled === false && !category.action) {
+      disabledLevels.push(level);
+    } else {
+      unmanagedOverrides++;
+    }
+  }
+  if (disabledLevels.length > 0) {
+    const paranoiaLevel = Math.min(...disabledLevels) - 1;
+    // Only a contiguous set of disabled upper levels is a paranoia level
+    if (paranoiaLevel >= 1 && disabledLevels.length === 4 - paranoiaLevel) {
+      config.paranoiaLevel = paranoiaLevel as ManagedRulesetConfig['paranoiaLevel'];
+    } else {
+      unmanagedOverrides += disabledLevels.length;
+    }
+  }
+
+  for (const rule of overrides.rules || []) {
+    if (owasp && rule.id === OWASP_ANOMALY_SCORE_RULE_ID) {
+      if (rule.action) config.action = rule.action as ManagedRulesetAction;
+      const sensitivity = (Object.keys(OWASP_SENSITIVITY_THRESHOLDS) as OwaspSensitivity[])
+        .find(level => OWASP_SENSITIVITY_THRESHOLDS[level] === rule.score_threshold);
+      if (sensitivity) {
+        config.sensitivity = sensitivity;
+      } else if (rule.score_threshold !== undefined) {
+        unmanagedOverrides++;
+      }
+    } else if (rule.enabled === false && !rule.action) {
+      config.disabledRules.push(rule.id);
+    } else {
+      unmanagedOverrides++;
+    }
+  }
+
+  return { config, unmanagedOverrides };
+}
+
+/**
+ * Short summary for pills and template lists, e.g. "OWASP Core Ruleset · sensibilidad media, PL2"
+ */
+export function formatManagedRuleset(config: ManagedRulesetConfig): string {
+  const parts: string[] = [];
+  if (config.action) parts.push(`acción ${config.action}`);
+  if (config.sensitivity) parts.push(`sensibilidad ${OWASP_SENSITIVITY_LABELS[config.sensitivity].toLowerCase()}`);
+  if (config.paranoiaLevel) parts.push(`PL${config.paranoiaLevel}`);
+  if (config.disabledRules.length > 0) parts.push(`${config.disabledRules.length} reglas desactivadas`);
+
+  const name = getManagedRulesetName(config.rulesetId).replace(/^Cloudflare /, '');
+  return parts.length > 0 ? `${name} · ${parts.join(', ')}` : name;
+}
@@ -2,6 +2,9 @@
  * Memory-based cache system for production environments
  * Fallback to file system for local development
  */
+import { resolve } from 'path';
+import { getBaseCacheFileName } from './accounts';
+import { getCacheDir } from './cacheDirectory';
 
 type CacheEntry<T> = {
   data: T;
@@ -22,6 +25,19 @@ const CACHE_TTL_CONFIG: Record<string, number> = {
   'domain-rules-status.json': 2 * 60 * 1000,     // 2 minutes - can be regenerated
   'user-preferences.json': 24 * 60 * 60 * 1000,  // 24 hours - needs persistence
   'rule-id-mapping.json': 30 * 60 * 1000,        // 30 minutes - can be regenerated
+  'zone-settings-profiles.json': 60 * 60 * 1000, // 1 hour - needs persistence
+  'zone-settings-drift.json': 30 * 60 * 1000,    // 30 minutes - can be regenerated
+  'template-history.json': 60 * 60 * 1000,       // 1 hour - needs persistence
+  'domain-tags.json': 60 * 60 * 1000,            // 1 hour - needs persistence
+  'bulk-jobs.json': 24 * 60 * 60 * 1000,         // 24 hours - needs persistence
+  'refresh-schedule.json': 60 * 60 * 1000,       // 1 hour - needs persistence
+  'notifications.json': 60 * 60 * 1000,          // 1 hour - needs persistence
+  'audit-log.json': 60 * 60 * 1000,              // 1 hour - needs persistence
+  'audit-log-archive.json': 60 * 60 * 1000,      // 1 hour - needs persistence
+  'token-vault.json': 60 * 60 * 1000,            // 1 hour - needs persistence
+  'users.json': 60 * 60 * 1000,                  // 1 hour - needs persistence
+  'token-capabilities.json': 60 * 60 * 1000,     // 1 hour - can be regenerated
+  'change-requests.json': 60 * 60 * 1000,        // 1 hour - needs persistence
 };
 
 // Data types that need persistent storage in serverless environments
@@ -31,6 +47,27 @@ const NEEDS_PERSISTENCE: Record<string, boolean> = {
   'domain-rules-status.json': false,     // Can be regenerated
   'user-preferences.json': true,         // User preferences must persist
   'rule-id-mapping.json': false,         // Can be regenerated
+  'zone-settings-profiles.json': true,   // User-created profiles must persist
+  'zone-settings-drift.json': false,     // Can be regenerated with a new drift check
+  'template-history.json': true,         // Previous template revisions cannot be rebuilt
+  'domain-tags.json': true,              // User-assigned tags must persist
+  'bulk-jobs.json': true,                // Unfinished jobs are resumed after a restart
+  'refresh-schedule.json': true,         // Schedule configured by the user and its run history
+  'notifications.json': true,            // Webhook targets, delivery log and alert cooldowns
+  'audit-log.json': true,                // Append-only record of every change made through the manager
+  'audit-log-archive.json': true,        // Oldest audit entries, moved out of audit-log.json
+  'token-vault.json': true,              // Encrypted API tokens, the browser only keeps their handles
+  'users.json': true,                    // Local users, password hashes and login sessions
+  'token-capabilities.json': false,      // Can be regenerated with a new probe
+  'change-requests.json': true,          // Approval history of bulk rule operations
+};
+
+// Files whose content decides access control: only a missing file reads as empty, any other
+// read error is thrown instead of falling back to the default content
+const FAIL_CLOSED_FILES = new Set(['users.json']);
+
+const isFailClosedFile = (fileName: string): boolean => {
+  return FAIL_CLOSED_FILES.has(getBaseCacheFileName(fileName));
 };
 
 /**
@@ -60,7 +97,7 @@ const isExpired = (entry: CacheEntry<any>): boolean => {
  * Gets TTL for a specific file
  */
 const getTTLForFile = (fileName: string): number => {
-  return CACHE_TTL_CONFIG[fileName] || DEFAULT_TTL;
+  return CACHE_TTL_CONFIG[getBaseCacheFileName(fileName)] || DEFAULT_TTL;
 };
 
 /**
@@ -216,6 +253,7 @@ export class UnifiedCache {
 
         return data;
       } catch (error) {
+        if (isFailClosedFile(fileName)) throw error;
         console.log(`[UnifiedCache] File system read failed for ${fileName}, checking memory cache`);
         return MemoryCache.get<T>(fileName);
       }
@@ -224,24 +262,35 @@ export class UnifiedCache {
 
   /**
    * Direct file system read without going through other cache layers
+   * A corrupt file is restored from its last good copy (see fileLock.ts)
    */
   private static async readFromFileSystemDirect<T>(fileName: string): Promise<T | null> {
     try {
-      const { promises: fs } = await import('fs');
-      const { resolve } = await import('path');
+      const { readJsonFileWithRecovery } = await import('./fileLock');
 
-      const filePath = resolve(process.cwd(), 'cache', fileName);
-      const content = await fs.readFile(filePath, 'utf-8');
+      const data = await readJsonFileWithRecovery<T>(this.getFilePath(fileName), { strict: isFailClosedFile(fileName) });
+      if (data === null) {
+        console.log(`[UnifiedCache] File read failed for ${fileName} in cache/`);
+        return null;
+      }
 
       console.log(`[UnifiedCache] Direct file read successful: ${fileName}`);
-      return JSON.parse(content) as T;
+      return data;
 
     } catch (error) {
+      if (isFailClosedFile(fileName)) {
+        console.error(`[UnifiedCache] File read failed for ${fileName} in cache/:`, error);
+        throw error;
+      }
       console.log(`[UnifiedCache] File read failed for ${fileName} in cache/`);
       return null;
     }
   }
 
+  private static getFilePath(fileName: string): string {
+    return resolve(getCacheDir(), fileName);
+  }
+
   /**
    * Writes data to cache (memory or file system)
    * IMPORTANT: Uses direct file system operations to avoid circular dependencies
@@ -267,28 +316,14 @@ export class UnifiedCache {
 
   /**
    * Direct file system write without going through other cache layers
+   * Takes the file lock so concurrent routes can't interleave their writes
    */
   private static async writeToFileSystemDirect<T>(fileName: string, data: T): Promise<void> {
     try {
-      const { promises: fs } = await import('fs');
-      const { resolve, dirname } = await import('path');
-
-      const filePath = resolve(process.cwd(), 'cache', fileName);
-      const dirPath = dirname(filePath);
-
-      // Ensure cache directory exists
-      try {
-        await fs.access(dirPath);
-      } catch {
-        await fs.mkdir(dirPath, { recursive: true });
-      }
+      const { withFileLock, writeJsonFileAtomic } = await import('./fileLock');
 
-      // Write file atomically
-      const content = JSON.stringify(data, null, 2);
-      const tempPath = `${filePath}.tmp`;
-
-      await fs.writeFile(tempPath, content, 'utf-8');
-      await fs.rename(tempPath, filePath);
+      const filePath = this.getFilePath(fileName);
+      await withFileLock(filePath, () => writeJsonFileAtomic(filePath, data));
 
       console.log(`[UnifiedCache] Direct file write successful: ${fileName}`);
 
@@ -298,6 +333,27 @@ export class UnifiedCache {
     }
   }
 
+  /**
+   * Read-modify-write: the updater gets the current data (null when there is none) and
+   * returns the new data, the file stays locked in between so no other write is lost
+   */
+  static async update<T>(fileName: string, updater: (current: T | null) => T | Promise<T>): Promise<T> {
+    const isServerless = isServerlessEnvironment();
+
+    console.log(`[UnifiedCache] Updating ${fileName} (serverless: ${isServerless})`);
+
+    if (isServerless) {
+      const data = await updater(MemoryCache.get<T>(fileName));
+      MemoryCache.set(fileName, data);
+      return data;
+    }
+
+    const { updateJsonFile } = await import('./fileLock');
+    const data = await updateJsonFile<T>(this.getFilePath(fileName), updater, { strict: isFailClosedFile(fileName) });
+    MemoryCache.set(fileName, data);
+    return data;
+  }
+
   /**
    * Checks if data exists in cache
    * IMPORTANT: Uses direct file system operations to avoid circular dependencies
@@ -316,10 +372,8 @@ export class UnifiedCache {
       // Check file system directly
       try {
         const { promises: fs } = await import('fs');
-        const { resolve } = await import('path');
 
-        const filePath = resolve(process.cwd(), 'cache', fileName);
-        await fs.access(filePath);
+        await fs.access(this.getFilePath(fileName));
         return true;
       } catch {
         return false;
@@ -385,4 +439,4 @@ if (typeof setInterval !== 'undefined') {
   setInterval(runCacheCleanup, 10 * 60 * 1000);
 }
 
-export { isServerlessEnvironment };
\ No newline at end of file
+export { isServerlessEnvironment, isFailClosedFile };
\ No newline at end of file
@@ -0,0 +1,249 @@
+/**
+ * Outgoing webhook notifications for configuration drift
+ * Targets receive generic JSON, Slack-compatible or Microsoft Teams (Adaptive Card) payloads;
+ * every send is recorded in a delivery log and retried with backoff before it is marked as failed
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { DriftEvent, WebhookDelivery, WebhookFormat, WebhookTarget } from '@/types/cloudflare';
+import { safeReadJsonFile, safeUpdateJsonFile } from './fileSystem';
+import { DRIFT_EVENT_LABELS, getDriftEventKey } from './driftAlerts';
+
+const NOTIFICATIONS_FILE = 'notifications.json';
+const MAX_DELIVERY_LOG = 200;
+const DELIVERY_TIMEOUT = 10 * 1000;
+
+// Delay before each retry, the delivery fails after the last one
+const RETRY_DELAYS = [2 * 1000, 10 * 1000];
+
+export const DEFAULT_ALERT_COOLDOWN_MINUTES = 60;
+
+export interface NotificationsCache {
+  targets: WebhookTarget[];
+  deliveries: WebhookDelivery[]; // Most recent first
+  cooldownMinutes: number;
+  lastAlerts: Record<string, string>; // Target ID + drift event key -> last time it was delivered
+  lastUpdated: string;
+}
+
+const toNotificationsCache = (cache: Partial<NotificationsCache> | null): NotificationsCache => ({
+  targets: cache?.targets || [],
+  deliveries: cache?.deliveries || [],
+  cooldownMinutes: cache?.cooldownMinutes ?? DEFAULT_ALERT_COOLDOWN_MINUTES,
+  lastAlerts: cache?.lastAlerts || {},
+  lastUpdated: cache?.lastUpdated || new Date().toISOString()
+});
+
+export async function loadNotifications(): Promise<NotificationsCache> {
+  return toNotificationsCache(await safeReadJsonFile<Partial<NotificationsCache>>(NOTIFICATIONS_FILE));
+}
+
+/**
+ * Locked read-modify-write of the notifications file, deliveries and cooldowns are written from
+ * concurrent sends and processes
+ */
+export async function updateNotifications<T>(mutate: (cache: NotificationsCache) => T): Promise<T> {
+  let result = undefined as T;
+  await safeUpdateJsonFile<Partial<NotificationsCache>>(NOTIFICATIONS_FILE, current => {
+    const cache = toNotificationsCache(current);
+    result = mutate(cache);
+    cache.deliveries = cache.deliveries.slice(0, MAX_DELIVERY_LOG);
+    cache.lastUpdated = new Date().toISOString();
+    return cache;
+  });
+  return result;
+}
+
+// Each target has its own cooldown: a target that failed or wasn't subscribed doesn't silence the others
+const getCooldownKey = (targetId: string, event: DriftEvent) => `${targetId}:${getDriftEventKey(event)}`;
+
+function formatEventLine(event: DriftEvent): string {
+  return `${DRIFT_EVENT_LABELS[event.type]}: ${event.message}`;
+}
+
+/**
+ * Body sent to a target for a group of drift events
+ */
+export function buildWebhookPayload(format: WebhookFormat, events: DriftEvent[], test = false): unknown {
+  const title = test
+    ? 'Prueba de notificación - Rollpix Cloudflare Manager'
+    : `${events.length} cambio${events.length === 1 ? '' : 's'} de configuración detectado${events.length === 1 ? '' : 's'}`;
+
+  switch (format) {
+    case 'slack':
+      return {
+        text: title,
+        blocks: [
+          { type: 'header', text: { type: 'plain_text', text: title } },
+          {
+            type: 'section',
+            text: { type: 'mrkdwn', text: events.map(event => `• *${event.domainName}* - ${formatEventLine(event)}`).join('\n') }
+          }
+        ]
+      };
+
+    case 'teams':
+      return {
+        type: 'message',
+        attachments: [{
+          contentType: 'application/vnd.microsoft.card.adaptive',
+          content: {
+            $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+            type: 'AdaptiveCard',
+            version: '1.4',
+            body: [
+              { type: 'TextBlock', size: 'Medium', weight: 'Bolder', text: title, wrap: true },
+              {
+                type: 'FactSet',
+                facts: events.map(event => ({ title: event.domainName, value: formatEventLine(event) }))
+              }
+            ]
+          }
+        }]
+      };
+
+    case 'json':
+    default:
+      return {
+        source: 'rollpix-cloudflare-manager',
+        test,
+        generatedAt: new Date().toISOString(),
+        events
+      };
+  }
+}
+
+async function postWebhook(url: string, payload: unknown): Promise<{ ok: boolean; statusCode?: number; error?: string }> {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT)
+    });
+    return response.ok
+      ? { ok: true, statusCode: response.status }
+      : { ok: false, statusCode: response.status, error: `HTTP ${response.status} ${response.statusText}`.trim() };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Send a delivery to its target, retrying with backoff, and record every attempt in the log
+ */
+async function attemptDelivery(delivery: WebhookDelivery, target: WebhookTarget, retryDelays = RETRY_DELAYS): Promise<WebhookDelivery> {
+  const payload = buildWebhookPayload(target.format, delivery.events, delivery.test);
+
+  for (let retry = 0; retry <= retryDelays.length; retry++) {
+    if (retry > 0) {
+      await new Promise(resolve => setTimeout(resolve, retryDelays[retry - 1]));
+    }
+
+    const result = await postWebhook(target.url, payload);
+    delivery.attempts++;
+    delivery.lastAttemptAt = new Date().toISOString();
+    delivery.statusCode = result.statusCode;
+    delivery.error = result.error;
+    delivery.status = result.ok ? 'success' : retry < retryDelays.length ? 'pending' : 'failed';
+
+    await updateNotifications(cache => {
+      cache.deliveries = [{ ...delivery }, ...cache.deliveries.filter(item => item.id !== delivery.id)];
+    });
+
+    if (result.ok) {
+      console.log(`[Notifications] Delivered ${delivery.events.length} events to ${target.name}`);
+      return delivery;
+    }
+    console.warn(`[Notifications] Delivery ${delivery.id} to ${target.name} failed (attempt ${delivery.attempts}): ${result.error}`);
+  }
+
+  return delivery;
+}
+
+function createDelivery(target: WebhookTarget, events: DriftEvent[], test = false): WebhookDelivery {
+  return {
+    id: uuidv4(),
+    targetId: target.id,
+    targetName: target.name,
+    status: 'pending',
+    events,
+    test: test || undefined,
+    attempts: 0,
+    createdAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Send drift events to the enabled targets subscribed to them
+ * Events a target already received within the cooldown window are dropped for that target. The
+ * cooldown starts once a delivery succeeds, failed events are sent again on the next check
+ */
+export async function dispatchDriftEvents(events: DriftEvent[]): Promise<void> {
+  if (events.length === 0) return;
+
+  const cache = await loadNotifications();
+  const now = Date.now();
+  const cooldown = cache.cooldownMinutes * 60 * 1000;
+  const isCoolingDown = (key: string) => {
+    const sentAt = cache.lastAlerts[key];
+    return !!sentAt && now - new Date(sentAt).getTime() < cooldown;
+  };
+
+  const sends = cache.targets
+    .filter(target => target.enabled)
+    .map(target => ({
+      target,
+      events: events.filter(event => target.events.includes(event.type) && !isCoolingDown(getCooldownKey(target.id, event)))
+    }))
+    .filter(send => send.events.length > 0);
+
+  console.log(`[Notifications] ${events.length} drift events detected, sending to ${sends.length} targets`);
+
+  await Promise.all(sends.map(async ({ target, events: targetEvents }) => {
+    const delivery = await attemptDelivery(createDelivery(target, targetEvents), target);
+    if (delivery.status !== 'success') return;
+
+    await updateNotifications(current => {
+      const sentAt = new Date().toISOString();
+      // Forget cooldowns that already expired
+      for (const [key, lastSentAt] of Object.entries(current.lastAlerts)) {
+        if (Date.now() - new Date(lastSentAt).getTime() >= cooldown) delete current.lastAlerts[key];
+      }
+      targetEvents.forEach(event => { current.lastAlerts[getCooldownKey(target.id, event)] = sentAt; });
+    });
+  }));
+}
+
+/**
+ * Send a sample event to a target, bypassing event filters and cooldown
+ * Single attempt so the panel can show the result right away
+ */
+export async function sendTestNotification(target: WebhookTarget): Promise<WebhookDelivery> {
+  const event: DriftEvent = {
+    type: 'proxy_disabled',
+    zoneId: 'test',
+    domainName: 'example.com',
+    subject: 'example.com',
+    message: 'Evento de prueba: el proxy de example.com se desactivó',
+    detectedAt: new Date().toISOString()
+  };
+  return attemptDelivery(createDelivery(target, [event], true), target, []);
+}
+
+/**
+ * Send a logged delivery again with its original events, as a new single-attempt delivery
+ * @throws Error if the delivery or its target no longer exists
+ */
+export async function retryDelivery(deliveryId: string): Promise<WebhookDelivery> {
+  const cache = await loadNotifications();
+  const previous = cache.deliveries.find(delivery => delivery.id === deliveryId);
+  if (!previous) {
+    throw new Error('Delivery not found');
+  }
+  const target = cache.targets.find(item => item.id === previous.targetId);
+  if (!target) {
+    throw new Error('Webhook target not found');
+  }
+
+  return attemptDelivery(createDelivery(target, previous.events, previous.test), target, []);
+}
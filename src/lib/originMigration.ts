@@ -0,0 +1,155 @@
+/**
+ * Cross-zone origin migration helpers
+ * Finds A/AAAA/CNAME records whose content matches an old origin and
+ * keeps a rollback file with the previous values of every rewritten record
+ */
+import { CloudflareDNSRecord } from '@/types/cloudflare';
+import { safeUpdateJsonFile } from './fileSystem';
+import { ARecordSchema, AAAARecordSchema, CNAMERecordSchema } from './validation';
+
+export const MIGRATABLE_TYPES = ['A', 'AAAA', 'CNAME'] as const;
+export type MigratableType = typeof MIGRATABLE_TYPES[number];
+
+export interface OriginMigrationMatch {
+  zoneId: string;
+  domainName: string;
+  recordId: string;
+  type: MigratableType;
+  name: string;
+  oldContent: string;
+  newContent: string;
+  proxied: boolean;
+  invalidReason?: string; // Set when the new value is not valid for this record type
+}
+
+export interface OriginMigrationRollbackEntry {
+  zoneId: string;
+  domainName: string;
+  recordId: string;
+  type: string;
+  name: string;
+  previousContent: string;
+  newContent: string;
+  appliedAt: string;
+}
+
+export interface OriginMigrationRollbackFile {
+  createdAt: string;
+  find: string;
+  replace: string;
+  entries: OriginMigrationRollbackEntry[];
+}
+
+const REPLACEMENT_SCHEMAS = {
+  A: ARecordSchema,
+  AAAA: AAAARecordSchema,
+  CNAME: CNAMERecordSchema
+};
+
+/**
+ * Normalize record content for comparison (hostnames are case-insensitive, trailing dot optional)
+ */
+function normalizeContent(type: string, content: string): string {
+  const trimmed = content.trim();
+  if (type === 'CNAME') {
+    return trimmed.toLowerCase().replace(/\.$/, '');
+  }
+  return trimmed.toLowerCase();
+}
+
+/**
+ * Check whether a record is a migration candidate for `find`
+ */
+export function isMigrationMatch(record: CloudflareDNSRecord, find: string, types: readonly string[]): boolean {
+  if (!types.includes(record.type) || record.locked) {
+    return false;
+  }
+  return normalizeContent(record.type, record.content) === normalizeContent(record.type, find);
+}
+
+/**
+ * Validate the replacement value against the schema of the record type
+ * @returns Error message or undefined when valid
+ */
+export function validateReplacement(record: CloudflareDNSRecord, replace: string): string | undefined {
+  const schema = REPLACEMENT_SCHEMAS[record.type as MigratableType];
+  if (!schema) {
+    return `Record type ${record.type} cannot be migrated`;
+  }
+
+  const result = schema.safeParse({
+    type: record.type,
+    name: record.name,
+    content: replace.trim(),
+    ttl: record.ttl,
+    proxied: record.proxied
+  });
+
+  return result.success ? undefined : result.error.issues[0]?.message;
+}
+
+/**
+ * Build the preview rows for one zone
+ */
+export function findMigrationMatches(
+  zoneId: string,
+  domainName: string,
+  records: CloudflareDNSRecord[],
+  find: string,
+  replace: string,
+  types: readonly string[]
+): OriginMigrationMatch[] {
+  return records
+    .filter(record => isMigrationMatch(record, find, types))
+    .map(record => ({
+      zoneId,
+      domainName,
+      recordId: record.id,
+      type: record.type as MigratableType,
+      name: record.name,
+      oldContent: record.content,
+      newContent: replace.trim(),
+      proxied: record.proxied,
+      invalidReason: validateReplacement(record, replace)
+    }));
+}
+
+const ROLLBACK_FILE_PATTERN = /^origin-migration-rollback-[0-9TZ-]+\.json$/;
+
+/**
+ * Generate a unique rollback file name stored in the cache directory
+ */
+export function generateRollbackFileName(): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return `origin-migration-rollback-${timestamp}.json`;
+}
+
+/**
+ * Check that a client supplied name refers to a rollback file (no path traversal)
+ */
+export function isRollbackFileName(fileName: string): boolean {
+  return ROLLBACK_FILE_PATTERN.test(fileName);
+}
+
+/**
+ * Append rewritten records to the rollback file (created on first call)
+ * Called after every batch so an interrupted run still has its rollback data
+ */
+export async function appendRollbackEntries(
+  fileName: string,
+  find: string,
+  replace: string,
+  entries: OriginMigrationRollbackEntry[]
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  // Under the file lock, so concurrent batches don't drop each other's entries
+  const rollback = await safeUpdateJsonFile<Partial<OriginMigrationRollbackFile>>(fileName, existing => ({
+    createdAt: existing.createdAt || new Date().toISOString(),
+    find,
+    replace,
+    entries: [...(existing.entries || []), ...entries]
+  })) as OriginMigrationRollbackFile;
+
+  console.log(`[OriginMigration] Rollback file ${fileName} now has ${rollback.entries.length} entries`);
+}
@@ -0,0 +1,41 @@
+/**
+ * Roles of the local users and what each one can do
+ * Shared by the API handlers (lib/auth.ts) and the UI, which hides the actions a role can't run
+ */
+
+export const USER_ROLES = ['viewer', 'operator', 'security-admin'] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+export type Permission =
+  | 'domains:read'       // List domains, rules, DNS records, templates, jobs and the audit log
+  | 'domains:write'      // Apply or remove template rules, edit DNS, proxy and security mode, run jobs
+  | 'rules:destructive'  // Clean every rule of a zone, delete custom rules and IP lists
+  | 'templates:manage'   // Templates, zone settings profiles, notifications, schedule and storage
+  | 'changes:approve'    // Approve or reject the change requests of other users
+  | 'users:manage';      // Create users and change their roles
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  viewer: ['domains:read'],
+  operator: ['domains:read', 'domains:write'],
+  'security-admin': ['domains:read', 'domains:write', 'rules:destructive', 'templates:manage', 'changes:approve', 'users:manage']
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: 'Lectura',
+  operator: 'Operador',
+  'security-admin': 'Administrador de seguridad'
+};
+
+export const hasPermission = (role: UserRole, permission: Permission): boolean => {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+};
+
+// User as returned by the API, without password hash
+export interface UserView {
+  id: string;
+  username: string;
+  role: UserRole;
+  createdAt: string;
+  lastLoginAt?: string;
+}
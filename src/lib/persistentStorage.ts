@@ -1,9 +1,18 @@
 /**
  * Persistent storage system for serverless environments
  * Uses different strategies based on data type and environment
+ * With STORAGE_BACKEND=sqlite every data type lives in the database and the strategies are skipped
  */
 
 import { UnifiedCache, MemoryCache, isServerlessEnvironment } from './memoryCache';
+import {
+  deleteStoredDocument,
+  getStorage,
+  getStorageBackendKind,
+  readStoredDocument,
+  storedDocumentExists,
+  writeStoredDocument
+} from './storage';
 
 // Storage strategies for different data types
 enum StorageStrategy {
@@ -250,6 +259,10 @@ export class PersistentStorage {
    * Read data using the appropriate strategy for the data type
    */
   static async read<T>(fileName: string): Promise<T | null> {
+    if (getStorageBackendKind() === 'sqlite') {
+      return await readStoredDocument<T>(fileName);
+    }
+
     const config = STORAGE_CONFIG[fileName];
 
     if (!config) {
@@ -299,6 +312,11 @@ export class PersistentStorage {
    * Write data using the appropriate strategy for the data type
    */
   static async write<T>(fileName: string, data: T): Promise<void> {
+    if (getStorageBackendKind() === 'sqlite') {
+      await writeStoredDocument(fileName, data);
+      return;
+    }
+
     const config = STORAGE_CONFIG[fileName];
 
     if (!config) {
@@ -349,6 +367,10 @@ export class PersistentStorage {
    * Check if data exists using the appropriate strategy
    */
   static async exists(fileName: string): Promise<boolean> {
+    if (getStorageBackendKind() === 'sqlite') {
+      return await storedDocumentExists(fileName);
+    }
+
     const config = STORAGE_CONFIG[fileName];
 
     if (!config) {
@@ -379,6 +401,11 @@ export class PersistentStorage {
    * Delete data using the appropriate strategy
    */
   static async delete(fileName: string): Promise<void> {
+    if (getStorageBackendKind() === 'sqlite') {
+      await deleteStoredDocument(fileName);
+      return;
+    }
+
     const config = STORAGE_CONFIG[fileName];
 
     if (!config) {
@@ -412,16 +439,18 @@ export class PersistentStorage {
   /**
    * Get information about storage usage and strategies
    */
-  static getInfo(): {
+  static async getInfo(): Promise<{
     environment: 'serverless' | 'local';
+    backend: Record<string, unknown>;
     strategies: Record<string, { strategy: string; critical: boolean; regenerable: boolean }>;
     clientStorageStats?: ReturnType<typeof ClientStorage.getStats>;
     memoryStats: any;
-  } {
+  }> {
     const isServerless = isServerlessEnvironment();
 
     const info: any = {
       environment: isServerless ? 'serverless' : 'local',
+      backend: (await getStorage()).describe(),
       strategies: STORAGE_CONFIG,
       memoryStats: UnifiedCache.getInfo()
     };
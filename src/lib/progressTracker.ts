@@ -2,11 +2,12 @@
  * File-based progress tracking for long-running API operations
  * Used to provide real-time progress updates to the frontend
  *
- * Uses file storage instead of in-memory Map to ensure progress is shared
+ * Uses the storage backend instead of in-memory Map to ensure progress is shared
  * across all API route handlers (important for Next.js 15 dev mode and serverless)
+ * Each update only touches its own entry, so parallel requests don't overwrite each other
  */
 
-import { safeReadJsonFile, safeWriteJsonFile } from './fileSystem';
+import { getStorage } from './storage';
 
 export interface ProgressUpdate {
   requestId: string;
@@ -24,34 +25,39 @@ export interface ProgressUpdate {
   isWaitingRateLimit?: boolean; // Indicates if waiting for rate limit delay
 }
 
-interface ProgressCache {
-  [requestId: string]: ProgressUpdate;
-}
-
 class ProgressTracker {
-  private readonly CACHE_FILE = 'progress-tracker.json';
   private readonly TTL = 5 * 60 * 1000; // 5 minutes TTL for completed requests
 
   /**
-   * Load all progress entries from file
+   * Load a single progress entry
+   */
+  private async loadProgress(requestId: string): Promise<ProgressUpdate | null> {
+    try {
+      return await (await getStorage()).progress.get(requestId);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Save a single progress entry
    */
-  private async loadProgress(): Promise<ProgressCache> {
+  private async saveProgress(progress: ProgressUpdate): Promise<void> {
     try {
-      const data = await safeReadJsonFile<ProgressCache>(this.CACHE_FILE);
-      return data || {};
+      await (await getStorage()).progress.save(progress);
     } catch (error) {
-      return {};
+      console.error('[ProgressTracker] Error saving progress:', error);
     }
   }
 
   /**
-   * Save all progress entries to file
+   * Remove progress entries
    */
-  private async saveProgress(progressCache: ProgressCache): Promise<void> {
+  private async removeProgress(requestIds: string[]): Promise<void> {
     try {
-      await safeWriteJsonFile(this.CACHE_FILE, progressCache);
+      await (await getStorage()).progress.remove(requestIds);
     } catch (error) {
-      console.error('[ProgressTracker] Error saving progress to file:', error);
+      console.error('[ProgressTracker] Error removing progress:', error);
     }
   }
 
@@ -66,8 +72,7 @@ class ProgressTracker {
    * Initialize progress tracking for a new request
    */
   async initProgress(requestId: string, total: number): Promise<void> {
-    const progressCache = await this.loadProgress();
-    progressCache[requestId] = {
+    await this.saveProgress({
       requestId,
       phase: 1,
       phaseLabel: 'Obteniendo lista de dominios',
@@ -76,8 +81,7 @@ class ProgressTracker {
       total,
       timestamp: Date.now(),
       completed: false
-    };
-    await this.saveProgress(progressCache);
+    });
     console.log(`[ProgressTracker] Initialized progress for ${requestId}: total=${total}`);
   }
 
@@ -85,16 +89,14 @@ class ProgressTracker {
    * Update the total count for a request (useful when transitioning from Phase 1 to Phase 2)
    */
   async updateTotal(requestId: string, total: number): Promise<void> {
-    const progressCache = await this.loadProgress();
-    const progress = progressCache[requestId];
+    const progress = await this.loadProgress(requestId);
     if (!progress) {
       console.warn(`[ProgressTracker] No progress found for ${requestId}`);
       return;
     }
 
     progress.total = total;
-    progressCache[requestId] = progress;
-    await this.saveProgress(progressCache);
+    await this.saveProgress(progress);
     console.log(`[ProgressTracker] ${requestId}: Updated total to ${total}`);
   }
 
@@ -102,8 +104,7 @@ class ProgressTracker {
    * Update progress for Phase 1 (getting domain list)
    */
   async updatePhase1(requestId: string, percentage: number): Promise<void> {
-    const progressCache = await this.loadProgress();
-    const progress = progressCache[requestId];
+    const progress = await this.loadProgress(requestId);
     if (!progress) {
       console.warn(`[ProgressTracker] No progress found for ${requestId}`);
       return;
@@ -114,8 +115,7 @@ class ProgressTracker {
     progress.percentage = Math.round(Math.min(100, Math.max(0, percentage)));
     progress.timestamp = Date.now();
 
-    progressCache[requestId] = progress;
-    await this.saveProgress(progressCache);
+    await this.saveProgress(progress);
   }
 
   /**
@@ -129,8 +129,7 @@ class ProgressTracker {
     totalBatches?: number,
     currentDomainName?: string
   ): Promise<void> {
-    const progressCache = await this.loadProgress();
-    const progress = progressCache[requestId];
+    const progress = await this.loadProgress(requestId);
     if (!progress) {
       console.warn(`[ProgressTracker] No progress found for ${requestId}`);
       return;
@@ -149,8 +148,7 @@ class ProgressTracker {
     progress.currentDomainName = currentDomainName;
     progress.timestamp = Date.now();
 
-    progressCache[requestId] = progress;
-    await this.saveProgress(progressCache);
+    await this.saveProgress(progress);
 
     const batchInfo = currentBatch && totalBatches ? ` [Lote ${currentBatch}/${totalBatches}]` : '';
     const domainInfo = currentDomainName ? ` - ${currentDomainName}` : '';
@@ -161,16 +159,14 @@ class ProgressTracker {
    * Set rate limit waiting status
    */
   async setRateLimitWait(requestId: string, isWaiting: boolean): Promise<void> {
-    const progressCache = await this.loadProgress();
-    const progress = progressCache[requestId];
+    const progress = await this.loadProgress(requestId);
     if (!progress) {
       console.warn(`[ProgressTracker] No progress found for ${requestId}`);
       return;
     }
 
     progress.isWaitingRateLimit = isWaiting;
-    progressCache[requestId] = progress;
-    await this.saveProgress(progressCache);
+    await this.saveProgress(progress);
 
     if (isWaiting) {
       console.log(`[ProgressTracker] ${requestId}: Waiting for rate limit delay...`);
@@ -181,8 +177,7 @@ class ProgressTracker {
    * Mark request as completed
    */
   async markCompleted(requestId: string): Promise<void> {
-    const progressCache = await this.loadProgress();
-    const progress = progressCache[requestId];
+    const progress = await this.loadProgress(requestId);
     if (!progress) {
       console.warn(`[ProgressTracker] No progress found for ${requestId}`);
       return;
@@ -192,15 +187,12 @@ class ProgressTracker {
     progress.percentage = 100;
     progress.timestamp = Date.now();
 
-    progressCache[requestId] = progress;
-    await this.saveProgress(progressCache);
+    await this.saveProgress(progress);
     console.log(`[ProgressTracker] ${requestId}: Marked as completed`);
 
     // Clean up after TTL (fire and forget)
     setTimeout(async () => {
-      const cache = await this.loadProgress();
-      delete cache[requestId];
-      await this.saveProgress(cache);
+      await this.removeProgress([requestId]);
       console.log(`[ProgressTracker] ${requestId}: Cleaned up after TTL`);
     }, this.TTL);
   }
@@ -209,8 +201,7 @@ class ProgressTracker {
    * Mark request as failed
    */
   async markFailed(requestId: string, error: string): Promise<void> {
-    const progressCache = await this.loadProgress();
-    const progress = progressCache[requestId];
+    const progress = await this.loadProgress(requestId);
     if (!progress) {
       console.warn(`[ProgressTracker] No progress found for ${requestId}`);
       return;
@@ -220,15 +211,12 @@ class ProgressTracker {
     progress.error = error;
     progress.timestamp = Date.now();
 
-    progressCache[requestId] = progress;
-    await this.saveProgress(progressCache);
+    await this.saveProgress(progress);
     console.log(`[ProgressTracker] ${requestId}: Marked as failed - ${error}`);
 
     // Clean up after TTL (fire and forget)
     setTimeout(async () => {
-      const cache = await this.loadProgress();
-      delete cache[requestId];
-      await this.saveProgress(cache);
+      await this.removeProgress([requestId]);
       console.log(`[ProgressTracker] ${requestId}: Cleaned up after TTL`);
     }, this.TTL);
   }
@@ -237,16 +225,14 @@ class ProgressTracker {
    * Get current progress for a request
    */
   async getProgress(requestId: string): Promise<ProgressUpdate | null> {
-    const progressCache = await this.loadProgress();
-    const progress = progressCache[requestId];
+    const progress = await this.loadProgress(requestId);
     if (!progress) {
       return null;
     }
 
     // Check if progress has expired (older than TTL)
     if (Date.now() - progress.timestamp > this.TTL) {
-      delete progressCache[requestId];
-      await this.saveProgress(progressCache);
+      await this.removeProgress([requestId]);
       return null;
     }
 
@@ -257,20 +243,15 @@ class ProgressTracker {
    * Clean up old progress entries
    */
   async cleanup(): Promise<void> {
-    const progressCache = await this.loadProgress();
+    const progressCache = (await (await getStorage()).progress.read()) || {};
     const now = Date.now();
-    let cleaned = 0;
-
-    for (const [requestId, progress] of Object.entries(progressCache)) {
-      if (now - progress.timestamp > this.TTL) {
-        delete progressCache[requestId];
-        cleaned++;
-      }
-    }
+    const expired = Object.values(progressCache)
+      .filter(progress => now - progress.timestamp > this.TTL)
+      .map(progress => progress.requestId);
 
-    if (cleaned > 0) {
-      await this.saveProgress(progressCache);
-      console.log(`[ProgressTracker] Cleaned up ${cleaned} expired progress entries`);
+    if (expired.length > 0) {
+      await this.removeProgress(expired);
+      console.log(`[ProgressTracker] Cleaned up ${expired.length} expired progress entries`);
     }
   }
 }
@@ -0,0 +1,229 @@
+/**
+ * Process-wide request scheduler for the Cloudflare API
+ * Implements a token bucket sized to Cloudflare's global limit (1200 requests / 5 minutes)
+ *
+ * Every CloudflareAPI instance shares this bucket, so concurrent routes
+ * (complete, analyze, bulk streams) draw from the same budget instead of
+ * guessing delays independently.
+ */
+
+export interface RateLimitBudget {
+  capacity: number;
+  remaining: number;
+  windowMs: number;
+  refillPerSecond: number;
+  pausedUntil: number | null; // Set when Cloudflare answered 429 with Retry-After
+  isThrottled: boolean;
+  totalRequests: number;
+  totalThrottled: number; // Requests answered with 429
+  lastUpdated: number;
+}
+
+// Cloudflare global API limit
+const CAPACITY = 1200;
+const WINDOW_MS = 5 * 60 * 1000;
+const REFILL_PER_MS = CAPACITY / WINDOW_MS;
+
+// Keep a small reserve so manual actions (proxy toggle, security mode) never starve behind bulk runs
+const RESERVED_TOKENS = 20;
+
+// Fallback pause when a 429 arrives without a usable Retry-After header
+const DEFAULT_RETRY_AFTER_MS = 30 * 1000;
+
+// Backoff settings for retried GET requests
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 60 * 1000;
+
+// Average Cloudflare API calls made when processing one domain (DNS + security + rulesets)
+export const ESTIMATED_CALLS_PER_DOMAIN = 7;
+
+class CloudflareRateLimiter {
+  private tokens = CAPACITY;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private totalRequests = 0;
+  private totalThrottled = 0;
+
+  /**
+   * Refill the bucket based on elapsed time
+   */
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    if (elapsed > 0) {
+      this.tokens = Math.min(CAPACITY, this.tokens + elapsed * REFILL_PER_MS);
+      this.lastRefill = now;
+    }
+  }
+
+  /**
+   * Milliseconds until `count` tokens are available (0 if available now)
+   */
+  getWaitTime(count: number = 1, reserve: number = 0): number {
+    this.refill();
+
+    const now = Date.now();
+    const pauseWait = Math.max(0, this.pausedUntil - now);
+    const needed = Math.min(CAPACITY, count + reserve);
+    const missing = needed - this.tokens;
+    const refillWait = missing > 0 ? Math.ceil(missing / REFILL_PER_MS) : 0;
+
+    return Math.max(pauseWait, refillWait);
+  }
+
+  /**
+   * Wait until a token is available and consume it
+   * @param priority - 'bulk' requests leave a reserve for interactive ones
+   * @returns Milliseconds spent waiting
+   */
+  async acquire(priority: 'interactive' | 'bulk' = 'bulk'): Promise<number> {
+    const reserve = priority === 'bulk' ? RESERVED_TOKENS : 0;
+    let waited = 0;
+
+    // Loop because other callers may consume tokens while we sleep
+    let wait = this.getWaitTime(1, reserve);
+    while (wait > 0) {
+      await sleep(wait);
+      waited += wait;
+      wait = this.getWaitTime(1, reserve);
+    }
+
+    this.tokens -= 1;
+    this.totalRequests++;
+
+    if (waited > 0) {
+      console.log(`[RateLimiter] Waited ${waited}ms for budget (${Math.floor(this.tokens)}/${CAPACITY} remaining)`);
+    }
+
+    return waited;
+  }
+
+  /**
+   * Wait until the bucket can cover `count` requests without consuming them
+   * Used by batch loops to pause between batches based on the real budget
+   * @returns Milliseconds spent waiting
+   */
+  async waitForCapacity(count: number): Promise<number> {
+    let waited = 0;
+    let wait = this.getWaitTime(count, RESERVED_TOKENS);
+
+    while (wait > 0) {
+      await sleep(wait);
+      waited += wait;
+      wait = this.getWaitTime(count, RESERVED_TOKENS);
+    }
+
+    return waited;
+  }
+
+  /**
+   * Register a 429 response from Cloudflare and pause the whole bucket
+   * @param retryAfterMs - Delay requested by Cloudflare (Retry-After)
+   */
+  registerThrottle(retryAfterMs: number | null): void {
+    const delay = retryAfterMs ?? DEFAULT_RETRY_AFTER_MS;
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+    this.totalThrottled++;
+
+    // Cloudflare says we are over the limit: our local view was too optimistic
+    this.refill();
+    this.tokens = 0;
+
+    console.warn(`[RateLimiter] Cloudflare returned 429, pausing all requests for ${delay}ms`);
+  }
+
+  /**
+   * Align the local bucket with the budget reported by Cloudflare
+   * Parses the `Ratelimit` header (e.g. `"default";r=1180;t=300`)
+   */
+  syncFromHeaders(headers: Headers): void {
+    const header = headers.get('ratelimit');
+    if (!header) return;
+
+    const match = header.match(/r=(\d+)/);
+    if (!match) return;
+
+    const reported = parseInt(match[1], 10);
+    this.refill();
+    if (!isNaN(reported) && reported < this.tokens) {
+      this.tokens = reported;
+    }
+  }
+
+  /**
+   * Get the current budget snapshot
+   */
+  getBudget(): RateLimitBudget {
+    this.refill();
+    const now = Date.now();
+    const pausedUntil = this.pausedUntil > now ? this.pausedUntil : null;
+
+    return {
+      capacity: CAPACITY,
+      remaining: Math.floor(this.tokens),
+      windowMs: WINDOW_MS,
+      refillPerSecond: REFILL_PER_MS * 1000,
+      pausedUntil,
+      isThrottled: pausedUntil !== null || this.tokens < 1 + RESERVED_TOKENS,
+      totalRequests: this.totalRequests,
+      totalThrottled: this.totalThrottled,
+      lastUpdated: now
+    };
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Parse a Retry-After header value (seconds or HTTP date) into milliseconds
+ */
+export const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+};
+
+/**
+ * Exponential backoff with full jitter for retry attempt `attempt` (1-based)
+ */
+export const getBackoffDelay = (attempt: number, minimumMs: number = 0): number => {
+  const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempt - 1));
+  return Math.max(minimumMs, Math.round(Math.random() * ceiling));
+};
+
+// Singleton instance shared by every CloudflareAPI in the process
+export const cloudflareRateLimiter = new CloudflareRateLimiter();
+
+/**
+ * Pause a batch loop until the shared budget can cover the next batch,
+ * reporting the wait to the progress tracker only when a real wait happens
+ * @param estimatedCalls - API calls the next batch is expected to make
+ * @param onWaitChange - Called with true before waiting and false afterwards
+ */
+export const waitForRateLimitBudget = async (
+  estimatedCalls: number,
+  onWaitChange?: (isWaiting: boolean) => Promise<void> | void
+): Promise<number> => {
+  const expectedWait = cloudflareRateLimiter.getWaitTime(estimatedCalls, RESERVED_TOKENS);
+  if (expectedWait <= 0) {
+    return 0;
+  }
+
+  console.log(`[RateLimiter] Budget low, waiting ~${expectedWait}ms before next batch of ~${estimatedCalls} calls`);
+  await onWaitChange?.(true);
+  try {
+    return await cloudflareRateLimiter.waitForCapacity(estimatedCalls);
+  } finally {
+    await onWaitChange?.(false);
+  }
+};
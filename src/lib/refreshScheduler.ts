@@ -0,0 +1,261 @@
+/**
+ * Server-side scheduler for the complete domain refresh
+ * Runs the /api/domains/complete pipeline with the environment token on a cron expression,
+ * keeps a history of runs and notifies open clients when domains-cache.json changes
+ * The environment token belongs to the default account, other accounts are refreshed from the browser
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { RefreshRun, RefreshScheduleConfig } from '@/types/cloudflare';
+import { safeReadJsonFile, safeUpdateJsonFile } from './fileSystem';
+import { progressTracker } from './progressTracker';
+import { matchesCronSchedule, parseCronExpression } from './cronExpression';
+import { DOMAIN_CACHE_FILE, DomainsCache, runCompleteRefresh } from './domainRefresh';
+
+const SCHEDULE_FILE = 'refresh-schedule.json';
+const MAX_RUN_HISTORY = 20;
+
+// Checked twice per minute so a slow tick never skips the matching minute
+const TICK_INTERVAL = 30 * 1000;
+
+// Comment lines keep idle event streams open through proxies
+const EVENT_KEEPALIVE_INTERVAL = 25 * 1000;
+
+export const DEFAULT_REFRESH_SCHEDULE: RefreshScheduleConfig = {
+  enabled: false,
+  cronExpression: '0 */6 * * *',
+  batchSize: 4,
+  updatedAt: new Date(0).toISOString()
+};
+
+export interface RefreshScheduleCache {
+  config: RefreshScheduleConfig;
+  runs: RefreshRun[]; // Most recent first
+  lastUpdated: string;
+}
+
+export interface RefreshEvent {
+  type: 'refresh_started' | 'refresh_completed' | 'refresh_failed';
+  run: RefreshRun;
+  lastUpdate?: string; // New domains-cache.json timestamp on refresh_completed
+  totalCount?: number;
+}
+
+interface SchedulerState {
+  timer: ReturnType<typeof setInterval> | null;
+  lastTriggeredMinute: string | null;
+  runningRunId: string | null;
+  listeners: Set<(event: RefreshEvent) => void>;
+}
+
+// instrumentation.ts and the route handlers are bundled separately, the state lives on globalThis
+// so the timer, the running flag and the event listeners are shared by every copy of this module
+const globalForScheduler = globalThis as typeof globalThis & { refreshSchedulerState?: SchedulerState };
+const state: SchedulerState = globalForScheduler.refreshSchedulerState ??= {
+  timer: null,
+  lastTriggeredMinute: null,
+  runningRunId: null,
+  listeners: new Set()
+};
+
+/**
+ * Environment token, same rules as /api/env-token
+ */
+export function getEnvironmentToken(): string | null {
+  const envToken = process.env.CLOUDFLARE_API_TOKEN;
+  return envToken && envToken.length >= 40 ? envToken : null;
+}
+
+const toRefreshScheduleCache = (cache: Partial<RefreshScheduleCache>): RefreshScheduleCache => ({
+  config: { ...DEFAULT_REFRESH_SCHEDULE, ...(cache.config || {}) },
+  runs: cache.runs || [],
+  lastUpdated: cache.lastUpdated || new Date().toISOString()
+});
+
+export async function loadRefreshSchedule(): Promise<RefreshScheduleCache> {
+  return toRefreshScheduleCache(await safeReadJsonFile<Partial<RefreshScheduleCache>>(SCHEDULE_FILE));
+}
+
+export async function updateRefreshSchedule(
+  changes: Partial<Omit<RefreshScheduleConfig, 'updatedAt'>>
+): Promise<RefreshScheduleCache> {
+  const now = new Date().toISOString();
+  const cache = await safeUpdateJsonFile<RefreshScheduleCache>(SCHEDULE_FILE, current => {
+    const next = toRefreshScheduleCache(current);
+    return { ...next, config: { ...next.config, ...changes, updatedAt: now }, lastUpdated: now };
+  });
+
+  console.log(`[RefreshScheduler] Schedule ${cache.config.enabled ? `enabled (${cache.config.cronExpression})` : 'disabled'}`);
+  return cache;
+}
+
+async function saveRun(run: RefreshRun): Promise<void> {
+  await safeUpdateJsonFile<RefreshScheduleCache>(SCHEDULE_FILE, current => {
+    const cache = toRefreshScheduleCache(current);
+    return {
+      ...cache,
+      runs: [run, ...cache.runs.filter(item => item.id !== run.id)].slice(0, MAX_RUN_HISTORY),
+      lastUpdated: new Date().toISOString()
+    };
+  });
+}
+
+function emit(event: RefreshEvent): void {
+  state.listeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.warn('[RefreshScheduler] Event listener failed:', error);
+    }
+  });
+}
+
+export function isRefreshRunning(): boolean {
+  return state.runningRunId !== null;
+}
+
+/**
+ * Run the complete refresh now with the environment token
+ * A run requested while another one is in progress is recorded as skipped
+ */
+export async function runScheduledRefresh(trigger: RefreshRun['trigger']): Promise<RefreshRun> {
+  const startedAt = new Date();
+  const run: RefreshRun = {
+    id: uuidv4(),
+    trigger,
+    status: 'running',
+    startedAt: startedAt.toISOString()
+  };
+
+  if (state.runningRunId) {
+    run.status = 'skipped';
+    run.finishedAt = run.startedAt;
+    run.error = 'A refresh is already running';
+    await saveRun(run);
+    console.log(`[RefreshScheduler] Skipped ${trigger} refresh, run ${state.runningRunId} still in progress`);
+    return run;
+  }
+
+  const apiToken = getEnvironmentToken();
+  if (!apiToken) {
+    run.status = 'failed';
+    run.finishedAt = run.startedAt;
+    run.durationMs = 0;
+    run.error = 'No environment token configured (CLOUDFLARE_API_TOKEN)';
+    await saveRun(run);
+    emit({ type: 'refresh_failed', run });
+    console.warn(`[RefreshScheduler] ${trigger} refresh failed: ${run.error}`);
+    return run;
+  }
+
+  state.runningRunId = run.id;
+  await saveRun(run);
+  emit({ type: 'refresh_started', run });
+  console.log(`[RefreshScheduler] Starting ${trigger} refresh ${run.id}`);
+
+  try {
+    const { config } = await loadRefreshSchedule();
+    const result = await runCompleteRefresh({
+      apiToken,
+      batchSize: config.batchSize,
+      requestId: progressTracker.generateRequestId()
+    });
+    if (!result) {
+      throw new Error('Refresh was cancelled');
+    }
+
+    const cache = await safeReadJsonFile<DomainsCache>(DOMAIN_CACHE_FILE);
+    run.status = 'success';
+    run.domainsProcessed = result.summary.totalDomains;
+    run.finishedAt = new Date().toISOString();
+    run.durationMs = Date.now() - startedAt.getTime();
+    await saveRun(run);
+
+    console.log(`[RefreshScheduler] Refresh ${run.id} completed: ${run.domainsProcessed} domains in ${run.durationMs}ms`);
+    emit({ type: 'refresh_completed', run, lastUpdate: cache.lastUpdate, totalCount: cache.totalCount });
+  } catch (error) {
+    run.status = 'failed';
+    run.error = error instanceof Error ? error.message : 'Unknown error';
+    run.finishedAt = new Date().toISOString();
+    run.durationMs = Date.now() - startedAt.getTime();
+    await saveRun(run).catch(saveError => console.error('[RefreshScheduler] Could not record failed run:', saveError));
+
+    console.error(`[RefreshScheduler] Refresh ${run.id} failed:`, error);
+    emit({ type: 'refresh_failed', run });
+  } finally {
+    state.runningRunId = null;
+  }
+
+  return run;
+}
+
+async function tick(): Promise<void> {
+  const now = new Date();
+  const minuteKey = `${now.getFullYear()}-${now.getMonth()}-${now.getDate()}-${now.getHours()}-${now.getMinutes()}`;
+  if (state.lastTriggeredMinute === minuteKey) return;
+
+  const { config } = await loadRefreshSchedule();
+  if (!config.enabled) return;
+
+  let matches = false;
+  try {
+    matches = matchesCronSchedule(parseCronExpression(config.cronExpression), now);
+  } catch (error) {
+    console.warn(`[RefreshScheduler] Invalid cron expression "${config.cronExpression}":`, error);
+    return;
+  }
+  if (!matches) return;
+
+  state.lastTriggeredMinute = minuteKey;
+  await runScheduledRefresh('scheduled');
+}
+
+/**
+ * Start the scheduler timer, called once from instrumentation.ts when the server boots
+ */
+export function startRefreshScheduler(): void {
+  if (state.timer) return;
+
+  state.timer = setInterval(() => {
+    tick().catch(error => console.error('[RefreshScheduler] Tick failed:', error));
+  }, TICK_INTERVAL);
+  console.log('[RefreshScheduler] Scheduler started');
+}
+
+export function subscribeToRefreshEvents(listener: (event: RefreshEvent) => void): () => void {
+  state.listeners.add(listener);
+  return () => {
+    state.listeners.delete(listener);
+  };
+}
+
+/**
+ * Server-sent events with the scheduled refresh runs, one stream per open client
+ */
+export function createRefreshEventResponse(): Response {
+  let unsubscribe: (() => void) | null = null;
+  let keepAlive: ReturnType<typeof setInterval> | null = null;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const encoder = new TextEncoder();
+      unsubscribe = subscribeToRefreshEvents(event => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      });
+      keepAlive = setInterval(() => {
+        controller.enqueue(encoder.encode(': keepalive\n\n'));
+      }, EVENT_KEEPALIVE_INTERVAL);
+    },
+    cancel() {
+      unsubscribe?.();
+      if (keepAlive) clearInterval(keepAlive);
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    }
+  });
+}
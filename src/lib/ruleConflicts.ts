@@ -0,0 +1,282 @@
+/**
+ * Conflict detection between a rule template and the custom rules already on a zone
+ * Expressions are compared on their parsed form, so formatting, operand order and
+ * operator spelling don't hide an identical rule
+ */
+import { CloudflareRule, ConflictResolution, RuleConflict, RuleTemplate } from '@/types/cloudflare';
+import { ExpressionNode, LiteralNode, RangeNode, SetNode, ListNode, ValueNode, parseExpression } from './ruleExpression';
+import { isTemplateRule } from './ruleUtils';
+import { DEFAULT_RULE_PHASE, getRulePhase } from './rulePhases';
+
+// Share of the smaller rule's conditions that must also appear in the other one
+const OVERLAP_THRESHOLD = 0.5;
+
+// Cloudflare rejects rule expressions longer than this
+const MAX_EXPRESSION_LENGTH = 4096;
+
+const PERMIT_ACTIONS = new Set(['allow', 'skip']);
+const DENY_ACTIONS = new Set(['block', 'challenge', 'managed_challenge', 'js_challenge']);
+
+export interface RuleConflictContext {
+  zoneId: string;
+  domainName: string;
+  templates: RuleTemplate[]; // Rules created from any template are never reported as conflicts
+}
+
+/**
+ * Cloudflare action a template is deployed with
+ */
+export function toCloudflareAction(action: string): string {
+  return action === 'challenge' ? 'managed_challenge' : action;
+}
+
+function areOpposing(actionA: string, actionB: string): boolean {
+  return (PERMIT_ACTIONS.has(actionA) && DENY_ACTIONS.has(actionB)) ||
+    (DENY_ACTIONS.has(actionA) && PERMIT_ACTIONS.has(actionB));
+}
+
+function isLiteral(node: ExpressionNode | LiteralNode): node is LiteralNode {
+  return node.kind === 'string' || node.kind === 'int' || node.kind === 'ip' || node.kind === 'boolean';
+}
+
+function literalKey(node: LiteralNode | RangeNode): string {
+  switch (node.kind) {
+    case 'string':
+      return JSON.stringify(node.value);
+    case 'ip':
+      return node.value.toLowerCase();
+    case 'range':
+      return `${literalKey(node.from)}..${literalKey(node.to)}`;
+    default:
+      return String(node.value);
+  }
+}
+
+function rightKey(node: LiteralNode | SetNode | ListNode): string {
+  if (node.kind === 'set') {
+    return `{${node.items.map(literalKey).sort().join(' ')}}`;
+  }
+  if (node.kind === 'list') {
+    return `$${node.name}`;
+  }
+  return literalKey(node);
+}
+
+function valueKey(node: ValueNode): string {
+  const indexes = node.indexes.map(index => `[${typeof index.key === 'string' && index.key !== '*' ? JSON.stringify(index.key) : index.key}]`).join('');
+  if (node.kind === 'field') {
+    return `${node.name}${indexes}`;
+  }
+  const args = node.args.map(arg => isLiteral(arg) ? literalKey(arg) : canonicalize(arg));
+  return `${node.name}(${args.join(', ')})${indexes}`;
+}
+
+function flatten(node: ExpressionNode, operator: string): ExpressionNode[] {
+  if (node.kind === 'group') return flatten(node.expression, operator);
+  if (node.kind === 'logical' && node.operator === operator) {
+    return [...flatten(node.left, operator), ...flatten(node.right, operator)];
+  }
+  return [node];
+}
+
+/**
+ * Canonical text of an expression: groups dropped, and/or chains flattened and sorted
+ */
+export function canonicalize(node: ExpressionNode): string {
+  switch (node.kind) {
+    case 'group':
+      return canonicalize(node.expression);
+    case 'not':
+      return `not ${canonicalize(node.operand)}`;
+    case 'logical': {
+      const operands = flatten(node, node.operator).map(canonicalize).sort();
+      return `(${operands.join(` ${node.operator} `)})`;
+    }
+    case 'comparison':
+      return `${valueKey(node.left)} ${node.operator} ${rightKey(node.right)}`;
+    default:
+      return valueKey(node);
+  }
+}
+
+/**
+ * Atomic conditions of an expression, ignoring how they are combined
+ * `f eq "a"` and `f in {"a" "b"}` share the condition `f = "a"`
+ */
+function collectConditions(node: ExpressionNode, negated: boolean, into: Set<string>): void {
+  const prefix = negated ? 'not ' : '';
+  switch (node.kind) {
+    case 'group':
+      collectConditions(node.expression, negated, into);
+      return;
+    case 'not':
+      collectConditions(node.operand, !negated, into);
+      return;
+    case 'logical':
+      collectConditions(node.left, negated, into);
+      collectConditions(node.right, negated, into);
+      return;
+    case 'comparison': {
+      const left = valueKey(node.left);
+      if (node.operator === 'in' && node.right.kind === 'set') {
+        node.right.items.forEach(item => into.add(`${prefix}${left} = ${literalKey(item)}`));
+      } else if (node.operator === 'eq' && node.right.kind !== 'list') {
+        into.add(`${prefix}${left} = ${rightKey(node.right)}`);
+      } else {
+        into.add(`${prefix}${left} ${node.operator} ${rightKey(node.right)}`);
+      }
+      return;
+    }
+    default:
+      into.add(`${prefix}${valueKey(node)}`);
+  }
+}
+
+interface ParsedRule {
+  canonical: string;
+  conditions: Set<string>;
+}
+
+function parseRule(expression: string): ParsedRule | null {
+  const { ast } = parseExpression(expression);
+  if (!ast) return null;
+  const conditions = new Set<string>();
+  collectConditions(ast, false, conditions);
+  return { canonical: canonicalize(ast), conditions };
+}
+
+function overlapScore(a: Set<string>, b: Set<string>): { containment: number; jaccard: number } {
+  const shared = [...a].filter(condition => b.has(condition)).length;
+  const union = new Set([...a, ...b]).size;
+  const smaller = Math.min(a.size, b.size);
+  return {
+    containment: smaller === 0 ? 0 : shared / smaller,
+    jaccard: union === 0 ? 0 : shared / union
+  };
+}
+
+function isTemplateManaged(rule: CloudflareRule, templates: RuleTemplate[]): boolean {
+  const description = (rule.description || '').toLowerCase();
+  if (!description) return false;
+  return isTemplateRule(rule.description || '') ||
+    templates.some(template => template.name.toLowerCase() === description);
+}
+
+/**
+ * Find the custom rules of a zone that are identical to, overlap with or contradict a template
+ */
+export function detectRuleConflicts(
+  template: RuleTemplate,
+  existingRules: CloudflareRule[],
+  context: RuleConflictContext
+): RuleConflict[] {
+  const templateAction = toCloudflareAction(template.action);
+  const templateRule = parseRule(template.expression);
+  const normalizedTemplate = template.expression.replace(/\s+/g, ' ').trim();
+  const phase = getRulePhase(template);
+  const conflicts: RuleConflict[] = [];
+
+  for (const rule of existingRules) {
+    if (rule.enabled === false || !rule.expression) continue;
+    // Rate limiting and custom rules are evaluated in different phases and never clash
+    if (getRulePhase(rule) !== phase) continue;
+    if (isTemplateManaged(rule, context.templates)) continue;
+
+    const existing = templateRule ? parseRule(rule.expression) : null;
+    const identical = templateRule && existing
+      ? templateRule.canonical === existing.canonical
+      : normalizedTemplate === rule.expression.replace(/\s+/g, ' ').trim();
+
+    let conflictType: RuleConflict['conflictType'];
+    let suggestedResolution: ConflictResolution;
+    let confidence: number;
+
+    if (identical) {
+      confidence = 1;
+      if (rule.action === templateAction) {
+        conflictType = 'identical';
+        suggestedResolution = ConflictResolution.REPLACE;
+      } else if (areOpposing(rule.action, templateAction)) {
+        conflictType = 'contradictory';
+        suggestedResolution = ConflictResolution.MANUAL;
+      } else {
+        conflictType = 'similar';
+        suggestedResolution = ConflictResolution.REPLACE;
+        confidence = 0.9;
+      }
+    } else {
+      if (!templateRule || !existing) continue;
+      const { containment, jaccard } = overlapScore(templateRule.conditions, existing.conditions);
+      if (containment < OVERLAP_THRESHOLD) continue;
+
+      confidence = Math.round(Math.max(jaccard, containment * 0.8) * 100) / 100;
+      if (areOpposing(rule.action, templateAction)) {
+        conflictType = 'contradictory';
+        suggestedResolution = ConflictResolution.MANUAL;
+      } else {
+        conflictType = 'overlapping';
+        suggestedResolution = rule.action === templateAction && canMergeInPhase(phase)
+          ? ConflictResolution.MERGE
+          : ConflictResolution.SKIP;
+      }
+    }
+
+    conflicts.push({
+      zoneId: context.zoneId,
+      domainName: context.domainName,
+      corporateRuleId: template.friendlyId,
+      corporateRuleName: template.name,
+      conflictingRule: {
+        cloudflareRuleId: rule.id,
+        expression: rule.expression,
+        action: rule.action,
+        description: rule.description
+      },
+      conflictType,
+      suggestedResolution,
+      confidence
+    });
+  }
+
+  return conflicts;
+}
+
+/**
+ * Most conservative of the suggested resolutions of a zone's conflicts
+ */
+export function getDefaultResolution(conflicts: RuleConflict[]): ConflictResolution {
+  const order = [ConflictResolution.MANUAL, ConflictResolution.SKIP, ConflictResolution.MERGE, ConflictResolution.REPLACE];
+  return order.find(resolution => conflicts.some(conflict => conflict.suggestedResolution === resolution)) ||
+    ConflictResolution.REPLACE;
+}
+
+// Rate limits, redirects and rewrites carry parameters besides the action, so OR-ing
+// their expressions would apply one rule's counter or target to the other's traffic
+function canMergeInPhase(phase: string): boolean {
+  return phase === DEFAULT_RULE_PHASE;
+}
+
+/**
+ * Merging only keeps the meaning of the rules when they all share the template's action
+ */
+export function canMergeConflicts(template: RuleTemplate, conflicts: RuleConflict[]): boolean {
+  const templateAction = toCloudflareAction(template.action);
+  return canMergeInPhase(getRulePhase(template)) &&
+    conflicts.every(conflict => conflict.conflictingRule.action === templateAction);
+}
+
+/**
+ * Expression matching what the template and the conflicting rules matched together
+ * Returns null when the rules can't be merged or the result is too long for Cloudflare
+ */
+export function mergeConflictExpressions(template: RuleTemplate, conflicts: RuleConflict[]): string | null {
+  if (!canMergeConflicts(template, conflicts)) return null;
+
+  const extra = conflicts
+    .filter(conflict => conflict.conflictType !== 'identical')
+    .map(conflict => conflict.conflictingRule.expression);
+  if (extra.length === 0) return template.expression;
+
+  const merged = [template.expression, ...extra].map(expression => `(${expression})`).join(' or ');
+  return merged.length <= MAX_EXPRESSION_LENGTH ? merged : null;
+}
@@ -0,0 +1,969 @@
+/**
+ * Parser and validator for the Cloudflare Rules language (wirefilter syntax)
+ * Produces an AST with source offsets and reports positioned syntax and type errors,
+ * so template expressions can be checked before they reach the Rulesets API
+ */
+
+export type FieldType =
+  | 'String'
+  | 'Int'
+  | 'Boolean'
+  | 'IP'
+  | 'Bytes'
+  | 'Array<String>'
+  | 'Array<Int>'
+  | 'Array<Boolean>'
+  | 'Map<String>'
+  | 'Map<Array<String>>';
+
+export type ComparisonOperator =
+  | 'eq' | 'ne' | 'lt' | 'le' | 'gt' | 'ge'
+  | 'contains' | 'matches' | 'wildcard' | 'strict wildcard' | 'in';
+
+export type LogicalOperator = 'and' | 'or' | 'xor';
+
+interface NodeBase {
+  start: number; // Offset of the first character
+  end: number;   // Offset after the last character
+}
+
+export interface StringLiteralNode extends NodeBase { kind: 'string'; value: string }
+export interface IntLiteralNode extends NodeBase { kind: 'int'; value: number }
+export interface IPLiteralNode extends NodeBase { kind: 'ip'; value: string; cidr: boolean }
+export interface BooleanLiteralNode extends NodeBase { kind: 'boolean'; value: boolean }
+export type LiteralNode = StringLiteralNode | IntLiteralNode | IPLiteralNode | BooleanLiteralNode;
+
+export interface RangeNode extends NodeBase { kind: 'range'; from: IntLiteralNode | IPLiteralNode; to: IntLiteralNode | IPLiteralNode }
+export interface SetNode extends NodeBase { kind: 'set'; items: Array<LiteralNode | RangeNode> }
+export interface ListNode extends NodeBase { kind: 'list'; name: string }
+
+// Index access: field["key"], field[0] or field[*]
+export interface IndexNode extends NodeBase { key: string | number | '*' }
+
+export interface FieldNode extends NodeBase { kind: 'field'; name: string; indexes: IndexNode[] }
+export interface FunctionNode extends NodeBase {
+  kind: 'function';
+  name: string;
+  args: Array<ExpressionNode | LiteralNode>; // any()/all() take a condition
+  indexes: IndexNode[];
+}
+export type ValueNode = FieldNode | FunctionNode;
+
+export interface ComparisonNode extends NodeBase {
+  kind: 'comparison';
+  operator: ComparisonOperator;
+  left: ValueNode;
+  right: LiteralNode | SetNode | ListNode;
+}
+export interface LogicalNode extends NodeBase { kind: 'logical'; operator: LogicalOperator; left: ExpressionNode; right: ExpressionNode }
+export interface NotNode extends NodeBase { kind: 'not'; operand: ExpressionNode }
+export interface GroupNode extends NodeBase { kind: 'group'; expression: ExpressionNode }
+
+export type ExpressionNode = LogicalNode | NotNode | GroupNode | ComparisonNode | ValueNode;
+
+export interface ExpressionError {
+  message: string;
+  start: number;
+  end: number;
+  line: number;   // 1-based
+  column: number; // 1-based
+}
+
+export interface ExpressionValidationResult {
+  valid: boolean;
+  ast: ExpressionNode | null;
+  errors: ExpressionError[];
+}
+
+// Known fields of the Rules language and their types
+const STRING_FIELDS = [
+  'http.cookie', 'http.host', 'http.referer', 'http.user_agent', 'http.x_forwarded_for',
+  'http.request.full_uri', 'http.request.method', 'http.request.uri', 'http.request.uri.path',
+  'http.request.uri.path.extension', 'http.request.uri.query', 'http.request.version',
+  'http.request.body.raw', 'http.request.body.mime', 'http.request.jwt.claims',
+  'ip.geoip.continent', 'ip.geoip.country', 'ip.geoip.subdivision_1_iso_code', 'ip.geoip.subdivision_2_iso_code',
+  'ip.src.continent', 'ip.src.country', 'ip.src.subdivision_1_iso_code', 'ip.src.subdivision_2_iso_code',
+  'ip.src.city', 'ip.src.region', 'ip.src.region_code', 'ip.src.postal_code', 'ip.src.metro_code',
+  'ip.src.timezone.name', 'ip.src.lat', 'ip.src.lon',
+  'cf.bot_management.ja3_hash', 'cf.bot_management.ja4', 'cf.hostname.metadata', 'cf.random_seed',
+  'cf.ray_id', 'cf.tls_cipher', 'cf.tls_version', 'cf.tls_client_auth.cert_issuer_dn',
+  'cf.tls_client_auth.cert_subject_dn', 'cf.tls_client_auth.cert_fingerprint_sha256',
+  'cf.verified_bot_category', 'cf.waf.credential_check.username_and_password_leaked_hash',
+  'cf.worker.upstream_zone', 'raw.http.request.full_uri', 'raw.http.request.uri',
+  'raw.http.request.uri.path', 'raw.http.request.uri.path.extension', 'raw.http.request.uri.query'
+];
+
+const INT_FIELDS = [
+  'ip.geoip.asnum', 'ip.src.asnum', 'http.request.timestamp.sec', 'http.request.timestamp.msec',
+  'http.request.body.size', 'cf.bot_management.score', 'cf.edge.server_port', 'cf.threat_score',
+  'cf.waf.score', 'cf.waf.score.sqli', 'cf.waf.score.xss', 'cf.waf.score.rce'
+];
+
+const BOOLEAN_FIELDS = [
+  'ssl', 'cf.client.bot', 'cf.bot_management.verified_bot', 'cf.bot_management.static_resource',
+  'cf.bot_management.corporate_proxy', 'cf.tls_client_auth.cert_verified', 'cf.tls_client_auth.cert_presented',
+  'cf.tls_client_auth.cert_revoked', 'cf.waf.credential_check.password_leaked',
+  'cf.waf.credential_check.username_and_password_leaked', 'http.request.body.truncated',
+  'http.request.headers.truncated', 'ip.geoip.is_in_european_union', 'ip.src.is_in_european_union'
+];
+
+const FIELD_TYPES: Record<string, FieldType> = {
+  ...Object.fromEntries(STRING_FIELDS.map(field => [field, 'String' as const])),
+  ...Object.fromEntries(INT_FIELDS.map(field => [field, 'Int' as const])),
+  ...Object.fromEntries(BOOLEAN_FIELDS.map(field => [field, 'Boolean' as const])),
+  'ip.src': 'IP',
+  'cf.edge.server_ip': 'IP',
+  'http.request.accepted_languages': 'Array<String>',
+  'http.request.headers': 'Map<Array<String>>',
+  'http.request.headers.names': 'Array<String>',
+  'http.request.headers.values': 'Array<String>',
+  'http.request.cookies': 'Map<Array<String>>',
+  'http.request.uri.args': 'Map<Array<String>>',
+  'http.request.uri.args.names': 'Array<String>',
+  'http.request.uri.args.values': 'Array<String>',
+  'raw.http.request.uri.args': 'Map<Array<String>>',
+  'raw.http.request.uri.args.names': 'Array<String>',
+  'raw.http.request.uri.args.values': 'Array<String>',
+  'http.request.body.form': 'Map<Array<String>>',
+  'http.request.body.form.names': 'Array<String>',
+  'http.request.body.form.values': 'Array<String>',
+  'http.request.body.multipart.names': 'Array<String>',
+  'http.request.body.multipart.values': 'Array<String>',
+  'cf.bot_management.detection_ids': 'Array<Int>',
+  'cf.tls_client_auth.cert_issuer_dn_legacy': 'String'
+};
+
+type ArgType = FieldType | 'Any';
+
+interface FunctionSpec {
+  params: ArgType[][];   // Accepted types of every positional parameter
+  optional?: number;     // Number of trailing parameters that may be omitted
+  variadic?: ArgType[];  // Type of any extra argument
+  returns: FieldType;
+  reducesArray?: boolean; // any()/all(): takes a [*] comparison and returns a single Boolean
+}
+
+const FUNCTIONS: Record<string, FunctionSpec> = {
+  any: { params: [['Array<Boolean>']], returns: 'Boolean', reducesArray: true },
+  all: { params: [['Array<Boolean>']], returns: 'Boolean', reducesArray: true },
+  lower: { params: [['String', 'Bytes']], returns: 'String' },
+  upper: { params: [['String', 'Bytes']], returns: 'String' },
+  len: { params: [['String', 'Bytes', 'Array<String>', 'Array<Int>', 'Array<Boolean>']], returns: 'Int' },
+  starts_with: { params: [['String', 'Bytes'], ['String']], returns: 'Boolean' },
+  ends_with: { params: [['String', 'Bytes'], ['String']], returns: 'Boolean' },
+  concat: { params: [['Any'], ['Any']], variadic: ['Any'], returns: 'String' },
+  substring: { params: [['String', 'Bytes'], ['Int'], ['Int']], optional: 1, returns: 'String' },
+  url_decode: { params: [['String'], ['String']], optional: 1, returns: 'String' },
+  remove_bytes: { params: [['String', 'Bytes'], ['String']], returns: 'String' },
+  regex_replace: { params: [['String'], ['String'], ['String']], returns: 'String' },
+  wildcard_replace: { params: [['String', 'Bytes'], ['String'], ['String'], ['String']], optional: 1, returns: 'String' },
+  to_string: { params: [['Int', 'Boolean', 'IP']], returns: 'String' },
+  encode_base64: { params: [['String', 'Bytes'], ['String']], optional: 1, returns: 'String' },
+  decode_base64: { params: [['String']], returns: 'String' },
+  lookup_json_string: { params: [['String', 'Bytes'], ['String', 'Int']], variadic: ['String', 'Int'], returns: 'String' },
+  lookup_json_integer: { params: [['String', 'Bytes'], ['String', 'Int']], variadic: ['String', 'Int'], returns: 'Int' },
+  cidr: { params: [['IP'], ['Int'], ['Int']], returns: 'IP' },
+  cidr6: { params: [['IP'], ['Int']], returns: 'IP' },
+  uuidv4: { params: [['Bytes', 'String']], returns: 'String' },
+  is_timed_hmac_valid_v0: { params: [['String'], ['String'], ['Int'], ['Int']], variadic: ['Int'], returns: 'Boolean' }
+};
+
+// Operators accepted by each scalar type
+const OPERATORS_BY_TYPE: Record<string, ComparisonOperator[]> = {
+  String: ['eq', 'ne', 'lt', 'le', 'gt', 'ge', 'contains', 'matches', 'wildcard', 'strict wildcard', 'in'],
+  Bytes: ['eq', 'ne', 'lt', 'le', 'gt', 'ge', 'contains', 'matches', 'wildcard', 'strict wildcard', 'in'],
+  Int: ['eq', 'ne', 'lt', 'le', 'gt', 'ge', 'in'],
+  IP: ['eq', 'ne', 'in'],
+  Boolean: ['eq', 'ne']
+};
+
+const SYMBOL_OPERATORS: Record<string, ComparisonOperator> = {
+  '==': 'eq', '!=': 'ne', '<': 'lt', '<=': 'le', '>': 'gt', '>=': 'ge', '~': 'matches'
+};
+
+const WORD_OPERATORS = new Set(['eq', 'ne', 'lt', 'le', 'gt', 'ge', 'contains', 'matches', 'wildcard', 'strict', 'in']);
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type TokenType = 'ident' | 'string' | 'int' | 'ip' | 'list' | 'punct' | 'op' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+class ExpressionSyntaxError extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message);
+    this.name = 'ExpressionSyntaxError';
+  }
+}
+
+const IPV4_PATTERN = /^\d{1,3}(?:\.\d{1,3}){3}(?:\/\d{1,2})?/;
+const IPV6_PATTERN = /^(?:[0-9a-fA-F]{0,4}:){2,7}[0-9a-fA-F.]*(?:\/\d{1,3})?/;
+const IDENT_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_.]*/;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    const rest = source.slice(pos);
+
+    // Raw strings: r"..." or r#"..."# (no escapes)
+    const rawMatch = rest.match(/^r(#*)"/);
+    if (rawMatch) {
+      const hashes = rawMatch[1];
+      const terminator = `"${hashes}`;
+      const contentStart = pos + rawMatch[0].length;
+      const close = source.indexOf(terminator, contentStart);
+      if (close === -1) {
+        throw new ExpressionSyntaxError('Unterminated raw string', pos, source.length);
+      }
+      tokens.push({ type: 'string', value: source.slice(contentStart, close), start: pos, end: close + terminator.length });
+      pos = close + terminator.length;
+      continue;
+    }
+
+    if (char === '"') {
+      let value = '';
+      let i = pos + 1;
+      let closed = false;
+      while (i < source.length) {
+        if (source[i] === '\\') {
+          if (i + 1 >= source.length) break;
+          value += source[i + 1];
+          i += 2;
+          continue;
+        }
+        if (source[i] === '"') {
+          closed = true;
+          break;
+        }
+        value += source[i];
+        i++;
+      }
+      if (!closed) {
+        throw new ExpressionSyntaxError('Unterminated string', pos, source.length);
+      }
+      tokens.push({ type: 'string', value, start: pos, end: i + 1 });
+      pos = i + 1;
+      continue;
+    }
+
+    if (char === "'") {
+      throw new ExpressionSyntaxError('Strings must use double quotes', pos, pos + 1);
+    }
+
+    if (char === '$') {
+      const match = rest.match(/^\$[a-zA-Z0-9_.]+/);
+      if (!match) {
+        throw new ExpressionSyntaxError('Expected a list name after "$"', pos, pos + 1);
+      }
+      tokens.push({ type: 'list', value: match[0].slice(1), start: pos, end: pos + match[0].length });
+      pos += match[0].length;
+      continue;
+    }
+
+    const ipv6 = rest.match(IPV6_PATTERN);
+    if (ipv6) {
+      tokens.push({ type: 'ip', value: ipv6[0], start: pos, end: pos + ipv6[0].length });
+      pos += ipv6[0].length;
+      continue;
+    }
+
+    const ipv4 = rest.match(IPV4_PATTERN);
+    if (ipv4) {
+      tokens.push({ type: 'ip', value: ipv4[0], start: pos, end: pos + ipv4[0].length });
+      pos += ipv4[0].length;
+      continue;
+    }
+
+    const number = rest.match(/^-?\d+/);
+    if (number) {
+      tokens.push({ type: 'int', value: number[0], start: pos, end: pos + number[0].length });
+      pos += number[0].length;
+      continue;
+    }
+
+    const ident = rest.match(IDENT_PATTERN);
+    if (ident) {
+      tokens.push({ type: 'ident', value: ident[0], start: pos, end: pos + ident[0].length });
+      pos += ident[0].length;
+      continue;
+    }
+
+    const operator = rest.match(/^(?:==|!=|<=|>=|&&|\|\||\^\^|\.\.|[<>~!])/);
+    if (operator) {
+      tokens.push({ type: 'op', value: operator[0], start: pos, end: pos + operator[0].length });
+      pos += operator[0].length;
+      continue;
+    }
+
+    if ('(){}[],*'.includes(char)) {
+      tokens.push({ type: 'punct', value: char, start: pos, end: pos + 1 });
+      pos++;
+      continue;
+    }
+
+    throw new ExpressionSyntaxError(`Unexpected character "${char}"`, pos, pos + 1);
+  }
+
+  tokens.push({ type: 'eof', value: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const expression = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw new ExpressionSyntaxError(`Unexpected "${token.value}", expected "and", "or" or end of expression`, token.start, token.end);
+    }
+    return expression;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.pos++;
+    return token;
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punct' && token.value === value;
+  }
+
+  private expectPunct(value: string, context: string): Token {
+    const token = this.peek();
+    if (token.type !== 'punct' || token.value !== value) {
+      throw new ExpressionSyntaxError(
+        `Expected "${value}" ${context}${token.type === 'eof' ? ' before end of expression' : `, found "${token.value}"`}`,
+        token.start,
+        Math.max(token.end, token.start + 1)
+      );
+    }
+    return this.next();
+  }
+
+  private matchLogical(word: string, symbol: string): boolean {
+    const token = this.peek();
+    return (token.type === 'ident' && token.value === word) || (token.type === 'op' && token.value === symbol);
+  }
+
+  private parseLogical(operator: LogicalOperator, symbol: string, parseOperand: () => ExpressionNode): ExpressionNode {
+    let left = parseOperand();
+    while (this.matchLogical(operator, symbol)) {
+      this.next();
+      const right = parseOperand();
+      left = { kind: 'logical', operator, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  // Precedence (lowest first): or, xor, and, not
+  private parseOr(): ExpressionNode {
+    return this.parseLogical('or', '||', () => this.parseXor());
+  }
+
+  private parseXor(): ExpressionNode {
+    return this.parseLogical('xor', '^^', () => this.parseAnd());
+  }
+
+  private parseAnd(): ExpressionNode {
+    return this.parseLogical('and', '&&', () => this.parseUnary());
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.matchLogical('not', '!')) {
+      const token = this.next();
+      const operand = this.parseUnary();
+      return { kind: 'not', operand, start: token.start, end: operand.end };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const token = this.peek();
+
+    if (this.isPunct('(')) {
+      this.next();
+      const expression = this.parseOr();
+      const close = this.expectPunct(')', 'to close the group');
+      return { kind: 'group', expression, start: token.start, end: close.end };
+    }
+
+    if (token.type !== 'ident' || ['and', 'or', 'xor', 'not'].includes(token.value)) {
+      throw new ExpressionSyntaxError(
+        token.type === 'eof' ? 'Expected a field or condition before end of expression' : `Expected a field or condition, found "${token.value}"`,
+        token.start,
+        Math.max(token.end, token.start + 1)
+      );
+    }
+
+    const left = this.parseValue();
+    const operator = this.parseOperator();
+    if (!operator) {
+      return left;
+    }
+
+    const right = operator === 'in' ? this.parseSetOrList() : this.parseLiteral();
+    return { kind: 'comparison', operator, left, right, start: left.start, end: right.end };
+  }
+
+  private parseOperator(): ComparisonOperator | null {
+    const token = this.peek();
+
+    if (token.type === 'op' && SYMBOL_OPERATORS[token.value]) {
+      this.next();
+      return SYMBOL_OPERATORS[token.value];
+    }
+
+    if (token.type === 'ident' && WORD_OPERATORS.has(token.value)) {
+      this.next();
+      if (token.value === 'strict') {
+        const wildcard = this.next();
+        if (wildcard.type !== 'ident' || wildcard.value !== 'wildcard') {
+          throw new ExpressionSyntaxError('Expected "wildcard" after "strict"', wildcard.start, Math.max(wildcard.end, wildcard.start + 1));
+        }
+        return 'strict wildcard';
+      }
+      return token.value as ComparisonOperator;
+    }
+
+    return null;
+  }
+
+  private parseIndexes(): IndexNode[] {
+    const indexes: IndexNode[] = [];
+
+    while (this.isPunct('[')) {
+      const open = this.next();
+      const keyToken = this.next();
+      let key: IndexNode['key'];
+
+      if (keyToken.type === 'string') {
+        key = keyToken.value;
+      } else if (keyToken.type === 'int') {
+        key = parseInt(keyToken.value, 10);
+      } else if (keyToken.type === 'punct' && keyToken.value === '*') {
+        key = '*';
+      } else {
+        throw new ExpressionSyntaxError('Index must be a string, a number or *', keyToken.start, Math.max(keyToken.end, keyToken.start + 1));
+      }
+
+      const close = this.expectPunct(']', 'to close the index');
+      indexes.push({ key, start: open.start, end: close.end });
+    }
+
+    return indexes;
+  }
+
+  private parseValue(): ValueNode {
+    const token = this.next();
+
+    if (this.isPunct('(')) {
+      this.next();
+      const args: Array<ExpressionNode | LiteralNode> = [];
+
+      if (!this.isPunct(')')) {
+        do {
+          const argToken = this.peek();
+          const startsCondition = argToken.type === 'ident' ||
+            (argToken.type === 'punct' && argToken.value === '(') ||
+            (argToken.type === 'op' && argToken.value === '!');
+          args.push(startsCondition ? this.parseOr() : this.parseLiteral());
+        } while (this.isPunct(',') && this.next());
+      }
+
+      const close = this.expectPunct(')', `to close the call to ${token.value}()`);
+      const indexes = this.parseIndexes();
+      return {
+        kind: 'function',
+        name: token.value,
+        args,
+        indexes,
+        start: token.start,
+        end: indexes.length > 0 ? indexes[indexes.length - 1].end : close.end
+      };
+    }
+
+    const indexes = this.parseIndexes();
+    return {
+      kind: 'field',
+      name: token.value,
+      indexes,
+      start: token.start,
+      end: indexes.length > 0 ? indexes[indexes.length - 1].end : token.end
+    };
+  }
+
+  private parseLiteral(): LiteralNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'string':
+        return { kind: 'string', value: token.value, start: token.start, end: token.end };
+      case 'int':
+        return { kind: 'int', value: parseInt(token.value, 10), start: token.start, end: token.end };
+      case 'ip':
+        return { kind: 'ip', value: token.value, cidr: token.value.includes('/'), start: token.start, end: token.end };
+      case 'ident':
+        if (token.value === 'true' || token.value === 'false') {
+          return { kind: 'boolean', value: token.value === 'true', start: token.start, end: token.end };
+        }
+        break;
+    }
+
+    throw new ExpressionSyntaxError(
+      token.type === 'eof' ? 'Expected a value before end of expression' : `Expected a value, found "${token.value}"`,
+      token.start,
+      Math.max(token.end, token.start + 1)
+    );
+  }
+
+  private parseSetOrList(): SetNode | ListNode {
+    const token = this.peek();
+
+    if (token.type === 'list') {
+      this.next();
+      return { kind: 'list', name: token.value, start: token.start, end: token.end };
+    }
+
+    const open = this.expectPunct('{', 'or a $list after "in"');
+    const items: Array<LiteralNode | RangeNode> = [];
+
+    while (!this.isPunct('}')) {
+      if (this.peek().type === 'eof') {
+        throw new ExpressionSyntaxError('Unterminated set, expected "}"', open.start, open.end);
+      }
+
+      const item = this.parseLiteral();
+      const rangeToken = this.peek();
+      if (rangeToken.type === 'op' && rangeToken.value === '..') {
+        this.next();
+        const to = this.parseLiteral();
+        if ((item.kind !== 'int' && item.kind !== 'ip') || to.kind !== item.kind) {
+          throw new ExpressionSyntaxError('Ranges must be between two numbers or two IP addresses', item.start, to.end);
+        }
+        items.push({ kind: 'range', from: item, to: to as IntLiteralNode | IPLiteralNode, start: item.start, end: to.end });
+      } else {
+        items.push(item);
+      }
+
+      // Commas between set items are tolerated
+      if (this.isPunct(',')) this.next();
+    }
+
+    const close = this.next();
+    if (items.length === 0) {
+      throw new ExpressionSyntaxError('Set cannot be empty', open.start, close.end);
+    }
+    return { kind: 'set', items, start: open.start, end: close.end };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Type checker
+// ---------------------------------------------------------------------------
+
+interface ResolvedType {
+  type: FieldType;
+  unpacked: boolean; // true after [*]: the value is evaluated element by element
+}
+
+function elementType(type: FieldType): FieldType | null {
+  switch (type) {
+    case 'Array<String>': return 'String';
+    case 'Array<Int>': return 'Int';
+    case 'Array<Boolean>': return 'Boolean';
+    case 'Map<String>': return 'String';
+    case 'Map<Array<String>>': return 'Array<String>';
+    default: return null;
+  }
+}
+
+function isCollection(type: FieldType): boolean {
+  return type.startsWith('Array<') || type.startsWith('Map<');
+}
+
+class TypeChecker {
+  errors: Array<{ message: string; start: number; end: number }> = [];
+
+  private report(message: string, node: NodeBase) {
+    this.errors.push({ message, start: node.start, end: node.end });
+  }
+
+  checkCondition(node: ExpressionNode) {
+    const resolved = this.resolveCondition(node);
+    if (resolved?.unpacked) {
+      this.report('Conditions on [*] values return one result per element; wrap them in any() or all()', node);
+    }
+  }
+
+  private resolveCondition(node: ExpressionNode): ResolvedType | null {
+    switch (node.kind) {
+      case 'logical': {
+        const left = this.resolveOperand(node.left);
+        const right = this.resolveOperand(node.right);
+        return left && right ? { type: 'Boolean', unpacked: false } : null;
+      }
+      case 'not': {
+        const operand = this.resolveCondition(node.operand);
+        return operand ? { type: 'Boolean', unpacked: operand.unpacked } : null;
+      }
+      case 'group':
+        return this.resolveCondition(node.expression);
+      case 'comparison':
+        return this.checkComparison(node);
+      default: {
+        const resolved = this.resolveValue(node);
+        if (!resolved) return null;
+        if (resolved.type !== 'Boolean') {
+          this.report(`${describe(node)} is of type ${resolved.type} and cannot be used as a condition; add an operator such as eq or contains`, node);
+          return null;
+        }
+        return resolved;
+      }
+    }
+  }
+
+  // Operands of and/or/xor must be single Booleans
+  private resolveOperand(node: ExpressionNode): ResolvedType | null {
+    const resolved = this.resolveCondition(node);
+    if (resolved?.unpacked) {
+      this.report('Conditions on [*] values must be wrapped in any() or all() before combining them', node);
+      return null;
+    }
+    return resolved;
+  }
+
+  private checkComparison(node: ComparisonNode): ResolvedType | null {
+    const left = this.resolveValue(node.left);
+    if (!left) return null;
+
+    if (isCollection(left.type)) {
+      this.report(`${describe(node.left)} is of type ${left.type}; index it with [*], [0] or ["name"] before comparing`, node.left);
+      return null;
+    }
+
+    const allowed = OPERATORS_BY_TYPE[left.type] || [];
+    if (!allowed.includes(node.operator)) {
+      this.report(`Operator "${node.operator}" is not supported for ${left.type} values`, node);
+      return null;
+    }
+
+    if (node.right.kind === 'list') {
+      return { type: 'Boolean', unpacked: left.unpacked };
+    }
+
+    const items = node.right.kind === 'set' ? node.right.items : [node.right];
+    for (const item of items) {
+      this.checkLiteral(left.type, node.operator, item);
+    }
+
+    return { type: 'Boolean', unpacked: left.unpacked };
+  }
+
+  private checkLiteral(type: FieldType, operator: ComparisonOperator, literal: LiteralNode | RangeNode) {
+    const expected: Record<string, Array<(LiteralNode | RangeNode)['kind']>> = {
+      String: ['string'],
+      Bytes: ['string'],
+      Int: ['int', 'range'],
+      IP: operator === 'in' ? ['ip', 'range'] : ['ip'],
+      Boolean: ['boolean']
+    };
+
+    const kinds = expected[type] || [];
+    if (!kinds.includes(literal.kind)) {
+      const description = { Int: 'a number', IP: 'an IP address', Boolean: 'true or false' }[type as string] || 'a quoted string';
+      this.report(`${type} values must be compared with ${description}`, literal);
+      return;
+    }
+
+    if (literal.kind === 'ip' && literal.cidr && operator !== 'in') {
+      this.report('CIDR ranges can only be used with the "in" operator', literal);
+    }
+
+    if (literal.kind === 'ip' && literal.value.includes('.') && !literal.value.includes(':')) {
+      const octets = literal.value.split('/')[0].split('.').map(Number);
+      if (octets.some(octet => octet > 255)) {
+        this.report(`Invalid IPv4 address "${literal.value}"`, literal);
+      }
+    }
+
+    if (operator === 'matches' && literal.kind === 'string') {
+      const regexError = checkRegex(literal.value);
+      if (regexError) {
+        this.report(`Invalid regular expression: ${regexError}`, literal);
+      }
+    }
+  }
+
+  private resolveValue(node: ValueNode): ResolvedType | null {
+    let resolved: ResolvedType | null;
+
+    // A bare true/false is a valid condition, managed ruleset deployments use "true"
+    if (node.kind === 'field' && isBooleanKeyword(node)) {
+      return { type: 'Boolean', unpacked: false };
+    }
+
+    if (node.kind === 'field') {
+      const type = FIELD_TYPES[node.name];
+      if (!type) {
+        this.report(`Unknown field "${node.name}"`, { start: node.start, end: node.start + node.name.length });
+        return null;
+      }
+      resolved = { type, unpacked: false };
+    } else {
+      resolved = this.resolveFunction(node);
+      if (!resolved) return null;
+    }
+
+    for (const index of node.indexes) {
+      const element = elementType(resolved.type);
+      if (!element) {
+        this.report(`${resolved.type} values cannot be indexed`, index);
+        return null;
+      }
+      if (resolved.type.startsWith('Map<') && typeof index.key === 'number') {
+        this.report('Maps are indexed by name, e.g. ["user-agent"]', index);
+        return null;
+      }
+      if (resolved.type.startsWith('Array<') && typeof index.key === 'string' && index.key !== '*') {
+        this.report('Arrays are indexed by position, e.g. [0] or [*]', index);
+        return null;
+      }
+      if (index.key === '*' && resolved.unpacked) {
+        this.report('[*] can only be used once per value', index);
+        return null;
+      }
+      resolved = { type: element, unpacked: resolved.unpacked || index.key === '*' };
+    }
+
+    return resolved;
+  }
+
+  private resolveFunction(node: FunctionNode): ResolvedType | null {
+    const spec = FUNCTIONS[node.name];
+    if (!spec) {
+      this.report(`Unknown function "${node.name}()"`, { start: node.start, end: node.start + node.name.length });
+      return null;
+    }
+
+    const required = spec.params.length - (spec.optional || 0);
+    const maximum = spec.variadic ? Infinity : spec.params.length;
+    if (node.args.length < required || node.args.length > maximum) {
+      const expected = required === maximum ? `${required}` : maximum === Infinity ? `at least ${required}` : `${required} to ${maximum}`;
+      this.report(`${node.name}() expects ${expected} arguments, got ${node.args.length}`, node);
+      return null;
+    }
+
+    let unpacked = false;
+    let valid = true;
+
+    node.args.forEach((arg, index) => {
+      const accepted = index < spec.params.length ? spec.params[index] : spec.variadic!;
+      const argType = this.resolveArgument(arg, spec.reducesArray === true, node.name);
+      if (!argType) {
+        valid = false;
+        return;
+      }
+
+      if (spec.reducesArray) {
+        // any()/all() take a [*] comparison or an Array<Boolean>
+        if (!(argType.unpacked && argType.type === 'Boolean') && argType.type !== 'Array<Boolean>') {
+          this.report(`${node.name}() expects a comparison on [*] values, e.g. ${node.name}(http.request.headers.names[*] eq "x")`, arg);
+          valid = false;
+        }
+        return;
+      }
+
+      if (argType.unpacked) unpacked = true;
+      if (!accepted.includes('Any') && !accepted.includes(argType.type)) {
+        this.report(`Argument ${index + 1} of ${node.name}() must be ${accepted.join(' or ')}, got ${argType.type}`, arg);
+        valid = false;
+      }
+    });
+
+    if (!valid) return null;
+    return { type: spec.returns, unpacked: spec.reducesArray ? false : unpacked };
+  }
+
+  private resolveArgument(arg: ExpressionNode | LiteralNode, allowCondition: boolean, functionName: string): ResolvedType | null {
+    switch (arg.kind) {
+      case 'string': return { type: 'String', unpacked: false };
+      case 'int': return { type: 'Int', unpacked: false };
+      case 'ip': return { type: 'IP', unpacked: false };
+      case 'boolean': return { type: 'Boolean', unpacked: false };
+      case 'field':
+      case 'function':
+        return allowCondition ? this.resolveCondition(arg) : this.resolveValue(arg);
+      default:
+        if (allowCondition) {
+          return this.resolveCondition(arg);
+        }
+        this.report(`${functionName}() does not accept a condition as argument`, arg);
+        return null;
+    }
+  }
+}
+
+/**
+ * Compile a regex accepted by Cloudflare (Rust syntax) with the JavaScript engine
+ * A leading (?i) or (?s) becomes a RegExp flag; other inline flag groups are Rust-only and removed
+ * Throws when the pattern is not valid
+ */
+export function toJavaScriptRegExp(pattern: string): RegExp {
+  const leadingFlags = pattern.match(/^\(\?([imsxU]+)\)/)?.[1] || '';
+  const normalized = pattern
+    .replace(/^\(\?[imsxU]+\)/, '')
+    .replace(/\(\?[imsxU]+:/g, '(?:')
+    .replace(/\(\?P</g, '(?<');
+  return new RegExp(normalized, [...leadingFlags].filter(flag => flag === 'i' || flag === 's').join(''));
+}
+
+/**
+ * Validate a regex with the JavaScript engine, returning the reason when it is not valid
+ */
+function checkRegex(pattern: string): string | null {
+  try {
+    toJavaScriptRegExp(pattern);
+    return null;
+  } catch (error) {
+    // "Invalid regular expression: /pattern/: reason" -> "reason"
+    return error instanceof Error ? error.message.split(': ').pop() || error.message : 'invalid pattern';
+  }
+}
+
+function describe(node: ValueNode): string {
+  return node.kind === 'field' ? `Field "${node.name}"` : `${node.name}()`;
+}
+
+function toPosition(source: string, offset: number): { line: number; column: number } {
+  const before = source.slice(0, offset);
+  const lines = before.split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+function withPosition(source: string, error: { message: string; start: number; end: number }): ExpressionError {
+  return { message: error.message, start: error.start, end: error.end, ...toPosition(source, error.start) };
+}
+
+/**
+ * Parse an expression into an AST
+ * Stops at the first syntax error
+ */
+export function parseExpression(source: string): { ast: ExpressionNode | null; errors: ExpressionError[] } {
+  if (!source.trim()) {
+    return { ast: null, errors: [withPosition(source, { message: 'Expression is empty', start: 0, end: 0 })] };
+  }
+
+  try {
+    const ast = new Parser(tokenize(source)).parse();
+    return { ast, errors: [] };
+  } catch (error) {
+    if (error instanceof ExpressionSyntaxError) {
+      return { ast: null, errors: [withPosition(source, error)] };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse an expression and check field names, operators, literal types and function calls
+ */
+export function validateExpression(source: string): ExpressionValidationResult {
+  const { ast, errors } = parseExpression(source);
+  if (!ast) {
+    return { valid: false, ast, errors };
+  }
+
+  const checker = new TypeChecker();
+  checker.checkCondition(ast);
+  const typeErrors = checker.errors
+    .sort((a, b) => a.start - b.start)
+    .map(error => withPosition(source, error));
+
+  return { valid: typeErrors.length === 0, ast, errors: typeErrors };
+}
+
+/**
+ * Known field names, for autocompletion and documentation
+ */
+export function getKnownFields(): Array<{ name: string; type: FieldType }> {
+  return Object.entries(FIELD_TYPES)
+    .map(([name, type]) => ({ name, type }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Whether a field node is the keyword true or false used as a whole condition
+ */
+export function isBooleanKeyword(node: FieldNode): boolean {
+  return (node.name === 'true' || node.name === 'false') && node.indexes.length === 0;
+}
+
+const LITERAL_KINDS: string[] = ['string', 'int', 'ip', 'boolean'];
+
+/**
+ * Names of the $lists an expression references (without the $), in order of appearance
+ * Expressions that do not parse reference no lists
+ */
+export function getReferencedLists(source: string): string[] {
+  const { ast } = source.trim() ? parseExpression(source) : { ast: null };
+  const names = new Set<string>();
+
+  const visit = (node: ExpressionNode) => {
+    switch (node.kind) {
+      case 'logical':
+        visit(node.left);
+        visit(node.right);
+        break;
+      case 'not':
+        visit(node.operand);
+        break;
+      case 'group':
+        visit(node.expression);
+        break;
+      case 'comparison':
+        visit(node.left);
+        if (node.right.kind === 'list') {
+          names.add(node.right.name);
+        }
+        break;
+      case 'function':
+        // any() and all() take a condition that may use lists too
+        for (const arg of node.args) {
+          if (!LITERAL_KINDS.includes(arg.kind)) visit(arg as ExpressionNode);
+        }
+        break;
+    }
+  };
+
+  if (ast) visit(ast);
+  return [...names];
+}
@@ -1,4 +1,5 @@
-import { safeReadJsonFile, safeWriteJsonFile } from './fileSystem';
+import { safeReadJsonFile } from './fileSystem';
+import { getStorage } from './storage';
 
 const RULE_MAPPING_FILE = 'rule-id-mapping.json';
 
@@ -33,15 +34,11 @@ async function loadRuleMappingCache(): Promise<RuleMappingCache> {
   }
 }
 
-async function saveRuleMappingCache(cache: RuleMappingCache): Promise<void> {
-  cache.lastUpdated = new Date().toISOString();
-  await safeWriteJsonFile(RULE_MAPPING_FILE, cache);
-
-  // Update in-memory cache
-  ruleMappingCache = new Map(
-    cache.mappings.map(mapping => [mapping.cloudflareRuleId, mapping])
-  );
-  cacheLastLoaded = Date.now();
+// Keeps the in-memory cache in sync with a row-level change instead of reloading every mapping
+function applyToMemoryCache(change: (cache: Map<string, TemplateRuleMapping>) => void): void {
+  if (ruleMappingCache) {
+    change(ruleMappingCache);
+  }
 }
 
 async function ensureCacheLoaded(): Promise<void> {
@@ -61,24 +58,16 @@ async function ensureCacheLoaded(): Promise<void> {
 export async function addRuleMapping(mapping: TemplateRuleMapping): Promise<void> {
   console.log(`[RuleMapping] Adding mapping for rule ${mapping.cloudflareRuleId} → template ${mapping.friendlyId}`);
 
-  const cache = await loadRuleMappingCache();
-
-  // Remove any existing mapping for this cloudflare rule ID
-  cache.mappings = cache.mappings.filter(m => m.cloudflareRuleId !== mapping.cloudflareRuleId);
-
-  // Add the new mapping
-  cache.mappings.push(mapping);
-
-  await saveRuleMappingCache(cache);
+  // Replaces any existing mapping for this cloudflare rule ID
+  await (await getStorage()).ruleMappings.upsert([mapping]);
+  applyToMemoryCache(cache => cache.set(mapping.cloudflareRuleId, mapping));
 }
 
 export async function removeRuleMapping(cloudflareRuleId: string): Promise<void> {
   console.log(`[RuleMapping] Removing mapping for rule ${cloudflareRuleId}`);
 
-  const cache = await loadRuleMappingCache();
-  cache.mappings = cache.mappings.filter(m => m.cloudflareRuleId !== cloudflareRuleId);
-
-  await saveRuleMappingCache(cache);
+  await (await getStorage()).ruleMappings.remove([cloudflareRuleId]);
+  applyToMemoryCache(cache => cache.delete(cloudflareRuleId));
 }
 
 export async function getRuleMapping(cloudflareRuleId: string): Promise<TemplateRuleMapping | null> {
@@ -228,6 +217,7 @@ export async function markOtherDomainsAsOutdated(
     console.log(`[RuleMapping] Found ${affectedMappings.length} domains using template ${templateId}`);
 
     const propagatedDomains: string[] = [];
+    const updatedMappings: TemplateRuleMapping[] = [];
 
     // Update each affected mapping to mark as outdated
     for (const mapping of affectedMappings) {
@@ -240,12 +230,14 @@ export async function markOtherDomainsAsOutdated(
         mapping.appliedAt = new Date().toISOString(); // Update timestamp for tracking
 
         propagatedDomains.push(mapping.domainName);
+        updatedMappings.push(mapping);
       }
     }
 
-    // Save updated cache
+    // Save updated mappings
     if (propagatedDomains.length > 0) {
-      await saveRuleMappingCache(cache);
+      await (await getStorage()).ruleMappings.upsert(updatedMappings);
+      applyToMemoryCache(memory => updatedMappings.forEach(mapping => memory.set(mapping.cloudflareRuleId, mapping)));
 
       // Also invalidate domains cache to force refresh
       try {
@@ -274,14 +266,15 @@ export async function invalidateTemplateMappings(templateId: string): Promise<nu
 
   try {
     const cache = await loadRuleMappingCache();
-    const initialCount = cache.mappings.length;
+    const removedIds = cache.mappings
+      .filter(mapping => mapping.templateId === templateId)
+      .map(mapping => mapping.cloudflareRuleId);
 
-    cache.mappings = cache.mappings.filter(mapping => mapping.templateId !== templateId);
-
-    const removedCount = initialCount - cache.mappings.length;
+    const removedCount = removedIds.length;
 
     if (removedCount > 0) {
-      await saveRuleMappingCache(cache);
+      await (await getStorage()).ruleMappings.remove(removedIds);
+      applyToMemoryCache(memory => removedIds.forEach(id => memory.delete(id)));
       console.log(`[RuleMapping] ✅ Removed ${removedCount} mappings for template ${templateId}`);
     }
 
@@ -385,6 +378,8 @@ export async function batchUpdateRuleMappings(
   cache.mappings = cache.mappings.filter(mapping => !existingIds.has(mapping.cloudflareRuleId));
   cache.mappings.push(...newMappings);
 
+  const changedMappings = new Map(newMappings.map(mapping => [mapping.cloudflareRuleId, mapping]));
+
   // Handle template propagation - mark other domains as outdated
   for (const update of templateUpdates) {
     const affectedMappings = cache.mappings.filter(mapping =>
@@ -402,12 +397,21 @@ export async function batchUpdateRuleMappings(
         // Update timestamp for tracking (version comparison will detect as outdated)
         mapping.appliedAt = new Date().toISOString();
         propagatedDomains.push(mapping.domainName);
+        changedMappings.set(mapping.cloudflareRuleId, mapping);
       }
     }
   }
 
-  // Save updated cache
-  await saveRuleMappingCache(cache);
+  // Save only the mappings that changed
+  const storage = await getStorage();
+  if (removedRuleIds.length > 0) {
+    await storage.ruleMappings.remove(removedRuleIds);
+  }
+  await storage.ruleMappings.upsert(Array.from(changedMappings.values()));
+  applyToMemoryCache(memory => {
+    removedRuleIds.forEach(id => memory.delete(id));
+    changedMappings.forEach((mapping, id) => memory.set(id, mapping));
+  });
 
   // Invalidate domains cache if there were propagations
   if (propagatedDomains.length > 0) {
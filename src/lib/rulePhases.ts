@@ -0,0 +1,428 @@
+/**
+ * Ruleset phases that rule templates can be deployed to, and conversion of the
+ * phase specific parameters (rate limiting, redirects, URL rewrites, managed rulesets)
+ * between the template format and the Cloudflare API
+ */
+import {
+  CloudflareRateLimit,
+  CloudflareRule,
+  ManagedRulesetConfig,
+  RateLimitConfig,
+  RedirectConfig,
+  RedirectStatusCode,
+  RuleTemplate,
+  RulePhase,
+  UrlRewriteConfig
+} from '@/types/cloudflare';
+import {
+  CLOUDFLARE_MANAGED_RULESET_ID,
+  formatManagedRuleset,
+  fromManagedRulesetActionParameters,
+  toManagedRulesetActionParameters
+} from './managedRulesets';
+
+export const DEFAULT_RULE_PHASE: RulePhase = 'http_request_firewall_custom';
+
+// Phases whose rulesets are scanned for template rules
+export const TEMPLATE_RULE_PHASES: RulePhase[] = [
+  'http_request_firewall_custom',
+  'http_ratelimit',
+  'http_request_dynamic_redirect',
+  'http_request_transform',
+  'http_request_firewall_managed'
+];
+
+export const RULE_PHASE_LABELS: Record<RulePhase, string> = {
+  http_request_firewall_custom: 'Regla personalizada (WAF)',
+  http_ratelimit: 'Rate limiting',
+  http_request_dynamic_redirect: 'Redirección',
+  http_request_transform: 'Reescritura de URL',
+  http_request_firewall_managed: 'WAF gestionado'
+};
+
+// Rule type shown in the domain rule pills
+export const PHASE_RULE_TYPES: Record<RulePhase, string> = {
+  http_request_firewall_custom: 'firewall_custom',
+  http_ratelimit: 'rate_limiting',
+  http_request_dynamic_redirect: 'redirect',
+  http_request_transform: 'url_rewrite',
+  http_request_firewall_managed: 'managed_ruleset'
+};
+
+// Actions each phase accepts, the first one is the default
+export const PHASE_ACTIONS: Record<RulePhase, RuleTemplate['action'][]> = {
+  http_request_firewall_custom: ['block', 'challenge', 'managed_challenge', 'allow', 'log', 'skip'],
+  http_ratelimit: ['block', 'challenge', 'managed_challenge', 'log'],
+  http_request_dynamic_redirect: ['redirect'],
+  http_request_transform: ['rewrite'],
+  http_request_firewall_managed: ['execute']
+};
+
+// Actions offered by the template forms, skip needs parameters the forms don't collect
+export const RULE_ACTION_LABELS: Partial<Record<RuleTemplate['action'], string>> = {
+  block: 'Block',
+  challenge: 'Challenge',
+  managed_challenge: 'Managed Challenge',
+  allow: 'Allow',
+  log: 'Log',
+  redirect: 'Redirect',
+  rewrite: 'Rewrite',
+  execute: 'Execute'
+};
+
+export function getFormActions(phase: RulePhase): RuleTemplate['action'][] {
+  return PHASE_ACTIONS[phase].filter(action => RULE_ACTION_LABELS[action]);
+}
+
+// Template field holding the parameters of each phase
+export const PHASE_CONFIG_FIELDS: Partial<Record<RulePhase, keyof PhaseConfig>> = {
+  http_ratelimit: 'ratelimit',
+  http_request_dynamic_redirect: 'redirect',
+  http_request_transform: 'rewrite',
+  http_request_firewall_managed: 'managedRuleset'
+};
+
+// Values accepted by Cloudflare for rate limiting rules
+export const RATE_LIMIT_PERIODS = [10, 60, 120, 300, 600, 3600];
+export const RATE_LIMIT_MITIGATION_TIMEOUTS = [0, 10, 60, 120, 300, 600, 3600, 86400];
+
+// Cloudflare counts per data center, so every rate limiting rule has to include it
+export const REQUIRED_RATE_LIMIT_CHARACTERISTIC = 'cf.colo.id';
+
+export const REDIRECT_STATUS_CODES: RedirectStatusCode[] = [301, 302, 303, 307, 308];
+
+export const DEFAULT_RATE_LIMIT: RateLimitConfig = {
+  characteristics: [REQUIRED_RATE_LIMIT_CHARACTERISTIC, 'ip.src'],
+  period: 60,
+  requestsPerPeriod: 100,
+  mitigationTimeout: 600
+};
+
+export const DEFAULT_REDIRECT: RedirectConfig = {
+  targetUrl: '',
+  statusCode: 301,
+  preserveQueryString: true
+};
+
+export const DEFAULT_REWRITE: UrlRewriteConfig = {};
+
+export const DEFAULT_MANAGED_RULESET: ManagedRulesetConfig = {
+  rulesetId: CLOUDFLARE_MANAGED_RULESET_ID,
+  disabledRules: []
+};
+
+export type PhaseConfig = Pick<RuleTemplate, 'ratelimit' | 'redirect' | 'rewrite' | 'managedRuleset'>;
+
+export function isTemplateRulePhase(phase: string): phase is RulePhase {
+  return (TEMPLATE_RULE_PHASES as string[]).includes(phase);
+}
+
+/**
+ * Zone rulesets that can hold template rules: the entry points of the template phases
+ * Managed rulesets (kind "managed") share the managed phase but are Cloudflare's own rules
+ */
+export function isTemplateRuleset(ruleset: { phase: string; kind: string }): boolean {
+  return isTemplateRulePhase(ruleset.phase) && ruleset.kind !== 'managed';
+}
+
+/**
+ * Phase of a template or a Cloudflare rule, rules without one are custom firewall rules
+ */
+export function getRulePhase(item: { phase?: string }): RulePhase {
+  return item.phase && isTemplateRulePhase(item.phase) ? item.phase : DEFAULT_RULE_PHASE;
+}
+
+/**
+ * Default parameters for a template switched to another phase
+ */
+export function getDefaultPhaseConfig(phase: RulePhase): PhaseConfig {
+  switch (phase) {
+    case 'http_ratelimit':
+      return { ratelimit: DEFAULT_RATE_LIMIT };
+    case 'http_request_dynamic_redirect':
+      return { redirect: DEFAULT_REDIRECT };
+    case 'http_request_transform':
+      return { rewrite: DEFAULT_REWRITE };
+    case 'http_request_firewall_managed':
+      return { managedRuleset: DEFAULT_MANAGED_RULESET };
+    default:
+      return {};
+  }
+}
+
+// Wirefilter string literal
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function unquote(literal: string): string {
+  return literal.replace(/\\(.)/g, '$1');
+}
+
+function parseWildcardReplace(expression: string, field: string): { pattern: string; replacement: string } | null {
+  const escapedField = field.replace(/\./g, '\\.');
+  const match = expression.trim().match(
+    new RegExp(`^wildcard_replace\\(\\s*${escapedField}\\s*,\\s*"((?:[^"\\\\]|\\\\.)*)"\\s*,\\s*"((?:[^"\\\\]|\\\\.)*)"\\s*\\)$`)
+  );
+  return match ? { pattern: unquote(match[1]), replacement: unquote(match[2]) } : null;
+}
+
+/**
+ * Rule expression matching a source URL pattern, e.g. "http://*.example.com/legacy/*"
+ */
+export function buildRedirectSourceExpression(pattern: string): string {
+  return `http.request.full_uri wildcard ${quote(pattern)}`;
+}
+
+/**
+ * Rule expression matching a source path pattern, e.g. "/blog/*"
+ */
+export function buildRewriteSourceExpression(pattern: string): string {
+  return `http.request.uri.path wildcard ${quote(pattern)}`;
+}
+
+/**
+ * Highest ${n} reference in a target, to check it against the wildcards of the source pattern
+ */
+export function getHighestWildcardReference(target: string): number {
+  return Math.max(0, ...Array.from(target.matchAll(/\$\{(\d+)\}/g), match => Number(match[1])));
+}
+
+export function toCloudflareRateLimit(config: RateLimitConfig): CloudflareRateLimit {
+  return {
+    characteristics: config.characteristics,
+    period: config.period,
+    requests_per_period: config.requestsPerPeriod,
+    mitigation_timeout: config.mitigationTimeout,
+    ...(config.countingExpression ? { counting_expression: config.countingExpression } : {}),
+    ...(config.requestsToOrigin ? { requests_to_origin: true } : {})
+  };
+}
+
+export function fromCloudflareRateLimit(ratelimit: CloudflareRateLimit): RateLimitConfig {
+  return {
+    characteristics: ratelimit.characteristics || [],
+    period: ratelimit.period,
+    requestsPerPeriod: ratelimit.requests_per_period ?? 0,
+    mitigationTimeout: ratelimit.mitigation_timeout ?? 0,
+    ...(ratelimit.counting_expression ? { countingExpression: ratelimit.counting_expression } : {}),
+    ...(ratelimit.requests_to_origin ? { requestsToOrigin: true } : {})
+  };
+}
+
+// With a source pattern the target is always sent as wildcard_replace() so the pattern survives a sync
+export function toRedirectActionParameters(config: RedirectConfig) {
+  const targetUrl = config.sourceUrlPattern
+    ? { expression: `wildcard_replace(http.request.full_uri, ${quote(config.sourceUrlPattern)}, ${quote(config.targetUrl)})` }
+    : config.targetExpression
+      ? { expression: config.targetExpression }
+      : { value: config.targetUrl };
+
+  return {
+    from_value: {
+      status_code: config.statusCode,
+      target_url: targetUrl,
+      preserve_query_string: config.preserveQueryString
+    }
+  };
+}
+
+export function fromRedirectActionParameters(parameters: any): RedirectConfig {
+  const fromValue = parameters?.from_value || {};
+  const target = fromValue.target_url || {};
+  const config: RedirectConfig = {
+    targetUrl: target.value || '',
+    statusCode: fromValue.status_code || 301,
+    preserveQueryString: Boolean(fromValue.preserve_query_string)
+  };
+
+  if (target.expression) {
+    const wildcard = parseWildcardReplace(target.expression, 'http.request.full_uri');
+    if (wildcard) {
+      config.sourceUrlPattern = wildcard.pattern;
+      config.targetUrl = wildcard.replacement;
+    } else {
+      config.targetExpression = target.expression;
+    }
+  }
+  return config;
+}
+
+export function toRewriteActionParameters(config: UrlRewriteConfig) {
+  const path = config.sourcePathPattern && config.targetPath
+    ? { expression: `wildcard_replace(http.request.uri.path, ${quote(config.sourcePathPattern)}, ${quote(config.targetPath)})` }
+    : config.targetPathExpression
+      ? { expression: config.targetPathExpression }
+      : config.targetPath
+        ? { value: config.targetPath }
+        : undefined;
+  const query = config.targetQueryExpression
+    ? { expression: config.targetQueryExpression }
+    : config.targetQuery !== undefined
+      ? { value: config.targetQuery }
+      : undefined;
+
+  return {
+    uri: {
+      ...(path && { path }),
+      ...(query && { query })
+    }
+  };
+}
+
+export function fromRewriteActionParameters(parameters: any): UrlRewriteConfig {
+  const uri = parameters?.uri || {};
+  const config: UrlRewriteConfig = {};
+
+  if (uri.path?.expression) {
+    const wildcard = parseWildcardReplace(uri.path.expression, 'http.request.uri.path');
+    if (wildcard) {
+      config.sourcePathPattern = wildcard.pattern;
+      config.targetPath = wildcard.replacement;
+    } else {
+      config.targetPathExpression = uri.path.expression;
+    }
+  } else if (uri.path?.value) {
+    config.targetPath = uri.path.value;
+  }
+
+  if (uri.query?.expression) {
+    config.targetQueryExpression = uri.query.expression;
+  } else if (uri.query && typeof uri.query.value === 'string') {
+    config.targetQuery = uri.query.value;
+  }
+  return config;
+}
+
+/**
+ * Phase and phase parameters of a template created from a Cloudflare rule
+ * Custom firewall rules get none so existing templates keep their stored shape
+ */
+export function templatePhaseFieldsFromRule(rule: CloudflareRule): Pick<RuleTemplate, 'phase'> & PhaseConfig {
+  const phase = getRulePhase(rule);
+  switch (phase) {
+    case 'http_ratelimit':
+      return { phase, ...(rule.ratelimit ? { ratelimit: fromCloudflareRateLimit(rule.ratelimit) } : {}) };
+    case 'http_request_dynamic_redirect':
+      return { phase, redirect: fromRedirectActionParameters(rule.action_parameters) };
+    case 'http_request_transform':
+      return { phase, rewrite: fromRewriteActionParameters(rule.action_parameters) };
+    case 'http_request_firewall_managed':
+      return { phase, managedRuleset: fromManagedRulesetActionParameters(rule.action_parameters).config };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Fields of the Cloudflare rule that depend on the template's phase
+ * Spread over the common fields (expression, action, description...) when deploying
+ */
+export function templatePhaseRuleFields(template: RuleTemplate): Partial<Pick<CloudflareRule, 'action' | 'action_parameters' | 'ratelimit'>> {
+  switch (getRulePhase(template)) {
+    case 'http_ratelimit':
+      return template.ratelimit ? { ratelimit: toCloudflareRateLimit(template.ratelimit) } : {};
+    case 'http_request_dynamic_redirect':
+      return template.redirect
+        ? { action: 'redirect', action_parameters: toRedirectActionParameters(template.redirect) }
+        : { action: 'redirect' };
+    case 'http_request_transform':
+      return template.rewrite
+        ? { action: 'rewrite', action_parameters: toRewriteActionParameters(template.rewrite) }
+        : { action: 'rewrite' };
+    case 'http_request_firewall_managed':
+      return template.managedRuleset
+        ? { action: 'execute', action_parameters: toManagedRulesetActionParameters(template.managedRuleset) }
+        : { action: 'execute' };
+    default:
+      return {};
+  }
+}
+
+function phaseConfigKey(config: PhaseConfig): string {
+  const { ratelimit, redirect, rewrite, managedRuleset } = config;
+  return JSON.stringify([
+    ratelimit ? [
+      [...ratelimit.characteristics].sort(),
+      ratelimit.period,
+      ratelimit.requestsPerPeriod,
+      ratelimit.mitigationTimeout,
+      ratelimit.countingExpression || '',
+      Boolean(ratelimit.requestsToOrigin)
+    ] : null,
+    redirect ? [
+      redirect.sourceUrlPattern || '',
+      redirect.targetUrl || '',
+      redirect.targetExpression || '',
+      redirect.statusCode,
+      Boolean(redirect.preserveQueryString)
+    ] : null,
+    rewrite ? [
+      rewrite.sourcePathPattern || '',
+      rewrite.targetPath || '',
+      rewrite.targetPathExpression || '',
+      rewrite.targetQuery ?? null,
+      rewrite.targetQueryExpression || ''
+    ] : null,
+    managedRuleset ? [
+      managedRuleset.rulesetId,
+      managedRuleset.action || '',
+      managedRuleset.sensitivity || '',
+      // Paranoia level 4 runs every rule, the same as not setting it
+      managedRuleset.paranoiaLevel && managedRuleset.paranoiaLevel < 4 ? managedRuleset.paranoiaLevel : null,
+      [...managedRuleset.disabledRules].sort()
+    ] : null
+  ]);
+}
+
+export function arePhaseConfigsEqual(a: PhaseConfig, b: PhaseConfig): boolean {
+  return phaseConfigKey(a) === phaseConfigKey(b);
+}
+
+/**
+ * Whether a deployed rule still has the rate limit, redirect, rewrite or managed overrides of its template
+ */
+export function hasSamePhaseConfig(rule: CloudflareRule, template: RuleTemplate): boolean {
+  return arePhaseConfigsEqual(templatePhaseFieldsFromRule(rule), template);
+}
+
+export function formatDuration(seconds: number): string {
+  if (seconds >= 3600 && seconds % 3600 === 0) return `${seconds / 3600} h`;
+  if (seconds >= 60 && seconds % 60 === 0) return `${seconds / 60} min`;
+  return `${seconds} s`;
+}
+
+/**
+ * Short summary for pills and template lists, e.g. "100 peticiones / 1 min, acción durante 10 min"
+ */
+export function formatRateLimit(config: RateLimitConfig): string {
+  const limit = `${config.requestsPerPeriod} peticiones / ${formatDuration(config.period)}`;
+  return config.mitigationTimeout > 0
+    ? `${limit}, acción durante ${formatDuration(config.mitigationTimeout)}`
+    : limit;
+}
+
+export function formatRedirect(config: RedirectConfig): string {
+  const source = config.sourceUrlPattern ? `${config.sourceUrlPattern} ` : '';
+  return `${source}→ ${config.targetExpression || config.targetUrl} (${config.statusCode})`;
+}
+
+export function formatRewrite(config: UrlRewriteConfig): string {
+  const parts: string[] = [];
+  const path = config.targetPathExpression || config.targetPath;
+  if (path) parts.push(`${config.sourcePathPattern ? `${config.sourcePathPattern} ` : ''}→ ${path}`);
+  const query = config.targetQueryExpression ?? config.targetQuery;
+  if (query !== undefined) parts.push(`query → ${query ? `?${query}` : '(vacía)'}`);
+  return parts.join(', ') || 'Sin cambios de URL';
+}
+
+/**
+ * One line summary of the phase parameters of a template or rule, empty for custom firewall rules
+ */
+export function formatPhaseConfig(config: PhaseConfig): string {
+  if (config.ratelimit) return formatRateLimit(config.ratelimit);
+  if (config.redirect) return formatRedirect(config.redirect);
+  if (config.rewrite) return formatRewrite(config.rewrite);
+  if (config.managedRuleset) return formatManagedRuleset(config.managedRuleset);
+  return '';
+}
@@ -0,0 +1,645 @@
+/**
+ * Local rule simulator
+ * Evaluates template expressions against a fake request and works out which
+ * action would win given the template priorities, without touching a live zone
+ */
+import { RuleTemplate, SecurityRule } from '@/types/cloudflare';
+import {
+  ComparisonNode,
+  ExpressionNode,
+  FunctionNode,
+  IndexNode,
+  LiteralNode,
+  RangeNode,
+  ValueNode,
+  isBooleanKeyword,
+  toJavaScriptRegExp,
+  validateExpression
+} from './ruleExpression';
+
+export interface SimulatedRequest {
+  ip: string;
+  country: string;     // ISO 3166-1 alpha-2, e.g. "CN"
+  asn: number;
+  method: string;
+  host: string;
+  path: string;
+  query: string;       // Without the leading "?"
+  userAgent: string;
+  headers: Record<string, string>;
+  botScore: number;    // 1 (automated) - 99 (human)
+  verifiedBot: boolean;
+  ssl: boolean;
+}
+
+export type RuleSimulationOutcome = 'match' | 'no_match' | 'unknown' | 'invalid' | 'disabled';
+
+export interface RuleSimulationResult {
+  templateId: string;
+  friendlyId: string;
+  name: string;
+  action: SecurityRule['action'];
+  priority: number;
+  outcome: RuleSimulationOutcome;
+  notes: string[]; // Validation errors or what could not be evaluated
+}
+
+export interface RuleSimulationReport {
+  results: RuleSimulationResult[]; // In evaluation order
+  winner: RuleSimulationResult | null;
+  finalAction: SecurityRule['action'] | 'none';
+  logged: RuleSimulationResult[]; // Matched "log" rules evaluated before the winner
+  uncertain: boolean; // A rule evaluated before the winner could not be decided
+}
+
+export interface RuleSimulationOptions {
+  lists?: Record<string, string[]>; // Contents of $lists referenced by expressions
+}
+
+// Actions that stop the evaluation of the remaining rules
+const TERMINATING_ACTIONS: ReadonlySet<SecurityRule['action']> = new Set([
+  'block', 'challenge', 'managed_challenge', 'allow', 'skip'
+]);
+
+const EU_COUNTRIES = new Set([
+  'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE',
+  'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE'
+]);
+
+export const DEFAULT_SIMULATED_REQUEST: SimulatedRequest = {
+  ip: '203.0.113.10',
+  country: 'ES',
+  asn: 3352,
+  method: 'GET',
+  host: 'example.com',
+  path: '/',
+  query: '',
+  userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36',
+  headers: {
+    accept: 'text/html',
+    'accept-language': 'es-ES,es;q=0.9'
+  },
+  botScore: 80,
+  verifiedBot: false,
+  ssl: true
+};
+
+// ---------------------------------------------------------------------------
+// Request fields
+// ---------------------------------------------------------------------------
+
+function parseArgs(query: string, decode: boolean): Record<string, string[]> {
+  const args: Record<string, string[]> = {};
+  if (!query) return args;
+
+  for (const pair of query.split('&')) {
+    if (!pair) continue;
+    const separator = pair.indexOf('=');
+    let name = separator === -1 ? pair : pair.slice(0, separator);
+    let value = separator === -1 ? '' : pair.slice(separator + 1);
+    if (decode) {
+      name = safeDecode(name.replace(/\+/g, ' '));
+      value = safeDecode(value.replace(/\+/g, ' '));
+    }
+    (args[name] ||= []).push(value);
+  }
+  return args;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function parseCookies(cookie: string): Record<string, string[]> {
+  const cookies: Record<string, string[]> = {};
+  for (const part of cookie.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator === -1) continue;
+    const name = part.slice(0, separator).trim();
+    if (name) (cookies[name] ||= []).push(part.slice(separator + 1).trim());
+  }
+  return cookies;
+}
+
+/**
+ * Values of the Rules language fields for a simulated request
+ * Fields that are not listed here are reported as "not evaluable"
+ */
+export function buildRequestFields(request: SimulatedRequest): Record<string, unknown> {
+  const headers: Record<string, string[]> = {};
+  for (const [name, value] of Object.entries(request.headers)) {
+    (headers[name.toLowerCase()] ||= []).push(value);
+  }
+  headers['host'] = [request.host];
+  headers['user-agent'] = [request.userAgent];
+
+  const header = (name: string) => headers[name]?.[0] || '';
+  const uri = request.query ? `${request.path}?${request.query}` : request.path;
+  const fullUri = `${request.ssl ? 'https' : 'http'}://${request.host}${uri}`;
+  const lastSegment = request.path.split('/').pop() || '';
+  const extension = lastSegment.includes('.') ? lastSegment.split('.').pop()!.toLowerCase() : '';
+  const country = request.country.toUpperCase();
+  const args = parseArgs(request.query, true);
+  const rawArgs = parseArgs(request.query, false);
+  const cookies = parseCookies(header('cookie'));
+
+  return {
+    'ip.src': request.ip,
+    'ip.src.country': country,
+    'ip.geoip.country': country,
+    'ip.src.asnum': request.asn,
+    'ip.geoip.asnum': request.asn,
+    'ip.src.is_in_european_union': EU_COUNTRIES.has(country),
+    'ip.geoip.is_in_european_union': EU_COUNTRIES.has(country),
+    'http.host': request.host,
+    'http.user_agent': request.userAgent,
+    'http.referer': header('referer'),
+    'http.cookie': header('cookie'),
+    'http.x_forwarded_for': header('x-forwarded-for'),
+    'http.request.method': request.method.toUpperCase(),
+    'http.request.version': 'HTTP/2',
+    'http.request.uri': uri,
+    'http.request.uri.path': request.path,
+    'http.request.uri.path.extension': extension,
+    'http.request.uri.query': request.query,
+    'http.request.full_uri': fullUri,
+    'raw.http.request.uri': uri,
+    'raw.http.request.uri.path': request.path,
+    'raw.http.request.uri.path.extension': extension,
+    'raw.http.request.uri.query': request.query,
+    'raw.http.request.full_uri': fullUri,
+    'http.request.headers': headers,
+    'http.request.headers.names': Object.keys(headers),
+    'http.request.headers.values': Object.values(headers).flat(),
+    'http.request.headers.truncated': false,
+    'http.request.cookies': cookies,
+    'http.request.uri.args': args,
+    'http.request.uri.args.names': Object.keys(args),
+    'http.request.uri.args.values': Object.values(args).flat(),
+    'raw.http.request.uri.args': rawArgs,
+    'raw.http.request.uri.args.names': Object.keys(rawArgs),
+    'raw.http.request.uri.args.values': Object.values(rawArgs).flat(),
+    'http.request.accepted_languages': header('accept-language')
+      .split(',')
+      .map(language => language.split(';')[0].trim())
+      .filter(Boolean),
+    'cf.bot_management.score': request.botScore,
+    'cf.bot_management.verified_bot': request.verifiedBot,
+    'cf.client.bot': request.verifiedBot,
+    'ssl': request.ssl
+  };
+}
+
+// ---------------------------------------------------------------------------
+// IP helpers
+// ---------------------------------------------------------------------------
+
+interface ParsedIP {
+  version: 4 | 6;
+  value: bigint;
+}
+
+function parseIPv4(ip: string): bigint | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+  let value = BigInt(0);
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = (value << BigInt(8)) + BigInt(part);
+  }
+  return value;
+}
+
+function parseIP(ip: string): ParsedIP | null {
+  const v4 = parseIPv4(ip);
+  if (v4 !== null) return { version: 4, value: v4 };
+  if (!ip.includes(':')) return null;
+
+  // Expand "::" and an embedded IPv4 tail into eight 16-bit groups
+  let groups = ip;
+  const tail = groups.match(/(\d{1,3}(?:\.\d{1,3}){3})$/);
+  if (tail) {
+    const embedded = parseIPv4(tail[1]);
+    if (embedded === null) return null;
+    groups = groups.slice(0, -tail[1].length) +
+      `${(embedded >> BigInt(16)).toString(16)}:${(embedded & BigInt(0xffff)).toString(16)}`;
+  }
+
+  const halves = groups.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  let value = BigInt(0);
+  for (const group of [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...rest]) {
+    if (!/^[0-9a-fA-F]{1,4}$/.test(group)) return null;
+    value = (value << BigInt(16)) + BigInt(parseInt(group, 16));
+  }
+  return { version: 6, value };
+}
+
+function ipInCidr(ip: string, cidr: string): boolean {
+  const [network, prefix] = cidr.split('/');
+  const address = parseIP(ip);
+  const base = parseIP(network);
+  if (!address || !base || address.version !== base.version) return false;
+
+  const bits = address.version === 4 ? 32 : 128;
+  const hostBits = BigInt(bits - Number(prefix));
+  return (address.value >> hostBits) === (base.value >> hostBits);
+}
+
+function ipInRange(ip: string, from: string, to: string): boolean {
+  const address = parseIP(ip);
+  const start = parseIP(from);
+  const end = parseIP(to);
+  if (!address || !start || !end || address.version !== start.version) return false;
+  return address.value >= start.value && address.value <= end.value;
+}
+
+function sameIP(a: string, b: string): boolean {
+  const left = parseIP(a);
+  const right = parseIP(b);
+  return !!left && !!right && left.version === right.version && left.value === right.value;
+}
+
+// ---------------------------------------------------------------------------
+// Evaluator
+// ---------------------------------------------------------------------------
+
+// Kleene logic: null means the result depends on something the simulator does not know
+type Truth = boolean | null;
+
+const UNKNOWN = Symbol('unknown');
+
+interface EvaluatedValue {
+  value: unknown;     // An array of element values when unpacked
+  unpacked: boolean;  // true after [*]
+}
+
+function wildcardToRegExp(pattern: string, caseSensitive: boolean): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (char === '*') {
+      source += '.*';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, caseSensitive ? 's' : 'is');
+}
+
+function and(a: Truth, b: Truth): Truth {
+  if (a === false || b === false) return false;
+  return a === null || b === null ? null : true;
+}
+
+function or(a: Truth, b: Truth): Truth {
+  if (a === true || b === true) return true;
+  return a === null || b === null ? null : false;
+}
+
+function xor(a: Truth, b: Truth): Truth {
+  return a === null || b === null ? null : a !== b;
+}
+
+class Evaluator {
+  notes = new Set<string>();
+
+  constructor(
+    private fields: Record<string, unknown>,
+    private lists: Record<string, string[]>
+  ) {}
+
+  evaluate(node: ExpressionNode): Truth {
+    const result = this.condition(node);
+    return Array.isArray(result) ? result.reduce<Truth>(or, false) : result;
+  }
+
+  private condition(node: ExpressionNode): Truth | Truth[] {
+    switch (node.kind) {
+      case 'logical': {
+        const combine = node.operator === 'and' ? and : node.operator === 'or' ? or : xor;
+        // Short-circuit so that unknown fields on the other side are not reported
+        const left = this.condition(node.left);
+        if (!Array.isArray(left)) {
+          if (node.operator === 'and' && left === false) return false;
+          if (node.operator === 'or' && left === true) return true;
+        }
+        return this.combine(left, this.condition(node.right), combine);
+      }
+      case 'not': {
+        const operand = this.condition(node.operand);
+        const negate = (value: Truth) => value === null ? null : !value;
+        return Array.isArray(operand) ? operand.map(negate) : negate(operand);
+      }
+      case 'group':
+        return this.condition(node.expression);
+      case 'comparison':
+        return this.comparison(node);
+      default: {
+        const resolved = this.value(node);
+        if (resolved === UNKNOWN) return null;
+        return resolved.unpacked
+          ? (resolved.value as unknown[]).map(item => item === true)
+          : resolved.value === true;
+      }
+    }
+  }
+
+  private combine(
+    left: Truth | Truth[],
+    right: Truth | Truth[],
+    combine: (a: Truth, b: Truth) => Truth
+  ): Truth | Truth[] {
+    if (!Array.isArray(left) && !Array.isArray(right)) return combine(left, right);
+    const leftValues = Array.isArray(left) ? left : null;
+    const rightValues = Array.isArray(right) ? right : null;
+    const length = Math.max(leftValues?.length ?? 0, rightValues?.length ?? 0);
+    return Array.from({ length }, (_, i) => combine(
+      leftValues ? leftValues[i] ?? null : left as Truth,
+      rightValues ? rightValues[i] ?? null : right as Truth
+    ));
+  }
+
+  private comparison(node: ComparisonNode): Truth | Truth[] {
+    const resolved = this.value(node.left);
+    if (resolved === UNKNOWN) return null;
+
+    const compare = (value: unknown): Truth => {
+      if (value === undefined) return false;
+      return this.compare(node, value);
+    };
+    return resolved.unpacked ? (resolved.value as unknown[]).map(compare) : compare(resolved.value);
+  }
+
+  private compare(node: ComparisonNode, value: unknown): Truth {
+    const right = node.right;
+
+    if (right.kind === 'list') {
+      const entries = this.lists[right.name];
+      if (!entries) {
+        this.notes.add(`List $${right.name} is not available in the simulator`);
+        return null;
+      }
+      return entries.some(entry => this.matchesListEntry(value, entry));
+    }
+
+    if (right.kind === 'set') {
+      return right.items.some(item => this.matchesSetItem(value, item));
+    }
+
+    const literal = right.value;
+    switch (node.operator) {
+      case 'eq':
+        return this.equals(value, right);
+      case 'ne':
+        return !this.equals(value, right);
+      case 'lt': return (value as number | string) < (literal as number | string);
+      case 'le': return (value as number | string) <= (literal as number | string);
+      case 'gt': return (value as number | string) > (literal as number | string);
+      case 'ge': return (value as number | string) >= (literal as number | string);
+      case 'contains':
+        return String(value).includes(String(literal));
+      case 'matches':
+        try {
+          return toJavaScriptRegExp(String(literal)).test(String(value));
+        } catch {
+          this.notes.add(`Regex "${literal}" cannot be evaluated locally`);
+          return null;
+        }
+      case 'wildcard':
+        return wildcardToRegExp(String(literal), false).test(String(value));
+      case 'strict wildcard':
+        return wildcardToRegExp(String(literal), true).test(String(value));
+      case 'in':
+        return this.matchesSetItem(value, right);
+    }
+  }
+
+  private equals(value: unknown, literal: LiteralNode): boolean {
+    if (literal.kind === 'ip') return sameIP(String(value), literal.value);
+    return value === literal.value;
+  }
+
+  private matchesSetItem(value: unknown, item: LiteralNode | RangeNode): boolean {
+    if (item.kind === 'range') {
+      if (item.from.kind === 'ip') return ipInRange(String(value), item.from.value, String(item.to.value));
+      return (value as number) >= item.from.value && (value as number) <= (item.to.value as number);
+    }
+    if (item.kind === 'ip' && item.cidr) return ipInCidr(String(value), item.value);
+    return this.equals(value, item);
+  }
+
+  private matchesListEntry(value: unknown, entry: string): boolean {
+    if (typeof value === 'string' && parseIP(value)) {
+      return entry.includes('/') ? ipInCidr(value, entry) : sameIP(value, entry);
+    }
+    return String(value) === entry;
+  }
+
+  private value(node: ValueNode): EvaluatedValue | typeof UNKNOWN {
+    let resolved: EvaluatedValue | typeof UNKNOWN;
+
+    if (node.kind === 'field' && isBooleanKeyword(node)) {
+      return { value: node.name === 'true', unpacked: false };
+    }
+
+    if (node.kind === 'field') {
+      if (!(node.name in this.fields)) {
+        this.notes.add(`Field ${node.name} is not part of the simulated request`);
+        return UNKNOWN;
+      }
+      resolved = { value: this.fields[node.name], unpacked: false };
+    } else {
+      resolved = this.call(node);
+    }
+
+    if (resolved === UNKNOWN) return UNKNOWN;
+    return node.indexes.reduce<EvaluatedValue>((current, index) => this.index(current, index), resolved);
+  }
+
+  private index(current: EvaluatedValue, index: IndexNode): EvaluatedValue {
+    const access = (value: unknown): unknown => {
+      if (value === undefined || value === null) return undefined;
+      if (Array.isArray(value)) return typeof index.key === 'number' ? value[index.key] : undefined;
+      return typeof index.key === 'string' ? (value as Record<string, unknown>)[index.key] : undefined;
+    };
+    const unpack = (value: unknown): unknown[] => {
+      if (Array.isArray(value)) return value;
+      if (value && typeof value === 'object') return Object.values(value);
+      return [];
+    };
+
+    if (index.key === '*') {
+      return current.unpacked
+        ? { value: (current.value as unknown[]).flatMap(unpack), unpacked: true }
+        : { value: unpack(current.value), unpacked: true };
+    }
+    return current.unpacked
+      ? { value: (current.value as unknown[]).map(access), unpacked: true }
+      : { value: access(current.value), unpacked: false };
+  }
+
+  private call(node: FunctionNode): EvaluatedValue | typeof UNKNOWN {
+    if (node.name === 'any' || node.name === 'all') {
+      const result = this.condition(node.args[0] as ExpressionNode);
+      const values = Array.isArray(result) ? result : [result];
+      const reduced = node.name === 'any'
+        ? values.reduce<Truth>(or, false)
+        : values.reduce<Truth>(and, true);
+      return reduced === null ? UNKNOWN : { value: reduced, unpacked: false };
+    }
+
+    const args: EvaluatedValue[] = [];
+    for (const arg of node.args) {
+      if (arg.kind === 'string' || arg.kind === 'int' || arg.kind === 'ip' || arg.kind === 'boolean') {
+        args.push({ value: arg.value, unpacked: false });
+        continue;
+      }
+      if (arg.kind !== 'field' && arg.kind !== 'function') {
+        this.notes.add(`${node.name}() arguments cannot be evaluated locally`);
+        return UNKNOWN;
+      }
+      const resolved = this.value(arg);
+      if (resolved === UNKNOWN) return UNKNOWN;
+      args.push(resolved);
+    }
+
+    const apply = this.implementation(node.name);
+    if (!apply) {
+      this.notes.add(`Function ${node.name}() is not supported by the simulator`);
+      return UNKNOWN;
+    }
+
+    // A [*] argument applies the function to every element
+    const unpacked = args.find(arg => arg.unpacked);
+    if (unpacked) {
+      const values = (unpacked.value as unknown[]).map((_, i) =>
+        apply(args.map(arg => arg.unpacked ? (arg.value as unknown[])[i] : arg.value))
+      );
+      return { value: values, unpacked: true };
+    }
+    return { value: apply(args.map(arg => arg.value)), unpacked: false };
+  }
+
+  private implementation(name: string): ((args: unknown[]) => unknown) | null {
+    switch (name) {
+      case 'lower': return ([value]) => String(value ?? '').toLowerCase();
+      case 'upper': return ([value]) => String(value ?? '').toUpperCase();
+      case 'len': return ([value]) => Array.isArray(value) ? value.length : String(value ?? '').length;
+      case 'starts_with': return ([value, prefix]) => String(value ?? '').startsWith(String(prefix));
+      case 'ends_with': return ([value, suffix]) => String(value ?? '').endsWith(String(suffix));
+      case 'concat': return (values) => values.map(value => String(value ?? '')).join('');
+      case 'to_string': return ([value]) => String(value);
+      case 'url_decode': return ([value]) => safeDecode(String(value ?? '').replace(/\+/g, ' '));
+      case 'substring': return ([value, start, end]) => {
+        const text = String(value ?? '');
+        const from = (start as number) < 0 ? text.length + (start as number) : start as number;
+        if (end === undefined) return text.slice(from);
+        return text.slice(from, (end as number) < 0 ? text.length + (end as number) : end as number);
+      };
+      case 'remove_bytes': return ([value, bytes]) => {
+        const remove = new Set(String(bytes));
+        return [...String(value ?? '')].filter(char => !remove.has(char)).join('');
+      };
+      case 'regex_replace': return ([value, pattern, replacement]) =>
+        String(value ?? '').replace(toJavaScriptRegExp(String(pattern)), String(replacement).replace(/\$\{(\d+)\}/g, '$$$1'));
+      default: return null;
+    }
+  }
+}
+
+/**
+ * Evaluate an expression against a simulated request
+ * Returns null when the result depends on fields, lists or functions the simulator cannot resolve
+ */
+export function evaluateExpression(
+  expression: string,
+  request: SimulatedRequest,
+  options: RuleSimulationOptions = {}
+): { result: Truth; errors: string[]; notes: string[] } {
+  const validation = validateExpression(expression);
+  if (!validation.valid || !validation.ast) {
+    return {
+      result: null,
+      errors: validation.errors.map(error => `${error.message} (line ${error.line}, column ${error.column})`),
+      notes: []
+    };
+  }
+
+  const evaluator = new Evaluator(buildRequestFields(request), options.lists || {});
+  const result = evaluator.evaluate(validation.ast);
+  return { result, errors: [], notes: Array.from(evaluator.notes) };
+}
+
+/**
+ * Run all templates against a simulated request
+ * Templates are evaluated by ascending priority: "log" rules record the match and
+ * continue, the first matching rule with any other action decides the outcome
+ */
+export function simulateTemplates(
+  templates: RuleTemplate[],
+  request: SimulatedRequest,
+  options: RuleSimulationOptions = {}
+): RuleSimulationReport {
+  const ordered = [...templates].sort((a, b) =>
+    a.priority - b.priority || a.friendlyId.localeCompare(b.friendlyId)
+  );
+
+  const results: RuleSimulationResult[] = ordered.map(template => {
+    const base = {
+      templateId: template.id,
+      friendlyId: template.friendlyId,
+      name: template.name,
+      action: template.action,
+      priority: template.priority
+    };
+
+    if (!template.enabled) {
+      return { ...base, outcome: 'disabled', notes: [] };
+    }
+
+    const { result, errors, notes } = evaluateExpression(template.expression, request, options);
+    if (errors.length > 0) {
+      return { ...base, outcome: 'invalid', notes: errors };
+    }
+
+    const outcome: RuleSimulationOutcome = result === null ? 'unknown' : result ? 'match' : 'no_match';
+    return { ...base, outcome, notes };
+  });
+
+  let winner: RuleSimulationResult | null = null;
+  let uncertain = false;
+  const logged: RuleSimulationResult[] = [];
+
+  for (const result of results) {
+    if (result.outcome === 'unknown' && TERMINATING_ACTIONS.has(result.action)) {
+      uncertain = true;
+    }
+    if (result.outcome !== 'match') continue;
+
+    if (TERMINATING_ACTIONS.has(result.action)) {
+      winner = result;
+      break;
+    }
+    logged.push(result);
+  }
+
+  return {
+    results,
+    winner,
+    finalAction: winner?.action || 'none',
+    logged,
+    uncertain
+  };
+}
@@ -4,8 +4,7 @@
 
 export interface AppSettings {
   apiRateLimiting: {
-    batchSize: number;
-    batchDelay: number; // in milliseconds
+    batchSize: number; // Pacing between batches is handled server-side by the rate limiter
   };
   theme: 'light' | 'dark' | 'system';
   lastUpdated: string;
@@ -16,8 +15,7 @@ const SETTINGS_KEY = 'rollpix-app-settings';
 // Default settings optimized for Cloudflare's 1200 req/5min limit
 const DEFAULT_SETTINGS: AppSettings = {
   apiRateLimiting: {
-    batchSize: 4,
-    batchDelay: 6000 // 6 seconds
+    batchSize: 4
   },
   theme: 'system',
   lastUpdated: new Date().toISOString()
@@ -80,17 +78,17 @@ class SettingsStorage {
   /**
    * Get API rate limiting settings
    */
-  getRateLimiting(): { batchSize: number; batchDelay: number } {
+  getRateLimiting(): { batchSize: number } {
     const settings = this.getSettings();
-    return settings.apiRateLimiting;
+    return { batchSize: settings.apiRateLimiting.batchSize };
   }
 
   /**
    * Update API rate limiting settings
    */
-  setRateLimiting(batchSize: number, batchDelay: number): void {
+  setRateLimiting(batchSize: number): void {
     this.saveSettings({
-      apiRateLimiting: { batchSize, batchDelay }
+      apiRateLimiting: { batchSize }
     });
   }
 
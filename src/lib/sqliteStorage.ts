@@ -0,0 +1,442 @@
+/**
+ * SQLite storage backend (STORAGE_BACKEND=sqlite)
+ * One table per entity with the lookup columns indexed, the full item kept as JSON in `data`.
+ * Whole-document writes only touch the rows that changed and every write runs in a transaction,
+ * so concurrent routes no longer race on a shared file. WAL mode lets reads continue during writes
+ */
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { migrateJsonFiles } from './storageMigrator';
+import { ENTITY_FILES } from './storage';
+import { getCacheDir } from './cacheDirectory';
+import type {
+  DocumentStore,
+  EntityStore,
+  PreferencesDocument,
+  PreferencesStore,
+  ProgressDocument,
+  ProgressStore,
+  StorageBackend
+} from './storage';
+
+const SCHEMA_VERSION = 1;
+const DEFAULT_DATABASE_FILE = 'rollpix.db';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS entity_headers (
+    entity TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS domains (
+    id TEXT PRIMARY KEY,
+    position INTEGER NOT NULL,
+    domain_name TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_domains_domain_name ON domains(domain_name);
+
+  CREATE TABLE IF NOT EXISTS templates (
+    id TEXT PRIMARY KEY,
+    position INTEGER NOT NULL,
+    friendly_id TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_templates_friendly_id ON templates(friendly_id);
+
+  CREATE TABLE IF NOT EXISTS rule_mappings (
+    id TEXT PRIMARY KEY,
+    position INTEGER NOT NULL,
+    zone_id TEXT,
+    template_id TEXT,
+    friendly_id TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_rule_mappings_zone ON rule_mappings(zone_id, friendly_id);
+  CREATE INDEX IF NOT EXISTS idx_rule_mappings_template ON rule_mappings(template_id);
+
+  CREATE TABLE IF NOT EXISTS domain_rule_status (
+    id TEXT PRIMARY KEY,
+    position INTEGER NOT NULL,
+    domain_name TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_domain_rule_status_domain_name ON domain_rule_status(domain_name);
+
+  CREATE TABLE IF NOT EXISTS preferences (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS progress (
+    request_id TEXT PRIMARY KEY,
+    completed INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_progress_updated_at ON progress(updated_at);
+
+  CREATE TABLE IF NOT EXISTS documents (
+    name TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+`;
+
+interface CollectionSpec<TItem> {
+  entity: string;
+  table: string;
+  field: string; // Array field of the document kept as rows, the rest is the header
+  key: (item: TItem) => string;
+  columns: Record<string, (item: TItem) => string | null>; // Indexed lookup columns
+}
+
+type Header = Record<string, unknown>;
+
+/**
+ * Entity kept as a table of rows plus a header with the rest of the document
+ */
+function createCollectionStore<TDocument, TItem>(db: Database.Database, spec: CollectionSpec<TItem>) {
+  const columnNames = Object.keys(spec.columns);
+  const insertColumns = ['id', 'position', ...columnNames, 'data'];
+
+  const selectRows = db.prepare(`SELECT data FROM ${spec.table} ORDER BY position`);
+  const selectIds = db.prepare(`SELECT id FROM ${spec.table}`);
+  const selectMaxPosition = db.prepare(`SELECT COALESCE(MAX(position), -1) AS position FROM ${spec.table}`);
+  const selectPosition = db.prepare(`SELECT position FROM ${spec.table} WHERE id = ?`);
+  const upsertRow = db.prepare(`
+    INSERT INTO ${spec.table} (${insertColumns.join(', ')})
+    VALUES (${insertColumns.map(column => `@${column}`).join(', ')})
+    ON CONFLICT(id) DO UPDATE SET
+      ${['position', ...columnNames, 'data'].map(column => `${column} = excluded.${column}`).join(', ')}
+    WHERE ${spec.table}.data IS NOT excluded.data OR ${spec.table}.position IS NOT excluded.position
+  `);
+  const deleteRow = db.prepare(`DELETE FROM ${spec.table} WHERE id = ?`);
+  const deleteRows = db.prepare(`DELETE FROM ${spec.table}`);
+  const selectHeader = db.prepare('SELECT data FROM entity_headers WHERE entity = ?');
+  const upsertHeader = db.prepare(`
+    INSERT INTO entity_headers (entity, data) VALUES (?, ?)
+    ON CONFLICT(entity) DO UPDATE SET data = excluded.data
+  `);
+  const deleteHeader = db.prepare('DELETE FROM entity_headers WHERE entity = ?');
+
+  const toRow = (item: TItem, position: number) => ({
+    id: spec.key(item),
+    position,
+    ...Object.fromEntries(columnNames.map(column => [column, spec.columns[column](item) ?? null])),
+    data: JSON.stringify(item)
+  });
+
+  const readHeader = (): Header | null => {
+    const row = selectHeader.get(spec.entity) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  };
+
+  // Header fields that track changes are refreshed on row-level writes
+  const touchHeader = (changes: Header) => {
+    const header = readHeader() || {};
+    for (const [field, value] of Object.entries(changes)) {
+      if (field in header || field === 'lastUpdated') header[field] = value;
+    }
+    upsertHeader.run(spec.entity, JSON.stringify(header));
+  };
+
+  const writeDocument = db.transaction((document: TDocument) => {
+    const { [spec.field]: items = [], ...header } = document as Header;
+    const rows = (items as TItem[]).map(toRow);
+    const keep = new Set(rows.map(row => row.id));
+
+    for (const { id } of selectIds.all() as Array<{ id: string }>) {
+      if (!keep.has(id)) deleteRow.run(id);
+    }
+    rows.forEach(row => upsertRow.run(row));
+    upsertHeader.run(spec.entity, JSON.stringify(header));
+  });
+
+  const upsertItems = db.transaction((items: TItem[], headerChanges: Header) => {
+    let nextPosition = (selectMaxPosition.get() as { position: number }).position + 1;
+    for (const item of items) {
+      const existing = selectPosition.get(spec.key(item)) as { position: number } | undefined;
+      upsertRow.run(toRow(item, existing ? existing.position : nextPosition++));
+    }
+    touchHeader(headerChanges);
+  });
+
+  const removeItems = db.transaction((ids: string[], headerChanges: Header) => {
+    const removed = ids.reduce((count, id) => count + deleteRow.run(id).changes, 0);
+    touchHeader(headerChanges);
+    return removed;
+  });
+
+  const clearAll = db.transaction(() => {
+    deleteRows.run();
+    deleteHeader.run(spec.entity);
+  });
+
+  const store: EntityStore<TDocument> = {
+    read: async () => {
+      const header = readHeader();
+      const rows = selectRows.all() as Array<{ data: string }>;
+      if (!header && rows.length === 0) return null;
+      return { ...header, [spec.field]: rows.map(row => JSON.parse(row.data)) } as TDocument;
+    },
+    write: async (document) => { writeDocument(document); },
+    clear: async () => { clearAll(); }
+  };
+
+  return {
+    ...store,
+    upsertItems: (items: TItem[], headerChanges: Header = {}) => upsertItems(items, headerChanges),
+    removeItems: (ids: string[], headerChanges: Header = {}) => removeItems(ids, headerChanges) as number,
+    count: () => (db.prepare(`SELECT COUNT(*) AS count FROM ${spec.table}`).get() as { count: number }).count
+  };
+}
+
+function createPreferencesStore(db: Database.Database): PreferencesStore {
+  const selectAll = db.prepare('SELECT key, value FROM preferences');
+  const upsert = db.prepare(`
+    INSERT INTO preferences (key, value) VALUES (?, ?)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value
+  `);
+  const clearPreferences = db.prepare('DELETE FROM preferences');
+  const selectHeader = db.prepare("SELECT data FROM entity_headers WHERE entity = 'preferences'");
+  const upsertHeader = db.prepare(`
+    INSERT INTO entity_headers (entity, data) VALUES ('preferences', ?)
+    ON CONFLICT(entity) DO UPDATE SET data = excluded.data
+  `);
+  const deleteHeader = db.prepare("DELETE FROM entity_headers WHERE entity = 'preferences'");
+
+  const readValues = () => Object.fromEntries(
+    (selectAll.all() as Array<{ key: string; value: string }>).map(row => [row.key, JSON.parse(row.value)])
+  );
+
+  const setValues = db.transaction((values: Record<string, unknown>, replace: boolean) => {
+    if (replace) clearPreferences.run();
+    for (const [key, value] of Object.entries(values)) {
+      upsert.run(key, JSON.stringify(value ?? null));
+    }
+  });
+
+  const read = async (): Promise<PreferencesDocument | null> => {
+    const header = selectHeader.get() as { data: string } | undefined;
+    const preferences = readValues();
+    if (!header && Object.keys(preferences).length === 0) return null;
+    return { ...(header ? JSON.parse(header.data) : {}), preferences };
+  };
+
+  return {
+    read,
+    write: async (document) => {
+      const { preferences = {}, ...header } = document;
+      db.transaction(() => {
+        setValues(preferences, true);
+        upsertHeader.run(JSON.stringify(header));
+      })();
+    },
+    clear: async () => {
+      db.transaction(() => {
+        clearPreferences.run();
+        deleteHeader.run();
+      })();
+    },
+    update: async (values) => {
+      db.transaction(() => {
+        setValues(values, false);
+        upsertHeader.run(JSON.stringify({ lastUpdated: new Date().toISOString() }));
+      })();
+      return readValues();
+    }
+  };
+}
+
+function createProgressStore(db: Database.Database): ProgressStore {
+  const selectAll = db.prepare('SELECT data FROM progress ORDER BY updated_at');
+  const selectOne = db.prepare('SELECT data FROM progress WHERE request_id = ?');
+  const upsert = db.prepare(`
+    INSERT INTO progress (request_id, completed, updated_at, data) VALUES (@requestId, @completed, @updatedAt, @data)
+    ON CONFLICT(request_id) DO UPDATE SET completed = excluded.completed, updated_at = excluded.updated_at, data = excluded.data
+  `);
+  const deleteOne = db.prepare('DELETE FROM progress WHERE request_id = ?');
+  const deleteAll = db.prepare('DELETE FROM progress');
+
+  const toRow = (update: ProgressDocument[string]) => ({
+    requestId: update.requestId,
+    completed: update.completed ? 1 : 0,
+    updatedAt: update.timestamp,
+    data: JSON.stringify(update)
+  });
+
+  return {
+    read: async () => {
+      const rows = selectAll.all() as Array<{ data: string }>;
+      if (rows.length === 0) return null;
+      return Object.fromEntries(rows.map(row => {
+        const update = JSON.parse(row.data);
+        return [update.requestId, update];
+      }));
+    },
+    write: async (document) => {
+      db.transaction(() => {
+        deleteAll.run();
+        Object.values(document).forEach(update => upsert.run(toRow(update)));
+      })();
+    },
+    clear: async () => { deleteAll.run(); },
+    get: async (requestId) => {
+      const row = selectOne.get(requestId) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : null;
+    },
+    save: async (update) => { upsert.run(toRow(update)); },
+    remove: async (requestIds) => {
+      db.transaction(() => requestIds.forEach(requestId => deleteOne.run(requestId)))();
+    }
+  };
+}
+
+function createDocumentStore(db: Database.Database): DocumentStore {
+  const selectOne = db.prepare('SELECT data FROM documents WHERE name = ?');
+  const upsert = db.prepare(`
+    INSERT INTO documents (name, data, updated_at) VALUES (?, ?, ?)
+    ON CONFLICT(name) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+  `);
+  const deleteOne = db.prepare('DELETE FROM documents WHERE name = ?');
+
+  return {
+    read: async <T>(name: string) => {
+      const row = selectOne.get(name) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) as T : null;
+    },
+    write: async (name, data) => { upsert.run(name, JSON.stringify(data), new Date().toISOString()); },
+    exists: async (name) => selectOne.get(name) !== undefined,
+    delete: async (name) => { deleteOne.run(name); }
+  };
+}
+
+export function createSqliteStorage(databasePath: string): StorageBackend {
+  mkdirSync(dirname(databasePath), { recursive: true });
+  const db = new Database(databasePath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('busy_timeout = 5000');
+
+  const version = db.pragma('user_version', { simple: true }) as number;
+  if (version < SCHEMA_VERSION) {
+    db.exec(SCHEMA);
+    db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    console.log(`[SqliteStorage] Schema ready (v${SCHEMA_VERSION}) at ${databasePath}`);
+  }
+
+  const now = () => new Date().toISOString();
+
+  const domains = createCollectionStore<any, any>(db, {
+    entity: 'domains', table: 'domains', field: 'domains',
+    key: domain => domain.zoneId,
+    columns: { domain_name: domain => domain.domain }
+  });
+  const templates = createCollectionStore<any, any>(db, {
+    entity: 'templates', table: 'templates', field: 'templates',
+    key: template => template.id,
+    columns: { friendly_id: template => template.friendlyId }
+  });
+  const ruleMappings = createCollectionStore<any, any>(db, {
+    entity: 'ruleMappings', table: 'rule_mappings', field: 'mappings',
+    key: mapping => mapping.cloudflareRuleId,
+    columns: {
+      zone_id: mapping => mapping.zoneId,
+      template_id: mapping => mapping.templateId,
+      friendly_id: mapping => mapping.friendlyId
+    }
+  });
+  const domainRuleStatus = createCollectionStore<any, any>(db, {
+    entity: 'domainRuleStatus', table: 'domain_rule_status', field: 'domainStatuses',
+    key: status => status.zoneId,
+    columns: { domain_name: status => status.domainName }
+  });
+
+  // Read-modify-write cycles are serialized per file, the updater may await between read and write
+  const updateChains = new Map<string, Promise<unknown>>();
+
+  const backend: StorageBackend = {
+    kind: 'sqlite',
+
+    domains: {
+      read: domains.read,
+      write: domains.write,
+      clear: domains.clear,
+      upsert: async (updates) => {
+        domains.upsertItems(updates);
+        // totalCount follows the rows, lastUpdate keeps the time of the last full refresh
+        domains.upsertItems([], { totalCount: domains.count() });
+      }
+    },
+
+    templates: {
+      read: templates.read,
+      write: templates.write,
+      clear: templates.clear,
+      upsert: async (template) => { templates.upsertItems([template], { lastUpdated: now() }); },
+      remove: async (templateId) => templates.removeItems([templateId], { lastUpdated: now() }) > 0
+    },
+
+    ruleMappings: {
+      read: ruleMappings.read,
+      write: ruleMappings.write,
+      clear: ruleMappings.clear,
+      upsert: async (mappings) => { ruleMappings.upsertItems(mappings, { lastUpdated: now() }); },
+      remove: async (cloudflareRuleIds) => { ruleMappings.removeItems(cloudflareRuleIds, { lastUpdated: now() }); }
+    },
+
+    domainRuleStatus: {
+      read: domainRuleStatus.read,
+      write: domainRuleStatus.write,
+      clear: domainRuleStatus.clear,
+      upsert: async (statuses) => { domainRuleStatus.upsertItems(statuses, { lastUpdated: now() }); }
+    },
+
+    preferences: createPreferencesStore(db),
+    progress: createProgressStore(db),
+    documents: createDocumentStore(db),
+
+    updateDocument: <T>(fileName: string, updater: (current: T | null) => T | Promise<T>) => {
+      const entity = ENTITY_FILES[fileName];
+      const store = entity ? backend[entity] as EntityStore<T> : {
+        read: () => backend.documents.read<T>(fileName),
+        write: (data: T) => backend.documents.write(fileName, data)
+      };
+
+      const next = (updateChains.get(fileName) || Promise.resolve()).then(async () => {
+        const data = await updater(await store.read());
+        await store.write(data);
+        return data;
+      });
+      updateChains.set(fileName, next.catch(() => undefined));
+      return next;
+    },
+
+    describe: () => ({
+      backend: 'sqlite',
+      path: databasePath,
+      schemaVersion: SCHEMA_VERSION,
+      rows: {
+        domains: domains.count(),
+        templates: templates.count(),
+        ruleMappings: ruleMappings.count(),
+        domainRuleStatus: domainRuleStatus.count()
+      }
+    })
+  };
+
+  return backend;
+}
+
+/**
+ * Open the database at STORAGE_SQLITE_PATH and import the JSON cache files the first time
+ */
+export async function openSqliteStorage(): Promise<StorageBackend> {
+  const databasePath = process.env.STORAGE_SQLITE_PATH
+    ? resolve(process.cwd(), process.env.STORAGE_SQLITE_PATH)
+    : resolve(getCacheDir(), DEFAULT_DATABASE_FILE);
+  const storage = createSqliteStorage(databasePath);
+  await migrateJsonFiles(storage);
+  return storage;
+}
@@ -0,0 +1,189 @@
+/**
+ * Pluggable storage backend
+ * STORAGE_BACKEND selects where the cache data lives: "json" (default) keeps the files in cache/
+ * through UnifiedCache, "sqlite" keeps a table per entity in a single database (STORAGE_SQLITE_PATH)
+ *
+ * safeReadJsonFile/safeWriteJsonFile go through the selected backend, so every cache file keeps
+ * working as a whole document. Hot paths use the row-level methods of each entity store instead,
+ * which the SQLite backend applies in a single transaction without rewriting the rest of the data
+ */
+import { DomainRuleStatus, DomainStatus, RuleTemplate } from '@/types/cloudflare';
+import type { TemplateRuleMapping } from './ruleMapping';
+import type { ProgressUpdate } from './progressTracker';
+
+export type StorageBackendKind = 'json' | 'sqlite';
+
+export interface DomainsDocument {
+  domains: DomainStatus[];
+  lastUpdate: string;
+  totalCount: number;
+}
+
+export interface TemplatesDocument {
+  templates: RuleTemplate[];
+  lastUpdated: string;
+}
+
+export interface RuleMappingsDocument {
+  mappings: TemplateRuleMapping[];
+  lastUpdated: string;
+}
+
+export interface DomainRuleStatusDocument {
+  domainStatuses: DomainRuleStatus[];
+  lastUpdated: string;
+}
+
+export interface PreferencesDocument {
+  preferences: Record<string, unknown>;
+  lastUpdated: string;
+}
+
+export type ProgressDocument = Record<string, ProgressUpdate>;
+
+/**
+ * An entity read and written as a whole, with the same shape as its JSON file
+ */
+export interface EntityStore<TDocument> {
+  read(): Promise<TDocument | null>;
+  write(document: TDocument): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface DomainStore extends EntityStore<DomainsDocument> {
+  upsert(domains: DomainStatus[]): Promise<void>;
+}
+
+export interface TemplateStore extends EntityStore<TemplatesDocument> {
+  upsert(template: RuleTemplate): Promise<void>;
+  remove(templateId: string): Promise<boolean>;
+}
+
+export interface RuleMappingStore extends EntityStore<RuleMappingsDocument> {
+  upsert(mappings: TemplateRuleMapping[]): Promise<void>;
+  remove(cloudflareRuleIds: string[]): Promise<void>;
+}
+
+export interface DomainRuleStatusStore extends EntityStore<DomainRuleStatusDocument> {
+  upsert(statuses: DomainRuleStatus[]): Promise<void>;
+}
+
+export interface PreferencesStore extends EntityStore<PreferencesDocument> {
+  update(values: Record<string, unknown>): Promise<Record<string, unknown>>;
+}
+
+export interface ProgressStore extends EntityStore<ProgressDocument> {
+  get(requestId: string): Promise<ProgressUpdate | null>;
+  save(update: ProgressUpdate): Promise<void>;
+  remove(requestIds: string[]): Promise<void>;
+}
+
+/**
+ * Every other cache file (jobs, notifications, audit log...), stored as a single document
+ */
+export interface DocumentStore {
+  read<T>(name: string): Promise<T | null>;
+  write<T>(name: string, data: T): Promise<void>;
+  exists(name: string): Promise<boolean>;
+  delete(name: string): Promise<void>;
+}
+
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+  readonly domains: DomainStore;
+  readonly templates: TemplateStore;
+  readonly ruleMappings: RuleMappingStore;
+  readonly domainRuleStatus: DomainRuleStatusStore;
+  readonly preferences: PreferencesStore;
+  readonly progress: ProgressStore;
+  readonly documents: DocumentStore;
+  /**
+   * Read-modify-write of any cache file (entity or document) without another write in between
+   */
+  updateDocument<T>(fileName: string, updater: (current: T | null) => T | Promise<T>): Promise<T>;
+  describe(): Record<string, unknown>;
+}
+
+type EntityKey = 'domains' | 'templates' | 'ruleMappings' | 'domainRuleStatus' | 'preferences' | 'progress';
+
+// Cache files backed by an entity store instead of a plain document
+export const ENTITY_FILES: Record<string, EntityKey> = {
+  'domains-cache.json': 'domains',
+  'security-rules-templates.json': 'templates',
+  'rule-id-mapping.json': 'ruleMappings',
+  'domain-rules-status.json': 'domainRuleStatus',
+  'user-preferences.json': 'preferences',
+  'progress-tracker.json': 'progress'
+};
+
+export function getStorageBackendKind(): StorageBackendKind {
+  return process.env.STORAGE_BACKEND?.toLowerCase() === 'sqlite' ? 'sqlite' : 'json';
+}
+
+// Shared with instrumentation, which gets its own copy of this module
+const globalStorage = globalThis as typeof globalThis & { storageBackend?: Promise<StorageBackend> };
+
+/**
+ * The backend selected by STORAGE_BACKEND, opened once per process
+ * The SQLite driver is only loaded when it is selected
+ */
+export function getStorage(): Promise<StorageBackend> {
+  if (!globalStorage.storageBackend) {
+    globalStorage.storageBackend = (async () => {
+      const kind = getStorageBackendKind();
+      if (kind === 'sqlite') {
+        const { openSqliteStorage } = await import('./sqliteStorage');
+        return openSqliteStorage();
+      }
+      const { createJsonStorage } = await import('./jsonStorage');
+      return createJsonStorage();
+    })();
+    globalStorage.storageBackend.catch(error => {
+      console.error('[Storage] Failed to open storage backend:', error);
+      globalStorage.storageBackend = undefined;
+    });
+  }
+  return globalStorage.storageBackend;
+}
+
+/**
+ * Read a cache file from the selected backend, null when it was never written
+ */
+export async function readStoredDocument<T>(fileName: string): Promise<T | null> {
+  const storage = await getStorage();
+  const entity = ENTITY_FILES[fileName];
+  return entity
+    ? await storage[entity].read() as T | null
+    : storage.documents.read<T>(fileName);
+}
+
+export async function writeStoredDocument<T>(fileName: string, data: T): Promise<void> {
+  const storage = await getStorage();
+  const entity = ENTITY_FILES[fileName];
+  if (entity) {
+    await (storage[entity] as EntityStore<unknown>).write(data);
+  } else {
+    await storage.documents.write(fileName, data);
+  }
+}
+
+export async function updateStoredDocument<T>(fileName: string, updater: (current: T | null) => T | Promise<T>): Promise<T> {
+  const storage = await getStorage();
+  return storage.updateDocument(fileName, updater);
+}
+
+export async function storedDocumentExists(fileName: string): Promise<boolean> {
+  const storage = await getStorage();
+  const entity = ENTITY_FILES[fileName];
+  return entity ? (await storage[entity].read()) !== null : storage.documents.exists(fileName);
+}
+
+export async function deleteStoredDocument(fileName: string): Promise<void> {
+  const storage = await getStorage();
+  const entity = ENTITY_FILES[fileName];
+  if (entity) {
+    await storage[entity].clear();
+  } else {
+    await storage.documents.delete(fileName);
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * One-time import of the JSON cache files into another storage backend
+ * Runs when the SQLite backend opens; a marker document keeps it from running twice,
+ * the JSON files are left untouched so switching back to STORAGE_BACKEND=json still works
+ */
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import { ENTITY_FILES, EntityStore, StorageBackend } from './storage';
+import { getCacheDir } from './cacheDirectory';
+
+const MIGRATION_MARKER = 'storage-migration.json';
+
+export interface MigrationReport {
+  migratedAt: string;
+  imported: string[];
+  skipped: Array<{ fileName: string; reason: string }>;
+}
+
+async function readJson(path: string): Promise<unknown | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(path, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
+
+/**
+ * Cache files first, then the files older versions kept next to package.json
+ */
+async function collectSources(): Promise<Map<string, string>> {
+  const sources = new Map<string, string>();
+
+  try {
+    const cacheDir = getCacheDir();
+    for (const fileName of await fs.readdir(cacheDir)) {
+      if (fileName.endsWith('.json')) sources.set(fileName, join(cacheDir, fileName));
+    }
+  } catch {
+    // No cache directory yet
+  }
+
+  for (const fileName of Object.keys(ENTITY_FILES)) {
+    if (!sources.has(fileName)) sources.set(fileName, resolve(process.cwd(), fileName));
+  }
+
+  return sources;
+}
+
+// The root user-preferences.json holds the preferences object itself
+function normalizeEntityDocument(fileName: string, data: unknown): unknown {
+  if (fileName === 'user-preferences.json') {
+    const document = data as Record<string, unknown>;
+    if (!document.preferences || typeof document.preferences !== 'object') {
+      return { preferences: document, lastUpdated: document.lastUpdated || new Date().toISOString() };
+    }
+  }
+  return data;
+}
+
+export async function migrateJsonFiles(storage: StorageBackend, options: { force?: boolean } = {}): Promise<MigrationReport | null> {
+  if (!options.force) {
+    const previous = await storage.documents.read<MigrationReport>(MIGRATION_MARKER);
+    if (previous) return null;
+  }
+
+  const report: MigrationReport = { migratedAt: new Date().toISOString(), imported: [], skipped: [] };
+
+  for (const [fileName, path] of await collectSources()) {
+    if (fileName === MIGRATION_MARKER) continue;
+
+    let data: unknown;
+    try {
+      data = await readJson(path);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unreadable file';
+      console.warn(`[StorageMigrator] Skipping ${fileName}: ${reason}`);
+      report.skipped.push({ fileName, reason });
+      continue;
+    }
+    if (data === undefined) continue;
+
+    const entity = ENTITY_FILES[fileName];
+    if (entity) {
+      await (storage[entity] as EntityStore<unknown>).write(normalizeEntityDocument(fileName, data));
+    } else {
+      await storage.documents.write(fileName, data);
+    }
+    report.imported.push(fileName);
+  }
+
+  await storage.documents.write(MIGRATION_MARKER, report);
+  console.log(`[StorageMigrator] Imported ${report.imported.length} JSON files into ${storage.kind} storage (${report.skipped.length} skipped)`);
+  return report;
+}
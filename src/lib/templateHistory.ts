@@ -0,0 +1,123 @@
+/**
+ * Template revision history
+ * Append-only log of every version of a rule template, so previous expressions
+ * survive UI edits and domain syncs and can be restored later
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { RuleTemplate, TemplateRevision, TemplateRevisionSource } from '@/types/cloudflare';
+import { safeReadJsonFile, safeUpdateJsonFile } from './fileSystem';
+import { arePhaseConfigsEqual } from './rulePhases';
+
+const HISTORY_FILE = 'template-history.json';
+
+export interface TemplateHistoryCache {
+  revisions: TemplateRevision[];
+  lastUpdated: string;
+}
+
+export interface TemplateRevisionInput {
+  template: RuleTemplate;
+  previous?: RuleTemplate; // Content before the change; stored first if the template has no history yet
+  source: TemplateRevisionSource;
+  sourceDomain?: string;
+  restoredFrom?: string;
+}
+
+function toRevision(
+  template: RuleTemplate,
+  source: TemplateRevisionSource,
+  createdAt: string,
+  extra: Pick<TemplateRevision, 'sourceDomain' | 'restoredFrom'> = {}
+): TemplateRevision {
+  return {
+    id: uuidv4(),
+    templateId: template.id,
+    friendlyId: template.friendlyId,
+    version: template.version,
+    name: template.name,
+    expression: template.expression,
+    action: template.action,
+    actionParameters: template.actionParameters,
+    ...(template.ratelimit && { ratelimit: template.ratelimit }),
+    ...(template.redirect && { redirect: template.redirect }),
+    ...(template.rewrite && { rewrite: template.rewrite }),
+    ...(template.managedRuleset && { managedRuleset: template.managedRuleset }),
+    source,
+    ...extra,
+    createdAt
+  };
+}
+
+function hasSameContent(revision: TemplateRevision, template: RuleTemplate): boolean {
+  return revision.version === template.version &&
+    revision.expression === template.expression &&
+    revision.action === template.action &&
+    JSON.stringify(revision.actionParameters || {}) === JSON.stringify(template.actionParameters || {}) &&
+    arePhaseConfigsEqual(revision, template);
+}
+
+export async function loadTemplateHistory(): Promise<TemplateHistoryCache> {
+  const cache = await safeReadJsonFile<Partial<TemplateHistoryCache>>(HISTORY_FILE);
+  return {
+    revisions: cache.revisions || [],
+    lastUpdated: cache.lastUpdated || new Date().toISOString()
+  };
+}
+
+/**
+ * Append revisions for created or updated templates
+ * Templates whose content matches their latest revision are skipped. Never throws:
+ * a history failure must not undo a template save that already happened
+ */
+export async function recordTemplateRevisions(inputs: TemplateRevisionInput[]): Promise<void> {
+  if (inputs.length === 0) return;
+
+  try {
+    const now = new Date().toISOString();
+    let added = 0;
+
+    // Under the file lock, a domain sync and a UI edit at the same time both keep their revisions
+    await safeUpdateJsonFile<Partial<TemplateHistoryCache>>(HISTORY_FILE, cache => {
+      const revisions = [...(cache.revisions || [])];
+
+      for (const input of inputs) {
+        const existing = revisions.filter(revision => revision.templateId === input.template.id);
+        const latest = existing[existing.length - 1];
+
+        if (latest) {
+          if (hasSameContent(latest, input.template)) continue;
+        } else if (input.previous) {
+          // Template created before history was kept: store what it looked like before this change
+          const initial = toRevision(input.previous, 'initial', input.previous.updatedAt || now);
+          if (hasSameContent(initial, input.template)) continue;
+          revisions.push(initial);
+          added++;
+        }
+
+        revisions.push(toRevision(input.template, input.source, now, {
+          sourceDomain: input.sourceDomain,
+          restoredFrom: input.restoredFrom
+        }));
+        added++;
+      }
+
+      return added === 0 ? cache : { ...cache, revisions, lastUpdated: now };
+    });
+
+    if (added > 0) {
+      console.log(`[TemplateHistory] Recorded ${added} revisions`);
+    }
+  } catch (error) {
+    console.error('[TemplateHistory] Error recording revisions:', error);
+  }
+}
+
+/**
+ * Revisions of one template, newest first
+ */
+export async function getTemplateHistory(templateId: string): Promise<TemplateRevision[]> {
+  const cache = await loadTemplateHistory();
+  return cache.revisions
+    .filter(revision => revision.templateId === templateId)
+    .reverse();
+}
@@ -10,6 +10,7 @@ import {
 import { safeReadJsonFile, safeWriteJsonFile } from './fileSystem';
 import { TemplateRuleMapping } from './ruleMapping';
 import { PendingChanges } from './batchCacheWriter';
+import { hasSamePhaseConfig, templatePhaseFieldsFromRule } from './rulePhases';
 
 const RULES_TEMPLATES_FILE = 'security-rules-templates.json';
 
@@ -67,6 +68,16 @@ export class TemplateSynchronizer {
     }
   }
 
+  /**
+   * Remember the domain a template change came from, for the revision history
+   */
+  private recordTemplateSource(templateId: string, domainInfo: DomainInfo): void {
+    this.pendingChanges.templateSources = {
+      ...this.pendingChanges.templateSources,
+      [templateId]: domainInfo.name
+    };
+  }
+
   /**
    * Reset pending changes for a new sync operation
    */
@@ -149,6 +160,16 @@ export class TemplateSynchronizer {
     return result;
   }
 
+  /**
+   * Una regla cambia respecto a su plantilla si difiere la expresión, la acción o los parámetros de su fase
+   * (rate limiting, redirección o reescritura)
+   */
+  private hasRuleChanged(rule: CloudflareRule, template: RuleTemplate): boolean {
+    return rule.expression !== template.expression ||
+      rule.action !== template.action ||
+      !hasSamePhaseConfig(rule, template);
+  }
+
   /**
    * Sincronizar una regla individual según especificación (versión original con mappings)
    */
@@ -178,7 +199,7 @@ export class TemplateSynchronizer {
     }
 
     // CASO 2: Regla existente - verificar si hay cambios
-    if (rule.expression !== existingTemplate.expression || rule.action !== existingTemplate.action) {
+    if (this.hasRuleChanged(rule, existingTemplate)) {
       return await this.handleChangedRule(rule, existingTemplate, domainInfo, result);
     }
 
@@ -216,7 +237,7 @@ export class TemplateSynchronizer {
     }
 
     // CASO 2: Regla existente - verificar si hay cambios
-    if (rule.expression !== existingTemplate.expression || rule.action !== existingTemplate.action) {
+    if (this.hasRuleChanged(rule, existingTemplate)) {
       return await this.handleChangedRuleForTemplate(rule, existingTemplate, domainInfo, result);
     }
 
@@ -251,6 +272,7 @@ export class TemplateSynchronizer {
       expression: rule.expression || '',
       action: (rule.action as any) || 'block',
       actionParameters: rule.action_parameters || {},
+      ...templatePhaseFieldsFromRule(rule),
       enabled: rule.enabled !== false,
       priority: this.templatesCache.templates.length + 1,
       tags: ['auto-created'],
@@ -265,6 +287,7 @@ export class TemplateSynchronizer {
 
     // Accumulate template for batch writing
     this.pendingChanges.templates.push(newTemplate);
+    this.recordTemplateSource(newTemplate.id, domainInfo);
 
     // Accumulate mapping para este dominio for batch writing
     const newMapping: TemplateRuleMapping = {
@@ -346,6 +369,7 @@ export class TemplateSynchronizer {
       expression: rule.expression || existingTemplate.expression,
       action: (rule.action as any) || existingTemplate.action,
       actionParameters: rule.action_parameters || existingTemplate.actionParameters,
+      ...templatePhaseFieldsFromRule(rule),
       version: newVersion,
       updatedAt: new Date().toISOString()
     };
@@ -360,6 +384,7 @@ export class TemplateSynchronizer {
 
     // Accumulate template update for batch writing
     this.pendingChanges.templateUpdates.push(updatedTemplate);
+    this.recordTemplateSource(updatedTemplate.id, domainInfo);
 
     // Accumulate mapping para dominio actual con nueva versión
     const newMapping: TemplateRuleMapping = {
@@ -627,6 +652,7 @@ export class TemplateSynchronizer {
       expression: rule.expression || '',
       action: (rule.action as any) || 'block',
       actionParameters: rule.action_parameters || {},
+      ...templatePhaseFieldsFromRule(rule),
       enabled: rule.enabled !== false,
       priority: this.templatesCache.templates.length + 1,
       tags: ['auto-created'],
@@ -641,6 +667,7 @@ export class TemplateSynchronizer {
 
     // Accumulate template for batch writing
     this.pendingChanges.templates.push(newTemplate);
+    this.recordTemplateSource(newTemplate.id, domainInfo);
 
     console.log(`[TemplateSynchronizer] ✅ Created new template ${friendlyId} v${newTemplate.version} (no mapping created)`);
 
@@ -710,6 +737,7 @@ export class TemplateSynchronizer {
       expression: rule.expression || existingTemplate.expression,
       action: (rule.action as any) || existingTemplate.action,
       actionParameters: rule.action_parameters || existingTemplate.actionParameters,
+      ...templatePhaseFieldsFromRule(rule),
       version: newVersion,
       updatedAt: new Date().toISOString()
     };
@@ -724,6 +752,7 @@ export class TemplateSynchronizer {
 
     // Accumulate template update for batch writing
     this.pendingChanges.templateUpdates.push(updatedTemplate);
+    this.recordTemplateSource(updatedTemplate.id, domainInfo);
 
     console.log(`[TemplateSynchronizer] ✅ Updated template ${existingTemplate.friendlyId}: ${existingTemplate.version} → ${newVersion} (no mapping created)`);
 
@@ -0,0 +1,137 @@
+/**
+ * Which Cloudflare scopes a token has on each zone, probed without changing anything
+ * Results are cached per token fingerprint in cache/token-capabilities.json, so the UI can disable
+ * the actions a zone doesn't allow before the user hits a 403. Scopes rarely change, a zone is only
+ * probed again after CAPABILITIES_TTL_MS (UNKNOWN_CAPABILITIES_TTL_MS if a probe failed) or when a refresh is requested
+ *
+ * Edit scopes can only be checked with a write request, these are built so they can't change anything:
+ * - DELETE probes target PROBE_RESOURCE_ID, Cloudflare IDs are random so an all-zero ID never exists
+ *   and the request ends in 404 Not Found right after the permission check
+ * - the settings PATCH sends an empty list of settings, there is nothing to change
+ * Only a 404 on the made-up resource (or a success) counts as granted, see CloudflareAPI.probePermission
+ */
+import { CloudflareAPI } from './cloudflare';
+import { safeReadJsonFile, safeUpdateJsonFile } from './fileSystem';
+import { getTokenFingerprint } from './auditLog';
+import { waitForRateLimitBudget } from './rateLimiter';
+import { TokenCapability, TokenCapabilityStatus, ZoneTokenCapabilities } from '@/types/cloudflare';
+
+const CAPABILITIES_FILE = 'token-capabilities.json';
+const CAPABILITIES_TTL_MS = 24 * 60 * 60 * 1000;
+// A probe that couldn't reach Cloudflare (429, 5xx, network) is retried sooner, without probing on every check
+const UNKNOWN_CAPABILITIES_TTL_MS = 5 * 60 * 1000;
+
+// Zones probed in parallel, each one costs one call per capability
+const BATCH_SIZE = 5;
+
+// Write probes point at a resource that can't exist, so they are rejected before changing anything
+const PROBE_RESOURCE_ID = '0'.repeat(32);
+
+interface CapabilityProbe {
+  endpoint: string;
+  method?: string;
+  body?: unknown;
+  expectNotFound?: boolean; // The resource is made up, a 404 means the permission check passed
+}
+
+const CAPABILITY_PROBES: Record<TokenCapability, (zoneId: string) => CapabilityProbe> = {
+  zoneRead: zoneId => ({ endpoint: `/zones/${zoneId}` }),
+  dnsEdit: zoneId => ({ endpoint: `/zones/${zoneId}/dns_records/${PROBE_RESOURCE_ID}`, method: 'DELETE', expectNotFound: true }),
+  // An empty bulk edit changes no setting
+  zoneSettingsEdit: zoneId => ({ endpoint: `/zones/${zoneId}/settings`, method: 'PATCH', body: { items: [] } }),
+  rulesetsEdit: zoneId => ({ endpoint: `/zones/${zoneId}/rulesets/${PROBE_RESOURCE_ID}`, method: 'DELETE', expectNotFound: true }),
+  // Read only: a token without Bot Management can't even read the Bot Fight Mode state
+  botManagement: zoneId => ({ endpoint: `/zones/${zoneId}/bot_management` })
+};
+
+const CAPABILITIES = Object.keys(CAPABILITY_PROBES) as TokenCapability[];
+
+interface TokenCapabilitiesCache {
+  tokens: Record<string, Record<string, ZoneTokenCapabilities>>; // Token fingerprint -> zoneId -> capabilities
+  lastUpdated: string;
+}
+
+const isFresh = (entry?: ZoneTokenCapabilities) => {
+  if (!entry) return false;
+  const ttl = Object.values(entry.capabilities).includes('unknown') ? UNKNOWN_CAPABILITIES_TTL_MS : CAPABILITIES_TTL_MS;
+  return Date.now() - new Date(entry.checkedAt).getTime() < ttl;
+};
+
+export async function probeZoneCapabilities(
+  cloudflareAPI: CloudflareAPI,
+  zoneId: string,
+  domainName: string
+): Promise<ZoneTokenCapabilities> {
+  const statuses = await Promise.all(CAPABILITIES.map(capability => {
+    const { endpoint, ...options } = CAPABILITY_PROBES[capability](zoneId);
+    return cloudflareAPI.probePermission(endpoint, options);
+  }));
+
+  return {
+    zoneId,
+    domainName,
+    checkedAt: new Date().toISOString(),
+    capabilities: Object.fromEntries(
+      CAPABILITIES.map((capability, index) => [capability, statuses[index]])
+    ) as Record<TokenCapability, TokenCapabilityStatus>
+  };
+}
+
+/**
+ * Cached capabilities of the token, without probing
+ */
+export async function loadTokenCapabilities(apiToken: string): Promise<ZoneTokenCapabilities[]> {
+  const cache = await safeReadJsonFile<Partial<TokenCapabilitiesCache>>(CAPABILITIES_FILE);
+  return Object.values(cache.tokens?.[getTokenFingerprint(apiToken)] || {});
+}
+
+/**
+ * Capabilities of the token on each zone, probing the zones without a fresh cached entry
+ * @param refresh - probe every zone again, e.g. after the token permissions were changed
+ */
+export async function getTokenCapabilities(
+  apiToken: string,
+  zones: Array<{ zoneId: string; domainName: string }>,
+  { refresh = false } = {}
+): Promise<ZoneTokenCapabilities[]> {
+  const fingerprint = getTokenFingerprint(apiToken);
+  const cache = await safeReadJsonFile<Partial<TokenCapabilitiesCache>>(CAPABILITIES_FILE);
+  const cached = cache.tokens?.[fingerprint] || {};
+
+  const pending = refresh ? zones : zones.filter(zone => !isFresh(cached[zone.zoneId]));
+  if (pending.length === 0) {
+    return zones.map(zone => cached[zone.zoneId]);
+  }
+
+  console.log(`[TokenCapabilities] Probing ${pending.length} zones (${zones.length - pending.length} cached)`);
+  const cloudflareAPI = new CloudflareAPI(apiToken);
+  const probed: ZoneTokenCapabilities[] = [];
+
+  for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+    const batch = pending.slice(i, i + BATCH_SIZE);
+    probed.push(...await Promise.all(
+      batch.map(zone => probeZoneCapabilities(cloudflareAPI, zone.zoneId, zone.domainName))
+    ));
+
+    if (i + BATCH_SIZE < pending.length) {
+      await waitForRateLimitBudget(BATCH_SIZE * CAPABILITIES.length);
+    }
+  }
+
+  const probedByZone = Object.fromEntries(probed.map(entry => [entry.zoneId, entry]));
+  await safeUpdateJsonFile<TokenCapabilitiesCache>(CAPABILITIES_FILE, current => {
+    // Entries of rotated or removed tokens expire with the TTL
+    const tokens = Object.fromEntries(
+      Object.entries(current.tokens || {})
+        .map(([key, entries]) => [key, Object.fromEntries(Object.entries(entries).filter(([, entry]) => isFresh(entry)))])
+        .filter(([, entries]) => Object.keys(entries).length > 0)
+    );
+    tokens[fingerprint] = { ...(tokens[fingerprint] || {}), ...probedByZone };
+    return { tokens, lastUpdated: new Date().toISOString() };
+  });
+
+  const denied = probed.filter(entry => Object.values(entry.capabilities).includes('denied')).length;
+  console.log(`[TokenCapabilities] Probed ${probed.length} zones, ${denied} with missing permissions`);
+
+  return zones.map(zone => probedByZone[zone.zoneId] || cached[zone.zoneId]);
+}
@@ -1,86 +1,263 @@
 /**
  * Secure token storage utility using localStorage
- * Implements basic encoding and provides centralized token management
+ * Tokens are kept in the server-side vault (see lib/tokenVault.ts), localStorage only holds the opaque
+ * handle and a masked preview. When the server has no vault the token is stored here with basic encoding
+ *
+ * Several Cloudflare accounts can be stored, each with its own token. getToken() and the rest of the
+ * single-token API work on the active account, so every request uses the token of the account picked
+ * in the header. The active account ID is mirrored in a cookie for the server (see lib/accounts.ts)
  */
 
+const ACCOUNTS_KEY = 'rollpix_cf_accounts';
+const ACCOUNT_COOKIE = 'rollpix_account';
+
+// Single-token keys used before accounts existed, migrated to the default account
 const TOKEN_KEY = 'rollpix_cf_token';
 const TOKEN_TIMESTAMP_KEY = 'rollpix_cf_token_timestamp';
 
+// Account of the token stored before multi-account support, keeps using cache/domains-cache.json
+export const DEFAULT_ACCOUNT_ID = 'default';
+const DEFAULT_ACCOUNT_NAME = 'Cuenta principal';
+
 // Token expiry time (7 days in milliseconds)
 const TOKEN_EXPIRY = 7 * 24 * 60 * 60 * 1000;
 
-interface TokenData {
-  token: string;
+export interface StoredAccount {
+  id: string;
+  name: string;
+  handle?: string; // Vault handle, sent instead of the token
+  token?: string; // Encoded, only when the server has no vault
+  maskedToken?: string;
   timestamp: number;
 }
 
+type StoredCredential = Pick<StoredAccount, 'handle' | 'token' | 'maskedToken'>;
+
+export interface CloudflareAccount {
+  id: string;
+  name: string;
+  maskedToken: string;
+  timestamp: number;
+}
+
+interface AccountsData {
+  activeId: string | null;
+  accounts: StoredAccount[];
+}
+
+const emptyAccounts = (): AccountsData => ({ activeId: null, accounts: [] });
+
+function setAccountCookie(accountId: string | null): void {
+  if (typeof document === 'undefined') return;
+  document.cookie = accountId
+    ? `${ACCOUNT_COOKIE}=${encodeURIComponent(accountId)}; path=/; max-age=${TOKEN_EXPIRY / 1000}; SameSite=Lax`
+    : `${ACCOUNT_COOKIE}=; path=/; max-age=0; SameSite=Lax`;
+}
+
+function saveAccounts(data: AccountsData): void {
+  localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(data));
+  setAccountCookie(data.activeId);
+}
+
+const maskToken = (token: string) => `***${token.slice(-8)}`;
+
+async function readVaultResponse(response: Response, fallback: string) {
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.details?.[0]?.message || result.error || fallback);
+  }
+  return result.data;
+}
+
+/**
+ * Store the token in the vault, or locally encoded when the server has no vault
+ */
+async function storeCredential(token: string): Promise<StoredCredential> {
+  const response = await fetch('/api/token-vault', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ token })
+  });
+
+  if (response.status === 503) {
+    return { token: btoa(token), maskedToken: maskToken(token) };
+  }
+
+  const { handle, maskedToken } = await readVaultResponse(response, 'Error al guardar el token');
+  return { handle, maskedToken };
+}
+
+/**
+ * Drop the token behind a handle from the vault, callers that don't wait for it never see an error
+ */
+async function forgetHandle(handle?: string): Promise<void> {
+  if (!handle || typeof fetch === 'undefined') return;
+  await fetch('/api/token-vault', { method: 'DELETE', headers: { 'x-api-token': handle } })
+    .catch(error => console.warn('Failed to remove token from vault:', error));
+}
+
+const decodeCredential = (account: StoredAccount): string | null => {
+  if (account.handle) return account.handle;
+  return account.token ? atob(account.token) : null;
+};
+
+function migrateLegacyToken(): AccountsData {
+  const data = emptyAccounts();
+  const encoded = localStorage.getItem(TOKEN_KEY);
+  const timestampStr = localStorage.getItem(TOKEN_TIMESTAMP_KEY);
+
+  if (encoded && timestampStr) {
+    data.accounts.push({
+      id: DEFAULT_ACCOUNT_ID,
+      name: DEFAULT_ACCOUNT_NAME,
+      token: encoded,
+      timestamp: parseInt(timestampStr, 10)
+    });
+    data.activeId = DEFAULT_ACCOUNT_ID;
+    console.log('Token migrated to the default account');
+  }
+
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(TOKEN_TIMESTAMP_KEY);
+  return data;
+}
+
+/**
+ * Load accounts dropping the expired ones, the first remaining account becomes active if needed
+ */
+function loadAccounts(): AccountsData {
+  if (typeof window === 'undefined') return emptyAccounts(); // SSR safety
+
+  try {
+    const raw = localStorage.getItem(ACCOUNTS_KEY);
+    const data: AccountsData = raw ? JSON.parse(raw) : migrateLegacyToken();
+
+    const now = Date.now();
+    const valid = data.accounts.filter(account => now - account.timestamp <= TOKEN_EXPIRY);
+    if (valid.length !== data.accounts.length) {
+      console.log(`${data.accounts.length - valid.length} expired account token(s) cleared`);
+      data.accounts.filter(account => !valid.includes(account)).forEach(account => forgetHandle(account.handle));
+    }
+
+    const activeId = valid.some(account => account.id === data.activeId)
+      ? data.activeId
+      : valid[0]?.id ?? null;
+
+    const result = { activeId, accounts: valid };
+    if (!raw || valid.length !== data.accounts.length || activeId !== data.activeId) {
+      saveAccounts(result);
+    }
+    return result;
+  } catch (error) {
+    console.error('Failed to load accounts:', error);
+    localStorage.removeItem(ACCOUNTS_KEY); // Clear corrupted data
+    setAccountCookie(null);
+    return emptyAccounts();
+  }
+}
+
+const toAccount = (account: StoredAccount): CloudflareAccount => {
+  let maskedToken = account.maskedToken || '***';
+  if (!account.maskedToken && account.token) {
+    try {
+      maskedToken = maskToken(atob(account.token));
+    } catch {
+      // Corrupted token, keep the placeholder
+    }
+  }
+  return { id: account.id, name: account.name, maskedToken, timestamp: account.timestamp };
+};
+
+const generateAccountId = (): string => {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `acc-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+};
+
 export const tokenStorage = {
   /**
-   * Store token securely in localStorage with timestamp
+   * Store the token of the active account, creating the default account when there is none
+   * A vaulted account rotates the token behind its handle, the server validates the new token first
    * @param token - Cloudflare API token
    */
-  setToken: (token: string): void => {
+  setToken: async (token: string): Promise<void> => {
     if (typeof window === 'undefined') return; // SSR safety
 
-    try {
-      // Basic encoding (not encryption, just obfuscation)
-      const encoded = btoa(token);
-      const timestamp = Date.now();
+    const data = loadAccounts();
+    const active = data.accounts.find(account => account.id === data.activeId);
 
-      localStorage.setItem(TOKEN_KEY, encoded);
-      localStorage.setItem(TOKEN_TIMESTAMP_KEY, timestamp.toString());
-
-      console.log('Token stored successfully');
-    } catch (error) {
-      console.error('Failed to store token:', error);
-      throw new Error('Failed to store token securely');
+    let credential: StoredCredential;
+    if (active?.handle) {
+      const response = await fetch('/api/token-vault', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'x-api-token': active.handle },
+        body: JSON.stringify({ token })
+      });
+      const { token: info } = await readVaultResponse(response, 'El nuevo token no superó la validación');
+      credential = { handle: active.handle, maskedToken: info.maskedToken };
+    } else {
+      credential = await storeCredential(token);
     }
+
+    tokenStorage.setCredential(credential);
+    console.log('Token stored successfully');
   },
 
   /**
-   * Retrieve token from localStorage with expiry check
-   * @returns token string or null if not found/expired
+   * Store an already vaulted token (e.g. the environment token) for the active account
    */
-  getToken: (): string | null => {
-    if (typeof window === 'undefined') return null; // SSR safety
-
-    try {
-      const encoded = localStorage.getItem(TOKEN_KEY);
-      const timestampStr = localStorage.getItem(TOKEN_TIMESTAMP_KEY);
+  setTokenHandle: (handle: string, maskedToken: string): void => {
+    tokenStorage.setCredential({ handle, maskedToken });
+  },
 
-      if (!encoded || !timestampStr) {
-        return null;
-      }
+  setCredential: (credential: StoredCredential): void => {
+    if (typeof window === 'undefined') return; // SSR safety
 
-      const timestamp = parseInt(timestampStr, 10);
-      const now = Date.now();
+    try {
+      const timestamp = Date.now();
+      const data = loadAccounts();
 
-      // Check if token has expired
-      if (now - timestamp > TOKEN_EXPIRY) {
-        console.log('Token expired, clearing storage');
-        tokenStorage.clearToken();
-        return null;
+      const active = data.accounts.find(account => account.id === data.activeId);
+      if (active) {
+        if (active.handle && active.handle !== credential.handle) forgetHandle(active.handle);
+        active.handle = credential.handle;
+        active.token = credential.token;
+        active.maskedToken = credential.maskedToken;
+        active.timestamp = timestamp;
+      } else {
+        const id = data.accounts.some(account => account.id === DEFAULT_ACCOUNT_ID) ? generateAccountId() : DEFAULT_ACCOUNT_ID;
+        data.accounts.push({ id, name: DEFAULT_ACCOUNT_NAME, ...credential, timestamp });
+        data.activeId = id;
       }
 
-      // Decode and return token
-      const token = atob(encoded);
-      return token;
+      saveAccounts(data);
     } catch (error) {
-      console.error('Failed to retrieve token:', error);
-      tokenStorage.clearToken(); // Clear corrupted data
-      return null;
+      console.error('Failed to store token:', error);
+      throw new Error('Failed to store token securely');
     }
   },
 
   /**
-   * Remove token from localStorage
+   * Retrieve the credential of the active account with expiry check, sent as `x-api-token`:
+   * the vault handle, or the token itself when the server has no vault
+   * @returns credential string or null if not found/expired
+   */
+  getToken: (): string | null => {
+    const data = loadAccounts();
+    return data.activeId ? tokenStorage.getAccountToken(data.activeId) : null;
+  },
+
+  /**
+   * Remove the active account and its token, the next account (if any) becomes active
    */
   clearToken: (): void => {
     if (typeof window === 'undefined') return; // SSR safety
 
     try {
-      localStorage.removeItem(TOKEN_KEY);
-      localStorage.removeItem(TOKEN_TIMESTAMP_KEY);
+      const data = loadAccounts();
+      if (data.activeId) {
+        tokenStorage.removeAccount(data.activeId);
+      }
       console.log('Token cleared from storage');
     } catch (error) {
       console.error('Failed to clear token:', error);
@@ -97,23 +274,171 @@ export const tokenStorage = {
 
   /**
    * Get token age in hours
-   * @returns hours since token was stored, or null if no token
+   * @returns hours since the token of the active account was stored, or null if no token
    */
   getTokenAge: (): number | null => {
-    if (typeof window === 'undefined') return null;
+    const account = tokenStorage.getActiveAccount();
+    if (!account) return null;
+    return Math.floor((Date.now() - account.timestamp) / (1000 * 60 * 60)); // Convert to hours
+  },
 
-    try {
-      const timestampStr = localStorage.getItem(TOKEN_TIMESTAMP_KEY);
-      if (!timestampStr) return null;
+  /**
+   * Stored accounts, tokens masked
+   */
+  getAccounts: (): CloudflareAccount[] => {
+    return loadAccounts().accounts.map(toAccount);
+  },
+
+  getActiveAccount: (): CloudflareAccount | null => {
+    const data = loadAccounts();
+    const active = data.accounts.find(account => account.id === data.activeId);
+    return active ? toAccount(active) : null;
+  },
+
+  /**
+   * Credential of any stored account, for operations that span accounts
+   */
+  getAccountToken: (accountId: string): string | null => {
+    const account = loadAccounts().accounts.find(item => item.id === accountId);
+    if (!account) return null;
 
-      const timestamp = parseInt(timestampStr, 10);
-      const now = Date.now();
-      return Math.floor((now - timestamp) / (1000 * 60 * 60)); // Convert to hours
+    try {
+      return decodeCredential(account);
     } catch (error) {
+      console.error('Failed to decode account token:', error);
+      tokenStorage.removeAccount(accountId); // Clear corrupted data
       return null;
     }
   },
 
+  /**
+   * Add an account and make it active
+   * @returns the new account
+   */
+  addAccount: async (name: string, token: string): Promise<CloudflareAccount> => {
+    if (typeof window === 'undefined') throw new Error('Accounts are only available in the browser');
+
+    const credential = await storeCredential(token);
+    const data = loadAccounts();
+    const account: StoredAccount = {
+      id: data.accounts.length === 0 ? DEFAULT_ACCOUNT_ID : generateAccountId(),
+      name: name.trim() || `Cuenta ${data.accounts.length + 1}`,
+      ...credential,
+      timestamp: Date.now()
+    };
+
+    data.accounts.push(account);
+    data.activeId = account.id;
+    saveAccounts(data);
+    return toAccount(account);
+  },
+
+  renameAccount: (accountId: string, name: string): void => {
+    const data = loadAccounts();
+    const account = data.accounts.find(item => item.id === accountId);
+    if (!account || !name.trim()) return;
+
+    account.name = name.trim();
+    saveAccounts(data);
+  },
+
+  /**
+   * Remove the accounts whose token is in the vault, on user logout so the next user of the browser
+   * doesn't inherit them. Waits for the vault, its DELETE needs the session that is about to end
+   */
+  forgetVaultedAccounts: async (): Promise<void> => {
+    if (typeof window === 'undefined') return; // SSR safety
+
+    const data = loadAccounts();
+    const vaulted = data.accounts.filter(account => account.handle);
+    if (vaulted.length === 0) return;
+
+    await Promise.all(vaulted.map(account => forgetHandle(account.handle)));
+    data.accounts = data.accounts.filter(account => !account.handle);
+    if (!data.accounts.some(account => account.id === data.activeId)) {
+      data.activeId = data.accounts[0]?.id ?? null;
+    }
+    saveAccounts(data);
+  },
+
+  removeAccount: (accountId: string): void => {
+    const data = loadAccounts();
+    forgetHandle(data.accounts.find(account => account.id === accountId)?.handle);
+    data.accounts = data.accounts.filter(account => account.id !== accountId);
+    if (data.activeId === accountId) {
+      data.activeId = data.accounts[0]?.id ?? null;
+    }
+    saveAccounts(data);
+  },
+
+  /**
+   * Switch the account used by every request
+   */
+  setActiveAccount: (accountId: string): void => {
+    const data = loadAccounts();
+    if (!data.accounts.some(account => account.id === accountId)) {
+      throw new Error(`Unknown account: ${accountId}`);
+    }
+
+    data.activeId = accountId;
+    saveAccounts(data);
+  },
+
+  /**
+   * Whether the token is the one of the active account, compared by its masked preview when vaulted
+   */
+  isCurrentToken: (token: string): boolean => {
+    const data = loadAccounts();
+    const active = data.accounts.find(account => account.id === data.activeId);
+    if (!active) return false;
+    if (active.token) return decodeCredential(active) === token;
+    return active.maskedToken === maskToken(token);
+  },
+
+  /**
+   * Move tokens stored before the vault was enabled into it, and drop accounts whose handle the
+   * vault no longer knows (key changed, vault disabled) so they are entered again
+   * @returns whether any account changed
+   */
+  syncWithVault: async (): Promise<boolean> => {
+    const data = loadAccounts();
+    if (data.accounts.length === 0) return false;
+
+    const status = await fetch('/api/token-vault').then(response => response.json()).catch(() => null);
+    if (!status?.success) return false;
+    const configured: boolean = status.data.configured;
+
+    let changed = false;
+    for (const account of [...data.accounts]) {
+      try {
+        if (configured && account.token) {
+          const credential = await storeCredential(atob(account.token));
+          Object.assign(account, { ...credential, token: undefined });
+          changed = true;
+        } else if (account.handle) {
+          const response = configured
+            ? await fetch('/api/token-vault', { headers: { 'x-api-token': account.handle } })
+            : null;
+          if (!response || response.status === 404) {
+            console.warn(`Token of account ${account.name} is no longer in the vault`);
+            data.accounts = data.accounts.filter(item => item !== account);
+            changed = true;
+          }
+        }
+      } catch (error) {
+        console.error(`Failed to sync account ${account.name} with the vault:`, error);
+      }
+    }
+
+    if (changed) {
+      if (!data.accounts.some(account => account.id === data.activeId)) {
+        data.activeId = data.accounts[0]?.id ?? null;
+      }
+      saveAccounts(data);
+    }
+    return changed;
+  },
+
   /**
    * Validate token format (basic validation)
    * @param token - Token to validate
@@ -0,0 +1,254 @@
+/**
+ * Server-side vault for Cloudflare API tokens
+ * Tokens are encrypted at rest with AES-256-GCM in cache/token-vault.json using the TOKEN_VAULT_KEY
+ * environment variable. The browser only keeps an opaque handle and a masked preview and sends the
+ * handle in `x-api-token`, routes resolve it back to the token with getRequestApiToken()
+ *
+ * Without TOKEN_VAULT_KEY the vault is disabled and routes keep receiving the token itself
+ *
+ * Handles expire HANDLE_MAX_AGE_MS after the token was stored or rotated, as the browser drops its
+ * tokens, expired entries are removed whenever a token is stored
+ */
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from 'crypto';
+import { safeReadJsonFile, safeUpdateJsonFile } from './fileSystem';
+
+const VAULT_FILE = 'token-vault.json';
+const HANDLE_PREFIX = 'vt_';
+const CIPHER = 'aes-256-gcm';
+const HANDLE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // Same expiry as the tokens stored in the browser
+
+interface VaultEntry {
+  id: string; // SHA-256 of the handle, the handle itself is never stored
+  maskedToken: string;
+  keyId: string; // Identifies the key that encrypted the token, to report key changes
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+  createdAt: string;
+  rotatedAt?: string;
+  ownerId?: string; // User that stored the token, only that user can rotate or remove it
+  fromEnvironment?: boolean; // CLOUDFLARE_API_TOKEN, each owner keeps a single entry for it
+}
+
+interface VaultCache {
+  entries: VaultEntry[];
+  lastUpdated: string;
+}
+
+export interface VaultTokenInfo {
+  maskedToken: string;
+  createdAt: string;
+  rotatedAt?: string;
+}
+
+export class TokenVaultError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'TokenVaultError';
+  }
+}
+
+let cachedKey: { source: string; key: Buffer; keyId: string } | null = null;
+
+// Buffer.from skips characters outside the alphabet, so the value must encode back to itself
+function isBase64Key(source: string): boolean {
+  if (!/^[A-Za-z0-9+/]{43}=?$/.test(source)) return false;
+  const decoded = Buffer.from(source, 'base64');
+  return decoded.length === 32 && decoded.toString('base64').replace(/=$/, '') === source.replace(/=$/, '');
+}
+
+/**
+ * 32 bytes given as 64 hex characters or canonical base64 are used as is, any other value is
+ * treated as a passphrase
+ */
+function getVaultKey(): { key: Buffer; keyId: string } {
+  const source = process.env.TOKEN_VAULT_KEY;
+  if (!source) {
+    throw new TokenVaultError('Token vault is not configured (TOKEN_VAULT_KEY)', 503);
+  }
+  if (cachedKey?.source === source) return cachedKey;
+
+  let key: Buffer;
+  if (/^[a-f0-9]{64}$/i.test(source)) {
+    key = Buffer.from(source, 'hex');
+  } else if (isBase64Key(source)) {
+    key = Buffer.from(source, 'base64');
+  } else {
+    key = scryptSync(source, 'rollpix-token-vault', 32);
+  }
+
+  const keyId = createHash('sha256').update(key).digest('hex').slice(0, 8);
+  cachedKey = { source, key, keyId };
+  return cachedKey;
+}
+
+export const isTokenVaultConfigured = (): boolean => Boolean(process.env.TOKEN_VAULT_KEY);
+
+export const isTokenHandle = (value: string): boolean => value.startsWith(HANDLE_PREFIX);
+
+const hashHandle = (handle: string) => createHash('sha256').update(handle).digest('hex');
+
+export const maskToken = (token: string) => `***${token.slice(-8)}`;
+
+function encrypt(token: string): Pick<VaultEntry, 'keyId' | 'iv' | 'authTag' | 'ciphertext'> {
+  const { key, keyId } = getVaultKey();
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(token, 'utf8'), cipher.final()]);
+  return {
+    keyId,
+    iv: iv.toString('base64'),
+    authTag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64')
+  };
+}
+
+function decrypt(entry: VaultEntry): string | null {
+  const { key, keyId } = getVaultKey();
+  if (entry.keyId !== keyId) {
+    console.error(`[TokenVault] Token ${entry.maskedToken} was encrypted with another key, it must be stored again`);
+    return null;
+  }
+
+  try {
+    const decipher = createDecipheriv(CIPHER, key, Buffer.from(entry.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(entry.authTag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(entry.ciphertext, 'base64')), decipher.final()]).toString('utf8');
+  } catch (error) {
+    console.error(`[TokenVault] Could not decrypt token ${entry.maskedToken}:`, error);
+    return null;
+  }
+}
+
+const isExpired = (entry: VaultEntry) => {
+  return Date.now() - new Date(entry.rotatedAt || entry.createdAt).getTime() > HANDLE_MAX_AGE_MS;
+};
+
+async function findEntry(handle: string): Promise<VaultEntry | null> {
+  if (!isTokenHandle(handle)) return null;
+  const cache = await safeReadJsonFile<Partial<VaultCache>>(VAULT_FILE);
+  const id = hashHandle(handle);
+  return (cache.entries || []).find(entry => entry.id === id && !isExpired(entry)) || null;
+}
+
+const toInfo = ({ maskedToken, createdAt, rotatedAt }: VaultEntry): VaultTokenInfo => ({ maskedToken, createdAt, rotatedAt });
+
+/**
+ * Entries stored by a logged in user belong to that user, without login (ownerId undefined) or for
+ * tokens stored before login was enabled there is no owner to check
+ */
+function assertOwner(entry: VaultEntry, ownerId?: string): void {
+  if (ownerId && entry.ownerId && entry.ownerId !== ownerId) {
+    throw new TokenVaultError('Token handle belongs to another user', 403);
+  }
+}
+
+/**
+ * Encrypt and store the token
+ * With fromEnvironment the previous environment token entry of the same owner is replaced, so asking
+ * for it again doesn't add entries
+ * @returns the handle the browser uses instead of the token, it is only returned here
+ */
+export async function storeToken(
+  token: string,
+  { ownerId, fromEnvironment = false }: { ownerId?: string; fromEnvironment?: boolean } = {}
+): Promise<{ handle: string } & VaultTokenInfo> {
+  const handle = `${HANDLE_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const entry: VaultEntry = {
+    id: hashHandle(handle),
+    maskedToken: maskToken(token),
+    ...encrypt(token),
+    createdAt: new Date().toISOString(),
+    ...(ownerId && { ownerId }),
+    ...(fromEnvironment && { fromEnvironment })
+  };
+
+  let expired = 0;
+  await safeUpdateJsonFile<VaultCache>(VAULT_FILE, cache => {
+    const entries = (cache.entries || []).filter(item => !isExpired(item));
+    expired = (cache.entries || []).length - entries.length;
+    const kept = fromEnvironment
+      ? entries.filter(item => !(item.fromEnvironment && item.ownerId === ownerId))
+      : entries;
+    return { entries: [...kept, entry], lastUpdated: new Date().toISOString() };
+  });
+  console.log(`[TokenVault] Stored token ${entry.maskedToken}${expired ? `, removed ${expired} expired` : ''}`);
+  return { handle, ...toInfo(entry) };
+}
+
+/**
+ * Replace the token behind a handle, the browser keeps using the same handle
+ */
+export async function rotateToken(handle: string, token: string, { ownerId }: { ownerId?: string } = {}): Promise<VaultTokenInfo> {
+  const id = hashHandle(handle);
+  const sealed = encrypt(token);
+  let rotated: VaultEntry | null = null;
+
+  await safeUpdateJsonFile<VaultCache>(VAULT_FILE, cache => {
+    const entries = (cache.entries || []).map(entry => {
+      if (entry.id !== id || isExpired(entry)) return entry;
+      assertOwner(entry, ownerId);
+      rotated = { ...entry, ...sealed, maskedToken: maskToken(token), rotatedAt: new Date().toISOString() };
+      return rotated;
+    });
+    return { entries, lastUpdated: new Date().toISOString() };
+  });
+
+  if (!rotated) {
+    throw new TokenVaultError('Token handle not found', 404);
+  }
+  console.log(`[TokenVault] Rotated token to ${maskToken(token)}`);
+  return toInfo(rotated);
+}
+
+export async function removeToken(handle: string, { ownerId }: { ownerId?: string } = {}): Promise<boolean> {
+  const id = hashHandle(handle);
+  let removed = false;
+
+  await safeUpdateJsonFile<VaultCache>(VAULT_FILE, cache => {
+    const current = (cache.entries || []).find(entry => entry.id === id);
+    if (!current) return cache;
+    assertOwner(current, ownerId);
+    removed = true;
+    return { entries: (cache.entries || []).filter(entry => entry.id !== id), lastUpdated: new Date().toISOString() };
+  });
+
+  if (removed) console.log('[TokenVault] Removed token');
+  return removed;
+}
+
+export async function getTokenInfo(handle: string): Promise<VaultTokenInfo | null> {
+  const entry = await findEntry(handle);
+  return entry && decrypt(entry) !== null ? toInfo(entry) : null;
+}
+
+/**
+ * Token behind the credential sent by the browser
+ * Handles are looked up in the vault. Tokens sent as is are only accepted while the vault is
+ * disabled, or with allowRawToken for routes that check a token before it is stored (/api/test-token)
+ */
+export async function resolveApiToken(credential: unknown, { allowRawToken = false } = {}): Promise<string | null> {
+  if (typeof credential !== 'string' || !credential) return null;
+
+  if (isTokenHandle(credential)) {
+    if (!isTokenVaultConfigured()) {
+      console.warn('[TokenVault] Received a token handle but the vault is not configured');
+      return null;
+    }
+    const entry = await findEntry(credential);
+    return entry ? decrypt(entry) : null;
+  }
+
+  if (isTokenVaultConfigured() && !allowRawToken) {
+    console.warn('[TokenVault] Rejected an API token sent in the request, the vault is enabled');
+    return null;
+  }
+  return credential;
+}
+
+/**
+ * Token of the request, from the handle (or token) in the x-api-token header
+ */
+export function getRequestApiToken(request: Request, options: { allowRawToken?: boolean } = {}): Promise<string | null> {
+  return resolveApiToken(request.headers.get('x-api-token'), options);
+}
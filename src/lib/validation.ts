@@ -3,6 +3,21 @@
  * Implements input validation to prevent injection attacks and data corruption
  */
 import { z } from 'zod';
+import { validateExpression } from './ruleExpression';
+import { parseCronExpression } from './cronExpression';
+import { ACCOUNT_ID_PATTERN } from './accounts';
+import { USER_ROLES } from './permissions';
+import {
+  PHASE_ACTIONS,
+  PHASE_CONFIG_FIELDS,
+  RATE_LIMIT_MITIGATION_TIMEOUTS,
+  RATE_LIMIT_PERIODS,
+  REDIRECT_STATUS_CODES,
+  REQUIRED_RATE_LIMIT_CHARACTERISTIC,
+  getHighestWildcardReference
+} from './rulePhases';
+import { MANAGED_RULESETS, MANAGED_RULESET_ACTIONS, OWASP_PARANOIA_LEVELS, isOwaspRuleset } from './managedRulesets';
+import { ConflictResolution } from '@/types/cloudflare';
 
 // Base validation schemas
 export const ZoneIdSchema = z.string()
@@ -14,6 +29,11 @@ export const ApiTokenSchema = z.string()
   .min(40, 'API token must be at least 40 characters')
   .regex(/^[a-zA-Z0-9_-]+$/, 'API token contains invalid characters');
 
+// Token stored in or rotated into the server-side vault
+export const TokenVaultTokenSchema = z.object({
+  token: z.string().trim().pipe(ApiTokenSchema)
+});
+
 export const DomainNameSchema = z.string()
   .min(1, 'Domain name is required')
   .max(253, 'Domain name too long')
@@ -37,6 +57,242 @@ export const ProxyToggleSchema = z.object({
   proxied: z.boolean()
 });
 
+// DNS record validation (one schema per record type)
+const DNSRecordNameSchema = z.string()
+  .min(1, 'Record name is required')
+  .max(255, 'Record name too long')
+  .regex(/^[a-zA-Z0-9._*@-]+$/, 'Record name contains invalid characters');
+
+const HostnameSchema = z.string()
+  .min(1, 'Hostname is required')
+  .max(253, 'Hostname too long')
+  .regex(/^[a-zA-Z0-9._-]+$/, 'Hostname contains invalid characters');
+
+// 1 means "automatic" in Cloudflare, otherwise 60 seconds to 1 day
+const DNSRecordTTLSchema = z.number().int().refine(
+  (ttl) => ttl === 1 || (ttl >= 60 && ttl <= 86400),
+  'TTL must be 1 (automatic) or between 60 and 86400 seconds'
+);
+
+const DNSRecordBaseSchema = z.object({
+  name: DNSRecordNameSchema,
+  ttl: DNSRecordTTLSchema.default(1),
+  comment: z.string().max(100, 'Comment too long').optional(),
+  tags: z.array(
+    z.string().regex(/^[^:\s]+:.*$/, 'Tags must be in format name:value')
+  ).max(20, 'Too many tags').optional()
+});
+
+export const ARecordSchema = DNSRecordBaseSchema.extend({
+  type: z.literal('A'),
+  content: z.ipv4('Content must be a valid IPv4 address'),
+  proxied: z.boolean().default(false)
+});
+
+export const AAAARecordSchema = DNSRecordBaseSchema.extend({
+  type: z.literal('AAAA'),
+  content: z.ipv6('Content must be a valid IPv6 address'),
+  proxied: z.boolean().default(false)
+});
+
+export const CNAMERecordSchema = DNSRecordBaseSchema.extend({
+  type: z.literal('CNAME'),
+  content: HostnameSchema,
+  proxied: z.boolean().default(false)
+});
+
+export const MXRecordSchema = DNSRecordBaseSchema.extend({
+  type: z.literal('MX'),
+  content: HostnameSchema,
+  priority: z.number().int().min(0).max(65535)
+});
+
+export const TXTRecordSchema = DNSRecordBaseSchema.extend({
+  type: z.literal('TXT'),
+  content: z.string().min(1, 'Content is required').max(2048, 'TXT content too long')
+});
+
+export const SRVRecordSchema = DNSRecordBaseSchema.extend({
+  type: z.literal('SRV'),
+  name: DNSRecordNameSchema.regex(/^_[a-zA-Z0-9-]+\._(tcp|udp|tls)(\.|$)/, 'SRV name must start with _service._protocol'),
+  data: z.object({
+    priority: z.number().int().min(0).max(65535),
+    weight: z.number().int().min(0).max(65535),
+    port: z.number().int().min(0).max(65535),
+    target: HostnameSchema
+  })
+});
+
+export const CAARecordSchema = DNSRecordBaseSchema.extend({
+  type: z.literal('CAA'),
+  data: z.object({
+    flags: z.number().int().min(0).max(255),
+    tag: z.enum(['issue', 'issuewild', 'iodef']),
+    value: z.string().min(1, 'CAA value is required').max(255, 'CAA value too long')
+  })
+});
+
+export const DNSRecordSchema = z.discriminatedUnion('type', [
+  ARecordSchema,
+  AAAARecordSchema,
+  CNAMERecordSchema,
+  MXRecordSchema,
+  TXTRecordSchema,
+  SRVRecordSchema,
+  CAARecordSchema
+]);
+
+export const DNSRecordIdSchema = z.string()
+  .min(32, 'Record ID must be at least 32 characters')
+  .regex(/^[a-f0-9]+$/, 'Record ID must contain only lowercase hexadecimal characters');
+
+// Zone file import validation
+export const ZoneFileImportSchema = z.object({
+  zoneFile: z.string()
+    .min(1, 'Zone file is required')
+    .max(1024 * 1024, 'Zone file too large (max 1 MB)'),
+  includeDeletes: z.boolean().default(false)
+});
+
+// Origin migration (cross-zone find and replace) validation
+const OriginMigrationTargetSchema = z.object({
+  zoneId: ZoneIdSchema,
+  domainName: DomainNameSchema
+});
+
+export const OriginMigrationSearchSchema = z.object({
+  find: z.string().trim().min(1, 'Value to find is required').max(253, 'Value to find too long'),
+  replace: z.string().trim().min(1, 'Replacement value is required').max(253, 'Replacement value too long'),
+  recordTypes: z.array(z.enum(['A', 'AAAA', 'CNAME'])).min(1, 'At least one record type is required').default(['A', 'AAAA', 'CNAME']),
+  targets: z.array(OriginMigrationTargetSchema).min(1, 'At least one zone is required')
+}).refine(
+  (data) => data.find.toLowerCase() !== data.replace.toLowerCase(),
+  'Replacement value must be different from the value to find'
+);
+
+export const OriginMigrationApplySchema = z.object({
+  find: z.string().trim().min(1, 'Value to find is required').max(253, 'Value to find too long'),
+  replace: z.string().trim().min(1, 'Replacement value is required').max(253, 'Replacement value too long'),
+  targets: z.array(OriginMigrationTargetSchema.extend({
+    recordIds: z.array(DNSRecordIdSchema).min(1, 'At least one record is required')
+  })).min(1, 'At least one zone is required')
+});
+
+// Zone settings profile validation
+export const ZoneSettingsValuesSchema = z.object({
+  ssl: z.enum(['off', 'flexible', 'full', 'strict']).optional(),
+  always_use_https: z.enum(['on', 'off']).optional(),
+  min_tls_version: z.enum(['1.0', '1.1', '1.2', '1.3']).optional(),
+  security_header: z.object({
+    enabled: z.boolean(),
+    max_age: z.number().int().min(0).max(31536000),
+    include_subdomains: z.boolean(),
+    preload: z.boolean()
+  }).optional(),
+  brotli: z.enum(['on', 'off']).optional(),
+  browser_check: z.enum(['on', 'off']).optional(),
+  security_level: z.enum(['off', 'essentially_off', 'low', 'medium', 'high', 'under_attack']).optional()
+}).refine(
+  (settings) => Object.values(settings).some(value => value !== undefined),
+  'A profile must define at least one setting'
+);
+
+export const ZoneSettingsProfileSchema = z.object({
+  name: z.string().trim().min(1, 'Profile name is required').max(100, 'Profile name too long'),
+  description: z.string().max(500, 'Profile description too long').optional(),
+  settings: ZoneSettingsValuesSchema,
+  isDefault: z.boolean().optional()
+});
+
+export const ZoneSettingsTargetsSchema = z.object({
+  profileId: z.string().min(1, 'Profile ID is required'),
+  targets: z.array(z.object({
+    zoneId: ZoneIdSchema,
+    domainName: DomainNameSchema
+  })).min(1, 'At least one zone is required')
+});
+
+// Token capability probe validation
+export const TokenCapabilitiesRequestSchema = z.object({
+  targets: z.array(z.object({
+    zoneId: ZoneIdSchema,
+    domainName: DomainNameSchema
+  })).min(1, 'At least one zone is required'),
+  refresh: z.boolean().default(false)
+});
+
+// Account IP lists and zone IP access rules validation
+export const AccountIdSchema = z.string()
+  .regex(/^[a-f0-9]{32}$/, 'Account ID must be 32 lowercase hexadecimal characters');
+
+export const IPListIdSchema = z.string()
+  .regex(/^[a-f0-9]{32}$/, 'List ID must be 32 lowercase hexadecimal characters');
+
+const IPOrCidrSchema = z.union(
+  [z.ipv4(), z.ipv6(), z.cidrv4(), z.cidrv6()],
+  { error: 'Must be an IPv4/IPv6 address or CIDR range' }
+);
+
+export const IPListItemSchema = z.object({
+  ip: IPOrCidrSchema,
+  comment: z.string().trim().max(500, 'Comment too long').optional().transform(value => value || undefined)
+});
+
+export const IPListCreateSchema = z.object({
+  accountId: AccountIdSchema,
+  // Same rules Cloudflare applies, the name is what expressions reference as $name
+  name: z.string()
+    .min(1, 'List name is required')
+    .max(50, 'List name too long (max 50 characters)')
+    .regex(/^[a-z0-9_]+$/, 'List name may only contain lowercase letters, digits and underscores'),
+  description: z.string().max(500, 'List description too long').optional()
+});
+
+export const IPListItemsAddSchema = z.object({
+  accountId: AccountIdSchema,
+  items: z.array(IPListItemSchema)
+    .min(1, 'At least one item is required')
+    .max(10000, 'Too many items in one import (max 10000)')
+});
+
+export const IPListItemsRemoveSchema = z.object({
+  accountId: AccountIdSchema,
+  itemIds: z.array(z.string().regex(/^[a-f0-9]{32}$/, 'Invalid item ID')).min(1, 'At least one item is required')
+});
+
+export const IPListUsageSchema = z.object({
+  accountId: AccountIdSchema,
+  targets: z.array(z.object({
+    zoneId: ZoneIdSchema,
+    domainName: DomainNameSchema
+  })).min(1, 'At least one zone is required')
+});
+
+export const IPAccessRuleSchema = z.discriminatedUnion('target', [
+  z.object({ target: z.literal('ip'), value: z.ipv4('Value must be a valid IPv4 address') }),
+  z.object({ target: z.literal('ip6'), value: z.ipv6('Value must be a valid IPv6 address') }),
+  z.object({
+    target: z.literal('ip_range'),
+    // Cloudflare only accepts /16 and /24 IPv4 ranges and /32, /48 and /64 IPv6 ranges
+    value: z.union([z.cidrv4(), z.cidrv6()], { error: 'Value must be a CIDR range' }).refine(
+      (value) => value.includes(':') ? /\/(32|48|64)$/.test(value) : /\/(16|24)$/.test(value),
+      'IP ranges must be /16 or /24 (IPv4) or /32, /48 or /64 (IPv6)'
+    )
+  }),
+  z.object({
+    target: z.literal('asn'),
+    value: z.string().trim().regex(/^(AS)?\d+$/i, 'Value must be an ASN such as AS13335')
+      .transform(value => `AS${value.replace(/^AS/i, '')}`)
+  }),
+  z.object({ target: z.literal('country'), value: z.string().regex(/^[A-Z]{2}$/, 'Value must be a two letter country code') })
+]).and(z.object({
+  mode: z.enum(['block', 'challenge', 'js_challenge', 'managed_challenge', 'whitelist']),
+  notes: z.string().max(500, 'Notes too long').optional()
+}));
+
+export const IPAccessRuleIdSchema = z.string()
+  .regex(/^[a-f0-9]{32}$/, 'Invalid access rule ID');
+
 // Domain cache validation
 export const DomainCacheSchema = z.object({
   domains: z.array(z.object({
@@ -96,6 +352,287 @@ export const SecurityRuleTemplateSchema = z.object({
   tags: z.array(z.string()).default([])
 });
 
+export const RateLimitConfigSchema = z.object({
+  characteristics: z.array(z.string().trim().min(1, 'Characteristic can not be empty'))
+    .min(1, 'At least one characteristic is required')
+    .refine(list => list.includes(REQUIRED_RATE_LIMIT_CHARACTERISTIC), {
+      message: `Characteristics must include ${REQUIRED_RATE_LIMIT_CHARACTERISTIC}`
+    }),
+  period: z.number().int().refine(value => RATE_LIMIT_PERIODS.includes(value), {
+    message: `Period must be one of ${RATE_LIMIT_PERIODS.join(', ')} seconds`
+  }),
+  requestsPerPeriod: z.number().int().min(1, 'Requests per period must be at least 1'),
+  mitigationTimeout: z.number().int().refine(value => RATE_LIMIT_MITIGATION_TIMEOUTS.includes(value), {
+    message: `Mitigation timeout must be one of ${RATE_LIMIT_MITIGATION_TIMEOUTS.join(', ')} seconds`
+  }),
+  countingExpression: z.string().trim().optional().superRefine((expression, ctx) => {
+    if (!expression) return;
+    const check = validateExpression(expression);
+    if (!check.valid) {
+      ctx.addIssue({ code: 'custom', message: `Invalid counting expression: ${check.errors[0].message}` });
+    }
+  }),
+  requestsToOrigin: z.boolean().optional()
+});
+
+// Empty inputs from the forms mean "not set"
+const OptionalTextSchema = z.string().trim().optional().transform(value => value || undefined);
+
+function checkWildcardReferences(
+  ctx: z.RefinementCtx,
+  target: string | undefined,
+  pattern: string | undefined,
+  path: string
+): void {
+  const highest = target ? getHighestWildcardReference(target) : 0;
+  if (highest === 0) return;
+  if (!pattern) {
+    ctx.addIssue({ code: 'custom', path: [path], message: 'References like ${1} require a source pattern' });
+  } else if (highest > pattern.split('*').length - 1) {
+    ctx.addIssue({ code: 'custom', path: [path], message: `\${${highest}} has no matching "*" in the source pattern` });
+  }
+}
+
+export const RedirectConfigSchema = z.object({
+  sourceUrlPattern: OptionalTextSchema,
+  targetUrl: z.string().trim().default(''),
+  targetExpression: OptionalTextSchema,
+  statusCode: z.literal(REDIRECT_STATUS_CODES, { message: `Status code must be one of ${REDIRECT_STATUS_CODES.join(', ')}` }),
+  preserveQueryString: z.boolean().default(false)
+}).superRefine((data, ctx) => {
+  if (data.targetExpression) {
+    if (data.sourceUrlPattern) {
+      ctx.addIssue({ code: 'custom', path: ['sourceUrlPattern'], message: 'A source pattern can not be combined with a target expression' });
+    }
+    return;
+  }
+  if (!/^https?:\/\//i.test(data.targetUrl)) {
+    ctx.addIssue({ code: 'custom', path: ['targetUrl'], message: 'Target URL must start with http:// or https://' });
+  }
+  checkWildcardReferences(ctx, data.targetUrl, data.sourceUrlPattern, 'targetUrl');
+});
+
+export const UrlRewriteConfigSchema = z.object({
+  sourcePathPattern: OptionalTextSchema,
+  targetPath: OptionalTextSchema,
+  targetPathExpression: OptionalTextSchema,
+  targetQuery: OptionalTextSchema,
+  targetQueryExpression: OptionalTextSchema
+}).superRefine((data, ctx) => {
+  if (!data.targetPath && !data.targetPathExpression && data.targetQuery === undefined && !data.targetQueryExpression) {
+    ctx.addIssue({ code: 'custom', message: 'A rewrite needs a target path or query' });
+  }
+  if (data.targetPath && data.targetPathExpression) {
+    ctx.addIssue({ code: 'custom', path: ['targetPathExpression'], message: 'Use either a target path or a target path expression' });
+  }
+  if (data.targetPath && !data.targetPath.startsWith('/')) {
+    ctx.addIssue({ code: 'custom', path: ['targetPath'], message: 'Target path must start with "/"' });
+  }
+  if (data.targetQuery?.startsWith('?')) {
+    ctx.addIssue({ code: 'custom', path: ['targetQuery'], message: 'Target query must not start with "?"' });
+  }
+  if (data.sourcePathPattern && !data.targetPath) {
+    ctx.addIssue({ code: 'custom', path: ['targetPath'], message: 'A source path pattern requires a target path' });
+  }
+  checkWildcardReferences(ctx, data.targetPath, data.sourcePathPattern, 'targetPath');
+});
+
+export const ManagedRulesetConfigSchema = z.object({
+  rulesetId: z.enum(MANAGED_RULESETS.map(ruleset => ruleset.id) as [string, ...string[]], {
+    message: 'Unknown managed ruleset'
+  }),
+  action: z.enum(MANAGED_RULESET_ACTIONS).optional(),
+  sensitivity: z.enum(['low', 'medium', 'high']).optional(),
+  paranoiaLevel: z.literal(OWASP_PARANOIA_LEVELS).optional(),
+  disabledRules: z.array(z.string().trim().regex(/^[a-f0-9]{32}$/, 'Rule IDs must be 32 character hexadecimal IDs')).default([])
+}).superRefine((data, ctx) => {
+  if (!isOwaspRuleset(data.rulesetId)) {
+    if (data.sensitivity) {
+      ctx.addIssue({ code: 'custom', path: ['sensitivity'], message: 'Sensitivity is only available for the OWASP Core Ruleset' });
+    }
+    if (data.paranoiaLevel) {
+      ctx.addIssue({ code: 'custom', path: ['paranoiaLevel'], message: 'Paranoia level is only available for the OWASP Core Ruleset' });
+    }
+  }
+});
+
+// Phase specific fields of a rule template, checked on create and update
+export const RuleTemplatePhaseSchema = z.object({
+  phase: z.enum(['http_request_firewall_custom', 'http_ratelimit', 'http_request_dynamic_redirect', 'http_request_transform', 'http_request_firewall_managed'])
+    .default('http_request_firewall_custom'),
+  action: z.string().min(1, 'Action is required'),
+  ratelimit: RateLimitConfigSchema.optional(),
+  redirect: RedirectConfigSchema.optional(),
+  rewrite: UrlRewriteConfigSchema.optional(),
+  managedRuleset: ManagedRulesetConfigSchema.optional()
+}).superRefine((data, ctx) => {
+  const configField = PHASE_CONFIG_FIELDS[data.phase];
+  for (const field of ['ratelimit', 'redirect', 'rewrite', 'managedRuleset'] as const) {
+    if (field === configField && !data[field]) {
+      ctx.addIssue({ code: 'custom', path: [field], message: `${field} parameters are required in ${data.phase} templates` });
+    } else if (field !== configField && data[field]) {
+      ctx.addIssue({ code: 'custom', path: [field], message: `${field} parameters are not allowed in ${data.phase} templates` });
+    }
+  }
+
+  const actions: string[] = PHASE_ACTIONS[data.phase];
+  if (!actions.includes(data.action)) {
+    ctx.addIssue({ code: 'custom', path: ['action'], message: `${data.phase} templates only support ${actions.join(', ')}` });
+  }
+});
+
+// Account stored in the browser by the manager, not the Cloudflare account ID
+export const ManagerAccountIdSchema = z.string().regex(ACCOUNT_ID_PATTERN, 'Invalid account ID');
+
+// Accounts a template is scoped to, an empty list shares it with every account
+export const TemplateAccountIdsSchema = z.array(ManagerAccountIdSchema).max(50).optional();
+
+// One rules job per account, each queued with the token of its account
+export const CrossAccountBulkJobSchema = z.object({
+  action: z.enum(['add', 'remove', 'clean']),
+  selectedRules: z.array(z.string().min(1)).max(100).default([]),
+  accounts: z.array(z.object({
+    accountId: ManagerAccountIdSchema,
+    accountName: z.string().trim().min(1).max(100),
+    token: z.string().trim().min(1, 'Token is required'),
+    zoneIds: z.array(ZoneIdSchema).max(1000).optional() // Every cached zone of the account when omitted
+  })).min(1, 'At least one account is required').max(20)
+}).refine(data => data.action === 'clean' || data.selectedRules.length > 0, {
+  message: 'Select at least one rule',
+  path: ['selectedRules']
+});
+
+export const DomainTagsUpdateSchema = z.object({
+  targets: z.array(z.object({
+    zoneId: ZoneIdSchema,
+    domainName: DomainNameSchema
+  })).min(1, 'At least one domain is required'),
+  add: z.array(z.string().trim().toLowerCase().regex(/^[a-z0-9][a-z0-9_-]{0,31}$/, 'Tags may only contain lowercase letters, numbers, "-" and "_" (max 32 characters)')).default([]),
+  remove: z.array(z.string()).default([])
+}).refine(data => data.add.length > 0 || data.remove.length > 0, {
+  message: 'At least one tag to add or remove is required'
+});
+
+export const BulkJobResumeSchema = z.object({
+  retryFailed: z.boolean().default(false)
+});
+
+// Scheduled refresh of the domains cache
+export const RefreshScheduleUpdateSchema = z.object({
+  enabled: z.boolean().optional(),
+  cronExpression: z.string().trim().superRefine((expression, ctx) => {
+    try {
+      parseCronExpression(expression);
+    } catch (error) {
+      ctx.addIssue({ code: 'custom', message: error instanceof Error ? error.message : 'Invalid cron expression' });
+    }
+  }).optional(),
+  batchSize: z.number().int().min(1).max(12).optional()
+});
+
+// Webhook targets for drift alerts
+export const WebhookTargetSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  url: z.url({ protocol: /^https?$/, error: 'URL must be a valid http(s) URL' }),
+  format: z.enum(['json', 'slack', 'teams']),
+  enabled: z.boolean().default(true),
+  events: z.array(z.enum(['proxy_disabled', 'under_attack_enabled', 'template_rule_outdated', 'template_rule_missing']))
+    .min(1, 'At least one event is required')
+});
+
+export const NotificationSettingsSchema = z.object({
+  cooldownMinutes: z.number().int().min(0).max(7 * 24 * 60)
+});
+
+// Audit log filters, read from the query string
+export const AuditLogQuerySchema = z.object({
+  zone: z.string().max(253).optional(),
+  action: z.enum([
+    'proxy_toggle', 'proxy_bulk', 'security_mode', 'firewall_bulk', 'template_update', 'template_delete',
+    'rules_add', 'rules_remove', 'rules_clean', 'rules_reconcile', 'custom_rule_delete',
+    'origin_migration', 'zone_file_apply', 'zone_settings_enforce'
+  ]).optional(),
+  actor: z.string().max(100).optional(),
+  success: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  from: z.iso.datetime().optional(),
+  to: z.iso.datetime().optional(),
+  format: z.enum(['json', 'csv']).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+// Local users and login
+const UsernameSchema = z.string().trim()
+  .min(3, 'Username must be at least 3 characters')
+  .max(50, 'Username too long')
+  .regex(/^[a-zA-Z0-9._@-]+$/, 'Username contains invalid characters');
+
+const PasswordSchema = z.string()
+  .min(10, 'Password must be at least 10 characters')
+  .max(200, 'Password too long');
+
+export const LoginSchema = z.object({
+  username: z.string().trim().min(1, 'Username is required').max(50),
+  password: z.string().min(1, 'Password is required').max(200)
+});
+
+export const UserCreateSchema = z.object({
+  username: UsernameSchema,
+  password: PasswordSchema,
+  role: z.enum(USER_ROLES).default('viewer')
+});
+
+export const UserUpdateSchema = z.object({
+  role: z.enum(USER_ROLES).optional(),
+  password: PasswordSchema.optional()
+}).refine(data => data.role !== undefined || data.password !== undefined, {
+  message: 'Nothing to update'
+});
+
+export const TemplateRollbackSchema = z.object({
+  revisionId: z.string().min(1, 'Revision ID is required')
+});
+
+export const RuleConflictCheckSchema = z.object({
+  templateId: z.string().min(1, 'Template ID is required'),
+  targets: z.array(z.object({
+    zoneId: ZoneIdSchema,
+    domainName: DomainNameSchema
+  })).min(1, 'At least one zone is required')
+});
+
+// Change request (approval workflow) validation
+export const ChangeRequestCreateSchema = z.object({
+  title: z.string().trim().max(200).optional(),
+  templateId: z.string().min(1, 'Template ID is required'),
+  diff: z.array(z.object({
+    zoneId: ZoneIdSchema,
+    domainName: DomainNameSchema,
+    change: z.enum(['add', 'update']),
+    currentVersion: z.string().max(20).optional(),
+    reason: z.string().max(200).optional(),
+    conflicts: z.number().int().min(0).optional(),
+    resolution: z.enum(ConflictResolution).optional()
+  })).min(1, 'At least one domain is required')
+});
+
+export const ChangeRequestCommentSchema = z.object({
+  text: z.string().trim().min(1, 'Comment is required').max(2000)
+});
+
+export const ChangeRequestReviewSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  comment: z.string().trim().max(2000).optional()
+});
+
+export const ChangeApprovalPolicySchema = z.object({
+  requireForAllZones: z.boolean(),
+  protectedZones: z.array(z.object({
+    zoneId: ZoneIdSchema,
+    domainName: DomainNameSchema
+  })).max(1000)
+});
+
 export const SecurityRulesApplySchema = z.object({
   zoneIds: z.array(ZoneIdSchema).min(1, 'At least one zone ID is required'),
   templateIds: z.array(z.string()).min(1, 'At least one template ID is required'),
@@ -142,8 +679,21 @@ export const FileOperationSchema = z.object({
     'security-rules-templates.json',
     'domain-rules-status.json',
     'user-preferences.json',
-    'rule-id-mapping.json'
-  ])
+    'rule-id-mapping.json',
+    'zone-settings-profiles.json',
+    'zone-settings-drift.json',
+    'template-history.json',
+    'domain-tags.json',
+    'bulk-jobs.json',
+    'refresh-schedule.json',
+    'notifications.json',
+    'audit-log.json',
+    'audit-log-archive.json',
+    'token-vault.json',
+    'users.json',
+    'token-capabilities.json',
+    'change-requests.json'
+  ]).or(z.string().regex(/^domains-cache\.[a-zA-Z0-9_-]{1,64}\.json$/, 'Invalid account domains cache file'))
 });
 
 // Helper function to validate and sanitize API requests
@@ -0,0 +1,554 @@
+import { CloudflareDNSRecord, DNSRecordInput, DNSRecordType } from '@/types/cloudflare';
+import { DNSRecordSchema } from './validation';
+
+// BIND (RFC 1035) zone file import/export for Cloudflare DNS records
+
+const SUPPORTED_TYPES: DNSRecordType[] = ['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'SRV', 'CAA'];
+
+// Records managed by Cloudflare itself, silently ignored on import
+const IGNORED_TYPES = ['SOA', 'NS'];
+
+// Cloudflare exports mark proxied records with this trailing comment
+const CF_PROXIED_TAG = 'cf_tags=cf-proxied:true';
+const CF_UNPROXIED_TAG = 'cf_tags=cf-proxied:false';
+
+const DEFAULT_TTL = 3600;
+const TXT_CHUNK_SIZE = 255;
+
+export interface ParsedZoneRecord {
+  line: number;
+  record: DNSRecordInput;
+}
+
+export interface ZoneFileIssue {
+  line: number;
+  message: string;
+}
+
+export interface ParsedZoneFile {
+  records: ParsedZoneRecord[];
+  errors: ZoneFileIssue[];
+  warnings: ZoneFileIssue[];
+}
+
+export interface ZoneFileChange {
+  id: string;
+  action: 'create' | 'update' | 'delete';
+  type: string;
+  name: string;
+  before?: string; // Current value (update/delete)
+  after?: string; // Value from the zone file (create/update)
+  recordId?: string; // Existing Cloudflare record (update/delete)
+  record?: DNSRecordInput; // Payload to send (create/update)
+}
+
+export interface ZoneFileDiff {
+  changes: ZoneFileChange[];
+  unchanged: number;
+  summary: {
+    creates: number;
+    updates: number;
+    deletes: number;
+  };
+}
+
+/**
+ * Ensure a name ends with a dot (absolute name in zone file syntax)
+ */
+function toAbsolute(name: string): string {
+  return name.endsWith('.') ? name : `${name}.`;
+}
+
+function stripTrailingDot(name: string): string {
+  return name.endsWith('.') ? name.slice(0, -1) : name;
+}
+
+/**
+ * Resolve a zone file name (relative, absolute or @) against the current origin
+ * Returns a Cloudflare style name: lowercase FQDN without trailing dot
+ */
+function resolveName(name: string, origin: string): string {
+  if (name === '@') {
+    return stripTrailingDot(origin).toLowerCase();
+  }
+  if (name.endsWith('.')) {
+    return stripTrailingDot(name).toLowerCase();
+  }
+  return `${name}.${stripTrailingDot(origin)}`.toLowerCase();
+}
+
+/**
+ * Parse a TTL value in seconds or BIND units (1h, 30m, 1d12h, 1w)
+ */
+function parseTTL(value: string): number | null {
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10);
+  }
+  if (!/^(\d+[wdhms])+$/i.test(value)) {
+    return null;
+  }
+
+  const multipliers: Record<string, number> = { w: 604800, d: 86400, h: 3600, m: 60, s: 1 };
+  let total = 0;
+  for (const [, amount, unit] of value.matchAll(/(\d+)([wdhms])/gi)) {
+    total += parseInt(amount, 10) * multipliers[unit.toLowerCase()];
+  }
+  return total;
+}
+
+/**
+ * Cloudflare accepts 1 (automatic) or 60..86400 seconds
+ */
+function normalizeTTL(ttl: number): number {
+  if (ttl === 1) return 1;
+  return Math.min(86400, Math.max(60, ttl));
+}
+
+/**
+ * Split a line into tokens, keeping quoted strings as single tokens (with quotes)
+ * and returning the trailing comment separately
+ */
+function tokenize(line: string): { tokens: string[]; comment: string } {
+  const tokens: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (inQuotes) {
+      current += char;
+      if (char === '\\' && i + 1 < line.length) {
+        current += line[++i];
+      } else if (char === '"') {
+        inQuotes = false;
+        tokens.push(current);
+        current = '';
+      }
+      continue;
+    }
+
+    if (char === ';') {
+      if (current) tokens.push(current);
+      return { tokens, comment: line.slice(i + 1).trim() };
+    }
+
+    if (char === '"') {
+      if (current) tokens.push(current);
+      current = '"';
+      inQuotes = true;
+    } else if (char === '(' || char === ')') {
+      if (current) tokens.push(current);
+      current = '';
+      tokens.push(char);
+    } else if (/\s/.test(char)) {
+      if (current) tokens.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current) tokens.push(current);
+  return { tokens, comment: '' };
+}
+
+function unquote(token: string): string {
+  if (token.startsWith('"') && token.endsWith('"') && token.length >= 2) {
+    return token.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+  return token;
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Normalize TXT content so quoted/chunked and plain values compare equal
+ */
+function normalizeTxt(content: string): string {
+  const trimmed = content.trim();
+  if (!trimmed.startsWith('"')) {
+    return trimmed;
+  }
+  const { tokens } = tokenize(trimmed);
+  return tokens.map(unquote).join('');
+}
+
+/**
+ * Build the record payload for one parsed resource record
+ */
+function buildRecord(
+  type: DNSRecordType,
+  name: string,
+  ttl: number,
+  rdata: string[],
+  origin: string,
+  proxied: boolean | undefined
+): DNSRecordInput {
+  const base = { type, name, ttl: normalizeTTL(ttl) };
+  const target = (value: string) => resolveName(value, origin);
+
+  const expectArgs = (count: number) => {
+    if (rdata.length < count) {
+      throw new Error(`${type} record requires ${count} value(s), got ${rdata.length}`);
+    }
+  };
+
+  switch (type) {
+    case 'A':
+    case 'AAAA':
+      expectArgs(1);
+      return { ...base, content: rdata[0], ...(proxied !== undefined && { proxied }) };
+    case 'CNAME':
+      expectArgs(1);
+      return { ...base, content: target(rdata[0]), ...(proxied !== undefined && { proxied }) };
+    case 'MX':
+      expectArgs(2);
+      return { ...base, priority: parseInt(rdata[0], 10), content: target(rdata[1]) };
+    case 'TXT':
+      expectArgs(1);
+      return { ...base, content: rdata.map(unquote).join('') };
+    case 'SRV':
+      expectArgs(4);
+      return {
+        ...base,
+        data: {
+          priority: parseInt(rdata[0], 10),
+          weight: parseInt(rdata[1], 10),
+          port: parseInt(rdata[2], 10),
+          target: target(rdata[3])
+        }
+      };
+    case 'CAA':
+      expectArgs(3);
+      return {
+        ...base,
+        data: {
+          flags: parseInt(rdata[0], 10),
+          tag: rdata[1].toLowerCase(),
+          value: unquote(rdata.slice(2).join(' '))
+        }
+      };
+  }
+}
+
+/**
+ * Parse a BIND zone file into Cloudflare record payloads
+ * Supports $ORIGIN, $TTL, omitted owners/TTL/class, parentheses and
+ * Cloudflare's `cf_tags=cf-proxied:*` comments. SOA and NS records are ignored.
+ */
+export function parseZoneFile(content: string, zoneName: string): ParsedZoneFile {
+  const result: ParsedZoneFile = { records: [], errors: [], warnings: [] };
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+
+  let origin = toAbsolute(zoneName);
+  let defaultTTL: number | null = null;
+  let previousOwner: string | null = null;
+
+  for (let index = 0; index < lines.length; index++) {
+    const lineNumber = index + 1;
+    const rawLine = lines[index];
+    const startsWithBlank = /^\s/.test(rawLine);
+
+    let { tokens, comment } = tokenize(rawLine);
+
+    // Join multi-line records enclosed in parentheses
+    if (tokens.includes('(') && !tokens.includes(')')) {
+      while (index + 1 < lines.length) {
+        const next = tokenize(lines[++index]);
+        tokens = tokens.concat(next.tokens);
+        comment = comment || next.comment;
+        if (next.tokens.includes(')')) break;
+      }
+    }
+    tokens = tokens.filter(token => token !== '(' && token !== ')');
+
+    if (tokens.length === 0) continue;
+
+    // Directives
+    if (tokens[0].startsWith('$')) {
+      const directive = tokens[0].toUpperCase();
+      if (directive === '$ORIGIN' && tokens[1]) {
+        origin = toAbsolute(resolveName(tokens[1], origin));
+      } else if (directive === '$TTL' && tokens[1]) {
+        const ttl = parseTTL(tokens[1]);
+        if (ttl === null) {
+          result.errors.push({ line: lineNumber, message: `Invalid $TTL value: ${tokens[1]}` });
+        } else {
+          defaultTTL = ttl;
+        }
+      } else {
+        result.errors.push({ line: lineNumber, message: `Unsupported directive: ${tokens[0]}` });
+      }
+      continue;
+    }
+
+    // Owner name (omitted when the line starts with whitespace)
+    let owner: string;
+    if (startsWithBlank) {
+      if (!previousOwner) {
+        result.errors.push({ line: lineNumber, message: 'Record without owner name' });
+        continue;
+      }
+      owner = previousOwner;
+    } else {
+      owner = resolveName(tokens.shift()!, origin);
+    }
+    previousOwner = owner;
+
+    // Optional TTL and class, in any order
+    let ttl: number | null = null;
+    while (tokens.length > 0) {
+      const upper = tokens[0].toUpperCase();
+      if (['IN', 'CH', 'HS'].includes(upper)) {
+        tokens.shift();
+        continue;
+      }
+      const parsedTTL = parseTTL(tokens[0]);
+      if (parsedTTL !== null && ttl === null) {
+        ttl = parsedTTL;
+        tokens.shift();
+        continue;
+      }
+      break;
+    }
+
+    const type = tokens.shift()?.toUpperCase();
+    if (!type) {
+      result.errors.push({ line: lineNumber, message: 'Missing record type' });
+      continue;
+    }
+
+    if (IGNORED_TYPES.includes(type)) {
+      continue;
+    }
+
+    if (!SUPPORTED_TYPES.includes(type as DNSRecordType)) {
+      result.warnings.push({ line: lineNumber, message: `Record type ${type} is not supported and was skipped` });
+      continue;
+    }
+
+    const zoneApex = zoneName.toLowerCase();
+    if (owner !== zoneApex && !owner.endsWith(`.${zoneApex}`)) {
+      result.errors.push({ line: lineNumber, message: `${owner} is outside of zone ${zoneName}` });
+      continue;
+    }
+
+    const proxied = comment.includes(CF_PROXIED_TAG) ? true : comment.includes(CF_UNPROXIED_TAG) ? false : undefined;
+
+    try {
+      const record = buildRecord(
+        type as DNSRecordType,
+        owner,
+        ttl ?? defaultTTL ?? DEFAULT_TTL,
+        tokens,
+        origin,
+        proxied
+      );
+      const validation = DNSRecordSchema.safeParse(record);
+      if (!validation.success) {
+        const issue = validation.error.issues[0];
+        result.errors.push({
+          line: lineNumber,
+          message: `${type} ${owner}: ${issue.path.length > 0 ? `${issue.path.join('.')}: ` : ''}${issue.message}`
+        });
+        continue;
+      }
+
+      // Without a cf_tags comment the proxy state is left as it is in Cloudflare
+      const validated: DNSRecordInput = validation.data;
+      if (proxied === undefined) {
+        delete validated.proxied;
+      }
+      result.records.push({ line: lineNumber, record: validated });
+    } catch (error) {
+      result.errors.push({
+        line: lineNumber,
+        message: error instanceof Error ? error.message : 'Invalid record'
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Value of a record as written in a zone file (rdata), used for export and comparison
+ */
+function formatRdata(record: CloudflareDNSRecord | DNSRecordInput): string {
+  const data = record.data;
+  switch (record.type) {
+    case 'CNAME':
+      return toAbsolute(record.content || '');
+    case 'MX':
+      return `${record.priority ?? 0} ${toAbsolute(record.content || '')}`;
+    case 'TXT': {
+      const text = normalizeTxt(record.content || '');
+      const chunks: string[] = [];
+      for (let i = 0; i < text.length; i += TXT_CHUNK_SIZE) {
+        chunks.push(quote(text.slice(i, i + TXT_CHUNK_SIZE)));
+      }
+      return chunks.length > 0 ? chunks.join(' ') : '""';
+    }
+    case 'SRV':
+      if (data?.target !== undefined) {
+        return `${data.priority ?? 0} ${data.weight ?? 0} ${data.port ?? 0} ${toAbsolute(data.target)}`;
+      }
+      return `${record.priority ?? 0} ${record.content || ''}`;
+    case 'CAA':
+      if (data?.tag !== undefined) {
+        return `${data.flags ?? 0} ${data.tag} ${quote(data.value || '')}`;
+      }
+      return record.content || '';
+    default:
+      return record.content || '';
+  }
+}
+
+/**
+ * Comparable value for a record (case-insensitive where DNS is case-insensitive)
+ */
+function valueSignature(record: CloudflareDNSRecord | DNSRecordInput): string {
+  const rdata = formatRdata(record);
+  return record.type === 'TXT' || record.type === 'CAA' ? rdata : rdata.toLowerCase();
+}
+
+/**
+ * Export Cloudflare DNS records as an RFC 1035 zone file
+ * Proxied state is kept in Cloudflare's `cf_tags` comment so re-imports preserve it
+ */
+export function exportZoneFile(zoneName: string, records: CloudflareDNSRecord[]): string {
+  const lines = [
+    `;; Zone: ${zoneName}`,
+    `;; Exported: ${new Date().toISOString()}`,
+    `;; Records: ${records.length}`,
+    '',
+    `$ORIGIN ${toAbsolute(zoneName)}`,
+    `$TTL ${DEFAULT_TTL}`,
+    ''
+  ];
+
+  const sorted = [...records].sort((a, b) =>
+    a.type.localeCompare(b.type) || a.name.localeCompare(b.name) || a.content.localeCompare(b.content)
+  );
+
+  for (const record of sorted) {
+    let line = `${toAbsolute(record.name)}\t${record.ttl}\tIN\t${record.type}\t${formatRdata(record)}`;
+    if (record.proxiable) {
+      line += ` ; ${record.proxied ? CF_PROXIED_TAG : CF_UNPROXIED_TAG}`;
+    }
+    lines.push(line);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Compare zone file records against the current Cloudflare records
+ * Records are grouped by type + name; identical values are kept, remaining
+ * values are paired as updates and the rest become creates or deletes.
+ * Only record types supported by the importer are considered for deletion.
+ */
+export function diffZoneRecords(current: CloudflareDNSRecord[], desired: DNSRecordInput[]): ZoneFileDiff {
+  const changes: ZoneFileChange[] = [];
+  let unchanged = 0;
+
+  const keyOf = (record: { type: string; name: string }) => `${record.type}|${record.name.toLowerCase()}`;
+
+  const currentByKey = new Map<string, CloudflareDNSRecord[]>();
+  for (const record of current) {
+    if (!SUPPORTED_TYPES.includes(record.type as DNSRecordType) || record.locked) continue;
+    const key = keyOf(record);
+    currentByKey.set(key, [...(currentByKey.get(key) || []), record]);
+  }
+
+  const desiredByKey = new Map<string, DNSRecordInput[]>();
+  for (const record of desired) {
+    const key = keyOf(record);
+    desiredByKey.set(key, [...(desiredByKey.get(key) || []), record]);
+  }
+
+  const keys = new Set([...currentByKey.keys(), ...desiredByKey.keys()]);
+
+  for (const key of keys) {
+    const existing = [...(currentByKey.get(key) || [])];
+    const wanted: DNSRecordInput[] = [];
+
+    // Exact value matches: unchanged, or update when only TTL/proxy differ
+    for (const record of desiredByKey.get(key) || []) {
+      const matchIndex = existing.findIndex(r => valueSignature(r) === valueSignature(record));
+      if (matchIndex === -1) {
+        wanted.push(record);
+        continue;
+      }
+
+      const [match] = existing.splice(matchIndex, 1);
+      const ttlChanged = match.ttl !== record.ttl;
+      const proxyChanged = record.proxied !== undefined && match.proxied !== record.proxied;
+
+      if (ttlChanged || proxyChanged) {
+        changes.push({
+          id: `update-${changes.length}`,
+          action: 'update',
+          type: record.type,
+          name: record.name,
+          before: `${formatRdata(match)} (TTL ${match.ttl}${match.proxiable ? `, ${match.proxied ? 'proxy' : 'DNS'}` : ''})`,
+          after: `${formatRdata(record)} (TTL ${record.ttl}${record.proxied !== undefined ? `, ${record.proxied ? 'proxy' : 'DNS'}` : ''})`,
+          recordId: match.id,
+          record
+        });
+      } else {
+        unchanged++;
+      }
+    }
+
+    // Different values under the same name/type are updated in place
+    for (const record of wanted) {
+      const match = existing.shift();
+      if (match) {
+        changes.push({
+          id: `update-${changes.length}`,
+          action: 'update',
+          type: record.type,
+          name: record.name,
+          before: formatRdata(match),
+          after: formatRdata(record),
+          recordId: match.id,
+          record
+        });
+      } else {
+        changes.push({
+          id: `create-${changes.length}`,
+          action: 'create',
+          type: record.type,
+          name: record.name,
+          after: formatRdata(record),
+          record
+        });
+      }
+    }
+
+    for (const record of existing) {
+      changes.push({
+        id: `delete-${changes.length}`,
+        action: 'delete',
+        type: record.type,
+        name: record.name,
+        before: formatRdata(record),
+        recordId: record.id
+      });
+    }
+  }
+
+  return {
+    changes,
+    unchanged,
+    summary: {
+      creates: changes.filter(c => c.action === 'create').length,
+      updates: changes.filter(c => c.action === 'update').length,
+      deletes: changes.filter(c => c.action === 'delete').length
+    }
+  };
+}
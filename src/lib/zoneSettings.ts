@@ -0,0 +1,228 @@
+/**
+ * Zone settings baseline profiles
+ * Stores named profiles (SSL mode, HTTPS, TLS, HSTS, ...) and the last drift
+ * report of every zone checked against one of them
+ */
+import {
+  HSTSSettings,
+  ZoneSettingDrift,
+  ZoneSettingId,
+  ZoneSettingsDriftReport,
+  ZoneSettingsProfile,
+  ZoneSettingsValues
+} from '@/types/cloudflare';
+import { safeReadJsonFile, safeUpdateJsonFile } from './fileSystem';
+import type { CloudflareAPI } from './cloudflare';
+
+export const ZONE_SETTING_IDS: readonly ZoneSettingId[] = [
+  'ssl',
+  'always_use_https',
+  'min_tls_version',
+  'security_header',
+  'brotli',
+  'browser_check',
+  'security_level'
+];
+
+const PROFILES_FILE = 'zone-settings-profiles.json';
+const DRIFT_FILE = 'zone-settings-drift.json';
+
+export interface ZoneSettingsProfilesCache {
+  profiles: ZoneSettingsProfile[];
+  defaultProfileId?: string;
+  lastUpdated: string;
+}
+
+export interface ZoneSettingsDriftCache {
+  reports: Record<string, ZoneSettingsDriftReport>; // keyed by zoneId
+  lastUpdated: string;
+}
+
+export class ZoneSettingsProfileError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ZoneSettingsProfileError';
+  }
+}
+
+/**
+ * Settings defined by a profile, in display order
+ */
+export function getProfileSettingIds(settings: ZoneSettingsValues): ZoneSettingId[] {
+  return ZONE_SETTING_IDS.filter(setting => settings[setting] !== undefined);
+}
+
+/**
+ * Convert a raw Cloudflare setting value to the profile representation
+ */
+export function fromCloudflareValue(setting: ZoneSettingId, value: any): unknown {
+  if (setting === 'security_header') {
+    const hsts = value?.strict_transport_security || {};
+    return {
+      enabled: !!hsts.enabled,
+      max_age: Number(hsts.max_age) || 0,
+      include_subdomains: !!hsts.include_subdomains,
+      preload: !!hsts.preload
+    } satisfies HSTSSettings;
+  }
+  return value;
+}
+
+/**
+ * Convert a profile value to the body expected by PATCH /zones/:id/settings/:setting
+ */
+export function toCloudflareValue(setting: ZoneSettingId, value: unknown): unknown {
+  if (setting === 'security_header') {
+    const hsts = value as HSTSSettings;
+    return {
+      strict_transport_security: {
+        enabled: hsts.enabled,
+        max_age: hsts.max_age,
+        include_subdomains: hsts.include_subdomains,
+        preload: hsts.preload,
+        nosniff: true
+      }
+    };
+  }
+  return value;
+}
+
+function isSameValue(setting: ZoneSettingId, expected: unknown, actual: unknown): boolean {
+  if (setting === 'security_header') {
+    const a = expected as HSTSSettings;
+    const b = actual as HSTSSettings | undefined;
+    if (!b) return false;
+    // A disabled HSTS header matches regardless of its other fields
+    if (!a.enabled && !b.enabled) return true;
+    return a.enabled === b.enabled &&
+      a.max_age === b.max_age &&
+      a.include_subdomains === b.include_subdomains &&
+      a.preload === b.preload;
+  }
+  return expected === actual;
+}
+
+/**
+ * Compare the settings of a zone (raw Cloudflare values) with a profile
+ * @param unreadable - Settings that could not be read; they are reported as drift with no actual value
+ */
+export function compareZoneSettings(
+  profile: ZoneSettingsValues,
+  rawValues: Record<string, any>,
+  unreadable: string[] = []
+): ZoneSettingDrift[] {
+  const drifts: ZoneSettingDrift[] = [];
+
+  for (const setting of getProfileSettingIds(profile)) {
+    const expected = profile[setting];
+    if (unreadable.includes(setting)) {
+      drifts.push({ setting, expected, actual: undefined });
+      continue;
+    }
+
+    const actual = fromCloudflareValue(setting, rawValues[setting]);
+    if (!isSameValue(setting, expected, actual)) {
+      drifts.push({ setting, expected, actual });
+    }
+  }
+
+  return drifts;
+}
+
+/**
+ * Read the settings of one zone and build its drift report against a profile
+ * Never throws: read failures are stored in the report
+ */
+export async function checkZoneSettingsDrift(
+  cloudflare: CloudflareAPI,
+  zoneId: string,
+  domainName: string,
+  profile: ZoneSettingsProfile
+): Promise<ZoneSettingsDriftReport> {
+  const report: ZoneSettingsDriftReport = {
+    zoneId,
+    domainName,
+    profileId: profile.id,
+    profileName: profile.name,
+    checkedAt: new Date().toISOString(),
+    drifts: []
+  };
+
+  try {
+    const settingIds = getProfileSettingIds(profile.settings);
+    const { values, errors } = await cloudflare.getZoneSettings(zoneId, settingIds);
+    const unreadable = Object.keys(errors);
+
+    if (settingIds.length > 0 && unreadable.length === settingIds.length) {
+      const firstError = Object.values(errors)[0];
+      report.error = firstError.includes('403')
+        ? 'Insufficient permissions. Token needs "Zone:Zone Settings:Read"'
+        : firstError;
+      return report;
+    }
+
+    report.drifts = compareZoneSettings(profile.settings, values, unreadable);
+  } catch (error) {
+    report.error = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  return report;
+}
+
+export async function loadZoneSettingsProfiles(): Promise<ZoneSettingsProfilesCache> {
+  const cache = await safeReadJsonFile<Partial<ZoneSettingsProfilesCache>>(PROFILES_FILE);
+  return {
+    profiles: cache.profiles || [],
+    defaultProfileId: cache.defaultProfileId,
+    lastUpdated: cache.lastUpdated || new Date().toISOString()
+  };
+}
+
+/**
+ * Locked read-modify-write of the profiles, a ZoneSettingsProfileError thrown by the updater leaves them as they were
+ */
+export async function updateZoneSettingsProfiles(
+  updater: (cache: ZoneSettingsProfilesCache) => ZoneSettingsProfilesCache
+): Promise<ZoneSettingsProfilesCache> {
+  const updated = await safeUpdateJsonFile<ZoneSettingsProfilesCache>(PROFILES_FILE, cache => ({
+    ...updater({ profiles: cache.profiles || [], defaultProfileId: cache.defaultProfileId, lastUpdated: cache.lastUpdated }),
+    lastUpdated: new Date().toISOString()
+  }));
+  console.log(`[ZoneSettings] Saved ${updated.profiles.length} profiles`);
+  return updated;
+}
+
+export async function loadZoneSettingsDrift(): Promise<ZoneSettingsDriftCache> {
+  const cache = await safeReadJsonFile<Partial<ZoneSettingsDriftCache>>(DRIFT_FILE);
+  return {
+    reports: cache.reports || {},
+    lastUpdated: cache.lastUpdated || new Date().toISOString()
+  };
+}
+
+/**
+ * Merge new drift reports into the stored ones (latest report per zone wins)
+ */
+export async function saveZoneSettingsDrift(reports: ZoneSettingsDriftReport[]): Promise<void> {
+  if (reports.length === 0) return;
+
+  await safeUpdateJsonFile<Partial<ZoneSettingsDriftCache>>(DRIFT_FILE, cache => ({
+    reports: { ...cache.reports, ...Object.fromEntries(reports.map(report => [report.zoneId, report])) },
+    lastUpdated: new Date().toISOString()
+  }));
+  console.log(`[ZoneSettings] Stored ${reports.length} drift reports`);
+}
+
+/**
+ * Remove stored reports of a deleted profile
+ */
+export async function removeZoneSettingsDriftForProfile(profileId: string): Promise<void> {
+  await safeUpdateJsonFile<Partial<ZoneSettingsDriftCache>>(DRIFT_FILE, cache => {
+    const reports = cache.reports || {};
+    const remaining = Object.fromEntries(
+      Object.entries(reports).filter(([, report]) => report.profileId !== profileId)
+    );
+    if (Object.keys(remaining).length === Object.keys(reports).length) return cache;
+    return { reports: remaining, lastUpdated: new Date().toISOString() };
+  });
+}
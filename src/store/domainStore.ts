@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { DomainStatus } from '@/types/cloudflare';
+import { DomainStatus, RuleTemplate, ZoneSettingsDriftReport, ZoneTokenCapabilities } from '@/types/cloudflare';
 import { tokenStorage } from '@/lib/tokenStorage';
 import { settingsStorage } from '@/lib/settingsStorage';
 import { toast } from 'sonner';
@@ -47,6 +47,10 @@ interface DomainState {
   totalCount: number;
   lastUpdate: Date | null;
   refreshingDomainId: string | null;
+  settingsDrift: Record<string, ZoneSettingsDriftReport>; // Last zone settings drift report by zoneId
+  tokenCapabilities: Record<string, ZoneTokenCapabilities>; // Scopes of the active token by zoneId
+  domainTags: Record<string, string[]>; // Policy tags by zoneId
+  ruleTemplates: RuleTemplate[]; // Templates the tag policy is computed from
 }
 
 interface DomainActions {
@@ -70,6 +74,12 @@ interface DomainActions {
   toggleBotFightMode: (zoneId: string, enabled: boolean) => Promise<void>;
   bulkToggleProxy: (enabled: boolean) => Promise<void>;
   invalidateDomainsCache: () => Promise<void>;
+  reloadDomainsCache: () => Promise<void>;
+  loadSettingsDrift: () => Promise<void>;
+  setSettingsDriftReports: (reports: ZoneSettingsDriftReport[]) => void;
+  checkTokenCapabilities: (refresh?: boolean) => Promise<void>;
+  loadPolicyData: () => Promise<void>;
+  setDomainTags: (domains: Record<string, { tags: string[] }>) => void;
 }
 
 export const useDomainStore = create<DomainState & DomainActions>((set, get) => ({
@@ -93,6 +103,10 @@ export const useDomainStore = create<DomainState & DomainActions>((set, get) =>
   totalCount: 0,
   lastUpdate: null,
   refreshingDomainId: null,
+  settingsDrift: {},
+  tokenCapabilities: {},
+  domainTags: {},
+  ruleTemplates: [],
 
   setSearchTerm: (term) => {
     set({ searchTerm: term, currentPage: 1 });
@@ -290,6 +304,8 @@ export const useDomainStore = create<DomainState & DomainActions>((set, get) =>
                             isBackgroundRefreshing: false
                           });
 
+                          get().checkTokenCapabilities();
+
                           // Show success message
                           const templateRules = domains.reduce((sum: number, d: any) => sum + (d.securityRules?.corporateRules || 0), 0);
                           const message = `${totalCount} dominios procesados completamente (${templateRules} reglas template)`;
@@ -325,7 +341,6 @@ export const useDomainStore = create<DomainState & DomainActions>((set, get) =>
           zoneIds: [], // Empty means process all zones
           forceRefresh,
           batchSize: rateLimiting.batchSize,
-          batchDelay: rateLimiting.batchDelay,
           requestId: requestId // Send requestId to API
         })
       });
@@ -558,6 +573,10 @@ export const useDomainStore = create<DomainState & DomainActions>((set, get) =>
         // Continue without preferences - use defaults
       }
 
+      // Drift reports are independent from the domains cache
+      get().loadSettingsDrift();
+      get().loadPolicyData();
+
       // Try to load cache (with timeout to prevent hanging)
       try {
         console.log('[DomainStore] Attempting to load domains cache...');
@@ -592,6 +611,7 @@ export const useDomainStore = create<DomainState & DomainActions>((set, get) =>
             });
 
             toast.success(`${domains.length} dominios cargados desde caché.`);
+            get().checkTokenCapabilities();
             return;
           } else {
             console.log('[DomainStore] Cache exists but no valid domains found');
@@ -690,8 +710,7 @@ export const useDomainStore = create<DomainState & DomainActions>((set, get) =>
           apiToken,
           zoneIds: [zoneId], // Refresh only this specific domain
           forceRefresh: true,
-          batchSize: rateLimiting.batchSize,
-          batchDelay: rateLimiting.batchDelay
+          batchSize: rateLimiting.batchSize
         })
       });
 
@@ -818,8 +837,7 @@ export const useDomainStore = create<DomainState & DomainActions>((set, get) =>
           apiToken,
           // DON'T pass zoneIds - fetch ALL domains
           forceRefresh: true,
-          batchSize: rateLimiting.batchSize,
-          batchDelay: rateLimiting.batchDelay
+          batchSize: rateLimiting.batchSize
         })
       });
 
@@ -1080,6 +1098,100 @@ export const useDomainStore = create<DomainState & DomainActions>((set, get) =>
       throw error;
     }
   },
+
+  reloadDomainsCache: async () => {
+    // Picks up domains-cache.json after a server-side refresh, without calling Cloudflare
+    try {
+      const response = await fetch('/api/domains/complete');
+      const result = await response.json();
+      if (result.success && Array.isArray(result.data?.domains)) {
+        set({
+          allDomains: result.data.domains,
+          totalCount: result.data.totalCount || result.data.domains.length,
+          lastUpdate: result.data.lastUpdate ? new Date(result.data.lastUpdate) : new Date()
+        });
+        console.log(`[DomainStore] Reloaded ${result.data.domains.length} domains from server cache`);
+      }
+    } catch (error) {
+      console.warn('[DomainStore] Failed to reload domains cache:', error);
+    }
+  },
+
+  loadSettingsDrift: async () => {
+    try {
+      const response = await fetch('/api/zone-settings/drift');
+      const result = await response.json();
+      if (result.success) {
+        set({ settingsDrift: result.data.reports });
+      }
+    } catch (error) {
+      console.warn('[DomainStore] Failed to load zone settings drift:', error);
+    }
+  },
+
+  setSettingsDriftReports: (reports) => {
+    set(state => {
+      const settingsDrift = { ...state.settingsDrift };
+      reports.forEach(report => {
+        settingsDrift[report.zoneId] = report;
+      });
+      return { settingsDrift };
+    });
+  },
+
+  checkTokenCapabilities: async (refresh = false) => {
+    const apiToken = tokenStorage.getToken();
+    const targets = get().allDomains.map(domain => ({ zoneId: domain.zoneId, domainName: domain.domain }));
+    if (!apiToken || targets.length === 0) return;
+
+    try {
+      // Only zones without a fresh result are probed, the rest come from the server cache
+      const response = await fetch('/api/test-token/capabilities', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-api-token': apiToken },
+        body: JSON.stringify({ targets, refresh })
+      });
+      const result = await response.json();
+      if (result.success) {
+        const tokenCapabilities: Record<string, ZoneTokenCapabilities> = {};
+        result.data.zones.forEach((zone: ZoneTokenCapabilities) => {
+          tokenCapabilities[zone.zoneId] = zone;
+        });
+        set({ tokenCapabilities });
+      }
+    } catch (error) {
+      console.warn('[DomainStore] Failed to check token capabilities:', error);
+    }
+  },
+
+  loadPolicyData: async () => {
+    try {
+      const [tagsResponse, templatesResponse] = await Promise.all([
+        fetch('/api/domains/tags'),
+        fetch('/api/security-rules')
+      ]);
+      const [tagsResult, templatesResult] = await Promise.all([
+        tagsResponse.json(),
+        templatesResponse.json()
+      ]);
+      if (tagsResult.success) {
+        get().setDomainTags(tagsResult.data.domains);
+      }
+      if (templatesResult.success) {
+        set({ ruleTemplates: templatesResult.data.templates });
+      }
+    } catch (error) {
+      console.warn('[DomainStore] Failed to load domain policy data:', error);
+    }
+  },
+
+  setDomainTags: (domains) => {
+    const domainTags: Record<string, string[]> = {};
+    Object.entries(domains).forEach(([zoneId, entry]) => {
+      domainTags[zoneId] = entry.tags;
+    });
+    set({ domainTags });
+  },
 }));
 
 // Export the invalidation function for use in API routes
@@ -3,6 +3,7 @@ export interface CloudflareZone {
   name: string;
   status: string;
   paused: boolean;
+  account?: CloudflareAccount;
 }
 
 export interface CloudflareDNSRecord {
@@ -24,10 +25,39 @@ export interface CloudflareDNSRecord {
   };
   comment?: string;
   tags: string[];
+  priority?: number; // MX
+  data?: DNSRecordData; // SRV / CAA
   created_on: string;
   modified_on: string;
 }
 
+// Record types that can be managed from the DNS record browser
+export type DNSRecordType = 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'SRV' | 'CAA';
+
+// Structured content used by SRV and CAA records
+export interface DNSRecordData {
+  priority?: number;
+  weight?: number;
+  port?: number;
+  target?: string;
+  flags?: number;
+  tag?: string;
+  value?: string;
+}
+
+// Payload accepted by Cloudflare when creating or updating a record
+export interface DNSRecordInput {
+  type: DNSRecordType;
+  name: string;
+  content?: string;
+  ttl: number; // 1 = automatic
+  proxied?: boolean;
+  priority?: number;
+  data?: DNSRecordData;
+  comment?: string;
+  tags?: string[];
+}
+
 export interface CloudflareApiResponse<T> {
   success: boolean;
   errors: Array<{
@@ -59,6 +89,10 @@ export interface RulePillData {
   lastUpdated: Date;
   expression: string;
   templateId?: string;
+  ratelimit?: RateLimitConfig; // Solo en reglas de rate limiting
+  redirect?: RedirectConfig; // Solo en redirecciones
+  rewrite?: UrlRewriteConfig; // Solo en reescrituras de URL
+  managedRuleset?: ManagedRulesetConfig; // Solo en despliegues de rulesets gestionados
 }
 
 export interface DomainStatus {
@@ -85,11 +119,91 @@ export interface DomainStatus {
       action?: string;
       expression?: string;
       description?: string;
+      phase?: string;
+      ratelimit?: RateLimitConfig;
+      redirect?: RedirectConfig;
+      rewrite?: UrlRewriteConfig;
+      managedRuleset?: ManagedRulesetConfig;
     }>;
   };
 }
 
 // Security Rules Types
+
+// Fases de rulesets en las que se despliegan plantillas
+export type RulePhase =
+  | 'http_request_firewall_custom'
+  | 'http_ratelimit'
+  | 'http_request_dynamic_redirect'
+  | 'http_request_transform'
+  | 'http_request_firewall_managed';
+
+// Parámetros de una regla de rate limiting (fase http_ratelimit)
+export interface RateLimitConfig {
+  characteristics: string[]; // Debe incluir cf.colo.id
+  period: number; // Segundos
+  requestsPerPeriod: number;
+  mitigationTimeout: number; // Segundos que dura la acción una vez superado el límite
+  countingExpression?: string; // Peticiones que cuentan para el límite (por defecto, las que cumplen la expresión)
+  requestsToOrigin?: boolean; // Contar solo las peticiones que llegan al origen
+}
+
+export type RedirectStatusCode = 301 | 302 | 303 | 307 | 308;
+
+// Redirección (fase http_request_dynamic_redirect)
+export interface RedirectConfig {
+  sourceUrlPattern?: string; // Patrón wildcard sobre la URL completa, p. ej. "http://*.ejemplo.com/legacy/*"
+  targetUrl: string; // Destino; con patrón de origen admite ${1}, ${2}... para los comodines
+  targetExpression?: string; // Destino dinámico escrito como expresión (reglas importadas de Cloudflare)
+  statusCode: RedirectStatusCode;
+  preserveQueryString: boolean;
+}
+
+// Reescritura de URL (fase http_request_transform)
+export interface UrlRewriteConfig {
+  sourcePathPattern?: string; // Patrón wildcard sobre la ruta, p. ej. "/blog/*"
+  targetPath?: string; // Nueva ruta; con patrón de origen admite ${1}, ${2}...
+  targetPathExpression?: string; // Ruta dinámica escrita como expresión (reglas importadas)
+  targetQuery?: string; // Nueva query string sin "?"; sin definir se conserva la original
+  targetQueryExpression?: string;
+}
+
+// Acciones que se pueden forzar sobre todas las reglas de un ruleset gestionado
+export type ManagedRulesetAction = 'block' | 'managed_challenge' | 'challenge' | 'js_challenge' | 'log';
+
+// Sensibilidad del OWASP Core Ruleset (umbral de anomaly score)
+export type OwaspSensitivity = 'low' | 'medium' | 'high';
+
+// Despliegue de un ruleset gestionado (fase http_request_firewall_managed)
+export interface ManagedRulesetConfig {
+  rulesetId: string;
+  action?: ManagedRulesetAction; // Sin definir: la acción por defecto de cada regla
+  sensitivity?: OwaspSensitivity; // Solo OWASP Core Ruleset
+  paranoiaLevel?: 1 | 2 | 3 | 4; // Solo OWASP Core Ruleset
+  disabledRules: string[]; // IDs de reglas del ruleset desactivadas
+}
+
+// Overrides tal y como los devuelve la API de rulesets (action_parameters.overrides)
+export interface CloudflareManagedOverrides {
+  action?: string;
+  enabled?: boolean;
+  categories?: Array<{ category: string; action?: string; enabled?: boolean }>;
+  rules?: Array<{ id: string; action?: string; enabled?: boolean; score_threshold?: number; sensitivity_level?: string }>;
+}
+
+// Ruleset gestionado desplegado en una zona (vista por zona)
+export interface ManagedRulesetDeployment {
+  ruleId: string;
+  rulesetId: string;
+  rulesetName: string;
+  description?: string;
+  expression: string;
+  enabled: boolean;
+  config: ManagedRulesetConfig; // Overrides interpretados
+  unmanagedOverrides: number; // Overrides que no encajan en la configuración (por categoría, por regla con acción...)
+  templateFriendlyId?: string; // Si lo desplegó una plantilla
+}
+
 export interface SecurityRule {
   id: string;
   name: string;
@@ -97,7 +211,7 @@ export interface SecurityRule {
   enabled: boolean;
   priority: number;
   expression: string; // Cloudflare rule expression
-  action: 'block' | 'challenge' | 'managed_challenge' | 'allow' | 'log' | 'skip';
+  action: 'block' | 'challenge' | 'managed_challenge' | 'allow' | 'log' | 'skip' | 'redirect' | 'rewrite' | 'execute';
   actionParameters?: {
     response?: {
       status_code?: number;
@@ -105,6 +219,11 @@ export interface SecurityRule {
       content_type?: string;
     };
   };
+  phase?: RulePhase; // Sin fase: http_request_firewall_custom
+  ratelimit?: RateLimitConfig; // Obligatorio en la fase http_ratelimit
+  redirect?: RedirectConfig; // Obligatorio en la fase http_request_dynamic_redirect
+  rewrite?: UrlRewriteConfig; // Obligatorio en la fase http_request_transform
+  managedRuleset?: ManagedRulesetConfig; // Obligatorio en la fase http_request_firewall_managed
   tags: string[]; // Para categorizar reglas
   createdAt: string;
   updatedAt: string;
@@ -122,11 +241,23 @@ export interface CloudflareRuleset {
   phase: string;
 }
 
+// Rate limiting tal y como lo devuelve la API de rulesets
+export interface CloudflareRateLimit {
+  characteristics: string[];
+  period: number;
+  requests_per_period?: number;
+  mitigation_timeout?: number;
+  counting_expression?: string;
+  requests_to_origin?: boolean;
+}
+
 export interface CloudflareRule {
   id: string;
   expression: string;
   action: string;
   action_parameters?: any;
+  ratelimit?: CloudflareRateLimit;
+  phase?: string; // Fase del ruleset que contiene la regla (la añade getZoneSecurityRules)
   description?: string;
   enabled?: boolean;
   logging?: {
@@ -189,6 +320,29 @@ export interface RuleTemplate extends SecurityRule {
   friendlyId: string; // R001, R002, etc.
   applicableTags: string[]; // Tags de dominios donde aplica
   excludedDomains: string[]; // Dominios excluidos explícitamente
+  accountIds?: string[]; // Cuentas donde está disponible, compartida con todas si está vacío
+}
+
+// Origen de una revisión de plantilla
+export type TemplateRevisionSource = 'initial' | 'ui_create' | 'ui_edit' | 'domain_sync' | 'rollback';
+
+export interface TemplateRevision {
+  id: string;
+  templateId: string;
+  friendlyId: string;
+  version: string;
+  name: string;
+  expression: string;
+  action: SecurityRule['action'];
+  actionParameters?: SecurityRule['actionParameters'];
+  ratelimit?: RateLimitConfig;
+  redirect?: RedirectConfig;
+  rewrite?: UrlRewriteConfig;
+  managedRuleset?: ManagedRulesetConfig;
+  source: TemplateRevisionSource;
+  sourceDomain?: string; // Dominio desde el que se sincronizó la regla
+  restoredFrom?: string; // Versión restaurada por un rollback
+  createdAt: string;
 }
 
 export interface BulkRuleApplication {
@@ -204,4 +358,339 @@ export interface BulkRuleApplication {
     appliedRuleId?: string;
     conflicts?: RuleConflict[];
   }>;
-}
\ No newline at end of file
+}
+// Zone settings baseline profiles
+export type ZoneSettingId =
+  | 'ssl'
+  | 'always_use_https'
+  | 'min_tls_version'
+  | 'security_header'
+  | 'brotli'
+  | 'browser_check'
+  | 'security_level';
+
+// HSTS configuration (Cloudflare exposes it as security_header.strict_transport_security)
+export interface HSTSSettings {
+  enabled: boolean;
+  max_age: number;
+  include_subdomains: boolean;
+  preload: boolean;
+}
+
+// Every setting is optional: a profile only enforces the settings it defines
+export interface ZoneSettingsValues {
+  ssl?: 'off' | 'flexible' | 'full' | 'strict';
+  always_use_https?: 'on' | 'off';
+  min_tls_version?: '1.0' | '1.1' | '1.2' | '1.3';
+  security_header?: HSTSSettings;
+  brotli?: 'on' | 'off';
+  browser_check?: 'on' | 'off';
+  security_level?: 'off' | 'essentially_off' | 'low' | 'medium' | 'high' | 'under_attack';
+}
+
+export interface ZoneSettingsProfile {
+  id: string;
+  name: string;
+  description?: string;
+  settings: ZoneSettingsValues;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ZoneSettingDrift {
+  setting: ZoneSettingId;
+  expected: unknown;
+  actual: unknown; // undefined when the setting could not be read
+}
+
+export interface ZoneSettingsDriftReport {
+  zoneId: string;
+  domainName: string;
+  profileId: string;
+  profileName: string;
+  checkedAt: string;
+  drifts: ZoneSettingDrift[];
+  error?: string; // Set when the zone settings could not be read
+}
+
+// Token scopes the manager uses, probed per zone (lib/tokenCapabilities.ts)
+export type TokenCapability = 'zoneRead' | 'dnsEdit' | 'zoneSettingsEdit' | 'rulesetsEdit' | 'botManagement';
+
+export type TokenCapabilityStatus = 'granted' | 'denied' | 'unknown';
+
+export interface ZoneTokenCapabilities {
+  zoneId: string;
+  domainName: string;
+  checkedAt: string;
+  capabilities: Record<TokenCapability, TokenCapabilityStatus>;
+}
+
+// Domain tags used by template policies (applicableTags / excludedDomains)
+export interface DomainTagEntry {
+  domainName: string;
+  tags: string[];
+  updatedAt: string;
+}
+
+export interface DomainPolicyReport {
+  zoneId: string;
+  domainName: string;
+  tags: string[];
+  desired: string[];  // friendlyIds the policy wants on the domain
+  missing: string[];  // Desired but not applied
+  extra: string[];    // Applied but excluded or outside the template tags
+  outdated: string[]; // Desired and applied with an older version
+}
+
+// Account level IP lists, referenced from rule expressions as $list_name
+export interface CloudflareAccount {
+  id: string;
+  name: string;
+}
+
+export interface CloudflareIPList {
+  id: string;
+  name: string;
+  description?: string;
+  kind: 'ip' | 'redirect' | 'hostname' | 'asn';
+  num_items: number;
+  num_referencing_filters: number;
+  created_on: string;
+  modified_on: string;
+}
+
+export interface CloudflareIPListItem {
+  id: string;
+  ip: string; // IPv4/IPv6 address or CIDR range
+  comment?: string;
+  created_on: string;
+  modified_on: string;
+}
+
+export interface IPListItemInput {
+  ip: string;
+  comment?: string;
+}
+
+// Zone IP access rules (Security > WAF > Tools)
+export type IPAccessRuleMode = 'block' | 'challenge' | 'js_challenge' | 'managed_challenge' | 'whitelist';
+export type IPAccessRuleTarget = 'ip' | 'ip6' | 'ip_range' | 'asn' | 'country';
+
+export interface CloudflareIPAccessRule {
+  id: string;
+  mode: IPAccessRuleMode;
+  configuration: {
+    target: IPAccessRuleTarget;
+    value: string;
+  };
+  notes: string;
+  scope?: {
+    id: string;
+    type: 'zone' | 'account' | 'user';
+  };
+  created_on: string;
+  modified_on: string;
+}
+
+export interface IPAccessRuleInput {
+  mode: IPAccessRuleMode;
+  configuration: CloudflareIPAccessRule['configuration'];
+  notes?: string;
+}
+
+// Where a list is referenced: templates and the rules deployed in each zone
+export interface IPListUsage {
+  listName: string;
+  templates: Array<{ friendlyId: string; name: string }>;
+  zones: Array<{
+    zoneId: string;
+    domainName: string;
+    rules: Array<{ description: string; phase: string; enabled: boolean }>;
+  }>;
+}
+
+// Cola de trabajos masivos persistida en cache/bulk-jobs.json
+export type BulkJobType = 'rules' | 'firewall';
+
+export type BulkJobStatus = 'queued' | 'running' | 'interrupted' | 'completed' | 'failed' | 'cancelled';
+
+export type BulkJobTargetStatus = 'pending' | 'running' | 'success' | 'failed' | 'cancelled';
+
+export interface BulkJobTarget {
+  zoneId: string;
+  domainName: string;
+  status: BulkJobTargetStatus;
+  attempts: number;
+  message?: string;
+  error?: string;
+  updatedAt?: string;
+}
+
+export interface BulkJob {
+  id: string;
+  type: BulkJobType;
+  action: string;
+  params: Record<string, unknown>; // Parámetros propios de cada tipo (reglas seleccionadas, plan...)
+  label: string; // Descripción para el panel de trabajos
+  status: BulkJobStatus;
+  targets: BulkJobTarget[];
+  tokenFingerprint: string; // Hash del token que lo creó, el token nunca se guarda
+  accountId?: string; // Cuenta de Cloudflare del token, limita las plantillas disponibles
+  accountName?: string; // Nombre de la cuenta para el panel de trabajos
+  cancelRequested?: boolean;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  heartbeatAt: string; // Lo actualiza el worker mientras el trabajo está vivo
+}
+
+// Actualización programada de la caché de dominios (cache/refresh-schedule.json)
+export interface RefreshScheduleConfig {
+  enabled: boolean;
+  cronExpression: string; // minuto hora día-del-mes mes día-de-la-semana, hora local del servidor
+  batchSize: number;
+  updatedAt: string;
+}
+
+export type RefreshRunStatus = 'running' | 'success' | 'failed' | 'skipped';
+
+export interface RefreshRun {
+  id: string;
+  trigger: 'scheduled' | 'manual';
+  status: RefreshRunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  domainsProcessed?: number;
+  error?: string;
+}
+
+// Alertas de drift enviadas por webhooks (cache/notifications.json)
+export type DriftEventType =
+  | 'proxy_disabled'
+  | 'under_attack_enabled'
+  | 'template_rule_outdated'
+  | 'template_rule_missing';
+
+export interface DriftEvent {
+  type: DriftEventType;
+  zoneId: string;
+  domainName: string;
+  subject?: string; // Registro DNS o friendlyId de la regla afectada
+  message: string;
+  detectedAt: string;
+}
+
+export type WebhookFormat = 'json' | 'slack' | 'teams';
+
+export interface WebhookTarget {
+  id: string;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  enabled: boolean;
+  events: DriftEventType[]; // Eventos que se envían a este destino
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  targetId: string;
+  targetName: string;
+  status: WebhookDeliveryStatus;
+  events: DriftEvent[];
+  test?: boolean; // Envío de prueba desde el panel
+  attempts: number;
+  statusCode?: number;
+  error?: string;
+  createdAt: string;
+  lastAttemptAt?: string;
+}
+
+export type AuditAction =
+  | 'proxy_toggle'
+  | 'proxy_bulk'
+  | 'security_mode'
+  | 'firewall_bulk'
+  | 'template_update'
+  | 'template_delete'
+  | 'rules_add'
+  | 'rules_remove'
+  | 'rules_clean'
+  | 'rules_reconcile'
+  | 'custom_rule_delete'
+  | 'origin_migration'
+  | 'zone_file_apply'
+  | 'zone_settings_enforce';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actor: string; // token:<huella del token> que hizo el cambio
+  actorIp?: string;
+  action: AuditAction;
+  zoneId?: string;
+  domainName?: string;
+  target?: string; // Registro DNS, regla, plantilla o ajuste afectado
+  before?: unknown;
+  after?: unknown;
+  success: boolean;
+  cloudflareResponse?: unknown;
+  error?: string;
+  jobId?: string; // Trabajo masivo que originó el cambio
+}
+
+// Solicitud de cambio: aplicación masiva de una plantilla que otro usuario debe aprobar antes de ejecutarse
+// (cache/change-requests.json)
+export type ChangeRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled' | 'executed';
+
+export interface ChangeRequestDomainDiff {
+  zoneId: string;
+  domainName: string;
+  change: 'add' | 'update';
+  currentVersion?: string; // Versión de la regla aplicada al crear la solicitud
+  reason?: string;
+  conflicts?: number; // Reglas personalizadas en conflicto detectadas en la vista previa
+  resolution?: ConflictResolution;
+}
+
+export interface ChangeRequestComment {
+  id: string;
+  author: string; // Usuario que escribió el comentario
+  text: string;
+  createdAt: string;
+}
+
+export interface ChangeRequestEvent {
+  status: ChangeRequestStatus;
+  actor: string;
+  at: string;
+  note?: string;
+}
+
+export interface ChangeRequest {
+  id: string;
+  title: string;
+  template: Pick<RuleTemplate, 'id' | 'friendlyId' | 'name' | 'version' | 'expression' | 'action' | 'actionParameters' | 'phase' | 'ratelimit' | 'redirect' | 'rewrite' | 'managedRuleset'>; // Versión y contenido revisados
+  diff: ChangeRequestDomainDiff[]; // Dominios que cambian, los omitidos en la vista previa no se guardan
+  status: ChangeRequestStatus;
+  requestedBy: string;
+  accountId?: string; // Cuenta de Cloudflare de los dominios
+  comments: ChangeRequestComment[];
+  history: ChangeRequestEvent[];
+  jobId?: string; // Trabajo masivo que la ejecutó
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Dominios donde aplicar plantillas exige una solicitud de cambio aprobada (cache/change-requests.json)
+export interface ChangeApprovalPolicy {
+  requireForAllZones: boolean; // Toda aplicación de plantillas pasa por una solicitud aprobada
+  protectedZones: Array<{ zoneId: string; domainName: string }>; // Dominios de producción
+  updatedAt?: string;
+  updatedBy?: string;
+}
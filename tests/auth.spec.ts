@@ -0,0 +1,138 @@
+import { test, expect } from '@playwright/test';
+import { promises as fs } from 'fs';
+import { setupTempCacheDir } from './helpers/tempCacheDir';
+import { safeReadJsonFile, safeUpdateJsonFile } from '../src/lib/fileSystem';
+import {
+  SESSION_COOKIE,
+  createUser,
+  getSessionUser,
+  isAuthEnabled,
+  login,
+  logout,
+  requirePermission,
+  updateUser
+} from '../src/lib/auth';
+
+const USERS_FILE = 'users.json';
+
+const cacheDir = setupTempCacheDir('auth');
+
+const requestWithSession = (sessionId?: string) => new Request('http://localhost/api/domains', {
+  headers: sessionId ? { cookie: `${SESSION_COOKIE}=${encodeURIComponent(sessionId)}` } : {}
+});
+
+async function createAdmin() {
+  return createUser({ username: 'admin', password: 'correct horse battery', role: 'viewer' }, { firstUser: true });
+}
+
+test.describe('Users and passwords', () => {
+  test('should stay disabled until the first user is created', async () => {
+    expect(await isAuthEnabled()).toBe(false);
+    expect(await requirePermission(requestWithSession(), 'users:manage')).toBeNull();
+
+    const admin = await createAdmin();
+
+    expect(admin.role).toBe('security-admin');
+    expect(await isAuthEnabled()).toBe(true);
+    await expect(createAdmin()).rejects.toMatchObject({ status: 409 });
+  });
+
+  test('should store a salted hash instead of the password', async () => {
+    await createAdmin();
+    await createUser({ username: 'operator', password: 'correct horse battery', role: 'operator' });
+
+    const cache = await safeReadJsonFile<{ users: Array<{ passwordHash: string }> }>(USERS_FILE);
+    const [first, second] = cache.users.map(user => user.passwordHash);
+    expect(first).toMatch(/^scrypt\$/);
+    expect(first).not.toContain('correct horse battery');
+    expect(first).not.toBe(second);
+  });
+
+  test('should reject a wrong password or an unknown user', async () => {
+    await createAdmin();
+
+    expect(await login('admin', 'wrong password')).toBeNull();
+    expect(await login('nobody', 'correct horse battery')).toBeNull();
+    expect((await login('ADMIN', 'correct horse battery'))?.user.username).toBe('admin');
+  });
+
+  test('should not allow duplicated usernames', async () => {
+    await createAdmin();
+    await expect(createUser({ username: 'Admin', password: 'another password', role: 'viewer' }))
+      .rejects.toMatchObject({ status: 409 });
+  });
+});
+
+test.describe('Login sessions', () => {
+  test('should resolve the user of the session cookie until logout', async () => {
+    await createAdmin();
+    const session = await login('admin', 'correct horse battery');
+
+    expect((await getSessionUser(requestWithSession(session!.sessionId)))?.username).toBe('admin');
+    expect(await getSessionUser(requestWithSession('forged-session'))).toBeNull();
+
+    await logout(requestWithSession(session!.sessionId));
+    expect(await getSessionUser(requestWithSession(session!.sessionId))).toBeNull();
+  });
+
+  test('should not accept an expired session', async () => {
+    await createAdmin();
+    const session = await login('admin', 'correct horse battery');
+    await safeUpdateJsonFile<{ sessions: Array<{ expiresAt: string }> }>(USERS_FILE, cache => ({
+      ...cache,
+      sessions: cache.sessions.map(item => ({ ...item, expiresAt: new Date(Date.now() - 1000).toISOString() }))
+    }));
+
+    expect(await getSessionUser(requestWithSession(session!.sessionId))).toBeNull();
+    expect((await requirePermission(requestWithSession(session!.sessionId), 'domains:read'))?.status).toBe(401);
+  });
+
+  test('should end the sessions of a user whose password changes', async () => {
+    const admin = await createAdmin();
+    const session = await login('admin', 'correct horse battery');
+
+    await updateUser(admin.id, { password: 'a brand new password' });
+
+    expect(await getSessionUser(requestWithSession(session!.sessionId))).toBeNull();
+    expect(await login('admin', 'correct horse battery')).toBeNull();
+    expect(await login('admin', 'a brand new password')).not.toBeNull();
+  });
+});
+
+test.describe('Permission checks', () => {
+  test('should check the role of the session user', async () => {
+    await createAdmin();
+    await createUser({ username: 'viewer', password: 'correct horse battery', role: 'viewer' });
+    const session = await login('viewer', 'correct horse battery');
+    const request = requestWithSession(session!.sessionId);
+
+    expect(await requirePermission(request, 'domains:read')).toBeNull();
+    expect((await requirePermission(request, 'domains:write'))?.status).toBe(403);
+    expect((await requirePermission(requestWithSession(), 'domains:read'))?.status).toBe(401);
+  });
+
+  test('should keep at least one security admin', async () => {
+    const admin = await createAdmin();
+    await expect(updateUser(admin.id, { role: 'operator' })).rejects.toMatchObject({ status: 400 });
+  });
+
+  test('should fail closed when the users file exists but cannot be read', async () => {
+    await createAdmin();
+    const usersPath = cacheDir.file(USERS_FILE);
+    await fs.writeFile(usersPath, '{"users": [');
+    await fs.rm(`${usersPath}.bak`, { force: true });
+
+    await expect(isAuthEnabled()).rejects.toMatchObject({ status: 503 });
+    expect((await requirePermission(requestWithSession(), 'domains:read'))?.status).toBe(503);
+    // The corrupt file is left in place, no write may replace it with an empty user list
+    await expect(createAdmin()).rejects.toThrow();
+    expect(await fs.readFile(usersPath, 'utf-8')).toBe('{"users": [');
+  });
+
+  test('should restore a corrupt users file from its last good copy', async () => {
+    await createAdmin();
+    await fs.writeFile(cacheDir.file(USERS_FILE), '{"users": [');
+
+    expect(await isAuthEnabled()).toBe(true);
+  });
+});
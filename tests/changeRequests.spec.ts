@@ -0,0 +1,177 @@
+import { test, expect } from '@playwright/test';
+import { setupTempCacheDir } from './helpers/tempCacheDir';
+import { createUser } from '../src/lib/auth';
+import {
+  cancelChangeRequest,
+  claimChangeRequestExecution,
+  completeChangeRequestExecution,
+  createChangeRequest,
+  findZonesRequiringApproval,
+  getApprovalPolicy,
+  getChangeRequest,
+  requireChangeApproval,
+  reviewChangeRequest,
+  updateApprovalPolicy
+} from '../src/lib/changeRequests';
+import { RuleTemplate } from '../src/types/cloudflare';
+
+const TEMPLATE: RuleTemplate = {
+  id: 'template-R001',
+  friendlyId: 'R001',
+  name: 'Block bad countries',
+  description: '',
+  version: '1.2.0',
+  enabled: true,
+  priority: 1,
+  expression: 'ip.src.country in {"CN" "RU"}',
+  action: 'block',
+  tags: [],
+  applicableTags: [],
+  excludedDomains: [],
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z'
+};
+
+setupTempCacheDir('change-requests');
+
+async function requestRollout(actor = 'alice') {
+  return createChangeRequest({
+    template: TEMPLATE,
+    diff: [
+      { zoneId: 'zone-a', domainName: 'a.example.com', change: 'add' },
+      { zoneId: 'zone-b', domainName: 'b.example.com', change: 'update' }
+    ]
+  }, actor);
+}
+
+async function approvedRollout() {
+  const request = await requestRollout();
+  return reviewChangeRequest(request.id, 'bob', true, 'Looks good');
+}
+
+test.describe('Change request review', () => {
+  test('should record the reviewed template version and diff', async () => {
+    const request = await requestRollout();
+
+    expect(request).toMatchObject({ status: 'pending', requestedBy: 'alice', title: 'Aplicar R001 v1.2.0' });
+    expect(request.template).toEqual({ id: TEMPLATE.id, friendlyId: 'R001', name: TEMPLATE.name, version: '1.2.0', expression: TEMPLATE.expression, action: 'block' });
+    expect((await getChangeRequest(request.id))?.diff).toHaveLength(2);
+  });
+
+  test('should not let the requester approve their own request', async () => {
+    const request = await requestRollout();
+
+    await expect(reviewChangeRequest(request.id, 'alice', true)).rejects.toMatchObject({ status: 403 });
+    expect((await getChangeRequest(request.id))?.status).toBe('pending');
+  });
+
+  test('should only review pending requests', async () => {
+    const request = await approvedRollout();
+
+    expect(request.status).toBe('approved');
+    expect(request.history.map(({ status, actor }) => [status, actor])).toEqual([['pending', 'alice'], ['approved', 'bob']]);
+    await expect(reviewChangeRequest(request.id, 'carol', false)).rejects.toMatchObject({ status: 409 });
+    await expect(reviewChangeRequest('missing', 'bob', true)).rejects.toMatchObject({ status: 404 });
+  });
+
+  test('should only let the author cancel an open request', async () => {
+    const request = await requestRollout();
+
+    await expect(cancelChangeRequest(request.id, 'bob')).rejects.toMatchObject({ status: 403 });
+    expect((await cancelChangeRequest(request.id, 'alice')).status).toBe('cancelled');
+    await expect(cancelChangeRequest(request.id, 'alice')).rejects.toMatchObject({ status: 409 });
+  });
+});
+
+test.describe('Change request execution', () => {
+  test('should not execute a request that is not approved', async () => {
+    const request = await requestRollout();
+
+    await expect(claimChangeRequestExecution(request.id, 'alice', TEMPLATE)).rejects.toMatchObject({ status: 409 });
+  });
+
+  test('should block the execution when the template version changed', async () => {
+    const request = await approvedRollout();
+
+    await expect(claimChangeRequestExecution(request.id, 'alice', { ...TEMPLATE, version: '1.3.0' }))
+      .rejects.toThrow('Template changed since the request was approved');
+    await expect(claimChangeRequestExecution(request.id, 'alice')).rejects.toMatchObject({ status: 409 });
+    expect((await getChangeRequest(request.id))?.status).toBe('approved');
+  });
+
+  test('should block the execution when the content changed without a new version', async () => {
+    const request = await approvedRollout();
+    const edited: RuleTemplate = {
+      ...TEMPLATE,
+      actionParameters: { response: { status_code: 418, content: 'Blocked', content_type: 'text/plain' } }
+    };
+
+    await expect(claimChangeRequestExecution(request.id, 'alice', edited)).rejects.toMatchObject({ status: 409 });
+    await expect(claimChangeRequestExecution(request.id, 'alice', { ...TEMPLATE, expression: 'ip.src.country eq "CN"' }))
+      .rejects.toMatchObject({ status: 409 });
+    expect((await claimChangeRequestExecution(request.id, 'alice', { ...TEMPLATE, name: 'Renamed' })).status).toBe('executed');
+  });
+
+  test('should execute an approved request only once', async () => {
+    const request = await approvedRollout();
+
+    expect((await claimChangeRequestExecution(request.id, 'alice', TEMPLATE)).status).toBe('executed');
+    await expect(claimChangeRequestExecution(request.id, 'alice', TEMPLATE)).rejects.toMatchObject({ status: 409 });
+
+    expect((await completeChangeRequestExecution(request.id, { jobId: 'job-1' })).jobId).toBe('job-1');
+  });
+
+  test('should give the approval back when the job could not be queued', async () => {
+    const request = await approvedRollout();
+    await claimChangeRequestExecution(request.id, 'alice', TEMPLATE);
+
+    const restored = await completeChangeRequestExecution(request.id, { error: 'Queue is full' });
+
+    expect(restored.status).toBe('approved');
+    expect(restored.history[restored.history.length - 1]).toMatchObject({ status: 'approved', actor: 'alice', note: 'Execution failed: Queue is full' });
+    expect((await claimChangeRequestExecution(request.id, 'alice', TEMPLATE)).status).toBe('executed');
+  });
+});
+
+test.describe('Change approval policy', () => {
+  const ZONES = ['zone-a', 'zone-b', 'zone-c'];
+
+  const rolloutRequest = () => new Request('http://localhost/api/security-rules/bulk-action', { method: 'POST' });
+
+  async function enableLogin() {
+    await createUser({ username: 'admin', password: 'correct horse battery', role: 'security-admin' }, { firstUser: true });
+  }
+
+  test('should not require approval while login is disabled', async () => {
+    await updateApprovalPolicy({ requireForAllZones: true, protectedZones: [] }, 'admin');
+
+    expect(await findZonesRequiringApproval(ZONES)).toEqual([]);
+    expect(await requireChangeApproval(rolloutRequest(), ZONES)).toBeNull();
+  });
+
+  test('should require approval for the protected zones', async () => {
+    await enableLogin();
+    await updateApprovalPolicy({ requireForAllZones: false, protectedZones: [{ zoneId: 'zone-b', domainName: 'b.example.com' }] }, 'admin');
+
+    expect(await findZonesRequiringApproval(ZONES)).toEqual(['zone-b']);
+    expect(await requireChangeApproval(rolloutRequest(), ['zone-a', 'zone-c'])).toBeNull();
+
+    const response = await requireChangeApproval(rolloutRequest(), ZONES);
+    expect(response?.status).toBe(403);
+    expect(await response?.json()).toMatchObject({ success: false, zoneIds: ['zone-b'] });
+  });
+
+  test('should require approval for every zone when enabled for all', async () => {
+    await enableLogin();
+    await updateApprovalPolicy({ requireForAllZones: true, protectedZones: [] }, 'admin');
+
+    expect(await findZonesRequiringApproval(ZONES)).toEqual(ZONES);
+  });
+
+  test('should keep the policy when requests change', async () => {
+    await updateApprovalPolicy({ requireForAllZones: false, protectedZones: [{ zoneId: 'zone-a', domainName: 'a.example.com' }] }, 'admin');
+    await approvedRollout();
+
+    expect(await getApprovalPolicy()).toMatchObject({ protectedZones: [{ zoneId: 'zone-a' }], updatedBy: 'admin' });
+  });
+});
@@ -0,0 +1,76 @@
+import { test, expect } from '@playwright/test';
+import { getNextCronRun, isValidCronExpression, parseCronExpression } from '../src/lib/cronExpression';
+
+// Schedules are evaluated in server local time, so are the dates of the tests
+const at = (month: number, day: number, hours: number, minutes: number, year = 2026) => {
+  return new Date(year, month - 1, day, hours, minutes);
+};
+
+test.describe('Cron expression parsing', () => {
+  test('should expand lists, ranges and steps', () => {
+    const schedule = parseCronExpression('0-30/10,45 */6 1,15 * 1-5');
+
+    expect([...schedule.minutes]).toEqual([0, 10, 20, 30, 45]);
+    expect([...schedule.hours]).toEqual([0, 6, 12, 18]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.anyDayOfMonth).toBe(false);
+    expect(schedule.anyDayOfWeek).toBe(false);
+  });
+
+  test('should accept 7 as Sunday', () => {
+    expect(parseCronExpression('0 0 * * 7').daysOfWeek.has(0)).toBe(true);
+  });
+
+  test('should tolerate extra whitespace', () => {
+    expect(isValidCronExpression('  */5   *  * * *  ')).toBe(true);
+  });
+
+  test('should reject malformed expressions', () => {
+    expect(() => parseCronExpression('* * * *')).toThrow('5 fields');
+    expect(() => parseCronExpression('60 * * * *')).toThrow('minute field');
+    expect(() => parseCronExpression('* 24 * * *')).toThrow('hour field');
+    expect(() => parseCronExpression('* * 0 * *')).toThrow('day of month field');
+    expect(() => parseCronExpression('*/0 * * * *')).toThrow('Invalid step');
+    expect(() => parseCronExpression('30-10 * * * *')).toThrow('Invalid value');
+
+    for (const expression of ['', 'a * * * *', '* * * 13 *', '* * * * 8', '*/x * * * *']) {
+      expect(isValidCronExpression(expression)).toBe(false);
+    }
+  });
+});
+
+test.describe('Cron next run', () => {
+  test('should return the next matching minute, strictly after the start', () => {
+    expect(getNextCronRun('*/15 * * * *', at(1, 5, 10, 7))).toEqual(at(1, 5, 10, 15));
+    expect(getNextCronRun('*/15 * * * *', at(1, 5, 10, 15))).toEqual(at(1, 5, 10, 30));
+    expect(getNextCronRun('*/15 * * * *', new Date(2026, 0, 5, 10, 14, 59, 999))).toEqual(at(1, 5, 10, 15));
+  });
+
+  test('should roll over to the next day, month and year', () => {
+    expect(getNextCronRun('0 3 * * *', at(1, 5, 4, 0))).toEqual(at(1, 6, 3, 0));
+    expect(getNextCronRun('30 0 1 * *', at(1, 31, 23, 59))).toEqual(at(2, 1, 0, 30));
+    expect(getNextCronRun('0 0 1 1 *', at(6, 1, 0, 0))).toEqual(at(1, 1, 0, 0, 2027));
+  });
+
+  test('should skip the weekend for a weekday schedule', () => {
+    // 9 January 2026 is a Friday
+    expect(getNextCronRun('0 9 * * 1-5', at(1, 9, 10, 0))).toEqual(at(1, 12, 9, 0));
+    expect(getNextCronRun('0 0 * * 7', at(1, 5, 0, 0))).toEqual(at(1, 11, 0, 0));
+  });
+
+  test('should match either day field when both are restricted', () => {
+    // The 1st of the month or any Monday, whatever comes first
+    expect(getNextCronRun('0 0 1 * 1', at(1, 2, 12, 0))).toEqual(at(1, 5, 0, 0));
+    expect(getNextCronRun('0 0 1 * 1', at(1, 26, 12, 0))).toEqual(at(2, 1, 0, 0));
+  });
+
+  test('should find 29 February in the next leap year', () => {
+    expect(getNextCronRun('0 0 29 2 *', at(3, 1, 0, 0))).toEqual(at(2, 29, 0, 0, 2028));
+  });
+
+  test('should return null for a date that never exists', () => {
+    expect(getNextCronRun('0 0 31 2 *', at(1, 1, 0, 0))).toBeNull();
+  });
+});
@@ -0,0 +1,157 @@
+import { test, expect } from '@playwright/test';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  FileLockTimeoutError,
+  UnrecoverableJsonFileError,
+  readJsonFileWithRecovery,
+  updateJsonFile,
+  withFileLock,
+  writeJsonFileAtomic
+} from '../src/lib/fileLock';
+
+const createdDirs: string[] = [];
+
+async function createCacheDir(): Promise<string> {
+  const dir = await fs.mkdtemp(join(tmpdir(), 'rollpix-file-lock-'));
+  createdDirs.push(dir);
+  return dir;
+}
+
+test.afterAll(async () => {
+  await Promise.all(createdDirs.map(dir => fs.rm(dir, { recursive: true, force: true })));
+});
+
+async function holdLockAsOtherProcess(filePath: string): Promise<void> {
+  await fs.writeFile(`${filePath}.lock`, JSON.stringify({ token: 'other-process', pid: 999999 }));
+}
+
+test.describe('JSON cache file locking', () => {
+  test('should not lose updates from concurrent read-modify-write cycles', async () => {
+    const dir = await createCacheDir();
+    const filePath = join(dir, 'rule-id-mapping.json');
+
+    await Promise.all(Array.from({ length: 40 }, (_, index) =>
+      updateJsonFile<{ mappings: string[] }>(filePath, current => ({
+        mappings: [...(current?.mappings || []), `rule-${index}`]
+      }))
+    ));
+
+    const result = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    expect(result.mappings).toHaveLength(40);
+    expect(new Set(result.mappings).size).toBe(40);
+    expect((await fs.readdir(dir)).sort()).toEqual(['rule-id-mapping.json', 'rule-id-mapping.json.bak']);
+  });
+
+  test('should never expose a partially written file to readers', async () => {
+    const dir = await createCacheDir();
+    const filePath = join(dir, 'security-rules-templates.json');
+    const payload = (writer: number) => ({
+      writer,
+      templates: Array.from({ length: 500 }, (_, index) => ({ id: `${writer}-${index}`, expression: 'x'.repeat(200) }))
+    });
+
+    await writeJsonFileAtomic(filePath, payload(0));
+
+    const writers = Array.from({ length: 10 }, (_, writer) =>
+      withFileLock(filePath, () => writeJsonFileAtomic(filePath, payload(writer + 1)))
+    );
+    const readers = Array.from({ length: 30 }, async () => {
+      const data = await readJsonFileWithRecovery<ReturnType<typeof payload>>(filePath);
+      expect(data?.templates).toHaveLength(500);
+    });
+    await Promise.all([...writers, ...readers]);
+
+    const final = await readJsonFileWithRecovery<ReturnType<typeof payload>>(filePath);
+    expect(final?.templates.every(template => template.id.startsWith(`${final.writer}-`))).toBe(true);
+    expect((await fs.readdir(dir)).filter(name => name.endsWith('.tmp') || name.endsWith('.lock'))).toEqual([]);
+  });
+
+  test('should wait for a lock held by another process', async () => {
+    const dir = await createCacheDir();
+    const filePath = join(dir, 'domains-cache.json');
+    await holdLockAsOtherProcess(filePath);
+
+    const startedAt = Date.now();
+    setTimeout(() => { fs.unlink(`${filePath}.lock`); }, 200);
+    await updateJsonFile(filePath, () => ({ domains: [] }));
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(150);
+    expect(JSON.parse(await fs.readFile(filePath, 'utf-8'))).toEqual({ domains: [] });
+  });
+
+  test('should time out when the lock is never released', async () => {
+    const dir = await createCacheDir();
+    const filePath = join(dir, 'domains-cache.json');
+    await holdLockAsOtherProcess(filePath);
+
+    await expect(updateJsonFile(filePath, () => ({ domains: [] }), { timeoutMs: 200 }))
+      .rejects.toBeInstanceOf(FileLockTimeoutError);
+    await expect(fs.access(filePath)).rejects.toThrow();
+  });
+
+  test('should take over a stale lock', async () => {
+    const dir = await createCacheDir();
+    const filePath = join(dir, 'domains-cache.json');
+    await holdLockAsOtherProcess(filePath);
+    const abandonedAt = new Date(Date.now() - 60 * 1000);
+    await fs.utimes(`${filePath}.lock`, abandonedAt, abandonedAt);
+
+    await updateJsonFile(filePath, () => ({ domains: ['recovered'] }), { timeoutMs: 500, staleMs: 30 * 1000 });
+
+    expect(JSON.parse(await fs.readFile(filePath, 'utf-8'))).toEqual({ domains: ['recovered'] });
+  });
+
+  test('should release the lock and keep the file when the updater fails', async () => {
+    const dir = await createCacheDir();
+    const filePath = join(dir, 'rule-id-mapping.json');
+    await writeJsonFileAtomic(filePath, { mappings: ['kept'] });
+
+    await expect(updateJsonFile(filePath, () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await updateJsonFile<{ mappings: string[] }>(filePath, current => ({ mappings: [...(current?.mappings || []), 'next'] }), { timeoutMs: 200 });
+
+    expect(JSON.parse(await fs.readFile(filePath, 'utf-8'))).toEqual({ mappings: ['kept', 'next'] });
+  });
+});
+
+test.describe('JSON cache file corruption recovery', () => {
+  test('should restore a corrupt file from its last good copy', async () => {
+    const dir = await createCacheDir();
+    const filePath = join(dir, 'rule-id-mapping.json');
+    await writeJsonFileAtomic(filePath, { mappings: ['a', 'b'] });
+    await fs.writeFile(filePath, '{"mappings": ["a", "b"');
+
+    const recovered = await readJsonFileWithRecovery(filePath);
+
+    expect(recovered).toEqual({ mappings: ['a', 'b'] });
+    expect(JSON.parse(await fs.readFile(filePath, 'utf-8'))).toEqual({ mappings: ['a', 'b'] });
+    expect((await fs.readdir(dir)).some(name => name.startsWith('rule-id-mapping.json.corrupt-'))).toBe(true);
+  });
+
+  test('should keep the corrupt file aside when there is no good copy', async () => {
+    const dir = await createCacheDir();
+    const filePath = join(dir, 'rule-id-mapping.json');
+    await fs.writeFile(filePath, 'not json');
+
+    expect(await readJsonFileWithRecovery(filePath)).toBeNull();
+    await expect(fs.access(filePath)).rejects.toThrow();
+    expect((await fs.readdir(dir)).some(name => name.startsWith('rule-id-mapping.json.corrupt-'))).toBe(true);
+  });
+
+  test('should leave the corrupt file in place and fail in strict mode', async () => {
+    const dir = await createCacheDir();
+    const filePath = join(dir, 'users.json');
+    await fs.writeFile(filePath, 'not json');
+
+    await expect(readJsonFileWithRecovery(filePath, { strict: true })).rejects.toThrow(UnrecoverableJsonFileError);
+    await expect(updateJsonFile(filePath, () => ({ users: [] }), { strict: true })).rejects.toThrow(UnrecoverableJsonFileError);
+    expect(await fs.readFile(filePath, 'utf-8')).toBe('not json');
+  });
+
+  test('should return null for a file that was never written', async () => {
+    const dir = await createCacheDir();
+    expect(await readJsonFileWithRecovery(join(dir, 'missing.json'))).toBeNull();
+    expect(await readJsonFileWithRecovery(join(dir, 'missing.json'), { strict: true })).toBeNull();
+  });
+});
@@ -0,0 +1,38 @@
+import { test } from '@playwright/test';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+// Loaded up front, the storage backend imports it dynamically
+import '../../src/lib/jsonStorage';
+
+/**
+ * Points the cache files of the spec at a temporary directory (CACHE_DIR), emptied before every test
+ * Each worker process gets its own directory
+ */
+export function setupTempCacheDir(name: string) {
+  let rootDir = '';
+  const cacheDir = {
+    get path() {
+      return join(rootDir, 'cache');
+    },
+    file(fileName: string) {
+      return join(rootDir, 'cache', fileName);
+    }
+  };
+
+  test.beforeAll(async () => {
+    rootDir = await fs.mkdtemp(join(tmpdir(), `rollpix-${name}-`));
+    process.env.CACHE_DIR = cacheDir.path;
+  });
+
+  test.afterAll(async () => {
+    delete process.env.CACHE_DIR;
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  test.beforeEach(async () => {
+    await fs.rm(cacheDir.path, { recursive: true, force: true });
+  });
+
+  return cacheDir;
+}
@@ -0,0 +1,162 @@
+import { test, expect } from '@playwright/test';
+import {
+  canMergeConflicts,
+  canonicalize,
+  detectRuleConflicts,
+  getDefaultResolution,
+  mergeConflictExpressions,
+  toCloudflareAction
+} from '../src/lib/ruleConflicts';
+import { parseExpression } from '../src/lib/ruleExpression';
+import { CloudflareRule, ConflictResolution, RuleConflict, RuleTemplate } from '../src/types/cloudflare';
+
+const TEMPLATE: RuleTemplate = {
+  id: 'template-R001',
+  friendlyId: 'R001',
+  name: 'Block admin from abroad',
+  description: '',
+  version: '1.0.0',
+  enabled: true,
+  priority: 1,
+  expression: 'http.request.uri.path contains "/admin" and ip.src.country in {"CN" "RU"}',
+  action: 'block',
+  tags: [],
+  applicableTags: [],
+  excludedDomains: [],
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z'
+};
+
+const CONTEXT = { zoneId: 'zone', domainName: 'example.com', templates: [TEMPLATE] };
+
+let nextRuleId = 0;
+
+const rule = (expression: string, action: string, overrides: Partial<CloudflareRule> = {}): CloudflareRule => ({
+  id: `rule-${nextRuleId++}`,
+  expression,
+  action,
+  description: 'Custom rule',
+  enabled: true,
+  ...overrides
+});
+
+const conflictsWith = (existing: CloudflareRule[], template = TEMPLATE) => detectRuleConflicts(template, existing, CONTEXT);
+
+const canonicalOf = (expression: string) => canonicalize(parseExpression(expression).ast!);
+
+test.describe('Rule conflict canonical form', () => {
+  test('should ignore formatting, groups and operand order', () => {
+    expect(canonicalOf('(ip.src.country in {"RU" "CN"})  and http.request.uri.path contains "/admin"'))
+      .toBe(canonicalOf(TEMPLATE.expression));
+    expect(canonicalOf('ssl or (cf.client.bot or ip.src eq 192.0.2.1)')).toBe(canonicalOf('ip.src eq 192.0.2.1 or ssl or cf.client.bot'));
+  });
+
+  test('should keep different operators apart', () => {
+    expect(canonicalOf('ssl and cf.client.bot')).not.toBe(canonicalOf('ssl or cf.client.bot'));
+    expect(canonicalOf('not ssl')).not.toBe(canonicalOf('ssl'));
+  });
+});
+
+test.describe('Rule conflict detection', () => {
+  test('should report an identical rule with the same action as a replacement', () => {
+    const [conflict] = conflictsWith([rule('ip.src.country in {"RU" "CN"} and http.request.uri.path contains "/admin"', 'block')]);
+
+    expect(conflict).toMatchObject({ conflictType: 'identical', suggestedResolution: ConflictResolution.REPLACE, confidence: 1, corporateRuleId: 'R001' });
+  });
+
+  test('should ask for a manual decision when the actions contradict each other', () => {
+    const [identical] = conflictsWith([rule(TEMPLATE.expression, 'allow')]);
+    const [overlapping] = conflictsWith([rule('http.request.uri.path contains "/admin"', 'skip')]);
+
+    expect(identical).toMatchObject({ conflictType: 'contradictory', suggestedResolution: ConflictResolution.MANUAL });
+    expect(overlapping).toMatchObject({ conflictType: 'contradictory', suggestedResolution: ConflictResolution.MANUAL });
+  });
+
+  test('should report the same expression with a compatible action as similar', () => {
+    const [conflict] = conflictsWith([rule(TEMPLATE.expression, 'log')]);
+
+    expect(conflict).toMatchObject({ conflictType: 'similar', suggestedResolution: ConflictResolution.REPLACE, confidence: 0.9 });
+  });
+
+  test('should suggest merging rules that share conditions and action', () => {
+    const [merge] = conflictsWith([rule('ip.src.country eq "CN" and http.request.uri.path contains "/admin"', 'block')]);
+    const [skip] = conflictsWith([rule('ip.src.country eq "CN"', 'managed_challenge')]);
+
+    expect(merge).toMatchObject({ conflictType: 'overlapping', suggestedResolution: ConflictResolution.MERGE });
+    expect(skip).toMatchObject({ conflictType: 'overlapping', suggestedResolution: ConflictResolution.SKIP });
+  });
+
+  test('should compare the template with its Cloudflare action', () => {
+    expect(toCloudflareAction('challenge')).toBe('managed_challenge');
+
+    const challenge = { ...TEMPLATE, action: 'challenge' as const };
+    const [conflict] = conflictsWith([rule(TEMPLATE.expression, 'managed_challenge')], challenge);
+
+    expect(conflict.conflictType).toBe('identical');
+  });
+
+  test('should skip unrelated, disabled, template and other phase rules', () => {
+    const conflicts = conflictsWith([
+      rule('http.host eq "other.example.com"', 'block'),
+      rule(TEMPLATE.expression, 'block', { enabled: false }),
+      rule(TEMPLATE.expression, 'block', { description: 'R002-Other template' }),
+      rule(TEMPLATE.expression, 'block', { description: TEMPLATE.name.toUpperCase() }),
+      rule(TEMPLATE.expression, 'block', { phase: 'http_ratelimit' })
+    ]);
+
+    expect(conflicts).toEqual([]);
+  });
+
+  test('should fall back to comparing the text of expressions that do not parse', () => {
+    const invalid = { ...TEMPLATE, expression: 'http.host eq' };
+
+    expect(conflictsWith([rule('http.host   eq', 'block')], invalid)).toHaveLength(1);
+    expect(conflictsWith([rule('http.host eq "example.com"', 'block')], invalid)).toEqual([]);
+  });
+});
+
+test.describe('Rule conflict resolution', () => {
+  const conflict = (overrides: Partial<RuleConflict>): RuleConflict => ({
+    zoneId: 'zone',
+    domainName: 'example.com',
+    corporateRuleId: 'R001',
+    corporateRuleName: TEMPLATE.name,
+    conflictingRule: { cloudflareRuleId: 'rule', expression: 'ip.src.country eq "CN"', action: 'block' },
+    conflictType: 'overlapping',
+    suggestedResolution: ConflictResolution.MERGE,
+    confidence: 0.5,
+    ...overrides
+  });
+
+  test('should pick the most conservative suggested resolution', () => {
+    expect(getDefaultResolution([])).toBe(ConflictResolution.REPLACE);
+    expect(getDefaultResolution([
+      conflict({ suggestedResolution: ConflictResolution.REPLACE }),
+      conflict({ suggestedResolution: ConflictResolution.MERGE })
+    ])).toBe(ConflictResolution.MERGE);
+    expect(getDefaultResolution([
+      conflict({ suggestedResolution: ConflictResolution.SKIP }),
+      conflict({ suggestedResolution: ConflictResolution.MANUAL })
+    ])).toBe(ConflictResolution.MANUAL);
+  });
+
+  test('should merge the expressions of the rules that are not identical', () => {
+    const merged = mergeConflictExpressions(TEMPLATE, [
+      conflict({ conflictType: 'identical', conflictingRule: { cloudflareRuleId: 'a', expression: TEMPLATE.expression, action: 'block' } }),
+      conflict({})
+    ]);
+
+    expect(merged).toBe(`(${TEMPLATE.expression}) or (ip.src.country eq "CN")`);
+    expect(mergeConflictExpressions(TEMPLATE, [])).toBe(TEMPLATE.expression);
+  });
+
+  test('should not merge rules with another action, in another phase or too long for Cloudflare', () => {
+    const allow = conflict({ conflictingRule: { cloudflareRuleId: 'a', expression: 'ssl', action: 'allow' } });
+    const long = conflict({ conflictingRule: { cloudflareRuleId: 'b', expression: `http.host eq "${'a'.repeat(4096)}"`, action: 'block' } });
+
+    expect(canMergeConflicts(TEMPLATE, [allow])).toBe(false);
+    expect(mergeConflictExpressions(TEMPLATE, [allow])).toBeNull();
+    expect(canMergeConflicts({ ...TEMPLATE, phase: 'http_ratelimit' }, [conflict({})])).toBe(false);
+    expect(mergeConflictExpressions(TEMPLATE, [long])).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+import { test, expect } from '@playwright/test';
+import { getReferencedLists, parseExpression, toJavaScriptRegExp, validateExpression } from '../src/lib/ruleExpression';
+
+const errorsOf = (expression: string) => validateExpression(expression).errors.map(({ message }) => message);
+
+test.describe('Rule expression parser', () => {
+  test('should accept the expressions Cloudflare accepts', () => {
+    const expressions = [
+      'ip.src.country eq "CN"',
+      '(http.request.uri.path contains "/wp-admin" or http.request.uri.path contains "/xmlrpc.php") and not cf.client.bot',
+      'ip.src in {192.0.2.0/24 198.51.100.1 2001:db8::/32} && http.request.method in {"POST" "PUT"}',
+      'cf.bot_management.score in {1..29} and ssl',
+      'http.request.uri.path matches r#"^/api/v[0-9]+/"# and ends_with(lower(http.host), ".example.com")',
+      'any(http.request.headers["x-debug"][*] eq "1") ^^ http.request.headers.names[0] eq "host"',
+      'http.user_agent strict wildcard "curl/*" or http.request.uri.path ~ "(?i)login"',
+      'ip.src in $office_ips and http.request.uri.args["token"][0] ne ""'
+    ];
+
+    for (const expression of expressions) {
+      expect(errorsOf(expression), expression).toEqual([]);
+    }
+  });
+
+  test('should give "and" precedence over "xor" and "xor" over "or"', () => {
+    const { ast } = parseExpression('ssl or cf.client.bot xor ssl and cf.client.bot');
+
+    expect(ast).toMatchObject({
+      kind: 'logical',
+      operator: 'or',
+      right: { kind: 'logical', operator: 'xor', right: { kind: 'logical', operator: 'and' } }
+    });
+  });
+
+  test('should report syntax errors with their position', () => {
+    const { ast, errors } = parseExpression('http.host eq "example.com" and\n  (ip.src.country eq "CN"');
+
+    expect(ast).toBeNull();
+    expect(errors).toEqual([{ message: 'Expected ")" to close the group before end of expression', start: 56, end: 57, line: 2, column: 26 }]);
+  });
+
+  test('should reject malformed literals and tokens', () => {
+    const cases: Array<[string, string]> = [
+      ['', 'Expression is empty'],
+      ['   ', 'Expression is empty'],
+      ['http.host eq "example.com', 'Unterminated string'],
+      ["http.host eq 'example.com'", 'Strings must use double quotes'],
+      ['http.request.uri.path matches r#"^/a"', 'Unterminated raw string'],
+      ['ip.src in $', 'Expected a list name after "$"'],
+      ['http.host eq', 'Expected a value before end of expression'],
+      ['http.host eq "a" "b"', 'Unexpected "b", expected "and", "or" or end of expression'],
+      ['http.user_agent strict "curl"', 'Expected "wildcard" after "strict"'],
+      ['http.request.headers[host] eq "x"', 'Index must be a string, a number or *'],
+      ['ip.src in 192.0.2.1', 'Expected "{" or a $list after "in", found "192.0.2.1"'],
+      ['and ssl', 'Expected a field or condition, found "and"'],
+      ['http.host eq "a" # comment', 'Unexpected character "#"']
+    ];
+
+    for (const [expression, message] of cases) {
+      const { ast, errors } = parseExpression(expression);
+      expect(ast, expression).toBeNull();
+      expect(errors.map(error => error.message), expression).toEqual([message]);
+    }
+  });
+});
+
+test.describe('Rule expression validation', () => {
+  test('should flag unknown fields and functions', () => {
+    expect(errorsOf('ip.src.contry eq "CN"')).toEqual(['Unknown field "ip.src.contry"']);
+    expect(errorsOf('lowercase(http.host) eq "a"')).toEqual(['Unknown function "lowercase()"']);
+  });
+
+  test('should check operators and literal types against the field type', () => {
+    expect(errorsOf('cf.threat_score contains "1"')).toEqual(['Operator "contains" is not supported for Int values']);
+    expect(errorsOf('cf.threat_score gt "10"')).toHaveLength(1);
+    expect(errorsOf('ip.src eq 192.0.2.0/24')).toEqual(['CIDR ranges can only be used with the "in" operator']);
+    expect(errorsOf('ip.src eq 300.0.2.1')).toEqual(['Invalid IPv4 address "300.0.2.1"']);
+    expect(errorsOf('http.request.uri.path matches "(unclosed"')[0]).toMatch(/^Invalid regular expression: /);
+  });
+
+  test('should require maps and arrays to be indexed and [*] to be wrapped', () => {
+    expect(errorsOf('http.request.headers eq "x"')[0]).toContain('index it with [*], [0] or ["name"]');
+    expect(errorsOf('http.request.headers[0][0] eq "x"')).toEqual(['Maps are indexed by name, e.g. ["user-agent"]']);
+    expect(errorsOf('http.request.headers.names["host"] eq "x"')).toEqual(['Arrays are indexed by position, e.g. [0] or [*]']);
+    expect(errorsOf('http.request.headers.names[*] eq "x"')[0]).toContain('wrap them in any() or all()');
+  });
+
+  test('should check the arguments of function calls', () => {
+    expect(errorsOf('lower() eq "a"')).toEqual(['lower() expects 1 arguments, got 0']);
+    expect(errorsOf('substring(http.host, 0) eq "a"')).toEqual([]);
+    expect(errorsOf('len(cf.threat_score) eq 1')).toEqual(['Argument 1 of len() must be String or Bytes or Array<String> or Array<Int> or Array<Boolean>, got Int']);
+  });
+
+  test('should not accept a non-boolean value as a whole condition', () => {
+    expect(errorsOf('http.host')[0]).toContain('cannot be used as a condition');
+    expect(errorsOf('ssl and true')).toEqual([]);
+  });
+
+  test('should report every type error in order of appearance', () => {
+    const { valid, errors } = validateExpression('ip.src.contry eq "CN" or cf.threat_score contains "1"');
+
+    expect(valid).toBe(false);
+    expect(errors.map(({ column }) => column)).toEqual([1, 26]);
+  });
+});
+
+test.describe('Rule expression helpers', () => {
+  test('should list the $lists an expression references', () => {
+    expect(getReferencedLists('ip.src in $office or (not ip.src in $blocked and any(http.request.headers.names[*] in $bad_headers))'))
+      .toEqual(['office', 'blocked', 'bad_headers']);
+    expect(getReferencedLists('ip.src in $office or ip.src in $office')).toEqual(['office']);
+    expect(getReferencedLists('ip.src in $')).toEqual([]);
+  });
+
+  test('should translate Rust regex flags to JavaScript', () => {
+    expect(toJavaScriptRegExp('(?i)^/Admin').test('/admin/users')).toBe(true);
+    expect(toJavaScriptRegExp('^/(?i:admin)').test('/admin')).toBe(true);
+    expect(toJavaScriptRegExp('(?P<version>v[0-9]+)').exec('/v2/')?.groups?.version).toBe('v2');
+  });
+});
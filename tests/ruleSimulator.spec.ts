@@ -0,0 +1,155 @@
+import { test, expect } from '@playwright/test';
+import {
+  DEFAULT_SIMULATED_REQUEST,
+  SimulatedRequest,
+  buildRequestFields,
+  evaluateExpression,
+  simulateTemplates
+} from '../src/lib/ruleSimulator';
+import { RuleTemplate } from '../src/types/cloudflare';
+
+const request = (overrides: Partial<SimulatedRequest> = {}): SimulatedRequest => ({ ...DEFAULT_SIMULATED_REQUEST, ...overrides });
+
+const resultOf = (expression: string, simulated = request(), lists?: Record<string, string[]>) => {
+  return evaluateExpression(expression, simulated, { lists }).result;
+};
+
+function template(friendlyId: string, overrides: Partial<RuleTemplate>): RuleTemplate {
+  return {
+    id: `template-${friendlyId}`,
+    friendlyId,
+    name: `Rule ${friendlyId}`,
+    description: '',
+    version: '1.0.0',
+    enabled: true,
+    priority: 1,
+    expression: 'ssl',
+    action: 'block',
+    tags: [],
+    applicableTags: [],
+    excludedDomains: [],
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+    ...overrides
+  };
+}
+
+test.describe('Rule simulator request fields', () => {
+  test('should derive the URI, arguments and headers from the request', () => {
+    const fields = buildRequestFields(request({
+      path: '/Files/Report.PDF',
+      query: 'q=a+b&q=%41&raw=%41',
+      headers: { Cookie: 'session=abc; theme=dark', 'X-Forwarded-For': '198.51.100.7' }
+    }));
+
+    expect(fields['http.request.uri']).toBe('/Files/Report.PDF?q=a+b&q=%41&raw=%41');
+    expect(fields['http.request.full_uri']).toBe('https://example.com/Files/Report.PDF?q=a+b&q=%41&raw=%41');
+    expect(fields['http.request.uri.path.extension']).toBe('pdf');
+    expect(fields['http.request.uri.args']).toEqual({ q: ['a b', 'A'], raw: ['A'] });
+    expect(fields['raw.http.request.uri.args']).toEqual({ q: ['a+b', '%41'], raw: ['%41'] });
+    expect(fields['http.request.cookies']).toEqual({ session: ['abc'], theme: ['dark'] });
+    expect(fields['http.x_forwarded_for']).toBe('198.51.100.7');
+    expect(fields['ip.src.is_in_european_union']).toBe(true);
+  });
+});
+
+test.describe('Rule simulator evaluation', () => {
+  test('should evaluate comparisons on the simulated request', () => {
+    expect(resultOf('ip.src.country eq "ES" and http.request.method eq "GET"')).toBe(true);
+    expect(resultOf('ip.src.country in {"CN" "RU"}')).toBe(false);
+    expect(resultOf('http.request.uri.path contains "/wp-"', request({ path: '/wp-login.php' }))).toBe(true);
+    expect(resultOf('lower(http.request.uri.path) eq "/admin"', request({ path: '/ADMIN' }))).toBe(true);
+    expect(resultOf('cf.bot_management.score lt 30', request({ botScore: 12 }))).toBe(true);
+    expect(resultOf('not ssl', request({ ssl: false }))).toBe(true);
+  });
+
+  test('should match IP addresses against CIDR ranges and ranges', () => {
+    expect(resultOf('ip.src in {203.0.113.0/24}')).toBe(true);
+    expect(resultOf('ip.src in {198.51.100.0/24}')).toBe(false);
+    expect(resultOf('ip.src in {203.0.113.1..203.0.113.20}')).toBe(true);
+    expect(resultOf('ip.src in {2001:db8::/32}', request({ ip: '2001:db8:0:0::1' }))).toBe(true);
+    expect(resultOf('ip.src eq 2001:db8::1', request({ ip: '2001:0db8:0000:0000:0000:0000:0000:0001' }))).toBe(true);
+  });
+
+  test('should apply regex and wildcard operators', () => {
+    expect(resultOf('http.request.uri.path matches "(?i)^/api/v[0-9]+/"', request({ path: '/API/v2/users' }))).toBe(true);
+    expect(resultOf('http.host wildcard "*.EXAMPLE.com"', request({ host: 'shop.example.com' }))).toBe(true);
+    expect(resultOf('http.host strict wildcard "*.EXAMPLE.com"', request({ host: 'shop.example.com' }))).toBe(false);
+  });
+
+  test('should evaluate any() and all() over header values', () => {
+    const simulated = request({ headers: { 'X-Debug': '1', Accept: 'text/html' } });
+
+    expect(resultOf('any(http.request.headers.names[*] eq "x-debug")', simulated)).toBe(true);
+    expect(resultOf('all(http.request.headers.names[*] contains "-")', simulated)).toBe(false);
+    expect(resultOf('http.request.headers["x-debug"][0] eq "1"', simulated)).toBe(true);
+  });
+
+  test('should use the provided list contents', () => {
+    expect(resultOf('ip.src in $office', request(), { office: ['203.0.113.0/24'] })).toBe(true);
+    expect(resultOf('ip.src in $office', request(), { office: ['198.51.100.1'] })).toBe(false);
+  });
+
+  test('should leave the result unknown when it depends on something it cannot evaluate', () => {
+    const { result, notes } = evaluateExpression('ip.src in $office', request());
+    expect(result).toBeNull();
+    expect(notes).toEqual(['List $office is not available in the simulator']);
+
+    expect(resultOf('cf.threat_score gt 10')).toBeNull();
+    // Known values still decide the result on their own
+    expect(resultOf('cf.threat_score gt 10 and ip.src.country eq "CN"')).toBe(false);
+    expect(resultOf('cf.threat_score gt 10 or ip.src.country eq "ES"')).toBe(true);
+  });
+
+  test('should return validation errors instead of a result', () => {
+    const { result, errors } = evaluateExpression('ip.src.contry eq "ES"', request());
+
+    expect(result).toBeNull();
+    expect(errors).toEqual(['Unknown field "ip.src.contry" (line 1, column 1)']);
+  });
+});
+
+test.describe('Rule simulator templates', () => {
+  test('should let the first terminating match by priority win', () => {
+    const report = simulateTemplates([
+      template('R003', { priority: 30, expression: 'ssl', action: 'block' }),
+      template('R001', { priority: 10, expression: 'ip.src.country eq "ES"', action: 'log' }),
+      template('R002', { priority: 20, expression: 'http.request.method eq "GET"', action: 'managed_challenge' }),
+      template('R004', { priority: 5, expression: 'ssl', action: 'allow', enabled: false })
+    ], request());
+
+    expect(report.results.map(({ friendlyId, outcome }) => [friendlyId, outcome])).toEqual([
+      ['R004', 'disabled'],
+      ['R001', 'match'],
+      ['R002', 'match'],
+      ['R003', 'match']
+    ]);
+    expect(report.winner?.friendlyId).toBe('R002');
+    expect(report.finalAction).toBe('managed_challenge');
+    expect(report.logged.map(({ friendlyId }) => friendlyId)).toEqual(['R001']);
+    expect(report.uncertain).toBe(false);
+  });
+
+  test('should flag the report as uncertain when an earlier rule is unknown', () => {
+    const report = simulateTemplates([
+      template('R001', { priority: 1, expression: 'cf.threat_score gt 10', action: 'block' }),
+      template('R002', { priority: 2, expression: 'http.request.uri.path eq "/"', action: 'challenge' })
+    ], request());
+
+    expect(report.results.map(({ outcome }) => outcome)).toEqual(['unknown', 'match']);
+    expect(report.winner?.friendlyId).toBe('R002');
+    expect(report.uncertain).toBe(true);
+  });
+
+  test('should report invalid templates and no action when nothing matches', () => {
+    const report = simulateTemplates([
+      template('R001', { expression: 'http.host eq', action: 'block' }),
+      template('R002', { expression: 'ip.src.country eq "CN"', action: 'block' })
+    ], request());
+
+    expect(report.results[0].outcome).toBe('invalid');
+    expect(report.results[0].notes[0]).toContain('Expected a value');
+    expect(report.winner).toBeNull();
+    expect(report.finalAction).toBe('none');
+  });
+});
@@ -0,0 +1,139 @@
+import { test, expect } from '@playwright/test';
+import { createHash, scryptSync } from 'crypto';
+import { promises as fs } from 'fs';
+import { setupTempCacheDir } from './helpers/tempCacheDir';
+import { safeReadJsonFile, safeUpdateJsonFile } from '../src/lib/fileSystem';
+import {
+  TokenVaultError,
+  getTokenInfo,
+  removeToken,
+  resolveApiToken,
+  rotateToken,
+  storeToken
+} from '../src/lib/tokenVault';
+
+const VAULT_FILE = 'token-vault.json';
+const TOKEN = 'cf-token-0123456789abcdefghijklmnopqrstuv';
+const NEW_TOKEN = 'cf-token-rotated-9876543210zyxwvutsrqponm';
+
+const cacheDir = setupTempCacheDir('token-vault');
+
+test.beforeEach(() => {
+  process.env.TOKEN_VAULT_KEY = 'a'.repeat(64);
+});
+
+test.afterEach(() => {
+  delete process.env.TOKEN_VAULT_KEY;
+});
+
+test.describe('Token vault', () => {
+  test('should encrypt the token at rest and resolve it from the handle', async () => {
+    const { handle, maskedToken } = await storeToken(TOKEN);
+
+    expect(handle).toMatch(/^vt_/);
+    expect(maskedToken).toBe(`***${TOKEN.slice(-8)}`);
+    expect(await resolveApiToken(handle)).toBe(TOKEN);
+
+    const stored = await fs.readFile(cacheDir.file(VAULT_FILE), 'utf-8');
+    expect(stored).not.toContain(TOKEN);
+    expect(stored).not.toContain(handle);
+  });
+
+  test('should not resolve the handle with another key', async () => {
+    const { handle } = await storeToken(TOKEN);
+    process.env.TOKEN_VAULT_KEY = 'b'.repeat(64);
+
+    expect(await resolveApiToken(handle)).toBeNull();
+    expect(await getTokenInfo(handle)).toBeNull();
+  });
+
+  test('should reject raw tokens while the vault is enabled', async () => {
+    expect(await resolveApiToken(TOKEN)).toBeNull();
+    expect(await resolveApiToken(TOKEN, { allowRawToken: true })).toBe(TOKEN);
+
+    delete process.env.TOKEN_VAULT_KEY;
+    expect(await resolveApiToken(TOKEN)).toBe(TOKEN);
+  });
+
+  test('should keep the handle when the token is rotated', async () => {
+    const { handle } = await storeToken(TOKEN);
+
+    const info = await rotateToken(handle, NEW_TOKEN);
+
+    expect(info.maskedToken).toBe(`***${NEW_TOKEN.slice(-8)}`);
+    expect(info.rotatedAt).toBeTruthy();
+    expect(await resolveApiToken(handle)).toBe(NEW_TOKEN);
+  });
+
+  test('should only let the owner rotate or remove a handle', async () => {
+    const { handle } = await storeToken(TOKEN, { ownerId: 'user-a' });
+
+    await expect(rotateToken(handle, NEW_TOKEN, { ownerId: 'user-b' })).rejects.toMatchObject({ status: 403 });
+    await expect(removeToken(handle, { ownerId: 'user-b' })).rejects.toBeInstanceOf(TokenVaultError);
+    expect(await resolveApiToken(handle)).toBe(TOKEN);
+
+    expect(await removeToken(handle, { ownerId: 'user-a' })).toBe(true);
+    expect(await resolveApiToken(handle)).toBeNull();
+  });
+
+  test('should fail to rotate an unknown handle', async () => {
+    await expect(rotateToken('vt_unknown', NEW_TOKEN)).rejects.toMatchObject({ status: 404 });
+  });
+
+  test('should expire handles and drop them when another token is stored', async () => {
+    const { handle } = await storeToken(TOKEN);
+    const eightDaysAgo = new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString();
+    await safeUpdateJsonFile<{ entries: Array<{ createdAt: string }> }>(VAULT_FILE, cache => ({
+      ...cache,
+      entries: cache.entries.map(entry => ({ ...entry, createdAt: eightDaysAgo }))
+    }));
+
+    expect(await resolveApiToken(handle)).toBeNull();
+    await expect(rotateToken(handle, NEW_TOKEN)).rejects.toMatchObject({ status: 404 });
+
+    await storeToken(NEW_TOKEN);
+    const cache = await safeReadJsonFile<{ entries: unknown[] }>(VAULT_FILE);
+    expect(cache.entries).toHaveLength(1);
+  });
+
+  test('should keep a single environment token entry per owner', async () => {
+    const first = await storeToken(TOKEN, { ownerId: 'user-a', fromEnvironment: true });
+    const second = await storeToken(TOKEN, { ownerId: 'user-a', fromEnvironment: true });
+    const other = await storeToken(TOKEN, { ownerId: 'user-b', fromEnvironment: true });
+    await storeToken(NEW_TOKEN, { ownerId: 'user-a' });
+
+    expect(await resolveApiToken(first.handle)).toBeNull();
+    expect(await resolveApiToken(second.handle)).toBe(TOKEN);
+    expect(await resolveApiToken(other.handle)).toBe(TOKEN);
+    const cache = await safeReadJsonFile<{ entries: unknown[] }>(VAULT_FILE);
+    expect(cache.entries).toHaveLength(3);
+  });
+});
+
+test.describe('Token vault key', () => {
+  const storedKeyId = async () => {
+    await storeToken(TOKEN);
+    const cache = await safeReadJsonFile<{ entries: Array<{ keyId: string }> }>(VAULT_FILE);
+    return cache.entries[0].keyId;
+  };
+  const keyIdOf = (key: Buffer) => createHash('sha256').update(key).digest('hex').slice(0, 8);
+
+  test('should use 32 bytes given as hex or base64 as the key', async () => {
+    const key = Buffer.alloc(32, 7);
+
+    process.env.TOKEN_VAULT_KEY = key.toString('hex');
+    expect(await storedKeyId()).toBe(keyIdOf(key));
+
+    await fs.rm(cacheDir.path, { recursive: true, force: true });
+    process.env.TOKEN_VAULT_KEY = key.toString('base64');
+    expect(await storedKeyId()).toBe(keyIdOf(key));
+  });
+
+  test('should derive the key from anything else as a passphrase', async () => {
+    // Long enough to pass for base64 once the characters outside its alphabet are skipped
+    const passphrase = 'correct horse battery staple for the token vault ok';
+    process.env.TOKEN_VAULT_KEY = passphrase;
+
+    expect(await storedKeyId()).toBe(keyIdOf(scryptSync(passphrase, 'rollpix-token-vault', 32)));
+  });
+});
@@ -0,0 +1,204 @@
+import { test, expect } from '@playwright/test';
+import { diffZoneRecords, exportZoneFile, parseZoneFile } from '../src/lib/zoneFile';
+import { CloudflareDNSRecord } from '../src/types/cloudflare';
+
+const ZONE = 'example.com';
+
+let nextRecordId = 0;
+
+function cloudflareRecord(overrides: Partial<CloudflareDNSRecord> & Pick<CloudflareDNSRecord, 'type' | 'name'>): CloudflareDNSRecord {
+  return {
+    id: `record-${nextRecordId++}`,
+    zone_id: 'zone',
+    zone_name: ZONE,
+    content: '',
+    proxiable: false,
+    proxied: false,
+    ttl: 3600,
+    locked: false,
+    meta: { auto_added: false, managed_by_apps: false, managed_by_argo_tunnel: false, source: 'primary' },
+    tags: [],
+    created_on: '2026-01-01T00:00:00Z',
+    modified_on: '2026-01-01T00:00:00Z',
+    ...overrides
+  };
+}
+
+test.describe('Zone file parsing', () => {
+  test('should resolve names against $ORIGIN and apply $TTL', () => {
+    const { records, errors } = parseZoneFile([
+      '$ORIGIN example.com.',
+      '$TTL 1h',
+      '@          IN  A      192.0.2.1',
+      'www        300 IN CNAME @',
+      'mail.example.com. IN 2h MX 10 mx1',
+      '           IN  MX     20 mx2.other.net.',
+      '$ORIGIN dev.example.com.',
+      'api        IN  A      192.0.2.2'
+    ].join('\n'), ZONE);
+
+    expect(errors).toEqual([]);
+    expect(records.map(({ record }) => record)).toEqual([
+      { type: 'A', name: 'example.com', ttl: 3600, content: '192.0.2.1' },
+      { type: 'CNAME', name: 'www.example.com', ttl: 300, content: 'example.com' },
+      { type: 'MX', name: 'mail.example.com', ttl: 7200, priority: 10, content: 'mx1.example.com' },
+      { type: 'MX', name: 'mail.example.com', ttl: 3600, priority: 20, content: 'mx2.other.net' },
+      { type: 'A', name: 'api.dev.example.com', ttl: 3600, content: '192.0.2.2' }
+    ]);
+    expect(records.map(({ line }) => line)).toEqual([3, 4, 5, 6, 8]);
+  });
+
+  test('should ignore SOA and NS records, comments and blank lines', () => {
+    const { records, errors, warnings } = parseZoneFile([
+      '; exported zone',
+      '',
+      '@ IN SOA ns1.example.com. admin.example.com. (',
+      '     2026010101 ; serial',
+      '     7200 3600 1209600 3600 )',
+      '@ IN NS ns1.example.com.',
+      '@ IN A 192.0.2.1 ; origin'
+    ].join('\n'), ZONE);
+
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([]);
+    expect(records).toHaveLength(1);
+    expect(records[0].line).toBe(7);
+  });
+
+  test('should read the proxy state from Cloudflare cf_tags comments only', () => {
+    const { records } = parseZoneFile([
+      'a 300 IN A 192.0.2.1 ; cf_tags=cf-proxied:true',
+      'b 300 IN A 192.0.2.2 ; cf_tags=cf-proxied:false',
+      'c 300 IN A 192.0.2.3'
+    ].join('\n'), ZONE);
+
+    expect(records.map(({ record }) => record.proxied)).toEqual([true, false, undefined]);
+    expect('proxied' in records[2].record).toBe(false);
+  });
+
+  test('should join TXT chunks and unescape quotes', () => {
+    const { records } = parseZoneFile([
+      '@ IN TXT "v=spf1 include:_spf.example.net " "~all"',
+      'quoted IN TXT "say \\"hi\\"; bye"'
+    ].join('\n'), ZONE);
+
+    expect(records.map(({ record }) => record.content)).toEqual(['v=spf1 include:_spf.example.net ~all', 'say "hi"; bye']);
+  });
+
+  test('should parse SRV and CAA data', () => {
+    const { records, errors } = parseZoneFile([
+      '_sip._tcp IN SRV 10 60 5060 sip',
+      '@ IN CAA 0 ISSUE "letsencrypt.org"'
+    ].join('\n'), ZONE);
+
+    expect(errors).toEqual([]);
+    expect(records[0].record.data).toEqual({ priority: 10, weight: 60, port: 5060, target: 'sip.example.com' });
+    expect(records[1].record.data).toEqual({ flags: 0, tag: 'issue', value: 'letsencrypt.org' });
+  });
+
+  test('should clamp TTLs to the range Cloudflare accepts', () => {
+    const { records } = parseZoneFile([
+      'short 30 IN A 192.0.2.1',
+      'long 1w IN A 192.0.2.2',
+      'auto 1 IN A 192.0.2.3'
+    ].join('\n'), ZONE);
+
+    expect(records.map(({ record }) => record.ttl)).toEqual([60, 86400, 1]);
+  });
+
+  test('should report invalid lines without stopping', () => {
+    const { records, errors, warnings } = parseZoneFile([
+      '  IN A 192.0.2.1',
+      '$INCLUDE other.zone',
+      '$TTL soon',
+      'www.other.net. IN A 192.0.2.1',
+      'bad IN A 999.0.2.1',
+      'mx IN MX 10',
+      'ptr IN PTR host.example.com.',
+      'ok IN A 192.0.2.9'
+    ].join('\n'), ZONE);
+
+    expect(errors.map(({ line }) => line)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(errors[0].message).toBe('Record without owner name');
+    expect(errors[3].message).toBe('www.other.net is outside of zone example.com');
+    expect(errors[5].message).toContain('requires 2 value(s)');
+    expect(warnings).toEqual([{ line: 7, message: 'Record type PTR is not supported and was skipped' }]);
+    expect(records.map(({ record }) => record.name)).toEqual(['ok.example.com']);
+  });
+});
+
+test.describe('Zone file diff', () => {
+  test('should pair records by type and name', () => {
+    const current = [
+      cloudflareRecord({ type: 'A', name: 'example.com', content: '192.0.2.1', proxiable: true, proxied: true }),
+      cloudflareRecord({ type: 'A', name: 'www.example.com', content: '192.0.2.1', ttl: 300 }),
+      cloudflareRecord({ type: 'A', name: 'old.example.com', content: '192.0.2.3' }),
+      cloudflareRecord({ type: 'CNAME', name: 'blog.example.com', content: 'old.host.net' })
+    ];
+    const { records } = parseZoneFile([
+      '@ 3600 IN A 192.0.2.1',
+      'www 600 IN A 192.0.2.1',
+      'blog 3600 IN CNAME new.host.net.',
+      'new 3600 IN A 192.0.2.4'
+    ].join('\n'), ZONE);
+
+    const diff = diffZoneRecords(current, records.map(({ record }) => record));
+
+    expect(diff.unchanged).toBe(1);
+    expect(diff.summary).toEqual({ creates: 1, updates: 2, deletes: 1 });
+    expect(diff.changes.map(({ action, name, recordId }) => ({ action, name, recordId }))).toEqual([
+      { action: 'update', name: 'www.example.com', recordId: current[1].id },
+      { action: 'delete', name: 'old.example.com', recordId: current[2].id },
+      { action: 'update', name: 'blog.example.com', recordId: current[3].id },
+      { action: 'create', name: 'new.example.com', recordId: undefined }
+    ]);
+    expect(diff.changes[2]).toMatchObject({ before: 'old.host.net.', after: 'new.host.net.' });
+  });
+
+  test('should update the proxy state only when the zone file sets it', () => {
+    const current = [cloudflareRecord({ type: 'A', name: 'example.com', content: '192.0.2.1', proxiable: true, proxied: true })];
+    const untagged = parseZoneFile('@ 3600 IN A 192.0.2.1', ZONE).records.map(({ record }) => record);
+    const tagged = parseZoneFile('@ 3600 IN A 192.0.2.1 ; cf_tags=cf-proxied:false', ZONE).records.map(({ record }) => record);
+
+    expect(diffZoneRecords(current, untagged).changes).toEqual([]);
+    expect(diffZoneRecords(current, tagged).summary.updates).toBe(1);
+  });
+
+  test('should never delete locked or unsupported records', () => {
+    const current = [
+      cloudflareRecord({ type: 'A', name: 'locked.example.com', content: '192.0.2.1', locked: true }),
+      cloudflareRecord({ type: 'NS', name: 'example.com', content: 'ns1.example.com' }),
+      cloudflareRecord({ type: 'PTR', name: 'ptr.example.com', content: 'host.example.com' })
+    ];
+
+    expect(diffZoneRecords(current, []).changes).toEqual([]);
+  });
+
+  test('should compare TXT values regardless of chunking and names regardless of case', () => {
+    const current = [
+      cloudflareRecord({ type: 'TXT', name: 'example.com', content: '"v=spf1 " "~all"' }),
+      cloudflareRecord({ type: 'CNAME', name: 'WWW.example.com', content: 'Example.com' })
+    ];
+    const desired = parseZoneFile('@ 3600 IN TXT "v=spf1 ~all"\nwww 3600 IN CNAME example.com.', ZONE).records.map(({ record }) => record);
+
+    expect(diffZoneRecords(current, desired)).toMatchObject({ unchanged: 2, changes: [] });
+  });
+
+  test('should round-trip an export without changes', () => {
+    const current = [
+      cloudflareRecord({ type: 'A', name: 'example.com', content: '192.0.2.1', proxiable: true, proxied: true, ttl: 1 }),
+      cloudflareRecord({ type: 'CNAME', name: 'www.example.com', content: 'example.com', proxiable: true }),
+      cloudflareRecord({ type: 'MX', name: 'example.com', content: 'mx.example.net', priority: 10 }),
+      cloudflareRecord({ type: 'TXT', name: 'example.com', content: `v=DKIM1; p=${'A'.repeat(300)}` }),
+      cloudflareRecord({ type: 'SRV', name: '_sip._tcp.example.com', content: '', data: { priority: 1, weight: 2, port: 5060, target: 'sip.example.com' } }),
+      cloudflareRecord({ type: 'CAA', name: 'example.com', content: '', data: { flags: 0, tag: 'issue', value: 'letsencrypt.org' } })
+    ];
+
+    const exported = exportZoneFile(ZONE, current);
+    const { records, errors } = parseZoneFile(exported, ZONE);
+
+    expect(errors).toEqual([]);
+    expect(records).toHaveLength(current.length);
+    expect(diffZoneRecords(current, records.map(({ record }) => record))).toMatchObject({ unchanged: current.length, changes: [] });
+  });
+});